@@ -153,7 +153,7 @@ export default [
   },
   // Configuration for MCP files with ModelContextProtocol SDK imports
   {
-    files: ["src/mcp/**/*.ts"],
+    files: ["src/mcp/**/*.ts", "test/unit/mcp/**/*.ts"],
     rules: {
       "n/no-missing-import": "off"
     }
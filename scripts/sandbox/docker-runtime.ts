@@ -0,0 +1,594 @@
+import { execSync } from "node:child_process";
+import * as fs from "node:fs";
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { Duplex } from "node:stream";
+import type * as DockerodeTypes from "dockerode";
+
+import { computeCredentialHash } from "../session-utils.js";
+import {
+  RecoveredSandbox,
+  SandboxCreateOptions,
+  SandboxLogger,
+  SandboxRuntime,
+  SandboxSession,
+  sandboxEnvironment,
+  sandboxStream,
+} from "./runtime.js";
+
+const require = createRequire(import.meta.url);
+const Dockerode = require("dockerode");
+
+const DOCKER_NETWORK_NAME = "ably_cli_restricted";
+// Note: Allowed domains are defined in docker/network-security.sh and applied at container runtime
+const MANAGED_BY_LABEL = "ably-cli-terminal-server";
+const CONTAINER_NAME_PREFIX = "ably-cli-session-";
+// Docker echoes the attach options before the TTY output starts
+const ATTACH_HANDSHAKE_PATTERN =
+  /\{[^}]*stream[^}]*stdin[^}]*stdout[^}]*stderr[^}]*hijack[^}]*\}/;
+// Lines of container logs replayed when resuming a session from a previous server process
+const RECOVER_LOG_LINES = 1000;
+
+// The server is started from the project root, where the Dockerfile and docker/ live
+const projectRoot = process.cwd();
+
+// Type for Docker event
+interface DockerEvent {
+  errorDetail?: { message: string };
+  stream?: string;
+  [key: string]: unknown;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+class DockerSandboxSession implements SandboxSession {
+  readonly id: string;
+  private container: DockerodeTypes.Container;
+  private logger: SandboxLogger;
+  private stopped = false;
+  private stream?: Duplex;
+
+  constructor(container: DockerodeTypes.Container, logger: SandboxLogger) {
+    this.container = container;
+    this.id = container.id;
+    this.logger = logger;
+  }
+
+  /**
+   * Attach directly to the container's main TTY so that the same shell
+   * process stays alive across WebSocket reconnects. Docker allows multiple
+   * attachments to a running container provided TTY=true.
+   */
+  async attach(): Promise<Duplex> {
+    // Close the previous attachment first; otherwise Docker keeps the old
+    // hijacked connection open, which steals STDIN and leaves the new
+    // attachment read-only.
+    this.stream?.destroy();
+
+    const containerStream = (await this.container.attach({
+      hijack: true,
+      stderr: true,
+      stdin: true,
+      stdout: true,
+      stream: true,
+    })) as Duplex;
+
+    const stream = sandboxStream({
+      onDestroy: () => containerStream.destroy(),
+      write: (chunk) => containerStream.write(chunk),
+    });
+
+    let handshakeHandled = false;
+    containerStream.on("data", (chunk: Buffer) => {
+      if (handshakeHandled) {
+        stream.push(chunk);
+        return;
+      }
+
+      const text = chunk.toString("utf8");
+      const match = text.match(ATTACH_HANDSHAKE_PATTERN);
+      if (!match) {
+        stream.push(chunk);
+        return;
+      }
+
+      this.logger.log("Swallowed Docker attach handshake JSON (regex match)");
+      handshakeHandled = true;
+      const before = text.slice(0, match.index);
+      const after = text.slice(match.index! + match[0].length);
+      if (before.length > 0) stream.push(before);
+      if (after.length > 0) stream.push(after);
+    });
+    containerStream.on("end", () => stream.push(null));
+    containerStream.on("close", () => stream.destroy());
+    containerStream.on("error", (error) => stream.destroy(error));
+
+    this.stream = stream;
+    this.logger.log(`Attached stream to container ${this.id}`);
+    return stream;
+  }
+
+  async resize(cols: number, rows: number): Promise<void> {
+    await this.container.resize({ h: rows, w: cols });
+  }
+
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.stream?.destroy();
+
+    this.logger.log(`Stopping and removing container ${this.id}...`);
+    try {
+      await this.container.stop({ t: 5 }); // Allow 5 seconds to stop
+    } catch (error) {
+      // Ignore "container already stopped" or "no such container" errors
+      if (
+        !/already stopped|not modified|no such container/i.test(
+          errorMessage(error),
+        )
+      ) {
+        this.logger.logError(
+          `Error stopping container ${this.id}: ${errorMessage(error)}`,
+        );
+      }
+    }
+
+    try {
+      await this.container.remove({ force: true });
+      this.logger.log(`Container ${this.id} removed.`);
+    } catch (error) {
+      // Ignore "no such container" errors
+      if (!/no such container|already in progress/i.test(errorMessage(error))) {
+        this.logger.logError(
+          `Error removing container ${this.id}: ${errorMessage(error)}`,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Runs each session in a hardened ably-cli-sandbox container, with a
+ * read-only filesystem, seccomp and (when loaded) AppArmor profiles,
+ * resource limits and a restricted network
+ */
+export class DockerSandboxRuntime implements SandboxRuntime {
+  readonly name = "docker" as const;
+  private docker: DockerodeTypes;
+  private imageName: string;
+  private isAppArmorProfileLoaded = false;
+  private logger: SandboxLogger;
+  private seccompProfileContent = "{}";
+
+  constructor(logger: SandboxLogger, options: { imageName: string }) {
+    this.docker = new Dockerode();
+    this.imageName = options.imageName;
+    this.logger = logger;
+  }
+
+  async create(options: SandboxCreateOptions): Promise<SandboxSession> {
+    const container = await this.createContainer(options);
+    await container.start();
+    this.logger.log(`Container started successfully: ${container.id}`);
+    return new DockerSandboxSession(container, this.logger);
+  }
+
+  async prepare(): Promise<void> {
+    try {
+      await this.createSecureNetwork();
+    } catch (error) {
+      this.logger.logError(`Failed to create secure network: ${error}`);
+      this.logger.log("Continuing with default network configuration");
+    }
+
+    this.loadSeccompProfile();
+    await this.cleanupStaleContainers();
+    await this.ensureDockerImage();
+    this.checkAppArmorProfileStatus();
+  }
+
+  /**
+   * Locate a container whose name encodes the session ID, reading the
+   * credentials it was started with from its environment
+   */
+  async recover(sessionId: string): Promise<RecoveredSandbox | undefined> {
+    // Look for a container whose name matches exactly (running or stopped)
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: JSON.stringify({
+        name: [`${CONTAINER_NAME_PREFIX}${sessionId}`],
+      }),
+    });
+    if (containers.length === 0) return undefined;
+
+    const container = this.docker.getContainer(containers[0].Id);
+    const sandbox = new DockerSandboxSession(container, this.logger);
+    if (containers[0].State !== "running") {
+      return {
+        createdAt: Date.now(),
+        credentialHash: "",
+        recentOutput: [],
+        running: false,
+        sandbox,
+      };
+    }
+
+    // Inspect to get environment for credential validation & timestamps
+    const inspect = await container.inspect();
+    const envMap: Record<string, string> = {};
+    for (const kv of inspect.Config?.Env ?? []) {
+      const idx = kv.indexOf("=");
+      if (idx !== -1) {
+        envMap[kv.slice(0, idx)] = kv.slice(idx + 1);
+      }
+    }
+
+    // Replay recent logs as best-effort
+    const recentOutput: string[] = [];
+    try {
+      const logBuff = await container.logs({
+        stderr: true,
+        stdout: true,
+        tail: RECOVER_LOG_LINES,
+      });
+      const logStr = Buffer.isBuffer(logBuff)
+        ? logBuff.toString("utf8")
+        : String(logBuff);
+      recentOutput.push(
+        ...logStr.split(/\r?\n/).filter((line) => line.length > 0),
+      );
+    } catch (error) {
+      this.logger.logError(
+        `Failed to fetch container logs for replay: ${error}`,
+      );
+    }
+
+    return {
+      // Use container creation time as session creation time fallback
+      createdAt: new Date(inspect.Created).getTime() || Date.now(),
+      credentialHash: computeCredentialHash(
+        envMap.ABLY_API_KEY ?? "",
+        envMap.ABLY_ACCESS_TOKEN ?? "",
+      ),
+      recentOutput,
+      running: true,
+      sandbox,
+    };
+  }
+
+  // Check the AppArmor profile status ONCE on startup
+  private checkAppArmorProfileStatus(): void {
+    try {
+      this.logger.log("Checking AppArmor profile status...");
+      // Check if our AppArmor profile exists in the standard location
+      const appArmorCheck = execSync(
+        'apparmor_parser -QT /etc/apparmor.d/docker-ably-cli-sandbox 2>/dev/null || echo "notfound"',
+      )
+        .toString()
+        .trim();
+
+      this.isAppArmorProfileLoaded = appArmorCheck !== "notfound";
+      this.logger.log(
+        this.isAppArmorProfileLoaded
+          ? "AppArmor profile found and seems loaded."
+          : "AppArmor profile not found or not loaded, will use unconfined.",
+      );
+    } catch (error) {
+      this.logger.log(
+        `AppArmor check command failed, assuming profile not loaded: ${errorMessage(error)}`,
+      );
+      this.isAppArmorProfileLoaded = false;
+    }
+  }
+
+  // Remove stopped containers left by previous server processes. Running
+  // containers are kept so their sessions can be resumed after a restart.
+  private async cleanupStaleContainers(): Promise<void> {
+    this.logger.log("Checking for stale containers managed by this server...");
+    try {
+      const containers = await this.docker.listContainers({
+        all: true, // List all containers (running and stopped)
+        filters: JSON.stringify({ label: [`managed-by=${MANAGED_BY_LABEL}`] }),
+      });
+
+      if (containers.length === 0) {
+        this.logger.log("No stale containers found.");
+        return;
+      }
+
+      this.logger.log(
+        `Found ${containers.length} stale container(s). Attempting removal...`,
+      );
+      await Promise.allSettled(
+        containers.map(async (containerInfo: DockerodeTypes.ContainerInfo) => {
+          if (containerInfo.State === "running") {
+            this.logger.log(
+              `Skipping running container ${containerInfo.Id}; may belong to an active session.`,
+            );
+            return;
+          }
+
+          try {
+            this.logger.log(
+              `Removing stale container ${containerInfo.Id} (state: ${containerInfo.State}) ...`,
+            );
+            await this.docker
+              .getContainer(containerInfo.Id)
+              .remove({ force: true });
+            this.logger.log(`Removed stale container ${containerInfo.Id}.`);
+          } catch (error) {
+            // Ignore "no such container" errors, it might have been removed already
+            if (!/no such container/i.test(errorMessage(error))) {
+              this.logger.logError(
+                `Failed to remove stale container ${containerInfo.Id}: ${errorMessage(error)}`,
+              );
+            }
+          }
+        }),
+      );
+      this.logger.log("Stale container cleanup finished.");
+    } catch (error) {
+      // Continue starting the server even if cleanup fails
+      this.logger.logError(
+        `Error during stale container cleanup: ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  private async containerNetworkExists(): Promise<boolean> {
+    try {
+      this.logger.log(`Checking if network ${DOCKER_NETWORK_NAME} exists...`);
+      const networks = await this.docker.listNetworks({
+        filters: { name: [DOCKER_NETWORK_NAME] },
+      });
+      return networks.length > 0;
+    } catch (error) {
+      this.logger.logError(`Error checking network existence: ${error}`);
+      return false; // Fallback to default network on error
+    }
+  }
+
+  private async createContainer(
+    options: SandboxCreateOptions,
+  ): Promise<DockerodeTypes.Container> {
+    this.logger.log("Creating Docker container (TTY Mode)...");
+    const env = Object.entries({
+      ...sandboxEnvironment(options),
+      // Enable history with reasonable defaults
+      HISTFILE: "/home/appuser/.bash_history",
+      HISTSIZE: "1000",
+    }).map(([key, value]) => `${key}=${value}`);
+
+    // Configure security options using file content
+    const securityOpt = [
+      "no-new-privileges",
+      `seccomp=${this.seccompProfileContent}`,
+    ];
+    if (this.isAppArmorProfileLoaded) {
+      this.logger.log("Applying AppArmor profile: ably-cli-sandbox-profile");
+      securityOpt.push("apparmor=ably-cli-sandbox-profile");
+    } else {
+      this.logger.log("Applying AppArmor profile: unconfined");
+      securityOpt.push("apparmor=unconfined");
+    }
+
+    try {
+      const container = await this.docker.createContainer({
+        AttachStderr: true,
+        AttachStdin: true,
+        AttachStdout: true,
+        // Explicitly set the command to run the restricted shell script
+        Cmd: ["/bin/bash", "/scripts/restricted-shell.sh"],
+        Env: env,
+        HostConfig: {
+          // Set to false to prevent container from being removed before we can attach
+          AutoRemove: false,
+          // Drop all capabilities, including network administration, privileged ports and raw sockets
+          CapDrop: ["ALL", "NET_ADMIN", "NET_BIND_SERVICE", "NET_RAW"],
+          Memory: 256 * 1024 * 1024, // 256MB
+          MemorySwap: 256 * 1024 * 1024, // Disable swap
+          // Mount a tmpfs for the Ably config directory
+          Mounts: [
+            {
+              Target: "/home/appuser/.ably",
+              TmpfsOptions: {
+                Mode: 0o700, // Secure permissions
+                SizeBytes: 10 * 1024 * 1024, // 10MB
+              },
+              Type: "tmpfs",
+              // tmpfs mounts have no source, which the Dockerode types require
+            } as DockerodeTypes.MountSettings,
+          ],
+          NanoCpus: 1 * 1_000_000_000, // Limit to 1 CPU
+          // Use default bridge network if the custom network doesn't exist
+          NetworkMode: (await this.containerNetworkExists())
+            ? DOCKER_NETWORK_NAME
+            : "bridge",
+          PidsLimit: 50, // Limit to 50 processes
+          ReadonlyRootfs: true,
+          SecurityOpt: securityOpt,
+          // Add tmpfs mounts for writable directories
+          Tmpfs: {
+            "/run": "rw,noexec,nosuid,size=32m",
+            "/tmp": "rw,noexec,nosuid,size=64m",
+          },
+        },
+        Image: this.imageName,
+        Labels: { "managed-by": MANAGED_BY_LABEL },
+        OpenStdin: true,
+        StdinOnce: false,
+        StopSignal: "SIGTERM",
+        StopTimeout: 5,
+        Tty: true,
+        // Explicitly set the user to non-root for security; this works with user namespace remapping
+        User: "appuser",
+        WorkingDir: "/home/appuser",
+        name: `${CONTAINER_NAME_PREFIX}${options.sessionId}`,
+      });
+
+      this.logger.log(
+        `Container ${container.id} created with security hardening:`,
+      );
+      this.logger.log(`- Read-only filesystem: yes`);
+      this.logger.log(`- User namespace remapping compatibility: yes`);
+      this.logger.log(`- Seccomp filtering: yes`);
+      this.logger.log(
+        `- AppArmor profile: ${this.isAppArmorProfileLoaded ? "yes" : "no"}`,
+      );
+      return container;
+    } catch (error) {
+      this.logger.logError(`Error creating container: ${error}`);
+      throw error;
+    }
+  }
+
+  // Create a Docker network for session containers. Additional filtering
+  // (iptables rules or DNS filtering) is set up on the Docker host.
+  private async createSecureNetwork(): Promise<void> {
+    this.logger.log("Setting up secure Docker network for containers...");
+    const networks = await this.docker.listNetworks({
+      filters: { name: [DOCKER_NETWORK_NAME] },
+    });
+    if (networks.length > 0) {
+      this.logger.log(
+        `Network ${DOCKER_NETWORK_NAME} already exists, skipping creation`,
+      );
+      return;
+    }
+
+    await this.docker.createNetwork({
+      Driver: "bridge",
+      EnableIPv6: false,
+      Internal: false, // Allow internet access but we'll restrict with rules
+      Labels: {
+        "managed-by": MANAGED_BY_LABEL,
+        purpose: "security-hardened-network",
+      },
+      Name: DOCKER_NETWORK_NAME,
+      Options: {
+        "com.docker.network.bridge.enable_ip_masquerade": "true",
+        "com.docker.network.driver.mtu": "1500",
+      },
+    });
+    this.logger.log(`Created secure network: ${DOCKER_NETWORK_NAME}`);
+  }
+
+  private async ensureDockerImage(): Promise<void> {
+    const imageName = this.imageName;
+    this.logger.log(`Ensuring Docker image ${imageName} exists...`);
+    try {
+      const images = await this.docker.listImages({
+        filters: { reference: [imageName] },
+      });
+
+      if (
+        process.env.FORCE_REBUILD_SANDBOX_IMAGE === "true" &&
+        images.length > 0
+      ) {
+        this.logger.log(
+          `FORCE_REBUILD_SANDBOX_IMAGE is set. Removing existing image ${imageName} to trigger rebuild.`,
+        );
+        try {
+          await this.docker.getImage(images[0].Id).remove({ force: true });
+          this.logger.log(`Removed existing image ${images[0].Id}.`);
+        } catch (error) {
+          this.logger.logError(`Failed to remove image for rebuild: ${error}`);
+        }
+      }
+
+      // Re-query images after potential removal
+      const imagesPostCheck = await this.docker.listImages({
+        filters: { reference: [imageName] },
+      });
+      if (imagesPostCheck.length > 0) {
+        this.logger.log(`Docker image ${imageName} found.`);
+        return;
+      }
+
+      this.logger.log(
+        `Image ${imageName} not found. Will attempt to build it.`,
+      );
+      const dockerfilePath = path.resolve(projectRoot, "Dockerfile");
+      if (!fs.existsSync(dockerfilePath)) {
+        throw new Error(`Dockerfile not found at ${dockerfilePath}`);
+      }
+
+      // Try building via Docker CLI first (more reliable than SDK)
+      try {
+        this.logger.log(
+          `Building with docker command: docker build -t ${imageName} ${projectRoot}`,
+        );
+        const output = execSync(`docker build -t ${imageName} ${projectRoot}`, {
+          stdio: ["ignore", "pipe", "pipe"],
+        }).toString();
+        this.logger.log(`Docker build output: ${output.slice(0, 200)}...`);
+        this.logger.log(
+          `Docker image ${imageName} built successfully using CLI.`,
+        );
+        return;
+      } catch (error) {
+        this.logger.log(
+          `Failed to build using Docker CLI: ${error}. Falling back to Docker SDK.`,
+        );
+      }
+
+      try {
+        this.logger.log("Attempting to build image using Docker SDK...");
+        const stream = await this.docker.buildImage(
+          { context: projectRoot, src: ["Dockerfile"] },
+          { t: imageName },
+        );
+        await new Promise((resolve, reject) => {
+          this.docker.modem.followProgress(
+            stream,
+            (err: Error | null, res: unknown) =>
+              err ? reject(err) : resolve(res),
+            (event: DockerEvent) => {
+              if (event.stream) process.stdout.write(event.stream); // Log build output
+              if (event.errorDetail)
+                this.logger.logError(event.errorDetail.message);
+            },
+          );
+        });
+        this.logger.log(
+          `Docker image ${imageName} built successfully using SDK.`,
+        );
+      } catch (error) {
+        this.logger.logError(
+          `Failed to build Docker image ${imageName}: ${error}`,
+        );
+        throw new Error(
+          `Failed to build Docker image "${imageName}". Please build it manually using "docker build -t ${imageName} ." in the project root.`,
+        );
+      }
+    } catch (error) {
+      this.logger.logError(`Error checking/building Docker image: ${error}`);
+      if (errorMessage(error).includes("Cannot connect to the Docker daemon")) {
+        throw new Error(
+          "Failed to connect to Docker. Is the Docker daemon running and accessible?",
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  private loadSeccompProfile(): void {
+    const seccompProfilePath = path.resolve(
+      projectRoot,
+      "docker/seccomp-profile.json",
+    );
+    try {
+      const raw = fs.readFileSync(seccompProfilePath, "utf8");
+      this.seccompProfileContent = JSON.stringify(JSON.parse(raw));
+      this.logger.log("Seccomp profile loaded successfully.");
+    } catch (error) {
+      this.logger.logError(
+        `Failed to load or parse seccomp profile at ${seccompProfilePath}: ${error}`,
+      );
+      this.seccompProfileContent = "{}";
+    }
+  }
+}
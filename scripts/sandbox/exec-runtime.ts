@@ -0,0 +1,121 @@
+import { ChildProcess, spawn } from "node:child_process";
+import { Duplex } from "node:stream";
+
+import {
+  SandboxCreateOptions,
+  SandboxLogger,
+  SandboxRuntime,
+  SandboxSession,
+  sandboxEnvironment,
+  sandboxStream,
+} from "./runtime.js";
+
+// Time a session command has to exit after SIGTERM before it is killed
+const STOP_TIMEOUT_MS = 5000;
+
+class ExecSandboxSession implements SandboxSession {
+  readonly id: string;
+  private child: ChildProcess;
+  private exited: Promise<void>;
+  private hasExited = false;
+  private stream?: Duplex;
+
+  constructor(child: ChildProcess) {
+    this.child = child;
+    this.id = `pid-${child.pid}`;
+    for (const output of [child.stdout, child.stderr]) {
+      output?.on("data", (chunk: Buffer) => this.stream?.push(chunk));
+    }
+    // Writes after the command exits fail with EPIPE, which would otherwise be thrown
+    child.stdin?.on("error", () => {});
+    this.exited = new Promise((resolve) => {
+      child.once("close", () => {
+        this.hasExited = true;
+        this.stream?.push(null);
+        resolve();
+      });
+    });
+  }
+
+  async attach(): Promise<Duplex> {
+    const previous = this.stream;
+    const stream = sandboxStream({
+      onDestroy: () => {
+        if (this.stream === stream) this.stream = undefined;
+      },
+      write: (chunk) => {
+        this.child.stdin?.write(chunk);
+      },
+    });
+    this.stream = stream;
+    previous?.destroy();
+    if (this.hasExited) stream.push(null);
+    return stream;
+  }
+
+  // There is no terminal on this side of the pipe to resize
+  async resize(): Promise<void> {}
+
+  async stop(): Promise<void> {
+    this.stream?.destroy();
+    if (this.hasExited) return;
+
+    this.child.kill("SIGTERM");
+    const killTimer = setTimeout(
+      () => this.child.kill("SIGKILL"),
+      STOP_TIMEOUT_MS,
+    );
+    await this.exited;
+    clearTimeout(killTimer);
+  }
+}
+
+/**
+ * Runs a configured command for each session and talks to it over its stdin
+ * and stdout, e.g. `ssh -tt sandbox-host ably-session` or `kubectl exec -i`.
+ * The command gets the session's credentials, ABLY_CLI_SESSION_ID and the
+ * client's variables as JSON in ABLY_CLI_CLIENT_ENV. It should allocate a
+ * terminal on the far side, as nothing here echoes input or handles resizes.
+ */
+export class ExecSandboxRuntime implements SandboxRuntime {
+  readonly name = "exec" as const;
+  private command: string;
+  private logger: SandboxLogger;
+
+  constructor(logger: SandboxLogger, options: { command: string }) {
+    this.command = options.command;
+    this.logger = logger;
+  }
+
+  async create(options: SandboxCreateOptions): Promise<SandboxSession> {
+    const child = spawn(this.command, {
+      // The command runs on this host, so the client's variables must not
+      // change its PATH, LD_PRELOAD and the like. They are passed on as JSON
+      // for the far side to apply.
+      env: {
+        ...process.env,
+        ...sandboxEnvironment(options, false),
+        ABLY_CLI_CLIENT_ENV: JSON.stringify(options.environmentVariables),
+        ABLY_CLI_SESSION_ID: options.sessionId,
+      },
+      shell: true,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      child.once("spawn", resolve);
+      child.once("error", reject);
+    });
+
+    this.logger.log(
+      `Started session command (pid ${child.pid}) for session ${options.sessionId}`,
+    );
+    return new ExecSandboxSession(child);
+  }
+
+  async prepare(): Promise<void> {
+    this.logger.log(
+      `Using the exec sandbox runtime: sessions run "${this.command}"`,
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { DockerSandboxRuntime } from "./docker-runtime.js";
+import { ExecSandboxRuntime } from "./exec-runtime.js";
+import { LocalPtySandboxRuntime } from "./local-pty-runtime.js";
+import { SANDBOX_RUNTIMES, SandboxLogger, SandboxRuntime } from "./runtime.js";
+
+export * from "./runtime.js";
+
+/**
+ * Create the runtime named by TERMINAL_SANDBOX_RUNTIME (docker by default)
+ */
+export function createSandboxRuntime(
+  name: string,
+  logger: SandboxLogger,
+  env: NodeJS.ProcessEnv = process.env,
+): SandboxRuntime {
+  switch (name) {
+    case "docker": {
+      return new DockerSandboxRuntime(logger, {
+        imageName: env.DOCKER_IMAGE_NAME || "ably-cli-sandbox",
+      });
+    }
+
+    case "exec": {
+      const command = env.TERMINAL_SANDBOX_EXEC_COMMAND;
+      if (!command) {
+        throw new Error(
+          "TERMINAL_SANDBOX_EXEC_COMMAND must be set to use the exec sandbox runtime",
+        );
+      }
+
+      return new ExecSandboxRuntime(logger, { command });
+    }
+
+    case "local": {
+      return new LocalPtySandboxRuntime(logger, {
+        shell: env.TERMINAL_SANDBOX_LOCAL_SHELL,
+      });
+    }
+
+    default: {
+      throw new Error(
+        `Unknown sandbox runtime "${name}". Expected one of: ${SANDBOX_RUNTIMES.join(", ")}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import * as fs from "node:fs";
+import { createRequire } from "node:module";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Duplex } from "node:stream";
+
+import {
+  SandboxCreateOptions,
+  SandboxLogger,
+  SandboxRuntime,
+  SandboxSession,
+  sandboxEnvironment,
+  sandboxStream,
+} from "./runtime.js";
+
+const require = createRequire(import.meta.url);
+
+// The server is started from the project root, so that `ably` runs this checkout
+const projectRoot = process.cwd();
+
+// The subset of node-pty used here. node-pty is an optional native module,
+// only loaded when this runtime is selected.
+interface Pty {
+  kill(signal?: string): void;
+  onData(listener: (data: string) => void): void;
+  onExit(
+    listener: (event: { exitCode: number; signal?: number }) => void,
+  ): void;
+  readonly pid: number;
+  resize(cols: number, rows: number): void;
+  write(data: string): void;
+}
+
+interface NodePty {
+  spawn(
+    file: string,
+    args: string[],
+    options: {
+      cols: number;
+      cwd: string;
+      env: Record<string, string>;
+      name: string;
+      rows: number;
+    },
+  ): Pty;
+}
+
+class LocalPtySandboxSession implements SandboxSession {
+  readonly id: string;
+  private exited = false;
+  private home: string;
+  private pty: Pty;
+  private stream?: Duplex;
+
+  constructor(pty: Pty, home: string) {
+    this.pty = pty;
+    this.home = home;
+    this.id = `pid-${pty.pid}`;
+    pty.onData((data) => this.stream?.push(data));
+    pty.onExit(() => {
+      this.exited = true;
+      this.stream?.push(null);
+      fs.rmSync(this.home, { force: true, recursive: true });
+    });
+  }
+
+  async attach(): Promise<Duplex> {
+    const previous = this.stream;
+    const stream = sandboxStream({
+      onDestroy: () => {
+        if (this.stream === stream) this.stream = undefined;
+      },
+      write: (chunk) => this.pty.write(chunk.toString("utf8")),
+    });
+    this.stream = stream;
+    previous?.destroy();
+    if (this.exited) stream.push(null);
+    return stream;
+  }
+
+  async resize(cols: number, rows: number): Promise<void> {
+    if (!this.exited) this.pty.resize(cols, rows);
+  }
+
+  async stop(): Promise<void> {
+    this.stream?.destroy();
+    if (!this.exited) this.pty.kill();
+  }
+}
+
+/**
+ * Runs each session as a shell on this machine in a pseudo-terminal, with its
+ * own temporary home directory. There is no isolation from the host, so this
+ * is only for development and tests.
+ */
+export class LocalPtySandboxRuntime implements SandboxRuntime {
+  readonly name = "local" as const;
+  private logger: SandboxLogger;
+  private pty?: NodePty;
+  private shell: string;
+
+  constructor(logger: SandboxLogger, options: { shell?: string }) {
+    this.logger = logger;
+    this.shell = options.shell || process.env.SHELL || "/bin/bash";
+  }
+
+  async create(options: SandboxCreateOptions): Promise<SandboxSession> {
+    if (!this.pty) {
+      throw new Error("The local sandbox runtime has not been prepared");
+    }
+
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), "ably-cli-session-"));
+    const pty = this.pty.spawn(this.shell, [], {
+      cols: 80,
+      cwd: home,
+      env: {
+        ...sandboxEnvironment(options),
+        HOME: home,
+        PATH: `${path.join(projectRoot, "bin")}${path.delimiter}${process.env.PATH ?? ""}`,
+      },
+      name: "xterm-256color",
+      rows: 24,
+    });
+    this.logger.log(
+      `Started ${this.shell} (pid ${pty.pid}) for session ${options.sessionId}`,
+    );
+    return new LocalPtySandboxSession(pty, home);
+  }
+
+  async prepare(): Promise<void> {
+    try {
+      this.pty = require("node-pty") as NodePty;
+    } catch (error) {
+      throw new Error(
+        `The local sandbox runtime needs node-pty, which could not be loaded (${error instanceof Error ? error.message : String(error)}). Install it with "pnpm add -D node-pty".`,
+      );
+    }
+
+    this.logger.log(
+      `Using the local sandbox runtime: sessions run ${this.shell} on this machine WITHOUT isolation. Use it for development only.`,
+    );
+  }
+}
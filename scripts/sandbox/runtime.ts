@@ -0,0 +1,120 @@
+import { Duplex } from "node:stream";
+
+export const SANDBOX_RUNTIMES = ["docker", "local", "exec"] as const;
+export type SandboxRuntimeName = (typeof SANDBOX_RUNTIMES)[number];
+
+export interface SandboxLogger {
+  log(message: string): void;
+  logError(message: unknown): void;
+}
+
+export interface SandboxCreateOptions {
+  accessToken: string;
+  apiKey: string;
+  /** Extra variables requested by the client, which never override the defaults */
+  environmentVariables: Record<string, string>;
+  sessionId: string;
+}
+
+/**
+ * A running shell for one terminal session. It outlives the WebSocket that
+ * started it, so that a client can reconnect and attach to it again.
+ */
+export interface SandboxSession {
+  /** Container ID, process ID or similar, for logging */
+  readonly id: string;
+  /**
+   * Return a stream carrying the shell's terminal input and output. Each call
+   * replaces the previous stream; the stream ends when the shell exits.
+   */
+  attach(): Promise<Duplex>;
+  resize(cols: number, rows: number): Promise<void>;
+  /** Stop the shell and release everything it holds. Safe to call twice. */
+  stop(): Promise<void>;
+}
+
+/** A sandbox left running by a previous server process */
+export interface RecoveredSandbox {
+  createdAt: number;
+  /** Hash of the credentials the sandbox was started with */
+  credentialHash: string;
+  /** Recent output to replay to the client, oldest first */
+  recentOutput: string[];
+  running: boolean;
+  sandbox: SandboxSession;
+}
+
+/**
+ * Where terminal sessions run. The server handles authentication, resume,
+ * output buffering and timeouts the same way whichever runtime is used.
+ */
+export interface SandboxRuntime {
+  create(options: SandboxCreateOptions): Promise<SandboxSession>;
+  readonly name: SandboxRuntimeName;
+  /** Check the runtime can start sessions, run once before the server listens */
+  prepare(): Promise<void>;
+  /**
+   * Find the sandbox of a session started by a previous server process.
+   * Runtimes whose sandboxes end with the server do not implement this.
+   */
+  recover?(sessionId: string): Promise<RecoveredSandbox | undefined>;
+}
+
+/**
+ * Variables every sandbox gets, giving the CLI a plain terminal and the
+ * session's credentials. The client's variables are added unless
+ * includeClientVariables is false, for commands that run on the server host.
+ */
+export function sandboxEnvironment(
+  options: SandboxCreateOptions,
+  includeClientVariables = true,
+): Record<string, string> {
+  const env: Record<string, string> = {
+    CLICOLOR: "1",
+    COLORTERM: "truecolor",
+    LANG: "en_US.UTF-8",
+    LC_ALL: "en_US.UTF-8",
+    LC_CTYPE: "en_US.UTF-8",
+    PS1: "$ ",
+    TERM: "dumb", // Disable ANSI escape sequences to fix spinner bug from Ora
+    // Only include credentials that have a non-empty value
+    ...(options.apiKey ? { ABLY_API_KEY: options.apiKey } : {}),
+    ...(options.accessToken ? { ABLY_ACCESS_TOKEN: options.accessToken } : {}),
+  };
+
+  if (!includeClientVariables) return env;
+
+  for (const [key, value] of Object.entries(options.environmentVariables)) {
+    env[key] ??= value;
+  }
+
+  return env;
+}
+
+/**
+ * A stream for one attachment to a sandbox. Input written to it is passed to
+ * `write`; the runtime pushes output into it, and pushes null when the shell
+ * exits. Destroying it detaches without stopping the shell.
+ */
+export function sandboxStream(options: {
+  onDestroy?: () => void;
+  write(chunk: Buffer): void;
+}): Duplex {
+  return new Duplex({
+    destroy(error, callback) {
+      options.onDestroy?.();
+      callback(error);
+    },
+    read() {
+      // Output is pushed by the runtime as it arrives
+    },
+    write(chunk: Buffer, _encoding, callback) {
+      try {
+        options.write(chunk);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
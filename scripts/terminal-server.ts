@@ -1,30 +1,13 @@
 import { WebSocket, WebSocketServer } from "ws";
-import * as path from "node:path";
-import { fileURLToPath } from "node:url";
 import { Duplex } from "node:stream";
-import * as stream from "node:stream";
 import * as crypto from "node:crypto";
 import * as http from "node:http";
 import * as jwt from "jsonwebtoken";
-import { execSync } from "node:child_process";
-// Import Dockerode with type import for type checking
-import { createRequire } from "node:module";
-const require = createRequire(import.meta.url);
-const Dockerode = require("dockerode");
 import process from 'node:process';
-import * as fs from "node:fs"; // Import fs
 import { ChildProcess } from "node:child_process";
 import { computeCredentialHash } from './session-utils.js';
 import { pathToFileURL } from 'node:url';
-import type * as DockerodeTypes from "dockerode";
-
-// Constants for Docker configuration
-const DOCKER_IMAGE_NAME = process.env.DOCKER_IMAGE_NAME || 'ably-cli-sandbox';
-const DOCKER_NETWORK_NAME = 'ably_cli_restricted';
-// Note: Allowed domains are defined in docker/network-security.sh and applied at container runtime
-
-// Simplified __dirname calculation
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
+import { SandboxRuntime, SandboxSession, createSandboxRuntime } from './sandbox/index.js';
 
 // --- Configuration ---
 const _SESSION_TIMEOUT_MS = 1000 * 60 * 15; // 15 minutes
@@ -42,17 +25,6 @@ const OUTPUT_BUFFER_MAX_LINES = 1000;
 // Time window during which a disconnected session may be resumed (ms)
 const RESUME_GRACE_MS = 60_000;
 
-// Type definitions for Docker objects
-type DockerContainer = DockerodeTypes.Container;
-type DockerExec = DockerodeTypes.Exec;
-
-// Type for Docker event
-interface DockerEvent {
-  stream?: string;
-  errorDetail?: { message: string };
-  [key: string]: unknown;
-}
-
 // Define the message structure for server-to-client status updates
 type ServerStatusMessage = {
   type: "status";
@@ -65,10 +37,9 @@ type ClientSession = {
   ws: WebSocket;
   authenticated: boolean;
   timeoutId: NodeJS.Timeout;
-  container?: DockerContainer;
-  execInstance?: DockerExec;
-  stdinStream?: stream.Duplex;
-  stdoutStream?: stream.Duplex;
+  sandbox?: SandboxSession;
+  stdinStream?: Duplex;
+  stdoutStream?: Duplex;
   sessionId: string;
   // Add activity tracking fields
   lastActivityTime: number;
@@ -85,24 +56,9 @@ type ClientSession = {
   _debugLoggedFirstKey?: boolean;
 };
 
-// Variable to store AppArmor profile status - checked once on startup
-let isAppArmorProfileLoaded = false;
-
 const sessions = new Map<string, ClientSession>();
-const docker = new Dockerode();
-
-// Read seccomp profile content once on startup
-const projectRoot = process.cwd(); // Get project root
-const seccompProfilePath = path.resolve(projectRoot, 'docker/seccomp-profile.json');
-let seccompProfileContent: string;
-try {
-  const seccompProfileContentRaw = fs.readFileSync(seccompProfilePath, 'utf8');
-  seccompProfileContent = JSON.stringify(JSON.parse(seccompProfileContentRaw));
-  log("Seccomp profile loaded successfully.");
-} catch (error) {
-  logError(`Failed to load or parse seccomp profile at ${seccompProfilePath}: ${error}`);
-  seccompProfileContent = '{}';
-}
+// Where sessions run, chosen with TERMINAL_SANDBOX_RUNTIME when the server starts
+let runtime: SandboxRuntime | undefined;
 
 // Shared variables
 let terminalServerProcess: ChildProcess | undefined;
@@ -119,307 +75,6 @@ function logError(message: unknown): void {
     }
 }
 
-// Function to check AppArmor profile status ONCE on startup
-function checkAppArmorProfileStatus(): void {
-  try {
-      log("Checking AppArmor profile status...");
-      // Check if our AppArmor profile exists in the standard location
-      const appArmorCheck = execSync('apparmor_parser -QT /etc/apparmor.d/docker-ably-cli-sandbox 2>/dev/null || echo "notfound"').toString().trim();
-
-      if (appArmorCheck === 'notfound') {
-          log('AppArmor profile not found or not loaded, will use unconfined.');
-          isAppArmorProfileLoaded = false;
-      } else {
-          log('AppArmor profile found and seems loaded.');
-          isAppArmorProfileLoaded = true;
-      }
-  } catch (error) {
-      log(`AppArmor check command failed, assuming profile not loaded: ${error instanceof Error ? error.message : String(error)}`);
-      isAppArmorProfileLoaded = false;
-  }
-}
-
-// Function to clean up stale containers on startup
-async function cleanupStaleContainers(): Promise<void> {
-  log("Checking for stale containers managed by this server...");
-  try {
-    const containers = await docker.listContainers({
-      all: true, // List all containers (running and stopped)
-      filters: JSON.stringify({
-        label: ["managed-by=ably-cli-terminal-server"],
-      }),
-    });
-
-    if (containers.length === 0) {
-      log("No stale containers found.");
-      return;
-    }
-
-    log(`Found ${containers.length} stale container(s). Attempting removal...`);
-    const removalPromises = containers.map(async (containerInfo: DockerodeTypes.ContainerInfo) => {
-      // Skip containers that are still running so that live sessions can be
-      // resumed after a server restart (e.g. during CI E2E tests).
-      // We consider a container "stale" only if it is *not* running.
-      if (containerInfo.State === 'running') {
-        log(`Skipping running container ${containerInfo.Id}; may belong to an active session.`);
-        return;
-      }
-
-      try {
-        const container = docker.getContainer(containerInfo.Id);
-        log(`Removing stale container ${containerInfo.Id} (state: ${containerInfo.State}) ...`);
-        await container.remove({ force: true }); // Force remove
-        log(`Removed stale container ${containerInfo.Id}.`);
-      } catch (error: unknown) {
-        // Ignore "no such container" errors, it might have been removed already
-        if (
-          !(
-            error instanceof Error &&
-            /no such container/i.test(error.message)
-          )
-        ) {
-          logError(
-            `Failed to remove stale container ${containerInfo.Id}: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      }
-    });
-
-    await Promise.allSettled(removalPromises);
-    log("Stale container cleanup finished.");
-  } catch (error: unknown) {
-    logError(
-      `Error during stale container cleanup: ${error instanceof Error ? error.message : String(error)}`,
-    );
-    // Continue starting the server even if cleanup fails
-  }
-}
-
-async function ensureDockerImage(): Promise<void> {
-  log(`Ensuring Docker image ${DOCKER_IMAGE_NAME} exists...`);
-  try {
-    const forceRebuild = process.env.FORCE_REBUILD_SANDBOX_IMAGE === 'true';
-
-    // First check if the image exists
-    const images = await docker.listImages({
-      filters: { reference: [DOCKER_IMAGE_NAME] },
-    });
-
-    if (forceRebuild && images.length > 0) {
-      log(`FORCE_REBUILD_SANDBOX_IMAGE is set. Removing existing image ${DOCKER_IMAGE_NAME} to trigger rebuild.`);
-      try {
-        // Remove image by its ID (first match)
-        const imageId = images[0].Id;
-        await docker.getImage(imageId).remove({ force: true });
-        log(`Removed existing image ${imageId}.`);
-      } catch (error) {
-        logError(`Failed to remove image for rebuild: ${error}`);
-      }
-    }
-
-    // Re-query images after potential removal
-    const imagesPostCheck = await docker.listImages({
-      filters: { reference: [DOCKER_IMAGE_NAME] },
-    });
-
-    if (imagesPostCheck.length === 0) {
-      log(`Image ${DOCKER_IMAGE_NAME} not found. Will attempt to build it.`);
-
-      // Get the location of the Dockerfile - should be in project root
-      const dockerfilePath = path.resolve(__dirname, "../../", "Dockerfile");
-
-      // Check if Dockerfile exists
-      if (!fs.existsSync(dockerfilePath)) {
-        throw new Error(`Dockerfile not found at ${dockerfilePath}`);
-      }
-
-      log(`Building Docker image ${DOCKER_IMAGE_NAME} from ${dockerfilePath}...`);
-
-      // Try building via Docker CLI first (more reliable than SDK)
-      try {
-        log(`Building with docker command: docker build -t ${DOCKER_IMAGE_NAME} ${path.resolve(__dirname, "../../")}`);
-        const output = execSync(`docker build -t ${DOCKER_IMAGE_NAME} ${path.resolve(__dirname, "../../")}`, {
-          stdio: ['ignore', 'pipe', 'pipe']
-        }).toString();
-        log(`Docker build output: ${output.slice(0, 200)}...`);
-        log(`Docker image ${DOCKER_IMAGE_NAME} built successfully using CLI.`);
-        return;
-      } catch (error) {
-        log(`Failed to build using Docker CLI: ${error}. Falling back to Docker SDK.`);
-      }
-
-      // Fallback to Docker SDK if CLI approach fails
-      try {
-        log("Attempting to build image using Docker SDK...");
-        const stream = await docker.buildImage(
-          { context: path.resolve(__dirname, "../../"), src: ["Dockerfile"] },
-          { t: DOCKER_IMAGE_NAME },
-        );
-
-        await new Promise((resolve, reject) => {
-          docker.modem.followProgress(
-            stream,
-            (err: Error | null, res: unknown) => (err ? reject(err) : resolve(res)),
-            (event: DockerEvent) => {
-              if (event.stream) process.stdout.write(event.stream); // Log build output
-              if (event.errorDetail) logError(event.errorDetail.message);
-            },
-          );
-        });
-
-        log(`Docker image ${DOCKER_IMAGE_NAME} built successfully using SDK.`);
-      } catch (error) {
-        logError(`Failed to build Docker image ${DOCKER_IMAGE_NAME}: ${error}`);
-        throw new Error(
-          `Failed to build Docker image "${DOCKER_IMAGE_NAME}". Please build it manually using "docker build -t ${DOCKER_IMAGE_NAME} ." in the project root.`,
-        );
-      }
-    } else {
-      log(`Docker image ${DOCKER_IMAGE_NAME} found.`);
-    }
-  } catch (error) {
-    logError(`Error checking/building Docker image: ${error}`);
-    if (
-      error instanceof Error &&
-      error.message.includes("Cannot connect to the Docker daemon")
-    ) {
-      throw new Error(
-        "Failed to connect to Docker. Is the Docker daemon running and accessible?",
-      );
-    }
-
-    throw error;
-  }
-}
-
-async function createContainer(
-  apiKey: string,
-  accessToken: string,
-  environmentVariables: Record<string, string> = {},
-  sessionId: string, // Pass sessionId for logging
-): Promise<DockerContainer> {
-  const containerName = `ably-cli-session-${sessionId}`; // Used for container naming
-  log('Creating Docker container (TTY Mode)...');
-  try {
-    // Create base environment variables with better defaults for terminal behavior
-    const env = [
-      // These environment variables are critical for proper terminal behavior
-      'TERM=dumb', // Disable ANSI escape sequences to fix spinner bug from Ora
-      'COLORTERM=truecolor',
-      'LANG=en_US.UTF-8',
-      'LC_ALL=en_US.UTF-8',
-      'LC_CTYPE=en_US.UTF-8',
-      'CLICOLOR=1',
-      // Only include credentials that have a non-empty value
-      ...(apiKey ? [`ABLY_API_KEY=${apiKey}`] : []),
-      ...(accessToken ? [`ABLY_ACCESS_TOKEN=${accessToken}`] : []),
-      // Simple PS1 prompt at container level
-      'PS1=$ ',
-      // Enable history with reasonable defaults
-      'HISTSIZE=1000',
-      'HISTFILE=/home/appuser/.bash_history'
-    ];
-
-    // Add any custom environment variables
-    for (const [key, value] of Object.entries(environmentVariables)) {
-      // Don't duplicate variables that are already set
-      if (!env.some(e => e.startsWith(`${key}=`))) {
-        env.push(`${key}=${value}`);
-      }
-    }
-
-    // Configure security options using file content
-    const securityOpt = [
-      'no-new-privileges',
-      `seccomp=${seccompProfileContent}` // Pass profile content directly
-    ];
-
-    // Use the pre-checked AppArmor status
-    if (isAppArmorProfileLoaded) {
-      log('Applying AppArmor profile: ably-cli-sandbox-profile');
-      securityOpt.push('apparmor=ably-cli-sandbox-profile');
-    } else {
-      log('Applying AppArmor profile: unconfined');
-      securityOpt.push('apparmor=unconfined');
-    }
-
-    const container = await docker.createContainer({
-      AttachStderr: true,
-      AttachStdin: true,
-      AttachStdout: true,
-      Env: env,
-      // Explicitly set the user to non-root for security
-      // This works with user namespace remapping
-      User: 'appuser',
-      // Use the working directory of the non-root user
-      WorkingDir: '/home/appuser',
-      HostConfig: {
-        // Set to false to prevent container from being removed before we can attach
-        AutoRemove: false,
-        // Security capabilities
-        CapDrop: [
-          'ALL',                 // Drop all capabilities first
-          'NET_ADMIN',           // Cannot modify network settings
-          'NET_BIND_SERVICE',    // Cannot bind to privileged ports
-          'NET_RAW'              // Cannot use raw sockets
-        ],
-        SecurityOpt: securityOpt,
-        // Add read-only filesystem
-        ReadonlyRootfs: true,
-        // Add tmpfs mounts for writable directories
-        Tmpfs: {
-          '/tmp': 'rw,noexec,nosuid,size=64m',
-          '/run': 'rw,noexec,nosuid,size=32m'
-        },
-        // Mount a volume for the Ably config directory
-        Mounts: [
-          {
-            Type: 'tmpfs',
-            Target: '/home/appuser/.ably',
-            TmpfsOptions: {
-              SizeBytes: 10 * 1024 * 1024, // 10MB
-              Mode: 0o700 // Secure permissions
-            }
-          },
-        ],
-        // Add resource limits
-        PidsLimit: 50, // Limit to 50 processes
-        Memory: 256 * 1024 * 1024, // 256MB
-        MemorySwap: 256 * 1024 * 1024, // Disable swap
-        NanoCpus: 1 * 1000000000, // Limit to 1 CPU
-
-        // Network security restrictions
-        // Use default bridge network if the custom network doesn't exist
-        NetworkMode: await containerNetworkExists() ? DOCKER_NETWORK_NAME : 'bridge',
-      },
-      Image: DOCKER_IMAGE_NAME,
-      Labels: { // Add label for cleanup
-        'managed-by': 'ably-cli-terminal-server'
-      },
-      OpenStdin: true,
-      StdinOnce: false,
-      StopSignal: 'SIGTERM',
-      StopTimeout: 5,
-      Tty: true,          // Enable TTY mode
-      // Explicitly set the command to run the restricted shell script
-      Cmd: ["/bin/bash", "/scripts/restricted-shell.sh"],
-      name: containerName, // Use the generated container name
-    });
-
-    // Log security features in use
-    log(`Container ${container.id} created with security hardening:`);
-    log(`- Read-only filesystem: yes`);
-    log(`- User namespace remapping compatibility: yes`);
-    log(`- Seccomp filtering: yes`);
-    log(`- AppArmor profile: ${isAppArmorProfileLoaded ? 'yes' : 'no'}`);
-
-    return container;
-  } catch (error) {
-    logError(`Error creating container: ${error}`);
-    throw error;
-  }
-}
-
 // --- Session Management Functions (Restored & Modified) ---
 
 function generateSessionId(): string {
@@ -519,41 +174,16 @@ async function terminateSession(
     log(`stdoutStream for session ${sessionId} destroyed.`);
   }
 
-  // Stop and remove the container if it exists
-  if (session.container) {
-    log(`Stopping and removing container for session ${sessionId}...`);
-    try {
-      await session.container.stop({ t: 5 }); // Allow 5 seconds to stop
-      log(`Container for session ${sessionId} stopped.`);
-    } catch (error: unknown) {
-      // Ignore "container already stopped" or "no such container" errors
-      if (
-        !(
-          error instanceof Error &&
-          (/already stopped/i.test(error.message) ||
-            /no such container/i.test(error.message))
-        )
-      ) {
-        logError(
-          `Error stopping container for session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
-    }
+  // Stop the sandbox; a resumed session attaches to it again instead
+  if (session.sandbox) {
+    log(`Stopping sandbox ${session.sandbox.id} for session ${sessionId}...`);
     try {
-      await session.container.remove();
-      log(`Container for session ${sessionId} removed.`);
+      await session.sandbox.stop();
+      log(`Sandbox for session ${sessionId} stopped.`);
     } catch (error: unknown) {
-      // Ignore "no such container" errors
-      if (
-        !(
-          error instanceof Error &&
-          /no such container/i.test(error.message)
-        )
-      ) {
-        logError(
-          `Error removing container for session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      logError(
+        `Error stopping sandbox for session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
     }
   }
 
@@ -601,9 +231,10 @@ const verifyClient = (info: { origin: string; req: http.IncomingMessage; secure:
 // --- WebSocket Server Setup (Restored & Modified) ---
 async function startServer() {
     log('Starting WebSocket server...');
-    await cleanupStaleContainers();
-    await ensureDockerImage(); // Ensure image exists before starting
-    checkAppArmorProfileStatus(); // Check AppArmor status ONCE here
+    const runtimeName = process.env.TERMINAL_SANDBOX_RUNTIME || 'docker';
+    runtime = createSandboxRuntime(runtimeName, { log, logError });
+    log(`Using the ${runtime.name} sandbox runtime`);
+    await runtime.prepare(); // Ensure sessions can be started before listening
 
     const port = Number.parseInt(process.env.PORT || String(DEFAULT_PORT), 10);
     const maxSessions = Number.parseInt(process.env.MAX_SESSIONS || String(DEFAULT_MAX_SESSIONS), 10);
@@ -750,9 +381,9 @@ async function startServer() {
                            }
                         }
 
-                        // Attach streams (new exec) so input/output resumes
+                        // Attach streams again so input/output resumes
                         try {
-                           await attachToContainer(existing, ws);
+                           await attachToSandbox(existing, ws);
                            ws.on('message', (msg) => handleMessage(existing, msg as Buffer));
                            log(`[Server] attemptCrossProcessResume: SUCCESS. sessionId=${resumeAttemptId}`);
                         } catch (error) {
@@ -762,7 +393,7 @@ async function startServer() {
                         return; // In-memory resume handled
                     }
 
-                    // Fallback: try to restore session by locating existing container
+                    // Fallback: try to restore a session left running by a previous server process
                     const restored = await attemptCrossProcessResume(resumeAttemptId, incomingCredentialHash, ws);
                     if (restored) {
                         log(`[Server] attemptCrossProcessResume: SUCCESS. sessionId=${resumeAttemptId}`);
@@ -806,27 +437,27 @@ async function startServer() {
                 }
                 const { apiKey, accessToken, environmentVariables } = authPayload;
 
-                // --- Auth Success -> Container Creation Phase ---
+                // --- Auth Success -> Sandbox Creation Phase ---
                 log(`[Server] Authentication successful.`);
 
                 // Clear the auth timeout since we've authenticated successfully
                 clearTimeout(initialSession.timeoutId);
 
-                let container: DockerContainer;
+                let sandbox: SandboxSession;
                 try {
-                   // Pass credentials to createContainer
-                   container = await createContainer(apiKey ?? '', accessToken ?? '', environmentVariables || {}, sessionId);
-                   log(`[Server] Container created successfully: ${container.id}`);
-
-                   // Start the container before attempting to attach
-                   await container.start();
-                   log(`[Server] Container started successfully: ${container.id}`);
-
+                   if (!runtime) throw new Error('Sandbox runtime has not been started');
+                   sandbox = await runtime.create({
+                     accessToken: accessToken ?? '',
+                     apiKey: apiKey ?? '',
+                     environmentVariables: environmentVariables || {},
+                     sessionId,
+                   });
+                   log(`[Server] Sandbox started successfully: ${sandbox.id}`);
                 } catch (error) {
-                    logError(`[Server] Failed to create or start container: ${error instanceof Error ? error.message : String(error)}`);
-                    const containerErrorMsg: ServerStatusMessage = { type: "status", payload: "error", reason: "Failed to create session environment" };
-                    try { ws.send(JSON.stringify(containerErrorMsg)); } catch (_error) { /* ignore */ }
-                    ws.close(1011, 'Container creation failed');
+                    logError(`[Server] Failed to create or start sandbox: ${error instanceof Error ? error.message : String(error)}`);
+                    const sandboxErrorMsg: ServerStatusMessage = { type: "status", payload: "error", reason: "Failed to create session environment" };
+                    try { ws.send(JSON.stringify(sandboxErrorMsg)); } catch (_error) { /* ignore */ }
+                    ws.close(1011, 'Sandbox creation failed');
                     if (sessionId) cleanupSession(sessionId); // Cleanup partial session
                     return;
                 }
@@ -839,11 +470,11 @@ async function startServer() {
                 const fullSession: ClientSession = {
                     ...(initialSession as ClientSession), // Spread initial properties (ws, sessionId)
                     authenticated: true,
-                    isAttaching: false, // Will be set to true by attachToContainer
+                    isAttaching: false, // Will be set to true by attachToSandbox
                     timeoutId: setTimeout(() => {}, 0), // Dummy timeout, immediately cleared
-                    container: container,
+                    sandbox,
                     credentialHash,
-                    // execInstance, stdinStream, stdoutStream added by attachToContainer
+                    // stdinStream, stdoutStream added by attachToSandbox
                 };
                 clearTimeout(fullSession.timeoutId); // Clear the dummy timeout
                 sessions.set(sessionId, fullSession); // Update session map with full data
@@ -852,20 +483,20 @@ async function startServer() {
                 // --- Attachment Phase ---
                 try {
                     // Wait for attachment to complete before setting up message handlers
-                    await attachToContainer(fullSession, ws);
-                    log(`[Server] Successfully attached to container.`);
+                    await attachToSandbox(fullSession, ws);
+                    log(`[Server] Successfully attached to sandbox.`);
 
                     // --- Set up Main Message Handler ---
                     // Only set up *after* successful attachment
                     ws.on('message', (msg) => handleMessage(fullSession, msg as Buffer));
                     log(`[Server] Main message handler attached.`);
                 } catch (_error) {
-                    // Attachment failed, but we'll let the error handling in attachToContainer handle it
+                    // Attachment failed, but we'll let the error handling in attachToSandbox handle it
                     logError(`[Server] Attachment error: ${String(_error)}`);
-                    // Don't attempt to cleanup here as attachToContainer will have done it already
+                    // Don't attempt to cleanup here as attachToSandbox will have done it already
                 }
             } catch (error) {
-                // Catch errors during the setup process (auth, container create, attach)
+                // Catch errors during the setup process (auth, sandbox create, attach)
                 logError(`[Server] Error during connection setup: ${error instanceof Error ? error.message : String(error)}`);
                 const setupErrorMsg: ServerStatusMessage = { type: "status", payload: "error", reason: "Internal server error during setup" };
                 try { ws.send(JSON.stringify(setupErrorMsg)); } catch { /* ignore */ }
@@ -877,7 +508,7 @@ async function startServer() {
         // Handle top-level WebSocket close/error (covers cases before/during auth)
         // For connections that have completed authentication we do **not** destroy
         // the session immediately – instead we schedule orphan cleanup so the
-        // container can be resumed within the RESUME_GRACE_MS window.
+        // sandbox can be resumed within the RESUME_GRACE_MS window.
         const topLevelCloseHandler = (code: number, reason: Buffer) => {
             log(`[Server] WebSocket closed. Code: ${code}, Reason: ${reason.toString()}`);
 
@@ -992,14 +623,6 @@ const __isDirectRun = import.meta.url === (process.argv[1] ? pathToFileURL(proce
 // --- Server Initialization (using top-level await) ---
 
 if (__isDirectRun) {
-  // Create secure network before server starts
-  try {
-    await createSecureNetwork();
-  } catch (error) {
-    logError(`Failed to create secure network: ${error}`);
-    log('Continuing with default network configuration');
-  }
-
   try {
     await startServer();
     log("Terminal server started successfully.");
@@ -1027,111 +650,47 @@ if (__isDirectRun) {
   }
 }
 
+/**
+ * Append sandbox output to the session's buffer, keeping only the most recent
+ * OUTPUT_BUFFER_MAX_LINES entries for replay on resume
+ */
+function bufferOutput(session: ClientSession, text: string): void {
+  if (!session.outputBuffer) session.outputBuffer = [];
+  session.outputBuffer.push(text);
+  if (session.outputBuffer.length > OUTPUT_BUFFER_MAX_LINES) {
+    session.outputBuffer.splice(0, session.outputBuffer.length - OUTPUT_BUFFER_MAX_LINES);
+  }
+}
+
 function pipeStreams(
   ws: WebSocket,
-  containerStream: Duplex,
+  sandboxStream: Duplex,
   session?: ClientSession,
-  isRawTty = false,
 ): void {
   try {
-    log('Setting up bidirectional piping between WebSocket and container stream');
+    log('Setting up bidirectional piping between WebSocket and sandbox stream');
     let firstChunkReceived = false; // Flag to log only the first chunk
 
-    if (isRawTty) {
-      // Handle potential fragmented handshake JSON that appears **once**
-      let handshakeHandled = false;
-
-      containerStream.on('data', (chunk: Buffer) => {
-        // Fast path once handshake removed
-        if (handshakeHandled) {
-          if (ws.readyState === WebSocket.OPEN) ws.send(chunk);
-          if (session) {
-            const txt = chunk.toString('utf8');
-            if (!session.outputBuffer) session.outputBuffer = [];
-            session.outputBuffer.push(txt);
-          }
-          return;
-        }
-
-        // Still looking for handshake
-        const text = chunk.toString('utf8');
-        const handshakeRegex = /\{[^}]*stream[^}]*stdin[^}]*stdout[^}]*stderr[^}]*hijack[^}]*\}/;
-        const match = text.match(handshakeRegex);
-
-        if (match) {
-          log('Swallowed Docker attach handshake JSON (regex match)');
-          handshakeHandled = true;
-          const before = text.slice(0, match.index);
-          const after = text.slice(match.index! + match[0].length);
-
-          if (before.length > 0 && ws.readyState === WebSocket.OPEN) ws.send(before);
-          if (after.length > 0 && ws.readyState === WebSocket.OPEN) ws.send(after);
-
-          if (session) {
-            if (!session.outputBuffer) session.outputBuffer = [];
-            if (before.length > 0) session.outputBuffer.push(before);
-            if (after.length > 0) session.outputBuffer.push(after);
-          }
-        } else {
-          // No handshake in this chunk → forward as-is
-          if (ws.readyState === WebSocket.OPEN) ws.send(chunk);
-          if (session) {
-            if (!session.outputBuffer) session.outputBuffer = [];
-            session.outputBuffer.push(text);
-          }
-        }
-      });
-    } else {
-      // Demultiplexed stream (non-TTY exec)
-      let processingBuffer = Buffer.alloc(0);
-
-      containerStream.on('data', (chunk: Buffer) => {
-        processingBuffer = Buffer.concat([processingBuffer, chunk]);
-
-        // Process complete frames
-        while (processingBuffer.length >= 8) {
-          const streamType = processingBuffer[0]; // 1=stdout, 2=stderr
-          const payloadSize = processingBuffer.readUInt32BE(4);
-
-          if (processingBuffer.length < 8 + payloadSize) {
-            break; // Wait for more data
-          }
-
-          const payload = processingBuffer.slice(8, 8 + payloadSize);
-
-          if (!firstChunkReceived) {
-            log(`First chunk received from container (type ${streamType}, size ${payloadSize})`);
-            firstChunkReceived = true;
-          }
-
-          if (streamType === 1 || streamType === 2) {
-            if (ws.readyState === WebSocket.OPEN) ws.send(payload);
-
-            if (session) {
-              const text = payload.toString('utf8');
-              if (!session.outputBuffer) session.outputBuffer = [];
-              session.outputBuffer.push(text);
-              if (session.outputBuffer.length > OUTPUT_BUFFER_MAX_LINES) {
-                session.outputBuffer.splice(0, session.outputBuffer.length - OUTPUT_BUFFER_MAX_LINES);
-              }
-            }
-          }
+    sandboxStream.on('data', (chunk: Buffer | string) => {
+      if (!firstChunkReceived) {
+        log(`First chunk received from sandbox (size ${chunk.length})`);
+        firstChunkReceived = true;
+      }
 
-          processingBuffer = processingBuffer.slice(8 + payloadSize);
-        }
-      });
-    }
+      if (ws.readyState === WebSocket.OPEN) ws.send(chunk);
+      if (session) bufferOutput(session, chunk.toString());
+    });
 
     // ------------------------------------------------------------------
     // Detect when the user terminates the shell (e.g. by typing `exit`).
-    // When the underlying container stream ends we notify the client and
+    // When the underlying sandbox stream ends we notify the client and
     // close the WebSocket with an application-specific code (4000). This is
     // treated as a *non-recoverable* disconnect by the React component so
     // it will show a prompt instead of auto-reconnecting.
     // ------------------------------------------------------------------
     const handleStreamTermination = (label: string) => {
       try {
-        log(`Container stream ${label} – signalling session end to client`);
+        log(`Sandbox stream ${label} – signalling session end to client`);
         if (ws.readyState === WebSocket.OPEN) {
           const endMsg: ServerStatusMessage = {
             type: 'status',
@@ -1150,16 +709,16 @@ function pipeStreams(
         logError(`Error while handling stream termination: ${error instanceof Error ? error.message : String(error)}`);
       }
 
-      // Ensure container/session cleanup (graceful=false because CLI already exited)
+      // Ensure sandbox/session cleanup (graceful=false because CLI already exited)
       if (session) {
         void terminateSession(session.sessionId, 'User exit', false, 4000);
       }
     };
 
-    containerStream.on('end', () => handleStreamTermination('end'));
-    containerStream.on('close', () => handleStreamTermination('close'));
-    containerStream.on('error', (error) => {
-      logError(`Container stream error: ${error}`);
+    sandboxStream.on('end', () => handleStreamTermination('end'));
+    sandboxStream.on('close', () => handleStreamTermination('close'));
+    sandboxStream.on('error', (error) => {
+      logError(`Sandbox stream error: ${error}`);
       handleStreamTermination('error');
     });
 
@@ -1176,16 +735,16 @@ function safeCloseWsStream(wsStream: Duplex) {
   }
 }
 
-// --- Container Attachment Logic ---
+// --- Sandbox Attachment Logic ---
 
-async function attachToContainer(session: ClientSession, ws: WebSocket): Promise<void> {
-    if (!session.container) {
-        logError(`Container not found for session ${session.sessionId} during attach.`);
+async function attachToSandbox(session: ClientSession, ws: WebSocket): Promise<void> {
+    if (!session.sandbox) {
+        logError(`Sandbox not found for session ${session.sessionId} during attach.`);
         try {
-            const errorMsg: ServerStatusMessage = { type: "status", payload: "error", reason: "Internal server error: Container not found" };
+            const errorMsg: ServerStatusMessage = { type: "status", payload: "error", reason: "Internal server error: Sandbox not found" };
             if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(errorMsg));
-        } catch (_error) { logError('Failed to send error status for container not found'); }
-        await terminateSession(session.sessionId, "Container not found", false);
+        } catch (_error) { logError('Failed to send error status for sandbox not found'); }
+        await terminateSession(session.sessionId, "Sandbox not found", false);
         return;
     }
 
@@ -1193,13 +752,11 @@ async function attachToContainer(session: ClientSession, ws: WebSocket): Promise
     session.isAttaching = true;
 
     // If we're re-attaching during a session resume we must close the old
-    // streams first; otherwise Docker will keep the previous hijacked
-    // connection open which steals STDIN and leaves the new attachment
-    // read-only.
+    // streams first so that only the new attachment receives input.
     if (session.stdinStream && !session.stdinStream.destroyed) {
       // Detach termination listeners so that destroying the old stream while
       // re-attaching doesn't trigger the "user exit" path that would
-      // otherwise call terminateSession and kill the container.
+      // otherwise call terminateSession and stop the sandbox.
       session.stdinStream.removeAllListeners('end');
       session.stdinStream.removeAllListeners('close');
       session.stdinStream.removeAllListeners('error');
@@ -1209,29 +766,19 @@ async function attachToContainer(session: ClientSession, ws: WebSocket): Promise
       session.stdoutStream.removeAllListeners('end');
       session.stdoutStream.removeAllListeners('close');
       session.stdoutStream.removeAllListeners('error');
-      safeCloseWsStream(session.stdoutStream as unknown as Duplex);
+      safeCloseWsStream(session.stdoutStream);
     }
 
-    // Attach directly to the container's main TTY so that the same shell
-    // process stays alive across WebSocket reconnects. Docker allows
-    // multiple attachments to a running container provided TTY=true.
-
-    let containerStream = await session.container.attach({
-        stream: true,
-        stdin: true,
-        stdout: true,
-        stderr: true,
-        hijack: true,
-    }) as stream.Duplex;
-
-    session.stdinStream = containerStream;
-    session.stdoutStream = containerStream;
-    // We are no longer using per-resume exec instances
-    session.execInstance = undefined;
+    // Attach to the sandbox's shell, which stays alive across WebSocket
+    // reconnects
+    const sandboxStream = await session.sandbox.attach();
+
+    session.stdinStream = sandboxStream;
+    session.stdoutStream = sandboxStream;
     // Reset per-attach debug flag so we can log the first keystroke again
     session._debugLoggedFirstKey = false;
 
-    log(`Attached stream to container ${session.container.id} for session ${session.sessionId}`);
+    log(`Attached stream to sandbox ${session.sandbox.id} for session ${session.sessionId}`);
     session.isAttaching = false;
 
     // Send "connected" status message AFTER streams are attached but BEFORE piping starts
@@ -1255,7 +802,7 @@ async function attachToContainer(session: ClientSession, ws: WebSocket): Promise
     await new Promise(resolve => setTimeout(resolve, 50)); 
 
     // Now start piping after sending connected status and adding delay
-    pipeStreams(ws, containerStream, session, true);
+    pipeStreams(ws, sandboxStream, session);
 
     // NOTE: We no longer inject an extra "\n" after attach because it caused
     // double prompts both on first load and on every resume. The restricted
@@ -1277,7 +824,7 @@ async function attachToContainer(session: ClientSession, ws: WebSocket): Promise
 
     ws.on("error", async (error: Error) => {
         logError(`WebSocket stream error for session ${session.sessionId}: ${error.message}`);
-        if (containerStream) safeCloseWsStream(containerStream);
+        if (sandboxStream) safeCloseWsStream(sandboxStream);
         if (session.authenticated) {
             scheduleOrphanCleanup(session);
         } else {
@@ -1285,18 +832,18 @@ async function attachToContainer(session: ClientSession, ws: WebSocket): Promise
         }
     });
 
-    containerStream.on('close', () => {
-        log(`Container stream closed for session ${session.sessionId}`);
-        safeCloseWsStream(containerStream);
+    sandboxStream.on('close', () => {
+        log(`Sandbox stream closed for session ${session.sessionId}`);
+        safeCloseWsStream(sandboxStream);
         if (session.authenticated) {
             scheduleOrphanCleanup(session);
         } else {
             cleanupSession(session.sessionId);
         }
     });
-    containerStream.on('error', (error) => {
-        logError(`Container stream error for session ${session.sessionId}: ${error.message}`);
-        safeCloseWsStream(containerStream);
+    sandboxStream.on('error', (error) => {
+        logError(`Sandbox stream error for session ${session.sessionId}: ${error.message}`);
+        safeCloseWsStream(sandboxStream);
         if (session.authenticated) {
             scheduleOrphanCleanup(session);
         } else {
@@ -1338,16 +885,14 @@ async function cleanupSession(sessionId: string) {
     log(`stdoutStream for session ${sessionId} destroyed.`);
   }
 
-  // Remove container if it exists and isn't already being removed
-  if (session.container) {
+  // Stop the sandbox if it exists
+  if (session.sandbox) {
     try {
-      log(`Removing container ${session.container.id}...`);
-      await session.container.remove({ force: true }).catch((error: Error) => {
-        log(`Note: Error removing container ${session.container?.id}: ${error.message}.`);
-      });
-      log(`Container ${session.container.id} removed.`);
+      log(`Stopping sandbox ${session.sandbox.id}...`);
+      await session.sandbox.stop();
+      log(`Sandbox ${session.sandbox.id} stopped.`);
     } catch (error) {
-      log(`Note: Error during container removal: ${error}.`);
+      log(`Note: Error stopping sandbox: ${error}.`);
     }
   }
 
@@ -1370,25 +915,17 @@ function scheduleOrphanCleanup(session: ClientSession): void {
 
 // --- Message Handlers ---
 
-function handleExecResize(
+function handleResize(
   session: ClientSession,
   data: { cols: number; rows: number },
 ): void {
   const { cols, rows } = data;
   log(`Resizing TTY for session ${session.sessionId} to ${cols}x${rows}`);
-  if (session.execInstance) {
-    session.execInstance
-      .resize({ h: rows, w: cols })
-      .catch((error: Error) => {
-        logError(`Error resizing exec TTY for session ${session.sessionId}: ${error.message}`);
-      });
-  } else if (session.container) {
-    session.container
-      .resize({ h: rows, w: cols })
-      .catch((error: Error) => {
-        logError(`Container resize failed for session ${session.sessionId}: ${error.message}`);
-      });
-  }
+  session.sandbox
+    ?.resize(cols, rows)
+    .catch((error: Error) => {
+      logError(`Resize failed for session ${session.sessionId}: ${error.message}`);
+    });
 }
 
 function handleMessage(session: ClientSession, message: Buffer) {
@@ -1425,18 +962,18 @@ function handleMessage(session: ClientSession, message: Buffer) {
                             // Format 1: { type: 'resize', data: { cols, rows } }
                             const resizeData = parsed.data as { cols?: unknown, rows?: unknown };
                             if (typeof resizeData.cols === 'number' && typeof resizeData.rows === 'number') {
-                                handleExecResize(session, { cols: resizeData.cols, rows: resizeData.rows });
+                                handleResize(session, { cols: resizeData.cols, rows: resizeData.rows });
                                 return;
                             }
                         } else if ('cols' in parsed && 'rows' in parsed) {
                             // Format 2: { type: 'resize', cols, rows }
                             const parsedObj = parsed as { cols?: unknown, rows?: unknown };
                             if (typeof parsedObj.cols === 'number' && typeof parsedObj.rows === 'number') {
-                                handleExecResize(session, { cols: parsedObj.cols, rows: parsedObj.rows });
+                                handleResize(session, { cols: parsedObj.cols, rows: parsedObj.rows });
                                 return;
                             }
                         }
-                    } else if ('type' in parsed && parsed.type === 'data' && 'data' in parsed && // Data messages should be written directly to container
+                    } else if ('type' in parsed && parsed.type === 'data' && 'data' in parsed && // Data messages should be written directly to the sandbox
                         session.stdinStream && !session.stdinStream.destroyed) {
                             session.stdinStream.write(parsed.data as string | Buffer);
                             return;
@@ -1461,7 +998,7 @@ function handleMessage(session: ClientSession, message: Buffer) {
             session.stdinStream.write(message);
         } else {
             // Only log if stream is not available (avoiding noise for normal keypresses)
-            logError(`Cannot write input: container stream unavailable for session ${session.sessionId}`);
+            logError(`Cannot write input: sandbox stream unavailable for session ${session.sessionId}`);
         }
     } catch (error) {
         logError(`Error processing input for session ${session.sessionId}: ${error instanceof Error ? error.message : String(error)}`);
@@ -1498,66 +1035,6 @@ function startSessionMonitoring(): NodeJS.Timeout {
   }, 60 * 1000); // Check every minute
 }
 
-/**
- * Check if the specified Docker network exists
- */
-async function containerNetworkExists(): Promise<boolean> {
-    try {
-        log(`Checking if network ${DOCKER_NETWORK_NAME} exists...`);
-        const networks = await docker.listNetworks({
-            filters: { name: [DOCKER_NETWORK_NAME] }
-        });
-        return networks.length > 0;
-    } catch (error) {
-        logError(`Error checking network existence: ${error}`);
-        return false; // Fallback to default network on error
-    }
-}
-
-/**
- * Create a Docker network with security restrictions
- */
-async function createSecureNetwork(): Promise<void> {
-    try {
-        log('Setting up secure Docker network for containers...');
-
-        // Check if network already exists
-        const networks = await docker.listNetworks({
-            filters: { name: [DOCKER_NETWORK_NAME] }
-        });
-
-        if (networks.length > 0) {
-            log(`Network ${DOCKER_NETWORK_NAME} already exists, skipping creation`);
-            return;
-        }
-
-        // Create a new network with restrictions
-        await docker.createNetwork({
-            Name: DOCKER_NETWORK_NAME,
-            Driver: 'bridge',
-            Internal: false, // Allow internet access but we'll restrict with rules
-            EnableIPv6: false,
-            Options: {
-                'com.docker.network.bridge.enable_ip_masquerade': 'true',
-                'com.docker.network.driver.mtu': '1500'
-            },
-            Labels: {
-                'managed-by': 'ably-cli-terminal-server',
-                'purpose': 'security-hardened-network'
-            }
-        });
-
-        log(`Created secure network: ${DOCKER_NETWORK_NAME}`);
-
-        // Note: Additional network filtering (like iptables rules or DNS filtering)
-        // should be set up in the Docker host or through a custom entrypoint script
-        // We'll document this requirement in Security-Hardening.md
-    } catch (error) {
-        logError(`Error creating secure network: ${error}`);
-        // Continue even if network creation fails - we'll fall back to default
-    }
-}
-
 /**
  * Helper to replace the WebSocket on an existing session when a valid resume
  * request arrives. Closes the old socket, clears orphan timer, reassigns ws.
@@ -1581,30 +1058,21 @@ function canResumeSession(resumeId: string | null, credentialHash: string): bool
 
 /**
  * Attempt to resume a session that was created by a previous server process
- * by locating a container whose name encodes the sessionId. If successful the
- * function will create a new ClientSession entry, replay recent logs to the
- * client WebSocket, attach a fresh exec and return true. If it fails to find a
- * suitable container or credentials do not match it returns false so that the
- * caller can continue with the normal new-session flow.
+ * by asking the sandbox runtime for a sandbox started with the sessionId. If
+ * successful the function will create a new ClientSession entry, replay recent
+ * output to the client WebSocket, attach to the sandbox and return true. If
+ * the runtime cannot find one it returns false so that the caller can
+ * continue with the normal new-session flow.
  */
 async function attemptCrossProcessResume(resumeId: string, incomingCredentialHash: string, ws: WebSocket): Promise<boolean> {
   try {
-    const containerName = `ably-cli-session-${resumeId}`;
-
-    // Look for a container whose name matches exactly (running or stopped)
-    const containers = await docker.listContainers({
-      all: true,
-      filters: JSON.stringify({ name: [containerName] }),
-    });
-
-    if (containers.length === 0) {
-      return false; // No container to resume
+    const recovered = await runtime?.recover?.(resumeId);
+    if (!recovered) {
+      return false; // No sandbox to resume
     }
 
-    const containerInfo = containers[0];
-
-    // If the container is not running we cannot resume – tell client immediately
-    if (containerInfo.State !== 'running') {
+    // If the sandbox is no longer running we cannot resume – tell client immediately
+    if (!recovered.running) {
       try {
         const errMsg: ServerStatusMessage = { type: 'status', payload: 'error', reason: 'Session ended on server' };
         if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(errMsg));
@@ -1615,26 +1083,8 @@ async function attemptCrossProcessResume(resumeId: string, incomingCredentialHas
       return true; // handled (but cannot resume)
     }
 
-    const container = docker.getContainer(containerInfo.Id);
-
-    // Inspect to get environment for credential validation & timestamps
-    const inspect = await container.inspect();
-    const envArray: string[] = inspect.Config?.Env ?? [];
-
-    const envMap: Record<string, string> = {};
-    for (const kv of envArray) {
-      const idx = kv.indexOf('=');
-      if (idx !== -1) {
-        envMap[kv.slice(0, idx)] = kv.slice(idx + 1);
-      }
-    }
-
-    const storedApiKey = envMap['ABLY_API_KEY'] ?? '';
-    const storedAccessToken = envMap['ABLY_ACCESS_TOKEN'] ?? '';
-    const containerCredentialHash = computeCredentialHash(storedApiKey, storedAccessToken);
-
-    if (containerCredentialHash !== incomingCredentialHash) {
-      logError(`[Server] attemptCrossProcessResume: credential mismatch. containerCredentialHash=${containerCredentialHash}`);
+    if (recovered.credentialHash !== incomingCredentialHash) {
+      logError(`[Server] attemptCrossProcessResume: credential mismatch. sandboxCredentialHash=${recovered.credentialHash}`);
       try {
         const errMsg: ServerStatusMessage = { type: 'status', payload: 'error', reason: 'Credentials do not match original session' };
         ws.send(JSON.stringify(errMsg));
@@ -1648,16 +1098,14 @@ async function attemptCrossProcessResume(resumeId: string, incomingCredentialHas
       ws,
       authenticated: true,
       timeoutId: setTimeout(() => {}, 0),
-      container,
-      execInstance: undefined,
+      sandbox: recovered.sandbox,
       stdinStream: undefined,
       stdoutStream: undefined,
       sessionId: resumeId,
       lastActivityTime: Date.now(),
-      // Use container creation time as session creation time fallback
-      creationTime: new Date(inspect.Created).getTime() || Date.now(),
+      creationTime: recovered.createdAt,
       isAttaching: false,
-      credentialHash: containerCredentialHash,
+      credentialHash: recovered.credentialHash,
       outputBuffer: [],
       orphanTimer: undefined,
     };
@@ -1665,23 +1113,15 @@ async function attemptCrossProcessResume(resumeId: string, incomingCredentialHas
 
     sessions.set(resumeId, newSession);
 
-    // Replay recent logs as best-effort (tail OUTPUT_BUFFER_MAX_LINES)
-    try {
-      const logBuff = await container.logs({ stdout: true, stderr: true, tail: OUTPUT_BUFFER_MAX_LINES });
-      const logStr = Buffer.isBuffer(logBuff) ? logBuff.toString('utf8') : String(logBuff);
-      const lines = logStr.split(/\r?\n/);
-      for (const line of lines) {
-        if (line.length === 0) continue;
-        try { ws.send(line); } catch (_error) { /* ignore */ }
-        newSession.outputBuffer!.push(line);
-      }
-    } catch (error) {
-      logError(`[Server] attemptCrossProcessResume: Failed to fetch logs for replay: ${error}`);
+    // Replay recent output as best-effort
+    for (const line of recovered.recentOutput) {
+      try { ws.send(line); } catch (_error) { /* ignore */ }
+      bufferOutput(newSession, line);
     }
 
-    // Attach a fresh exec so that stdin/stdout continue
+    // Attach again so that stdin/stdout continue
     try {
-      await attachToContainer(newSession, ws);
+      await attachToSandbox(newSession, ws);
       ws.on('message', (msg) => handleMessage(newSession, msg as Buffer));
       log(`[Server] attemptCrossProcessResume: SUCCESS. sessionId=${resumeId}`);
     } catch (error) {
@@ -1701,7 +1141,7 @@ export const __testHooks = { scheduleOrphanCleanup, sessions, takeoverSession, c
 
 // Additional helper ONLY for unit tests – allows tests to safely delete a
 // session entry from the map (e.g. placeholder) without performing any socket
-// or container cleanup logic.
+// or sandbox cleanup logic.
 // Not used in production code.
 export function __deleteSessionForTest(id: string): void {
   if (sessions.has(id)) {
@@ -0,0 +1,174 @@
+import chalk from "chalk";
+
+import { ControlBaseCommand } from "./control-base-command.js";
+import {
+  AppManifest,
+  applyPlan,
+  computePlan,
+  fetchAppState,
+  formatIgnored,
+  formatPlan,
+  ResourceKind,
+  summarizePlan,
+} from "./services/app-manifest.js";
+import { BaseFlags } from "./types/cli.js";
+
+/**
+ * What applyManifest applies: a manifest for an existing app, or for a new
+ * app created after the plan is confirmed
+ */
+export type ManifestTarget =
+  | { appId: string; manifest: AppManifest }
+  | { createApp: string; manifest: AppManifest };
+
+/**
+ * Shared behaviour for commands that reconcile an app with a manifest
+ * ("apps apply" and "apps import")
+ */
+export abstract class AppManifestBaseCommand extends ControlBaseCommand {
+  /**
+   * Plan and apply a manifest, prompting for confirmation unless --force is
+   * set. The callback resolves which manifest to apply and to which app, or
+   * the name of a new app to create once the plan is confirmed. Passing
+   * kinds restricts the plan to those resource kinds.
+   */
+  protected async applyManifest(
+    flags: BaseFlags & { force?: boolean; prune?: boolean },
+    resolveTarget: () => Promise<ManifestTarget>,
+    kinds?: ResourceKind[],
+  ): Promise<void> {
+    let failed = false;
+
+    try {
+      const target = await resolveTarget();
+      const newAppName = "createApp" in target ? target.createApp : undefined;
+      let appId = "appId" in target ? target.appId : "";
+
+      const controlApi = this.createControlApi(flags);
+      const state =
+        newAppName === undefined
+          ? await fetchAppState(controlApi, appId)
+          : { keys: [], namespaces: [], queues: [], rules: [] };
+      const plan = computePlan(appId, target.manifest, state, {
+        kinds,
+        prune: flags.prune,
+      });
+      const isJsonMode = this.shouldOutputJson(flags);
+
+      if (plan.changes.length === 0 && newAppName === undefined) {
+        if (isJsonMode) {
+          this.log(
+            this.formatJsonOutput(
+              {
+                appId,
+                applied: [],
+                ignored: plan.ignored,
+                success: true,
+                summary: summarizePlan(plan),
+                timestamp: new Date().toISOString(),
+              },
+              flags,
+            ),
+          );
+        } else {
+          this.log(
+            chalk.green(
+              `App ${appId} matches the manifest. No changes required.`,
+            ),
+          );
+          for (const line of formatIgnored(plan)) {
+            this.log(line);
+          }
+        }
+
+        return;
+      }
+
+      if (!isJsonMode) {
+        if (newAppName === undefined) {
+          this.log(`Changes required for app ${chalk.cyan(appId)}:\n`);
+        } else {
+          this.log(`Changes required to set up a new app:\n`);
+          this.log(`  ${chalk.green("+")} app ${chalk.bold(newAppName)}`);
+        }
+
+        for (const line of formatPlan(plan)) {
+          this.log(line);
+        }
+
+        this.log("");
+      }
+
+      if (!flags.force && !isJsonMode) {
+        const confirmed = await this.interactiveHelper.confirm(
+          "Do you want to apply these changes?",
+        );
+        if (!confirmed) {
+          this.log("Apply cancelled");
+          return;
+        }
+      }
+
+      if (newAppName !== undefined) {
+        const app = await controlApi.createApp({ name: newAppName });
+        appId = app.id;
+        plan.appId = app.id;
+        if (!isJsonMode) {
+          this.log(`${chalk.green("✓")} create app ${app.name} (${app.id})`);
+        }
+      }
+
+      const results = await applyPlan(controlApi, plan, (result) => {
+        if (isJsonMode) return;
+
+        const label = `${result.change.action} ${result.change.kind} ${result.change.name}`;
+        this.log(
+          result.success
+            ? `${chalk.green("✓")} ${label}`
+            : `${chalk.red("✗")} ${label}: ${result.error}`,
+        );
+      });
+      failed = results.some((result) => !result.success);
+
+      if (isJsonMode) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              appId,
+              applied: results.map((result) => ({
+                action: result.change.action,
+                error: result.error,
+                kind: result.change.kind,
+                name: result.change.name,
+                success: result.success,
+              })),
+              ignored: plan.ignored,
+              skipped: plan.changes.length - results.length,
+              success: !failed,
+              summary: summarizePlan(plan),
+              timestamp: new Date().toISOString(),
+            },
+            flags,
+          ),
+        );
+      } else if (failed) {
+        const skipped = plan.changes.length - results.length;
+        this.log(
+          chalk.red(
+            `\nApply stopped after a failure${skipped > 0 ? `; ${skipped} change(s) were not attempted` : ""}. Fix the problem and run the command again.`,
+          ),
+        );
+      } else {
+        this.log(
+          chalk.green(`\nApplied ${results.length} change(s) to app ${appId}.`),
+        );
+      }
+    } catch (error) {
+      this.fail(error, "Error applying manifest");
+    }
+
+    if (failed) {
+      this.exit(1);
+    }
+  }
+}
@@ -1,13 +1,42 @@
-import { Command, Flags } from "@oclif/core";
+import { Command, Errors, Flags } from "@oclif/core";
 import * as Ably from "ably";
 import chalk from "chalk";
 import colorJson from "color-json";
 import { randomUUID } from "node:crypto";
 
-import { ConfigManager } from "./services/config-manager.js";
+import { CliError, errorEnvelope, toCliError } from "./services/cli-error.js";
+import {
+  ConfigManager,
+  ResolvedSetting,
+} from "./services/config-manager.js";
 import { ControlApi } from "./services/control-api.js";
+import {
+  ExportFormat,
+  ExportOptions,
+  Paginated,
+  PaginationOptions,
+  exportPages,
+} from "./services/history-export.js";
 import { InteractiveHelper } from "./services/interactive-helper.js";
-import { BaseFlags, CommandConfig, ErrorDetails } from "./types/cli.js";
+import {
+  FilterNode,
+  evaluateFilter,
+  parseFilter,
+} from "./services/message-filter.js";
+import {
+  OutputFormat,
+  RecordOutput,
+  formatRecords,
+  isOutputFormat,
+  parseFields,
+} from "./services/output-formatter.js";
+import {
+  StopReason,
+  UntilCondition,
+  matchesUntilCondition,
+  parseUntilCondition,
+} from "./services/stop-conditions.js";
+import { BaseFlags, CommandConfig } from "./types/cli.js";
 
 // Export BaseFlags for potential use in other modules like MCP
 
@@ -23,6 +52,19 @@ export const WEB_CLI_RESTRICTED_COMMANDS = [
   "mcp",
 ];
 
+// List of commands that never read secrets, so never prompt for a passphrase
+const SKIP_SECRETS_UNLOCK_COMMANDS = new Set([
+  "config",
+  "config:doctor",
+  "help:contact",
+  "help:status",
+  "help:support",
+  "version",
+]);
+
+// List of commands that can run when the config file is broken
+const CONFIG_LOAD_ERROR_COMMANDS = new Set(["config", "config:doctor"]);
+
 // List of commands that should not show account/app info
 const SKIP_AUTH_INFO_COMMANDS = [
   "accounts:list",
@@ -82,6 +124,11 @@ export abstract class AblyBaseCommand extends Command {
       description: "Output in colorized JSON format",
       exclusive: ["json"], // Cannot use with json
     }),
+    profile: Flags.string({
+      description:
+        "Use a named profile from the project's .ably.toml or the [profiles] section of the global config",
+      env: "ABLY_PROFILE",
+    }),
     token: Flags.string({
       description:
         "Authenticate using an Ably Token or JWT Token instead of an API key",
@@ -104,9 +151,26 @@ export abstract class AblyBaseCommand extends Command {
 
   protected isWebCliMode: boolean;
 
+  // Where the API key filled in by createAblyClient came from
+  private apiKeySource?: Omit<ResolvedSetting, "value">;
+
+  // Parsed --filter expression, set up by setupMessageFilter()
+  private messageFilter?: FilterNode;
+
+  // Set up by setupStopConditions() for long-running commands
+  private stopState?: {
+    events: number;
+    interrupt: () => void;
+    stop: () => void;
+    stopped: boolean;
+    timer?: NodeJS.Timeout;
+    until?: UntilCondition;
+  };
+
   constructor(argv: string[], config: CommandConfig) {
     super(argv, config);
-    this.configManager = new ConfigManager();
+    // A broken config is reported in init(), so `config doctor` can still run
+    this.configManager = new ConfigManager({ tolerateLoadErrors: true });
     this.interactiveHelper = new InteractiveHelper(this.configManager);
     // Check if we're running in web CLI mode
     this.isWebCliMode = process.env.ABLY_WEB_CLI_MODE === "true";
@@ -213,13 +277,16 @@ export abstract class AblyBaseCommand extends Command {
     if (!flags.token && !flags["api-key"] && !process.env.ABLY_API_KEY) {
       const appAndKey = await this.ensureAppAndKey(flags);
       if (!appAndKey) {
-        this.error(
+        throw new CliError(
           `${chalk.yellow("No app or API key configured for this command")}.\nPlease log in first with "${chalk.cyan("ably accounts login")}" (recommended approach).\nAlternatively you can provide an API key with the ${chalk.cyan("--api-key")} argument or set the ${chalk.cyan("ABLY_API_KEY")} environment variable.`,
+          { category: "auth" },
         );
-        return null;
       }
 
       flags["api-key"] = appAndKey.apiKey;
+      this.apiKeySource = this.configManager.getPinnedSetting("key") ?? {
+        source: "global",
+      };
     }
 
     // Show auth info at the start of the command (but not in Web CLI mode)
@@ -228,15 +295,13 @@ export abstract class AblyBaseCommand extends Command {
     }
 
     const options = this.getClientOptions(flags);
-    // isJsonMode is defined outside the try block for use in error handling
-    const isJsonMode = this.shouldOutputJson(flags);
 
     // Make sure we have authentication after potentially modifying options
     if (!options.key && !options.token) {
-      this.error(
+      throw new CliError(
         "Authentication required. Please provide either an API key, a token, or log in first.",
+        { category: "auth" },
       );
-      return null;
     }
 
     try {
@@ -263,38 +328,26 @@ export abstract class AblyBaseCommand extends Command {
             if (options.key) {
               // Check the original options object
               this.handleInvalidKey(flags);
-              const errorMsg =
-                "Invalid API key. Ensure you have a valid key configured.";
-              if (isJsonMode) {
-                this.outputJsonError(
-                  errorMsg,
-                  stateChange.reason as ErrorDetails,
-                );
-              }
-
-              reject(new Error(errorMsg));
+              reject(
+                toCliError(
+                  stateChange.reason,
+                  "Invalid API key. Ensure you have a valid key configured",
+                ),
+              );
             } else {
-              const errorMsg =
-                "Invalid token. Please provide a valid Ably Token or JWT.";
-              if (isJsonMode) {
-                this.outputJsonError(
-                  errorMsg,
-                  stateChange.reason as ErrorDetails,
-                );
-              }
-
-              reject(new Error(errorMsg));
-            }
-          } else {
-            const errorMsg = stateChange.reason?.message || "Connection failed";
-            if (isJsonMode) {
-              this.outputJsonError(
-                errorMsg,
-                stateChange.reason as ErrorDetails,
+              reject(
+                toCliError(
+                  stateChange.reason,
+                  "Invalid token. Please provide a valid Ably Token or JWT",
+                ),
               );
             }
-
-            reject(stateChange.reason || new Error(errorMsg));
+          } else {
+            reject(
+              stateChange.reason
+                ? toCliError(stateChange.reason)
+                : new CliError("Connection failed", { category: "network" }),
+            );
           }
         });
       });
@@ -316,7 +369,8 @@ export abstract class AblyBaseCommand extends Command {
 
   /**
    * Display the current account, app, and authentication information
-   * This provides context to the user about which resources they're working with
+   * This provides context to the user about which resources they're working with,
+   * and where each value came from (flag, env, project file or global config)
    *
    * @param flags Command flags that may contain auth overrides
    * @param showAppInfo Whether to show app info (for data plane commands)
@@ -339,7 +393,7 @@ export abstract class AblyBaseCommand extends Command {
     // Only add account info if it shouldn't be hidden
     if (!this.shouldHideAccountInfo(flags)) {
       displayParts.push(
-        `${chalk.cyan("Account=")}${chalk.cyan.bold(accountName)}${accountId ? chalk.gray(` (${accountId})`) : ""}`,
+        `${chalk.cyan("Account=")}${chalk.cyan.bold(accountName)}${accountId ? chalk.gray(` (${accountId})`) : ""}${this.formatSettingSource(this.configManager.getPinnedSetting("account"))}`,
       );
     }
 
@@ -349,8 +403,11 @@ export abstract class AblyBaseCommand extends Command {
       const appId = flags.app || this.configManager.getCurrentAppId();
       if (appId) {
         const appName = this.configManager.getAppName(appId) || "Unknown App";
+        const appSource = flags.app
+          ? { source: "flag" as const }
+          : this.configManager.getPinnedSetting("app");
         displayParts.push(
-          `${chalk.green("App=")}${chalk.green.bold(appName)} ${chalk.gray(`(${appId})`)}`,
+          `${chalk.green("App=")}${chalk.green.bold(appName)} ${chalk.gray(`(${appId})`)}${this.formatSettingSource(appSource)}`,
         );
 
         // Check auth method - token or API key
@@ -361,12 +418,14 @@ export abstract class AblyBaseCommand extends Command {
               ? `${flags.token.slice(0, 17)}...`
               : flags.token;
           displayParts.push(
-            `${chalk.magenta("Auth=")}${chalk.magenta.bold("Token")} ${chalk.gray(`(${truncatedToken})`)}`,
+            `${chalk.magenta("Auth=")}${chalk.magenta.bold("Token")} ${chalk.gray(`(${truncatedToken})`)}${this.formatSettingSource({ source: "flag" })}`,
           );
         } else {
           // For API key auth
           const apiKey =
-            flags["api-key"] || this.configManager.getApiKey(appId);
+            flags["api-key"] ||
+            process.env.ABLY_API_KEY ||
+            this.configManager.getApiKey(appId);
           if (apiKey) {
             const keyId = apiKey.split(":")[0]; // Extract key ID (part before colon)
             const keyName =
@@ -376,11 +435,36 @@ export abstract class AblyBaseCommand extends Command {
               ? keyId
               : `${appId}.${keyId}`;
             displayParts.push(
-              `${chalk.yellow("Key=")}${chalk.yellow.bold(keyName)} ${chalk.gray(`(${formattedKeyName})`)}`,
+              `${chalk.yellow("Key=")}${chalk.yellow.bold(keyName)} ${chalk.gray(`(${formattedKeyName})`)}${this.formatSettingSource(this.getApiKeySource(flags))}`,
             );
           }
         }
       }
+
+      const host = flags.host
+        ? { source: "flag" as const, value: flags.host }
+        : this.configManager.getPinnedSetting("host");
+      const environment = flags.env
+        ? { source: "flag" as const, value: flags.env }
+        : this.configManager.getPinnedSetting("environment");
+      if (host) {
+        displayParts.push(
+          `${chalk.blue("Host=")}${chalk.blue.bold(host.value)}${this.formatSettingSource(host)}`,
+        );
+      } else if (environment) {
+        displayParts.push(
+          `${chalk.blue("Env=")}${chalk.blue.bold(environment.value)}${this.formatSettingSource(environment)}`,
+        );
+      }
+
+      const clientId = flags["client-id"]
+        ? { source: "flag" as const, value: flags["client-id"] }
+        : this.configManager.getPinnedSetting("clientId");
+      if (clientId && !flags.token) {
+        displayParts.push(
+          `${chalk.blue("Client=")}${chalk.blue.bold(clientId.value)}${this.formatSettingSource(clientId)}`,
+        );
+      }
     }
 
     // Only display if we have parts to show
@@ -393,6 +477,33 @@ export abstract class AblyBaseCommand extends Command {
     }
   }
 
+  /**
+   * Warn that a switch command changes the global config, which the selected
+   * profile or the project's .ably.toml overrides
+   */
+  protected warnIfPinned(name: "account" | "app" | "key"): void {
+    const pinned = this.configManager.getPinnedSetting(name);
+    if (!pinned) return;
+
+    this.warn(
+      `The ${name} is set to "${pinned.value}" by ${this.describePinnedSetting(pinned)}, so this switch only changes the global config and won't apply while that is in use`,
+    );
+  }
+
+  /**
+   * Format where a displayed value came from, e.g. "[project profile prod]".
+   * Values without a recorded source come from the global config.
+   */
+  protected formatSettingSource(
+    setting?: Omit<ResolvedSetting, "value">,
+  ): string {
+    const source = setting?.source ?? "global";
+    const label = setting?.profile
+      ? `${source} profile ${setting.profile}`
+      : source;
+    return chalk.dim(` [${label}]`);
+  }
+
   /**
    * Display information for control plane commands
    * Shows only account information
@@ -502,6 +613,31 @@ export abstract class AblyBaseCommand extends Command {
       }
     }
 
+    // A pinned key is looked up rather than stored, so the global config is
+    // left as it was
+    const pinnedKey = this.configManager.getPinnedSetting("key");
+    if (
+      !apiKey &&
+      pinnedKey &&
+      appId === this.configManager.getCurrentAppId()
+    ) {
+      const keys = await controlApi.listKeys(appId);
+      const key = keys.find(
+        (candidate) =>
+          candidate.name === pinnedKey.value ||
+          candidate.id === pinnedKey.value ||
+          candidate.key.split(":")[0] === pinnedKey.value ||
+          candidate.key.split(":")[0] === `${appId}.${pinnedKey.value}`,
+      );
+      if (!key) {
+        this.error(
+          `Key "${pinnedKey.value}" set by ${this.describePinnedSetting(pinnedKey)} was not found in app ${appId}`,
+        );
+      }
+
+      return { apiKey: key.key, appId };
+    }
+
     // If no key is selected, prompt to select one
     if (!apiKey) {
       if (!this.shouldSuppressOutput(flags)) {
@@ -531,11 +667,46 @@ export abstract class AblyBaseCommand extends Command {
     return { apiKey, appId };
   }
 
+  /**
+   * Map every error that ends a command into the error taxonomy, so it exits
+   * with the category's exit code and, in --json mode, writes one error
+   * envelope instead of oclif's text output
+   */
+  async catch(err: Error & { exitCode?: number }): Promise<unknown> {
+    // this.exit() ends a command deliberately and isn't an error
+    if (err instanceof Errors.ExitError) {
+      return super.catch(err);
+    }
+
+    const error = toCliError(err);
+    const flags = this.getRawOutputFlags();
+    if (this.shouldOutputJson(flags)) {
+      this.outputJsonError(error, flags);
+      error.skipOclifErrorHandling = true;
+    }
+
+    process.exitCode = error.exitCode;
+    return super.catch(error);
+  }
+
+  /**
+   * End the command with an error mapped into the error taxonomy, keeping
+   * the Ably or Control API error code, help link and exit code of the
+   * original error
+   *
+   * @param context Prefix for the message, e.g. "Failed to publish message"
+   */
+  protected fail(error: unknown, context?: string): never {
+    const cliError = toCliError(error, context);
+    this.error(cliError, { exit: cliError.exitCode });
+  }
+
   /**
    * This hook runs before command execution
    * It's the oclif standard hook that runs before the run() method
    */
   async finally(err: Error | undefined): Promise<void> {
+    this.clearStopConditions();
     // Call super to maintain the parent class functionality
     await super.finally(err);
   }
@@ -560,6 +731,244 @@ export abstract class AblyBaseCommand extends Command {
     return JSON.stringify(data, null, 2);
   }
 
+  /**
+   * The output format for list and get results, or undefined for the
+   * command's own human-readable output. --json and --pretty-json select
+   * JSON, and --fields or --query without --format select a table or JSON.
+   */
+  protected getOutputFormat(flags: BaseFlags): OutputFormat | undefined {
+    if (this.shouldOutputJson(flags)) return "json";
+    if (isOutputFormat(flags.format)) return flags.format;
+    if (flags.query) return "json";
+    if (flags.fields) return "table";
+    return undefined;
+  }
+
+  /**
+   * Whether list and get results should go through outputRecords() instead
+   * of the command's own human-readable output
+   */
+  protected shouldOutputRecords(flags: BaseFlags): boolean {
+    return this.getOutputFormat(flags) !== undefined;
+  }
+
+  /**
+   * Output the results of a list or get command in the format selected by
+   * --format (or --json), keeping the fields chosen with --fields and
+   * --query
+   */
+  protected outputRecords(flags: BaseFlags, output: RecordOutput): void {
+    let formatted: string;
+    try {
+      formatted = formatRecords(output, {
+        fields: parseFields(flags.fields),
+        format: this.getOutputFormat(flags) ?? "table",
+        pretty: this.isPrettyJsonOutput(flags),
+        query: flags.query,
+      });
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    this.log(formatted);
+  }
+
+  /**
+   * Write paginated history as NDJSON or CSV for commands using
+   * historyExportFlags. Records go to --output or stdout; progress and, when
+   * writing to stdout, the summary go to stderr so they don't mix with the data.
+   */
+  protected async exportHistory<T>(
+    flags: BaseFlags,
+    firstPage: Paginated<T>,
+    options: Pick<ExportOptions<T>, "columns" | "toRecord"> & { label: string },
+  ): Promise<void> {
+    const result = await exportPages(firstPage, {
+      ...options,
+      ...this.getPaginationOptions(flags, options.label),
+      format: flags.format as ExportFormat | undefined,
+      output: flags.output as string | undefined,
+    });
+
+    const summary = `${chalk.green("✓")} Exported ${result.count} ${options.label}${result.file ? ` to ${result.file}` : ""} as ${result.format.toUpperCase()}`;
+    const hint = result.truncated
+      ? chalk.yellow(
+          flags.all
+            ? "More results are available. Increase --max to fetch them."
+            : "More results are available. Use --all to fetch every page.",
+        )
+      : undefined;
+
+    if (!result.file) {
+      this.logToStderr(summary);
+      if (hint) this.logToStderr(hint);
+      return;
+    }
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(
+        this.formatJsonOutput(
+          {
+            count: result.count,
+            file: result.file,
+            format: result.format,
+            success: true,
+            timestamp: new Date().toISOString(),
+            truncated: result.truncated,
+          },
+          flags,
+        ),
+      );
+    } else {
+      this.log(summary);
+      if (hint) this.log(hint);
+    }
+  }
+
+  /**
+   * Parse the --filter expression of a command using filterFlags, before it
+   * subscribes so a bad expression fails fast
+   */
+  protected setupMessageFilter(flags: BaseFlags): FilterNode | undefined {
+    if (flags.filter === undefined) return undefined;
+
+    try {
+      this.messageFilter = parseFilter(flags.filter as string);
+    } catch (error) {
+      this.error(
+        `Invalid --filter expression: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return this.messageFilter;
+  }
+
+  /**
+   * Whether an event passes --filter. Call this before the event is output
+   * or counted by checkStopConditions(), passing the event as delivered by
+   * the SDK (through messageFields() for channel and presence messages).
+   */
+  protected passesMessageFilter(event: unknown): boolean {
+    return !this.messageFilter || evaluateFilter(this.messageFilter, event);
+  }
+
+  /**
+   * Call `stop` when a long-running command using stopConditionFlags should
+   * end: on Ctrl+C or SIGTERM, after --duration seconds, or once
+   * checkStopConditions() has seen --max-messages events or one matching
+   * --until. If --duration runs out first, the timeout error is reported and
+   * the process exit code is set before `stop` is called, so commands that
+   * exit from their cleanup must use process.exit() without a code.
+   */
+  protected setupStopConditions(flags: BaseFlags, stop: () => void): void {
+    let until: UntilCondition | undefined;
+    if (flags.until !== undefined) {
+      until = parseUntilCondition(flags.until as string);
+      if (!until) {
+        this.error(
+          `Invalid --until condition "${flags.until}". Use <path>=<value>, e.g. "data.status=done"`,
+        );
+      }
+    }
+
+    const interrupt = () => this.stopLongRunningCommand(flags, "interrupted");
+    this.stopState = { events: 0, interrupt, stop, stopped: false, until };
+    process.once("SIGINT", interrupt);
+    process.once("SIGTERM", interrupt);
+
+    const duration = flags.duration as number | undefined;
+    if (duration !== undefined) {
+      this.stopState.timer = setTimeout(() => {
+        const maxMessages = flags["max-messages"] as number | undefined;
+        if (maxMessages === undefined && !until) {
+          this.stopLongRunningCommand(flags, "duration");
+          return;
+        }
+
+        const events = this.stopState?.events ?? 0;
+        const error = new CliError(
+          until
+            ? `Timed out after ${duration}s without an event matching --until "${flags.until}"`
+            : `Timed out after ${duration}s having received ${events} of ${maxMessages} events`,
+          { category: "timeout" },
+        );
+        process.exitCode = error.exitCode;
+        if (this.shouldOutputJson(flags)) {
+          this.outputJsonError(error, flags);
+        } else {
+          this.logToStderr(chalk.red(`Error: ${error.message}`));
+        }
+
+        this.stopLongRunningCommand(flags, "timeout");
+      }, duration * 1000);
+    }
+  }
+
+  /**
+   * Count an event received by a long-running command, stopping it once
+   * --max-messages is reached or the event matches --until. Pass the event
+   * as it is output with --json, after it has been output.
+   */
+  protected checkStopConditions(flags: BaseFlags, event: unknown): void {
+    const state = this.stopState;
+    if (!state || state.stopped) return;
+
+    state.events++;
+    if (state.until && matchesUntilCondition(event, state.until)) {
+      this.stopLongRunningCommand(flags, "until");
+      return;
+    }
+
+    const maxMessages = flags["max-messages"] as number | undefined;
+    if (maxMessages !== undefined && state.events >= maxMessages) {
+      this.stopLongRunningCommand(flags, "max-messages");
+    }
+  }
+
+  private stopLongRunningCommand(flags: BaseFlags, reason: StopReason): void {
+    const state = this.stopState;
+    if (!state || state.stopped) return;
+
+    this.clearStopConditions();
+    state.stopped = true;
+    this.logCliEvent(
+      flags,
+      "stopCondition",
+      reason,
+      `Stopping after ${state.events} event(s) (${reason})`,
+      { events: state.events, reason },
+    );
+    state.stop();
+  }
+
+  private clearStopConditions(): void {
+    if (!this.stopState) return;
+
+    clearTimeout(this.stopState.timer);
+    process.off("SIGINT", this.stopState.interrupt);
+    process.off("SIGTERM", this.stopState.interrupt);
+  }
+
+  /**
+   * Pagination settings from historyExportFlags, reporting progress on stderr
+   * when following multiple pages
+   */
+  protected getPaginationOptions(
+    flags: BaseFlags,
+    label: string,
+  ): PaginationOptions {
+    return {
+      all: flags.all as boolean | undefined,
+      max: flags.max as number | undefined,
+      onPage: flags.all
+        ? (fetched, page) =>
+            this.logToStderr(
+              chalk.dim(`Fetched ${fetched} ${label} (page ${page})`),
+            )
+        : undefined,
+    };
+  }
+
   protected getClientOptions(flags: BaseFlags): Ably.ClientOptions {
     const options: Ably.ClientOptions = {};
     const isJsonMode = this.shouldOutputJson(flags);
@@ -635,14 +1044,18 @@ export abstract class AblyBaseCommand extends Command {
       }
     }
 
-    // Handle host and environment options
-    if (flags.host) {
-      options.realtimeHost = flags.host;
-      options.restHost = flags.host;
+    // Handle host and environment options, which a profile or project can pin
+    const host =
+      flags.host || this.configManager.getPinnedSetting("host")?.value;
+    if (host) {
+      options.realtimeHost = host;
+      options.restHost = host;
     }
 
-    if (flags.env) {
-      options.environment = flags.env;
+    const environment =
+      flags.env || this.configManager.getPinnedSetting("environment")?.value;
+    if (environment) {
+      options.environment = environment;
     }
 
     if (flags.port) {
@@ -717,6 +1130,29 @@ export abstract class AblyBaseCommand extends Command {
 
     // Check if command is allowed to run in web CLI mode
     this.checkWebCliRestrictions();
+
+    const loadError = this.configManager.getLoadError();
+    if (loadError && !CONFIG_LOAD_ERROR_COMMANDS.has(this.id || "")) {
+      this.error(
+        `Failed to load Ably config: ${loadError}\nRun "ably config doctor --fix" to repair ${this.configManager.getConfigPath()}`,
+      );
+    }
+
+    const loadWarnings = this.configManager.getLoadWarnings();
+    if (
+      loadWarnings.length > 0 &&
+      !CONFIG_LOAD_ERROR_COMMANDS.has(this.id || "")
+    ) {
+      this.warn(
+        `Ignoring invalid settings in ${this.configManager.getConfigPath()}:\n${loadWarnings
+          .map((issue) => `  ${issue.path}: ${issue.message}`)
+          .join("\n")}\nRun "ably config doctor --fix" to repair it`,
+      );
+    }
+
+    this.selectProfile();
+
+    await this.unlockSecretsIfNeeded();
   }
 
   /**
@@ -809,18 +1245,12 @@ export abstract class AblyBaseCommand extends Command {
     }
   }
 
-  /** Helper to output errors in JSON format */
-  protected outputJsonError(
-    message: string,
-    errorDetails: ErrorDetails = {},
-  ): void {
-    const errorOutput = {
-      details: errorDetails,
-      error: true,
-      message,
-    };
-    // Use console.error to send JSON errors to stderr
-    console.error(JSON.stringify(errorOutput));
+  /**
+   * Write the JSON error envelope for a failed command to stdout, where
+   * scripts read the rest of the --json output
+   */
+  protected outputJsonError(error: CliError, flags: BaseFlags): void {
+    this.log(this.formatJsonOutput(errorEnvelope(error), flags));
   }
 
   /**
@@ -903,7 +1333,11 @@ export abstract class AblyBaseCommand extends Command {
 
   // Add this method to check if we should suppress output
   protected shouldSuppressOutput(flags: BaseFlags): boolean {
-    return flags["token-only"] === true;
+    if (flags["token-only"] === true) return true;
+
+    // Keep stdout to the records for formats meant for other programs.
+    // Commands already handle --json themselves.
+    return this.shouldOutputRecords(flags) && !this.shouldOutputJson(flags);
   }
 
   /**
@@ -956,6 +1390,26 @@ export abstract class AblyBaseCommand extends Command {
     }
   }
 
+  private describePinnedSetting(setting: ResolvedSetting): string {
+    const file =
+      setting.source === "project"
+        ? this.configManager.getProjectConfigPath()
+        : this.configManager.getConfigPath();
+    return setting.profile ? `profile "${setting.profile}" in ${file}` : file!;
+  }
+
+  private getApiKeySource(flags: BaseFlags): Omit<ResolvedSetting, "value"> {
+    if (flags["api-key"]) {
+      return this.apiKeySource ?? { source: "flag" };
+    }
+
+    if (process.env.ABLY_API_KEY) {
+      return { source: "env" };
+    }
+
+    return this.configManager.getPinnedSetting("key") ?? { source: "global" };
+  }
+
   private async handleInvalidKey(flags: BaseFlags): Promise<void> {
     const appId = flags.app || this.configManager.getCurrentAppId();
 
@@ -974,12 +1428,15 @@ export abstract class AblyBaseCommand extends Command {
   }
 
   private setClientId(options: Ably.ClientOptions, flags: BaseFlags): void {
-    if (flags["client-id"]) {
+    const clientId =
+      flags["client-id"] ||
+      this.configManager.getPinnedSetting("clientId")?.value;
+    if (clientId) {
       // Special case: "none" means explicitly no client ID
-      if (flags["client-id"].toLowerCase() === "none") {
+      if (clientId.toLowerCase() === "none") {
         // Don't set clientId at all
       } else {
-        options.clientId = flags["client-id"];
+        options.clientId = clientId;
       }
     } else {
       // Generate a default client ID for the CLI
@@ -987,6 +1444,106 @@ export abstract class AblyBaseCommand extends Command {
     }
   }
 
+  /**
+   * The output flags from the raw arguments, for errors raised before or
+   * while flags are parsed
+   */
+  private getRawOutputFlags(): BaseFlags {
+    const flags: BaseFlags = {};
+    for (const [index, arg] of this.argv.entries()) {
+      if (arg === "--") break;
+      switch (arg) {
+        case "--format": {
+          flags.format = this.argv[index + 1];
+          break;
+        }
+
+        case "--json": {
+          flags.json = true;
+          break;
+        }
+
+        case "--pretty-json": {
+          flags["pretty-json"] = true;
+          break;
+        }
+
+        default: {
+          if (arg.startsWith("--format=")) {
+            flags.format = arg.slice("--format=".length);
+          }
+        }
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * Apply the project's .ably.toml and the profile chosen with --profile (or
+   * ABLY_PROFILE) before flags are parsed, so every command sees the pinned
+   * account, app and key. A host or environment from an untrusted project is
+   * ignored with a warning.
+   */
+  private selectProfile(): void {
+    const projectError = this.configManager.getProjectConfigError();
+    if (projectError && !CONFIG_LOAD_ERROR_COMMANDS.has(this.id || "")) {
+      this.error(projectError);
+    }
+
+    let profile = process.env.ABLY_PROFILE || undefined;
+    for (const [index, arg] of this.argv.entries()) {
+      if (arg === "--") break;
+      if (arg === "--profile") {
+        profile = this.argv[index + 1];
+      } else if (arg.startsWith("--profile=")) {
+        profile = arg.slice("--profile=".length);
+      }
+    }
+
+    try {
+      this.configManager.useProfile(profile);
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    if (this.id === "config:trust") return;
+    for (const {
+      name,
+      setting,
+    } of this.configManager.getUntrustedProjectEndpoints()) {
+      this.warn(
+        `Ignoring ${name} "${setting.value}" from ${this.describePinnedSetting(setting)}, as a project file could send your credentials elsewhere. Run "ably config trust" to use it`,
+      );
+    }
+  }
+
+  /**
+   * Prompt for the passphrase when secrets are in a locked encrypted file.
+   * Without a terminal the passphrase must come from ABLY_SECRETS_PASSPHRASE,
+   * and reading a secret reports that instead.
+   */
+  private async unlockSecretsIfNeeded(): Promise<void> {
+    if (
+      this.isTestMode() ||
+      this.isWebCliMode ||
+      !process.stdin.isTTY ||
+      SKIP_SECRETS_UNLOCK_COMMANDS.has(this.id || "") ||
+      !this.configManager.isSecretStoreLocked()
+    ) {
+      return;
+    }
+
+    const passphrase = await this.interactiveHelper.promptForPassphrase(
+      "Enter the passphrase for your Ably secrets:",
+    );
+    try {
+      this.configManager.unlockSecrets(passphrase);
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+  }
+
   /**
    * Centralized handler for cleaning up resources like Ably connections
    * Includes a timeout to prevent hanging if cleanup takes too long
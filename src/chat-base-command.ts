@@ -1,6 +1,13 @@
-import { ChatClient } from "@ably/chat";
+import {
+  ChatClient,
+  Message,
+  OrderBy,
+  PaginatedResult,
+  Room,
+} from "@ably/chat";
 
 import { AblyBaseCommand } from "./base-command.js";
+import { CliError } from "./services/cli-error.js";
 import { BaseFlags } from "./types/cli.js";
 
 export abstract class ChatBaseCommand extends AblyBaseCommand {
@@ -20,4 +27,28 @@ export abstract class ChatBaseCommand extends AblyBaseCommand {
     // Use the Ably client to create the Chat client
     return new ChatClient(realtimeClient);
   }
+
+  /**
+   * Find a message in a room's history by its serial. Serials start with the
+   * time the message was sent, so the search starts from then.
+   */
+  protected async findMessage(room: Room, serial: string): Promise<Message> {
+    const sentAt = Number.parseInt(serial.split("-")[0], 10);
+    let page: PaginatedResult<Message> | null = await room.messages.get({
+      orderBy: OrderBy.OldestFirst,
+      start: Number.isNaN(sentAt) ? undefined : sentAt,
+    });
+
+    while (page) {
+      const message = page.items.find((item) => item.serial === serial);
+      if (message) return message;
+
+      page = page.hasNext() ? await page.next() : null;
+    }
+
+    throw new CliError(
+      `Message ${serial} was not found in room ${room.roomId}`,
+      { category: "not-found" },
+    );
+  }
 }
@@ -35,10 +35,15 @@ export default class AccountsCurrent extends ControlBaseCommand {
       return;
     }
 
+    const accessToken = this.configManager.getAccessToken(currentAlias);
+    if (!accessToken) {
+      this.error(
+        `No access token is stored for account "${currentAlias}". Log in again with "ably accounts login".`,
+      );
+    }
+
     // Verify the account by making an API call to get up-to-date information
     try {
-      const { accessToken } = currentAccount;
-
       const controlApi = new ControlApi({
         accessToken,
         controlHost: flags["control-host"],
@@ -1,6 +1,7 @@
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 
 export default class AccountsList extends ControlBaseCommand {
   static override description = "List locally configured Ably accounts";
@@ -9,10 +10,12 @@ export default class AccountsList extends ControlBaseCommand {
     "<%= config.bin %> <%= command.id %>",
     "<%= config.bin %> <%= command.id %> --json",
     "<%= config.bin %> <%= command.id %> --pretty-json",
+    "<%= config.bin %> <%= command.id %> --format table",
   ];
 
   static override flags = {
     ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
   };
 
   public async run(): Promise<void> {
@@ -44,35 +47,29 @@ export default class AccountsList extends ControlBaseCommand {
       return;
     }
 
-    if (this.shouldOutputJson(flags)) {
-      this.log(
-        this.formatJsonOutput(
-          {
-            accounts: accounts.map(({ account, alias }) => ({
-              alias,
-              appsConfigured: account.apps
-                ? Object.keys(account.apps).length
-                : 0,
-              currentApp:
-                alias === currentAlias && account.currentAppId
-                  ? {
-                      id: account.currentAppId,
-                      name:
-                        this.configManager.getAppName(account.currentAppId) ||
-                        account.currentAppId,
-                    }
-                  : undefined,
-              id: account.accountId || "Unknown",
-              isCurrent: alias === currentAlias,
-              name: account.accountName || "Unknown",
-              user: account.userEmail || "Unknown",
-            })),
-            currentAccount: currentAlias,
-            success: true,
-          },
-          flags,
-        ),
-      );
+    if (this.shouldOutputRecords(flags)) {
+      this.outputRecords(flags, {
+        columns: ["alias", "name", "id", "user", "appsConfigured", "isCurrent"],
+        key: "accounts",
+        meta: { currentAccount: currentAlias, success: true },
+        records: accounts.map(({ account, alias }) => ({
+          alias,
+          appsConfigured: account.apps ? Object.keys(account.apps).length : 0,
+          currentApp:
+            alias === currentAlias && account.currentAppId
+              ? {
+                  id: account.currentAppId,
+                  name:
+                    this.configManager.getAppName(account.currentAppId) ||
+                    account.currentAppId,
+                }
+              : undefined,
+          id: account.accountId || "Unknown",
+          isCurrent: alias === currentAlias,
+          name: account.accountName || "Unknown",
+          user: account.userEmail || "Unknown",
+        })),
+      });
       return;
     }
 
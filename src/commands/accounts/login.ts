@@ -208,19 +208,7 @@ export default class AccountsLogin extends ControlBaseCommand {
         this.log(`Account ${chalk.cyan(alias)} is now the current account`);
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to authenticate: ${error}`);
-      }
+      this.fail(error, "Failed to authenticate");
     }
   }
 
@@ -2,6 +2,7 @@ import { Args, Flags } from "@oclif/core";
 import * as readline from "node:readline";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
+import { CliError } from "../../services/cli-error.js";
 
 export default class AccountsLogout extends ControlBaseCommand {
   static override args = {
@@ -40,21 +41,7 @@ export default class AccountsLogout extends ControlBaseCommand {
     if (!targetAlias) {
       const error =
         'No account is currently selected and no alias provided. Use "ably accounts list" to see available accounts.';
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(error);
-      }
-
-      return;
+      this.error(error);
     }
 
     const accounts = this.configManager.listAccounts();
@@ -64,21 +51,7 @@ export default class AccountsLogout extends ControlBaseCommand {
 
     if (!accountExists) {
       const error = `Account with alias "${targetAlias}" not found. Use "ably accounts list" to see available accounts.`;
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(error);
-      }
-
-      return;
+      throw new CliError(error, { category: "not-found" });
     }
 
     // Get confirmation unless force flag is used or in JSON mode
@@ -128,19 +101,7 @@ export default class AccountsLogout extends ControlBaseCommand {
       }
     } else {
       const error = `Failed to log out from account ${targetAlias}.`;
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(error);
-      }
+      this.error(error);
     }
   }
 
@@ -1,6 +1,7 @@
 import { Args } from "@oclif/core";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
+import { CliError } from "../../services/cli-error.js";
 import { ControlApi } from "../../services/control-api.js";
 
 export default class AccountsSwitch extends ControlBaseCommand {
@@ -26,6 +27,7 @@ export default class AccountsSwitch extends ControlBaseCommand {
 
   public async run(): Promise<void> {
     const { args, flags } = await this.parse(AccountsSwitch);
+    this.warnIfPinned("account");
 
     // Get available accounts
     const accounts = this.configManager.listAccounts();
@@ -33,21 +35,7 @@ export default class AccountsSwitch extends ControlBaseCommand {
     if (accounts.length === 0) {
       const error =
         'No accounts configured. Use "ably accounts login" to add an account.';
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(error);
-      }
-
-      return;
+      this.error(error);
     }
 
     // If alias is provided, switch directly
@@ -100,26 +88,7 @@ export default class AccountsSwitch extends ControlBaseCommand {
 
     if (!accountExists) {
       const error = `Account with alias "${alias}" not found. Use "ably accounts list" to see available accounts.`;
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              availableAccounts: accounts.map(({ account, alias }) => ({
-                alias,
-                id: account.accountId || "Unknown",
-                name: account.accountName || "Unknown",
-              })),
-              error,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(error);
-      }
-
-      return;
+      throw new CliError(error, { category: "not-found" });
     }
 
     // Switch to the account
@@ -131,21 +100,7 @@ export default class AccountsSwitch extends ControlBaseCommand {
       if (!accessToken) {
         const error =
           "No access token found for this account. Please log in again.";
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error,
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(error);
-        }
-
-        return;
+        this.error(error);
       }
 
       const controlApi = new ControlApi({
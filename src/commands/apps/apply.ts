@@ -0,0 +1,52 @@
+import { Flags } from "@oclif/core";
+
+import { AppManifestBaseCommand } from "../../app-manifest-base-command.js";
+import { loadManifestFile } from "../../services/app-manifest.js";
+
+export default class AppsApplyCommand extends AppManifestBaseCommand {
+  static description =
+    "Create, update and delete channel rules, integrations, queues and keys so an app matches a manifest file";
+
+  static examples = [
+    "$ ably apps apply -f ably.yaml",
+    "$ ably apps apply -f ably.yaml --app my-app-id",
+    "$ ably apps apply -f ably.yaml --prune --force",
+    "$ ably apps apply -f ably.json --json",
+  ];
+
+  static flags = {
+    ...AppManifestBaseCommand.globalFlags,
+    app: Flags.string({
+      description:
+        "App ID or name to apply the manifest to (overrides the app in the manifest)",
+      required: false,
+    }),
+    file: Flags.string({
+      char: "f",
+      description: "Path to the YAML or JSON manifest file",
+      required: true,
+    }),
+    force: Flags.boolean({
+      default: false,
+      description: "Skip confirmation prompt",
+    }),
+    prune: Flags.boolean({
+      default: false,
+      description:
+        "Delete resources that exist in the app but not in the manifest (keys are revoked)",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(AppsApplyCommand);
+
+    await this.applyManifest(flags, async () => {
+      const manifest = loadManifestFile(flags.file);
+      const appRef = flags.app || manifest.app;
+      const appId = appRef
+        ? await this.resolveAppIdFromNameOrId(appRef)
+        : await this.resolveAppId(flags);
+      return { appId, manifest };
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { Flags } from "@oclif/core";
+
+import { AppManifestBaseCommand } from "../../../app-manifest-base-command.js";
+import { loadChannelRulesFile } from "../../../services/channel-rules.js";
+
+export default class ChannelRulesApplyCommand extends AppManifestBaseCommand {
+  static description =
+    "Create and update many channel rules at once from a YAML or JSON rules file";
+
+  static examples = [
+    "$ ably apps channel-rules apply -f rules.yaml",
+    "$ ably apps channel-rules apply -f rules.yaml --app my-app-id",
+    "$ ably apps channel-rules apply -f rules.yaml --prune --force",
+    "$ ably apps channel-rules apply -f rules.json --json",
+  ];
+
+  static flags = {
+    ...AppManifestBaseCommand.globalFlags,
+    app: Flags.string({
+      description:
+        "App ID or name to apply the rules to (overrides the app in the file)",
+      required: false,
+    }),
+    file: Flags.string({
+      char: "f",
+      description: "Path to the YAML or JSON channel rules file",
+      required: true,
+    }),
+    force: Flags.boolean({
+      default: false,
+      description: "Skip confirmation prompt",
+    }),
+    prune: Flags.boolean({
+      default: false,
+      description:
+        "Delete channel rules that exist in the app but not in the file",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(ChannelRulesApplyCommand);
+
+    await this.applyManifest(flags, async () => {
+      const rules = loadChannelRulesFile(flags.file);
+      const appRef = flags.app || rules.app;
+      const appId = appRef
+        ? await this.resolveAppIdFromNameOrId(appRef)
+        : await this.resolveAppId(flags);
+      return {
+        appId,
+        manifest: {
+          keys: [],
+          namespaces: rules.namespaces,
+          queues: [],
+          rules: [],
+          version: 1,
+        },
+      };
+    }, ["namespace"]);
+  }
+}
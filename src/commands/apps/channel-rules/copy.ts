@@ -0,0 +1,65 @@
+import { Flags } from "@oclif/core";
+
+import { AppManifestBaseCommand } from "../../../app-manifest-base-command.js";
+import { manifestNamespace } from "../../../services/app-manifest.js";
+
+export default class ChannelRulesCopyCommand extends AppManifestBaseCommand {
+  static description =
+    "Copy channel rules from one app to another, so staging can mirror production";
+
+  static examples = [
+    "$ ably apps channel-rules copy --from-app production-app-id --to-app staging-app-id",
+    '$ ably apps channel-rules copy --from-app "Production" --to-app "Staging" --prune --force',
+    "$ ably apps channel-rules copy --from-app production-app-id --to-app staging-app-id --json",
+  ];
+
+  static flags = {
+    ...AppManifestBaseCommand.globalFlags,
+    force: Flags.boolean({
+      default: false,
+      description: "Skip confirmation prompt",
+    }),
+    "from-app": Flags.string({
+      description: "App ID or name to copy the channel rules from",
+      required: true,
+    }),
+    prune: Flags.boolean({
+      default: false,
+      description:
+        "Delete channel rules in the target app that the source app does not have",
+    }),
+    "to-app": Flags.string({
+      description: "App ID or name to copy the channel rules to",
+      required: true,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(ChannelRulesCopyCommand);
+
+    await this.applyManifest(flags, async () => {
+      const sourceAppId = await this.resolveAppIdFromNameOrId(
+        flags["from-app"],
+      );
+      const appId = await this.resolveAppIdFromNameOrId(flags["to-app"]);
+      if (sourceAppId === appId) {
+        throw new Error("The source and target apps must be different");
+      }
+
+      const namespaces =
+        await this.createControlApi(flags).listNamespaces(sourceAppId);
+      return {
+        appId,
+        manifest: {
+          keys: [],
+          namespaces: namespaces.map((namespace) =>
+            manifestNamespace(namespace),
+          ),
+          queues: [],
+          rules: [],
+          version: 1,
+        },
+      };
+    }, ["namespace"]);
+  }
+}
@@ -2,6 +2,7 @@ import { Flags } from "@oclif/core";
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
+import { CHANNEL_RULE_TEMPLATES } from "../../../services/channel-rules.js";
 
 export default class ChannelRulesCreateCommand extends ControlBaseCommand {
   static description = "Create a channel rule";
@@ -10,6 +11,7 @@ export default class ChannelRulesCreateCommand extends ControlBaseCommand {
     '$ ably apps channel-rules create --name "chat" --persisted',
     '$ ably apps channel-rules create --name "events" --push-enabled',
     '$ ably apps channel-rules create --name "notifications" --persisted --push-enabled --app "My App"',
+    '$ ably apps channel-rules create --name "support" --template chat-room --push-enabled',
   ];
 
   static flags = {
@@ -63,7 +65,6 @@ export default class ChannelRulesCreateCommand extends ControlBaseCommand {
       required: false,
     }),
     persisted: Flags.boolean({
-      default: false,
       description:
         "Whether messages on channels matching this rule should be persisted",
       required: false,
@@ -74,11 +75,16 @@ export default class ChannelRulesCreateCommand extends ControlBaseCommand {
       required: false,
     }),
     "push-enabled": Flags.boolean({
-      default: false,
       description:
         "Whether push notifications should be enabled for channels matching this rule",
       required: false,
     }),
+    template: Flags.string({
+      description:
+        'Start from a built-in template (see "ably apps channel-rules templates"); other flags override its settings',
+      options: Object.keys(CHANNEL_RULE_TEMPLATES),
+      required: false,
+    }),
     "tls-only": Flags.boolean({
       description: "Whether to enforce TLS for channels matching this rule",
       required: false,
@@ -89,7 +95,6 @@ export default class ChannelRulesCreateCommand extends ControlBaseCommand {
     const { flags } = await this.parse(ChannelRulesCreateCommand);
 
     const controlApi = this.createControlApi(flags);
-    let appId: string | undefined;
 
     try {
       let appId = flags.app;
@@ -98,41 +103,34 @@ export default class ChannelRulesCreateCommand extends ControlBaseCommand {
       }
 
       if (!appId) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error:
-                  'No app specified. Use --app flag or select an app with "ably apps switch"',
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(
-            'No app specified. Use --app flag or select an app with "ably apps switch"',
-          );
-        }
-
-        return;
+        this.error(
+          'No app specified. Use --app flag or select an app with "ably apps switch"',
+        );
       }
 
+      const template = flags.template
+        ? CHANNEL_RULE_TEMPLATES[flags.template].settings
+        : {};
       const namespaceData = {
-        authenticated: flags.authenticated,
-        batchingEnabled: flags["batching-enabled"],
-        batchingInterval: flags["batching-interval"],
+        authenticated: flags.authenticated ?? template.authenticated,
+        batchingEnabled: flags["batching-enabled"] ?? template.batchingEnabled,
+        batchingInterval:
+          flags["batching-interval"] ?? template.batchingInterval,
         channelNamespace: flags.name,
-        conflationEnabled: flags["conflation-enabled"],
-        conflationInterval: flags["conflation-interval"],
-        conflationKey: flags["conflation-key"],
-        exposeTimeSerial: flags["expose-time-serial"],
-        persistLast: flags["persist-last"],
-        persisted: flags.persisted,
-        populateChannelRegistry: flags["populate-channel-registry"],
-        pushEnabled: flags["push-enabled"],
-        tlsOnly: flags["tls-only"],
+        conflationEnabled:
+          flags["conflation-enabled"] ?? template.conflationEnabled,
+        conflationInterval:
+          flags["conflation-interval"] ?? template.conflationInterval,
+        conflationKey: flags["conflation-key"] ?? template.conflationKey,
+        exposeTimeSerial:
+          flags["expose-time-serial"] ?? template.exposeTimeSerial,
+        persistLast: flags["persist-last"] ?? template.persistLast,
+        persisted: flags.persisted ?? template.persisted ?? false,
+        populateChannelRegistry:
+          flags["populate-channel-registry"] ??
+          template.populateChannelRegistry,
+        pushEnabled: flags["push-enabled"] ?? template.pushEnabled ?? false,
+        tlsOnly: flags["tls-only"] ?? template.tlsOnly,
       };
 
       const createdNamespace = await controlApi.createNamespace(
@@ -242,23 +240,7 @@ export default class ChannelRulesCreateCommand extends ControlBaseCommand {
         this.log(`Created: ${this.formatDate(createdNamespace.created)}`);
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error creating channel rule: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error creating channel rule");
     }
   }
 }
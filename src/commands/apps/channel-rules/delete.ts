@@ -3,6 +3,7 @@ import chalk from "chalk";
 import * as readline from "node:readline";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
+import { CliError } from "../../../services/cli-error.js";
 
 export default class ChannelRulesDeleteCommand extends ControlBaseCommand {
   static args = {
@@ -40,7 +41,6 @@ export default class ChannelRulesDeleteCommand extends ControlBaseCommand {
     const { args, flags } = await this.parse(ChannelRulesDeleteCommand);
 
     const controlApi = this.createControlApi(flags);
-    let appId: string | undefined;
 
     try {
       let appId = flags.app;
@@ -49,25 +49,9 @@ export default class ChannelRulesDeleteCommand extends ControlBaseCommand {
       }
 
       if (!appId) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error:
-                  'No app specified. Use --app flag or select an app with "ably apps switch"',
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(
-            'No app specified. Use --app flag or select an app with "ably apps switch"',
-          );
-        }
-
-        return;
+        this.error(
+          'No app specified. Use --app flag or select an app with "ably apps switch"',
+        );
       }
 
       // Find the namespace by name or ID
@@ -75,23 +59,9 @@ export default class ChannelRulesDeleteCommand extends ControlBaseCommand {
       const namespace = namespaces.find((n) => n.id === args.nameOrId);
 
       if (!namespace) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                appId,
-                error: `Channel rule "${args.nameOrId}" not found`,
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(`Channel rule "${args.nameOrId}" not found`);
-        }
-
-        return;
+        throw new CliError(`Channel rule "${args.nameOrId}" not found`, {
+          category: "not-found",
+        });
       }
 
       // If not using force flag or JSON mode, prompt for confirmation
@@ -211,23 +181,7 @@ export default class ChannelRulesDeleteCommand extends ControlBaseCommand {
         this.log(`Channel rule with ID "${namespace.id}" deleted successfully`);
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error deleting channel rule: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error deleting channel rule");
     }
   }
 
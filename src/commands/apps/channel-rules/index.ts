@@ -8,6 +8,8 @@ export default class ChannelRulesIndexCommand extends ControlBaseCommand {
     'ably apps channel-rules create --name "chat" --persisted',
     "ably apps channel-rules update chat --push-enabled",
     "ably apps channel-rules delete chat",
+    "ably apps channel-rules apply -f rules.yaml",
+    "ably apps channel-rules copy --from-app production --to-app staging",
   ];
 
   async run(): Promise<void> {
@@ -17,6 +19,9 @@ export default class ChannelRulesIndexCommand extends ControlBaseCommand {
     this.log("  create    Create a channel rule");
     this.log("  update    Update a channel rule");
     this.log("  delete    Delete a channel rule");
+    this.log("  apply     Create and update channel rules from a rules file");
+    this.log("  copy      Copy channel rules from one app to another");
+    this.log("  templates List the built-in channel rule templates");
 
     this.log("\nExamples:");
     for (const example of ChannelRulesIndexCommand.examples) {
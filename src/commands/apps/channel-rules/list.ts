@@ -3,24 +3,8 @@ import chalk from "chalk";
 import type { Namespace } from "../../../services/control-api.js";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
-
-interface ChannelRuleOutput {
-  authenticated: boolean;
-  batchingEnabled: boolean;
-  batchingInterval: null | number;
-  conflationEnabled: boolean;
-  conflationInterval: null | number;
-  conflationKey: null | string;
-  created: string;
-  exposeTimeSerial: boolean;
-  id: string;
-  modified: string;
-  persistLast: boolean;
-  persisted: boolean;
-  populateChannelRegistry: boolean;
-  pushEnabled: boolean;
-  tlsOnly: boolean;
-}
+import { channelRuleRecord } from "../../../services/control-records.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 export default class ChannelRulesListCommand extends ControlBaseCommand {
   static description = "List channel rules for an app";
@@ -30,10 +14,12 @@ export default class ChannelRulesListCommand extends ControlBaseCommand {
     "$ ably apps:channel-rules:list --app-id my-app-id",
     "$ ably apps:channel-rules:list --json",
     "$ ably apps:channel-rules:list --pretty-json",
+    "$ ably apps:channel-rules:list --format table",
   ];
 
   static flags = {
-    ...ControlBaseCommand.flags,
+    ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
   };
 
   async run(): Promise<void> {
@@ -41,63 +27,33 @@ export default class ChannelRulesListCommand extends ControlBaseCommand {
     const appId = await this.resolveAppId(flags);
 
     if (!appId) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error:
-                'No app specified. Use --app-id flag or select an app with "ably apps switch"',
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          'No app specified. Use --app-id flag or select an app with "ably apps switch"',
-        );
-      }
-
-      return;
+      this.error(
+        'No app specified. Use --app-id flag or select an app with "ably apps switch"',
+      );
     }
 
     try {
       const controlApi = await this.createControlApi(flags);
       const namespaces = await controlApi.listNamespaces(appId);
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              rules: namespaces.map(
-                (rule: Namespace): ChannelRuleOutput => ({
-                  authenticated: rule.authenticated || false,
-                  batchingEnabled: rule.batchingEnabled || false,
-                  batchingInterval: rule.batchingInterval || null,
-                  conflationEnabled: rule.conflationEnabled || false,
-                  conflationInterval: rule.conflationInterval || null,
-                  conflationKey: rule.conflationKey || null,
-                  created: new Date(rule.created).toISOString(),
-                  exposeTimeSerial: rule.exposeTimeSerial || false,
-                  id: rule.id,
-                  modified: new Date(rule.modified).toISOString(),
-                  persistLast: rule.persistLast || false,
-                  persisted: rule.persisted || false,
-                  populateChannelRegistry:
-                    rule.populateChannelRegistry || false,
-                  pushEnabled: rule.pushEnabled || false,
-                  tlsOnly: rule.tlsOnly || false,
-                }),
-              ),
-              success: true,
-              timestamp: new Date().toISOString(),
-              total: namespaces.length,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: [
+            "id",
+            "persisted",
+            "pushEnabled",
+            "authenticated",
+            "tlsOnly",
+          ],
+          key: "rules",
+          meta: {
+            appId,
+            success: true,
+            timestamp: new Date().toISOString(),
+            total: namespaces.length,
+          },
+          records: namespaces.map((rule) => channelRuleRecord(rule)),
+        });
       } else {
         if (namespaces.length === 0) {
           this.log("No channel rules found");
@@ -192,23 +148,7 @@ export default class ChannelRulesListCommand extends ControlBaseCommand {
         });
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error listing channel rules: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error listing channel rules");
     }
   }
 }
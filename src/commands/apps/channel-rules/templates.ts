@@ -0,0 +1,51 @@
+import chalk from "chalk";
+
+import { ControlBaseCommand } from "../../../control-base-command.js";
+import { CHANNEL_RULE_TEMPLATES } from "../../../services/channel-rules.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
+
+export default class ChannelRulesTemplatesCommand extends ControlBaseCommand {
+  static description =
+    "List the built-in channel rule templates used by create --template and rules files";
+
+  static examples = [
+    "$ ably apps channel-rules templates",
+    "$ ably apps channel-rules templates --json",
+  ];
+
+  static flags = {
+    ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(ChannelRulesTemplatesCommand);
+    const templates = Object.entries(CHANNEL_RULE_TEMPLATES).map(
+      ([name, template]) => ({ name, ...template }),
+    );
+
+    if (this.shouldOutputRecords(flags)) {
+      this.outputRecords(flags, {
+        columns: ["name", "description"],
+        key: "templates",
+        meta: { success: true, total: templates.length },
+        records: templates,
+      });
+      return;
+    }
+
+    this.log("Built-in channel rule templates:\n");
+    for (const template of templates) {
+      this.log(`${chalk.bold(template.name)} - ${template.description}`);
+      for (const [setting, value] of Object.entries(template.settings)) {
+        this.log(`  ${setting}: ${chalk.green(JSON.stringify(value))}`);
+      }
+
+      this.log("");
+    }
+
+    this.log(
+      'Use a template with "ably apps channel-rules create --template NAME", or "template: NAME" in a rules file for "ably apps channel-rules apply".',
+    );
+  }
+}
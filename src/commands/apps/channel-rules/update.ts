@@ -2,6 +2,7 @@ import { Args, Flags } from "@oclif/core";
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
+import { CliError } from "../../../services/cli-error.js";
 
 export default class ChannelRulesUpdateCommand extends ControlBaseCommand {
   static args = {
@@ -99,34 +100,17 @@ export default class ChannelRulesUpdateCommand extends ControlBaseCommand {
     const { args, flags } = await this.parse(ChannelRulesUpdateCommand);
 
     const controlApi = this.createControlApi(flags);
-    let appId: string | undefined;
 
     try {
-      appId = flags.app;
+      let appId = flags.app;
       if (!appId) {
         appId = await this.resolveAppId(flags);
       }
 
       if (!appId) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error:
-                  'No app specified. Use --app flag or select an app with "ably apps switch"',
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(
-            'No app specified. Use --app flag or select an app with "ably apps switch"',
-          );
-        }
-
-        return;
+        this.error(
+          'No app specified. Use --app flag or select an app with "ably apps switch"',
+        );
       }
 
       // Find the namespace by name or ID
@@ -134,23 +118,9 @@ export default class ChannelRulesUpdateCommand extends ControlBaseCommand {
       const namespace = namespaces.find((n) => n.id === args.nameOrId);
 
       if (!namespace) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                appId,
-                error: `Channel rule "${args.nameOrId}" not found`,
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(`Channel rule "${args.nameOrId}" not found`);
-        }
-
-        return;
+        throw new CliError(`Channel rule "${args.nameOrId}" not found`, {
+          category: "not-found",
+        });
       }
 
       // Prepare update data
@@ -207,27 +177,9 @@ export default class ChannelRulesUpdateCommand extends ControlBaseCommand {
 
       // Check if there's anything to update
       if (Object.keys(updateData).length === 0) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                appId,
-                error:
-                  "No update parameters provided. Use one of the flag options to update the channel rule.",
-                ruleId: namespace.id,
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(
-            "No update parameters provided. Use one of the flag options to update the channel rule.",
-          );
-        }
-
-        return;
+        this.error(
+          "No update parameters provided. Use one of the flag options to update the channel rule.",
+        );
       }
 
       const updatedNamespace = await controlApi.updateNamespace(
@@ -339,23 +291,7 @@ export default class ChannelRulesUpdateCommand extends ControlBaseCommand {
         this.log(`Updated: ${this.formatDate(updatedNamespace.modified)}`);
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error updating channel rule: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error updating channel rule");
     }
   }
 }
@@ -76,22 +76,7 @@ export default class AppsCreateCommand extends ControlBaseCommand {
         this.log(`\nAutomatically switched to app: ${app.name} (${app.id})`);
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error creating app: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error creating app");
     }
   }
 }
@@ -44,22 +44,7 @@ export default class AppsDeleteCommand extends ControlBaseCommand {
       if (!appIdToDelete) {
         const error =
           'No app ID provided and no current app selected. Please provide an app ID or select a default app with "ably apps switch".';
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error,
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(error);
-        }
-
-        return;
+        this.error(error);
       }
     }
 
@@ -160,23 +145,7 @@ export default class AppsDeleteCommand extends ControlBaseCommand {
         await switchCommand.run();
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId: appIdToDelete,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error deleting app: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error deleting app");
     }
   }
 
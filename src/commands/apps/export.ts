@@ -0,0 +1,118 @@
+import { Flags } from "@oclif/core";
+import chalk from "chalk";
+import fs from "node:fs";
+import path from "node:path";
+
+import { ControlBaseCommand } from "../../control-base-command.js";
+import {
+  buildManifest,
+  fetchAppState,
+  serializeManifest,
+} from "../../services/app-manifest.js";
+
+export default class AppsExportCommand extends ControlBaseCommand {
+  static description =
+    "Export an app's channel rules, integrations, queues and keys to a YAML or JSON snapshot";
+
+  static examples = [
+    "$ ably apps export",
+    "$ ably apps export --app my-app-id --output production.yaml",
+    "$ ably apps export --output production.json",
+    "$ ably apps export --json > production.json",
+    "$ ably apps export --output production.yaml --include-secrets",
+  ];
+
+  static flags = {
+    ...ControlBaseCommand.globalFlags,
+    app: Flags.string({
+      description:
+        "App ID or name to export (uses current app if not specified)",
+      required: false,
+    }),
+    "include-secrets": Flags.boolean({
+      default: false,
+      description:
+        "Include full API key values and integration credentials in the snapshot (they are omitted by default)",
+    }),
+    output: Flags.string({
+      char: "o",
+      description:
+        "File to write the snapshot to. Uses JSON for .json files and YAML otherwise. Writes to stdout when omitted",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(AppsExportCommand);
+
+    try {
+      const appId = await this.resolveAppId(flags);
+
+      const controlApi = this.createControlApi(flags);
+      const [app, state] = await Promise.all([
+        controlApi.getApp(appId),
+        fetchAppState(controlApi, appId),
+      ]);
+      const manifest = buildManifest(app, state, {
+        includeSecrets: flags["include-secrets"],
+      });
+
+      if (!flags.output) {
+        // The snapshot itself is the output, so --json simply selects the format
+        this.log(
+          serializeManifest(
+            manifest,
+            this.shouldOutputJson(flags) ? "json" : "yaml",
+          ).trimEnd(),
+        );
+        return;
+      }
+
+      const outputPath = path.resolve(flags.output);
+      const format =
+        path.extname(outputPath).toLowerCase() === ".json" ? "json" : "yaml";
+      fs.writeFileSync(outputPath, serializeManifest(manifest, format), {
+        mode: flags["include-secrets"] ? 0o600 : 0o644,
+      });
+
+      const counts = {
+        keys: manifest.keys.length,
+        namespaces: manifest.namespaces.length,
+        queues: manifest.queues.length,
+        rules: manifest.rules.length,
+      };
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              appId,
+              counts,
+              file: outputPath,
+              format,
+              includesSecrets: flags["include-secrets"],
+              success: true,
+              timestamp: new Date().toISOString(),
+            },
+            flags,
+          ),
+        );
+      } else {
+        this.log(
+          `Exported app ${chalk.cyan(app.name)} (${appId}) to ${outputPath}`,
+        );
+        this.log(
+          `  ${counts.namespaces} channel rule(s), ${counts.rules} integration rule(s), ${counts.queues} queue(s), ${counts.keys} key(s)`,
+        );
+        if (flags["include-secrets"]) {
+          this.log(
+            chalk.yellow(
+              "Warning: the snapshot contains API key secrets and integration credentials. Keep it out of version control.",
+            ),
+          );
+        }
+      }
+    } catch (error) {
+      this.fail(error, "Error exporting app");
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Flags } from "@oclif/core";
+
+import { AppManifestBaseCommand } from "../../app-manifest-base-command.js";
+import { loadManifestFile } from "../../services/app-manifest.js";
+
+export default class AppsImportCommand extends AppManifestBaseCommand {
+  static description =
+    "Recreate the configuration from an exported snapshot in another app";
+
+  static examples = [
+    "$ ably apps import -f production.yaml --app staging-app-id",
+    '$ ably apps import -f production.yaml --create-app "Staging"',
+    "$ ably apps import -f production.json --app staging-app-id --force --json",
+  ];
+
+  static flags = {
+    ...AppManifestBaseCommand.globalFlags,
+    app: Flags.string({
+      description: "App ID or name to import the snapshot into",
+      exactlyOne: ["app", "create-app"],
+    }),
+    "create-app": Flags.string({
+      description:
+        "Create a new app with this name and import the snapshot into it",
+      exactlyOne: ["app", "create-app"],
+    }),
+    file: Flags.string({
+      char: "f",
+      description: 'Path to a snapshot written by "ably apps export"',
+      required: true,
+    }),
+    force: Flags.boolean({
+      default: false,
+      description: "Skip confirmation prompt",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(AppsImportCommand);
+
+    // Importing never prunes: the target app keeps anything it already has
+    await this.applyManifest({ ...flags, prune: false }, async () => {
+      const manifest = loadManifestFile(flags.file);
+
+      if (
+        manifest.keys.some((key) => key.key) &&
+        !this.shouldOutputJson(flags)
+      ) {
+        this.log(
+          "Note: key secrets in the snapshot cannot be imported. New keys will be issued with new secrets.\n",
+        );
+      }
+
+      // The app is only created once the plan is confirmed
+      if (flags["create-app"]) {
+        return { createApp: flags["create-app"], manifest };
+      }
+
+      const appId = await this.resolveAppIdFromNameOrId(flags.app!);
+      if (manifest.source?.appId === appId && !this.shouldOutputJson(flags)) {
+        this.log(
+          "Note: this snapshot was exported from the same app it is being imported into.\n",
+        );
+      }
+
+      return { appId, manifest };
+    });
+  }
+}
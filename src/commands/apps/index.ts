@@ -12,6 +12,10 @@ export default class AppsCommand extends ControlBaseCommand {
     "$ ably apps stats",
     "$ ably apps channel-rules list",
     "$ ably apps switch my-app",
+    "$ ably apps plan -f ably.yaml",
+    "$ ably apps apply -f ably.yaml",
+    "$ ably apps export --output ably.yaml",
+    "$ ably apps import -f ably.yaml --app staging-app-id",
   ];
 
   async run(): Promise<void> {
@@ -32,6 +36,16 @@ export default class AppsCommand extends ControlBaseCommand {
     );
     this.log("  ably apps logs              - Stream or retrieve app logs");
     this.log("  ably apps switch            - Switch to a different app");
+    this.log(
+      "  ably apps plan              - Show changes needed to match a manifest file",
+    );
+    this.log("  ably apps apply             - Apply a manifest file to an app");
+    this.log(
+      "  ably apps export            - Export an app's configuration to a file",
+    );
+    this.log(
+      "  ably apps import            - Import an exported snapshot into another app",
+    );
     this.log("");
     this.log(
       "Run `ably apps COMMAND --help` for more information on a command.",
@@ -1,6 +1,7 @@
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 
 export default class AppsList extends ControlBaseCommand {
   static override description = "List all apps in the current account";
@@ -9,10 +10,12 @@ export default class AppsList extends ControlBaseCommand {
     "<%= config.bin %> <%= command.id %>",
     "<%= config.bin %> <%= command.id %> --json",
     "<%= config.bin %> <%= command.id %> --pretty-json",
+    "<%= config.bin %> <%= command.id %> --format csv --fields id,name,status",
   ];
 
   static override flags = {
     ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
   };
 
   async run(): Promise<void> {
@@ -26,14 +29,16 @@ export default class AppsList extends ControlBaseCommand {
         // Get current app ID from config
         const currentAppId = this.configManager.getCurrentAppId();
 
-        if (this.shouldOutputJson(flags)) {
-          // Mark current app in JSON output
-          const appsWithCurrentFlag = apps.map((app) => ({
-            ...app,
-            isCurrent: app.id === currentAppId,
-          }));
-
-          this.log(this.formatJsonOutput({ apps: appsWithCurrentFlag }, flags));
+        if (this.shouldOutputRecords(flags)) {
+          // Mark the current app in structured output
+          this.outputRecords(flags, {
+            columns: ["id", "name", "status", "tlsOnly", "isCurrent"],
+            key: "apps",
+            records: apps.map((app) => ({
+              ...app,
+              isCurrent: app.id === currentAppId,
+            })),
+          });
           return;
         }
 
@@ -3,6 +3,13 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  MESSAGE_COLUMNS,
+  collectPages,
+  historyExportFlags,
+  isExportRequested,
+  messageToRecord,
+} from "../../../services/history-export.js";
 
 export default class AppsLogsHistory extends AblyBaseCommand {
   static override description = "Alias for `ably logs app history`";
@@ -13,10 +20,12 @@ export default class AppsLogsHistory extends AblyBaseCommand {
     "$ ably apps logs history --direction forwards",
     "$ ably apps logs history --json",
     "$ ably apps logs history --pretty-json",
+    "$ ably apps logs history --all --output app-logs.ndjson",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...historyExportFlags,
     direction: _Flags.string({
       default: "backwards",
       description: "Direction of message retrieval",
@@ -28,7 +37,8 @@ export default class AppsLogsHistory extends AblyBaseCommand {
     }),
     limit: _Flags.integer({
       default: 100,
-      description: "Maximum number of messages to retrieve",
+      description:
+        "Maximum number of messages to retrieve (the page size when using --all)",
     }),
   };
 
@@ -68,7 +78,20 @@ export default class AppsLogsHistory extends AblyBaseCommand {
 
       // Get history
       const history = await channel.history(historyParams);
-      const messages = history.items;
+
+      if (isExportRequested(flags)) {
+        await this.exportHistory(flags, history, {
+          columns: MESSAGE_COLUMNS,
+          label: "messages",
+          toRecord: messageToRecord,
+        });
+        return;
+      }
+
+      const { items: messages, truncated } = await collectPages(
+        history,
+        this.getPaginationOptions(flags, "messages"),
+      );
 
       // Display results based on format
       if (this.shouldOutputJson(flags)) {
@@ -105,10 +128,12 @@ export default class AppsLogsHistory extends AblyBaseCommand {
           this.log(""); // Add a blank line between messages
         }
 
-        if (messages.length === flags.limit) {
+        if (truncated) {
           this.log(
             chalk.yellow(
-              `Showing maximum of ${flags.limit} messages. Use --limit to show more.`,
+              flags.all
+                ? `Stopped after ${messages.length} messages. Increase --max to show more.`
+                : `Showing maximum of ${flags.limit} messages. Use --limit or --all to show more.`,
             ),
           );
         }
@@ -1,6 +1,7 @@
 import { Flags } from "@oclif/core";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class AppsLogsSubscribe extends AblyBaseCommand {
   static override description = "Alias for ably logs app subscribe";
@@ -8,10 +9,12 @@ export default class AppsLogsSubscribe extends AblyBaseCommand {
   static override examples = [
     "$ ably apps logs subscribe",
     "$ ably apps logs subscribe --rewind 10",
+    "$ ably apps logs subscribe --duration 30",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
     json: Flags.boolean({
       default: false,
       description: "Output results as JSON",
@@ -31,6 +34,11 @@ export default class AppsLogsSubscribe extends AblyBaseCommand {
       flags.rewind.toString(),
       ...(flags.json ? ["--json"] : []),
       ...(flags.json ? ["--pretty-json"] : []),
+      ...(flags.duration ? ["--duration", flags.duration.toString()] : []),
+      ...(flags["max-messages"]
+        ? ["--max-messages", flags["max-messages"].toString()]
+        : []),
+      ...(flags.until ? ["--until", flags.until] : []),
       // Forward all global flags
       ...(flags.host ? ["--host", flags.host] : []),
       ...(flags.env ? ["--env", flags.env] : []),
@@ -0,0 +1,101 @@
+import { Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { ControlBaseCommand } from "../../control-base-command.js";
+import { DRIFT_EXIT_CODE } from "../../services/cli-error.js";
+import {
+  computePlan,
+  fetchAppState,
+  formatPlan,
+  loadManifestFile,
+  summarizePlan,
+} from "../../services/app-manifest.js";
+
+export default class AppsPlanCommand extends ControlBaseCommand {
+  static description =
+    "Show the changes needed to make an app match a manifest file";
+
+  static examples = [
+    "$ ably apps plan -f ably.yaml",
+    "$ ably apps plan -f ably.yaml --app my-app-id --prune",
+    "$ ably apps plan -f ably.json --detailed-exitcode",
+    "$ ably apps plan -f ably.yaml --json",
+  ];
+
+  static flags = {
+    ...ControlBaseCommand.globalFlags,
+    app: Flags.string({
+      description:
+        "App ID or name to plan against (overrides the app in the manifest)",
+      required: false,
+    }),
+    "detailed-exitcode": Flags.boolean({
+      default: false,
+      description:
+        "Exit with code 10 when the app has drifted from the manifest (0 when in sync, or the error's exit code on failure)",
+    }),
+    file: Flags.string({
+      char: "f",
+      description: "Path to the YAML or JSON manifest file",
+      required: true,
+    }),
+    prune: Flags.boolean({
+      default: false,
+      description:
+        "Include deletion of resources that exist in the app but not in the manifest",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(AppsPlanCommand);
+
+    let hasChanges = false;
+
+    try {
+      const manifest = loadManifestFile(flags.file);
+      const appRef = flags.app || manifest.app;
+      const appId = appRef
+        ? await this.resolveAppIdFromNameOrId(appRef)
+        : await this.resolveAppId(flags);
+
+      const controlApi = this.createControlApi(flags);
+      const state = await fetchAppState(controlApi, appId);
+      const plan = computePlan(appId, manifest, state, { prune: flags.prune });
+      hasChanges = plan.changes.length > 0;
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              appId,
+              changes: plan.changes,
+              hasChanges,
+              success: true,
+              summary: summarizePlan(plan),
+              timestamp: new Date().toISOString(),
+              unmanaged: plan.unmanaged,
+            },
+            flags,
+          ),
+        );
+      } else if (hasChanges || plan.unmanaged.length > 0) {
+        this.log(`Changes required for app ${chalk.cyan(appId)}:\n`);
+        for (const line of formatPlan(plan)) {
+          this.log(line);
+        }
+      } else {
+        this.log(
+          chalk.green(
+            `App ${appId} matches the manifest. No changes required.`,
+          ),
+        );
+      }
+    } catch (error) {
+      this.fail(error, "Error planning app changes");
+    }
+
+    if (flags["detailed-exitcode"] && hasChanges) {
+      this.exit(DRIFT_EXIT_CODE);
+    }
+  }
+}
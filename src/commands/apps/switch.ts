@@ -24,6 +24,7 @@ export default class AppsSwitch extends ControlBaseCommand {
 
   public async run(): Promise<void> {
     const { args } = await this.parse(AppsSwitch);
+    this.warnIfPinned("app");
 
     const controlApi = this.createControlApi({});
 
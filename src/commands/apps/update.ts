@@ -34,26 +34,9 @@ export default class AppsUpdateCommand extends ControlBaseCommand {
 
     // Ensure at least one update parameter is provided
     if (flags.name === undefined && flags["tls-only"] === undefined) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId: args.id,
-              error:
-                "At least one update parameter (--name or --tls-only) must be provided",
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          "At least one update parameter (--name or --tls-only) must be provided",
-        );
-      }
-
-      return;
+      this.error(
+        "At least one update parameter (--name or --tls-only) must be provided",
+      );
     }
 
     const controlApi = this.createControlApi(flags);
@@ -113,23 +96,7 @@ export default class AppsUpdateCommand extends ControlBaseCommand {
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId: args.id,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error updating app: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error updating app");
     }
   }
 }
@@ -0,0 +1,42 @@
+import chalk from "chalk";
+
+import { AblyBaseCommand } from "../../../base-command.js";
+import { explainCapability } from "../../../services/capability.js";
+
+export default class CapabilityBuildCommand extends AblyBaseCommand {
+  static description =
+    "Interactively build a capability to use with keys and tokens";
+
+  static examples = [
+    "$ ably auth capability build",
+    "$ ably auth capability build --json",
+  ];
+
+  static flags = {
+    ...AblyBaseCommand.globalFlags,
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(CapabilityBuildCommand);
+
+    const capability = await this.interactiveHelper.buildCapability();
+    const json = JSON.stringify(capability);
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(this.formatJsonOutput({ capability, success: true }, flags));
+      return;
+    }
+
+    this.log("\nThis capability allows clients to:");
+    for (const line of explainCapability(capability)) {
+      this.log(`  • ${line}`);
+    }
+
+    this.log(`\nCapability: ${chalk.cyan(json)}`);
+    this.log("\nUse it with:");
+    this.log(
+      `  ably auth keys create --name "My key" --capabilities '${json}'`,
+    );
+    this.log(`  ably auth issue-ably-token --capability '${json}'`);
+  }
+}
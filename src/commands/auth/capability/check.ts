@@ -0,0 +1,96 @@
+import { Args } from "@oclif/core";
+import chalk from "chalk";
+
+import { ControlBaseCommand } from "../../../control-base-command.js";
+import {
+  CAPABILITY_OPERATIONS,
+  checkCapability,
+  resolveCapability,
+} from "../../../services/capability.js";
+
+export default class CapabilityCheckCommand extends ControlBaseCommand {
+  static args = {
+    credential: Args.string({
+      description:
+        "API key (APP_ID.KEY_ID or full key), JWT, or capability JSON to check",
+      required: true,
+    }),
+    channel: Args.string({
+      description: "Channel name, e.g. chat:lobby or [meta]log",
+      required: true,
+    }),
+    operation: Args.string({
+      description: "Operation to check",
+      options: Object.keys(CAPABILITY_OPERATIONS).filter(
+        (operation) => operation !== "*",
+      ),
+      required: true,
+    }),
+  };
+
+  static description =
+    "Check whether a key, JWT or capability allows an operation on a channel";
+
+  static examples = [
+    "$ ably auth capability check APP_ID.KEY_ID chat:lobby publish",
+    "$ ably auth capability check eyJhbGciOi... chat:lobby presence",
+    '$ ably auth capability check \'{"chat:*":["subscribe"]}\' chat:lobby publish',
+    "$ ably auth capability check APP_ID.KEY_ID [meta]log subscribe --json",
+  ];
+
+  static flags = {
+    ...ControlBaseCommand.globalFlags,
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(CapabilityCheckCommand);
+
+    let allowed = false;
+    try {
+      // Only keys need the Control API; capabilities and JWTs are read locally
+      const { capability, source } = await resolveCapability(
+        args.credential,
+        (appId, keyIdOrValue) =>
+          this.createControlApi(flags).getKey(appId, keyIdOrValue),
+        (warning) => this.warn(warning),
+      );
+      const result = checkCapability(capability, args.channel, args.operation);
+      allowed = result.allowed;
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              ...result,
+              channel: args.channel,
+              operation: args.operation,
+              source,
+              success: true,
+            },
+            flags,
+          ),
+        );
+      } else if (result.allowed) {
+        this.log(
+          `${chalk.green("✓ Allowed:")} ${args.operation} on ${chalk.cyan(args.channel)}, granted by ${result.grantedBy.map((resource) => chalk.bold(resource)).join(", ")}`,
+        );
+      } else {
+        this.log(
+          `${chalk.red("✗ Denied:")} ${args.operation} on ${chalk.cyan(args.channel)}`,
+        );
+        this.log(
+          result.matchedBy.length > 0
+            ? `  ${result.matchedBy.map((resource) => chalk.bold(resource)).join(", ")} ${result.matchedBy.length === 1 ? "matches" : "match"} the channel but ${result.matchedBy.length === 1 ? "does" : "do"} not grant ${args.operation}`
+            : "  No resource in the capability matches the channel",
+        );
+      }
+    } catch (error) {
+      this.fail(error, "Error checking capability");
+    }
+
+    // Exit with a failure status when denied so scripts can test the result
+    if (!allowed) {
+      this.exit(1);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { Args } from "@oclif/core";
+import chalk from "chalk";
+
+import { ControlBaseCommand } from "../../../control-base-command.js";
+import {
+  explainCapability,
+  resolveCapability,
+} from "../../../services/capability.js";
+
+export default class CapabilityExplainCommand extends ControlBaseCommand {
+  static args = {
+    credential: Args.string({
+      description:
+        "API key (APP_ID.KEY_ID or full key), JWT, or capability JSON to explain",
+      required: true,
+    }),
+  };
+
+  static description =
+    "Validate a capability and explain the permissions it grants in plain terms";
+
+  static examples = [
+    '$ ably auth capability explain \'{"chat:*":["publish","subscribe"],"[meta]*":["subscribe"]}\'',
+    "$ ably auth capability explain APP_ID.KEY_ID",
+    "$ ably auth capability explain eyJhbGciOi... --json",
+  ];
+
+  static flags = {
+    ...ControlBaseCommand.globalFlags,
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(CapabilityExplainCommand);
+
+    try {
+      const { capability, source } = await resolveCapability(
+        args.credential,
+        (appId, keyIdOrValue) =>
+          this.createControlApi(flags).getKey(appId, keyIdOrValue),
+        (warning) => this.warn(warning),
+      );
+      const explanation = explainCapability(capability);
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            { capability, explanation, source, success: true },
+            flags,
+          ),
+        );
+        return;
+      }
+
+      this.log(`Capability: ${chalk.dim(JSON.stringify(capability))}\n`);
+      this.log("This allows clients to:");
+      for (const line of explanation) {
+        this.log(`  • ${line}`);
+      }
+    } catch (error) {
+      this.fail(error, "Error explaining capability");
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Command } from "@oclif/core";
+
+export default class CapabilityIndex extends Command {
+  static override description =
+    "Build, validate and check capabilities for keys and tokens";
+
+  static override examples = [
+    "$ ably auth capability build",
+    "$ ably auth capability check APP_ID.KEY_ID chat:lobby publish",
+    '$ ably auth capability explain \'{"chat:*":["publish","subscribe"]}\'',
+  ];
+
+  async run(): Promise<void> {
+    this.log("Ably capability commands:");
+    this.log("");
+    this.log(
+      "  ably auth capability build    - Interactively build a capability",
+    );
+    this.log(
+      "  ably auth capability check    - Check whether a key, JWT or capability allows an operation on a channel",
+    );
+    this.log(
+      "  ably auth capability explain  - Explain the permissions a capability grants",
+    );
+    this.log("");
+    this.log(
+      "Run `ably auth capability COMMAND --help` for more information on a command.",
+    );
+  }
+}
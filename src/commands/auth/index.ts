@@ -13,6 +13,8 @@ export default class Auth extends AblyBaseCommand {
     "$ ably auth issue-jwt-token",
     "$ ably auth issue-ably-token",
     "$ ably auth revoke-token TOKEN",
+    "$ ably auth inspect TOKEN",
+    "$ ably auth capability check APP_ID.KEY_ID chat:lobby publish",
   ];
 
   async run(): Promise<void> {
@@ -22,6 +24,9 @@ export default class Auth extends AblyBaseCommand {
     this.log("  ably auth keys list          - List all keys in the app");
     this.log("  ably auth keys get           - View details for a key");
     this.log("  ably auth keys revoke        - Revoke a key");
+    this.log(
+      "  ably auth keys rotate        - Replace a key with a new one and update local config",
+    );
     this.log("  ably auth keys update        - Update a key's properties");
     this.log(
       "  ably auth keys switch        - Switch to a key for all client requests",
@@ -33,6 +38,12 @@ export default class Auth extends AblyBaseCommand {
       "  ably auth issue-ably-token   - Create an Ably Token with capabilities",
     );
     this.log("  ably auth revoke-token       - Revoke a token");
+    this.log(
+      "  ably auth inspect            - Decode a JWT or check an Ably Token",
+    );
+    this.log(
+      "  ably auth capability         - Build, explain and check capabilities",
+    );
     this.log("");
     this.log(
       "Run `ably auth COMMAND --help` for more information on a command.",
@@ -0,0 +1,294 @@
+import { Args } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+import jwt from "jsonwebtoken";
+
+import { AblyBaseCommand } from "../../base-command.js";
+import { explainCapability } from "../../services/capability.js";
+import {
+  JwtInspection,
+  TokenIssue,
+  describeTokenError,
+  inspectJwt,
+  isJwt,
+  isTokenError,
+} from "../../services/token-inspector.js";
+import { BaseFlags } from "../../types/cli.js";
+
+/** How long to wait for Ably to accept or reject an Ably Token */
+const CONNECT_TIMEOUT_MS = 15_000;
+
+/** Exit code when Ably could not be reached, so the token is neither good nor bad */
+const UNCHECKED_EXIT_CODE = 2;
+
+interface AblyTokenInspection {
+  /** Left out when Ably could not be reached to check the token */
+  accepted?: boolean;
+  clientId?: string;
+  error?: { code?: number; message: string };
+  issues: TokenIssue[];
+  type: "ably";
+}
+
+export default class AuthInspectCommand extends AblyBaseCommand {
+  static args = {
+    token: Args.string({
+      description: "Ably Token or JWT to inspect",
+      required: true,
+    }),
+  };
+
+  static description =
+    "Decode a JWT or check an Ably Token, and flag common mistakes such as expiry or a mismatched key or client ID";
+
+  static examples = [
+    "$ ably auth inspect eyJhbGciOiJIUzI1NiIs...",
+    "$ ably auth inspect eyJhbGciOiJIUzI1NiIs... --api-key APP_ID.KEY_ID:SECRET",
+    "$ ably auth inspect eyJhbGciOiJIUzI1NiIs... --client-id user-1 --json",
+    "$ ably auth inspect APP_ID.TOKEN_STRING",
+  ];
+
+  static flags = {
+    ...AblyBaseCommand.globalFlags,
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(AuthInspectCommand);
+    const token = args.token.trim();
+
+    let inspection: AblyTokenInspection | JwtInspection;
+    try {
+      inspection = isJwt(token)
+        ? inspectJwt(token, {
+            apiKey: this.verificationKey(token, flags["api-key"]),
+            clientId: flags["client-id"],
+          })
+        : await this.inspectAblyToken(token, flags);
+    } catch (error) {
+      this.fail(error, "Error inspecting token");
+    }
+
+    const valid = inspection.issues.every((issue) => issue.level !== "error");
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(
+        this.formatJsonOutput({ ...inspection, success: true, valid }, flags),
+      );
+    } else if (inspection.type === "jwt") {
+      this.logJwt(inspection);
+    } else {
+      this.logAblyToken(inspection);
+    }
+
+    // Exit with a failure status when problems were found so scripts can test the result
+    if (!valid) {
+      this.exit(1);
+    }
+
+    if (inspection.type === "ably" && inspection.accepted === undefined) {
+      this.exit(UNCHECKED_EXIT_CODE);
+    }
+  }
+
+  private formatTime(iso: string | undefined): string {
+    if (!iso) return chalk.dim("(not set)");
+
+    const seconds = Math.round((Date.parse(iso) - Date.now()) / 1000);
+    const minutes = Math.round(Math.abs(seconds) / 60);
+    const relative =
+      Math.abs(seconds) < 60
+        ? `${Math.abs(seconds)}s`
+        : minutes < 120
+          ? `${minutes}m`
+          : `${Math.round(minutes / 60)}h`;
+    return `${iso} (${seconds < 0 ? `${relative} ago` : `in ${relative}`})`;
+  }
+
+  /**
+   * Ably Tokens are opaque, so connect with the token to find out whether
+   * Ably accepts it and which client ID it carries
+   */
+  private async inspectAblyToken(
+    token: string,
+    flags: BaseFlags,
+  ): Promise<AblyTokenInspection> {
+    const options: Ably.ClientOptions = {
+      ...this.getClientOptions({ ...flags, "client-id": undefined, token }),
+      autoConnect: false,
+      // A token literal cannot be renewed, which the SDK would warn about
+      logLevel: 0,
+    };
+    // Ably rejects the connection when the client ID conflicts with the token
+    if (flags["client-id"]) {
+      options.clientId = flags["client-id"];
+    }
+
+    const client = new Ably.Realtime(options);
+    try {
+      const reason = await new Promise<{
+        code?: number;
+        message: string;
+        timedOut?: boolean;
+      } | null>((resolve) => {
+        const timeout = setTimeout(
+          () => resolve({ message: "Timed out connecting to Ably" }),
+          CONNECT_TIMEOUT_MS,
+        );
+        client.connection.once("connected", () => {
+          clearTimeout(timeout);
+          resolve(null);
+        });
+        client.connection.on(
+          ["failed", "disconnected", "suspended"],
+          (change) => {
+            clearTimeout(timeout);
+            resolve({
+              code: change.reason?.code,
+              message: change.reason?.message ?? "Connection failed",
+            });
+          },
+        );
+        client.connect();
+      });
+
+      if (!reason) {
+        return {
+          accepted: true,
+          clientId: client.auth.clientId ?? undefined,
+          issues: [],
+          type: "ably",
+        };
+      }
+
+      const error = { code: reason.code, message: reason.message };
+      if (!isTokenError(reason.code)) {
+        return {
+          error,
+          issues: [
+            {
+              level: "warning",
+              message: `Could not reach Ably to check the token: ${reason.message}`,
+            },
+          ],
+          type: "ably",
+        };
+      }
+
+      return {
+        accepted: false,
+        error,
+        issues: [
+          {
+            level: "error",
+            message: `${describeTokenError(reason.code)}: ${reason.message}`,
+          },
+        ],
+        type: "ably",
+      };
+    } finally {
+      client.close();
+    }
+  }
+
+  private logAblyToken(inspection: AblyTokenInspection): void {
+    this.log(`${chalk.bold("Type:")} Ably Token`);
+    const accepted =
+      inspection.accepted === undefined
+        ? chalk.yellow("unknown")
+        : inspection.accepted
+          ? chalk.green("yes")
+          : chalk.red("no");
+    this.log(`${chalk.bold("Accepted by Ably:")} ${accepted}`);
+    if (inspection.accepted) {
+      this.log(
+        `${chalk.bold("Client ID:")} ${inspection.clientId ?? chalk.dim("(none)")}`,
+      );
+      this.log(
+        chalk.dim(
+          "Ably Tokens are opaque, so their capability and expiry cannot be shown.",
+        ),
+      );
+    }
+
+    this.logIssues(inspection.issues);
+  }
+
+  private logIssues(issues: TokenIssue[]): void {
+    this.log("");
+    if (issues.length === 0) {
+      this.log(chalk.green("✓ No problems found"));
+      return;
+    }
+
+    for (const issue of issues) {
+      this.log(
+        issue.level === "error"
+          ? `${chalk.red("✗")} ${issue.message}`
+          : `${chalk.yellow("!")} ${issue.message}`,
+      );
+    }
+  }
+
+  private logJwt(inspection: JwtInspection): void {
+    const { header } = inspection;
+    this.log(
+      `${chalk.bold("Type:")} JWT${inspection.embeddedToken ? " wrapping an Ably Token" : ""}`,
+    );
+    this.log(
+      `${chalk.bold("Header:")} alg ${String(header.alg)}, typ ${String(header.typ ?? "-")}, kid ${String(header.kid ?? "-")}`,
+    );
+    this.log(
+      `${chalk.bold("Key name:")} ${inspection.keyName ?? chalk.dim("(none)")}`,
+    );
+    this.log(
+      `${chalk.bold("Client ID:")} ${inspection.clientId ?? chalk.dim("(none)")}`,
+    );
+    this.log(
+      `${chalk.bold("Issued:")} ${this.formatTime(inspection.issuedAt)}`,
+    );
+    this.log(
+      `${chalk.bold("Expires:")} ${this.formatTime(inspection.expiresAt)}`,
+    );
+
+    const signature = {
+      invalid: chalk.red("invalid"),
+      unverified: `${chalk.yellow("not verified")} ${chalk.dim("(pass --api-key with the signing key to verify it)")}`,
+      valid: chalk.green("valid"),
+    }[inspection.signature];
+    this.log(`${chalk.bold("Signature:")} ${signature}`);
+
+    if (inspection.capability) {
+      this.log(chalk.bold("Capability:"));
+      for (const line of explainCapability(inspection.capability)) {
+        this.log(`  • ${line}`);
+      }
+    }
+
+    this.log(chalk.bold("Claims:"));
+    for (const [claim, value] of Object.entries(inspection.claims)) {
+      this.log(`  ${claim}: ${JSON.stringify(value)}`);
+    }
+
+    this.logIssues(inspection.issues);
+  }
+
+  /**
+   * The key to verify a JWT with: --api-key, otherwise ABLY_API_KEY or the
+   * key configured for the app, whichever is the key named in the token's
+   * "kid" header
+   */
+  private verificationKey(
+    token: string,
+    apiKeyFlag: string | undefined,
+  ): string | undefined {
+    if (apiKeyFlag) return apiKeyFlag;
+
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    if (!kid) return undefined;
+
+    return [
+      process.env.ABLY_API_KEY,
+      this.configManager.getApiKey(kid.split(".")[0]),
+    ].find((key) => key?.startsWith(`${kid}:`));
+  }
+}
@@ -3,6 +3,7 @@ import * as Ably from "ably";
 import { randomUUID } from "node:crypto";
 
 import { AblyBaseCommand } from "../../base-command.js";
+import { parseCapability } from "../../services/capability.js";
 
 export default class IssueAblyTokenCommand extends AblyBaseCommand {
   static description = "Creates an Ably Token with capabilities";
@@ -28,7 +29,7 @@ export default class IssueAblyTokenCommand extends AblyBaseCommand {
     capability: Flags.string({
       default: '{"*":["*"]}',
       description:
-        'Capabilities JSON string (e.g. {"channel":["publish","subscribe"]})',
+        'Capabilities JSON string (e.g. {"channel":["publish","subscribe"]}). Build one with "ably auth capability build"',
     }),
     "client-id": Flags.string({
       description:
@@ -66,16 +67,18 @@ export default class IssueAblyTokenCommand extends AblyBaseCommand {
       // Parse capabilities
       let capabilities;
       try {
-        capabilities = JSON.parse(flags.capability);
-      } catch (error) {
-        this.error(
-          `Invalid capability JSON: ${error instanceof Error ? error.message : String(error)}`,
+        capabilities = parseCapability(
+          flags.capability,
+          "capability",
+          (warning) => this.warn(warning),
         );
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
       }
 
       // Create token params
       const tokenParams: Ably.TokenParams = {
-        capability: capabilities,
+        capability: JSON.stringify(capabilities),
         ttl: flags.ttl * 1000, // Convert to milliseconds for Ably SDK
       };
 
@@ -3,6 +3,7 @@ import jwt from "jsonwebtoken";
 import { randomUUID } from "node:crypto";
 
 import { AblyBaseCommand } from "../../base-command.js";
+import { parseCapability } from "../../services/capability.js";
 
 interface JwtPayload {
   exp: number;
@@ -36,7 +37,7 @@ export default class IssueJwtTokenCommand extends AblyBaseCommand {
     capability: Flags.string({
       default: '{"*":["*"]}',
       description:
-        'Capabilities JSON string (e.g. {"channel":["publish","subscribe"]})',
+        'Capabilities JSON string (e.g. {"channel":["publish","subscribe"]}). Build one with "ably auth capability build"',
     }),
     "client-id": Flags.string({
       description:
@@ -76,11 +77,13 @@ export default class IssueJwtTokenCommand extends AblyBaseCommand {
       // Parse capabilities
       let capabilities;
       try {
-        capabilities = JSON.parse(flags.capability);
-      } catch (error) {
-        this.error(
-          `Invalid capability JSON: ${error instanceof Error ? error.message : String(error)}`,
+        capabilities = parseCapability(
+          flags.capability,
+          "capability",
+          (warning) => this.warn(warning),
         );
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
       }
 
       // Create JWT payload
@@ -1,6 +1,7 @@
 import { Flags } from "@oclif/core";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
+import { parseCapability } from "../../../services/capability.js";
 
 export default class KeysCreateCommand extends ControlBaseCommand {
   static description = "Create a new API key for an app";
@@ -26,7 +27,7 @@ export default class KeysCreateCommand extends ControlBaseCommand {
     }),
     capabilities: Flags.string({
       default: '{"*":["*"]}',
-      description: `Capability object as a JSON string. Example: '{"channel:*":["publish"]}'`,
+      description: `Capability object as a JSON string. Example: '{"channel:*":["publish"]}'. Build one with "ably auth capability build"`,
     }),
     name: Flags.string({
       description: "Name of the key",
@@ -42,48 +43,20 @@ export default class KeysCreateCommand extends ControlBaseCommand {
     const appId = flags.app || this.configManager.getCurrentAppId();
 
     if (!appId) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error:
-                'No app specified. Please provide --app flag or switch to an app with "ably apps switch".',
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          'No app specified. Please provide --app flag or switch to an app with "ably apps switch".',
-        );
-      }
-
-      return;
+      this.error(
+        'No app specified. Please provide --app flag or switch to an app with "ably apps switch".',
+      );
     }
 
     let capabilities;
     try {
-      capabilities = JSON.parse(flags.capabilities);
-    } catch {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error:
-                "Invalid capabilities JSON format. Please provide a valid JSON string.",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          "Invalid capabilities JSON format. Please provide a valid JSON string.",
-        );
-      }
-
-      return;
+      capabilities = parseCapability(
+        flags.capabilities,
+        "capabilities",
+        (warning) => this.warn(warning),
+      );
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
     }
 
     try {
@@ -148,22 +121,7 @@ export default class KeysCreateCommand extends ControlBaseCommand {
         );
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error creating key: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error creating key");
     }
   }
 }
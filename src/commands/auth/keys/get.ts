@@ -1,6 +1,7 @@
 import { Args, Flags } from "@oclif/core";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 export default class KeysGetCommand extends ControlBaseCommand {
   static args = {
@@ -18,10 +19,12 @@ export default class KeysGetCommand extends ControlBaseCommand {
     "$ ably auth keys get KEY_ID --app APP_ID",
     "$ ably auth keys get APP_ID.KEY_ID --json",
     "$ ably auth keys get APP_ID.KEY_ID --pretty-json",
+    "$ ably auth keys get APP_ID.KEY_ID --query .key.capability",
   ];
 
   static flags = {
     ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
     app: Flags.string({
       description:
         "App ID the key belongs to (uses current app if not specified)",
@@ -51,43 +54,32 @@ export default class KeysGetCommand extends ControlBaseCommand {
     }
 
     if (!appId) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error:
-                'No app specified. Please provide --app flag, include APP_ID in the key name, or switch to an app with "ably apps switch".',
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          'No app specified. Please provide --app flag, include APP_ID in the key name, or switch to an app with "ably apps switch".',
-        );
-      }
-
-      return;
+      this.error(
+        'No app specified. Please provide --app flag, include APP_ID in the key name, or switch to an app with "ably apps switch".',
+      );
     }
 
     try {
       const key = await controlApi.getKey(appId, keyId);
 
-      if (this.shouldOutputJson(flags)) {
-        // Add the full key name to the JSON output
-        this.log(
-          this.formatJsonOutput(
-            {
-              key: {
-                ...key,
-                keyName: `${key.appId}.${key.id}`,
-              },
-              success: true,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        // Add the full key name to the output
+        this.outputRecords(flags, {
+          columns: [
+            "keyName",
+            "name",
+            "capability",
+            "created",
+            "modified",
+            "key",
+          ],
+          key: "key",
+          meta: { success: true },
+          records: {
+            ...key,
+            keyName: `${key.appId}.${key.id}`,
+          },
+        });
       } else {
         this.log(`Key Details:\n`);
 
@@ -122,23 +114,7 @@ export default class KeysGetCommand extends ControlBaseCommand {
         this.log(`Full key: ${key.key}`);
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              keyId,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error getting key details: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error getting key details");
     }
   }
 }
@@ -8,6 +8,7 @@ export default class AuthKeys extends AblyBaseCommand {
     '$ ably auth keys create --name "My New Key"',
     "$ ably auth keys get KEY_ID",
     "$ ably auth keys revoke KEY_ID",
+    "$ ably auth keys rotate KEY_ID",
     "$ ably auth keys update KEY_ID",
     "$ ably auth keys switch KEY_ID",
   ];
@@ -25,6 +26,7 @@ export default class AuthKeys extends AblyBaseCommand {
     this.log("  create   Create a new API key");
     this.log("  get      View details for a key");
     this.log("  revoke   Revoke a key");
+    this.log("  rotate   Replace a key with a new one and update local config");
     this.log("  update   Update a key's properties");
     this.log("  switch   Switch to a key for all client requests");
     this.log("");
@@ -2,6 +2,7 @@ import { Flags } from "@oclif/core";
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 export default class KeysListCommand extends ControlBaseCommand {
   static description = "List all keys in the app";
@@ -11,10 +12,12 @@ export default class KeysListCommand extends ControlBaseCommand {
     "$ ably auth keys list --app APP_ID",
     "$ ably auth keys list --json",
     "$ ably auth keys list --pretty-json",
+    "$ ably auth keys list --format csv --fields keyName,name",
   ];
 
   static flags = {
     ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
     app: Flags.string({
       description:
         "App ID to list keys for (uses current app if not specified)",
@@ -34,24 +37,9 @@ export default class KeysListCommand extends ControlBaseCommand {
     const appId = flags.app || this.configManager.getCurrentAppId();
 
     if (!appId) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error:
-                'No app specified. Please provide --app flag or switch to an app with "ably apps switch".',
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          'No app specified. Please provide --app flag or switch to an app with "ably apps switch".',
-        );
-      }
-
-      return;
+      this.error(
+        'No app specified. Please provide --app flag or switch to an app with "ably apps switch".',
+      );
     }
 
     try {
@@ -66,26 +54,21 @@ export default class KeysListCommand extends ControlBaseCommand {
             ? `${appId}.${currentKeyId}`
             : undefined;
 
-      if (this.shouldOutputJson(flags)) {
+      if (this.shouldOutputRecords(flags)) {
         // Add a "current" flag to the key if it's the currently selected one
-        const keysWithCurrent = keys.map((key) => {
-          const keyName = `${key.appId}.${key.id}`;
-          return {
-            ...key,
-            current: keyName === currentKeyName,
-            keyName, // Add the full key name
-          };
+        this.outputRecords(flags, {
+          columns: ["keyName", "name", "capability", "current"],
+          key: "keys",
+          meta: { appId, success: true },
+          records: keys.map((key) => {
+            const keyName = `${key.appId}.${key.id}`;
+            return {
+              ...key,
+              current: keyName === currentKeyName,
+              keyName, // Add the full key name
+            };
+          }),
         });
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              keys: keysWithCurrent,
-              success: true,
-            },
-            flags,
-          ),
-        );
       } else {
         if (keys.length === 0) {
           this.log("No keys found for this app");
@@ -133,22 +116,7 @@ export default class KeysListCommand extends ControlBaseCommand {
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error listing keys: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error listing keys");
     }
   }
 }
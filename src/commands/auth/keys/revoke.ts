@@ -52,24 +52,9 @@ export default class KeysRevokeCommand extends ControlBaseCommand {
     }
 
     if (!appId) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error:
-                'No app specified. Please provide --app flag, include APP_ID in the key name, or switch to an app with "ably apps switch".',
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          'No app specified. Please provide --app flag, include APP_ID in the key name, or switch to an app with "ably apps switch".',
-        );
-      }
-
-      return;
+      this.error(
+        'No app specified. Please provide --app flag, include APP_ID in the key name, or switch to an app with "ably apps switch".',
+      );
     }
 
     try {
@@ -169,23 +154,7 @@ export default class KeysRevokeCommand extends ControlBaseCommand {
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              keyId,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error revoking key: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error revoking key");
     }
   }
 }
@@ -0,0 +1,299 @@
+import { Args, Flags } from "@oclif/core";
+import chalk from "chalk";
+import path from "node:path";
+
+import { ControlBaseCommand } from "../../../control-base-command.js";
+import { ControlApi, Key } from "../../../services/control-api.js";
+import {
+  DEFAULT_KEY_ENV_VARIABLE,
+  KeyRevocationAudit,
+  KeyRotationAudit,
+  appendAuditRecord,
+  writeEnvVariable,
+} from "../../../services/key-rotation.js";
+import { parseDuration } from "../../../utils/duration.js";
+
+export default class KeysRotateCommand extends ControlBaseCommand {
+  static args = {
+    keyName: Args.string({
+      description: "Key name (APP_ID.KEY_ID) of the key to rotate",
+      required: true,
+    }),
+  };
+
+  static description =
+    "Replace an API key with a new key that has the same name and capabilities, updating local config and optionally revoking the old key";
+
+  static examples = [
+    "$ ably auth keys rotate APP_ID.KEY_ID",
+    "$ ably auth keys rotate KEY_ID --app APP_ID --env-file .env",
+    "$ ably auth keys rotate APP_ID.KEY_ID --env-file .env.production --env-var ABLY_KEY",
+    "$ ably auth keys rotate APP_ID.KEY_ID --revoke-after 15m",
+    "$ ably auth keys rotate APP_ID.KEY_ID --revoke --audit-log rotations.jsonl --json",
+  ];
+
+  static flags = {
+    ...ControlBaseCommand.globalFlags,
+    app: Flags.string({
+      description:
+        "App ID the key belongs to (uses current app if not specified)",
+      env: "ABLY_APP_ID",
+    }),
+    "audit-log": Flags.string({
+      description:
+        "Append an audit record of the rotation to this JSON Lines file",
+    }),
+    "env-file": Flags.string({
+      description:
+        "Dotenv or secrets file to write the new key to, replacing the old value",
+    }),
+    "env-var": Flags.string({
+      default: DEFAULT_KEY_ENV_VARIABLE,
+      description: "Variable to set in the --env-file",
+    }),
+    force: Flags.boolean({
+      default: false,
+      description:
+        "Skip prompts, keeping the old key unless --revoke or --revoke-after is given",
+    }),
+    name: Flags.string({
+      description: "Name of the new key (defaults to the old key's name)",
+    }),
+    revoke: Flags.boolean({
+      default: false,
+      description: "Revoke the old key as soon as the new key is in place",
+      exclusive: ["revoke-after"],
+    }),
+    "revoke-after": Flags.string({
+      description:
+        'Wait this grace period before revoking the old key, e.g. "90s", "15m" or "1h"',
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(KeysRotateCommand);
+    const json = this.shouldOutputJson(flags);
+
+    const controlApi = this.createControlApi(flags);
+
+    let appId = flags.app || this.configManager.getCurrentAppId();
+    let keyId = args.keyName;
+
+    // If keyName includes a period, it might be in the app_id.key_id format
+    if (args.keyName.includes(".")) {
+      const parts = args.keyName.split(".");
+      // If it has exactly one period and no colon, it's likely an app_id.key_id
+      if (parts.length === 2 && !args.keyName.includes(":")) {
+        appId = parts[0];
+        keyId = parts[1];
+      }
+    }
+
+    if (!appId) {
+      this.error(
+        'No app specified. Please provide --app flag, include APP_ID in the key name, or switch to an app with "ably apps switch".',
+      );
+    }
+
+    let gracePeriod: number | undefined;
+    if (flags["revoke-after"] !== undefined) {
+      gracePeriod = parseDuration(flags["revoke-after"]);
+      if (gracePeriod === undefined) {
+        this.error(
+          `Invalid --revoke-after "${flags["revoke-after"]}". Use a number of seconds or a value such as 90s, 15m or 1h`,
+        );
+      }
+    }
+
+    const auditLog = flags["audit-log"] && path.resolve(flags["audit-log"]);
+
+    let oldKey: Key;
+    let newKeyName: string;
+    try {
+      oldKey = await controlApi.getKey(appId, keyId);
+      const oldKeyName = `${oldKey.appId}.${oldKey.id}`;
+
+      if (!json) {
+        this.log(
+          `Rotating key ${oldKeyName} (${oldKey.name || "Unnamed key"})...`,
+        );
+      }
+
+      const newKey = await controlApi.createKey(appId, {
+        capability: oldKey.capability as Record<string, string[]>,
+        name: flags.name ?? oldKey.name,
+      });
+      newKeyName = `${newKey.appId}.${newKey.id}`;
+
+      if (!json) {
+        this.log(`${chalk.green("✓")} Created key ${newKeyName}`);
+      }
+
+      const configEntries = this.configManager.replaceApiKey(
+        oldKeyName,
+        newKey.key,
+      );
+      if (!json) {
+        this.log(
+          configEntries.length > 0
+            ? `${chalk.green("✓")} Updated ${configEntries.length} config ${configEntries.length === 1 ? "entry" : "entries"}: ${configEntries.join(", ")}`
+            : chalk.dim("  No local config entries referred to the old key"),
+        );
+      }
+
+      this.warnIfProjectPinsKey(oldKeyName);
+
+      let envFile: KeyRotationAudit["envFile"];
+      if (flags["env-file"]) {
+        const envPath = path.resolve(flags["env-file"]);
+        writeEnvVariable(envPath, flags["env-var"], newKey.key);
+        envFile = { path: envPath, variable: flags["env-var"] };
+        if (!json) {
+          this.log(
+            `${chalk.green("✓")} Wrote ${flags["env-var"]} to ${flags["env-file"]}`,
+          );
+        }
+      }
+
+      // The rotation is recorded and the new key shown before the old key is
+      // revoked, so neither is lost if the grace period is interrupted or
+      // the revoke fails
+      const audit: KeyRotationAudit = {
+        action: "key.rotate",
+        appId,
+        capability: oldKey.capability,
+        configEntries,
+        envFile,
+        newKey: { keyName: newKeyName, label: newKey.name },
+        oldKey: { keyName: oldKeyName, label: oldKey.name },
+        timestamp: new Date().toISOString(),
+      };
+      if (auditLog) {
+        appendAuditRecord(auditLog, audit);
+      }
+
+      if (json) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              audit,
+              key: { ...newKey, keyName: newKeyName },
+              success: true,
+            },
+            flags,
+          ),
+        );
+      } else {
+        this.log(`\nNew key: ${newKey.key}`);
+        if (auditLog) {
+          this.log(chalk.dim(`Audit record appended to ${flags["audit-log"]}`));
+        }
+      }
+    } catch (error) {
+      this.fail(error, "Error rotating key");
+    }
+
+    const oldKeyName = `${oldKey.appId}.${oldKey.id}`;
+    let revocation: KeyRevocationAudit | undefined;
+    try {
+      revocation = await this.revokeOldKey(controlApi, oldKey, newKeyName, {
+        force: flags.force,
+        gracePeriod,
+        json,
+        revoke: flags.revoke,
+        revokeAfter: flags["revoke-after"],
+      });
+    } catch (error) {
+      this.fail(
+        error,
+        `Key ${newKeyName} is in place, but revoking the old key ${oldKeyName} failed`,
+      );
+    }
+
+    if (!revocation) {
+      if (!json) {
+        this.log(
+          `Old key ${oldKeyName} is still active. Once your services use the new key, run: ably auth keys revoke ${oldKeyName}`,
+        );
+      }
+
+      return;
+    }
+
+    if (auditLog) {
+      appendAuditRecord(auditLog, revocation);
+    }
+
+    if (json) {
+      this.log(
+        this.formatJsonOutput({ audit: revocation, success: true }, flags),
+      );
+    }
+  }
+
+  /**
+   * Revoke the old key now, after the grace period, or if the user agrees
+   * when prompted. Returns the audit record of the revoke, if it happened.
+   */
+  private async revokeOldKey(
+    controlApi: ControlApi,
+    key: Key,
+    replacedBy: string,
+    options: {
+      force: boolean;
+      gracePeriod?: number;
+      json: boolean;
+      revoke: boolean;
+      revokeAfter?: string;
+    },
+  ): Promise<KeyRevocationAudit | undefined> {
+    const { gracePeriod, json } = options;
+    const keyName = `${key.appId}.${key.id}`;
+
+    if (gracePeriod !== undefined) {
+      if (!json) {
+        this.log(
+          `Waiting ${options.revokeAfter} before revoking ${keyName}. Press Ctrl+C to keep the old key.`,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, gracePeriod));
+    } else if (!options.revoke) {
+      if (options.force || json) return undefined;
+
+      const confirmed = await this.interactiveHelper.confirm(
+        `Revoke the old key ${keyName} now? Anything still using it will stop working`,
+      );
+      if (!confirmed) return undefined;
+    }
+
+    await controlApi.revokeKey(key.appId, key.id);
+    if (!json) {
+      this.log(`${chalk.green("✓")} Revoked key ${keyName}`);
+    }
+
+    return {
+      action: "key.revoke",
+      appId: key.appId,
+      keyName,
+      replacedBy,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * The project config is usually committed, so it is left for the user to
+   * update rather than rewritten
+   */
+  private warnIfProjectPinsKey(oldKeyName: string): void {
+    const pinned = this.configManager.getPinnedSetting("key");
+    if (
+      pinned?.source === "project" &&
+      (pinned.value === oldKeyName || pinned.value === oldKeyName.split(".")[1])
+    ) {
+      this.warn(
+        `The old key is pinned in ${this.configManager.getProjectConfigPath()}; update it to use the new key`,
+      );
+    }
+  }
+}
@@ -31,6 +31,7 @@ export default class KeysSwitchCommand extends ControlBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(KeysSwitchCommand);
+    this.warnIfPinned("key");
 
     const controlApi = this.createControlApi(flags);
 
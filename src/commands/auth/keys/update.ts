@@ -1,6 +1,7 @@
 import { Args, Flags } from "@oclif/core";
 
 import { ControlBaseCommand } from "../../../control-base-command.js";
+import { parseCapability } from "../../../services/capability.js";
 
 export default class KeysUpdateCommand extends ControlBaseCommand {
   static args = {
@@ -16,6 +17,7 @@ export default class KeysUpdateCommand extends ControlBaseCommand {
     '$ ably auth keys update APP_ID.KEY_ID --name "New Name"',
     '$ ably auth keys update KEY_ID --app APP_ID --capabilities "publish,subscribe"',
     '$ ably auth keys update APP_ID.KEY_ID --name "New Name" --capabilities "publish,subscribe"',
+    '$ ably auth keys update APP_ID.KEY_ID --capabilities \'{"chat:*":["publish","subscribe"]}\'',
   ];
 
   static flags = {
@@ -26,7 +28,8 @@ export default class KeysUpdateCommand extends ControlBaseCommand {
       env: "ABLY_APP_ID",
     }),
     capabilities: Flags.string({
-      description: "New capabilities for the key (comma-separated list)",
+      description:
+        "New capabilities for the key, as a capability JSON object or a comma-separated list of operations allowed on all channels",
       required: false,
     }),
     name: Flags.string({
@@ -81,21 +84,22 @@ export default class KeysUpdateCommand extends ControlBaseCommand {
       }
 
       if (flags.capabilities) {
-        // Parse the capabilities string into the expected format
-        // The expected format is a Record<string, string[]> (channel => permissions)
+        // Accept a capability JSON object, or a comma-separated list of
+        // operations to allow on all channels
         try {
-          // Split by commas to get individual capabilities
-          const capabilityArray = flags.capabilities
-            .split(",")
-            .map((cap) => cap.trim());
-          // Create capability object with "*" channel and array of capabilities
-          updateData.capability = {
-            "*": capabilityArray,
-          };
+          updateData.capability = flags.capabilities.trim().startsWith("{")
+            ? parseCapability(flags.capabilities, "capabilities", (warning) =>
+                this.warn(warning),
+              )
+            : parseCapability(
+                {
+                  "*": flags.capabilities.split(",").map((cap) => cap.trim()),
+                },
+                "capabilities",
+                (warning) => this.warn(warning),
+              );
         } catch (error) {
-          this.error(
-            `Invalid capabilities format: ${error instanceof Error ? error.message : String(error)}`,
-          );
+          this.error(error instanceof Error ? error.message : String(error));
         }
       }
 
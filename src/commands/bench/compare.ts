@@ -0,0 +1,145 @@
+import { Args, Flags } from "@oclif/core";
+import chalk from "chalk";
+import Table from "cli-table3";
+
+import { AblyBaseCommand } from "../../base-command.js";
+import {
+  ComparisonResult,
+  MetricComparison,
+  compareReports,
+  loadReport,
+} from "../../services/bench-compare.js";
+
+export default class BenchCompare extends AblyBaseCommand {
+  static override args = {
+    old: Args.string({
+      description: "Baseline report written by bench run --report",
+      required: true,
+    }),
+    new: Args.string({
+      description: "Report to compare against the baseline",
+      required: true,
+    }),
+  };
+
+  static override description =
+    "Compare two benchmark reports and highlight statistically significant regressions in latency, throughput and delivery. Exits with status 1 when a regression is found";
+
+  static override examples = [
+    "$ ably bench compare baseline.json latest.json",
+    "$ ably bench compare --threshold 5 --alpha 0.01 baseline.json latest.json",
+    "$ ably bench compare --json baseline.json latest.json",
+  ];
+
+  static override flags = {
+    ...AblyBaseCommand.globalFlags,
+    alpha: Flags.string({
+      default: "0.05",
+      description:
+        "Significance level for the statistical tests, between 0 and 1",
+    }),
+    threshold: Flags.integer({
+      default: 10,
+      description:
+        "Minimum change in percent before latency or throughput counts as a regression",
+      min: 0,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(BenchCompare);
+
+    const alpha = Number(flags.alpha);
+    if (!Number.isFinite(alpha) || alpha <= 0 || alpha >= 1) {
+      this.error(
+        `Invalid --alpha "${flags.alpha}". Use a value between 0 and 1`,
+      );
+    }
+
+    let result: ComparisonResult;
+    try {
+      result = compareReports(loadReport(args.old), loadReport(args.new), {
+        alpha,
+        threshold: flags.threshold / 100,
+      });
+    } catch (error) {
+      this.fail(error, "Error comparing reports");
+    }
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(
+        this.formatJsonOutput(
+          {
+            ...result,
+            new: args.new,
+            old: args.old,
+            success: result.regressions === 0,
+          },
+          flags,
+        ),
+      );
+    } else {
+      this.displayResult(result);
+    }
+
+    if (result.regressions > 0) {
+      this.exit(1);
+    }
+  }
+
+  private displayResult(result: ComparisonResult): void {
+    if (result.configChanges.length > 0) {
+      this.warn(
+        `The runs used different settings (${result.configChanges.join(", ")}), so differences may not be caused by a regression`,
+      );
+    }
+
+    const table = new Table({
+      head: [
+        chalk.white("Metric"),
+        chalk.white("Old"),
+        chalk.white("New"),
+        chalk.white("Change"),
+        chalk.white("p-value"),
+        chalk.white("Result"),
+      ],
+      style: { border: [], head: [] },
+    });
+
+    for (const comparison of result.comparisons) {
+      table.push([
+        comparison.metric,
+        comparison.old.toString(),
+        comparison.new.toString(),
+        formatChange(comparison.change),
+        comparison.pValue === undefined ? "-" : comparison.pValue.toString(),
+        formatVerdict(comparison),
+      ]);
+    }
+
+    this.log(table.toString());
+
+    if (result.regressions > 0) {
+      this.log(
+        chalk.red(
+          `\n${result.regressions} significant regression${result.regressions === 1 ? "" : "s"} found`,
+        ),
+      );
+    } else {
+      this.log(chalk.green("\nNo significant regressions found"));
+    }
+  }
+}
+
+function formatChange(change: null | number): string {
+  if (change === null) return "-";
+  const percent = (change * 100).toFixed(1);
+  return change > 0 ? `+${percent}%` : `${percent}%`;
+}
+
+function formatVerdict(comparison: MetricComparison): string {
+  if (comparison.regression) return chalk.red("regression");
+  if (comparison.improvement) return chalk.green("improved");
+  if (comparison.note) return chalk.dim(comparison.note);
+  return "no significant change";
+}
@@ -3,16 +3,24 @@ import { Command } from "@oclif/core";
 export default class BenchTopic extends Command {
   static description = "Commands for running benchmark tests";
   static examples = [
-    `$ ably bench publisher my-channel
+    `$ ably bench run --publishers 2 --subscribers 4 my-channel
+$ ably bench compare baseline.json latest.json
+$ ably bench publisher my-channel
 $ ably bench subscriber my-channel`,
   ];
 
   async run(): Promise<void> {
     this.log("Ably benchmark testing commands:");
     this.log("");
+    this.log(
+      "  ably bench compare OLD NEW          - Compare two benchmark reports for regressions",
+    );
     this.log(
       "  ably bench publisher CHANNEL        - Run a publisher benchmark test",
     );
+    this.log(
+      "  ably bench run CHANNEL              - Run a load test and report latency percentiles",
+    );
     this.log(
       "  ably bench subscriber CHANNEL       - Run a subscriber benchmark test",
     );
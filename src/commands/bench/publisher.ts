@@ -26,6 +26,8 @@ interface MessageTracking {
 
 // Define interfaces for the publisher command's flags and args
 interface PublisherFlags {
+  "max-messages": number;
+  "max-rate": number;
   "message-size": number;
   messages: number;
   rate: number;
@@ -63,6 +65,7 @@ export default class BenchPublisher extends AblyBaseCommand {
     "$ ably bench publisher my-channel",
     "$ ably bench publisher --messages 5000 --rate 10 my-channel",
     "$ ably bench publisher --transport realtime my-channel",
+    "$ ably bench publisher --rate 100 --max-rate 100 my-channel",
   ];
 
   static override flags = {
@@ -71,15 +74,25 @@ export default class BenchPublisher extends AblyBaseCommand {
       default: 100,
       description: "Size of the message payload in bytes",
     }),
+    "max-messages": Flags.integer({
+      default: 10_000,
+      description: "Upper limit for --messages",
+      min: 1,
+    }),
+    "max-rate": Flags.integer({
+      default: 20,
+      description: "Upper limit for --rate in messages per second",
+      min: 1,
+    }),
     messages: Flags.integer({
       char: "m",
       default: 1000,
-      description: "Number of messages to publish (max 10,000)",
+      description: "Number of messages to publish (capped by --max-messages)",
     }),
     rate: Flags.integer({
       char: "r",
       default: 15,
-      description: "Messages per second to publish (max 20)",
+      description: "Messages per second to publish (capped by --max-rate)",
     }),
     transport: Flags.string({
       char: "t",
@@ -120,9 +133,21 @@ export default class BenchPublisher extends AblyBaseCommand {
   async run(): Promise<void> {
     const { args, flags } = await this.parse(BenchPublisher);
 
-    // Validate max values
-    const messageCount = Math.min(flags.messages, 10_000);
-    const messageRate = Math.min(flags.rate, 20);
+    // Apply the caps, which can be raised deliberately with --max-*
+    const messageCount = Math.min(flags.messages, flags["max-messages"]);
+    const messageRate = Math.min(flags.rate, flags["max-rate"]);
+    if (messageCount < flags.messages) {
+      this.warn(
+        `--messages ${flags.messages} exceeds --max-messages, publishing ${messageCount} messages`,
+      );
+    }
+
+    if (messageRate < flags.rate) {
+      this.warn(
+        `--rate ${flags.rate} exceeds --max-rate, publishing at ${messageRate} msg/sec`,
+      );
+    }
+
     const messageSize = Math.max(flags["message-size"], 10);
 
     this.realtime = await this.createAblyClient(flags);
@@ -0,0 +1,267 @@
+import { Args, Flags } from "@oclif/core";
+import chalk from "chalk";
+import Table from "cli-table3";
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import { AblyBaseCommand } from "../../base-command.js";
+import { runBenchmark } from "../../services/bench-runner.js";
+import {
+  loadScenarioFile,
+  scenarioToConfig,
+} from "../../services/bench-scenario.js";
+import { BenchConfig, BenchReport } from "../../services/bench-stats.js";
+
+export default class BenchRun extends AblyBaseCommand {
+  static override args = {
+    channel: Args.string({
+      description:
+        "The channel name to benchmark, or the prefix of the channels when using --channels. Optional when the scenario names a channel",
+      required: false,
+    }),
+  };
+
+  static override description =
+    "Run a load test with multiple publishers and subscribers and report end-to-end latency percentiles, throughput, loss and duplicates";
+
+  static override examples = [
+    "$ ably bench run my-channel",
+    "$ ably bench run --publishers 4 --subscribers 8 --messages 500 --rate 10 my-channel",
+    "$ ably bench run --publishers 10 --channels 5 --workers 2 my-channel",
+    "$ ably bench run --rate 200 --max-rate 200 --report results.json my-channel",
+    "$ ably bench run --json my-channel",
+    "$ ably bench run --scenario bench/ramp.yaml --report nightly.json",
+  ];
+
+  static override flags = {
+    ...AblyBaseCommand.globalFlags,
+    channels: Flags.integer({
+      default: 1,
+      description:
+        "Number of channels to fan out over. Channels are named CHANNEL-0, CHANNEL-1 and so on",
+      min: 1,
+    }),
+    "drain-timeout": Flags.integer({
+      default: 5000,
+      description:
+        "Time in milliseconds to wait for outstanding messages once publishing has finished",
+      min: 0,
+    }),
+    "max-messages": Flags.integer({
+      default: 10_000,
+      description: "Upper limit for --messages, raise it to run larger tests",
+      min: 1,
+    }),
+    "max-rate": Flags.integer({
+      default: 20,
+      description:
+        "Upper limit for --rate in messages per second, raise it to run faster tests",
+      min: 1,
+    }),
+    "message-size": Flags.integer({
+      default: 100,
+      description: "Size of the padding added to each message in bytes",
+      min: 0,
+    }),
+    messages: Flags.integer({
+      char: "m",
+      default: 1000,
+      description: "Number of messages each publisher sends",
+      min: 1,
+    }),
+    publishers: Flags.integer({
+      default: 1,
+      description: "Number of publisher connections",
+      min: 1,
+    }),
+    rate: Flags.integer({
+      char: "r",
+      default: 10,
+      description: "Messages per second sent by each publisher",
+      min: 1,
+    }),
+    report: Flags.string({
+      description: "File to write the JSON report to",
+    }),
+    scenario: Flags.string({
+      description:
+        "YAML or JSON scenario file describing the workload. Its settings replace the workload flags, including the limits",
+    }),
+    subscribers: Flags.integer({
+      default: 1,
+      description: "Number of subscriber connections",
+      min: 1,
+    }),
+    transport: Flags.string({
+      char: "t",
+      default: "realtime",
+      description: "Transport publishers use",
+      options: ["rest", "realtime"],
+    }),
+    workers: Flags.integer({
+      default: 0,
+      description:
+        "Number of worker threads to spread connections across. 0 runs every connection in-process",
+      min: 0,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(BenchRun);
+
+    let config: BenchConfig;
+    let maxMessages = flags["max-messages"];
+    let maxRate = flags["max-rate"];
+    let drainTimeoutMs = flags["drain-timeout"];
+
+    if (flags.scenario) {
+      try {
+        const scenario = loadScenarioFile(flags.scenario);
+        config = scenarioToConfig(scenario, {
+          channel: args.channel,
+          workers: flags.workers,
+        });
+        maxMessages = scenario.limits.maxMessages ?? maxMessages;
+        maxRate = scenario.limits.maxRate ?? maxRate;
+        drainTimeoutMs = scenario.drainTimeout ?? drainTimeoutMs;
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+    } else {
+      if (!args.channel) {
+        this.error("A channel name is required unless --scenario is used");
+      }
+
+      config = {
+        channels:
+          flags.channels === 1
+            ? [args.channel]
+            : Array.from(
+                { length: flags.channels },
+                (_, i) => `${args.channel}-${i}`,
+              ),
+        messageSize: flags["message-size"],
+        messages: flags.messages,
+        publishers: flags.publishers,
+        rate: flags.rate,
+        subscribers: flags.subscribers,
+        transport: flags.transport as BenchConfig["transport"],
+        workers: flags.workers,
+      };
+    }
+
+    const peakRate = Math.max(config.rate, config.rampTo ?? 0);
+    if (config.messages > maxMessages) {
+      this.error(
+        `${config.messages} messages per publisher exceeds the limit of ${maxMessages}. Set --max-messages (or limits.maxMessages in a scenario) to run a larger test`,
+      );
+    }
+
+    if (peakRate > maxRate) {
+      this.error(
+        `A rate of ${peakRate} msg/sec exceeds the limit of ${maxRate} msg/sec. Set --max-rate (or limits.maxRate in a scenario) to publish faster`,
+      );
+    }
+
+    let report: BenchReport | undefined;
+    try {
+      // Connect once up front so auth problems are reported before any
+      // benchmark connections are opened
+      const client = await this.createAblyClient(flags);
+      if (!client) return;
+      client.close();
+
+      const runId = randomUUID();
+      this.logCliEvent(flags, "benchmark", "starting", "Starting benchmark", {
+        config,
+        runId,
+      });
+
+      if (!this.shouldSuppressOutput(flags)) {
+        this.log(
+          `Running ${config.scenario ? `scenario ${chalk.cyan(config.scenario)}` : "benchmark"} ${chalk.dim(runId)}: ${config.publishers} publisher(s) and ${config.subscribers} subscriber(s) on ${config.channels.length} channel(s), ${config.messages} messages per publisher at ${config.rampTo ? `${config.rate} to ${config.rampTo}` : config.rate} msg/sec`,
+        );
+      }
+
+      report = await runBenchmark({
+        clientOptions: this.getClientOptions(flags),
+        config,
+        drainTimeoutMs,
+        onPhase: (phase) => {
+          this.logCliEvent(flags, "benchmark", phase, `Benchmark ${phase}`);
+          if (!this.shouldSuppressOutput(flags)) {
+            this.log(
+              chalk.dim(`${phase[0].toUpperCase()}${phase.slice(1)}...`),
+            );
+          }
+        },
+        onProgress: (progress) => {
+          if (!this.shouldSuppressOutput(flags)) {
+            this.log(
+              chalk.dim(
+                `  published ${progress.published}/${config.publishers * config.messages}, received ${progress.received}`,
+              ),
+            );
+          }
+        },
+        runId,
+      });
+
+      if (flags.report) {
+        fs.writeFileSync(
+          path.resolve(flags.report),
+          `${JSON.stringify(report, null, 2)}\n`,
+        );
+      }
+
+      this.logCliEvent(flags, "benchmark", "finished", "Benchmark finished", {
+        report,
+      });
+    } catch (error) {
+      this.fail(error, "Error running benchmark");
+    }
+
+    if (!report) return;
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(this.formatJsonOutput({ report, success: true }, flags));
+      return;
+    }
+
+    this.displayReport(report);
+    if (flags.report) {
+      this.log(`\nReport written to ${chalk.cyan(path.resolve(flags.report))}`);
+    }
+  }
+
+  private displayReport(report: BenchReport): void {
+    const { delivery, latency, publish, throughput } = report;
+
+    const table = new Table({
+      head: [chalk.white("Metric"), chalk.white("Value")],
+      style: { border: [], head: [] },
+    });
+    table.push(
+      ["Published", `${publish.published}/${publish.attempted}`],
+      ["Publish errors", publish.errors.toString()],
+      ["Delivered", `${delivery.received}/${delivery.expected}`],
+      ["Lost", `${delivery.lost} (${(delivery.lossRate * 100).toFixed(2)}%)`],
+      ["Duplicates", delivery.duplicates.toString()],
+      ["Publish throughput", `${throughput.publishedPerSecond} msg/sec`],
+      ["Delivery throughput", `${throughput.deliveredPerSecond} msg/sec`],
+      ["Latency p50", `${latency.p50} ms`],
+      ["Latency p90", `${latency.p90} ms`],
+      ["Latency p99", `${latency.p99} ms`],
+      ["Latency p99.9", `${latency.p999} ms`],
+      [
+        "Latency min/mean/max",
+        `${latency.min}/${latency.mean}/${latency.max} ms`,
+      ],
+      ["Duration", `${(report.durationMs / 1000).toFixed(1)}s`],
+    );
+
+    this.log(`\n${chalk.bold("Benchmark results")}`);
+    this.log(table.toString());
+  }
+}
@@ -0,0 +1,19 @@
+import { Command } from "@oclif/core";
+
+import ChannelRulesApply from "../apps/channel-rules/apply.js";
+
+export default class ChannelRuleApply extends Command {
+  static override args = ChannelRulesApply.args;
+  static override description = 'Alias for "ably apps channel-rules apply"';
+  static override flags = ChannelRulesApply.flags;
+  static override hidden = true;
+
+  // Special property to identify this as an alias command
+  static isAlias = true;
+
+  async run(): Promise<void> {
+    // Forward to the channel-rules apply command
+    const command = new ChannelRulesApply(this.argv, this.config);
+    await command.run();
+  }
+}
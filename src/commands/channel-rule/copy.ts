@@ -0,0 +1,19 @@
+import { Command } from "@oclif/core";
+
+import ChannelRulesCopy from "../apps/channel-rules/copy.js";
+
+export default class ChannelRuleCopy extends Command {
+  static override args = ChannelRulesCopy.args;
+  static override description = 'Alias for "ably apps channel-rules copy"';
+  static override flags = ChannelRulesCopy.flags;
+  static override hidden = true;
+
+  // Special property to identify this as an alias command
+  static isAlias = true;
+
+  async run(): Promise<void> {
+    // Forward to the channel-rules copy command
+    const command = new ChannelRulesCopy(this.argv, this.config);
+    await command.run();
+  }
+}
@@ -0,0 +1,19 @@
+import { Command } from "@oclif/core";
+
+import ChannelRulesTemplates from "../apps/channel-rules/templates.js";
+
+export default class ChannelRuleTemplates extends Command {
+  static override args = ChannelRulesTemplates.args;
+  static override description = 'Alias for "ably apps channel-rules templates"';
+  static override flags = ChannelRulesTemplates.flags;
+  static override hidden = true;
+
+  // Special property to identify this as an alias command
+  static isAlias = true;
+
+  async run(): Promise<void> {
+    // Forward to the channel-rules templates command
+    const command = new ChannelRulesTemplates(this.argv, this.config);
+    await command.run();
+  }
+}
@@ -1,4 +1,5 @@
 import { Args, Flags } from "@oclif/core";
+import * as Ably from "ably";
 import { AblyBaseCommand } from "../../base-command.js";
 
 // Define interfaces for the batch-publish command
@@ -109,19 +110,6 @@ export default class ChannelsBatchPublish extends AblyBaseCommand {
         try {
           batchContent = JSON.parse(flags.spec);
         } catch (error) {
-          if (this.shouldOutputJson(flags)) {
-            this.log(
-              this.formatJsonOutput(
-                {
-                  error: `Failed to parse spec JSON: ${error instanceof Error ? error.message : String(error)}`,
-                  success: false,
-                },
-                flags,
-              ),
-            );
-            return;
-          }
-
           this.error(
             `Failed to parse spec JSON: ${error instanceof Error ? error.message : String(error)}`,
           );
@@ -136,20 +124,6 @@ export default class ChannelsBatchPublish extends AblyBaseCommand {
           try {
             const parsedChannels = JSON.parse(flags["channels-json"]);
             if (!Array.isArray(parsedChannels)) {
-              if (this.shouldOutputJson(flags)) {
-                this.log(
-                  this.formatJsonOutput(
-                    {
-                      error:
-                        "channels-json must be a valid JSON array of channel names",
-                      success: false,
-                    },
-                    flags,
-                  ),
-                );
-                return;
-              }
-
               this.error(
                 "channels-json must be a valid JSON array of channel names",
               );
@@ -157,57 +131,17 @@ export default class ChannelsBatchPublish extends AblyBaseCommand {
 
             channels = parsedChannels;
           } catch (error) {
-            if (this.shouldOutputJson(flags)) {
-              this.log(
-                this.formatJsonOutput(
-                  {
-                    error: `Failed to parse channels-json: ${error instanceof Error ? error.message : String(error)}`,
-                    success: false,
-                  },
-                  flags,
-                ),
-              );
-              return;
-            }
-
             this.error(
               `Failed to parse channels-json: ${error instanceof Error ? error.message : String(error)}`,
             );
           }
         } else {
-          if (this.shouldOutputJson(flags)) {
-            this.log(
-              this.formatJsonOutput(
-                {
-                  error:
-                    "You must specify either --channels, --channels-json, or --spec",
-                  success: false,
-                },
-                flags,
-              ),
-            );
-            return;
-          }
-
           this.error(
             "You must specify either --channels, --channels-json, or --spec",
           );
         }
 
         if (!args.message) {
-          if (this.shouldOutputJson(flags)) {
-            this.log(
-              this.formatJsonOutput(
-                {
-                  error: "Message is required when not using --spec",
-                  success: false,
-                },
-                flags,
-              ),
-            );
-            return;
-          }
-
           this.error("Message is required when not using --spec");
         }
 
@@ -355,41 +289,17 @@ export default class ChannelsBatchPublish extends AblyBaseCommand {
             const errorCode = errorInfo.error
               ? errorInfo.error.code
               : response.statusCode;
-            if (this.shouldOutputJson(flags)) {
-              this.log(
-                this.formatJsonOutput(
-                  {
-                    error: {
-                      code: errorCode,
-                      message: errorMessage,
-                    },
-                    success: false,
-                  },
-                  flags,
-                ),
-              );
-            } else {
-              this.error(
-                `Batch publish failed: ${errorMessage} (${errorCode})`,
-              );
-            }
+            throw new Ably.ErrorInfo(
+              errorMessage,
+              errorCode,
+              response.statusCode,
+            );
           }
-        } else if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error: {
-                  code: response.statusCode,
-                  message: `Batch publish failed with status code ${response.statusCode}`,
-                },
-                success: false,
-              },
-              flags,
-            ),
-          );
         } else {
-          this.error(
+          throw new Ably.ErrorInfo(
             `Batch publish failed with status code ${response.statusCode}`,
+            response.errorCode,
+            response.statusCode,
           );
         }
       } else {
@@ -410,39 +320,10 @@ export default class ChannelsBatchPublish extends AblyBaseCommand {
           }
         }
 
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error: {
-                  code: errorCode,
-                  message: errorMessage,
-                },
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(`Batch publish failed: ${errorMessage} (${errorCode})`);
-        }
+        throw new Ably.ErrorInfo(errorMessage, errorCode, response.statusCode);
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Failed to execute batch publish: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Failed to execute batch publish");
     }
   }
 }
@@ -3,6 +3,13 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../base-command.js";
+import {
+  MESSAGE_COLUMNS,
+  collectPages,
+  historyExportFlags,
+  isExportRequested,
+  messageToRecord,
+} from "../../services/history-export.js";
 import { formatJson, isJsonData } from "../../utils/json-formatter.js";
 
 export default class ChannelsHistory extends AblyBaseCommand {
@@ -22,10 +29,14 @@ export default class ChannelsHistory extends AblyBaseCommand {
     '$ ably channels history my-channel --start "2023-01-01T00:00:00Z" --end "2023-01-02T00:00:00Z"',
     "$ ably channels history my-channel --limit 100",
     "$ ably channels history my-channel --direction forward",
+    '$ ably channels history my-channel --all --start "2023-01-01T00:00:00Z" --output history.ndjson',
+    "$ ably channels history my-channel --all --max 10000 --output history.csv",
+    "$ ably channels history my-channel --all --format ndjson > history.ndjson",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...historyExportFlags,
     cipher: Flags.string({
       description: "Decryption key for encrypted messages (AES-128)",
     }),
@@ -40,7 +51,8 @@ export default class ChannelsHistory extends AblyBaseCommand {
     }),
     limit: Flags.integer({
       default: 50,
-      description: "Maximum number of messages to retrieve",
+      description:
+        "Maximum number of messages to retrieve (the page size when using --all)",
     }),
     start: Flags.string({
       description: "Start time for the history query (ISO 8601 format)",
@@ -98,7 +110,20 @@ export default class ChannelsHistory extends AblyBaseCommand {
 
       // Get history
       const history = await channel.history(historyParams);
-      const messages = history.items;
+
+      if (isExportRequested(flags)) {
+        await this.exportHistory(flags, history, {
+          columns: MESSAGE_COLUMNS,
+          label: "messages",
+          toRecord: messageToRecord,
+        });
+        return;
+      }
+
+      const { items: messages, truncated } = await collectPages(
+        history,
+        this.getPaginationOptions(flags, "messages"),
+      );
 
       // Display results based on format
       if (this.shouldOutputJson(flags)) {
@@ -136,10 +161,12 @@ export default class ChannelsHistory extends AblyBaseCommand {
           this.log("");
         }
 
-        if (messages.length === flags.limit) {
+        if (truncated) {
           this.log(
             chalk.yellow(
-              `Showing maximum of ${flags.limit} messages. Use --limit to show more.`,
+              flags.all
+                ? `Stopped after ${messages.length} messages. Increase --max to show more.`
+                : `Showing maximum of ${flags.limit} messages. Use --limit or --all to show more.`,
             ),
           );
         }
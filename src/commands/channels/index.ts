@@ -27,6 +27,12 @@ export default class Channels extends Command {
     this.log(
       "  ably channels history                 - Get historical messages from a channel",
     );
+    this.log(
+      "  ably channels record                  - Record channel messages to an NDJSON file",
+    );
+    this.log(
+      "  ably channels replay                  - Replay recorded messages with their original timing",
+    );
     this.log(
       "  ably channels occupancy               - Get channel occupancy information",
     );
@@ -1,5 +1,7 @@
 import { Flags } from "@oclif/core";
 import { AblyBaseCommand } from "../../base-command.js";
+import { CliError, categoryForStatusCode } from "../../services/cli-error.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 import chalk from "chalk";
 
 interface ChannelMetrics {
@@ -37,10 +39,13 @@ export default class ChannelsList extends AblyBaseCommand {
     "$ ably channels list --limit 50",
     "$ ably channels list --json",
     "$ ably channels list --pretty-json",
+    "$ ably channels list --format ndjson",
+    '$ ably channels list --query ".channels[].channelId"',
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...outputFormatFlags,
     limit: Flags.integer({
       default: 100,
       description: "Maximum number of channels to return",
@@ -81,29 +86,39 @@ export default class ChannelsList extends AblyBaseCommand {
       );
 
       if (channelsResponse.statusCode !== 200) {
-        this.error(`Failed to list channels: ${channelsResponse.statusCode}`);
-        return;
+        throw new CliError(
+          `Failed to list channels: ${channelsResponse.statusCode}`,
+          {
+            category:
+              categoryForStatusCode(channelsResponse.statusCode) ?? "ably",
+            statusCode: channelsResponse.statusCode,
+          },
+        );
       }
 
       const channels = channelsResponse.items || [];
 
       // Output channels based on format
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              channels: channels.map((channel: ChannelItem) => ({
-                channelId: channel.channelId,
-                metrics: channel.status?.occupancy?.metrics || {},
-              })),
-              hasMore: channels.length === flags.limit,
-              success: true,
-              timestamp: new Date().toISOString(),
-              total: channels.length,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: [
+            "channelId",
+            "metrics.connections",
+            "metrics.publishers",
+            "metrics.subscribers",
+          ],
+          key: "channels",
+          meta: {
+            hasMore: channels.length === flags.limit,
+            success: true,
+            timestamp: new Date().toISOString(),
+            total: channels.length,
+          },
+          records: channels.map((channel: ChannelItem) => ({
+            channelId: channel.channelId,
+            metrics: channel.status?.occupancy?.metrics || {},
+          })),
+        });
       } else {
         if (channels.length === 0) {
           this.log("No active channels found.");
@@ -155,22 +170,7 @@ export default class ChannelsList extends AblyBaseCommand {
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error listing channels: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error listing channels");
     } finally {
       client.close();
     }
@@ -2,6 +2,7 @@ import { Args } from "@oclif/core";
 import * as Ably from "ably";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 interface OccupancyMetrics {
   connections?: number;
@@ -31,6 +32,7 @@ export default class ChannelsOccupancyGet extends AblyBaseCommand {
 
   static flags = {
     ...AblyBaseCommand.globalFlags,
+    ...outputFormatFlags,
   };
 
   async run(): Promise<void> {
@@ -84,17 +86,20 @@ export default class ChannelsOccupancyGet extends AblyBaseCommand {
       );
 
       // Output the occupancy metrics based on format
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              channel: channelName,
-              metrics: occupancyMetrics,
-              success: true,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: [
+            "connections",
+            "publishers",
+            "subscribers",
+            "presenceConnections",
+            "presenceMembers",
+            "presenceSubscribers",
+          ],
+          key: "metrics",
+          meta: { channel: channelName, success: true },
+          records: occupancyMetrics,
+        });
       } else {
         this.log(`Occupancy metrics for channel '${channelName}':\n`);
         this.log(`Connections: ${occupancyMetrics.connections ?? 0}`);
@@ -121,22 +126,7 @@ export default class ChannelsOccupancyGet extends AblyBaseCommand {
       // Clean up
       await channel.detach();
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              channel: args.channel,
-              error: error instanceof Error ? error.message : String(error),
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error fetching channel occupancy: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error fetching channel occupancy");
     } finally {
       if (client) client.close();
     }
@@ -3,6 +3,7 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class ChannelsOccupancySubscribe extends AblyBaseCommand {
   static args = {
@@ -18,10 +19,12 @@ export default class ChannelsOccupancySubscribe extends AblyBaseCommand {
     "$ ably channels occupancy subscribe my-channel",
     "$ ably channels occupancy subscribe my-channel --json",
     "$ ably channels occupancy subscribe --pretty-json my-channel",
+    "$ ably channels occupancy subscribe my-channel --max-messages 1",
   ];
 
   static flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
   };
 
   private client: Ably.Realtime | null = null;
@@ -232,6 +235,8 @@ export default class ChannelsOccupancySubscribe extends AblyBaseCommand {
 
           this.log(""); // Empty line for better readability
         }
+
+        this.checkStopConditions(flags, occupancyEvent);
       });
       this.logCliEvent(
         flags,
@@ -315,8 +320,7 @@ export default class ChannelsOccupancySubscribe extends AblyBaseCommand {
           }
         };
 
-        process.on("SIGINT", cleanup);
-        process.on("SIGTERM", cleanup);
+        this.setupStopConditions(flags, cleanup);
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -327,16 +331,7 @@ export default class ChannelsOccupancySubscribe extends AblyBaseCommand {
         `Error during occupancy subscription: ${errorMsg}`,
         { channel: channelName, error: errorMsg },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { channel: channelName, error: errorMsg, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Error: ${errorMsg}`);
-      }
+      this.fail(error);
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (this.client && this.client.connection.state !== "closed") {
@@ -3,6 +3,11 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  filterFlags,
+  messageFields,
+} from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
   static override args = {
@@ -18,10 +23,14 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
     "$ ably channels presence subscribe my-channel",
     "$ ably channels presence subscribe my-channel --json",
     "$ ably channels presence subscribe my-channel --pretty-json",
+    '$ ably channels presence subscribe my-channel --until "action=enter" --duration 30',
+    "$ ably channels presence subscribe my-channel --filter 'clientId =~ \"^bot-\"'",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   private client: Ably.Realtime | null = null;
@@ -41,6 +50,7 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(ChannelsPresenceSubscribe);
+    this.setupMessageFilter(flags);
 
     try {
       // Create the Ably client
@@ -198,6 +208,8 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
       }
 
       channel.presence.subscribe("enter", (presenceMessage) => {
+        if (!this.passesMessageFilter(messageFields(presenceMessage))) return;
+
         const timestamp = presenceMessage.timestamp
           ? new Date(presenceMessage.timestamp).toISOString()
           : new Date().toISOString();
@@ -241,9 +253,18 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
             );
           }
         }
+
+        this.checkStopConditions(flags, {
+          action: "enter",
+          channel: channelName,
+          member: memberData,
+          timestamp,
+        });
       });
 
       channel.presence.subscribe("leave", (presenceMessage) => {
+        if (!this.passesMessageFilter(messageFields(presenceMessage))) return;
+
         const timestamp = presenceMessage.timestamp
           ? new Date(presenceMessage.timestamp).toISOString()
           : new Date().toISOString();
@@ -278,9 +299,18 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
             `[${chalk.dim(timestamp)}] ${chalk.red("✗")} ${chalk.blue(presenceMessage.clientId || "Unknown")} left presence`,
           );
         }
+
+        this.checkStopConditions(flags, {
+          action: "leave",
+          channel: channelName,
+          member: memberData,
+          timestamp,
+        });
       });
 
       channel.presence.subscribe("update", (presenceMessage) => {
+        if (!this.passesMessageFilter(messageFields(presenceMessage))) return;
+
         const timestamp = presenceMessage.timestamp
           ? new Date(presenceMessage.timestamp).toISOString()
           : new Date().toISOString();
@@ -324,6 +354,13 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
             );
           }
         }
+
+        this.checkStopConditions(flags, {
+          action: "update",
+          channel: channelName,
+          member: memberData,
+          timestamp,
+        });
       });
       this.logCliEvent(
         flags,
@@ -485,10 +522,7 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
           }
         };
 
-        process.once("SIGINT", () => {
-          cleanup().catch(reject);
-        });
-        process.once("SIGTERM", () => {
+        this.setupStopConditions(flags, () => {
           cleanup().catch(reject);
         });
       });
@@ -501,16 +535,7 @@ export default class ChannelsPresenceSubscribe extends AblyBaseCommand {
         `Error subscribing to presence: ${errorMsg}`,
         { channel: args.channel, error: errorMsg },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { channel: args.channel, error: errorMsg, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Error subscribing to presence: ${errorMsg}`);
-      }
+      this.fail(error, "Error subscribing to presence");
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (this.client && this.client.connection.state !== "closed") {
@@ -3,6 +3,7 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../base-command.js";
+import { CliError } from "../../services/cli-error.js";
 
 export default class ChannelsPublish extends AblyBaseCommand {
   static override args = {
@@ -108,12 +109,10 @@ export default class ChannelsPublish extends AblyBaseCommand {
     if (!flags.token && !flags["api-key"] && !process.env.ABLY_API_KEY) {
       const appAndKey = await this.ensureAppAndKey(flags);
       if (!appAndKey) {
-        this.logErrorAndExit(
+        throw new CliError(
           `${chalk.yellow("No app or API key configured for this command")}.\nPlease log in first with "${chalk.cyan("ably accounts login")}" (recommended approach).\nAlternatively you can provide an API key with the ${chalk.cyan("--api-key")} argument or set the ${chalk.cyan("ABLY_API_KEY")} environment variable.`,
-          flags,
+          { category: "auth" },
         );
-        // Throw an error to stop execution after logging
-        throw new Error("Auth configuration missing.");
       }
 
       // Assign the key to flags if found via config
@@ -124,7 +123,7 @@ export default class ChannelsPublish extends AblyBaseCommand {
   private handlePublishError(
     error: unknown,
     flags: Record<string, unknown>,
-  ): void {
+  ): never {
     const errorMsg = error instanceof Error ? error.message : String(error);
     this.logCliEvent(
       flags,
@@ -133,7 +132,7 @@ export default class ChannelsPublish extends AblyBaseCommand {
       `Failed to publish message: ${errorMsg}`,
       { error: errorMsg },
     );
-    this.logErrorAndExit(`Failed to publish message: ${errorMsg}`, flags);
+    this.fail(error, "Failed to publish message");
   }
 
   // --- Original Methods (modified) ---
@@ -148,20 +147,6 @@ export default class ChannelsPublish extends AblyBaseCommand {
     return result;
   }
 
-  private logErrorAndExit(
-    message: string,
-    flags: Record<string, unknown>,
-  ): void {
-    if (this.shouldOutputJson(flags)) {
-      this.log(
-        this.formatJsonOutput({ error: message, success: false }, flags),
-      );
-      process.exitCode = 1; // Set exit code for JSON output errors
-    } else {
-      this.error(message); // Use oclif error which sets exit code
-    }
-  }
-
   private logFinalSummary(
     flags: Record<string, unknown>,
     total: number,
@@ -366,8 +351,7 @@ export default class ChannelsPublish extends AblyBaseCommand {
         this.logCliEvent(flags, "publish", "clientCreationFailed", errorMsg, {
           error: errorMsg,
         });
-        this.logErrorAndExit(errorMsg, flags);
-        return;
+        this.error(errorMsg);
       }
 
       const client = this.realtime;
@@ -0,0 +1,365 @@
+import { Args, Flags } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+import fs from "node:fs";
+import path from "node:path";
+
+import { AblyBaseCommand } from "../../base-command.js";
+import {
+  matchesChannelPattern,
+  serializeRecordedMessage,
+  toRecordedMessage,
+} from "../../services/channel-recording.js";
+import { filterFlags, messageFields } from "../../services/message-filter.js";
+import { stopConditionFlags } from "../../services/stop-conditions.js";
+import { BaseFlags } from "../../types/cli.js";
+
+interface ChannelItem {
+  channelId: string;
+}
+
+export default class ChannelsRecord extends AblyBaseCommand {
+  static override args = {
+    channels: Args.string({
+      description:
+        "Channel name(s) to record. Use * to match currently active channels, e.g. orders:*",
+      multiple: false,
+      required: true,
+    }),
+  };
+
+  static override description =
+    "Record messages published on one or more channels to an NDJSON file";
+
+  static override examples = [
+    "$ ably channels record my-channel --output traffic.ndjson",
+    "$ ably channels record my-channel another-channel -o traffic.ndjson",
+    '$ ably channels record "orders:*" -o orders.ndjson',
+    "$ ably channels record --rewind 100 my-channel -o traffic.ndjson",
+    "$ ably channels record --cipher-key YOUR_CIPHER_KEY my-channel -o traffic.ndjson",
+    "$ ably channels record my-channel -o traffic.ndjson --append",
+    "$ ably channels record my-channel -o traffic.ndjson --duration 60",
+    "$ ably channels record my-channel --filter 'name == \"order\"'",
+  ];
+
+  static override flags = {
+    ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
+    append: Flags.boolean({
+      default: false,
+      description: "Append to the output file instead of overwriting it",
+    }),
+    "cipher-algorithm": Flags.string({
+      default: "aes",
+      description: "Encryption algorithm to use",
+    }),
+    "cipher-key": Flags.string({
+      description: "Encryption key for decrypting messages (hex-encoded)",
+    }),
+    "cipher-key-length": Flags.integer({
+      default: 256,
+      description: "Length of encryption key in bits",
+    }),
+    "cipher-mode": Flags.string({
+      default: "cbc",
+      description: "Cipher mode to use",
+    }),
+    delta: Flags.boolean({
+      default: false,
+      description: "Enable delta compression for messages",
+    }),
+    output: Flags.string({
+      char: "o",
+      description: "NDJSON file to write recorded messages to",
+      required: true,
+    }),
+    rewind: Flags.integer({
+      default: 0,
+      description: "Number of messages to rewind when subscribing",
+    }),
+  };
+
+  static override strict = false;
+
+  private client: Ably.Realtime | null = null;
+  private stream: fs.WriteStream | null = null;
+
+  // Override finally to ensure resources are cleaned up
+  async finally(err: Error | undefined): Promise<void> {
+    if (this.stream && !this.stream.closed) {
+      this.stream.end();
+    }
+
+    if (
+      this.client &&
+      this.client.connection.state !== "closed" &&
+      this.client.connection.state !== "failed"
+    ) {
+      this.client.close();
+    }
+
+    return super.finally(err);
+  }
+
+  async run(): Promise<void> {
+    const { argv, flags } = await this.parse(ChannelsRecord);
+    this.setupMessageFilter(flags);
+    const patterns = argv as string[];
+    const outputPath = path.resolve(flags.output);
+    let recorded = 0;
+
+    try {
+      this.client = await this.createAblyClient(flags);
+      if (!this.client) return;
+
+      const { client } = this;
+      const channelNames = await this.expandChannelNames(patterns, flags);
+
+      if (channelNames.length === 0) {
+        throw new Error(
+          `No active channels match ${patterns.map((p) => `"${p}"`).join(", ")}`,
+        );
+      }
+
+      this.stream = fs.createWriteStream(outputPath, {
+        flags: flags.append ? "a" : "w",
+      });
+      const { stream } = this;
+      stream.on("error", (error) => {
+        this.logCliEvent(
+          flags,
+          "record",
+          "writeError",
+          `Error writing to ${outputPath}: ${error.message}`,
+          { error: error.message, file: outputPath },
+        );
+      });
+
+      client.connection.on((stateChange: Ably.ConnectionStateChange) => {
+        this.logCliEvent(
+          flags,
+          "connection",
+          stateChange.current,
+          `Connection state changed to ${stateChange.current}`,
+          { reason: stateChange.reason },
+        );
+        if (stateChange.current === "failed" && !this.shouldOutputJson(flags)) {
+          this.error(
+            `Connection failed: ${stateChange.reason?.message || "Unknown error"}`,
+          );
+        }
+      });
+
+      const channels = channelNames.map((channelName) =>
+        client.channels.get(channelName, this.getChannelOptions(flags)),
+      );
+
+      for (const channel of channels) {
+        this.logCliEvent(
+          flags,
+          "record",
+          "subscribing",
+          `Recording channel: ${channel.name}`,
+          { channel: channel.name },
+        );
+        if (!this.shouldOutputJson(flags)) {
+          this.log(
+            `${chalk.green("Recording channel:")} ${chalk.cyan(channel.name)}`,
+          );
+        }
+
+        channel.on((stateChange: Ably.ChannelStateChange) => {
+          this.logCliEvent(
+            flags,
+            "channel",
+            stateChange.current,
+            `Channel '${channel.name}' state changed to ${stateChange.current}`,
+            { channel: channel.name, reason: stateChange.reason },
+          );
+          if (
+            stateChange.current === "failed" &&
+            !this.shouldOutputJson(flags)
+          ) {
+            this.log(
+              `${chalk.red("✗")} Failed to attach to channel ${chalk.cyan(channel.name)}: ${stateChange.reason?.message || "Unknown error"}`,
+            );
+          }
+        });
+
+        channel.subscribe((message: Ably.Message) => {
+          if (!this.passesMessageFilter(messageFields(message))) return;
+
+          const entry = toRecordedMessage(channel.name, message);
+          stream.write(serializeRecordedMessage(entry));
+          recorded++;
+
+          const timestamp = new Date(
+            entry.timestamp ?? entry.receivedAt,
+          ).toISOString();
+          this.logCliEvent(
+            flags,
+            "record",
+            "messageRecorded",
+            `Recorded message on channel ${channel.name}`,
+            { channel: channel.name, id: entry.id, name: entry.name },
+          );
+
+          if (this.shouldOutputJson(flags)) {
+            this.log(
+              this.formatJsonOutput(
+                {
+                  channel: channel.name,
+                  event: entry.name || "(none)",
+                  id: entry.id,
+                  recorded,
+                  timestamp,
+                },
+                flags,
+              ),
+            );
+          } else {
+            this.log(
+              `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`Channel: ${channel.name}`)} | ${chalk.yellow(`Event: ${entry.name || "(none)"}`)} ${chalk.dim(`(${recorded} recorded)`)}`,
+            );
+          }
+
+          this.checkStopConditions(flags, entry);
+        });
+      }
+
+      if (!this.shouldOutputJson(flags)) {
+        this.log(
+          `Writing messages to ${chalk.cyan(outputPath)}. Press Ctrl+C to stop recording.`,
+        );
+      }
+
+      // Keep recording until interrupted
+      await new Promise<void>((resolve) => {
+        const cleanup = () => {
+          for (const channel of channels) {
+            channel.unsubscribe();
+          }
+
+          stream.end(() => {
+            this.logCliEvent(
+              flags,
+              "record",
+              "recordingComplete",
+              `Recorded ${recorded} message(s) to ${outputPath}`,
+              { file: outputPath, messages: recorded },
+            );
+            if (this.shouldOutputJson(flags)) {
+              this.log(
+                this.formatJsonOutput(
+                  {
+                    channels: channelNames,
+                    file: outputPath,
+                    messages: recorded,
+                    success: true,
+                    timestamp: new Date().toISOString(),
+                  },
+                  flags,
+                ),
+              );
+            } else {
+              this.log(
+                `\n${chalk.green("✓")} Recorded ${recorded} message(s) to ${outputPath}`,
+              );
+            }
+
+            client.close();
+            resolve();
+          });
+        };
+
+        this.setupStopConditions(flags, cleanup);
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.logCliEvent(
+        flags,
+        "record",
+        "fatalError",
+        `Error during recording: ${errorMsg}`,
+        { channels: patterns, error: errorMsg },
+      );
+      this.fail(error, "Error during recording");
+    }
+  }
+
+  /**
+   * Resolve wildcard patterns against the channels that are active right
+   * now. Channels that become active after recording starts are not picked up.
+   */
+  private async expandChannelNames(
+    patterns: string[],
+    flags: BaseFlags,
+  ): Promise<string[]> {
+    const names = new Set<string>();
+
+    for (const pattern of patterns) {
+      if (!pattern.includes("*")) {
+        names.add(pattern);
+        continue;
+      }
+
+      const rest = this.createAblyRestClient(flags);
+      const prefix = pattern.slice(0, pattern.indexOf("*"));
+      const response = await rest.request<ChannelItem>(
+        "get",
+        "/channels",
+        2,
+        prefix ? { prefix } : {},
+        null,
+      );
+
+      if (response.statusCode !== 200) {
+        throw new Error(
+          `Failed to list active channels matching "${pattern}": ${response.statusCode}`,
+        );
+      }
+
+      let page: Ably.PaginatedResult<ChannelItem> | null = response;
+      while (page) {
+        for (const item of page.items || []) {
+          if (matchesChannelPattern(item.channelId, pattern)) {
+            names.add(item.channelId);
+          }
+        }
+
+        page = page.hasNext() ? await page.next() : null;
+      }
+    }
+
+    return [...names];
+  }
+
+  private getChannelOptions(
+    flags: Record<string, unknown>,
+  ): Ably.ChannelOptions {
+    const channelOptions: Ably.ChannelOptions = {};
+
+    if (flags["cipher-key"]) {
+      channelOptions.cipher = {
+        algorithm: flags["cipher-algorithm"] as string,
+        key: flags["cipher-key"] as string,
+        keyLength: flags["cipher-key-length"] as number,
+        mode: flags["cipher-mode"] as string,
+      };
+    }
+
+    if (flags.delta) {
+      channelOptions.params = { ...channelOptions.params, delta: "vcdiff" };
+    }
+
+    if ((flags.rewind as number) > 0) {
+      channelOptions.params = {
+        ...channelOptions.params,
+        rewind: String(flags.rewind),
+      };
+    }
+
+    return channelOptions;
+  }
+}
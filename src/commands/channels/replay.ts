@@ -0,0 +1,232 @@
+import { Args, Flags } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+
+import { AblyBaseCommand } from "../../base-command.js";
+import {
+  getReplayOffset,
+  loadRecording,
+  mapChannelName,
+  parseChannelMappings,
+  toPublishMessage,
+} from "../../services/channel-recording.js";
+
+export default class ChannelsReplay extends AblyBaseCommand {
+  static override args = {
+    file: Args.string({
+      description: 'NDJSON file written by "ably channels record"',
+      required: true,
+    }),
+  };
+
+  static override description =
+    "Replay messages from a recording, preserving their original timing";
+
+  static override examples = [
+    "$ ably channels replay traffic.ndjson",
+    "$ ably channels replay traffic.ndjson --speed 10",
+    "$ ably channels replay traffic.ndjson --fast",
+    "$ ably channels replay traffic.ndjson --channel scratch",
+    '$ ably channels replay traffic.ndjson --channel-map "orders:*=scratch:orders:*"',
+    "$ ably channels replay traffic.ndjson --json",
+  ];
+
+  static override flags = {
+    ...AblyBaseCommand.globalFlags,
+    channel: Flags.string({
+      description: "Publish every recorded message to this channel",
+      exclusive: ["channel-map"],
+    }),
+    "channel-map": Flags.string({
+      description:
+        "Rename channels when replaying, as original=replacement. A trailing * maps a prefix. Can be repeated",
+      exclusive: ["channel"],
+      multiple: true,
+    }),
+    fast: Flags.boolean({
+      default: false,
+      description:
+        "Publish messages as fast as possible, ignoring recorded timing",
+      exclusive: ["speed"],
+    }),
+    "preserve-client-id": Flags.boolean({
+      default: false,
+      description:
+        "Publish messages with their recorded clientId (requires a wildcard clientId)",
+    }),
+    speed: Flags.string({
+      default: "1",
+      description:
+        "Playback speed multiplier, e.g. 2 for twice as fast or 0.5 for half speed",
+      exclusive: ["fast"],
+    }),
+  };
+
+  private client: Ably.Realtime | null = null;
+
+  // Override finally to ensure resources are cleaned up
+  async finally(err: Error | undefined): Promise<void> {
+    if (
+      this.client &&
+      this.client.connection.state !== "closed" &&
+      this.client.connection.state !== "failed"
+    ) {
+      this.client.close();
+    }
+
+    return super.finally(err);
+  }
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(ChannelsReplay);
+    let failed = 0;
+
+    try {
+      const speed = Number(flags.speed);
+      if (!Number.isFinite(speed) || speed <= 0) {
+        throw new Error(
+          `Invalid --speed "${flags.speed}". Use a number greater than 0`,
+        );
+      }
+
+      const messages = loadRecording(args.file);
+      const mappings = parseChannelMappings(flags["channel-map"] ?? []);
+
+      if (messages.length === 0) {
+        throw new Error(`No messages found in ${args.file}`);
+      }
+
+      this.client = await this.createAblyClient(flags);
+      if (!this.client) return;
+
+      const { client } = this;
+      const first = messages[0];
+      const startedAt = Date.now();
+      let published = 0;
+
+      if (!this.shouldOutputJson(flags)) {
+        this.log(
+          `Replaying ${messages.length} message(s) from ${chalk.cyan(args.file)}${flags.fast ? " as fast as possible" : speed === 1 ? "" : ` at ${speed}x speed`}`,
+        );
+      }
+
+      for (const [index, recorded] of messages.entries()) {
+        if (!flags.fast) {
+          const due = startedAt + getReplayOffset(recorded, first, speed);
+          const wait = due - Date.now();
+          if (wait > 0) {
+            await new Promise((resolve) => setTimeout(resolve, wait));
+          }
+        }
+
+        const channelName =
+          flags.channel ?? mapChannelName(recorded.channel, mappings);
+        const progress = `[${index + 1}/${messages.length}]`;
+
+        try {
+          await client.channels.get(channelName).publish(
+            toPublishMessage(recorded, {
+              preserveClientId: flags["preserve-client-id"],
+            }),
+          );
+          published++;
+
+          this.logCliEvent(
+            flags,
+            "replay",
+            "messagePublished",
+            `Replayed message to channel ${channelName}`,
+            { channel: channelName, id: recorded.id, name: recorded.name },
+          );
+          if (this.shouldOutputJson(flags)) {
+            this.log(
+              this.formatJsonOutput(
+                {
+                  channel: channelName,
+                  event: recorded.name || "(none)",
+                  index: index + 1,
+                  originalChannel: recorded.channel,
+                  originalId: recorded.id,
+                  success: true,
+                },
+                flags,
+              ),
+            );
+          } else {
+            this.log(
+              `${chalk.gray(progress)} ${chalk.cyan(`Channel: ${channelName}`)} | ${chalk.yellow(`Event: ${recorded.name || "(none)"}`)}`,
+            );
+          }
+        } catch (error) {
+          failed++;
+          const errorMsg =
+            error instanceof Error ? error.message : String(error);
+          this.logCliEvent(
+            flags,
+            "replay",
+            "publishError",
+            `Failed to replay message to ${channelName}: ${errorMsg}`,
+            { channel: channelName, error: errorMsg, id: recorded.id },
+          );
+          if (this.shouldOutputJson(flags)) {
+            this.log(
+              this.formatJsonOutput(
+                {
+                  channel: channelName,
+                  error: errorMsg,
+                  index: index + 1,
+                  originalId: recorded.id,
+                  success: false,
+                },
+                flags,
+              ),
+            );
+          } else {
+            this.log(
+              `${chalk.gray(progress)} ${chalk.red("✗")} Failed to publish to ${chalk.cyan(channelName)}: ${errorMsg}`,
+            );
+          }
+        }
+      }
+
+      const summary = {
+        durationMs: Date.now() - startedAt,
+        failed,
+        file: args.file,
+        published,
+        success: failed === 0,
+        timestamp: new Date().toISOString(),
+        total: messages.length,
+      };
+      this.logCliEvent(
+        flags,
+        "replay",
+        "replayComplete",
+        `Replayed ${published}/${messages.length} message(s)`,
+        summary,
+      );
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(this.formatJsonOutput(summary, flags));
+      } else {
+        this.log(
+          `${failed === 0 ? chalk.green("✓") : chalk.yellow("!")} Replayed ${published}/${messages.length} message(s)${failed > 0 ? ` (${chalk.red(failed)} failed)` : ""} in ${(summary.durationMs / 1000).toFixed(1)}s`,
+        );
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.logCliEvent(
+        flags,
+        "replay",
+        "fatalError",
+        `Error replaying recording: ${errorMsg}`,
+        { error: errorMsg, file: args.file },
+      );
+      this.fail(error, "Error replaying recording");
+    }
+
+    if (failed > 0) {
+      this.exit(1);
+    }
+  }
+}
@@ -3,6 +3,12 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../base-command.js";
+import {
+  filterFlags,
+  messageFields,
+  toServerFilter,
+} from "../../services/message-filter.js";
+import { stopConditionFlags } from "../../services/stop-conditions.js";
 import { formatJson, isJsonData } from "../../utils/json-formatter.js";
 
 export default class ChannelsSubscribe extends AblyBaseCommand {
@@ -27,10 +33,16 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
     "$ ably channels subscribe --cipher-key YOUR_CIPHER_KEY my-channel",
     "$ ably channels subscribe my-channel --json",
     "$ ably channels subscribe my-channel --pretty-json",
+    "$ ably channels subscribe my-channel --max-messages 10",
+    '$ ably channels subscribe my-channel --until "event=done" --duration 5',
+    "$ ably channels subscribe my-channel --filter 'name == \"order\" && data.total > 100'",
+    "$ ably channels subscribe my-channel --filter 'headers.region == \"eu\"' --server-filter",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
     "cipher-algorithm": Flags.string({
       default: "aes",
       description: "Encryption algorithm to use",
@@ -54,6 +66,12 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
       default: 0,
       description: "Number of messages to rewind when subscribing",
     }),
+    "server-filter": Flags.boolean({
+      default: false,
+      dependsOn: ["filter"],
+      description:
+        "Also apply --filter as an Ably subscription filter, so non-matching messages are never delivered. The expression may only use name and headers",
+    }),
   };
 
   static override strict = false;
@@ -80,6 +98,17 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
     // Get all channel names from argv
     const channelNames = _args.argv as string[];
 
+    const filter = this.setupMessageFilter(flags);
+    let serverFilter: string | undefined;
+    if (filter && flags["server-filter"]) {
+      serverFilter = toServerFilter(filter);
+      if (serverFilter === undefined) {
+        this.error(
+          "--server-filter can only be used with expressions on name and headers (extras.headers), without =~",
+        );
+      }
+    }
+
     try {
       // Create the Ably client
       this.client = await this.createAblyClient(flags);
@@ -92,15 +121,7 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
         this.logCliEvent(flags, "subscribe", "validationError", errorMsg, {
           error: errorMsg,
         });
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput({ error: errorMsg, success: false }, flags),
-          );
-        } else {
-          this.error(errorMsg);
-        }
-
-        return;
+        this.error(errorMsg);
       }
 
       // Setup channels with appropriate options
@@ -154,6 +175,21 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
           );
         }
 
+        if (serverFilter !== undefined) {
+          this.logCliEvent(
+            flags,
+            "subscribe",
+            "serverFilterEnabled",
+            `Subscription filter enabled for channel ${channelName}`,
+            { channel: channelName, filter: serverFilter },
+          );
+          return client!.channels.getDerived(
+            channelName,
+            { filter: serverFilter },
+            channelOptions,
+          );
+        }
+
         return client!.channels.get(channelName, channelOptions);
       });
 
@@ -193,17 +229,19 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
       });
 
       // Subscribe to messages on all channels
-      for (const channel of channels) {
+      for (const [index, channel] of channels.entries()) {
+        // With --server-filter the channel's name includes the filter
+        const channelName = channelNames[index];
         this.logCliEvent(
           flags,
           "subscribe",
           "subscribing",
-          `Subscribing to channel: ${channel.name}`,
-          { channel: channel.name },
+          `Subscribing to channel: ${channelName}`,
+          { channel: channelName },
         );
         if (!this.shouldOutputJson(flags)) {
           this.log(
-            `${chalk.green("Subscribing to channel:")} ${chalk.cyan(channel.name)}`,
+            `${chalk.green("Subscribing to channel:")} ${chalk.cyan(channelName)}`,
           );
         }
 
@@ -213,14 +251,14 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
             flags,
             "channel",
             stateChange.current,
-            `Channel '${channel.name}' state changed to ${stateChange.current}`,
-            { channel: channel.name, reason: stateChange.reason },
+            `Channel '${channelName}' state changed to ${stateChange.current}`,
+            { channel: channelName, reason: stateChange.reason },
           );
           if (!this.shouldOutputJson(flags)) {
             switch (stateChange.current) {
               case "attached": {
                 this.log(
-                  `${chalk.green("✓")} Successfully attached to channel: ${chalk.cyan(channel.name)}`,
+                  `${chalk.green("✓")} Successfully attached to channel: ${chalk.cyan(channelName)}`,
                 );
 
                 break;
@@ -228,7 +266,7 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
 
               case "failed": {
                 this.log(
-                  `${chalk.red("✗")} Failed to attach to channel ${chalk.cyan(channel.name)}: ${stateChange.reason?.message || "Unknown error"}`,
+                  `${chalk.red("✗")} Failed to attach to channel ${chalk.cyan(channelName)}: ${stateChange.reason?.message || "Unknown error"}`,
                 );
 
                 break;
@@ -236,7 +274,7 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
 
               case "detached": {
                 this.log(
-                  `${chalk.yellow("!")} Detached from channel: ${chalk.cyan(channel.name)} ${stateChange.reason ? `(Reason: ${stateChange.reason.message})` : ""}`,
+                  `${chalk.yellow("!")} Detached from channel: ${chalk.cyan(channelName)} ${stateChange.reason ? `(Reason: ${stateChange.reason.message})` : ""}`,
                 );
 
                 break;
@@ -247,11 +285,13 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
         });
 
         channel.subscribe((message: Ably.Message) => {
+          if (!this.passesMessageFilter(messageFields(message))) return;
+
           const timestamp = message.timestamp
             ? new Date(message.timestamp).toISOString()
             : new Date().toISOString();
           const messageEvent = {
-            channel: channel.name,
+            channel: channelName,
             clientId: message.clientId,
             connectionId: message.connectionId,
             data: message.data,
@@ -264,7 +304,7 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
             flags,
             "subscribe",
             "messageReceived",
-            `Received message on channel ${channel.name}`,
+            `Received message on channel ${channelName}`,
             messageEvent,
           );
 
@@ -275,7 +315,7 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
 
             // Message header with timestamp and channel info
             this.log(
-              `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`Channel: ${channel.name}`)} | ${chalk.yellow(`Event: ${name}`)}`,
+              `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`Channel: ${channelName}`)} | ${chalk.yellow(`Event: ${name}`)}`,
             );
 
             // Message data with consistent formatting
@@ -288,6 +328,8 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
 
             this.log(""); // Empty line for better readability
           }
+
+          this.checkStopConditions(flags, messageEvent);
         });
       }
 
@@ -377,8 +419,7 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
           }
         };
 
-        process.on("SIGINT", cleanup);
-        process.on("SIGTERM", cleanup);
+        this.setupStopConditions(flags, cleanup);
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -389,16 +430,7 @@ export default class ChannelsSubscribe extends AblyBaseCommand {
         `Error during subscription: ${errorMsg}`,
         { channels: channelNames, error: errorMsg },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { channels: channelNames, error: errorMsg, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Error: ${errorMsg}`);
-      }
+      this.fail(error);
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (this.client && this.client.connection.state !== "closed") {
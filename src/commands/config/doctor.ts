@@ -0,0 +1,80 @@
+import { Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { AblyBaseCommand } from "../../base-command.js";
+import { DoctorReport, diagnoseConfig } from "../../services/config-doctor.js";
+
+export default class ConfigDoctor extends AblyBaseCommand {
+  static override description =
+    "Check the Ably config file for problems, and optionally repair them";
+
+  static override examples = [
+    "$ ably config doctor",
+    "$ ably config doctor --fix",
+    "$ ably config doctor --json",
+  ];
+
+  static override flags = {
+    ...AblyBaseCommand.globalFlags,
+    fix: Flags.boolean({
+      default: false,
+      description:
+        "Repair the problems found. A copy of the config is kept before anything is removed from it",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(ConfigDoctor);
+
+    let report: DoctorReport | undefined;
+    try {
+      report = diagnoseConfig(this.configManager.getConfigPath(), {
+        fix: flags.fix,
+      });
+    } catch (error) {
+      this.fail(error, "Error checking config");
+    }
+
+    const remaining = report.findings.filter((finding) => !finding.fixed);
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(
+        this.formatJsonOutput(
+          {
+            ...report,
+            success: remaining.length === 0,
+            timestamp: new Date().toISOString(),
+          },
+          flags,
+        ),
+      );
+    } else if (report.findings.length === 0) {
+      this.log(
+        `${chalk.green("✓")} No problems found in ${chalk.cyan(report.configPath)}`,
+      );
+    } else {
+      this.log(`Checked ${chalk.cyan(report.configPath)}:`);
+      for (const finding of report.findings) {
+        const symbol = finding.fixed ? chalk.green("✓") : chalk.red("✗");
+        const status = finding.fixed ? chalk.green(" (fixed)") : "";
+        this.log(
+          `${symbol} ${chalk.dim(`[${finding.check}]`)} ${finding.message}${status}`,
+        );
+      }
+
+      for (const preservedPath of report.preserved) {
+        this.log(
+          `The previous config was kept at ${chalk.cyan(preservedPath)}`,
+        );
+      }
+
+      if (remaining.length > 0 && !flags.fix) {
+        this.log(`\nRun ${chalk.cyan("ably config doctor --fix")} to repair.`);
+      }
+    }
+
+    if (remaining.length > 0) {
+      this.exit(1);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Command } from "@oclif/core";
+
+export default class ConfigSecrets extends Command {
+  static override description =
+    "Manage where access tokens and API keys are stored";
+
+  static override examples = [
+    "$ ably config secrets migrate --to encrypted-file",
+    '$ ably config secrets migrate --to helper --helper "ably-keychain-helper"',
+  ];
+
+  async run() {
+    this.log("Secret storage commands:");
+    this.log("");
+    this.log(
+      "  ably config secrets migrate    - Move access tokens and API keys to another secret store",
+    );
+    this.log("");
+    this.log(
+      "Run `ably config secrets COMMAND --help` for more information on a command.",
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { AblyBaseCommand } from "../../../base-command.js";
+import { SecretsMigrationResult } from "../../../services/config-manager.js";
+import {
+  SECRETS_PASSPHRASE_ENV,
+  SECRET_STORE_BACKENDS,
+  SecretStoreBackend,
+} from "../../../services/secret-store.js";
+
+export default class ConfigSecretsMigrate extends AblyBaseCommand {
+  static override description =
+    "Move stored access tokens and API keys to another secret store, removing them from the old one";
+
+  static override examples = [
+    "$ ably config secrets migrate --to encrypted-file",
+    `$ ${SECRETS_PASSPHRASE_ENV}=... ably config secrets migrate --to encrypted-file`,
+    '$ ably config secrets migrate --to helper --helper "ably-keychain-helper"',
+    "$ ably config secrets migrate --to config",
+  ];
+
+  static override flags = {
+    ...AblyBaseCommand.globalFlags,
+    helper: Flags.string({
+      description:
+        "Command for the helper backend. It is run as `<helper> get|store|erase` with key=NAME (and value=SECRET) on stdin, and prints value=SECRET for get",
+    }),
+    to: Flags.string({
+      description:
+        "Backend to move secrets to: the config file (plaintext), an encrypted file, or an external helper",
+      options: SECRET_STORE_BACKENDS,
+      required: true,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(ConfigSecretsMigrate);
+    const backend = flags.to as SecretStoreBackend;
+
+    if (backend === "helper" && !flags.helper) {
+      this.error("--helper is required when migrating to the helper backend");
+    }
+
+    let passphrase: string | undefined;
+    if (backend === "encrypted-file" && !process.env[SECRETS_PASSPHRASE_ENV]) {
+      if (!process.stdin.isTTY) {
+        this.error(
+          `Set ${SECRETS_PASSPHRASE_ENV} to the passphrase to encrypt secrets with`,
+        );
+      }
+
+      passphrase = await this.interactiveHelper.promptForPassphrase(
+        "Choose a passphrase to encrypt your Ably secrets:",
+      );
+      const confirmation = await this.interactiveHelper.promptForPassphrase(
+        "Confirm the passphrase:",
+      );
+      if (passphrase !== confirmation) {
+        this.error("The passphrases do not match");
+      }
+    }
+
+    let result: SecretsMigrationResult | undefined;
+    try {
+      result = this.configManager.migrateSecrets(
+        { backend, helper: backend === "helper" ? flags.helper : undefined },
+        { passphrase },
+      );
+    } catch (error) {
+      this.fail(error, "Error migrating secrets");
+    }
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(
+        this.formatJsonOutput(
+          { ...result, success: true, timestamp: new Date().toISOString() },
+          flags,
+        ),
+      );
+      return;
+    }
+
+    this.log(
+      `Moved ${result.migrated} secret${result.migrated === 1 ? "" : "s"} from ${chalk.cyan(result.from)} to ${chalk.cyan(result.to)}.`,
+    );
+    if (result.to === "encrypted-file") {
+      this.log(
+        `Set ${chalk.cyan(SECRETS_PASSPHRASE_ENV)} to use the CLI non-interactively, otherwise you will be prompted for the passphrase.`,
+      );
+    } else if (result.to === "config") {
+      this.warn("Secrets are now stored in plaintext in the config file");
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { AblyBaseCommand } from "../../base-command.js";
+
+export default class ConfigTrust extends AblyBaseCommand {
+  static override description =
+    "Trust the project's .ably.toml to set the host and environment that credentials are sent to";
+
+  static override examples = [
+    "$ ably config trust",
+    "$ ably config trust --remove",
+  ];
+
+  static override flags = {
+    ...AblyBaseCommand.globalFlags,
+    remove: Flags.boolean({
+      default: false,
+      description:
+        "Stop trusting the project, so its host and environment are ignored again",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(ConfigTrust);
+
+    let projectDir: string | undefined;
+    try {
+      projectDir = this.configManager.setProjectTrusted(!flags.remove);
+    } catch (error) {
+      this.fail(error, "Error updating trusted projects");
+    }
+
+    const endpoints = {
+      environment: this.configManager.getPinnedSetting("environment")?.value,
+      host: this.configManager.getPinnedSetting("host")?.value,
+    };
+
+    if (this.shouldOutputJson(flags)) {
+      this.log(
+        this.formatJsonOutput(
+          {
+            ...endpoints,
+            projectDir,
+            success: true,
+            timestamp: new Date().toISOString(),
+            trusted: !flags.remove,
+          },
+          flags,
+        ),
+      );
+      return;
+    }
+
+    if (flags.remove) {
+      this.log(
+        `${chalk.cyan(projectDir)} is no longer trusted. Its host and environment settings will be ignored.`,
+      );
+      return;
+    }
+
+    this.log(`Trusted ${chalk.cyan(projectDir)}.`);
+    if (endpoints.host) {
+      this.log(
+        `Credentials will be sent to host ${chalk.cyan(endpoints.host)}`,
+      );
+    }
+
+    if (endpoints.environment) {
+      this.log(
+        `Credentials will be sent to environment ${chalk.cyan(endpoints.environment)}`,
+      );
+    }
+  }
+}
@@ -289,7 +289,7 @@ export default class ConnectionsStats extends AblyBaseCommand {
         `Failed to fetch one-time stats: ${errorMsg}`,
         { error: errorMsg },
       );
-      this.error(`Failed to fetch stats: ${errorMsg}`);
+      this.fail(error, "Failed to fetch stats");
     }
   }
 
@@ -383,7 +383,7 @@ export default class ConnectionsStats extends AblyBaseCommand {
         `Failed to fetch stats: ${errorMsg}`,
         { error: errorMsg },
       );
-      this.error(`Failed to fetch stats: ${errorMsg}`);
+      this.fail(error, "Failed to fetch stats");
     }
   }
 
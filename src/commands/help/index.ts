@@ -25,7 +25,7 @@ export default class HelpCommand extends Command {
   constructor(argv: string[], config: Config) {
     super(argv, config);
     this.webCliMode = process.env.ABLY_WEB_CLI_MODE === "true";
-    this.configManager = new ConfigManager();
+    this.configManager = new ConfigManager({ tolerateLoadErrors: true });
   }
 
   async run(): Promise<void> {
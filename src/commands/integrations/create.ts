@@ -2,18 +2,11 @@ import { Flags } from "@oclif/core";
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
-
-// Interface for basic rule data structure
-interface RuleData {
-  requestMode: string;
-  ruleType: string;
-  source: {
-    channelFilter: string;
-    type: string;
-  };
-  status: "disabled" | "enabled";
-  target: Record<string, unknown>; // Target is highly variable
-}
+import {
+  INTEGRATION_RULE_TYPES,
+  INTEGRATION_SOURCE_TYPES,
+  integrationRuleData,
+} from "../../services/control-records.js";
 
 export default class IntegrationsCreateCommand extends ControlBaseCommand {
   static description = "Create an integration rule";
@@ -41,28 +34,12 @@ export default class IntegrationsCreateCommand extends ControlBaseCommand {
     }),
     "rule-type": Flags.string({
       description: "Type of integration rule (http, amqp, etc.)",
-      options: [
-        "http",
-        "amqp",
-        "kinesis",
-        "firehose",
-        "pulsar",
-        "kafka",
-        "azure",
-        "azure-functions",
-        "mqtt",
-        "cloudmqtt",
-      ],
+      options: [...INTEGRATION_RULE_TYPES],
       required: true,
     }),
     "source-type": Flags.string({
       description: "The event source type",
-      options: [
-        "channel.message",
-        "channel.presence",
-        "channel.lifecycle",
-        "presence.message",
-      ],
+      options: [...INTEGRATION_SOURCE_TYPES],
       required: true,
     }),
     status: Flags.string({
@@ -93,58 +70,26 @@ export default class IntegrationsCreateCommand extends ControlBaseCommand {
         return;
       }
 
-      // Prepare rule data
-      const ruleData: RuleData = {
-        requestMode: flags["request-mode"] as string,
-        ruleType: flags["rule-type"] as string,
-        source: {
-          channelFilter: flags["channel-filter"] || "",
-          type: flags["source-type"],
-        },
-        status: flags.status === "enabled" ? "enabled" : "disabled",
-        target: {},
-      };
-
-      // Add target data based on rule type
-      switch (flags["rule-type"]) {
-        case "http": {
-          if (!flags["target-url"]) {
-            this.error("--target-url is required for HTTP integration rules");
-            return;
-          }
-
-          ruleData.target = {
-            enveloped: true,
-            format: "json",
-            url: flags["target-url"],
-          };
-          break;
-        }
-
-        case "amqp": {
-          // Simplified AMQP config for demo purposes
-          ruleData.target = {
-            enveloped: true,
-            exchangeName: "ably",
-            format: "json",
-            headers: {},
-            immediate: false,
-            mandatory: true,
-            persistent: true,
-            queueType: "classic",
-            routingKey: "events",
-          };
-          break;
-        }
+      if (flags["rule-type"] === "http" && !flags["target-url"]) {
+        this.error("--target-url is required for HTTP integration rules");
+        return;
+      }
 
-        default: {
-          this.log(
-            `Note: Using default target for ${flags["rule-type"]}. In a real implementation, more target options would be required.`,
-          );
-          ruleData.target = { enveloped: true, format: "json" };
-        }
+      if (flags["rule-type"] !== "http" && flags["rule-type"] !== "amqp") {
+        this.log(
+          `Note: Using default target for ${flags["rule-type"]}. In a real implementation, more target options would be required.`,
+        );
       }
 
+      const ruleData = integrationRuleData({
+        channelFilter: flags["channel-filter"],
+        requestMode: flags["request-mode"] as string,
+        ruleType: flags["rule-type"],
+        sourceType: flags["source-type"],
+        status: flags.status === "enabled" ? "enabled" : "disabled",
+        targetUrl: flags["target-url"],
+      });
+
       const createdRule = await controlApi.createRule(appId, ruleData);
 
       if (this.shouldOutputJson(flags)) {
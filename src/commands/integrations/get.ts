@@ -2,6 +2,7 @@ import { Args, Flags } from "@oclif/core";
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 
 export default class IntegrationsGetCommand extends ControlBaseCommand {
   static args = {
@@ -17,10 +18,12 @@ export default class IntegrationsGetCommand extends ControlBaseCommand {
     "$ ably integrations get rule123",
     "$ ably integrations get rule123 --json",
     '$ ably integrations get rule123 --app "My App" --pretty-json',
+    "$ ably integrations get rule123 --format yaml",
   ];
 
   static flags = {
     ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
 
     app: Flags.string({
       description: "App ID or name to get the integration rule from",
@@ -49,13 +52,22 @@ export default class IntegrationsGetCommand extends ControlBaseCommand {
 
       const rule = await controlApi.getRule(appId, args.ruleId);
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            structuredClone(rule) as unknown as Record<string, unknown>,
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: [
+            "id",
+            "appId",
+            "ruleType",
+            "requestMode",
+            "source.type",
+            "source.channelFilter",
+            "target",
+            "version",
+          ],
+          key: "rule",
+          meta: { success: true },
+          records: rule,
+        });
       } else {
         this.log(chalk.green("Integration Rule Details:"));
         this.log(`ID: ${rule.id}`);
@@ -2,6 +2,8 @@ import { Flags } from "@oclif/core";
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
+import { integrationRecord } from "../../services/control-records.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 
 export default class IntegrationsListCommand extends ControlBaseCommand {
   static description = "List all integration rules";
@@ -10,10 +12,12 @@ export default class IntegrationsListCommand extends ControlBaseCommand {
     "$ ably integrations list",
     '$ ably integrations list --app "My App" --json',
     '$ ably integrations list --app "My App" --pretty-json',
+    "$ ably integrations list --format csv",
   ];
 
   static flags = {
     ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
 
     app: Flags.string({
       description: "App ID or name to list integration rules for",
@@ -35,55 +39,31 @@ export default class IntegrationsListCommand extends ControlBaseCommand {
       appId = await this.resolveAppId(flags);
 
       if (!appId) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error:
-                  'No app specified. Use --app flag or select an app with "ably apps switch"',
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(
-            'No app specified. Use --app flag or select an app with "ably apps switch"',
-          );
-        }
-
-        return;
+        this.error(
+          'No app specified. Use --app flag or select an app with "ably apps switch"',
+        );
       }
 
       const rules = await controlApi.listRules(appId);
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              rules: rules.map((rule) => ({
-                appId: rule.appId,
-                created: new Date(rule.created).toISOString(),
-                id: rule.id,
-                modified: new Date(rule.modified).toISOString(),
-                requestMode: rule.requestMode,
-                source: {
-                  channelFilter: rule.source.channelFilter || null,
-                  type: rule.source.type,
-                },
-                target: rule.target,
-                type: rule.ruleType,
-                version: rule.version,
-              })),
-              success: true,
-              timestamp: new Date().toISOString(),
-              total: rules.length,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: [
+            "id",
+            "type",
+            "requestMode",
+            "source.type",
+            "source.channelFilter",
+          ],
+          key: "rules",
+          meta: {
+            appId,
+            success: true,
+            timestamp: new Date().toISOString(),
+            total: rules.length,
+          },
+          records: rules.map((rule) => integrationRecord(rule)),
+        });
       } else {
         if (rules.length === 0) {
           this.log("No integration rules found");
@@ -111,23 +91,7 @@ export default class IntegrationsListCommand extends ControlBaseCommand {
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error listing integration rules: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error listing integration rules");
     }
   }
 }
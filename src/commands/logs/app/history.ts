@@ -3,6 +3,13 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  MESSAGE_COLUMNS,
+  collectPages,
+  historyExportFlags,
+  isExportRequested,
+  messageToRecord,
+} from "../../../services/history-export.js";
 import { formatJson, isJsonData } from "../../../utils/json-formatter.js";
 
 export default class LogsAppHistory extends AblyBaseCommand {
@@ -14,10 +21,13 @@ export default class LogsAppHistory extends AblyBaseCommand {
     "$ ably logs app history --direction forwards",
     "$ ably logs app history --json",
     "$ ably logs app history --pretty-json",
+    "$ ably logs app history --all --output app-logs.ndjson",
+    "$ ably logs app history --all --max 5000 --output app-logs.csv",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...historyExportFlags,
     direction: Flags.string({
       default: "backwards",
       description: "Direction of log retrieval",
@@ -25,7 +35,8 @@ export default class LogsAppHistory extends AblyBaseCommand {
     }),
     limit: Flags.integer({
       default: 100,
-      description: "Maximum number of logs to retrieve",
+      description:
+        "Maximum number of logs to retrieve (the page size when using --all)",
     }),
   };
 
@@ -55,7 +66,20 @@ export default class LogsAppHistory extends AblyBaseCommand {
 
       // Get history
       const history = await channel.history(historyParams);
-      const messages = history.items;
+
+      if (isExportRequested(flags)) {
+        await this.exportHistory(flags, history, {
+          columns: MESSAGE_COLUMNS,
+          label: "logs",
+          toRecord: messageToRecord,
+        });
+        return;
+      }
+
+      const { items: messages, truncated } = await collectPages(
+        history,
+        this.getPaginationOptions(flags, "logs"),
+      );
 
       // Output results based on format
       if (this.shouldOutputJson(flags)) {
@@ -115,30 +139,18 @@ export default class LogsAppHistory extends AblyBaseCommand {
           this.log("");
         }
 
-        if (messages.length === flags.limit) {
+        if (truncated) {
           this.log(
             chalk.yellow(
-              `Showing maximum of ${flags.limit} logs. Use --limit to show more.`,
+              flags.all
+                ? `Stopped after ${messages.length} logs. Increase --max to show more.`
+                : `Showing maximum of ${flags.limit} logs. Use --limit or --all to show more.`,
             ),
           );
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error retrieving application logs: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error retrieving application logs");
     }
   }
 
@@ -3,6 +3,11 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  filterFlags,
+  messageFields,
+} from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 import { formatJson, isJsonData } from "../../../utils/json-formatter.js";
 
 export default class LogsAppSubscribe extends AblyBaseCommand {
@@ -14,10 +19,14 @@ export default class LogsAppSubscribe extends AblyBaseCommand {
     "$ ably logs app subscribe --rewind 10",
     "$ ably logs app subscribe --json",
     "$ ably logs app subscribe --pretty-json",
+    "$ ably logs app subscribe --duration 60",
+    "$ ably logs app subscribe --filter 'data.severity == \"error\"'",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
     rewind: Flags.integer({
       default: 0,
       description: "Number of messages to rewind when subscribing",
@@ -41,6 +50,7 @@ export default class LogsAppSubscribe extends AblyBaseCommand {
 
   async run(): Promise<void> {
     const { flags } = await this.parse(LogsAppSubscribe);
+    this.setupMessageFilter(flags);
 
     const channelName = "[meta]log";
 
@@ -105,6 +115,8 @@ export default class LogsAppSubscribe extends AblyBaseCommand {
 
       // Subscribe to the channel
       channel.subscribe((message) => {
+        if (!this.passesMessageFilter(messageFields(message))) return;
+
         const timestamp = message.timestamp
           ? new Date(message.timestamp).toISOString()
           : new Date().toISOString();
@@ -130,6 +142,7 @@ export default class LogsAppSubscribe extends AblyBaseCommand {
 
         if (this.shouldOutputJson(flags)) {
           this.log(this.formatJsonOutput(logEvent, flags));
+          this.checkStopConditions(flags, logEvent);
           return;
         }
 
@@ -185,6 +198,7 @@ export default class LogsAppSubscribe extends AblyBaseCommand {
         }
 
         this.log("");
+        this.checkStopConditions(flags, logEvent);
       });
       this.logCliEvent(
         flags,
@@ -227,17 +241,14 @@ export default class LogsAppSubscribe extends AblyBaseCommand {
         }
       };
 
-      // Handle process termination
-      process.on("SIGINT", () => {
+      // Handle process termination and --duration, --max-messages and --until
+      this.setupStopConditions(flags, () => {
         if (!this.shouldOutputJson(flags)) {
           this.log("\nSubscription ended");
         }
 
         cleanup();
       });
-      process.on("SIGTERM", () => {
-        cleanup();
-      });
 
       this.logCliEvent(flags, "logs", "listening", "Listening for logs...");
       // Wait indefinitely
@@ -251,16 +262,7 @@ export default class LogsAppSubscribe extends AblyBaseCommand {
         `Error during log subscription: ${err.message}`,
         { channel: channelName, error: err.message },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { channel: channelName, error: err.message, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(err.message);
-      }
+      this.fail(error);
     } finally {
       // Ensure client is closed
       if (this.client && this.client.connection.state !== "closed") {
@@ -3,6 +3,11 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  filterFlags,
+  messageFields,
+} from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 import { formatJson, isJsonData } from "../../../utils/json-formatter.js";
 
 export default class LogsChannelLifecycleSubscribe extends AblyBaseCommand {
@@ -12,10 +17,13 @@ export default class LogsChannelLifecycleSubscribe extends AblyBaseCommand {
   static override examples = [
     "$ ably logs channel-lifecycle subscribe",
     "$ ably logs channel-lifecycle subscribe --rewind 10",
+    "$ ably logs channel-lifecycle subscribe --filter 'data.name =~ \"^orders:\"'",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
     json: Flags.boolean({
       default: false,
       description: "Output results as JSON",
@@ -43,6 +51,7 @@ export default class LogsChannelLifecycleSubscribe extends AblyBaseCommand {
 
   async run(): Promise<void> {
     const { flags } = await this.parse(LogsChannelLifecycleSubscribe);
+    this.setupMessageFilter(flags);
 
     const channelName = "[meta]channel.lifecycle";
 
@@ -107,6 +116,8 @@ export default class LogsChannelLifecycleSubscribe extends AblyBaseCommand {
 
       // Subscribe to the channel
       channel.subscribe((message) => {
+        if (!this.passesMessageFilter(messageFields(message))) return;
+
         const timestamp = message.timestamp
           ? new Date(message.timestamp).toISOString()
           : new Date().toISOString();
@@ -127,6 +138,7 @@ export default class LogsChannelLifecycleSubscribe extends AblyBaseCommand {
 
         if (this.shouldOutputJson(flags)) {
           this.log(this.formatJsonOutput(logEvent, flags));
+          this.checkStopConditions(flags, logEvent);
           return;
         }
 
@@ -159,6 +171,7 @@ export default class LogsChannelLifecycleSubscribe extends AblyBaseCommand {
         }
 
         this.log(""); // Empty line for better readability
+        this.checkStopConditions(flags, logEvent);
       });
       this.logCliEvent(
         flags,
@@ -192,20 +205,15 @@ export default class LogsChannelLifecycleSubscribe extends AblyBaseCommand {
         }
       };
 
-      // Handle process termination
-      process.on("SIGINT", () => {
+      // Handle process termination and --duration, --max-messages and --until
+      this.setupStopConditions(flags, () => {
         if (!this.shouldOutputJson(flags)) {
           this.log("\nSubscription ended");
         }
 
         cleanup();
 
-        process.exit(0); // Reinstated: Explicit exit on signal
-      });
-      process.on("SIGTERM", () => {
-        cleanup();
-
-        process.exit(0); // Reinstated: Explicit exit on signal
+        process.exit(); // Explicit exit, keeping the exit code set for a timeout
       });
 
       this.logCliEvent(flags, "logs", "listening", "Listening for logs...");
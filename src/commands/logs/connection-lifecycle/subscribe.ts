@@ -3,6 +3,11 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  filterFlags,
+  messageFields,
+} from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 import { formatJson, isJsonData } from "../../../utils/json-formatter.js";
 
 export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
@@ -14,10 +19,13 @@ export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
     "$ ably logs connection-lifecycle subscribe --rewind 10",
     "$ ably logs connection-lifecycle subscribe --json",
     "$ ably logs connection-lifecycle subscribe --pretty-json",
+    "$ ably logs connection-lifecycle subscribe --filter 'name == \"[meta]connection.closed\"'",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
     rewind: Flags.integer({
       default: 0,
       description: "Number of messages to rewind when subscribing",
@@ -41,6 +49,7 @@ export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
 
   async run(): Promise<void> {
     const { flags } = await this.parse(LogsConnectionLifecycleSubscribe);
+    this.setupMessageFilter(flags);
 
     const channelName = "[meta]connection.lifecycle";
 
@@ -105,6 +114,8 @@ export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
 
       // Subscribe to the channel
       channel.subscribe((message) => {
+        if (!this.passesMessageFilter(messageFields(message))) return;
+
         const timestamp = message.timestamp
           ? new Date(message.timestamp).toISOString()
           : new Date().toISOString();
@@ -130,6 +141,7 @@ export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
 
         if (this.shouldOutputJson(flags)) {
           this.log(this.formatJsonOutput(logEvent, flags));
+          this.checkStopConditions(flags, logEvent);
           return;
         }
 
@@ -169,6 +181,7 @@ export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
         }
 
         this.log("");
+        this.checkStopConditions(flags, logEvent);
       });
       this.logCliEvent(
         flags,
@@ -211,20 +224,15 @@ export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
         }
       };
 
-      // Handle process termination
-      process.on("SIGINT", () => {
+      // Handle process termination and --duration, --max-messages and --until
+      this.setupStopConditions(flags, () => {
         if (!this.shouldOutputJson(flags)) {
           this.log("\nSubscription ended");
         }
 
         cleanup();
 
-        process.exit(0); // Reinstated: Explicit exit on signal
-      });
-      process.on("SIGTERM", () => {
-        cleanup();
-
-        process.exit(0); // Reinstated: Explicit exit on signal
+        process.exit(); // Explicit exit, keeping the exit code set for a timeout
       });
 
       this.logCliEvent(flags, "logs", "listening", "Listening for logs...");
@@ -239,16 +247,7 @@ export default class LogsConnectionLifecycleSubscribe extends AblyBaseCommand {
         `Error during log subscription: ${err.message}`,
         { channel: channelName, error: err.message },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { channel: channelName, error: err.message, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(err.message);
-      }
+      this.fail(error);
     } finally {
       // Ensure client is closed
       if (this.client && this.client.connection.state !== "closed") {
@@ -3,6 +3,11 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  filterFlags,
+  messageFields,
+} from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 import { formatJson, isJsonData } from "../../../utils/json-formatter.js";
 
 export default class LogsConnectionSubscribe extends AblyBaseCommand {
@@ -18,6 +23,8 @@ export default class LogsConnectionSubscribe extends AblyBaseCommand {
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
     rewind: Flags.integer({
       default: 0,
       description: "Number of messages to rewind when subscribing",
@@ -26,6 +33,7 @@ export default class LogsConnectionSubscribe extends AblyBaseCommand {
 
   async run(): Promise<void> {
     const { flags } = await this.parse(LogsConnectionSubscribe);
+    this.setupMessageFilter(flags);
 
     let client: Ably.Realtime | null = null;
     const channelName = "[meta]connection";
@@ -106,28 +114,27 @@ export default class LogsConnectionSubscribe extends AblyBaseCommand {
 
       // Subscribe to the channel
       channel.subscribe((message) => {
+        if (!this.passesMessageFilter(messageFields(message))) return;
+
         const timestamp = message.timestamp
           ? new Date(message.timestamp).toISOString()
           : new Date().toISOString();
         const event = message.name || "unknown";
+        const logEvent = {
+          channel: channelName,
+          clientId: message.clientId,
+          connectionId: message.connectionId,
+          data: message.data,
+          encoding: message.encoding,
+          event,
+          id: message.id,
+          success: true,
+          timestamp,
+        };
 
         if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                channel: channelName,
-                clientId: message.clientId,
-                connectionId: message.connectionId,
-                data: message.data,
-                encoding: message.encoding,
-                event,
-                id: message.id,
-                success: true,
-                timestamp,
-              },
-              flags,
-            ),
-          );
+          this.log(this.formatJsonOutput(logEvent, flags));
+          this.checkStopConditions(flags, logEvent);
           return;
         }
 
@@ -162,6 +169,7 @@ export default class LogsConnectionSubscribe extends AblyBaseCommand {
         }
 
         this.log("");
+        this.checkStopConditions(flags, logEvent);
       });
 
       // Set up cleanup for when the process is terminated
@@ -191,8 +199,8 @@ export default class LogsConnectionSubscribe extends AblyBaseCommand {
         }
       };
 
-      // Handle process termination
-      process.on("SIGINT", () => {
+      // Handle process termination and --duration, --max-messages and --until
+      this.setupStopConditions(flags, () => {
         if (this.shouldOutputJson(flags)) {
           this.log(
             this.formatJsonOutput(
@@ -210,7 +218,7 @@ export default class LogsConnectionSubscribe extends AblyBaseCommand {
 
         cleanup();
 
-        process.exit(0); // Reinstated: Explicit exit on signal
+        process.exit(); // Explicit exit, keeping the exit code set for a timeout
       });
 
       // Wait indefinitely
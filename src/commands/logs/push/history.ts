@@ -3,6 +3,13 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "../../../base-command.js";
+import {
+  MESSAGE_COLUMNS,
+  collectPages,
+  historyExportFlags,
+  isExportRequested,
+  messageToRecord,
+} from "../../../services/history-export.js";
 import { formatJson, isJsonData } from "../../../utils/json-formatter.js";
 
 export default class LogsPushHistory extends AblyBaseCommand {
@@ -14,10 +21,13 @@ export default class LogsPushHistory extends AblyBaseCommand {
     "$ ably logs push history --direction forwards",
     "$ ably logs push history --json",
     "$ ably logs push history --pretty-json",
+    "$ ably logs push history --all --output push-logs.ndjson",
+    "$ ably logs push history --all --max 5000 --output push-logs.csv",
   ];
 
   static override flags = {
     ...AblyBaseCommand.globalFlags,
+    ...historyExportFlags,
     direction: Flags.string({
       default: "backwards",
       description: "Direction of log retrieval",
@@ -25,7 +35,8 @@ export default class LogsPushHistory extends AblyBaseCommand {
     }),
     limit: Flags.integer({
       default: 100,
-      description: "Maximum number of logs to retrieve",
+      description:
+        "Maximum number of logs to retrieve (the page size when using --all)",
     }),
   };
 
@@ -54,7 +65,20 @@ export default class LogsPushHistory extends AblyBaseCommand {
       };
 
       const historyPage = await channel.history(historyOptions);
-      const messages = historyPage.items;
+
+      if (isExportRequested(flags)) {
+        await this.exportHistory(flags, historyPage, {
+          columns: MESSAGE_COLUMNS,
+          label: "logs",
+          toRecord: messageToRecord,
+        });
+        return;
+      }
+
+      const { items: messages, truncated } = await collectPages(
+        historyPage,
+        this.getPaginationOptions(flags, "logs"),
+      );
 
       // Output results based on format
       if (this.shouldOutputJson(flags)) {
@@ -149,30 +173,18 @@ export default class LogsPushHistory extends AblyBaseCommand {
           this.log("");
         }
 
-        if (messages.length === flags.limit) {
+        if (truncated) {
           this.log(
             chalk.yellow(
-              `Showing maximum of ${flags.limit} logs. Use --limit to show more.`,
+              flags.all
+                ? `Stopped after ${messages.length} logs. Increase --max to show more.`
+                : `Showing maximum of ${flags.limit} logs. Use --limit or --all to show more.`,
             ),
           );
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error retrieving push notification logs: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error retrieving push notification logs");
     }
   }
 }
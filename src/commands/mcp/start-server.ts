@@ -1,15 +1,133 @@
+import { Flags } from "@oclif/core";
+import path from "node:path";
+
 import { AblyBaseCommand } from "../../base-command.js";
-import { AblyMcpServer } from "../../mcp/index.js";
+import { AblyMcpServer, McpHttpServer } from "../../mcp/index.js";
+import {
+  MCP_HTTP_PATH,
+  MCP_SSE_PATH,
+  McpHttpServerOptions,
+} from "../../mcp/http-server.js";
 import { ConfigManager } from "../../services/config-manager.js";
+import {
+  McpPolicy,
+  McpPolicyEnforcer,
+  applyPolicyOverrides,
+  defaultPolicy,
+  loadPolicyFile,
+} from "../../services/mcp-policy.js";
+import { parseDuration } from "../../utils/duration.js";
 
 export default class StartMcpServer extends AblyBaseCommand {
   static description =
     "Start an MCP server for AI tools to interact with Ably (currently experimental)";
 
-  static examples = ["<%= config.bin %> <%= command.id %>"];
+  static examples = [
+    "<%= config.bin %> <%= command.id %>",
+    "<%= config.bin %> <%= command.id %> --allow-mutations",
+    "<%= config.bin %> <%= command.id %> --transport http --http-port 3100 --allow-unauthenticated",
+    "<%= config.bin %> <%= command.id %> --policy mcp-policy.yaml",
+    '<%= config.bin %> <%= command.id %> --read-only --allow-channel "agents:*" --audit-log mcp-audit.jsonl',
+    "ABLY_MCP_AUTH_TOKEN=secret <%= config.bin %> <%= command.id %> --transport http --http-host 0.0.0.0 --allowed-host mcp.example.com --cors-origin https://agents.example.com",
+  ];
 
   static flags = {
     // AblyBaseCommand already defines control-host as a global flag
+    "allow-mutations": Flags.boolean({
+      default: false,
+      description:
+        "Register tools that create, update or delete Ably resources or send messages",
+      env: "ABLY_MCP_ALLOW_MUTATIONS",
+    }),
+    "allow-channel": Flags.string({
+      description:
+        'Only allow tools to use channels, rooms and spaces matching this pattern, e.g. "agents:*" (can be repeated)',
+      multiple: true,
+    }),
+    "allow-unauthenticated": Flags.boolean({
+      default: false,
+      description:
+        "Accept HTTP clients without --auth-token. Only allowed on a loopback --http-host, where any process on this machine can connect",
+    }),
+    "allowed-host": Flags.string({
+      description:
+        "Host name HTTP clients may use to reach the server, besides --http-host and loopback names (can be repeated)",
+      multiple: true,
+    }),
+    "audit-log": Flags.string({
+      description:
+        "JSON Lines file to record every tool call in (defaults to mcp-audit.jsonl in the config directory)",
+    }),
+    "auth-token": Flags.string({
+      description:
+        "Bearer token HTTP clients must send; required unless --allow-unauthenticated is set",
+      env: "ABLY_MCP_AUTH_TOKEN",
+    }),
+    "cors-origin": Flags.string({
+      description:
+        'Origin allowed to call the HTTP endpoints from a browser, or "*" for any (can be repeated)',
+      multiple: true,
+    }),
+    "deny-channel": Flags.string({
+      description:
+        "Refuse tool calls that use channels, rooms or spaces matching this pattern (can be repeated)",
+      multiple: true,
+    }),
+    "http-host": Flags.string({
+      default: "127.0.0.1",
+      description: "Address to listen on with --transport http",
+    }),
+    "http-port": Flags.integer({
+      default: 3100,
+      description: "Port to listen on with --transport http",
+      max: 65_535,
+      min: 0,
+    }),
+    "max-payload-bytes": Flags.integer({
+      description: "Refuse publishes with a larger payload than this",
+      min: 1,
+    }),
+    "max-publishes-per-minute": Flags.integer({
+      description: "Refuse publishes beyond this many per minute",
+      min: 1,
+    }),
+    "max-sessions": Flags.integer({
+      default: 100,
+      description:
+        "Most HTTP sessions open at once; clients opening more are refused",
+      min: 1,
+    }),
+    policy: Flags.string({
+      description:
+        "YAML or JSON safety policy file; the other policy flags are applied on top of it",
+      env: "ABLY_MCP_POLICY",
+    }),
+    "read-only": Flags.boolean({
+      default: false,
+      description:
+        "Refuse every tool call that publishes or changes Ably resources",
+    }),
+    "require-approval": Flags.string({
+      description:
+        'Refuse tools whose names match this pattern, e.g. "delete_*", as they need a person to approve them (can be repeated)',
+      multiple: true,
+    }),
+    "session-idle-timeout": Flags.string({
+      default: "30m",
+      description:
+        'Close HTTP sessions, and the channels they follow, after this long without a request, e.g. "90s" or "30m"',
+    }),
+    "share-credentials": Flags.boolean({
+      default: false,
+      description:
+        "Let HTTP sessions that send no Ably credentials of their own use the configured access token and API key",
+    }),
+    transport: Flags.string({
+      default: "stdio",
+      description:
+        "How clients connect: stdio for a local client that spawns the server, or http for Streamable HTTP and SSE endpoints that many clients can share",
+      options: ["stdio", "http"],
+    }),
   };
 
   async run(): Promise<void> {
@@ -20,14 +138,62 @@ export default class StartMcpServer extends AblyBaseCommand {
     const { flags } = await this.parse(StartMcpServer);
 
     // Initialize Config Manager
-    const configManager = new ConfigManager();
+    const configManager = new ConfigManager({ tolerateLoadErrors: true });
+
+    let policy: McpPolicy;
+    try {
+      policy = applyPolicyOverrides(
+        flags.policy ? loadPolicyFile(flags.policy) : defaultPolicy(),
+        {
+          allowChannels: flags["allow-channel"],
+          auditLog: flags["audit-log"] && path.resolve(flags["audit-log"]),
+          denyChannels: flags["deny-channel"],
+          maxPayloadBytes: flags["max-payload-bytes"],
+          maxPublishesPerMinute: flags["max-publishes-per-minute"],
+          readOnly: flags["read-only"],
+          requireApproval: flags["require-approval"],
+        },
+      );
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    const enforcer = new McpPolicyEnforcer(policy);
+
+    if (flags.transport === "http") {
+      const sessionIdleTimeoutMs = parseDuration(flags["session-idle-timeout"]);
+      if (sessionIdleTimeoutMs === undefined) {
+        this.error(
+          `Invalid --session-idle-timeout "${flags["session-idle-timeout"]}". Use a number of seconds or a value such as 90s, 15m or 1h`,
+        );
+      }
+
+      await this.startHttpServer({
+        allowMutations: flags["allow-mutations"],
+        allowUnauthenticated: flags["allow-unauthenticated"],
+        allowedHosts: flags["allowed-host"],
+        authToken: flags["auth-token"],
+        configManager,
+        controlHost: flags["control-host"],
+        corsOrigins: flags["cors-origin"] ?? [],
+        host: flags["http-host"],
+        maxSessions: flags["max-sessions"],
+        policy: enforcer,
+        port: flags["http-port"],
+        sessionIdleTimeoutMs,
+        shareConfiguredCredentials: flags["share-credentials"],
+      });
+      return;
+    }
 
     try {
       // Start the server, write to stderr only
       console.error("Starting Ably CLI MCP server...");
 
       const server = new AblyMcpServer(configManager, {
+        allowMutations: flags["allow-mutations"],
         controlHost: flags["control-host"],
+        policy: enforcer,
       });
       await server.start();
 
@@ -40,4 +206,38 @@ export default class StartMcpServer extends AblyBaseCommand {
       this.error("Failed to start MCP server", { exit: 1 });
     }
   }
+
+  private async startHttpServer(options: McpHttpServerOptions): Promise<void> {
+    let server: McpHttpServer;
+    let address: { address: string; port: number };
+    try {
+      server = new McpHttpServer(options);
+      address = await server.start();
+    } catch (error) {
+      this.error(
+        `Failed to start MCP server: ${error instanceof Error ? error.message : String(error)}`,
+        { exit: 1 },
+      );
+    }
+
+    const host = address.address.includes(":")
+      ? `[${address.address}]`
+      : address.address;
+    console.error(
+      `MCP server listening on http://${host}:${address.port}${MCP_HTTP_PATH} (SSE: ${MCP_SSE_PATH})`,
+    );
+    if (!options.authToken) {
+      console.error(
+        "No --auth-token set; any process on this machine can connect",
+      );
+    }
+
+    // Serve until interrupted, then close the sessions
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", () => resolve());
+      process.once("SIGTERM", () => resolve());
+    });
+    console.error("MCP server shutting down...");
+    await server.close();
+  }
 }
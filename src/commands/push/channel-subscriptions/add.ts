@@ -0,0 +1,61 @@
+import { Args, Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../../push-base-command.js";
+
+export default class PushChannelSubscriptionsAdd extends PushBaseCommand {
+  static override args = {
+    channel: Args.string({
+      description: "Channel to subscribe to push notifications on",
+      required: true,
+    }),
+  };
+
+  static override description =
+    "Subscribe a device or client to push notifications on a channel";
+
+  static override examples = [
+    "$ ably push channel-subscriptions add alerts --device my-device",
+    "$ ably push channel-subscriptions add alerts --client user-1",
+    "$ ably push channel-subscriptions add alerts --client user-1 --json",
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    client: Flags.string({
+      description: "Client ID to subscribe, covering all of its devices",
+      exactlyOne: ["client", "device"],
+    }),
+    device: Flags.string({
+      description: "ID of the device to subscribe",
+      exactlyOne: ["client", "device"],
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(PushChannelSubscriptionsAdd);
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      const subscription = await admin.channelSubscriptions.save({
+        channel: args.channel,
+        ...(flags.client && { clientId: flags.client }),
+        ...(flags.device && { deviceId: flags.device }),
+      });
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(this.formatJsonOutput({ subscription, success: true }, flags));
+        return;
+      }
+
+      const subscriber = flags.device
+        ? `device ${chalk.cyan(flags.device)}`
+        : `client ${chalk.cyan(flags.client!)}`;
+      this.log(
+        `${chalk.green("✓")} Subscribed ${subscriber} to channel ${chalk.cyan(args.channel)}`,
+      );
+    } catch (error) {
+      this.fail(error, "Failed to add channel subscription");
+    }
+  }
+}
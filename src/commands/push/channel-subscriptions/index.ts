@@ -0,0 +1,30 @@
+import { Command } from "@oclif/core";
+
+export default class PushChannelSubscriptionsIndex extends Command {
+  static override description =
+    "Manage push notification channel subscriptions";
+
+  static override examples = [
+    "$ ably push channel-subscriptions list --channel alerts",
+    "$ ably push channel-subscriptions add alerts --device my-device",
+    "$ ably push channel-subscriptions remove alerts --client user-1",
+  ];
+
+  async run(): Promise<void> {
+    this.log("Ably push channel subscription commands:");
+    this.log("");
+    this.log(
+      "  ably push channel-subscriptions list    - List channel subscriptions",
+    );
+    this.log(
+      "  ably push channel-subscriptions add     - Subscribe a device or client to a channel",
+    );
+    this.log(
+      "  ably push channel-subscriptions remove  - Unsubscribe a device or client from a channel",
+    );
+    this.log("");
+    this.log(
+      "Run `ably push channel-subscriptions COMMAND --help` for more information on a command.",
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { Flags } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../../push-base-command.js";
+import { CHANNEL_SUBSCRIPTION_COLUMNS } from "../../../services/push-admin.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
+
+export default class PushChannelSubscriptionsList extends PushBaseCommand {
+  static override description = "List push notification channel subscriptions";
+
+  static override examples = [
+    "$ ably push channel-subscriptions list --channel alerts",
+    "$ ably push channel-subscriptions list --device my-device",
+    "$ ably push channel-subscriptions list --client user-1 --json",
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    ...outputFormatFlags,
+    channel: Flags.string({
+      description: "Only list subscriptions to this channel",
+    }),
+    client: Flags.string({
+      description: "Only list subscriptions of this client ID",
+    }),
+    device: Flags.string({
+      description: "Only list subscriptions of this device",
+    }),
+    limit: Flags.integer({
+      default: 100,
+      description: "Maximum number of subscriptions to return",
+      max: 1000,
+      min: 1,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(PushChannelSubscriptionsList);
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      const params: Ably.PushChannelSubscriptionParams = {
+        ...(flags.channel && { channel: flags.channel }),
+        ...(flags.client && { clientId: flags.client }),
+        ...(flags.device && { deviceId: flags.device }),
+        limit: flags.limit,
+      };
+
+      const result = await admin.channelSubscriptions.list(params);
+      const subscriptions = result.items;
+
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: CHANNEL_SUBSCRIPTION_COLUMNS,
+          key: "subscriptions",
+          meta: {
+            hasMore: result.hasNext(),
+            success: true,
+            total: subscriptions.length,
+          },
+          records: subscriptions.map((subscription) => ({
+            channel: subscription.channel,
+            clientId: subscription.clientId,
+            deviceId: subscription.deviceId,
+          })),
+        });
+        return;
+      }
+
+      if (subscriptions.length === 0) {
+        this.log("No channel subscriptions found.");
+        return;
+      }
+
+      this.log(
+        `Found ${chalk.cyan(subscriptions.length.toString())} channel subscriptions:\n`,
+      );
+
+      for (const subscription of subscriptions) {
+        const subscriber = subscription.deviceId
+          ? `device ${chalk.cyan(subscription.deviceId)}`
+          : `client ${chalk.cyan(subscription.clientId ?? "unknown")}`;
+        this.log(`${chalk.green(subscription.channel)}  ${subscriber}`);
+      }
+
+      if (result.hasNext()) {
+        this.log(
+          chalk.yellow(
+            `\nShowing the first ${subscriptions.length} subscriptions. Use --limit to show more.`,
+          ),
+        );
+      }
+    } catch (error) {
+      this.fail(error, "Failed to list channel subscriptions");
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { Args, Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../../push-base-command.js";
+
+export default class PushChannelSubscriptionsRemove extends PushBaseCommand {
+  static override args = {
+    channel: Args.string({
+      description: "Channel to unsubscribe from",
+      required: true,
+    }),
+  };
+
+  static override description =
+    "Unsubscribe a device or client from push notifications on a channel";
+
+  static override examples = [
+    "$ ably push channel-subscriptions remove alerts --device my-device",
+    "$ ably push channel-subscriptions remove alerts --client user-1",
+    "$ ably push channel-subscriptions remove alerts --client user-1 --force",
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    client: Flags.string({
+      description: "Client ID to unsubscribe",
+      exactlyOne: ["client", "device"],
+    }),
+    device: Flags.string({
+      description: "ID of the device to unsubscribe",
+      exactlyOne: ["client", "device"],
+    }),
+    force: Flags.boolean({
+      char: "f",
+      default: false,
+      description: "Remove without confirmation",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(PushChannelSubscriptionsRemove);
+    const subscription = {
+      channel: args.channel,
+      ...(flags.client && { clientId: flags.client }),
+      ...(flags.device && { deviceId: flags.device }),
+    };
+
+    const subscriber = flags.device
+      ? `device ${chalk.cyan(flags.device)}`
+      : `client ${chalk.cyan(flags.client!)}`;
+
+    if (!flags.force && !this.shouldOutputJson(flags)) {
+      const confirmed = await this.interactiveHelper.confirm(
+        `Unsubscribe ${subscriber} from push notifications on channel ${chalk.cyan(args.channel)}?`,
+      );
+      if (!confirmed) {
+        this.log("Removal cancelled");
+        return;
+      }
+    }
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      await admin.channelSubscriptions.remove(subscription);
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            { removed: true, subscription, success: true },
+            flags,
+          ),
+        );
+        return;
+      }
+
+      this.log(
+        `${chalk.green("✓")} Unsubscribed ${subscriber} from channel ${chalk.cyan(args.channel)}`,
+      );
+    } catch (error) {
+      this.fail(error, "Failed to remove channel subscription");
+    }
+  }
+}
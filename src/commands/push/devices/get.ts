@@ -0,0 +1,77 @@
+import { Args } from "@oclif/core";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../../push-base-command.js";
+import {
+  DEVICE_COLUMNS,
+  deviceToRecord,
+} from "../../../services/push-admin.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
+
+export default class PushDevicesGet extends PushBaseCommand {
+  static override args = {
+    deviceId: Args.string({
+      description: "ID of the device",
+      required: true,
+    }),
+  };
+
+  static override description =
+    "Get a device registered for push notifications";
+
+  static override examples = [
+    "$ ably push devices get my-device",
+    "$ ably push devices get my-device --json",
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    ...outputFormatFlags,
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(PushDevicesGet);
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      const device = await admin.deviceRegistrations.get(args.deviceId);
+
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: DEVICE_COLUMNS,
+          key: "device",
+          meta: { success: true },
+          records: deviceToRecord(device),
+        });
+        return;
+      }
+
+      this.log(`${chalk.dim("Device ID:")} ${chalk.green(device.id)}`);
+      this.log(`${chalk.dim("Platform:")} ${device.platform}`);
+      this.log(`${chalk.dim("Form factor:")} ${device.formFactor}`);
+      if (device.clientId) {
+        this.log(`${chalk.dim("Client ID:")} ${device.clientId}`);
+      }
+
+      this.log(
+        `${chalk.dim("Push state:")} ${device.push?.state ?? "unknown"}`,
+      );
+      if (device.push?.error) {
+        this.log(
+          `${chalk.dim("Push error:")} ${chalk.red(device.push.error.message)}`,
+        );
+      }
+
+      this.log(
+        `${chalk.dim("Recipient:")} ${JSON.stringify(device.push?.recipient)}`,
+      );
+      if (device.metadata && Object.keys(device.metadata).length > 0) {
+        this.log(
+          `${chalk.dim("Metadata:")} ${JSON.stringify(device.metadata)}`,
+        );
+      }
+    } catch (error) {
+      this.fail(error, "Failed to get device");
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { Command } from "@oclif/core";
+
+export default class PushDevicesIndex extends Command {
+  static override description = "Manage push notification device registrations";
+
+  static override examples = [
+    "$ ably push devices list",
+    "$ ably push devices get my-device",
+    "$ ably push devices save --id my-device --platform ios --form-factor phone --transport-type apns --token DEVICE_TOKEN",
+    "$ ably push devices remove my-device",
+  ];
+
+  async run(): Promise<void> {
+    this.log("Ably push device registration commands:");
+    this.log("");
+    this.log("  ably push devices list    - List registered devices");
+    this.log("  ably push devices get     - Get a registered device");
+    this.log("  ably push devices save    - Register or update a device");
+    this.log("  ably push devices remove  - Remove device registrations");
+    this.log("");
+    this.log(
+      "Run `ably push devices COMMAND --help` for more information on a command.",
+    );
+  }
+}
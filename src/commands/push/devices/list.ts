@@ -0,0 +1,108 @@
+import { Flags } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../../push-base-command.js";
+import {
+  DEVICE_COLUMNS,
+  DEVICE_STATES,
+  deviceToRecord,
+} from "../../../services/push-admin.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
+
+export default class PushDevicesList extends PushBaseCommand {
+  static override description =
+    "List devices registered for push notifications";
+
+  static override examples = [
+    "$ ably push devices list",
+    "$ ably push devices list --client user-1",
+    "$ ably push devices list --state FAILED",
+    "$ ably push devices list --json",
+    "$ ably push devices list --format csv --fields id,platform,clientId",
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    ...outputFormatFlags,
+    client: Flags.string({
+      description: "Only list devices registered for this client ID",
+    }),
+    device: Flags.string({
+      description: "Only list the device with this ID",
+    }),
+    limit: Flags.integer({
+      default: 100,
+      description: "Maximum number of devices to return",
+      max: 1000,
+      min: 1,
+    }),
+    state: Flags.string({
+      description: "Only list devices in this push state",
+      options: [...DEVICE_STATES],
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(PushDevicesList);
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      const params: Ably.DeviceRegistrationParams = {
+        ...(flags.client && { clientId: flags.client }),
+        ...(flags.device && { deviceId: flags.device }),
+        limit: flags.limit,
+        ...(flags.state && { state: flags.state as Ably.DevicePushState }),
+      };
+
+      const result = await admin.deviceRegistrations.list(params);
+      const devices = result.items;
+
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: DEVICE_COLUMNS,
+          key: "devices",
+          meta: {
+            hasMore: result.hasNext(),
+            success: true,
+            total: devices.length,
+          },
+          records: devices.map((device) => deviceToRecord(device)),
+        });
+        return;
+      }
+
+      if (devices.length === 0) {
+        this.log("No registered devices found.");
+        return;
+      }
+
+      this.log(
+        `Found ${chalk.cyan(devices.length.toString())} registered devices:\n`,
+      );
+
+      for (const device of devices) {
+        this.log(`${chalk.green(device.id)}`);
+        this.log(
+          `  ${chalk.dim("Platform:")} ${device.platform} (${device.formFactor})`,
+        );
+        if (device.clientId) {
+          this.log(`  ${chalk.dim("Client ID:")} ${device.clientId}`);
+        }
+
+        this.log(`  ${chalk.dim("State:")} ${device.push?.state ?? "unknown"}`);
+        this.log("");
+      }
+
+      if (result.hasNext()) {
+        this.log(
+          chalk.yellow(
+            `Showing the first ${devices.length} devices. Use --limit to show more.`,
+          ),
+        );
+      }
+    } catch (error) {
+      this.fail(error, "Failed to list devices");
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { Args, Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../../push-base-command.js";
+
+export default class PushDevicesRemove extends PushBaseCommand {
+  static override args = {
+    deviceId: Args.string({
+      description: "ID of the device to remove",
+      required: false,
+    }),
+  };
+
+  static override description =
+    "Remove a device registration, or all devices registered for a client";
+
+  static override examples = [
+    "$ ably push devices remove my-device",
+    "$ ably push devices remove --client user-1",
+    "$ ably push devices remove --client user-1 --force",
+    "$ ably push devices remove my-device --json",
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    client: Flags.string({
+      description: "Remove every device registered for this client ID",
+    }),
+    force: Flags.boolean({
+      char: "f",
+      default: false,
+      description: "Remove without confirmation",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(PushDevicesRemove);
+
+    if (Boolean(args.deviceId) === Boolean(flags.client)) {
+      this.error("Specify either a device ID or --client");
+    }
+
+    if (!flags.force && !this.shouldOutputJson(flags)) {
+      const confirmed = await this.interactiveHelper.confirm(
+        args.deviceId
+          ? `Remove device "${args.deviceId}"? It will stop receiving push notifications`
+          : `Remove every device registered for client "${flags.client}"? They will stop receiving push notifications`,
+      );
+      if (!confirmed) {
+        this.log("Removal cancelled");
+        return;
+      }
+    }
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      if (args.deviceId) {
+        await admin.deviceRegistrations.remove(args.deviceId);
+      } else {
+        await admin.deviceRegistrations.removeWhere({ clientId: flags.client });
+      }
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              ...(args.deviceId
+                ? { deviceId: args.deviceId }
+                : { clientId: flags.client }),
+              removed: true,
+              success: true,
+            },
+            flags,
+          ),
+        );
+        return;
+      }
+
+      this.log(
+        args.deviceId
+          ? `${chalk.green("✓")} Removed device ${chalk.cyan(args.deviceId)}`
+          : `${chalk.green("✓")} Removed all devices for client ${chalk.cyan(flags.client!)}`,
+      );
+    } catch (error) {
+      this.fail(error, "Failed to remove device");
+    }
+  }
+}
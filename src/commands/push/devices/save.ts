@@ -0,0 +1,104 @@
+import { Flags } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../../push-base-command.js";
+import {
+  DEVICE_COLUMNS,
+  DEVICE_FORM_FACTORS,
+  DEVICE_PLATFORMS,
+  PUSH_TRANSPORT_TYPES,
+  deviceDetails,
+  deviceToRecord,
+} from "../../../services/push-admin.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
+
+export default class PushDevicesSave extends PushBaseCommand {
+  static override description =
+    "Register a device for push notifications, or update its registration";
+
+  static override examples = [
+    "$ ably push devices save --id my-device --platform ios --form-factor phone --transport-type apns --token DEVICE_TOKEN",
+    "$ ably push devices save --id test-android --platform android --form-factor tablet --client user-1 --transport-type fcm --token REGISTRATION_TOKEN",
+    '$ ably push devices save --id my-browser --platform browser --form-factor desktop --recipient \'{"transportType":"web","targetUrl":"https://...","encryptionKey":{"p256dh":"...","auth":"..."}}\'',
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    ...outputFormatFlags,
+    client: Flags.string({
+      description: "Client ID to associate with the device",
+    }),
+    "form-factor": Flags.string({
+      description: "Form factor of the device",
+      options: [...DEVICE_FORM_FACTORS],
+      required: true,
+    }),
+    id: Flags.string({
+      description: "ID of the device",
+      required: true,
+    }),
+    metadata: Flags.string({
+      description: "Metadata to store with the device (JSON object)",
+    }),
+    platform: Flags.string({
+      description: "Platform of the device",
+      options: [...DEVICE_PLATFORMS],
+      required: true,
+    }),
+    recipient: Flags.string({
+      description:
+        "Push recipient details as JSON, instead of --transport-type and --token. Needed for web push",
+      exclusive: ["transport-type", "token"],
+    }),
+    token: Flags.string({
+      description: "APNs device token or FCM registration token",
+      dependsOn: ["transport-type"],
+    }),
+    "transport-type": Flags.string({
+      description: "Push transport used to reach the device",
+      options: [...PUSH_TRANSPORT_TYPES],
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(PushDevicesSave);
+
+    let details: Ably.DeviceDetails;
+    try {
+      details = deviceDetails({
+        client: flags.client,
+        formFactor: flags["form-factor"],
+        id: flags.id,
+        metadata: flags.metadata,
+        platform: flags.platform,
+        recipient: flags.recipient,
+        token: flags.token,
+        transportType: flags["transport-type"],
+      });
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      const device = await admin.deviceRegistrations.save(details);
+
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: DEVICE_COLUMNS,
+          key: "device",
+          meta: { success: true },
+          records: deviceToRecord(device),
+        });
+        return;
+      }
+
+      this.log(
+        `${chalk.green("✓")} Saved device ${chalk.cyan(device.id)} (${device.platform}, ${device.formFactor})`,
+      );
+    } catch (error) {
+      this.fail(error, "Failed to save device");
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Command } from "@oclif/core";
+
+export default class PushIndex extends Command {
+  static override description =
+    "Manage push notification device registrations and channel subscriptions, and publish push notifications";
+
+  static override examples = [
+    "$ ably push devices list",
+    "$ ably push channel-subscriptions list --channel alerts",
+    '$ ably push publish --device my-device --title "Hello" --body "World"',
+  ];
+
+  async run(): Promise<void> {
+    this.log("Ably push notification commands:");
+    this.log("");
+    this.log(
+      "  ably push devices                - Manage push device registrations",
+    );
+    this.log(
+      "  ably push channel-subscriptions  - Manage push channel subscriptions",
+    );
+    this.log(
+      "  ably push publish                - Publish a push notification directly to a device or client",
+    );
+    this.log("");
+    this.log(
+      "Run `ably push COMMAND --help` for more information on a command.",
+    );
+  }
+}
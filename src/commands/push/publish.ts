@@ -0,0 +1,81 @@
+import { Flags } from "@oclif/core";
+import chalk from "chalk";
+
+import { PushBaseCommand } from "../../push-base-command.js";
+import { pushPayload, pushRecipient } from "../../services/push-admin.js";
+
+export default class PushPublish extends PushBaseCommand {
+  static override description =
+    "Publish a push notification directly to a device, a client or a raw recipient";
+
+  static override examples = [
+    '$ ably push publish --device my-device --title "Hello" --body "World"',
+    '$ ably push publish --client user-1 --title "New message" --data \'{"roomId":"room-1"}\'',
+    '$ ably push publish --recipient \'{"transportType":"apns","deviceToken":"DEVICE_TOKEN"}\' --title "Hello"',
+    '$ ably push publish --device my-device --payload \'{"notification":{"title":"Hello"},"apns":{"aps":{"badge":1}}}\'',
+  ];
+
+  static override flags = {
+    ...PushBaseCommand.globalFlags,
+    body: Flags.string({
+      description: "Notification body",
+    }),
+    client: Flags.string({
+      description: "Client ID to notify, on all of its devices",
+    }),
+    data: Flags.string({
+      description: "Data payload to send (JSON object)",
+    }),
+    device: Flags.string({
+      description: "ID of the device to notify",
+    }),
+    payload: Flags.string({
+      description:
+        "Complete push payload as JSON. --title, --body and --data are merged into it",
+    }),
+    recipient: Flags.string({
+      description:
+        'Raw push recipient as JSON, e.g. {"transportType":"fcm","registrationToken":"..."}',
+    }),
+    title: Flags.string({
+      description: "Notification title",
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(PushPublish);
+
+    let recipient: Record<string, unknown>;
+    let payload: Record<string, unknown>;
+    try {
+      recipient = pushRecipient(flags);
+      payload = pushPayload(flags);
+    } catch (error) {
+      this.error(error instanceof Error ? error.message : String(error));
+    }
+
+    try {
+      const admin = await this.createPushAdmin(flags);
+      await admin.publish(recipient, payload);
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            { payload, published: true, recipient, success: true },
+            flags,
+          ),
+        );
+        return;
+      }
+
+      const target = flags.device
+        ? `device ${chalk.cyan(flags.device)}`
+        : flags.client
+          ? `client ${chalk.cyan(flags.client)}`
+          : "recipient";
+      this.log(`${chalk.green("✓")} Push notification published to ${target}`);
+    } catch (error) {
+      this.fail(error, "Failed to publish push notification");
+    }
+  }
+}
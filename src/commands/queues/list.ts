@@ -2,6 +2,8 @@ import { Flags } from "@oclif/core";
 import chalk from "chalk";
 
 import { ControlBaseCommand } from "../../control-base-command.js";
+import { queueRecord } from "../../services/control-records.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 
 interface QueueStats {
   acknowledgementRate: null | number;
@@ -48,10 +50,12 @@ export default class QueuesListCommand extends ControlBaseCommand {
     "$ ably queues list",
     "$ ably queues list --json",
     '$ ably queues list --app "My App" --pretty-json',
+    "$ ably queues list --format csv --fields id,name,messages.ready,messages.total",
   ];
 
   static flags = {
     ...ControlBaseCommand.globalFlags,
+    ...outputFormatFlags,
 
     app: Flags.string({
       description: "App ID or name to list queues for",
@@ -78,32 +82,18 @@ export default class QueuesListCommand extends ControlBaseCommand {
 
       const queues = await controlApi.listQueues(appId);
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              queues: queues.map((queue: Queue) => ({
-                amqp: queue.amqp,
-                deadletter: queue.deadletter || false,
-                deadletterId: queue.deadletterId,
-                id: queue.id,
-                maxLength: queue.maxLength,
-                messages: queue.messages,
-                name: queue.name,
-                region: queue.region,
-                state: queue.state,
-                stats: queue.stats,
-                stomp: queue.stomp,
-                ttl: queue.ttl,
-              })),
-              success: true,
-              timestamp: new Date().toISOString(),
-              total: queues.length,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: ["id", "name", "region", "state", "messages.total", "ttl"],
+          key: "queues",
+          meta: {
+            appId,
+            success: true,
+            timestamp: new Date().toISOString(),
+            total: queues.length,
+          },
+          records: queues.map((queue) => queueRecord(queue)),
+        });
       } else {
         if (queues.length === 0) {
           this.log("No queues found");
@@ -163,23 +153,7 @@ export default class QueuesListCommand extends ControlBaseCommand {
         });
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              appId,
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error listing queues: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error listing queues");
     }
   }
 }
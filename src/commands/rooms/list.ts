@@ -1,5 +1,7 @@
 import { Flags } from "@oclif/core";
 import { ChatBaseCommand } from "../../chat-base-command.js";
+import { CliError, categoryForStatusCode } from "../../services/cli-error.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 import chalk from "chalk";
 
 // Add interface definitions at the beginning of the file
@@ -42,6 +44,7 @@ export default class RoomsList extends ChatBaseCommand {
 
   static override flags = {
     ...ChatBaseCommand.globalFlags,
+    ...outputFormatFlags,
     limit: Flags.integer({
       default: 100,
       description: "Maximum number of rooms to return",
@@ -83,8 +86,14 @@ export default class RoomsList extends ChatBaseCommand {
       );
 
       if (channelsResponse.statusCode !== 200) {
-        this.error(`Failed to list rooms: ${channelsResponse.statusCode}`);
-        return;
+        throw new CliError(
+          `Failed to list rooms: ${channelsResponse.statusCode}`,
+          {
+            category:
+              categoryForStatusCode(channelsResponse.statusCode) ?? "ably",
+            statusCode: channelsResponse.statusCode,
+          },
+        );
       }
 
       // Filter to only include chat channels
@@ -121,9 +130,17 @@ export default class RoomsList extends ChatBaseCommand {
       const limitedRooms = rooms.slice(0, flags.limit);
 
       // Output rooms based on format
-      if (this.shouldOutputJson(flags)) {
-        // Wrap the array in an object for formatJsonOutput
-        this.log(this.formatJsonOutput({ items: limitedRooms }, flags));
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: [
+            "roomName",
+            "status.occupancy.metrics.connections",
+            "status.occupancy.metrics.publishers",
+            "status.occupancy.metrics.subscribers",
+          ],
+          key: "items",
+          records: limitedRooms,
+        });
       } else {
         if (limitedRooms.length === 0) {
           this.log("No active chat rooms found.");
@@ -175,9 +192,7 @@ export default class RoomsList extends ChatBaseCommand {
         }
       }
     } catch (error) {
-      this.error(
-        `Error listing rooms: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      this.fail(error, "Error listing rooms");
     } finally {
       client.close();
     }
@@ -0,0 +1,109 @@
+import { Args, Flags } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+
+import { ChatBaseCommand } from "../../../chat-base-command.js";
+
+export default class MessagesDelete extends ChatBaseCommand {
+  static override args = {
+    roomId: Args.string({
+      description: "The room ID the message was sent to",
+      required: true,
+    }),
+    serial: Args.string({
+      description: "The serial of the message to delete",
+      required: true,
+    }),
+  };
+
+  static override description = "Delete a message in an Ably Chat room";
+
+  static override examples = [
+    '$ ably rooms messages delete my-room "01826232498871-001@abcdefghij:001"',
+    '$ ably rooms messages delete my-room "01826232498871-001@abcdefghij:001" --description "Spam"',
+    '$ ably rooms messages delete my-room "01826232498871-001@abcdefghij:001" --json',
+  ];
+
+  static override flags = {
+    ...ChatBaseCommand.globalFlags,
+    description: Flags.string({
+      description: "Why the message was deleted, recorded with the deletion",
+    }),
+  };
+
+  private ablyClient: Ably.Realtime | null = null;
+
+  async finally(err: Error | undefined): Promise<void> {
+    if (
+      this.ablyClient &&
+      this.ablyClient.connection.state !== "closed" &&
+      this.ablyClient.connection.state !== "failed"
+    ) {
+      this.ablyClient.close();
+    }
+
+    return super.finally(err);
+  }
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(MessagesDelete);
+    const { roomId, serial } = args;
+
+    try {
+      const chatClient = await this.createChatClient(flags);
+      if (!chatClient) {
+        this.error("Failed to create Chat client");
+        return;
+      }
+
+      this.ablyClient = chatClient.realtime;
+
+      const room = await chatClient.rooms.get(roomId, {});
+      this.logCliEvent(
+        flags,
+        "message",
+        "deleting",
+        `Deleting message ${serial} in room ${roomId}`,
+        { description: flags.description, serial },
+      );
+
+      const message = await this.findMessage(room, serial);
+      const deleted = await room.messages.delete(message, {
+        description: flags.description,
+      });
+      this.logCliEvent(
+        flags,
+        "message",
+        "deleted",
+        `Deleted message ${serial} in room ${roomId}`,
+        { serial, version: deleted.version },
+      );
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              message: {
+                action: deleted.action,
+                serial: deleted.serial,
+                timestamp: deleted.timestamp,
+                version: deleted.version,
+              },
+              roomId,
+              success: true,
+            },
+            flags,
+          ),
+        );
+      } else {
+        this.log(
+          `${chalk.green("✓")} Deleted message ${chalk.cyan(serial)} in room ${chalk.cyan(roomId)} ${chalk.dim(`(version ${deleted.version})`)}`,
+        );
+      }
+
+      await chatClient.rooms.release(roomId);
+    } catch (error) {
+      this.fail(error, "Failed to delete message");
+    }
+  }
+}
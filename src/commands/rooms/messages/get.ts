@@ -1,8 +1,56 @@
+import { ChatMessageActions, Message } from "@ably/chat";
 import { Args, Flags } from "@oclif/core";
 import * as Ably from "ably";
 import chalk from "chalk";
 
 import { ChatBaseCommand } from "../../../chat-base-command.js";
+import {
+  collectPages,
+  historyExportFlags,
+  isExportRequested,
+} from "../../../services/history-export.js";
+
+// CSV columns for exported chat messages, matching chatMessageToRecord()
+const CHAT_MESSAGE_COLUMNS = [
+  "serial",
+  "version",
+  "action",
+  "timestamp",
+  "clientId",
+  "text",
+  "metadata",
+  "headers",
+];
+
+function chatMessageToRecord(message: Message): Record<string, unknown> {
+  return {
+    action: message.action,
+    clientId: message.clientId,
+    headers: message.headers,
+    metadata: message.metadata,
+    serial: message.serial,
+    text: message.text,
+    timestamp: message.timestamp.toISOString(),
+    version: message.version,
+  };
+}
+
+// Marker shown after the text of messages that were edited or deleted
+function actionLabel(message: Message): string {
+  switch (message.action) {
+    case ChatMessageActions.MessageUpdate: {
+      return chalk.yellow(" (edited)");
+    }
+
+    case ChatMessageActions.MessageDelete: {
+      return chalk.red(" (deleted)");
+    }
+
+    default: {
+      return "";
+    }
+  }
+}
 
 export default class MessagesGet extends ChatBaseCommand {
   static override args = {
@@ -22,14 +70,18 @@ export default class MessagesGet extends ChatBaseCommand {
     "$ ably rooms messages get --show-metadata my-room",
     "$ ably rooms messages get my-room --json",
     "$ ably rooms messages get my-room --pretty-json",
+    "$ ably rooms messages get my-room --all --output messages.ndjson",
+    "$ ably rooms messages get my-room --all --max 5000 --output messages.csv",
   ];
 
   static override flags = {
     ...ChatBaseCommand.globalFlags,
+    ...historyExportFlags,
     limit: Flags.integer({
       char: "l",
       default: 20,
-      description: "Maximum number of messages to retrieve",
+      description:
+        "Maximum number of messages to retrieve (the page size when using --all)",
     }),
     "show-metadata": Flags.boolean({
       default: false,
@@ -59,7 +111,9 @@ export default class MessagesGet extends ChatBaseCommand {
       // Attach to the room
       await room.attach();
 
-      if (!this.shouldSuppressOutput(flags)) {
+      const exporting = isExportRequested(flags);
+
+      if (!this.shouldSuppressOutput(flags) && !exporting) {
         if (this.shouldOutputJson(flags)) {
           this.log(
             this.formatJsonOutput(
@@ -81,16 +135,33 @@ export default class MessagesGet extends ChatBaseCommand {
 
       // Get historical messages
       const messagesResult = await room.messages.get({ limit: flags.limit });
-      const { items } = messagesResult;
+
+      if (exporting) {
+        await this.exportHistory(flags, messagesResult, {
+          columns: CHAT_MESSAGE_COLUMNS,
+          label: "messages",
+          toRecord: chatMessageToRecord,
+        });
+        await chatClient.rooms.release(args.roomId);
+        return;
+      }
+
+      const { items } = await collectPages(
+        messagesResult,
+        this.getPaginationOptions(flags, "messages"),
+      );
 
       if (this.shouldOutputJson(flags)) {
         this.log(
           this.formatJsonOutput(
             {
               messages: items.map((message) => ({
+                action: message.action,
                 clientId: message.clientId,
+                serial: message.serial,
                 text: message.text,
                 timestamp: message.timestamp,
+                version: message.version,
                 ...(flags["show-metadata"] && message.metadata
                   ? { metadata: message.metadata }
                   : {}),
@@ -120,7 +191,12 @@ export default class MessagesGet extends ChatBaseCommand {
             const author = message.clientId || "Unknown";
 
             this.log(
-              `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`${author}:`)} ${message.text}`,
+              `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`${author}:`)} ${message.text}${actionLabel(message)}`,
+            );
+            this.log(
+              chalk.dim(
+                `  Serial: ${message.serial} | Version: ${message.version} | Action: ${message.action}`,
+              ),
             );
 
             // Show metadata if enabled and available
@@ -136,22 +212,7 @@ export default class MessagesGet extends ChatBaseCommand {
       // Release the room
       await chatClient.rooms.release(args.roomId);
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              roomId: args.roomId,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Failed to get messages: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Failed to get messages");
     } finally {
       // Close the underlying Ably connection
       if (this.ablyClient && this.ablyClient.connection.state !== "closed") {
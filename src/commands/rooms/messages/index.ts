@@ -8,6 +8,8 @@ export default class MessagesIndex extends Command {
     '$ ably rooms messages send my-room "Hello world!"',
     "$ ably rooms messages subscribe my-room",
     "$ ably rooms messages get my-room",
+    '$ ably rooms messages update my-room "message-serial" "Edited text"',
+    '$ ably rooms messages delete my-room "message-serial"',
     '$ ably rooms messages reactions add my-room "message-id" "👍"',
   ];
 
@@ -23,6 +25,12 @@ export default class MessagesIndex extends Command {
     this.log(
       "  ably rooms messages get        - Get historical messages from a chat room",
     );
+    this.log(
+      "  ably rooms messages update     - Update (edit) a message in a chat room",
+    );
+    this.log(
+      "  ably rooms messages delete     - Delete a message in a chat room",
+    );
     this.log(
       "  ably rooms messages reactions  - Work with message reactions in a chat room",
     );
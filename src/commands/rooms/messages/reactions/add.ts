@@ -96,17 +96,7 @@ export default class MessagesReactionsAdd extends ChatBaseCommand {
           error: errorMsg,
           count: flags.count,
         });
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              { error: errorMsg, roomId, success: false },
-              flags,
-            ),
-          );
-        } else {
-          this.error(errorMsg);
-        }
-        return;
+        this.error(errorMsg);
       }
 
       // Create Chat client
@@ -296,24 +286,7 @@ export default class MessagesReactionsAdd extends ChatBaseCommand {
         this.ablyClient.close();
       }
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { 
-              error: errorMsg, 
-              roomId, 
-              messageSerial, 
-              reaction, 
-              success: false,
-              ...(flags.type && { type: flags.type }),
-              ...(flags.count && { count: flags.count }),
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to add reaction: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to add reaction");
     }
   }
 }
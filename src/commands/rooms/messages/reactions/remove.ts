@@ -260,23 +260,7 @@ export default class MessagesReactionsRemove extends ChatBaseCommand {
         this.ablyClient.close();
       }
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { 
-              error: errorMsg, 
-              roomId, 
-              messageSerial, 
-              reaction,
-              ...(flags.type && { type: flags.type }), 
-              success: false 
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to remove reaction: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to remove reaction");
     }
   }
 }
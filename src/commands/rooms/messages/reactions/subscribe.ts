@@ -4,6 +4,8 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { ChatBaseCommand } from "../../../../chat-base-command.js";
+import { filterFlags } from "../../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../../services/stop-conditions.js";
 
 interface ReactionSummary {
   messageSerial: string;
@@ -27,10 +29,13 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
     "$ ably rooms messages reactions subscribe my-room --raw",
     "$ ably rooms messages reactions subscribe my-room --json",
     "$ ably rooms messages reactions subscribe my-room --pretty-json",
+    "$ ably rooms messages reactions subscribe my-room --raw --filter 'name == \"👍\"'",
   ];
 
   static override flags = {
     ...ChatBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
     raw: Flags.boolean({
       description: "Subscribe to raw individual reaction events instead of summaries",
       default: false,
@@ -79,6 +84,7 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(MessagesReactionsSubscribe);
+    this.setupMessageFilter(flags);
 
     try {
       // Create Chat client
@@ -222,6 +228,8 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
           "Subscribing to raw reaction events",
         );
         this.unsubscribeRawReactionsFn = room.messages.reactions.subscribeRaw((event: MessageReactionRawEvent) => {
+          if (!this.passesMessageFilter(event.reaction)) return;
+
           const timestamp = new Date().toISOString();
           const eventData = {
             type: event.type,
@@ -247,6 +255,8 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
               `[${chalk.dim(timestamp)}] ${chalk.green("⚡")} ${chalk.blue(event.reaction.clientId || "Unknown")} [${event.reaction.type}] ${event.type}: ${chalk.yellow(event.reaction.name || "unknown")} to message ${chalk.cyan(event.reaction.messageSerial)}`,
             );
           }
+
+          this.checkStopConditions(flags, eventData);
         });
         this.logCliEvent(
           flags,
@@ -263,6 +273,8 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
           "Subscribing to reaction summaries",
         );
         this.unsubscribeReactionsFn = room.messages.reactions.subscribe((event: MessageReactionSummaryEvent) => {
+          if (!this.passesMessageFilter(event.summary)) return;
+
           const timestamp = new Date().toISOString();
           
           // Format the summary for display
@@ -310,6 +322,12 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
               this.displayMultipleReactionSummary(event.summary.multiple, flags);
             }
           }
+
+          this.checkStopConditions(flags, {
+            roomId,
+            summary: summaryData,
+            timestamp,
+          });
         });
         this.logCliEvent(
           flags,
@@ -511,11 +529,10 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
           clearTimeout(forceExitTimeout);
           resolve();
 
-          process.exit(0);
+          process.exit(); // Keep the exit code set for a timeout
         };
 
-        process.on("SIGINT", () => void cleanup());
-        process.on("SIGTERM", () => void cleanup());
+        this.setupStopConditions(flags, () => void cleanup());
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -523,16 +540,7 @@ export default class MessagesReactionsSubscribe extends ChatBaseCommand {
         error: errorMsg,
         roomId: args.roomId,
       });
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId: args.roomId, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Error: ${errorMsg}`);
-      }
+      this.fail(error);
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (
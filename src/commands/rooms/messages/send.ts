@@ -139,15 +139,7 @@ export default class MessagesSend extends ChatBaseCommand {
           this.logCliEvent(flags, "message", "metadataParseError", errorMsg, {
             error: errorMsg,
           });
-          if (this.shouldOutputJson(flags)) {
-            this.log(
-              this.formatJsonOutput({ error: errorMsg, success: false }, flags),
-            );
-          } else {
-            this.error(errorMsg);
-          }
-
-          return;
+          this.error(errorMsg);
         }
       }
 
@@ -443,13 +435,7 @@ export default class MessagesSend extends ChatBaseCommand {
         `Failed to send message: ${errorMsg}`,
         { error: errorMsg },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput({ error: errorMsg, success: false }, flags),
-        );
-      } else {
-        this.error(`Failed to send message: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to send message");
     } finally {
       // Close the underlying Ably connection
       if (this.ablyClient && this.ablyClient.connection.state !== "closed") {
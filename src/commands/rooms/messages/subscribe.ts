@@ -1,16 +1,31 @@
 import { Args, Flags } from "@oclif/core";
 import * as Ably from "ably";
-import { Subscription, StatusSubscription, MessageEvent } from "@ably/chat"; // Import ChatClient and StatusSubscription
+import {
+  Subscription,
+  StatusSubscription,
+  MessageEvent,
+  MessageEvents,
+} from "@ably/chat";
 import chalk from "chalk";
 
 import { ChatBaseCommand } from "../../../chat-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 // Define message interface
 interface ChatMessage {
+  action: string;
   clientId: string;
   text: string;
   timestamp: number | Date; // Support both timestamp types
   metadata?: Record<string, unknown>;
+  operation?: {
+    clientId?: string;
+    description?: string;
+    metadata?: Record<string, unknown>;
+  };
+  serial: string;
+  version: string;
   [key: string]: unknown;
 }
 
@@ -33,7 +48,8 @@ export default class MessagesSubscribe extends ChatBaseCommand {
     }),
   };
 
-  static override description = "Subscribe to messages in an Ably Chat room";
+  static override description =
+    "Subscribe to new, updated and deleted messages in an Ably Chat room";
 
   static override examples = [
     "$ ably rooms messages subscribe my-room",
@@ -41,10 +57,15 @@ export default class MessagesSubscribe extends ChatBaseCommand {
     "$ ably rooms messages subscribe --show-metadata my-room",
     "$ ably rooms messages subscribe my-room --json",
     "$ ably rooms messages subscribe my-room --pretty-json",
+    '$ ably rooms messages subscribe my-room --until "message.text=done" --duration 10',
+    '$ ably rooms messages subscribe my-room --until "event=message.deleted"',
+    '$ ably rooms messages subscribe my-room --filter \'clientId == "support" || metadata.priority == "high"\'',
   ];
 
   static override flags = {
     ...ChatBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
     "show-metadata": Flags.boolean({
       default: false,
       description: "Display message metadata if available",
@@ -84,6 +105,7 @@ export default class MessagesSubscribe extends ChatBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(MessagesSubscribe);
+    this.setupMessageFilter(flags);
     const { roomId } = args;
 
     try {
@@ -139,13 +161,20 @@ export default class MessagesSubscribe extends ChatBaseCommand {
       this.messageSubscription = room.messages.subscribe(
         (messageEvent: MessageEvent) => {
           const { message } = messageEvent;
+          if (!this.passesMessageFilter(message)) return;
+
           const messageLog: ChatMessage = {
+            action: message.action,
             clientId: message.clientId,
+            serial: message.serial,
             text: message.text,
             timestamp: message.timestamp,
+            version: message.version,
             ...(message.metadata ? { metadata: message.metadata } : {}),
+            ...(message.operation ? { operation: message.operation } : {}),
           };
           this.logCliEvent(flags, "message", "received", "Message received", {
+            event: messageEvent.type,
             message: messageLog,
             roomId: roomId,
           });
@@ -154,6 +183,7 @@ export default class MessagesSubscribe extends ChatBaseCommand {
             this.log(
               this.formatJsonOutput(
                 {
+                  event: messageEvent.type,
                   message: messageLog,
                   roomId: roomId,
                   success: true,
@@ -166,10 +196,37 @@ export default class MessagesSubscribe extends ChatBaseCommand {
             const timestamp = new Date(message.timestamp).toLocaleTimeString();
             const author = message.clientId || "Unknown";
 
-            // Message content with consistent formatting
-            this.log(
-              `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`${author}:`)} ${message.text}`,
-            );
+            // Message content with consistent formatting, marking edits and deletions
+            switch (messageEvent.type) {
+              case MessageEvents.Updated: {
+                this.log(
+                  `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`${author}:`)} ${message.text} ${chalk.yellow("(edited)")}`,
+                );
+                break;
+              }
+
+              case MessageEvents.Deleted: {
+                this.log(
+                  `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`${author}:`)} ${chalk.red("message deleted")} ${chalk.dim(message.serial)}`,
+                );
+                break;
+              }
+
+              default: {
+                this.log(
+                  `${chalk.gray(`[${timestamp}]`)} ${chalk.cyan(`${author}:`)} ${message.text}`,
+                );
+              }
+            }
+
+            if (message.operation) {
+              const { clientId, description } = message.operation;
+              this.log(
+                chalk.dim(
+                  `  ${messageEvent.type === MessageEvents.Deleted ? "Deleted" : "Edited"} by ${clientId || "Unknown"}${description ? `: ${description}` : ""}`,
+                ),
+              );
+            }
 
             // Show metadata if enabled and available
             if (flags["show-metadata"] && message.metadata) {
@@ -180,6 +237,12 @@ export default class MessagesSubscribe extends ChatBaseCommand {
 
             this.log(""); // Empty line for better readability
           }
+
+          this.checkStopConditions(flags, {
+            event: messageEvent.type,
+            message: messageLog,
+            roomId,
+          });
         },
       );
       this.logCliEvent(
@@ -381,10 +444,9 @@ export default class MessagesSubscribe extends ChatBaseCommand {
           }
 
           resolve();
-          process.exit(0); // Explicitly exit to ensure process terminates
+          process.exit(); // Explicitly exit, keeping the exit code set for a timeout
         };
-        process.on("SIGINT", () => void cleanup());
-        process.on("SIGTERM", () => void cleanup());
+        this.setupStopConditions(flags, () => void cleanup());
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -400,16 +462,7 @@ export default class MessagesSubscribe extends ChatBaseCommand {
         this.ablyClient.close();
       }
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId: roomId, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to subscribe to messages: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to subscribe to messages");
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (this.ablyClient && this.ablyClient.connection.state !== "closed") {
@@ -0,0 +1,177 @@
+import { MessageHeaders } from "@ably/chat";
+import { Args, Flags } from "@oclif/core";
+import * as Ably from "ably";
+import chalk from "chalk";
+
+import { ChatBaseCommand } from "../../../chat-base-command.js";
+
+export default class MessagesUpdate extends ChatBaseCommand {
+  static override args = {
+    roomId: Args.string({
+      description: "The room ID the message was sent to",
+      required: true,
+    }),
+    serial: Args.string({
+      description: "The serial of the message to update",
+      required: true,
+    }),
+    text: Args.string({
+      description: "The new message text",
+      required: true,
+    }),
+  };
+
+  static override description = "Update (edit) a message in an Ably Chat room";
+
+  static override examples = [
+    '$ ably rooms messages update my-room "01826232498871-001@abcdefghij:001" "Hello, edited"',
+    '$ ably rooms messages update my-room "01826232498871-001@abcdefghij:001" "Hello" --description "Fixed a typo"',
+    '$ ably rooms messages update --metadata \'{"isImportant":true}\' --headers \'{"lang":"en"}\' my-room "01826232498871-001@abcdefghij:001" "Hello"',
+    '$ ably rooms messages update my-room "01826232498871-001@abcdefghij:001" "Hello" --json',
+  ];
+
+  static override flags = {
+    ...ChatBaseCommand.globalFlags,
+    description: Flags.string({
+      description: "Why the message was updated, recorded with the update",
+    }),
+    headers: Flags.string({
+      description:
+        "New headers for the message (JSON object). Replaces the existing headers, which are kept if omitted",
+    }),
+    metadata: Flags.string({
+      description:
+        "New metadata for the message (JSON object). Replaces the existing metadata, which is kept if omitted",
+    }),
+  };
+
+  private ablyClient: Ably.Realtime | null = null;
+
+  async finally(err: Error | undefined): Promise<void> {
+    if (
+      this.ablyClient &&
+      this.ablyClient.connection.state !== "closed" &&
+      this.ablyClient.connection.state !== "failed"
+    ) {
+      this.ablyClient.close();
+    }
+
+    return super.finally(err);
+  }
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(MessagesUpdate);
+    const { roomId, serial, text } = args;
+
+    const metadata = this.parseJsonObject(flags.metadata, "--metadata");
+    const headers = this.parseHeaders(flags.headers);
+
+    try {
+      const chatClient = await this.createChatClient(flags);
+      if (!chatClient) {
+        this.error("Failed to create Chat client");
+        return;
+      }
+
+      this.ablyClient = chatClient.realtime;
+
+      const room = await chatClient.rooms.get(roomId, {});
+      this.logCliEvent(
+        flags,
+        "message",
+        "updating",
+        `Updating message ${serial} in room ${roomId}`,
+        { description: flags.description, headers, metadata, serial, text },
+      );
+
+      // update() sends the text, metadata and headers of the message passed
+      // in as its new version, so start from the current message to keep
+      // whatever wasn't passed
+      const current = await this.findMessage(room, serial);
+      const updated = await room.messages.update(
+        current.copy({
+          text,
+          ...(headers && { headers }),
+          ...(metadata && { metadata }),
+        }),
+        { description: flags.description },
+      );
+      this.logCliEvent(
+        flags,
+        "message",
+        "updated",
+        `Updated message ${serial} in room ${roomId}`,
+        { serial, version: updated.version },
+      );
+
+      if (this.shouldOutputJson(flags)) {
+        this.log(
+          this.formatJsonOutput(
+            {
+              message: {
+                action: updated.action,
+                headers: updated.headers,
+                metadata: updated.metadata,
+                serial: updated.serial,
+                text: updated.text,
+                timestamp: updated.timestamp,
+                version: updated.version,
+              },
+              roomId,
+              success: true,
+            },
+            flags,
+          ),
+        );
+      } else {
+        this.log(
+          `${chalk.green("✓")} Updated message ${chalk.cyan(serial)} in room ${chalk.cyan(roomId)} ${chalk.dim(`(version ${updated.version})`)}`,
+        );
+      }
+
+      await chatClient.rooms.release(roomId);
+    } catch (error) {
+      this.fail(error, "Failed to update message");
+    }
+  }
+
+  private parseHeaders(value: string | undefined): MessageHeaders | undefined {
+    const headers = this.parseJsonObject(value, "--headers");
+    if (
+      headers &&
+      Object.values(headers).some(
+        (header) => typeof header === "object" && header !== null,
+      )
+    ) {
+      this.error("--headers values must be strings, numbers, booleans or null");
+    }
+
+    return headers as MessageHeaders | undefined;
+  }
+
+  private parseJsonObject(
+    value: string | undefined,
+    flag: string,
+  ): Record<string, unknown> | undefined {
+    if (value === undefined) return undefined;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      this.error(
+        `Invalid ${flag} JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      this.error(`${flag} must be a JSON object`);
+    }
+
+    return parsed as Record<string, unknown>;
+  }
+}
@@ -1,6 +1,7 @@
 import { Args } from "@oclif/core";
 import * as Ably from "ably";
 import { ChatBaseCommand } from "../../../chat-base-command.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 export default class RoomsOccupancyGet extends ChatBaseCommand {
   static args = {
@@ -21,6 +22,7 @@ export default class RoomsOccupancyGet extends ChatBaseCommand {
 
   static flags = {
     ...ChatBaseCommand.globalFlags,
+    ...outputFormatFlags,
   };
 
   private ablyClient: Ably.Realtime | null = null; // Store Ably client for cleanup
@@ -51,17 +53,13 @@ export default class RoomsOccupancyGet extends ChatBaseCommand {
       const occupancyMetrics = await room.occupancy.get();
 
       // Output the occupancy metrics based on format
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              metrics: occupancyMetrics,
-              roomId,
-              success: true,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: ["connections", "presenceMembers"],
+          key: "metrics",
+          meta: { roomId, success: true },
+          records: occupancyMetrics,
+        });
       } else {
         this.log(`Occupancy metrics for room '${roomId}':\n`);
         this.log(`Connections: ${occupancyMetrics.connections ?? 0}`);
@@ -74,22 +72,7 @@ export default class RoomsOccupancyGet extends ChatBaseCommand {
       // Release the room
       await chatClient.rooms.release(roomId);
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              roomId: args.roomId,
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error fetching room occupancy: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error fetching room occupancy");
     } finally {
       if (this.ablyClient && this.ablyClient.connection.state !== "closed") {
         this.ablyClient.close();
@@ -4,6 +4,7 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { ChatBaseCommand } from "../../../chat-base-command.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export interface OccupancyMetrics {
   connections?: number;
@@ -28,6 +29,7 @@ export default class RoomsOccupancySubscribe extends ChatBaseCommand {
 
   static flags = {
     ...ChatBaseCommand.globalFlags,
+    ...stopConditionFlags,
   };
 
   private cleanupInProgress = false;
@@ -407,14 +409,13 @@ export default class RoomsOccupancySubscribe extends ChatBaseCommand {
               this.log(chalk.green("\nSuccessfully disconnected."));
             }
             resolve();
-            process.exit(0);
+            process.exit(); // Keep the exit code set for a timeout
           };
 
           void releaseAndClose();
         };
 
-        process.on("SIGINT", cleanup);
-        process.on("SIGTERM", cleanup);
+        this.setupStopConditions(flags, cleanup);
       });
     } catch (error) {
       const errorMsg = `Error: ${error instanceof Error ? error.message : String(error)}`;
@@ -422,16 +423,7 @@ export default class RoomsOccupancySubscribe extends ChatBaseCommand {
         error: errorMsg,
         roomId,
       });
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(errorMsg);
-      }
+      this.fail(error);
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (this.ablyClient && this.ablyClient.connection.state !== "closed") {
@@ -481,5 +473,9 @@ export default class RoomsOccupancySubscribe extends ChatBaseCommand {
 
       this.log(""); // Empty line for better readability
     }
+
+    if (!isInitial) {
+      this.checkStopConditions(flags, logData);
+    }
   }
 }
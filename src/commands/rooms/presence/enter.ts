@@ -90,18 +90,7 @@ export default class RoomsPresenceEnter extends ChatBaseCommand {
             errorMsg,
             { error: errorMsg, roomId },
           );
-          if (this.shouldOutputJson(flags)) {
-            this.log(
-              this.formatJsonOutput(
-                { error: errorMsg, roomId, success: false },
-                flags,
-              ),
-            );
-          } else {
-            this.error(errorMsg);
-          }
-
-          return;
+          this.error(errorMsg);
         }
       }
 
@@ -632,16 +621,7 @@ export default class RoomsPresenceEnter extends ChatBaseCommand {
         `Error entering room presence: ${errorMsg}`,
         { error: errorMsg, roomId: args.roomId },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId: args.roomId, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Error entering room presence: ${errorMsg}`);
-      }
+      this.fail(error, "Error entering room presence");
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (this.ablyClient && this.ablyClient.connection.state !== "closed") {
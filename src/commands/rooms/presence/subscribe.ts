@@ -9,6 +9,8 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { ChatBaseCommand } from "../../../chat-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class RoomsPresenceSubscribe extends ChatBaseCommand {
   static override args = {
@@ -24,10 +26,13 @@ export default class RoomsPresenceSubscribe extends ChatBaseCommand {
     "$ ably rooms presence subscribe my-room",
     "$ ably rooms presence subscribe my-room --json",
     "$ ably rooms presence subscribe my-room --pretty-json",
+    "$ ably rooms presence subscribe my-room --filter 'action == \"enter\"'",
   ];
 
   static override flags = {
     ...ChatBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   private ablyClient: Ably.Realtime | null = null;
@@ -36,6 +41,7 @@ export default class RoomsPresenceSubscribe extends ChatBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(RoomsPresenceSubscribe);
+    this.setupMessageFilter(flags);
 
     try {
       // Create Chat client
@@ -226,6 +232,8 @@ export default class RoomsPresenceSubscribe extends ChatBaseCommand {
       this.presenceSubscription = room.presence.subscribe(
         PresenceEvents.Update,
         (member) => {
+          if (!this.passesMessageFilter(member)) return;
+
           const timestamp = new Date().toISOString(); // Chat SDK doesn't provide timestamp in event
           const action = member.action || "unknown";
           const eventData = {
@@ -283,6 +291,8 @@ export default class RoomsPresenceSubscribe extends ChatBaseCommand {
               );
             }
           }
+
+          this.checkStopConditions(flags, eventData);
         },
       );
       this.logCliEvent(
@@ -452,7 +462,7 @@ export default class RoomsPresenceSubscribe extends ChatBaseCommand {
             clearTimeout(forceExitTimeout);
             resolve();
 
-            process.exit(0);
+            process.exit(); // Keep the exit code set for a timeout
           } catch (error) {
             const errorMsg =
               error instanceof Error ? error.message : String(error);
@@ -472,8 +482,7 @@ export default class RoomsPresenceSubscribe extends ChatBaseCommand {
           }
         };
 
-        process.once("SIGINT", () => void cleanup());
-        process.once("SIGTERM", () => void cleanup());
+        this.setupStopConditions(flags, () => void cleanup());
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
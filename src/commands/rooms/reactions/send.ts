@@ -81,18 +81,7 @@ export default class RoomsReactionsSend extends ChatBaseCommand {
             error: errorMsg,
             roomId,
           });
-          if (this.shouldOutputJson(flags)) {
-            this.log(
-              this.formatJsonOutput(
-                { error: errorMsg, roomId, success: false },
-                flags,
-              ),
-            );
-          } else {
-            this.error(errorMsg);
-          }
-
-          return;
+          this.error(errorMsg);
         }
       }
 
@@ -262,16 +251,7 @@ export default class RoomsReactionsSend extends ChatBaseCommand {
         this.ablyClient.close();
       }
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId, emoji, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to send reaction: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to send reaction");
     }
   }
 }
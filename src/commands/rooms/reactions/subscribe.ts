@@ -4,6 +4,8 @@ import * as Ably from "ably"; // Import Ably
 import chalk from "chalk";
 
 import { ChatBaseCommand } from "../../../chat-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class RoomsReactionsSubscribe extends ChatBaseCommand {
   static override args = {
@@ -19,10 +21,13 @@ export default class RoomsReactionsSubscribe extends ChatBaseCommand {
     "$ ably rooms reactions subscribe my-room",
     "$ ably rooms reactions subscribe my-room --json",
     "$ ably rooms reactions subscribe my-room --pretty-json",
+    "$ ably rooms reactions subscribe my-room --filter 'type == \"heart\"'",
   ];
 
   static override flags = {
     ...ChatBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   // private clients: ChatClients | null = null; // Replace with chatClient and ablyClient
@@ -60,6 +65,7 @@ export default class RoomsReactionsSubscribe extends ChatBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(RoomsReactionsSubscribe);
+    this.setupMessageFilter(flags);
 
     try {
       // Create Chat client
@@ -196,6 +202,8 @@ export default class RoomsReactionsSubscribe extends ChatBaseCommand {
         "Subscribing to reactions",
       );
       this.unsubscribeReactionsFn = room.reactions.subscribe((reaction) => {
+        if (!this.passesMessageFilter(reaction)) return;
+
         const timestamp = new Date().toISOString(); // Chat SDK doesn't provide timestamp in event
         const eventData = {
           clientId: reaction.clientId,
@@ -228,6 +236,8 @@ export default class RoomsReactionsSubscribe extends ChatBaseCommand {
             );
           }
         }
+
+        this.checkStopConditions(flags, eventData);
       });
       this.logCliEvent(
         flags,
@@ -401,11 +411,10 @@ export default class RoomsReactionsSubscribe extends ChatBaseCommand {
           clearTimeout(forceExitTimeout);
           resolve();
 
-          process.exit(0); // Reinstated: Explicit exit after cleanup
+          process.exit(); // Explicit exit, keeping the exit code set for a timeout
         };
 
-        process.on("SIGINT", () => void cleanup());
-        process.on("SIGTERM", () => void cleanup());
+        this.setupStopConditions(flags, () => void cleanup());
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -413,16 +422,7 @@ export default class RoomsReactionsSubscribe extends ChatBaseCommand {
         error: errorMsg,
         roomId: args.roomId,
       });
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId: args.roomId, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Error: ${errorMsg}`);
-      }
+      this.fail(error);
     } finally {
       // Ensure client is closed even if cleanup promise didn't resolve
       if (
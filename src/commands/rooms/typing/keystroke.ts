@@ -384,16 +384,7 @@ export default class TypingKeystroke extends ChatBaseCommand {
         this.ablyClient.close();
       }
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId: args.roomId, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to start typing: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to start typing");
     }
   }
 }
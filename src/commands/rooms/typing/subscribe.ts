@@ -9,6 +9,8 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { ChatBaseCommand } from "../../../chat-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class TypingSubscribe extends ChatBaseCommand {
   static override args = {
@@ -26,10 +28,13 @@ export default class TypingSubscribe extends ChatBaseCommand {
     '$ ably rooms typing subscribe --api-key "YOUR_API_KEY" my-room',
     "$ ably rooms typing subscribe my-room --json",
     "$ ably rooms typing subscribe my-room --pretty-json",
+    "$ ably rooms typing subscribe my-room --filter 'change.clientId != \"me\"'",
   ];
 
   static override flags = {
     ...ChatBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   private chatClient: ChatClient | null = null;
@@ -66,6 +71,7 @@ export default class TypingSubscribe extends ChatBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(TypingSubscribe);
+    this.setupMessageFilter(flags);
 
     try {
       // Create Chat client
@@ -165,6 +171,8 @@ export default class TypingSubscribe extends ChatBaseCommand {
       );
       this.unsubscribeTypingFn = room.typing.subscribe(
         (typingSetEvent) => {
+          if (!this.passesMessageFilter(typingSetEvent)) return;
+
           const timestamp = new Date().toISOString();
           const currentlyTyping = [...(typingSetEvent.currentlyTyping || [])];
           const eventData = {
@@ -197,6 +205,8 @@ export default class TypingSubscribe extends ChatBaseCommand {
               );
             }
           }
+
+          this.checkStopConditions(flags, eventData);
         },
       );
       this.logCliEvent(
@@ -225,7 +235,7 @@ export default class TypingSubscribe extends ChatBaseCommand {
       // Keep the process running until Ctrl+C
       await new Promise(() => {
         // This promise intentionally never resolves
-        process.on("SIGINT", async () => {
+        this.setupStopConditions(flags, async () => {
           this.logCliEvent(
             flags,
             "typing",
@@ -340,7 +350,7 @@ export default class TypingSubscribe extends ChatBaseCommand {
             this.log(`${chalk.green("Successfully disconnected.")}`);
           }
 
-          process.exit(0); // Reinstated: Explicit exit
+          process.exit(); // Explicit exit, keeping the exit code set for a timeout
         });
       });
     } catch (error) {
@@ -357,16 +367,7 @@ export default class TypingSubscribe extends ChatBaseCommand {
         this.ablyClient.close();
       }
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, roomId: args.roomId, success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to subscribe to typing indicators: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to subscribe to typing indicators");
     }
   }
 }
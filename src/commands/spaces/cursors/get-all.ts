@@ -5,6 +5,7 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { SpacesBaseCommand } from "../../../spaces-base-command.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 interface CursorPosition {
   x: number;
@@ -36,6 +37,7 @@ export default class SpacesCursorsGetAll extends SpacesBaseCommand {
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
+    ...outputFormatFlags,
   };
 
   // Declare class properties for clients and space
@@ -82,7 +84,7 @@ export default class SpacesCursorsGetAll extends SpacesBaseCommand {
       });
 
       // Get the space
-      if (!this.shouldOutputJson(flags)) {
+      if (!this.shouldOutputRecords(flags)) {
         this.log(`Connecting to space: ${chalk.cyan(spaceId)}...`);
       }
 
@@ -113,7 +115,7 @@ export default class SpacesCursorsGetAll extends SpacesBaseCommand {
                     flags,
                   ),
                 );
-              } else {
+              } else if (!this.shouldSuppressOutput(flags)) {
                 this.log(
                   `${chalk.green("Successfully entered space:")} ${chalk.cyan(spaceId)}`,
                 );
@@ -147,24 +149,20 @@ export default class SpacesCursorsGetAll extends SpacesBaseCommand {
       // Get all cursors
       const cursors = await this.space.cursors.getAll();
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              cursors: Array.isArray(cursors)
-                ? cursors.map((cursor: CursorUpdate) => ({
-                    clientId: cursor.clientId,
-                    connectionId: cursor.connectionId,
-                    data: cursor.data,
-                    position: cursor.position,
-                  }))
-                : [],
-              spaceId,
-              success: true,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: ["clientId", "connectionId", "position.x", "position.y"],
+          key: "cursors",
+          meta: { spaceId, success: true },
+          records: Array.isArray(cursors)
+            ? cursors.map((cursor: CursorUpdate) => ({
+                clientId: cursor.clientId,
+                connectionId: cursor.connectionId,
+                data: cursor.data,
+                position: cursor.position,
+              }))
+            : [],
+        });
       } else {
         if (!Array.isArray(cursors) || cursors.length === 0) {
           this.log("No cursors found in space.");
@@ -95,18 +95,7 @@ export default class SpacesCursorsSet extends SpacesBaseCommand {
           error: errorMsg,
           spaceId,
         });
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              { error: errorMsg, spaceId, success: false },
-              flags,
-            ),
-          );
-        } else {
-          this.error(errorMsg);
-        }
-
-        return;
+        this.error(errorMsg);
       }
 
       // Create Spaces client using setupSpacesClient
@@ -290,21 +279,13 @@ export default class SpacesCursorsSet extends SpacesBaseCommand {
         `Error setting cursor: ${errorMsg}`,
         { error: errorMsg, spaceId },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, spaceId, status: "error", success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Error: ${errorMsg}`);
-      }
 
       // Clean up on error
       if (this.realtimeClient) {
         this.realtimeClient.close();
       }
+
+      this.fail(error, "Error setting cursor");
     }
   }
 }
@@ -4,6 +4,8 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { SpacesBaseCommand } from "../../../spaces-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class SpacesCursorsSubscribe extends SpacesBaseCommand {
   static override args = {
@@ -19,10 +21,13 @@ export default class SpacesCursorsSubscribe extends SpacesBaseCommand {
     "$ ably spaces cursors subscribe my-space",
     "$ ably spaces cursors subscribe my-space --json",
     "$ ably spaces cursors subscribe my-space --pretty-json",
+    "$ ably spaces cursors subscribe my-space --filter 'data.color == \"red\"'",
   ];
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   private cleanupInProgress = false;
@@ -54,6 +59,7 @@ export default class SpacesCursorsSubscribe extends SpacesBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(SpacesCursorsSubscribe);
+    this.setupMessageFilter(flags);
     const { spaceId } = args;
 
     try {
@@ -162,6 +168,8 @@ export default class SpacesCursorsSubscribe extends SpacesBaseCommand {
       try {
         // Define the listener function
         this.listener = (cursorUpdate: CursorUpdate) => {
+          if (!this.passesMessageFilter(cursorUpdate)) return;
+
           try {
             const timestamp = new Date().toISOString();
             const eventData = {
@@ -191,6 +199,8 @@ export default class SpacesCursorsSubscribe extends SpacesBaseCommand {
                 `[${timestamp}] ${chalk.blue(cursorUpdate.clientId)} ${chalk.dim("position:")} ${JSON.stringify(cursorUpdate.position)}`,
               );
             }
+
+            this.checkStopConditions(flags, eventData);
           } catch (error) {
             const errorMsg = `Error processing cursor update: ${error instanceof Error ? error.message : String(error)}`;
             this.logCliEvent(flags, "cursor", "updateProcessError", errorMsg, {
@@ -441,8 +451,7 @@ export default class SpacesCursorsSubscribe extends SpacesBaseCommand {
           }
         };
 
-        process.once("SIGINT", cleanup);
-        process.once("SIGTERM", cleanup);
+        this.setupStopConditions(flags, cleanup);
       });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -453,16 +462,7 @@ export default class SpacesCursorsSubscribe extends SpacesBaseCommand {
         `Failed to subscribe to cursors: ${errorMsg}`,
         { error: errorMsg, spaceId },
       );
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            { error: errorMsg, spaceId, status: "error", success: false },
-            flags,
-          ),
-        );
-      } else {
-        this.error(`Failed to subscribe to cursors: ${errorMsg}`);
-      }
+      this.fail(error, "Failed to subscribe to cursors");
     }
   }
 }
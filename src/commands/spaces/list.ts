@@ -1,5 +1,7 @@
 import { Flags } from "@oclif/core";
 import { SpacesBaseCommand } from "../../spaces-base-command.js";
+import { CliError, categoryForStatusCode } from "../../services/cli-error.js";
+import { outputFormatFlags } from "../../services/output-formatter.js";
 import chalk from "chalk";
 
 interface SpaceMetrics {
@@ -36,6 +38,7 @@ export default class SpacesList extends SpacesBaseCommand {
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
+    ...outputFormatFlags,
     limit: Flags.integer({
       default: 100,
       description: "Maximum number of spaces to return",
@@ -81,8 +84,14 @@ export default class SpacesList extends SpacesBaseCommand {
       );
 
       if (channelsResponse.statusCode !== 200) {
-        this.error(`Failed to list spaces: ${channelsResponse.statusCode}`);
-        return;
+        throw new CliError(
+          `Failed to list spaces: ${channelsResponse.statusCode}`,
+          {
+            category:
+              categoryForStatusCode(channelsResponse.statusCode) ?? "ably",
+            statusCode: channelsResponse.statusCode,
+          },
+        );
       }
 
       // Filter to only include space channels
@@ -122,23 +131,27 @@ export default class SpacesList extends SpacesBaseCommand {
       // Limit the results to the requested number
       const limitedSpaces = spacesList.slice(0, flags.limit);
 
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              hasMore: spacesList.length > flags.limit,
-              shown: limitedSpaces.length,
-              spaces: limitedSpaces.map((space: SpaceItem) => ({
-                metrics: space.status?.occupancy?.metrics || {},
-                spaceName: space.spaceName,
-              })),
-              success: true,
-              timestamp: new Date().toISOString(),
-              total: spacesList.length,
-            },
-            flags,
-          ),
-        );
+      if (this.shouldOutputRecords(flags)) {
+        this.outputRecords(flags, {
+          columns: [
+            "spaceName",
+            "metrics.connections",
+            "metrics.publishers",
+            "metrics.subscribers",
+          ],
+          key: "spaces",
+          meta: {
+            hasMore: spacesList.length > flags.limit,
+            shown: limitedSpaces.length,
+            success: true,
+            timestamp: new Date().toISOString(),
+            total: spacesList.length,
+          },
+          records: limitedSpaces.map((space: SpaceItem) => ({
+            metrics: space.status?.occupancy?.metrics || {},
+            spaceName: space.spaceName,
+          })),
+        });
       } else {
         if (limitedSpaces.length === 0) {
           this.log("No active spaces found.");
@@ -190,22 +203,7 @@ export default class SpacesList extends SpacesBaseCommand {
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error listing spaces: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error, "Error listing spaces");
     } finally {
       client.close();
     }
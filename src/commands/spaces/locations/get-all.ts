@@ -1,10 +1,11 @@
 import Spaces from "@ably/spaces";
 import { type Space } from "@ably/spaces";
-import { Args, Flags } from "@oclif/core";
+import { Args } from "@oclif/core";
 import * as Ably from "ably";
 import chalk from "chalk";
 
 import { SpacesBaseCommand } from "../../../spaces-base-command.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 interface LocationData {
   [key: string]: unknown;
@@ -51,16 +52,12 @@ export default class SpacesLocationsGetAll extends SpacesBaseCommand {
     "$ ably spaces locations get-all my-space",
     "$ ably spaces locations get-all my-space --json",
     "$ ably spaces locations get-all my-space --pretty-json",
+    "$ ably spaces locations get-all my-space --format yaml",
   ];
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
-    format: Flags.string({
-      char: "f",
-      default: "text",
-      description: "Output format",
-      options: ["text", "json"],
-    }),
+    ...outputFormatFlags,
   };
 
   private realtimeClient: Ably.Realtime | null = null;
@@ -101,7 +98,10 @@ export default class SpacesLocationsGetAll extends SpacesBaseCommand {
         checkConnection();
       });
 
-      this.log(`Connecting to space: ${chalk.cyan(spaceId)}...`);
+      if (!this.shouldOutputRecords(flags)) {
+        this.log(`Connecting to space: ${chalk.cyan(spaceId)}...`);
+      }
+
       await this.space.enter();
 
       await new Promise<void>((resolve, reject) => {
@@ -113,9 +113,12 @@ export default class SpacesLocationsGetAll extends SpacesBaseCommand {
           try {
             if (this.realtimeClient!.connection.state === "connected") {
               clearTimeout(timeout);
-              this.log(
-                `${chalk.green("Connected to space:")} ${chalk.cyan(spaceId)}`,
-              );
+              if (!this.shouldOutputRecords(flags)) {
+                this.log(
+                  `${chalk.green("Connected to space:")} ${chalk.cyan(spaceId)}`,
+                );
+              }
+
               resolve();
             } else if (
               this.realtimeClient!.connection.state === "failed" ||
@@ -140,7 +143,7 @@ export default class SpacesLocationsGetAll extends SpacesBaseCommand {
         checkSpaceStatus();
       });
 
-      if (!this.shouldOutputJson(flags)) {
+      if (!this.shouldOutputRecords(flags)) {
         this.log(`Fetching locations for space ${chalk.cyan(spaceId)}...`);
       }
 
@@ -194,46 +197,45 @@ export default class SpacesLocationsGetAll extends SpacesBaseCommand {
           return true;
         });
 
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                locations: validLocations.map((item: LocationItem) => {
-                  const memberId =
-                    item.memberId ||
-                    item.member?.clientId ||
-                    item.clientId ||
-                    item.id ||
-                    item.userId ||
-                    "Unknown";
-                  const locationData =
-                    item.location ||
-                    item.data ||
-                    (() => {
-                      const {
-                        clientId: _clientId,
-                        connectionId: _connectionId,
-                        id: _id,
-                        member: _member,
-                        memberId: _memberId,
-                        userId: _userId,
-                        ...rest
-                      } = item;
-                      return rest;
-                    })();
-                  return {
-                    isCurrentMember: item.member?.isCurrentMember || false,
-                    location: locationData,
-                    memberId,
-                  };
-                }),
-                spaceId,
-                success: true,
-                timestamp: new Date().toISOString(),
-              },
-              flags,
-            ),
-          );
+        if (this.shouldOutputRecords(flags)) {
+          this.outputRecords(flags, {
+            columns: ["memberId", "location", "isCurrentMember"],
+            key: "locations",
+            meta: {
+              spaceId,
+              success: true,
+              timestamp: new Date().toISOString(),
+            },
+            records: validLocations.map((item: LocationItem) => {
+              const memberId =
+                item.memberId ||
+                item.member?.clientId ||
+                item.clientId ||
+                item.id ||
+                item.userId ||
+                "Unknown";
+              const locationData =
+                item.location ||
+                item.data ||
+                (() => {
+                  const {
+                    clientId: _clientId,
+                    connectionId: _connectionId,
+                    id: _id,
+                    member: _member,
+                    memberId: _memberId,
+                    userId: _userId,
+                    ...rest
+                  } = item;
+                  return rest;
+                })();
+              return {
+                isCurrentMember: item.member?.isCurrentMember || false,
+                location: locationData,
+                memberId,
+              };
+            }),
+          });
         } else if (!validLocations || validLocations.length === 0) {
           this.log(
             chalk.yellow("No locations are currently set in this space."),
@@ -299,28 +301,14 @@ export default class SpacesLocationsGetAll extends SpacesBaseCommand {
           }
         }
       } catch (error) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error: error instanceof Error ? error.message : String(error),
-                spaceId,
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(
-            `Error: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
+        this.fail(error, "Error getting locations");
       }
 
       try {
         await this.space.leave();
-        this.log(chalk.green("\nSuccessfully disconnected."));
+        if (!this.shouldOutputRecords(flags)) {
+          this.log(chalk.green("\nSuccessfully disconnected."));
+        }
       } catch (error) {
         this.log(
           chalk.yellow(
@@ -329,19 +317,7 @@ export default class SpacesLocationsGetAll extends SpacesBaseCommand {
         );
       }
     } catch (error) {
-      if (error === undefined || error === null) {
-        this.log(
-          chalk.red(
-            "An unknown error occurred (error object is undefined or null)",
-          ),
-        );
-      } else {
-        const errorMessage =
-          error instanceof Error
-            ? error.message
-            : String(error || "Unknown error");
-        this.log(chalk.red(`Error: ${errorMessage}`));
-      }
+      this.fail(error);
     } finally {
       try {
         if (this.realtimeClient) {
@@ -6,6 +6,8 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { SpacesBaseCommand } from "../../../spaces-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 // Define interfaces for location types
 interface SpaceMember {
@@ -43,10 +45,13 @@ export default class SpacesLocationsSubscribe extends SpacesBaseCommand {
     "$ ably spaces locations subscribe my-space",
     "$ ably spaces locations subscribe my-space --json",
     "$ ably spaces locations subscribe my-space --pretty-json",
+    "$ ably spaces locations subscribe my-space --filter 'currentLocation.slide == 3'",
   ];
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   private cleanupInProgress = false;
@@ -102,6 +107,7 @@ export default class SpacesLocationsSubscribe extends SpacesBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(SpacesLocationsSubscribe);
+    this.setupMessageFilter(flags);
     const { spaceId } = args;
 
     try {
@@ -318,6 +324,8 @@ export default class SpacesLocationsSubscribe extends SpacesBaseCommand {
       try {
         // Define the location update handler
         this.locationHandler = (update: LocationsEvents.UpdateEvent) => {
+          if (!this.passesMessageFilter(update)) return;
+
           try {
             const timestamp = new Date().toISOString();
             const eventData = {
@@ -361,6 +369,8 @@ export default class SpacesLocationsSubscribe extends SpacesBaseCommand {
                 `  ${chalk.dim("Previous:")} ${JSON.stringify(update.previousLocation)}`,
               );
             }
+
+            this.checkStopConditions(flags, { spaceId, ...eventData });
           } catch (error) {
             const errorMsg = `Error processing location update: ${error instanceof Error ? error.message : String(error)}`;
             this.logCliEvent(
@@ -548,8 +558,7 @@ export default class SpacesLocationsSubscribe extends SpacesBaseCommand {
           }
         };
 
-        process.once("SIGINT", cleanup);
-        process.once("SIGTERM", cleanup);
+        this.setupStopConditions(flags, cleanup);
       });
     } catch (error) {
       const errorMsg = `Error: ${error instanceof Error ? error.message : String(error)}`;
@@ -226,18 +226,7 @@ export default class SpacesLocksAcquire extends SpacesBaseCommand {
           error: errorMsg,
           lockId,
         });
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              { error: errorMsg, lockId, success: false },
-              flags,
-            ),
-          );
-        } else {
-          this.error(errorMsg);
-        }
-
-        return; // Exit if lock acquisition fails
+        this.fail(error, "Failed to acquire lock");
       }
 
       this.logCliEvent(
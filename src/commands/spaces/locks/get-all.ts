@@ -5,6 +5,7 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { SpacesBaseCommand } from "../../../spaces-base-command.js";
+import { outputFormatFlags } from "../../../services/output-formatter.js";
 
 interface LockItem {
   attributes?: Record<string, unknown>;
@@ -33,6 +34,7 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
+    ...outputFormatFlags,
   };
 
   // Declare class properties
@@ -77,7 +79,10 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
       });
 
       // Get the space
-      this.log(`Connecting to space: ${chalk.cyan(spaceId)}...`);
+      if (!this.shouldOutputRecords(flags)) {
+        this.log(`Connecting to space: ${chalk.cyan(spaceId)}...`);
+      }
+
       await this.space.enter();
 
       // Wait for space to be properly entered before fetching locks
@@ -90,9 +95,12 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
           try {
             if (this.realtimeClient!.connection.state === "connected") {
               clearTimeout(timeout);
-              this.log(
-                `${chalk.green("Connected to space:")} ${chalk.cyan(spaceId)}`,
-              );
+              if (!this.shouldOutputRecords(flags)) {
+                this.log(
+                  `${chalk.green("Connected to space:")} ${chalk.cyan(spaceId)}`,
+                );
+              }
+
               resolve();
             } else if (
               this.realtimeClient!.connection.state === "failed" ||
@@ -118,7 +126,7 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
       });
 
       // Get all locks
-      if (!this.shouldOutputJson(flags)) {
+      if (!this.shouldOutputRecords(flags)) {
         this.log(`Fetching locks for space ${chalk.cyan(spaceId)}...`);
       }
 
@@ -132,23 +140,22 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
           return true;
         });
 
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                locks: validLocks.map((lock) => ({
-                  attributes: lock.attributes || {},
-                  holder: lock.member?.clientId || null,
-                  id: lock.id,
-                  status: lock.status || "unknown",
-                })),
-                spaceId,
-                success: true,
-                timestamp: new Date().toISOString(),
-              },
-              flags,
-            ),
-          );
+        if (this.shouldOutputRecords(flags)) {
+          this.outputRecords(flags, {
+            columns: ["id", "status", "holder", "attributes"],
+            key: "locks",
+            meta: {
+              spaceId,
+              success: true,
+              timestamp: new Date().toISOString(),
+            },
+            records: validLocks.map((lock) => ({
+              attributes: lock.attributes || {},
+              holder: lock.member?.clientId || null,
+              id: lock.id,
+              status: lock.status || "unknown",
+            })),
+          });
         } else if (!validLocks || validLocks.length === 0) {
           this.log(
             chalk.yellow("No locks are currently active in this space."),
@@ -180,23 +187,7 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
           });
         }
       } catch (error) {
-        if (this.shouldOutputJson(flags)) {
-          this.log(
-            this.formatJsonOutput(
-              {
-                error: error instanceof Error ? error.message : String(error),
-                spaceId: args.spaceId,
-                status: "error",
-                success: false,
-              },
-              flags,
-            ),
-          );
-        } else {
-          this.error(
-            `Error: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
+        this.fail(error, "Error getting locks");
       }
 
       try {
@@ -212,7 +203,7 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
               flags,
             ),
           );
-        } else {
+        } else if (!this.shouldSuppressOutput(flags)) {
           this.log(chalk.green("\nSuccessfully disconnected."));
         }
       } catch (error) {
@@ -237,23 +228,7 @@ export default class SpacesLocksGetAll extends SpacesBaseCommand {
         }
       }
     } catch (error) {
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput(
-            {
-              error: error instanceof Error ? error.message : String(error),
-              spaceId: args.spaceId,
-              status: "error",
-              success: false,
-            },
-            flags,
-          ),
-        );
-      } else {
-        this.error(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+      this.fail(error);
     } finally {
       try {
         if (this.realtimeClient) {
@@ -4,6 +4,8 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { SpacesBaseCommand } from "../../../spaces-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class SpacesLocksSubscribe extends SpacesBaseCommand {
   static override args = {
@@ -19,10 +21,13 @@ export default class SpacesLocksSubscribe extends SpacesBaseCommand {
     "$ ably spaces locks subscribe my-space",
     "$ ably spaces locks subscribe my-space --json",
     "$ ably spaces locks subscribe my-space --pretty-json",
+    "$ ably spaces locks subscribe my-space --filter 'status == \"locked\"'",
   ];
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   private cleanupInProgress = false;
@@ -53,6 +58,7 @@ export default class SpacesLocksSubscribe extends SpacesBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(SpacesLocksSubscribe);
+    this.setupMessageFilter(flags);
     const { spaceId } = args;
 
     try {
@@ -251,6 +257,8 @@ export default class SpacesLocksSubscribe extends SpacesBaseCommand {
       // Handle lock acquired/released events
       try {
         await this.space.locks.subscribe("update", (lock: Lock) => {
+          if (!this.passesMessageFilter(lock)) return;
+
           const timestamp = new Date().toISOString();
           const eventData = {
             lockId: lock.id,
@@ -294,6 +302,8 @@ export default class SpacesLocksSubscribe extends SpacesBaseCommand {
               this.log(`  ${chalk.dim("Reason:")} ${lock.reason.message}`);
             }
           }
+
+          this.checkStopConditions(flags, { spaceId, ...eventData });
         });
         this.logCliEvent(
           flags,
@@ -435,7 +445,7 @@ export default class SpacesLocksSubscribe extends SpacesBaseCommand {
           }
         };
 
-        cleanup();
+        this.setupStopConditions(flags, cleanup);
       });
     } catch (error) {
       const errorMsg = `Error during command execution: ${error instanceof Error ? error.message : String(error)}`;
@@ -118,18 +118,7 @@ export default class SpacesMembersEnter extends SpacesBaseCommand {
             error: errorMsg,
             spaceId,
           });
-          if (this.shouldOutputJson(flags)) {
-            this.log(
-              this.formatJsonOutput(
-                { error: errorMsg, spaceId, success: false },
-                flags,
-              ),
-            );
-          } else {
-            this.error(errorMsg);
-          }
-
-          return;
+          this.error(errorMsg);
         }
       }
 
@@ -473,13 +462,7 @@ export default class SpacesMembersEnter extends SpacesBaseCommand {
       this.logCliEvent(flags, "error", "unhandledError", errorMsg, {
         error: errorMsg,
       });
-      if (this.shouldOutputJson(flags)) {
-        this.log(
-          this.formatJsonOutput({ error: errorMsg, success: false }, flags),
-        );
-      } else {
-        this.error(errorMsg);
-      }
+      this.fail(error);
     }
   }
 }
@@ -6,6 +6,8 @@ import * as Ably from "ably";
 import chalk from "chalk";
 
 import { SpacesBaseCommand } from "../../../spaces-base-command.js";
+import { filterFlags } from "../../../services/message-filter.js";
+import { stopConditionFlags } from "../../../services/stop-conditions.js";
 
 export default class SpacesMembersSubscribe extends SpacesBaseCommand {
   static override args = {
@@ -22,10 +24,14 @@ export default class SpacesMembersSubscribe extends SpacesBaseCommand {
     "$ ably spaces members subscribe my-space",
     "$ ably spaces members subscribe my-space --json",
     "$ ably spaces members subscribe my-space --pretty-json",
+    '$ ably spaces members subscribe my-space --until "action=enter" --duration 30',
+    "$ ably spaces members subscribe my-space --filter 'lastEvent.name == \"enter\"'",
   ];
 
   static override flags = {
     ...SpacesBaseCommand.globalFlags,
+    ...stopConditionFlags,
+    ...filterFlags,
   };
 
   private cleanupInProgress = false;
@@ -64,6 +70,7 @@ export default class SpacesMembersSubscribe extends SpacesBaseCommand {
 
   async run(): Promise<void> {
     const { args, flags } = await this.parse(SpacesMembersSubscribe);
+    this.setupMessageFilter(flags);
     const { spaceId } = args;
 
     // Keep track of the last event we've seen for each client to avoid duplicates
@@ -217,6 +224,8 @@ export default class SpacesMembersSubscribe extends SpacesBaseCommand {
 
       // Define the listener function
       this.listener = (member: SpaceMember) => {
+        if (!this.passesMessageFilter(member)) return;
+
         const timestamp = new Date().toISOString();
         const now = Date.now();
 
@@ -327,6 +336,8 @@ export default class SpacesMembersSubscribe extends SpacesBaseCommand {
             this.log(`  ${chalk.dim("Status:")} Not connected`);
           }
         }
+
+        this.checkStopConditions(flags, memberEventData);
       };
 
       // Subscribe using the stored listener
@@ -347,7 +358,6 @@ export default class SpacesMembersSubscribe extends SpacesBaseCommand {
       );
       // Keep the process running until interrupted
       await new Promise<void>((_resolve, _reject) => {
-        // eslint-disable-next-line unicorn/consistent-function-scoping
         const cleanup = async () => {
           if (this.cleanupInProgress) return;
           this.cleanupInProgress = true;
@@ -478,7 +488,7 @@ export default class SpacesMembersSubscribe extends SpacesBaseCommand {
           }
         };
 
-        cleanup();
+        this.setupStopConditions(flags, cleanup);
       });
     } catch (error) {
       const errorMsg = `Error during execution: ${error instanceof Error ? error.message : String(error)}`;
@@ -1,8 +1,9 @@
 import chalk from "chalk";
 
 import { AblyBaseCommand } from "./base-command.js";
+import { CliError } from "./services/cli-error.js";
 import { ControlApi, App } from "./services/control-api.js";
-import { BaseFlags, ErrorDetails } from "./types/cli.js";
+import { BaseFlags } from "./types/cli.js";
 
 export abstract class ControlBaseCommand extends AblyBaseCommand {
   // Add flags specific to control API commands
@@ -20,17 +21,19 @@ export abstract class ControlBaseCommand extends AblyBaseCommand {
     if (!accessToken) {
       const account = this.configManager.getCurrentAccount();
       if (!account) {
-        this.error(
+        throw new CliError(
           `No access token provided. Please specify --access-token or configure an account with "ably accounts login".`,
+          { category: "auth" },
         );
       }
 
-      accessToken = account.accessToken;
+      accessToken = this.configManager.getAccessToken();
     }
 
     if (!accessToken) {
-      this.error(
+      throw new CliError(
         `No access token provided. Please specify --access-token or configure an account with "ably accounts login".`,
+        { category: "auth" },
       );
     }
 
@@ -82,28 +85,22 @@ export abstract class ControlBaseCommand extends AblyBaseCommand {
     // Otherwise, need to look it up by name
     const controlApi = this.createControlApi({});
 
+    let apps: App[];
     try {
-      const apps = await controlApi.listApps();
-      const matchingApp = apps.find((app: App) => app.name === appNameOrId);
-
-      if (matchingApp) {
-        return matchingApp.id;
-      }
-
-      this.error(
-        chalk.red(
-          `App "${appNameOrId}" not found. Please provide a valid app ID or name.`,
-        ),
-      );
+      apps = await controlApi.listApps();
     } catch (error) {
-      this.error(
-        chalk.red(
-          `Failed to look up app "${appNameOrId}": ${error instanceof Error ? error.message : String(error)}`,
-        ),
+      this.fail(error, `Failed to look up app "${appNameOrId}"`);
+    }
+
+    const matchingApp = apps.find((app: App) => app.name === appNameOrId);
+    if (!matchingApp) {
+      throw new CliError(
+        `App "${appNameOrId}" not found. Please provide a valid app ID or name.`,
+        { category: "not-found" },
       );
     }
 
-    return appNameOrId; // This will never be reached, but TypeScript needs a return
+    return matchingApp.id;
   }
 
   /**
@@ -134,14 +131,8 @@ export abstract class ControlBaseCommand extends AblyBaseCommand {
 
       return app.id;
     } catch (error) {
-      this.error(
-        chalk.red(
-          `Failed to get apps: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
+      this.fail(error, "Failed to get apps");
     }
-
-    return ""; // This will never be reached, but TypeScript needs a return
   }
 
   /**
@@ -170,24 +161,8 @@ export abstract class ControlBaseCommand extends AblyBaseCommand {
       const api = this.createControlApi(flags);
       return await apiCall(api);
     } catch (error: unknown) {
-      const isJsonMode = this.shouldOutputJson(flags);
-      // Safely get the error message
-      const errorMessageText = `${errorMessage}: ${error instanceof Error ? error.message : String(error)}`;
-
-      if (isJsonMode) {
-        // Pass the error object itself as details
-        // The `outputJsonError` helper handles stringifying it
-        this.outputJsonError(errorMessageText, error as ErrorDetails);
-        // Exit explicitly in JSON mode after outputting error to stderr
-        this.exit(1);
-      } else {
-        // Use the standard oclif error for non-JSON modes
-        this.error(errorMessageText);
-      }
-
-      // This line is technically unreachable due to this.error or this.exit
-      // but needed for TypeScript's control flow analysis
-      return null;
+      // The catch() hook writes the JSON error envelope or the message and hint
+      this.fail(error, errorMessage);
     }
   }
 }
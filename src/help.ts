@@ -18,7 +18,7 @@ export default class CustomHelp extends Help {
   constructor(config: Config, opts?: Record<string, unknown>) {
     super(config, opts);
     this.webCliMode = process.env.ABLY_WEB_CLI_MODE === "true";
-    this.configManager = new ConfigManager();
+    this.configManager = new ConfigManager({ tolerateLoadErrors: true });
   }
 
   // Override formatHelpOutput to apply stripAnsi when necessary
@@ -164,10 +164,11 @@ export default class CustomHelp extends Help {
 
     // 4. Login prompt (if needed and not in web mode)
     if (!this.webCliMode) {
-      const accessToken =
-        process.env.ABLY_ACCESS_TOKEN || this.configManager.getAccessToken();
+      const hasAccessToken =
+        Boolean(process.env.ABLY_ACCESS_TOKEN) ||
+        this.configManager.hasAccessToken();
       const apiKey = process.env.ABLY_API_KEY;
-      if (!accessToken && !apiKey) {
+      if (!hasAccessToken && !apiKey) {
         lines.push(
           "",
           chalk.yellow(
@@ -204,11 +205,12 @@ export default class CustomHelp extends Help {
     lines.push(...webCliCommands);
 
     // 4. Check if login recommendation is needed
-    const accessToken =
-      process.env.ABLY_ACCESS_TOKEN || this.configManager.getAccessToken();
+    const hasAccessToken =
+      Boolean(process.env.ABLY_ACCESS_TOKEN) ||
+      this.configManager.hasAccessToken();
     const apiKey = process.env.ABLY_API_KEY;
 
-    if (!accessToken && !apiKey) {
+    if (!hasAccessToken && !apiKey) {
       lines.push(
         "",
         chalk.yellow(
@@ -0,0 +1,276 @@
+import * as Ably from "ably";
+
+/** Messages kept per live channel before the oldest are dropped */
+export const LIVE_BUFFER_SIZE = 1000;
+
+/** Minimum time between update notifications for one channel */
+const NOTIFY_INTERVAL_MS = 250;
+
+const LIVE_URI_PATTERN = /^ably:\/\/channels\/([^/?]+)\/live(?:\?.*)?$/;
+
+export interface BufferedMessage {
+  clientId?: string;
+  connectionId?: string;
+  data: unknown;
+  id?: string;
+  name?: string;
+  /** Position in the channel's buffer, used as the read cursor */
+  sequence: number;
+  timestamp?: number;
+}
+
+export interface BufferRead {
+  /** Pass as ?cursor= to read only messages that arrive after these */
+  cursor: number;
+  /** Messages after the requested cursor that were dropped from the full buffer */
+  dropped: number;
+  messages: BufferedMessage[];
+}
+
+/** The URI of the live resource for a channel */
+export function liveChannelUri(channel: string): string {
+  return `ably://channels/${encodeURIComponent(channel)}/live`;
+}
+
+/** The channel named by a live resource URI, or undefined for other URIs */
+export function parseLiveChannelUri(uri: string): string | undefined {
+  const match = uri.match(LIVE_URI_PATTERN);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Keeps the most recent messages of a channel, numbering each so readers can
+ * resume from a cursor and tell how many messages they missed
+ */
+export class MessageBuffer {
+  private capacity: number;
+  private messages: BufferedMessage[] = [];
+  private nextSequence = 0;
+
+  constructor(capacity = LIVE_BUFFER_SIZE) {
+    this.capacity = capacity;
+  }
+
+  public push(message: Omit<BufferedMessage, "sequence">): BufferedMessage {
+    const buffered = { ...message, sequence: this.nextSequence++ };
+    this.messages.push(buffered);
+    if (this.messages.length > this.capacity) {
+      this.messages.splice(0, this.messages.length - this.capacity);
+    }
+
+    return buffered;
+  }
+
+  public read(cursor = 0, limit?: number): BufferRead {
+    const oldest = this.messages[0]?.sequence ?? this.nextSequence;
+    const start = Math.max(cursor, oldest);
+    const available = this.messages.filter((m) => m.sequence >= start);
+    const messages =
+      limit === undefined ? available : available.slice(0, Math.max(limit, 0));
+    const last = messages.at(-1);
+    return {
+      cursor: last ? last.sequence + 1 : start,
+      dropped: Math.max(oldest - cursor, 0),
+      messages,
+    };
+  }
+}
+
+interface LiveChannel {
+  buffer: MessageBuffer;
+  channel: Ably.RealtimeChannel;
+  controller: AbortController;
+  listener: Ably.messageCallback<Ably.InboundMessage>;
+  notifyTimer?: NodeJS.Timeout;
+  /** Reads in progress, which keep the channel attached until they finish */
+  readers: number;
+  /** Settles once the channel is attached and its messages are buffered */
+  ready: Promise<void>;
+  /** URIs clients subscribed to with resources/subscribe */
+  subscribers: Set<string>;
+}
+
+export interface ChannelSubscriptionsOptions {
+  /**
+   * The server's in-flight operations; each live channel adds its controller
+   * so that aborting them on shutdown detaches from the channel
+   */
+  activeOperations: Set<AbortController>;
+  bufferSize?: number;
+  createClient(): Ably.Realtime;
+  /** Send notifications/resources/updated for a subscribed URI */
+  notify(uri: string): Promise<void>;
+}
+
+/**
+ * Live channel resources for one MCP session. Subscribing to a live resource
+ * attaches to the channel and buffers its messages until its last URI is
+ * unsubscribed or the session ends. A channel nobody is subscribed to has
+ * no buffer, so reading it returns no messages.
+ */
+export class ChannelSubscriptions {
+  private channels: Map<string, LiveChannel> = new Map();
+  private client?: Ably.Realtime;
+  private options: ChannelSubscriptionsOptions;
+
+  constructor(options: ChannelSubscriptionsOptions) {
+    this.options = options;
+  }
+
+  /** Detach from every live channel, closing the connection */
+  public close(): void {
+    for (const live of this.channels.values()) {
+      live.controller.abort();
+    }
+  }
+
+  /**
+   * Read buffered messages. A channel nobody is subscribed to is not
+   * attached, as any messages published before the read would be missed.
+   */
+  public async read(
+    channelName: string,
+    cursor = 0,
+    limit?: number,
+  ): Promise<BufferRead & { channel: string; subscribed: boolean }> {
+    const live = this.channels.get(channelName);
+    if (!live) {
+      return {
+        channel: channelName,
+        cursor,
+        dropped: 0,
+        messages: [],
+        subscribed: false,
+      };
+    }
+
+    live.readers++;
+    try {
+      await live.ready;
+      return {
+        channel: channelName,
+        ...live.buffer.read(cursor, limit),
+        subscribed: live.subscribers.size > 0,
+      };
+    } finally {
+      live.readers--;
+      this.release(live);
+    }
+  }
+
+  public async subscribe(uri: string): Promise<void> {
+    const live = this.attach(this.channelFromUri(uri));
+    live.subscribers.add(uri);
+    await live.ready;
+  }
+
+  public async unsubscribe(uri: string): Promise<void> {
+    const live = this.channels.get(this.channelFromUri(uri));
+    if (!live) return;
+
+    live.subscribers.delete(uri);
+    this.release(live);
+  }
+
+  /**
+   * Get the live channel, attaching and buffering if it is not live yet.
+   * Callers take a reference before awaiting `ready` and give it up with
+   * release().
+   */
+  private attach(channelName: string): LiveChannel {
+    const existing = this.channels.get(channelName);
+    if (existing) return existing;
+
+    this.client ??= this.options.createClient();
+    const channel = this.client.channels.get(channelName);
+    const controller = new AbortController();
+    const buffer = new MessageBuffer(this.options.bufferSize);
+    const live: LiveChannel = {
+      buffer,
+      channel,
+      controller,
+      listener: (message) => {
+        buffer.push({
+          clientId: message.clientId,
+          connectionId: message.connectionId,
+          data: message.data,
+          id: message.id,
+          name: message.name,
+          timestamp: message.timestamp,
+        });
+        this.scheduleNotify(live);
+      },
+      readers: 0,
+      ready: Promise.resolve(),
+      subscribers: new Set(),
+    };
+    this.channels.set(channelName, live);
+    this.options.activeOperations.add(controller);
+    controller.signal.addEventListener("abort", () => {
+      void this.detach(channelName, live);
+    });
+
+    live.ready = channel.subscribe(live.listener).then(
+      () => {},
+      (error: unknown) => {
+        controller.abort();
+        throw error;
+      },
+    );
+    return live;
+  }
+
+  private channelFromUri(uri: string): string {
+    const channelName = parseLiveChannelUri(uri);
+    if (!channelName) {
+      throw new Error(
+        `Only live channel resources (ably://channels/{channel}/live) can be subscribed to, not ${uri}`,
+      );
+    }
+
+    return channelName;
+  }
+
+  private async detach(channelName: string, live: LiveChannel): Promise<void> {
+    clearTimeout(live.notifyTimer);
+    this.options.activeOperations.delete(live.controller);
+    if (this.channels.get(channelName) === live) {
+      this.channels.delete(channelName);
+    }
+
+    live.channel.unsubscribe(live.listener);
+    // A read or subscribe since the abort may have made the channel live again
+    if (!this.channels.has(channelName)) {
+      try {
+        await live.channel.detach();
+      } catch {
+        // The connection may already be closing
+      }
+    }
+
+    if (this.channels.size === 0 && this.client) {
+      this.client.close();
+      this.client = undefined;
+    }
+  }
+
+  /** Detach once no reads or subscriptions are left */
+  private release(live: LiveChannel): void {
+    if (live.readers === 0 && live.subscribers.size === 0) {
+      live.controller.abort();
+    }
+  }
+
+  private scheduleNotify(live: LiveChannel): void {
+    if (live.notifyTimer || live.subscribers.size === 0) return;
+
+    live.notifyTimer = setTimeout(() => {
+      live.notifyTimer = undefined;
+      for (const uri of live.subscribers) {
+        this.options.notify(uri).catch((error: unknown) => {
+          console.error(`Error notifying subscribers of ${uri}:`, error);
+        });
+      }
+    }, NOTIFY_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,522 @@
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer,
+} from "node:http";
+import { AddressInfo } from "node:net";
+
+import { ConfigManager } from "../services/config-manager.js";
+import { McpPolicyEnforcer } from "../services/mcp-policy.js";
+import { AblyMcpServer, McpCredentials } from "./mcp-server.js";
+
+/** Streamable HTTP endpoint: POST requests, GET notification stream, DELETE to end a session */
+export const MCP_HTTP_PATH = "/mcp";
+/** Legacy HTTP+SSE endpoints for clients that predate Streamable HTTP */
+export const MCP_SSE_PATH = "/sse";
+export const MCP_SSE_MESSAGES_PATH = "/messages";
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MAX_SESSIONS = 100;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Headers a session can use to bring its own Ably credentials */
+export const CREDENTIAL_HEADERS = {
+  accessToken: "x-ably-access-token",
+  apiKey: "x-ably-api-key",
+  clientId: "x-ably-client-id",
+} as const;
+
+const ALLOWED_HEADERS = [
+  "authorization",
+  "content-type",
+  "last-event-id",
+  "mcp-session-id",
+  ...Object.values(CREDENTIAL_HEADERS),
+];
+
+export interface McpHttpServerOptions {
+  allowMutations: boolean;
+  /** Accept clients without a bearer token, only on a loopback address */
+  allowUnauthenticated?: boolean;
+  /** Host names clients may use besides the bound host and loopback names */
+  allowedHosts?: string[];
+  /** Bearer token clients must send unless allowUnauthenticated is set */
+  authToken?: string;
+  configManager: ConfigManager;
+  controlHost?: string;
+  /** Origins allowed to make cross-origin requests, or "*" for any */
+  corsOrigins: string[];
+  host: string;
+  /** Sessions that can be open at once; clients opening more are refused */
+  maxSessions?: number;
+  /** Safety policy shared by all sessions */
+  policy?: McpPolicyEnforcer;
+  port: number;
+  /**
+   * Close sessions, and the live channels they hold, once they have had no
+   * request open for this long
+   */
+  sessionIdleTimeoutMs?: number;
+  /**
+   * Let sessions that send no credentials of their own use the configured
+   * access token and API key
+   */
+  shareConfiguredCredentials?: boolean;
+}
+
+interface McpSession {
+  idleTimer?: NodeJS.Timeout;
+  /** Requests still being answered, including open notification streams */
+  openRequests: number;
+  server: AblyMcpServer;
+  transport: Transport;
+}
+
+class HttpError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+function withoutBrackets(host: string): string {
+  return host.replace(/^\[(.*)]$/, "$1").toLowerCase();
+}
+
+/**
+ * Check a Host header against the host names the server answers to, so a
+ * web page can't reach it through a DNS name rebound to this machine
+ */
+export function isAllowedHost(
+  header: string | undefined,
+  allowedHosts: string[],
+): boolean {
+  if (!header) return false;
+
+  let name: string;
+  try {
+    name = withoutBrackets(new URL(`http://${header}`).hostname);
+  } catch {
+    return false;
+  }
+
+  return allowedHosts.some((allowed) => withoutBrackets(allowed) === name);
+}
+
+/** Requests without an Origin header don't come from a browser page */
+export function isAllowedOrigin(
+  origin: string | undefined,
+  allowedOrigins: string[],
+): boolean {
+  return (
+    origin === undefined ||
+    allowedOrigins.includes("*") ||
+    allowedOrigins.includes(origin)
+  );
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/** Check an Authorization header against the expected bearer token in constant time */
+export function isAuthorized(
+  header: string | undefined,
+  authToken: string,
+): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  return timingSafeEqual(sha256(match[1].trim()), sha256(authToken));
+}
+
+/** CORS response headers for a request origin, empty if the origin is not allowed */
+export function corsHeaders(
+  origin: string | undefined,
+  allowedOrigins: string[],
+): Record<string, string> {
+  let allowOrigin: string | undefined;
+  if (allowedOrigins.includes("*")) {
+    allowOrigin = "*";
+  } else if (origin && allowedOrigins.includes(origin)) {
+    allowOrigin = origin;
+  }
+
+  if (!allowOrigin) return {};
+
+  return {
+    "Access-Control-Allow-Headers": ALLOWED_HEADERS.join(", "),
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Origin": allowOrigin,
+    "Access-Control-Expose-Headers": "mcp-session-id",
+    "Access-Control-Max-Age": "600",
+    ...(allowOrigin === "*" ? {} : { Vary: "Origin" }),
+  };
+}
+
+/** Ably credentials sent by a client when it opens a session */
+export function sessionCredentials(
+  headers: IncomingHttpHeaders,
+): McpCredentials {
+  const header = (name: string) => {
+    const value = headers[name];
+    return (Array.isArray(value) ? value[0] : value) || undefined;
+  };
+
+  return {
+    accessToken: header(CREDENTIAL_HEADERS.accessToken),
+    apiKey: header(CREDENTIAL_HEADERS.apiKey),
+    clientId:
+      header(CREDENTIAL_HEADERS.clientId) ??
+      `mcp-${Math.random().toString(36).slice(2, 10)}`,
+  };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  // Browsers send other content types cross-origin without a CORS preflight
+  const contentType = req.headers["content-type"]?.split(";")[0].trim();
+  if (contentType?.toLowerCase() !== "application/json") {
+    throw new HttpError(415, "Content-Type must be application/json");
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function sendError(
+  res: ServerResponse,
+  statusCode: number,
+  message: string,
+  headers: Record<string, string> = {},
+): void {
+  if (res.headersSent) return;
+
+  res.writeHead(statusCode, { ...headers, "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      error: { code: -32_000, message },
+      id: null,
+      jsonrpc: "2.0",
+    }),
+  );
+}
+
+/**
+ * Serves the MCP server over Streamable HTTP and SSE so that many clients
+ * can share one endpoint. Each session gets its own AblyMcpServer, using the
+ * credentials sent when it was opened, or the configured ones only if the
+ * operator shares them.
+ */
+export class McpHttpServer {
+  private allowedHosts: string[];
+  private httpServer?: Server;
+  private options: McpHttpServerOptions;
+  private sessions: Map<string, McpSession> = new Map();
+
+  constructor(options: McpHttpServerOptions) {
+    if (!options.authToken && !options.allowUnauthenticated) {
+      throw new Error(
+        "An auth token is required; set --auth-token, or --allow-unauthenticated to accept any client on a loopback address",
+      );
+    }
+
+    if (!options.authToken && !isLoopbackHost(options.host)) {
+      throw new Error(
+        `An auth token is required to listen on ${options.host}; only loopback addresses can be used without one`,
+      );
+    }
+
+    this.options = options;
+    // 0.0.0.0 and :: listen everywhere but are never the host clients ask for
+    const boundHost = ["0.0.0.0", "::"].includes(options.host)
+      ? []
+      : [options.host];
+    this.allowedHosts = [
+      "localhost",
+      "127.0.0.1",
+      "::1",
+      ...boundHost,
+      ...(options.allowedHosts ?? []),
+    ];
+  }
+
+  public async close(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    for (const { idleTimer } of sessions) clearTimeout(idleTimer);
+    await Promise.allSettled(sessions.map(({ server }) => server.close()));
+
+    const { httpServer } = this;
+    if (!httpServer) return;
+
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+    });
+  }
+
+  /** Start listening, returning the bound address (useful with port 0) */
+  public async start(): Promise<AddressInfo> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error: unknown) => {
+        if (error instanceof HttpError) {
+          sendError(res, error.statusCode, error.message);
+          return;
+        }
+
+        console.error("Error handling MCP HTTP request:", error);
+        sendError(res, 500, "Internal server error");
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    return httpServer.address() as AddressInfo;
+  }
+
+  private async createSession(
+    req: IncomingMessage,
+    transport: Transport,
+    onClose: () => void,
+  ): Promise<AblyMcpServer> {
+    const credentials = sessionCredentials(req.headers);
+    const server = new AblyMcpServer(this.options.configManager, {
+      allowMutations: this.options.allowMutations,
+      controlHost: this.options.controlHost,
+      credentials,
+      policy: this.options.policy,
+      // A session with its own credentials never mixes in the operator's
+      useConfiguredCredentials:
+        (this.options.shareConfiguredCredentials ?? false) &&
+        !credentials.accessToken &&
+        !credentials.apiKey,
+    });
+    await server.connect(transport, onClose);
+    return server;
+  }
+
+  private forgetSession(sessionId: string): void {
+    clearTimeout(this.sessions.get(sessionId)?.idleTimer);
+    this.sessions.delete(sessionId);
+  }
+
+  private hasRoomForSession(res: ServerResponse): boolean {
+    if (
+      this.sessions.size < (this.options.maxSessions ?? DEFAULT_MAX_SESSIONS)
+    ) {
+      return true;
+    }
+
+    sendError(res, 503, "Too many open sessions, try again later");
+    return false;
+  }
+
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    if (!isAllowedHost(req.headers.host, this.allowedHosts)) {
+      sendError(res, 403, `Host not allowed: ${req.headers.host ?? ""}`);
+      return;
+    }
+
+    if (!isAllowedOrigin(req.headers.origin, this.options.corsOrigins)) {
+      sendError(res, 403, `Origin not allowed: ${req.headers.origin}`);
+      return;
+    }
+
+    const cors = corsHeaders(req.headers.origin, this.options.corsOrigins);
+    for (const [name, value] of Object.entries(cors)) {
+      res.setHeader(name, value);
+    }
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (
+      this.options.authToken &&
+      !isAuthorized(req.headers.authorization, this.options.authToken)
+    ) {
+      sendError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    switch (url.pathname) {
+      case MCP_HTTP_PATH: {
+        await this.handleStreamableHttp(req, res);
+        return;
+      }
+
+      case MCP_SSE_MESSAGES_PATH: {
+        await this.handleSseMessage(req, res, url);
+        return;
+      }
+
+      case MCP_SSE_PATH: {
+        await this.handleSseStream(req, res);
+        return;
+      }
+
+      default: {
+        sendError(res, 404, `Not found: ${url.pathname}`);
+      }
+    }
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+  ): Promise<void> {
+    if (req.method !== "POST") {
+      sendError(res, 405, "Method not allowed");
+      return;
+    }
+
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const session = this.sessions.get(sessionId);
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      sendError(res, 404, "Session not found");
+      return;
+    }
+
+    this.trackRequest(sessionId, session, res);
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  private async handleSseStream(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    if (req.method !== "GET") {
+      sendError(res, 405, "Method not allowed");
+      return;
+    }
+
+    if (!this.hasRoomForSession(res)) return;
+
+    const transport = new SSEServerTransport(MCP_SSE_MESSAGES_PATH, res);
+    const { sessionId } = transport;
+    const server = await this.createSession(req, transport, () =>
+      this.forgetSession(sessionId),
+    );
+    const session: McpSession = { openRequests: 0, server, transport };
+    this.sessions.set(sessionId, session);
+    // The session lasts as long as this stream, which keeps it from idling
+    this.trackRequest(sessionId, session, res);
+    console.error(`MCP SSE session ${sessionId} opened`);
+  }
+
+  private async handleStreamableHttp(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader)
+      ? sessionHeader[0]
+      : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        sendError(res, 404, "Session not found");
+        return;
+      }
+
+      this.trackRequest(sessionId, session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendError(
+        res,
+        400,
+        "An mcp-session-id header is required for requests other than initialize",
+      );
+      return;
+    }
+
+    if (!this.hasRoomForSession(res)) return;
+
+    const transport = new StreamableHTTPServerTransport({
+      onsessioninitialized: (id) => {
+        const session: McpSession = { openRequests: 0, server, transport };
+        this.sessions.set(id, session);
+        this.trackRequest(id, session, res);
+        console.error(`MCP session ${id} opened`);
+      },
+      sessionIdGenerator: () => randomUUID(),
+    });
+    const server = await this.createSession(req, transport, () => {
+      if (transport.sessionId) this.forgetSession(transport.sessionId);
+    });
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Count a request against its session, starting the idle timer once the
+   * session has no requests left open
+   */
+  private trackRequest(
+    sessionId: string,
+    session: McpSession,
+    res: ServerResponse,
+  ): void {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      session.openRequests--;
+      if (session.openRequests > 0 || !this.sessions.has(sessionId)) return;
+
+      session.idleTimer = setTimeout(() => {
+        this.forgetSession(sessionId);
+        console.error(`MCP session ${sessionId} closed after being idle`);
+        session.server.close().catch((error: unknown) => {
+          console.error(`Error closing MCP session ${sessionId}:`, error);
+        });
+      }, this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS);
+      session.idleTimer.unref();
+    });
+  }
+}
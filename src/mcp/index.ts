@@ -1 +1,2 @@
+export { McpHttpServer } from "./http-server.js";
 export { AblyMcpServer } from "./mcp-server.js";
@@ -4,6 +4,12 @@ import {
 } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import { StdioServerTransport as StdioConnection } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { URL } from "node:url";
 
@@ -11,19 +17,26 @@ import ChannelsHistory from "../commands/channels/history.js";
 import ChannelsList from "../commands/channels/list.js";
 import ChannelsPresenceSubscribe from "../commands/channels/presence/subscribe.js";
 import ChannelsPublish from "../commands/channels/publish.js";
-import ChannelsSubscribe from "../commands/channels/subscribe.js";
 import { ConfigManager } from "../services/config-manager.js";
+import { McpPolicyEnforcer, defaultPolicy } from "../services/mcp-policy.js";
 import Ably, { Connection } from "ably";
-// Comment to explain why we're not using these directly but still need to import
-// We need these types from control-api but using them through a different interface
+import path from "node:path";
 import {
-  ControlApi as _ImportedControlApi,
+  ControlApi,
   App as ControlApp,
   Key as ControlKey,
 } from "../services/control-api.js";
-
-// Maximum execution time for long-running operations (15 seconds)
-const MAX_EXECUTION_TIME = 15_000;
+import {
+  ChannelSubscriptions,
+  parseLiveChannelUri,
+} from "./channel-subscriptions.js";
+import {
+  McpToolContext,
+  registerResources,
+  registerTools,
+} from "./tool-registry.js";
+import { McpPolicyGuard } from "./policy-guard.js";
+import { MCP_RESOURCES, MCP_TOOLS } from "./tools/index.js";
 
 interface Message {
   clientId?: string;
@@ -86,23 +99,8 @@ interface AblyClient {
   connection: Connection;
 }
 
-interface ControlApiClient {
-  listApps: () => Promise<ControlApp[]>;
-  getAppStats: (appId: string, options?: GetStatsParams) => Promise<unknown>;
-  listKeys: (appId: string) => Promise<ControlKey[]>;
-}
-
 // Define interfaces for parameters
 
-// Define GetStatsParams based on Control API structure
-interface GetStatsParams {
-  unit?: "minute" | "hour" | "day" | "month";
-  direction?: "forwards" | "backwards";
-  limit?: number;
-  start?: number; // epoch ms
-  end?: number; // epoch ms
-}
-
 interface AppStatsParams {
   app?: string;
   end?: number;
@@ -123,7 +121,6 @@ type CommandClass =
   | typeof ChannelsList
   | typeof ChannelsHistory
   | typeof ChannelsPublish
-  | typeof ChannelsSubscribe
   | typeof ChannelsPresenceSubscribe;
 
 // Define the return type for executeCommand
@@ -137,24 +134,71 @@ type CommandResult =
 type ParamsType = Record<string, string | string[] | undefined>;
 type ListParamsType = { variables?: ParamsType; signal?: AbortSignal };
 
+/**
+ * Credentials for one MCP session, which take precedence over the configured
+ * account and app. Used by HTTP sessions that bring their own credentials.
+ */
+export interface McpCredentials {
+  accessToken?: string;
+  apiKey?: string;
+  clientId?: string;
+}
+
 export class AblyMcpServer {
   private activeOperations: Set<AbortController> = new Set();
+  private allowMutations: boolean;
   private configManager: ConfigManager;
   private controlHost?: string;
+  private credentials: McpCredentials;
+  private guard: McpPolicyGuard;
+  private liveChannels: ChannelSubscriptions;
   private server: McpServer;
+  private useConfiguredCredentials: boolean;
 
   constructor(
     configManager: ConfigManager,
-    options?: { controlHost?: string },
+    options?: {
+      allowMutations?: boolean;
+      controlHost?: string;
+      credentials?: McpCredentials;
+      /** Shared by HTTP sessions so publish limits apply across them */
+      policy?: McpPolicyEnforcer;
+      /**
+       * Use the configured access token and API key, or ABLY_ACCESS_TOKEN and
+       * ABLY_API_KEY, for credentials missing from `credentials`
+       */
+      useConfiguredCredentials?: boolean;
+    },
   ) {
+    this.allowMutations = options?.allowMutations ?? false;
     this.configManager = configManager;
     this.controlHost = options?.controlHost;
+    this.credentials = options?.credentials ?? {};
+    this.useConfiguredCredentials = options?.useConfiguredCredentials ?? true;
+
+    const policy = options?.policy ?? new McpPolicyEnforcer(defaultPolicy());
+    this.guard = new McpPolicyGuard(policy, {
+      auditLog:
+        policy.policy.auditLog ??
+        path.join(
+          path.dirname(configManager.getConfigPath()),
+          "mcp-audit.jsonl",
+        ),
+      getClientId: () =>
+        this.credentials.clientId ?? process.env.ABLY_CLIENT_ID,
+    });
 
     // Initialize the MCP server
     this.server = new McpServer({
       name: "Ably CLI",
       version: process.env.npm_package_version || "1.0.0",
     });
+
+    this.liveChannels = new ChannelSubscriptions({
+      activeOperations: this.activeOperations,
+      createClient: () => new Ably.Realtime(this.getClientOptions()),
+      notify: (uri) => this.server.server.sendResourceUpdated({ uri }),
+    });
   }
 
   public async start(): Promise<void> {
@@ -163,16 +207,12 @@ export class AblyMcpServer {
     // Set up client ID if not provided
     this.setupClientId();
 
-    // Set up tools and resources
-    this.setupTools();
-    this.setupResources();
-
     // Create a stdio transport
     const transport = new StdioConnection();
 
     try {
       // Connect the server to the transport
-      await this.server.connect(transport);
+      await this.connect(transport);
 
       console.error("MCP server ready, waiting for requests...");
 
@@ -185,6 +225,82 @@ export class AblyMcpServer {
     }
   }
 
+  /** Abort active operations and disconnect from the transport */
+  public async close(): Promise<void> {
+    this.liveChannels.close();
+    for (const controller of this.activeOperations) {
+      controller.abort();
+    }
+
+    await this.server.close();
+  }
+
+  /**
+   * Register the tools and resources and connect to a transport: stdio for
+   * start(), or the transport of one HTTP session
+   *
+   * @param onClose Called when the client disconnects. The server takes over
+   * the transport's onclose handler, so set this instead.
+   */
+  public async connect(
+    transport: Transport,
+    onClose?: () => void,
+  ): Promise<void> {
+    // Set up tools and resources
+    this.setupTools();
+    this.setupResources();
+    this.setupLiveChannels();
+
+    // Chat, Spaces and Control API tools, with mutating tools only if allowed
+    const context = this.createToolContext();
+    const toolNames = registerTools(this.server, MCP_TOOLS, context, {
+      allowMutations: this.allowMutations,
+      guard: this.guard,
+    });
+    registerResources(this.server, MCP_RESOURCES, context, this.guard);
+    if (!this.allowMutations) {
+      console.error(
+        "Tools that change Ably resources are disabled; start with --allow-mutations to enable them",
+      );
+    }
+
+    console.error(`Registered tools: ${toolNames.join(", ")}`);
+
+    await this.server.connect(transport);
+
+    // Stop buffering live channels when the client disconnects
+    // eslint-disable-next-line unicorn/prefer-add-event-listener
+    this.server.server.onclose = () => {
+      this.liveChannels.close();
+      onClose?.();
+    };
+  }
+
+  private createToolContext(): McpToolContext {
+    return {
+      configManager: this.configManager,
+      getControlApi: () => this.getControlApi(),
+      getRestClient: async () => new Ably.Rest(this.getClientOptions()),
+      isChannelAllowed: (name) => this.guard.allowsChannel(name),
+      resolveAppId: (app?: string) => {
+        const appId = app || this.configManager.getCurrentAppId();
+        if (!appId) {
+          throw new Error("No app ID provided and no default app selected");
+        }
+
+        return appId;
+      },
+      withRealtime: async (operation) => {
+        const client = new Ably.Realtime(this.getClientOptions());
+        try {
+          return await operation(client);
+        } finally {
+          client.close();
+        }
+      },
+    };
+  }
+
   private async executeChannelsHistoryCommand(
     args: string[],
   ): Promise<Message[]> {
@@ -252,12 +368,16 @@ export class AblyMcpServer {
       // Ensure response.items is an array before mapping
       const items = Array.isArray(response.items) ? response.items : [];
 
-      // Map response to simplified format
-      return items.map((channel: Record<string, unknown>) => ({
-        name: channel.channelId as string,
-        occupancy: channel.occupancy as Record<string, unknown>,
-        status: (channel.status as Record<string, unknown>) || {},
-      }));
+      // Map response to simplified format, leaving out channels the policy refuses
+      return items
+        .filter((channel: Record<string, unknown>) =>
+          this.guard.allowsChannel(String(channel.channelId)),
+        )
+        .map((channel: Record<string, unknown>) => ({
+          name: channel.channelId as string,
+          occupancy: channel.occupancy as Record<string, unknown>,
+          status: (channel.status as Record<string, unknown>) || {},
+        }));
     } catch (error: unknown) {
       console.error("Error listing channels:", error);
       throw new Error(
@@ -391,109 +511,9 @@ export class AblyMcpServer {
     }
   }
 
-  private async executeChannelsSubscribeCommand(
-    args: string[],
-    signal?: AbortSignal,
-  ): Promise<Message[]> {
-    try {
-      // Parse arguments
-      const channelName =
-        args.find((arg) => !arg.startsWith("-") && arg !== "--json") || "";
-      if (!channelName) {
-        throw new Error("Channel name is required");
-      }
-
-      const rewind = Number.parseInt(this.getArgValue(args, "--rewind") || "0");
-
-      // Get Ably client
-      const ably = await this.getAblyClient();
-
-      // Get channel
-      const channel = ably.channels.get(channelName);
-
-      // Subscribe for messages
-      const messages: Message[] = [];
-
-      // Create a promise that resolves when signal is aborted or timeout
-      const abortPromise = new Promise<void>((resolve) => {
-        if (signal) {
-          signal.addEventListener("abort", () => resolve());
-        }
-
-        // Also set a timeout
-        setTimeout(() => resolve(), MAX_EXECUTION_TIME);
-      });
-
-      // Create a promise for subscription
-      const _subscribePromise = new Promise<Message[]>((_resolve) => {
-        // Handle rewind if specified
-        if (rewind > 0) {
-          void (async () => {
-            try {
-              let currentPage: PaginatedResult<RealtimeMessage> | null =
-                await channel.history({
-                  direction: "backwards",
-                  limit: rewind,
-                });
-              while (currentPage) {
-                currentPage.items.forEach((msg: RealtimeMessage) => {
-                  messages.push({
-                    clientId: msg.clientId,
-                    connectionId: msg.connectionId,
-                    data: msg.data,
-                    id: msg.id ?? `no-id-${Date.now()}`,
-                    name: msg.name ?? "no-name",
-                    timestamp: msg.timestamp ?? Date.now(),
-                  });
-                });
-
-                if (!currentPage.hasNext()) {
-                  break;
-                }
-
-                currentPage = await currentPage.next();
-              }
-            } catch (historyError) {
-              console.error(
-                "Error fetching history during rewind:",
-                historyError,
-              );
-            }
-          })();
-        }
-
-        // Subscribe to new messages
-        const _subscription = channel.subscribe((msg: RealtimeMessage) => {
-          messages.push({
-            clientId: msg.clientId as string | undefined,
-            connectionId: msg.connectionId as string,
-            data: msg.data,
-            id: msg.id as string,
-            name: msg.name as string,
-            timestamp: msg.timestamp as number,
-          });
-        });
-      });
-
-      // Wait for abort or timeout
-      await abortPromise;
-
-      // Unsubscribe
-      await channel.unsubscribe();
-
-      return messages;
-    } catch (error: unknown) {
-      console.error("Error subscribing to channel:", error);
-      throw new Error(
-        `Failed to subscribe: ${error instanceof Error ? error.message : String(error)}`,
-      );
-    }
-  }
-
   private async executeCommand(
     CommandClass: CommandClass,
     args: string[] | PublishParams,
-    signal?: AbortSignal,
   ): Promise<CommandResult> {
     try {
       // Create direct execution functions for each command type
@@ -513,13 +533,6 @@ export class AblyMcpServer {
         return this.executeChannelsPublishCommand(args);
       }
 
-      if (CommandClass === ChannelsSubscribe) {
-        return this.executeChannelsSubscribeCommand(
-          Array.isArray(args) ? args : ["--json", args.channel],
-          signal,
-        );
-      }
-
       if (CommandClass === ChannelsPresenceSubscribe) {
         return this.executeChannelsPresenceCommand(
           Array.isArray(args) ? args : ["--json", args.channel],
@@ -539,23 +552,9 @@ export class AblyMcpServer {
       const AblyModule = await import("ably");
       const Ably = AblyModule.default;
 
-      // Get API key from config
-      const apiKey = this.configManager.getApiKey() || process.env.ABLY_API_KEY;
-
-      if (!apiKey) {
-        throw new Error(
-          'No API key configured. Please run "ably login" or set ABLY_API_KEY environment variable',
-        );
-      }
-
-      const clientOptions = {
-        clientId: process.env.ABLY_CLIENT_ID,
-        key: apiKey,
-      };
-
       // Create Ably REST client (not Realtime, to avoid connections)
       // Note: We can't use createAblyRestClient here since this class doesn't extend AblyBaseCommand
-      const client = new Ably.Rest(clientOptions);
+      const client = new Ably.Rest(this.getClientOptions());
 
       // Type assertion to ensure compatibility with our interface
       return client as unknown as AblyClient;
@@ -567,6 +566,55 @@ export class AblyMcpServer {
     }
   }
 
+  private getClientOptions(): Ably.ClientOptions {
+    // Get API key from the session, or else from config
+    const apiKey =
+      this.credentials.apiKey ||
+      (this.useConfiguredCredentials
+        ? this.configManager.getApiKey() || process.env.ABLY_API_KEY
+        : undefined);
+
+    if (!apiKey) {
+      throw new Error(
+        this.useConfiguredCredentials
+          ? 'No API key configured. Please run "ably login" or set ABLY_API_KEY environment variable'
+          : "No API key was sent when this session was opened",
+      );
+    }
+
+    return {
+      clientId: this.credentials.clientId ?? process.env.ABLY_CLIENT_ID,
+      key: apiKey,
+    };
+  }
+
+  /**
+   * Run a tool handler through the safety policy, which records the call in
+   * the audit log and may refuse it
+   */
+  private guarded<Args extends object>(
+    tool: string,
+    policy: {
+      channels?: (args: Args) => string[];
+      /** Whether the tool changes anything in Ably, as for McpTool */
+      mutating?: boolean;
+      payload?: (args: Args) => unknown;
+    },
+    handler: (args: Args) => Promise<CallToolResult>,
+  ): (args: Args) => Promise<CallToolResult> {
+    return (args) =>
+      this.guard.run(
+        {
+          arguments: args as Record<string, unknown>,
+          channels: policy.channels?.(args) ?? [],
+          mutating: policy.mutating ?? false,
+          payload: policy.payload?.(args),
+          tool,
+        },
+        () => handler(args),
+      );
+  }
+
   private getArgValue(args: string[], flag: string): string | undefined {
     const index = args.indexOf(flag);
     if (index !== -1 && index < args.length - 1) {
@@ -577,15 +625,19 @@ export class AblyMcpServer {
   }
 
   // Helper method to get a Control API instance
-  private async getControlApi(): Promise<ControlApiClient> {
+  private async getControlApi(): Promise<ControlApi> {
     try {
-      const { ControlApi } = await import("../services/control-api.js");
       const accessToken =
-        process.env.ABLY_ACCESS_TOKEN || this.configManager.getAccessToken();
+        this.credentials.accessToken ||
+        (this.useConfiguredCredentials
+          ? process.env.ABLY_ACCESS_TOKEN || this.configManager.getAccessToken()
+          : undefined);
 
       if (!accessToken) {
         throw new Error(
-          'No access token configured. Please run "ably login" to authenticate.',
+          this.useConfiguredCredentials
+            ? 'No access token configured. Please run "ably login" to authenticate.'
+            : "No access token was sent when this session was opened",
         );
       }
 
@@ -609,8 +661,98 @@ export class AblyMcpServer {
     }
   }
 
+  /**
+   * Live channel resources, which buffer a channel's messages while it is
+   * subscribed to. Subscribers get notifications/resources/updated as
+   * messages arrive, and read with ?cursor= to get only the messages since
+   * their last read.
+   */
+  private setupLiveChannels(): void {
+    this.server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    const readLiveChannel = async (uri: URL) => {
+      const channel = parseLiveChannelUri(uri.href);
+      if (channel) this.guard.assertChannels([channel]);
+
+      try {
+        if (!channel) {
+          throw new Error("Channel name is required");
+        }
+
+        const cursorParam = uri.searchParams.get("cursor");
+        const cursor = cursorParam === null ? undefined : Number(cursorParam);
+        if (
+          cursor !== undefined &&
+          !(Number.isInteger(cursor) && cursor >= 0)
+        ) {
+          throw new Error(`Invalid cursor "${cursorParam}"`);
+        }
+
+        const result = await this.liveChannels.read(channel, cursor);
+        return {
+          contents: [
+            {
+              mimeType: "application/json",
+              text: JSON.stringify(result, null, 2),
+              uri: uri.href,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error("Error reading live channel resource:", error);
+        throw new Error(
+          `Failed to read live channel: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    };
+
+    // The cursor variant is separate as query expressions only match when present
+    this.server.resource(
+      "channel_live",
+      new ResourceTemplate("ably://channels/{channel}/live", {
+        list: undefined,
+      }),
+      {
+        description:
+          "Messages on a channel since the resource was subscribed to. Subscribe to buffer the channel's messages and be notified of new ones; reading a channel that is not subscribed to returns no messages.",
+        mimeType: "application/json",
+      },
+      readLiveChannel,
+    );
+    this.server.resource(
+      "channel_live_since",
+      new ResourceTemplate("ably://channels/{channel}/live{?cursor}", {
+        list: undefined,
+      }),
+      {
+        description:
+          "Messages on a live channel from a cursor returned by an earlier read",
+        mimeType: "application/json",
+      },
+      readLiveChannel,
+    );
+
+    this.server.server.setRequestHandler(
+      SubscribeRequestSchema,
+      async (request) => {
+        const channel = parseLiveChannelUri(request.params.uri);
+        if (channel) this.guard.assertChannels([channel]);
+
+        await this.liveChannels.subscribe(request.params.uri);
+        return {};
+      },
+    );
+    this.server.server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request) => {
+        await this.liveChannels.unsubscribe(request.params.uri);
+        return {};
+      },
+    );
+  }
+
   private setupResources(): void {
-    const resourceMethod = this.server.resource;
+    const resourceMethod = this.server.resource.bind(this.server);
 
     // Channels resource
     resourceMethod(
@@ -688,15 +830,17 @@ export class AblyMcpServer {
         list: undefined,
       }),
       async (uri: URL, params: ParamsType) => {
+        const channelParam = params.channel;
+        const channel =
+          typeof channelParam === "string"
+            ? channelParam
+            : Array.isArray(channelParam)
+              ? channelParam[0]
+              : undefined;
+        if (channel) this.guard.assertChannels([channel]);
+
         try {
           const args = ["--json"];
-          const channelParam = params.channel;
-          const channel =
-            typeof channelParam === "string"
-              ? channelParam
-              : Array.isArray(channelParam)
-                ? channelParam[0]
-                : undefined;
           if (channel) args.push(channel);
 
           const history = await this.executeCommand(ChannelsHistory, args);
@@ -726,15 +870,17 @@ export class AblyMcpServer {
         list: undefined,
       }),
       async (uri: URL, params: ParamsType) => {
+        const channelParam = params.channel;
+        const channel =
+          typeof channelParam === "string"
+            ? channelParam
+            : Array.isArray(channelParam)
+              ? channelParam[0]
+              : undefined;
+        if (channel) this.guard.assertChannels([channel]);
+
         try {
           const args = ["--json"];
-          const channelParam = params.channel;
-          const channel =
-            typeof channelParam === "string"
-              ? channelParam
-              : Array.isArray(channelParam)
-                ? channelParam[0]
-                : undefined;
           if (channel) args.push(channel);
 
           const presence = await this.executeCommand(
@@ -940,29 +1086,33 @@ export class AblyMcpServer {
           .describe("Maximum number of channels to return"),
         prefix: z.string().optional().describe("Filter channels by prefix"),
       },
-      async (_params: { limit?: number; prefix?: string }) => {
-        try {
-          const result = await this.executeCommand(ChannelsList, [
-            "--json",
-            ...(_params.prefix ? ["--prefix", _params.prefix] : []),
-            ...(_params.limit ? ["--limit", _params.limit.toString()] : []),
-          ]);
+      this.guarded(
+        "list_channels",
+        {},
+        async (_params: { limit?: number; prefix?: string }) => {
+          try {
+            const result = await this.executeCommand(ChannelsList, [
+              "--json",
+              ...(_params.prefix ? ["--prefix", _params.prefix] : []),
+              ...(_params.limit ? ["--limit", _params.limit.toString()] : []),
+            ]);
 
-          return {
-            content: [
-              {
-                text: JSON.stringify(result, null, 2),
-                type: "text",
-              },
-            ],
-          };
-        } catch (error) {
-          console.error("Error listing channels:", error);
-          throw new Error(
-            `Failed to list channels: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      },
+            return {
+              content: [
+                {
+                  text: JSON.stringify(result, null, 2),
+                  type: "text",
+                },
+              ],
+            };
+          } catch (error) {
+            console.error("Error listing channels:", error);
+            throw new Error(
+              `Failed to list channels: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        },
+      ),
     );
 
     // Channel History tool
@@ -980,86 +1130,104 @@ export class AblyMcpServer {
           .optional()
           .describe("Maximum number of messages to retrieve"),
       },
-      async (_params: {
-        channel: string;
-        direction?: string;
-        limit?: number;
-      }) => {
-        try {
-          const args = ["--json", _params.channel];
-          if (_params.limit) args.push("--limit", _params.limit.toString());
-          if (_params.direction) args.push("--direction", _params.direction);
+      this.guarded(
+        "get_channel_history",
+        { channels: (args) => [args.channel] },
+        async (_params: {
+          channel: string;
+          direction?: string;
+          limit?: number;
+        }) => {
+          try {
+            const args = ["--json", _params.channel];
+            if (_params.limit) args.push("--limit", _params.limit.toString());
+            if (_params.direction) args.push("--direction", _params.direction);
 
-          const result = await this.executeCommand(ChannelsHistory, args);
-          return {
-            content: [
-              {
-                text: JSON.stringify(result, null, 2),
-                type: "text",
-              },
-            ],
-          };
-        } catch (error) {
-          console.error("Error getting channel history:", error);
-          throw new Error(
-            `Failed to get channel history: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      },
+            const result = await this.executeCommand(ChannelsHistory, args);
+            return {
+              content: [
+                {
+                  text: JSON.stringify(result, null, 2),
+                  type: "text",
+                },
+              ],
+            };
+          } catch (error) {
+            console.error("Error getting channel history:", error);
+            throw new Error(
+              `Failed to get channel history: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        },
+      ),
     );
 
-    // Publish to Channel tool
-    this.server.tool(
-      "publish_to_channel",
-      "Publish a message to an Ably channel",
-      {
-        channel: z.string().describe("Name of the channel to publish to"),
-        message: z
-          .string()
-          .describe("Message content to publish (can be string or JSON)"),
-        name: z
-          .string()
-          .optional()
-          .describe("Event name (optional, defaults to 'message')"),
-      },
-      async (_params: { channel: string; message: string; name?: string }) => {
-        try {
-          // Try to parse message as JSON if it's a string
-          let messageContent = _params.message;
-          if (typeof messageContent === "string") {
+    // Publish to Channel tool, which writes, so only with --allow-mutations
+    if (this.allowMutations) {
+      this.server.tool(
+        "publish_to_channel",
+        "Publish a message to an Ably channel",
+        {
+          channel: z.string().describe("Name of the channel to publish to"),
+          message: z
+            .string()
+            .describe("Message content to publish (can be string or JSON)"),
+          name: z
+            .string()
+            .optional()
+            .describe("Event name (optional, defaults to 'message')"),
+        },
+        this.guarded(
+          "publish_to_channel",
+          {
+            channels: (args) => [args.channel],
+            mutating: true,
+            payload: (args) => args.message,
+          },
+          async (_params: {
+            channel: string;
+            message: string;
+            name?: string;
+          }) => {
             try {
-              messageContent = JSON.parse(messageContent);
-            } catch {
-              // Keep as string if not valid JSON
-            }
-          }
+              // Try to parse message as JSON if it's a string
+              let messageContent = _params.message;
+              if (typeof messageContent === "string") {
+                try {
+                  messageContent = JSON.parse(messageContent);
+                } catch {
+                  // Keep as string if not valid JSON
+                }
+              }
 
-          // Create parameters object with parsed message
-          const paramsWithParsedMessage = {
-            ..._params,
-            message: messageContent,
-          };
+              // Create parameters object with parsed message
+              const paramsWithParsedMessage = {
+                ..._params,
+                message: messageContent,
+              };
 
-          // Pass parameters in the format expected by executeChannelsPublishCommand
-          const result = await this.executeChannelsPublishCommand(
-            paramsWithParsedMessage,
-          );
-          return {
-            content: [
-              {
-                text: JSON.stringify(result, null, 2),
-                type: "text",
-              },
-            ],
-          };
-        } catch (error) {
-          console.error("Error publishing to channel:", error);
-          throw new Error(
-            `Failed to publish to channel: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      },
-    );
+              // Pass parameters in the format expected by executeChannelsPublishCommand
+              const result = await this.executeChannelsPublishCommand(
+                paramsWithParsedMessage,
+              );
+              return {
+                content: [
+                  {
+                    text: JSON.stringify(result, null, 2),
+                    type: "text",
+                  },
+                ],
+              };
+            } catch (error) {
+              console.error("Error publishing to channel:", error);
+              throw new Error(
+                `Failed to publish to channel: ${error instanceof Error ? error.message : String(error)}`,
+              );
+            }
+          },
+        ),
+      );
+    }
 
     // Channel Presence tool
     this.server.tool(
@@ -1068,29 +1236,33 @@ export class AblyMcpServer {
       {
         channel: z.string().describe("Name of the channel to get presence for"),
       },
-      async (_params: { channel: string }) => {
-        try {
-          const args = ["--json", _params.channel];
+      this.guarded(
+        "get_channel_presence",
+        { channels: (args) => [args.channel] },
+        async (_params: { channel: string }) => {
+          try {
+            const args = ["--json", _params.channel];
 
-          const result = await this.executeCommand(
-            ChannelsPresenceSubscribe,
-            args,
-          );
-          return {
-            content: [
-              {
-                text: JSON.stringify(result, null, 2),
-                type: "text",
-              },
-            ],
-          };
-        } catch (error) {
-          console.error("Error getting channel presence:", error);
-          throw new Error(
-            `Failed to get channel presence: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      },
+            const result = await this.executeCommand(
+              ChannelsPresenceSubscribe,
+              args,
+            );
+            return {
+              content: [
+                {
+                  text: JSON.stringify(result, null, 2),
+                  type: "text",
+                },
+              ],
+            };
+          } catch (error) {
+            console.error("Error getting channel presence:", error);
+            throw new Error(
+              `Failed to get channel presence: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        },
+      ),
     );
 
     // Apps List tool
@@ -1104,7 +1276,7 @@ export class AblyMcpServer {
           .default("json")
           .describe("Output format (json or pretty)"),
       },
-      async (_params: { format?: string }) => {
+      this.guarded("list_apps", {}, async (_params: { format?: string }) => {
         try {
           // Create a Control API instance
           const controlApi = await this.getControlApi();
@@ -1133,7 +1305,7 @@ export class AblyMcpServer {
             `Failed to list apps: ${error instanceof Error ? error.message : String(error)}`,
           );
         }
-      },
+      }),
     );
 
     // Apps Stats tool
@@ -1166,7 +1338,7 @@ export class AblyMcpServer {
           .default("minute")
           .describe("Time unit for stats"),
       },
-      async (_params: AppStatsParams) => {
+      this.guarded("get_app_stats", {}, async (_params: AppStatsParams) => {
         try {
           // Use provided app ID or fall back to default app ID
           const appId = _params.app || this.configManager.getCurrentAppId();
@@ -1205,7 +1377,7 @@ export class AblyMcpServer {
             `Failed to get app stats: ${error instanceof Error ? error.message : String(error)}`,
           );
         }
-      },
+      }),
     );
 
     // Auth Keys List tool
@@ -1220,7 +1392,7 @@ export class AblyMcpServer {
             "App ID to list keys for (uses current app if not provided)",
           ),
       },
-      async (_params: { app?: string }) => {
+      this.guarded("list_auth_keys", {}, async (_params: { app?: string }) => {
         try {
           // Get app ID from parameter or current config
           const appId = _params.app || this.configManager.getCurrentAppId();
@@ -1268,7 +1440,7 @@ export class AblyMcpServer {
             `Failed to list keys: ${error instanceof Error ? error.message : String(error)}`,
           );
         }
-      },
+      }),
     );
   }
 
@@ -0,0 +1,131 @@
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  McpAuditRecord,
+  McpPolicyEnforcer,
+  McpToolInvocation,
+  appendMcpAuditRecord,
+} from "../services/mcp-policy.js";
+
+/**
+ * Applies the safety policy to tool calls and resource reads, recording
+ * every tool call in the audit log
+ */
+export class McpPolicyGuard {
+  private auditLog: string;
+  private enforcer: McpPolicyEnforcer;
+  private getClientId: () => string | undefined;
+
+  constructor(
+    enforcer: McpPolicyEnforcer,
+    options: { auditLog: string; getClientId: () => string | undefined },
+  ) {
+    this.enforcer = enforcer;
+    this.auditLog = options.auditLog;
+    this.getClientId = options.getClientId;
+  }
+
+  /**
+   * Throw a JSON-RPC error naming the policy if any of the channels are not
+   * allowed, for resource reads and subscriptions
+   */
+  public assertChannels(channels: string[]): void {
+    for (const channel of channels) {
+      const decision = this.enforcer.checkChannel(channel);
+      if (!decision.allowed) {
+        throw new McpError(ErrorCode.InvalidRequest, decision.message, {
+          channel,
+          policy: decision.policy,
+        });
+      }
+    }
+  }
+
+  /**
+   * Whether the channel policy allows a channel, room or space, so listings
+   * leave out the ones a session could not use
+   */
+  public allowsChannel(channel: string): boolean {
+    return this.enforcer.checkChannel(channel).allowed;
+  }
+
+  /**
+   * Run a tool call if the policy allows it. A refused call returns a tool
+   * error whose JSON content names the policy that blocked it.
+   */
+  public async run<T>(
+    invocation: McpToolInvocation,
+    run: () => Promise<T>,
+  ): Promise<CallToolResult | T> {
+    const decision = this.enforcer.check(invocation);
+    const timestamp = new Date().toISOString();
+    if (!decision.allowed) {
+      this.audit({
+        arguments: invocation.arguments,
+        clientId: this.getClientId(),
+        decision: "denied",
+        policy: decision.policy,
+        reason: decision.message,
+        timestamp,
+        tool: invocation.tool,
+      });
+      return {
+        content: [
+          {
+            text: JSON.stringify(
+              {
+                error: {
+                  code: "policy_denied",
+                  message: decision.message,
+                  policy: decision.policy,
+                  tool: invocation.tool,
+                },
+              },
+              null,
+              2,
+            ),
+            type: "text",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const started = Date.now();
+    try {
+      const result = await run();
+      this.audit({
+        arguments: invocation.arguments,
+        clientId: this.getClientId(),
+        decision: "allowed",
+        durationMs: Date.now() - started,
+        timestamp,
+        tool: invocation.tool,
+      });
+      return result;
+    } catch (error) {
+      this.audit({
+        arguments: invocation.arguments,
+        clientId: this.getClientId(),
+        decision: "allowed",
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp,
+        tool: invocation.tool,
+      });
+      throw error;
+    }
+  }
+
+  private audit(record: McpAuditRecord): void {
+    try {
+      appendMcpAuditRecord(this.auditLog, record);
+    } catch (error) {
+      console.error(`Error writing to audit log ${this.auditLog}:`, error);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as Ably from "ably";
+import { z } from "zod";
+
+import type { ConfigManager } from "../services/config-manager.js";
+import type { ControlApi } from "../services/control-api.js";
+import type { McpPolicyGuard } from "./policy-guard.js";
+
+/**
+ * What tools and resources need from the server: credentials from the
+ * config, and clients for the product and Control APIs
+ */
+export interface McpToolContext {
+  configManager: ConfigManager;
+  getControlApi(): Promise<ControlApi>;
+  getRestClient(): Promise<Ably.Rest>;
+  /** Whether the channel policy allows a channel, room or space name */
+  isChannelAllowed(name: string): boolean;
+  /** The app given to a tool, or the current app */
+  resolveAppId(app?: string): string;
+  /** Run an operation with a Realtime client that is closed afterwards */
+  withRealtime<T>(operation: (client: Ably.Realtime) => Promise<T>): Promise<T>;
+}
+
+/** The app parameter taken by tools that use the Control API */
+export const appParam = z
+  .string()
+  .optional()
+  .describe("App ID (uses the current app if not provided)");
+
+/**
+ * A tool and the functions that use its arguments. These are declared as
+ * methods, whose parameters TypeScript checks bivariantly, so a tool with
+ * specific parameters is still an McpTool and tools can share one list.
+ */
+export interface McpTool<Args extends z.ZodRawShape = z.ZodRawShape> {
+  /** Channel, room or space names a call uses, checked against the channel policy */
+  channels?(args: z.objectOutputType<Args, z.ZodTypeAny>): string[];
+  description: string;
+  /**
+   * Whether the tool changes anything in Ably. Mutating tools are only
+   * registered when the server is started with --allow-mutations.
+   */
+  mutating?: boolean;
+  name: string;
+  params: Args;
+  /** What a call publishes, checked against the publish limits */
+  payload?(args: z.objectOutputType<Args, z.ZodTypeAny>): unknown;
+  /** Returns the same shape as the equivalent command's --json output */
+  run(
+    args: z.objectOutputType<Args, z.ZodTypeAny>,
+    context: McpToolContext,
+  ): Promise<unknown>;
+}
+
+export interface McpResource {
+  channels?(params: Record<string, string>): string[];
+  description: string;
+  name: string;
+  read(
+    params: Record<string, string>,
+    context: McpToolContext,
+  ): Promise<unknown>;
+  /** RFC 6570 URI template, e.g. "ably://rooms/{room}/messages" */
+  uriTemplate: string;
+}
+
+/**
+ * Define a tool, typing the arguments its functions get from its parameters
+ */
+export function defineTool<Args extends z.ZodRawShape>(
+  tool: McpTool<Args>,
+): McpTool {
+  return tool;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Register tools with the server, leaving out mutating tools unless they
+ * are allowed and running calls through the safety policy. Returns the
+ * names of the tools registered.
+ */
+export function registerTools(
+  server: McpServer,
+  tools: McpTool[],
+  context: McpToolContext,
+  options: { allowMutations: boolean; guard: McpPolicyGuard },
+): string[] {
+  const registered: string[] = [];
+  for (const tool of tools) {
+    if (tool.mutating && !options.allowMutations) continue;
+
+    server.tool(tool.name, tool.description, tool.params, async (args) =>
+      options.guard.run(
+        {
+          arguments: args,
+          channels: tool.channels?.(args) ?? [],
+          mutating: tool.mutating ?? false,
+          payload: tool.payload?.(args),
+          tool: tool.name,
+        },
+        async () => {
+          try {
+            const result = await tool.run(args, context);
+            return {
+              content: [
+                {
+                  text: JSON.stringify(result, null, 2),
+                  type: "text" as const,
+                },
+              ],
+            };
+          } catch (error) {
+            console.error(`Error running ${tool.name}:`, error);
+            throw new Error(`${tool.name} failed: ${errorMessage(error)}`);
+          }
+        },
+      ),
+    );
+    registered.push(tool.name);
+  }
+
+  return registered;
+}
+
+/**
+ * Register resource templates with the server. Resources are read-only and
+ * are not listed, as their URIs name rooms, spaces and apps. Reads of rooms
+ * and spaces the channel policy does not allow are refused.
+ */
+export function registerResources(
+  server: McpServer,
+  resources: McpResource[],
+  context: McpToolContext,
+  guard: McpPolicyGuard,
+): void {
+  for (const resource of resources) {
+    server.resource(
+      resource.name,
+      new ResourceTemplate(resource.uriTemplate, { list: undefined }),
+      { description: resource.description, mimeType: "application/json" },
+      async (uri, variables) => {
+        const params: Record<string, string> = {};
+        for (const [name, value] of Object.entries(variables)) {
+          params[name] = decodeURIComponent(
+            Array.isArray(value) ? value[0] : value,
+          );
+        }
+
+        guard.assertChannels(resource.channels?.(params) ?? []);
+
+        try {
+          const result = await resource.read(params, context);
+          return {
+            contents: [
+              {
+                mimeType: "application/json",
+                text: JSON.stringify(result, null, 2),
+                uri: uri.href,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error reading ${uri.href}:`, error);
+          throw new Error(`Failed to read ${uri.href}: ${errorMessage(error)}`);
+        }
+      },
+    );
+  }
+}
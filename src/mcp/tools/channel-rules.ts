@@ -0,0 +1,154 @@
+import { z } from "zod";
+
+import { namespaceSchema } from "../../services/app-manifest.js";
+import { CHANNEL_RULE_TEMPLATES } from "../../services/channel-rules.js";
+import { channelRuleRecord } from "../../services/control-records.js";
+import {
+  McpResource,
+  McpTool,
+  McpToolContext,
+  appParam,
+  defineTool,
+} from "../tool-registry.js";
+
+const settingsParams = namespaceSchema.omit({ id: true }).shape;
+
+async function listChannelRules(
+  context: McpToolContext,
+  app?: string,
+): Promise<Record<string, unknown>> {
+  const appId = context.resolveAppId(app);
+  const controlApi = await context.getControlApi();
+  const namespaces = await controlApi.listNamespaces(appId);
+  return {
+    appId,
+    rules: namespaces.map((rule) => channelRuleRecord(rule)),
+    success: true,
+    timestamp: new Date().toISOString(),
+    total: namespaces.length,
+  };
+}
+
+async function findChannelRule(
+  context: McpToolContext,
+  appId: string,
+  id: string,
+) {
+  const controlApi = await context.getControlApi();
+  const namespaces = await controlApi.listNamespaces(appId);
+  const namespace = namespaces.find((n) => n.id === id);
+  if (!namespace) {
+    throw new Error(`Channel rule "${id}" not found`);
+  }
+
+  return namespace;
+}
+
+export const channelRulesTools: McpTool[] = [
+  defineTool({
+    description:
+      "List the channel rules (namespaces) of an app and their settings",
+    name: "list_channel_rules",
+    params: { app: appParam },
+    run: (args, context) => listChannelRules(context, args.app),
+  }),
+  defineTool({
+    description:
+      "Create a channel rule, optionally starting from a template such as chat-room or latest-value",
+    mutating: true,
+    name: "create_channel_rule",
+    params: {
+      ...settingsParams,
+      app: appParam,
+      name: z.string().describe("Name of the channel namespace"),
+      template: z
+        .enum(Object.keys(CHANNEL_RULE_TEMPLATES) as [string, ...string[]])
+        .optional()
+        .describe("Template whose settings to start from"),
+    },
+    async run({ app, name, template, ...settings }, context) {
+      const appId = context.resolveAppId(app);
+      const templateSettings = template
+        ? CHANNEL_RULE_TEMPLATES[template].settings
+        : {};
+      const controlApi = await context.getControlApi();
+      const created = await controlApi.createNamespace(appId, {
+        ...templateSettings,
+        ...settings,
+        channelNamespace: name,
+        persisted: settings.persisted ?? templateSettings.persisted ?? false,
+        pushEnabled:
+          settings.pushEnabled ?? templateSettings.pushEnabled ?? false,
+      });
+      return {
+        appId,
+        rule: channelRuleRecord(created),
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    },
+  }),
+  defineTool({
+    description: "Update the settings of a channel rule",
+    mutating: true,
+    name: "update_channel_rule",
+    params: {
+      ...settingsParams,
+      app: appParam,
+      id: z.string().describe("ID of the channel rule"),
+    },
+    async run({ app, id, ...settings }, context) {
+      const appId = context.resolveAppId(app);
+      const changes = Object.fromEntries(
+        Object.entries(settings).filter(([, value]) => value !== undefined),
+      );
+      if (Object.keys(changes).length === 0) {
+        throw new Error("No settings to update were provided");
+      }
+
+      const namespace = await findChannelRule(context, appId, id);
+      const controlApi = await context.getControlApi();
+      const updated = await controlApi.updateNamespace(
+        appId,
+        namespace.id,
+        changes,
+      );
+      return {
+        appId,
+        rule: channelRuleRecord(updated),
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    },
+  }),
+  defineTool({
+    description: "Delete a channel rule",
+    mutating: true,
+    name: "delete_channel_rule",
+    params: {
+      app: appParam,
+      id: z.string().describe("ID of the channel rule"),
+    },
+    async run(args, context) {
+      const appId = context.resolveAppId(args.app);
+      const namespace = await findChannelRule(context, appId, args.id);
+      const controlApi = await context.getControlApi();
+      await controlApi.deleteNamespace(appId, namespace.id);
+      return {
+        appId,
+        rule: { id: namespace.id },
+        success: true,
+        timestamp: new Date().toISOString(),
+      };
+    },
+  }),
+];
+
+export const channelRulesResources: McpResource[] = [
+  {
+    description: "Channel rules of an app",
+    name: "channel_rules",
+    read: (params, context) => listChannelRules(context, params.appId),
+    uriTemplate: "ably://apps/{appId}/channel-rules",
+  },
+];
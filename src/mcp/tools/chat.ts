@@ -0,0 +1,185 @@
+import { ChatClient, Room } from "@ably/chat";
+import { z } from "zod";
+
+import {
+  McpResource,
+  McpTool,
+  McpToolContext,
+  defineTool,
+} from "../tool-registry.js";
+
+/** Rooms are backed by several channels, so more channels than rooms are listed */
+const CHANNELS_PER_ROOM = 5;
+
+async function listRooms(
+  context: McpToolContext,
+  options: { limit: number; prefix?: string },
+): Promise<{ items: Record<string, unknown>[] }> {
+  const rest = await context.getRestClient();
+  const response = await rest.request(
+    "get",
+    "/channels",
+    2,
+    {
+      limit: options.limit * CHANNELS_PER_ROOM,
+      ...(options.prefix ? { prefix: options.prefix } : {}),
+    },
+    null,
+  );
+  if (response.statusCode !== 200) {
+    throw new Error(`Failed to list rooms: ${response.statusCode}`);
+  }
+
+  const rooms = new Map<string, Record<string, unknown>>();
+  for (const channel of response.items as Record<string, unknown>[]) {
+    const match = /^(.+?)::\$chat/.exec(String(channel.channelId));
+    if (match && !rooms.has(match[1]) && context.isChannelAllowed(match[1])) {
+      rooms.set(match[1], {
+        ...channel,
+        channelId: match[1],
+        roomName: match[1],
+      });
+    }
+  }
+
+  return { items: [...rooms.values()].slice(0, options.limit) };
+}
+
+/**
+ * Attach to a room for the length of an operation
+ */
+async function withRoom<T>(
+  context: McpToolContext,
+  roomId: string,
+  operation: (room: Room) => Promise<T>,
+): Promise<T> {
+  return context.withRealtime(async (client) => {
+    const chatClient = new ChatClient(client);
+    const room = await chatClient.rooms.get(roomId, {});
+    try {
+      await room.attach();
+      return await operation(room);
+    } finally {
+      await chatClient.rooms.release(roomId);
+    }
+  });
+}
+
+async function getMessages(
+  context: McpToolContext,
+  roomId: string,
+  limit: number,
+): Promise<Record<string, unknown>> {
+  return withRoom(context, roomId, async (room) => {
+    const page = await room.messages.get({ limit });
+    return {
+      messages: page.items.map((message) => ({
+        action: message.action,
+        clientId: message.clientId,
+        serial: message.serial,
+        text: message.text,
+        timestamp: message.timestamp,
+        version: message.version,
+        ...(Object.keys(message.metadata).length > 0
+          ? { metadata: message.metadata }
+          : {}),
+      })),
+      roomId,
+      success: true,
+    };
+  });
+}
+
+async function getOccupancy(
+  context: McpToolContext,
+  roomId: string,
+): Promise<Record<string, unknown>> {
+  return withRoom(context, roomId, async (room) => ({
+    metrics: await room.occupancy.get(),
+    roomId,
+    success: true,
+  }));
+}
+
+export const chatTools: McpTool[] = [
+  defineTool({
+    description: "List active chat rooms",
+    name: "list_rooms",
+    params: {
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .default(100)
+        .describe("Maximum number of rooms to return"),
+      prefix: z.string().optional().describe("Filter rooms by prefix"),
+    },
+    run: (args, context) => listRooms(context, args),
+  }),
+  defineTool({
+    channels: (args) => [args.room],
+    description: "Get recent messages from a chat room",
+    name: "get_room_messages",
+    params: {
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .default(20)
+        .describe("Maximum number of messages to retrieve"),
+      room: z.string().describe("Name of the room"),
+    },
+    run: (args, context) => getMessages(context, args.room, args.limit),
+  }),
+  defineTool({
+    channels: (args) => [args.room],
+    description:
+      "Get the occupancy of a chat room: its connections and presence members",
+    name: "get_room_occupancy",
+    params: {
+      room: z.string().describe("Name of the room"),
+    },
+    run: (args, context) => getOccupancy(context, args.room),
+  }),
+  defineTool({
+    channels: (args) => [args.room],
+    description: "Send a message to a chat room",
+    mutating: true,
+    name: "send_room_message",
+    params: {
+      metadata: z
+        .record(z.unknown())
+        .optional()
+        .describe("Additional metadata for the message"),
+      room: z.string().describe("Name of the room"),
+      text: z.string().describe("Text of the message"),
+    },
+    payload: (args) => ({ metadata: args.metadata, text: args.text }),
+    run: (args, context) =>
+      withRoom(context, args.room, async (room) => {
+        const message = {
+          text: args.text,
+          ...(args.metadata ? { metadata: args.metadata } : {}),
+        };
+        await room.messages.send(message);
+        return { message, roomId: args.room, success: true };
+      }),
+  }),
+];
+
+export const chatResources: McpResource[] = [
+  {
+    channels: (params) => [params.room],
+    description: "Recent messages in a chat room",
+    name: "room_messages",
+    read: (params, context) => getMessages(context, params.room, 20),
+    uriTemplate: "ably://rooms/{room}/messages",
+  },
+  {
+    channels: (params) => [params.room],
+    description: "Occupancy of a chat room",
+    name: "room_occupancy",
+    read: (params, context) => getOccupancy(context, params.room),
+    uriTemplate: "ably://rooms/{room}/occupancy",
+  },
+];
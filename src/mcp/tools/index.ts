@@ -0,0 +1,24 @@
+import type { McpResource, McpTool } from "../tool-registry.js";
+
+import { channelRulesResources, channelRulesTools } from "./channel-rules.js";
+import { chatResources, chatTools } from "./chat.js";
+import { integrationsResources, integrationsTools } from "./integrations.js";
+import { queuesResources, queuesTools } from "./queues.js";
+import { spacesResources, spacesTools } from "./spaces.js";
+
+/** Tools for the product and Control APIs beyond the core channel and app tools */
+export const MCP_TOOLS: McpTool[] = [
+  ...chatTools,
+  ...spacesTools,
+  ...channelRulesTools,
+  ...integrationsTools,
+  ...queuesTools,
+];
+
+export const MCP_RESOURCES: McpResource[] = [
+  ...chatResources,
+  ...spacesResources,
+  ...channelRulesResources,
+  ...integrationsResources,
+  ...queuesResources,
+];
@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+import {
+  INTEGRATION_RULE_TYPES,
+  INTEGRATION_SOURCE_TYPES,
+  integrationRecord,
+  integrationRuleData,
+} from "../../services/control-records.js";
+import {
+  McpResource,
+  McpTool,
+  McpToolContext,
+  appParam,
+  defineTool,
+} from "../tool-registry.js";
+
+async function listIntegrations(
+  context: McpToolContext,
+  app?: string,
+): Promise<Record<string, unknown>> {
+  const appId = context.resolveAppId(app);
+  const controlApi = await context.getControlApi();
+  const rules = await controlApi.listRules(appId);
+  return {
+    appId,
+    rules: rules.map((rule) => integrationRecord(rule)),
+    success: true,
+    timestamp: new Date().toISOString(),
+    total: rules.length,
+  };
+}
+
+export const integrationsTools: McpTool[] = [
+  defineTool({
+    description:
+      "List the integration rules of an app, which forward channel events to webhooks, queues and streams",
+    name: "list_integrations",
+    params: { app: appParam },
+    run: (args, context) => listIntegrations(context, args.app),
+  }),
+  defineTool({
+    description: "Get an integration rule by ID",
+    name: "get_integration",
+    params: {
+      app: appParam,
+      ruleId: z.string().describe("ID of the integration rule"),
+    },
+    async run(args, context) {
+      const appId = context.resolveAppId(args.app);
+      const controlApi = await context.getControlApi();
+      return {
+        rule: await controlApi.getRule(appId, args.ruleId),
+        success: true,
+      };
+    },
+  }),
+  defineTool({
+    description: "Create an integration rule",
+    mutating: true,
+    name: "create_integration",
+    params: {
+      app: appParam,
+      channelFilter: z
+        .string()
+        .optional()
+        .describe("Regular expression matching the channels to forward"),
+      requestMode: z
+        .enum(["single", "batch"])
+        .default("single")
+        .describe("Request mode for the rule"),
+      ruleType: z
+        .enum(INTEGRATION_RULE_TYPES)
+        .describe("Type of integration rule"),
+      sourceType: z
+        .enum(INTEGRATION_SOURCE_TYPES)
+        .describe("The event source type"),
+      status: z
+        .enum(["enabled", "disabled"])
+        .default("enabled")
+        .describe("Initial status of the rule"),
+      targetUrl: z.string().optional().describe("Target URL for HTTP rules"),
+    },
+    async run({ app, ...options }, context) {
+      const appId = context.resolveAppId(app);
+      const controlApi = await context.getControlApi();
+      return {
+        rule: await controlApi.createRule(appId, integrationRuleData(options)),
+      };
+    },
+  }),
+  defineTool({
+    description: "Delete an integration rule",
+    mutating: true,
+    name: "delete_integration",
+    params: {
+      app: appParam,
+      ruleId: z.string().describe("ID of the integration rule"),
+    },
+    async run(args, context) {
+      const appId = context.resolveAppId(args.app);
+      const controlApi = await context.getControlApi();
+      await controlApi.deleteRule(appId, args.ruleId);
+      return { appId, rule: { id: args.ruleId }, success: true };
+    },
+  }),
+];
+
+export const integrationsResources: McpResource[] = [
+  {
+    description: "Integration rules of an app",
+    name: "integrations",
+    read: (params, context) => listIntegrations(context, params.appId),
+    uriTemplate: "ably://apps/{appId}/integrations",
+  },
+];
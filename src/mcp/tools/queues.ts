@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+import { queueRecord } from "../../services/control-records.js";
+import {
+  McpResource,
+  McpTool,
+  McpToolContext,
+  appParam,
+  defineTool,
+} from "../tool-registry.js";
+
+async function listQueues(
+  context: McpToolContext,
+  app?: string,
+): Promise<Record<string, unknown>> {
+  const appId = context.resolveAppId(app);
+  const controlApi = await context.getControlApi();
+  const queues = await controlApi.listQueues(appId);
+  return {
+    appId,
+    queues: queues.map((queue) => queueRecord(queue)),
+    success: true,
+    timestamp: new Date().toISOString(),
+    total: queues.length,
+  };
+}
+
+export const queuesTools: McpTool[] = [
+  defineTool({
+    description:
+      "List the Ably Queues of an app with their message counts and connection details",
+    name: "list_queues",
+    params: { app: appParam },
+    run: (args, context) => listQueues(context, args.app),
+  }),
+  defineTool({
+    description: "Create an Ably Queue",
+    mutating: true,
+    name: "create_queue",
+    params: {
+      app: appParam,
+      maxLength: z
+        .number()
+        .int()
+        .positive()
+        .default(10_000)
+        .describe("Maximum number of messages in the queue"),
+      name: z.string().describe("Name of the queue"),
+      region: z
+        .string()
+        .default("us-east-1-a")
+        .describe("Region for the queue"),
+      ttl: z
+        .number()
+        .int()
+        .positive()
+        .default(60)
+        .describe("Time to live for messages in seconds"),
+    },
+    async run({ app, ...queueData }, context) {
+      const appId = context.resolveAppId(app);
+      const controlApi = await context.getControlApi();
+      return controlApi.createQueue(appId, queueData);
+    },
+  }),
+  defineTool({
+    description: "Delete an Ably Queue",
+    mutating: true,
+    name: "delete_queue",
+    params: {
+      app: appParam,
+      name: z.string().describe("Name of the queue"),
+    },
+    async run(args, context) {
+      const appId = context.resolveAppId(args.app);
+      const controlApi = await context.getControlApi();
+      await controlApi.deleteQueue(appId, args.name);
+      return { appId, queue: { name: args.name }, success: true };
+    },
+  }),
+];
+
+export const queuesResources: McpResource[] = [
+  {
+    description: "Ably Queues of an app",
+    name: "queues",
+    read: (params, context) => listQueues(context, params.appId),
+    uriTemplate: "ably://apps/{appId}/queues",
+  },
+];
@@ -0,0 +1,215 @@
+import Spaces, { type Space } from "@ably/spaces";
+import { z } from "zod";
+
+import {
+  McpResource,
+  McpTool,
+  McpToolContext,
+  defineTool,
+} from "../tool-registry.js";
+
+/** Spaces are backed by several channels, so more channels than spaces are listed */
+const CHANNELS_PER_SPACE = 5;
+
+async function listSpaces(
+  context: McpToolContext,
+  options: { limit: number; prefix?: string },
+): Promise<Record<string, unknown>> {
+  const rest = await context.getRestClient();
+  const response = await rest.request(
+    "get",
+    "/channels",
+    2,
+    {
+      limit: options.limit * CHANNELS_PER_SPACE,
+      ...(options.prefix ? { prefix: options.prefix } : {}),
+    },
+    null,
+  );
+  if (response.statusCode !== 200) {
+    throw new Error(`Failed to list spaces: ${response.statusCode}`);
+  }
+
+  const spaces = new Map<string, Record<string, unknown>>();
+  for (const channel of response.items as {
+    channelId: string;
+    status?: { occupancy?: { metrics?: Record<string, unknown> } };
+  }[]) {
+    const match = /^(.+?)::\$space/.exec(channel.channelId);
+    if (match && !spaces.has(match[1]) && context.isChannelAllowed(match[1])) {
+      spaces.set(match[1], {
+        metrics: channel.status?.occupancy?.metrics || {},
+        spaceName: match[1],
+      });
+    }
+  }
+
+  const all = [...spaces.values()];
+  const shown = all.slice(0, options.limit);
+  return {
+    hasMore: all.length > options.limit,
+    shown: shown.length,
+    spaces: shown,
+    success: true,
+    timestamp: new Date().toISOString(),
+    total: all.length,
+  };
+}
+
+/**
+ * Look at a space without entering it, so the MCP client never shows up as
+ * a member
+ */
+async function withSpace<T>(
+  context: McpToolContext,
+  spaceId: string,
+  operation: (space: Space) => Promise<T>,
+): Promise<T> {
+  return context.withRealtime(async (client) => {
+    const space = await new Spaces(client).get(spaceId);
+    return operation(space);
+  });
+}
+
+async function getMembers(
+  context: McpToolContext,
+  spaceId: string,
+): Promise<Record<string, unknown>> {
+  return withSpace(context, spaceId, async (space) => {
+    const members = await space.members.getAll();
+    return {
+      members: members.map((member) => ({
+        clientId: member.clientId,
+        connectionId: member.connectionId,
+        isConnected: member.isConnected,
+        profileData: member.profileData,
+      })),
+      spaceId,
+      success: true,
+    };
+  });
+}
+
+async function getLocks(
+  context: McpToolContext,
+  spaceId: string,
+): Promise<Record<string, unknown>> {
+  return withSpace(context, spaceId, async (space) => {
+    // Locks are read from members' presence data, so wait for it to sync
+    await space.members.getAll();
+    const locks = await space.locks.getAll();
+    return {
+      locks: locks.map((lock) => ({
+        attributes: lock.attributes || {},
+        holder: lock.member?.clientId || null,
+        id: lock.id,
+        status: lock.status || "unknown",
+      })),
+      spaceId,
+      success: true,
+      timestamp: new Date().toISOString(),
+    };
+  });
+}
+
+export const spacesTools: McpTool[] = [
+  defineTool({
+    description: "List active Spaces",
+    name: "list_spaces",
+    params: {
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .default(100)
+        .describe("Maximum number of spaces to return"),
+      prefix: z.string().optional().describe("Filter spaces by prefix"),
+    },
+    run: (args, context) => listSpaces(context, args),
+  }),
+  defineTool({
+    channels: (args) => [args.space],
+    description: "Get the members of a space and their profile data",
+    name: "get_space_members",
+    params: {
+      space: z.string().describe("Name of the space"),
+    },
+    run: (args, context) => getMembers(context, args.space),
+  }),
+  defineTool({
+    channels: (args) => [args.space],
+    description: "Get the locks currently held in a space",
+    name: "get_space_locks",
+    params: {
+      space: z.string().describe("Name of the space"),
+    },
+    run: (args, context) => getLocks(context, args.space),
+  }),
+  defineTool({
+    channels: (args) => [args.space],
+    description: "Get the locations of the members of a space",
+    name: "get_space_locations",
+    params: {
+      space: z.string().describe("Name of the space"),
+    },
+    run: (args, context) =>
+      withSpace(context, args.space, async (space) => {
+        const locations = await space.locations.getAll();
+        return {
+          locations: Object.entries(locations)
+            .filter(
+              ([, location]) => location !== null && location !== undefined,
+            )
+            .map(([memberId, location]) => ({
+              isCurrentMember: false,
+              location,
+              memberId,
+            })),
+          spaceId: args.space,
+          success: true,
+          timestamp: new Date().toISOString(),
+        };
+      }),
+  }),
+  defineTool({
+    channels: (args) => [args.space],
+    description: "Get the latest cursor positions in a space",
+    name: "get_space_cursors",
+    params: {
+      space: z.string().describe("Name of the space"),
+    },
+    run: (args, context) =>
+      withSpace(context, args.space, async (space) => {
+        const cursors = await space.cursors.getAll();
+        return {
+          cursors: Object.values(cursors)
+            .filter((cursor) => cursor !== null)
+            .map((cursor) => ({
+              clientId: cursor.clientId,
+              connectionId: cursor.connectionId,
+              data: cursor.data,
+              position: cursor.position,
+            })),
+          spaceId: args.space,
+          success: true,
+        };
+      }),
+  }),
+];
+
+export const spacesResources: McpResource[] = [
+  {
+    channels: (params) => [params.space],
+    description: "Members of a space",
+    name: "space_members",
+    read: (params, context) => getMembers(context, params.space),
+    uriTemplate: "ably://spaces/{space}/members",
+  },
+  {
+    channels: (params) => [params.space],
+    description: "Locks held in a space",
+    name: "space_locks",
+    read: (params, context) => getLocks(context, params.space),
+    uriTemplate: "ably://spaces/{space}/locks",
+  },
+];
@@ -0,0 +1,36 @@
+import * as Ably from "ably";
+
+import { AblyBaseCommand } from "./base-command.js";
+import { CliError } from "./services/cli-error.js";
+import { BaseFlags } from "./types/cli.js";
+
+export abstract class PushBaseCommand extends AblyBaseCommand {
+  /**
+   * The push admin API of a REST client for the current app. Push admin
+   * needs the push-admin capability, so token auth rarely works here.
+   */
+  protected async createPushAdmin(flags: BaseFlags): Promise<Ably.PushAdmin> {
+    if (
+      !flags.token &&
+      !flags["api-key"] &&
+      !process.env.ABLY_API_KEY &&
+      !this.configManager.getApiKey()
+    ) {
+      const appAndKey = await this.ensureAppAndKey(flags);
+      if (!appAndKey) {
+        throw new CliError("No app or API key configured for this command", {
+          category: "auth",
+          hint: 'Log in with "ably accounts login", or provide an API key with --api-key or the ABLY_API_KEY environment variable.',
+        });
+      }
+
+      flags["api-key"] = appAndKey.apiKey;
+    }
+
+    if (!this.isWebCliMode) {
+      this.showAuthInfoIfNeeded(flags);
+    }
+
+    return this.createAblyRestClient(flags).push.admin;
+  }
+}
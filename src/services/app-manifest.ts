@@ -0,0 +1,973 @@
+import chalk from "chalk";
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { z } from "zod";
+
+import type {
+  App,
+  ControlApi,
+  Key,
+  Namespace,
+  Queue,
+  Rule,
+} from "./control-api.js";
+
+export const namespaceSchema = z
+  .object({
+    authenticated: z.boolean().optional(),
+    batchingEnabled: z.boolean().optional(),
+    batchingInterval: z.number().int().optional(),
+    conflationEnabled: z.boolean().optional(),
+    conflationInterval: z.number().int().optional(),
+    conflationKey: z.string().optional(),
+    exposeTimeSerial: z.boolean().optional(),
+    id: z.string().min(1),
+    persistLast: z.boolean().optional(),
+    persisted: z.boolean().optional(),
+    populateChannelRegistry: z.boolean().optional(),
+    pushEnabled: z.boolean().optional(),
+    tlsOnly: z.boolean().optional(),
+  })
+  .strict();
+
+const ruleSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    requestMode: z.string().default("single"),
+    ruleType: z.string().min(1),
+    source: z.object({
+      channelFilter: z.string().default(""),
+      type: z.string().min(1),
+    }),
+    status: z.enum(["enabled", "disabled"]).optional(),
+    target: z.record(z.unknown()).default({}),
+  })
+  .strict();
+
+const queueSchema = z
+  .object({
+    maxLength: z.number().int().positive().optional(),
+    name: z.string().min(1),
+    region: z.string().optional(),
+    ttl: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const keySchema = z
+  .object({
+    capability: z.record(z.array(z.string())).optional(),
+    /** Full key value, only present in exports made with --include-secrets. Never applied. */
+    key: z.string().optional(),
+    /** Empty for unnamed keys, which are left out of plans */
+    name: z.string(),
+  })
+  .strict();
+
+const sourceSchema = z
+  .object({
+    appId: z.string(),
+    appName: z.string().optional(),
+    exportedAt: z.string().optional(),
+  })
+  .strict();
+
+/** Report entries that share the identifying field of an earlier entry */
+function rejectDuplicates<T>(
+  ctx: z.RefinementCtx,
+  section: string,
+  entries: T[],
+  field: keyof T & string,
+  label: string,
+): void {
+  const seen = new Set<unknown>();
+  for (const [index, entry] of entries.entries()) {
+    const value = entry[field];
+    // Unnamed keys are left out of plans, so any number of them is fine
+    if (value === "") continue;
+
+    if (seen.has(value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate ${label} "${String(value)}"`,
+        path: [section, index, field],
+      });
+    }
+
+    seen.add(value);
+  }
+}
+
+const manifestSchema = z
+  .object({
+    app: z.string().optional(),
+    keys: z.array(keySchema).default([]),
+    namespaces: z.array(namespaceSchema).default([]),
+    queues: z.array(queueSchema).default([]),
+    rules: z.array(ruleSchema).default([]),
+    /** Informational annotation describing where an exported manifest came from */
+    source: sourceSchema.optional(),
+    version: z.literal(1).default(1),
+  })
+  .strict()
+  .superRefine((manifest, ctx) => {
+    rejectDuplicates(ctx, "keys", manifest.keys, "name", "key name");
+    rejectDuplicates(ctx, "namespaces", manifest.namespaces, "id", "namespace");
+    rejectDuplicates(ctx, "queues", manifest.queues, "name", "queue name");
+  });
+
+export type ManifestNamespace = z.infer<typeof namespaceSchema>;
+export type ManifestRule = z.infer<typeof ruleSchema>;
+export type ManifestQueue = z.infer<typeof queueSchema>;
+export type ManifestKey = z.infer<typeof keySchema>;
+export type AppManifest = z.infer<typeof manifestSchema>;
+
+export type ResourceKind = "key" | "namespace" | "queue" | "rule";
+
+export type ChangeAction = "create" | "delete" | "replace" | "update";
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PlannedChange {
+  action: ChangeAction;
+  desired?: ManifestKey | ManifestNamespace | ManifestQueue | ManifestRule;
+  fields: FieldChange[];
+  /** Server-side identifier of the live resource, when one exists */
+  id?: string;
+  kind: ResourceKind;
+  name: string;
+}
+
+export interface ManifestPlan {
+  appId: string;
+  changes: PlannedChange[];
+  /** Resources left alone because they can't be matched between the manifest and the app */
+  ignored: { kind: ResourceKind; name: string; reason: string }[];
+  /** Live resources absent from the manifest that are left alone without --prune */
+  unmanaged: { id: string; kind: ResourceKind; name: string }[];
+}
+
+export interface AppState {
+  keys: Key[];
+  namespaces: Namespace[];
+  queues: Queue[];
+  rules: Rule[];
+}
+
+export interface AppliedChange {
+  change: PlannedChange;
+  error?: string;
+  success: boolean;
+}
+
+/**
+ * Parse and validate a manifest document. JSON is a subset of YAML, so a
+ * single parser handles both formats.
+ */
+export function parseManifest(content: string): AppManifest {
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Unable to parse manifest: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = manifestSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid manifest:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+export function loadManifestFile(filePath: string): AppManifest {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Manifest file not found: ${resolvedPath}`);
+  }
+
+  return parseManifest(fs.readFileSync(resolvedPath, "utf8"));
+}
+
+// The Control API reports key status as 0 (enabled) or 1 (revoked)
+function isRevokedKey(key: Key): boolean {
+  return ["1", "revoked"].includes(String(key.status).toLowerCase());
+}
+
+/**
+ * Fetch the parts of an app a manifest can describe. Revoked keys are left
+ * out: they can't be reinstated, so exporting them would recreate them as
+ * active keys on import, and pruning could never remove them.
+ */
+export async function fetchAppState(
+  controlApi: ControlApi,
+  appId: string,
+): Promise<AppState> {
+  const [namespaces, rules, queues, keys] = await Promise.all([
+    controlApi.listNamespaces(appId),
+    controlApi.listRules(appId),
+    controlApi.listQueues(appId),
+    controlApi.listKeys(appId),
+  ]);
+
+  return {
+    keys: keys.filter((key) => !isRevokedKey(key)),
+    namespaces,
+    queues,
+    rules,
+  };
+}
+
+/**
+ * Rules have no user-facing name, so unless the manifest pins a rule ID we
+ * match on the combination of type, source and channel filter.
+ */
+export function ruleIdentity(rule: {
+  ruleType: string;
+  source: { channelFilter?: string; type: string };
+}): string {
+  return `${rule.ruleType}:${rule.source.type}:${rule.source.channelFilter ?? ""}`;
+}
+
+function normalizeCapability(capability: unknown): unknown {
+  if (!capability || typeof capability !== "object") return capability;
+
+  const sorted: Record<string, unknown> = {};
+  for (const resource of Object.keys(capability).sort()) {
+    const operations = (capability as Record<string, unknown>)[resource];
+    sorted[resource] = Array.isArray(operations)
+      ? [...operations].sort()
+      : operations;
+  }
+
+  return sorted;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare only the fields declared in the manifest so that server-side
+ * defaults and read-only attributes never show up as drift.
+ */
+export function diffFields(
+  desired: Record<string, unknown>,
+  live: Record<string, unknown>,
+  prefix = "",
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [field, desiredValue] of Object.entries(desired)) {
+    if (desiredValue === undefined) continue;
+
+    const fieldPath = prefix ? `${prefix}.${field}` : field;
+    const liveValue = live[field];
+
+    if (isPlainObject(desiredValue) && isPlainObject(liveValue)) {
+      changes.push(...diffFields(desiredValue, liveValue, fieldPath));
+      continue;
+    }
+
+    if (JSON.stringify(desiredValue) !== JSON.stringify(liveValue)) {
+      changes.push({ field: fieldPath, from: liveValue, to: desiredValue });
+    }
+  }
+
+  return changes;
+}
+
+function planNamespaces(
+  manifest: AppManifest,
+  state: AppState,
+  prune: boolean,
+  plan: ManifestPlan,
+): void {
+  const liveById = new Map(state.namespaces.map((ns) => [ns.id, ns]));
+
+  for (const desired of manifest.namespaces) {
+    const live = liveById.get(desired.id);
+    liveById.delete(desired.id);
+
+    if (!live) {
+      plan.changes.push({
+        action: "create",
+        desired,
+        fields: [],
+        kind: "namespace",
+        name: desired.id,
+      });
+      continue;
+    }
+
+    const { id, ...settings } = desired;
+    const fields = diffFields(
+      settings,
+      live as unknown as Record<string, unknown>,
+    );
+    if (fields.length > 0) {
+      plan.changes.push({
+        action: "update",
+        desired,
+        fields,
+        id,
+        kind: "namespace",
+        name: id,
+      });
+    }
+  }
+
+  for (const live of liveById.values()) {
+    handleUnmanaged(plan, prune, "namespace", live.id, live.id);
+  }
+}
+
+function planRules(
+  manifest: AppManifest,
+  state: AppState,
+  prune: boolean,
+  plan: ManifestPlan,
+): void {
+  const remaining = new Map(state.rules.map((rule) => [rule.id, rule]));
+
+  for (const desired of manifest.rules) {
+    const identity = ruleIdentity(desired);
+    const live = desired.id
+      ? remaining.get(desired.id)
+      : [...remaining.values()].find((rule) => ruleIdentity(rule) === identity);
+    const name = desired.id ?? identity;
+
+    if (!live) {
+      assertNoRedactedSecrets(desired.target, name);
+      plan.changes.push({
+        action: "create",
+        desired,
+        fields: [],
+        kind: "rule",
+        name,
+      });
+      continue;
+    }
+
+    remaining.delete(live.id);
+
+    // Credentials redacted on export stay as they are in the live rule
+    const resolved = {
+      ...desired,
+      target: restoreRedacted(desired.target, live.target) as Record<
+        string,
+        unknown
+      >,
+    };
+    assertNoRedactedSecrets(resolved.target, name);
+
+    const { id: _id, ...settings } = resolved;
+    const fields = diffFields(
+      settings,
+      live as unknown as Record<string, unknown>,
+    );
+    if (fields.length > 0) {
+      plan.changes.push({
+        action: "update",
+        desired: resolved,
+        fields,
+        id: live.id,
+        kind: "rule",
+        name,
+      });
+    }
+  }
+
+  for (const live of remaining.values()) {
+    handleUnmanaged(
+      plan,
+      prune,
+      "rule",
+      live.id,
+      `${ruleIdentity(live)} (${live.id})`,
+    );
+  }
+}
+
+/**
+ * Replace redacted values with the ones at the same place in the live rule.
+ * Headers are matched by name, as their order may differ.
+ */
+function restoreRedacted(desired: unknown, live: unknown): unknown {
+  if (desired === REDACTED) return live ?? REDACTED;
+
+  if (Array.isArray(desired)) {
+    const liveItems = Array.isArray(live) ? live : [];
+    return desired.map((item, index) => {
+      const match =
+        isPlainObject(item) && typeof item.name === "string"
+          ? liveItems.find(
+              (liveItem) =>
+                isPlainObject(liveItem) && liveItem.name === item.name,
+            )
+          : liveItems[index];
+      return restoreRedacted(item, match);
+    });
+  }
+
+  if (isPlainObject(desired)) {
+    const liveObject = isPlainObject(live) ? live : {};
+    return Object.fromEntries(
+      Object.entries(desired).map(([field, value]) => [
+        field,
+        restoreRedacted(value, liveObject[field]),
+      ]),
+    );
+  }
+
+  return desired;
+}
+
+function redactedPaths(value: unknown, prefix: string): string[] {
+  if (value === REDACTED) return [prefix];
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      redactedPaths(item, `${prefix}.${index}`),
+    );
+  }
+
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([field, fieldValue]) =>
+      redactedPaths(fieldValue, `${prefix}.${field}`),
+    );
+  }
+
+  return [];
+}
+
+function assertNoRedactedSecrets(
+  target: Record<string, unknown>,
+  name: string,
+): void {
+  const paths = redactedPaths(target, "target");
+  if (paths.length > 0) {
+    throw new Error(
+      `Rule ${name} has credentials that were redacted on export (${paths.join(", ")}). Fill them in, or export with --include-secrets`,
+    );
+  }
+}
+
+function planQueues(
+  manifest: AppManifest,
+  state: AppState,
+  prune: boolean,
+  plan: ManifestPlan,
+): void {
+  const liveByName = new Map(state.queues.map((queue) => [queue.name, queue]));
+
+  for (const desired of manifest.queues) {
+    const live = liveByName.get(desired.name);
+    liveByName.delete(desired.name);
+
+    if (!live) {
+      plan.changes.push({
+        action: "create",
+        desired,
+        fields: [],
+        kind: "queue",
+        name: desired.name,
+      });
+      continue;
+    }
+
+    // Queues are immutable once created, so any difference means recreating
+    // the queue (and losing any messages it currently holds)
+    const { name, ...settings } = desired;
+    const fields = diffFields(
+      settings,
+      live as unknown as Record<string, unknown>,
+    );
+    if (fields.length > 0) {
+      plan.changes.push({
+        action: "replace",
+        desired,
+        fields,
+        id: live.id,
+        kind: "queue",
+        name,
+      });
+    }
+  }
+
+  for (const live of liveByName.values()) {
+    handleUnmanaged(plan, prune, "queue", live.id, live.name);
+  }
+}
+
+function planKeys(
+  manifest: AppManifest,
+  state: AppState,
+  prune: boolean,
+  plan: ManifestPlan,
+): void {
+  // Keys are matched by name, so unnamed keys can't be managed, and nor can
+  // keys that share a name as there's no telling which one is meant
+  const liveByName = new Map<string, Key>();
+  const namesakes = new Map<string, Key[]>();
+  for (const key of state.keys) {
+    if (key.name) {
+      namesakes.set(key.name, [...(namesakes.get(key.name) ?? []), key]);
+    } else {
+      plan.ignored.push({
+        kind: "key",
+        name: key.id,
+        reason: "the key in the app has no name",
+      });
+    }
+  }
+
+  for (const [name, keys] of namesakes) {
+    if (keys.length === 1) {
+      liveByName.set(name, keys[0]);
+      continue;
+    }
+
+    for (const key of keys) {
+      plan.ignored.push({
+        kind: "key",
+        name: `${name} (${key.id})`,
+        reason: `${keys.length} keys in the app are named "${name}"`,
+      });
+    }
+  }
+
+  for (const desired of manifest.keys) {
+    if (!desired.name) {
+      plan.ignored.push({
+        kind: "key",
+        name: "(unnamed)",
+        reason: "the key in the manifest has no name",
+      });
+      continue;
+    }
+
+    // Already reported as ignored along with the live keys
+    if ((namesakes.get(desired.name)?.length ?? 0) > 1) continue;
+
+    const live = liveByName.get(desired.name);
+    liveByName.delete(desired.name);
+
+    if (!live) {
+      plan.changes.push({
+        action: "create",
+        desired,
+        fields: [],
+        kind: "key",
+        name: desired.name,
+      });
+      continue;
+    }
+
+    if (!desired.capability) continue;
+
+    const fields = diffFields(
+      { capability: normalizeCapability(desired.capability) },
+      { capability: normalizeCapability(live.capability) },
+    );
+    if (fields.length > 0) {
+      plan.changes.push({
+        action: "update",
+        desired,
+        fields,
+        id: live.id,
+        kind: "key",
+        name: desired.name,
+      });
+    }
+  }
+
+  for (const live of liveByName.values()) {
+    handleUnmanaged(plan, prune, "key", live.id, live.name);
+  }
+}
+
+function handleUnmanaged(
+  plan: ManifestPlan,
+  prune: boolean,
+  kind: ResourceKind,
+  id: string,
+  name: string,
+): void {
+  if (prune) {
+    plan.changes.push({ action: "delete", fields: [], id, kind, name });
+  } else {
+    plan.unmanaged.push({ id, kind, name });
+  }
+}
+
+/**
+ * Work out the changes needed to bring the live app in line with the manifest.
+ * Resources that exist in the app but not in the manifest are only scheduled
+ * for deletion when prune is set. Passing kinds limits the plan to those
+ * resource kinds, leaving every other resource untouched.
+ */
+export function computePlan(
+  appId: string,
+  manifest: AppManifest,
+  state: AppState,
+  options: { kinds?: ResourceKind[]; prune?: boolean } = {},
+): ManifestPlan {
+  const prune = options.prune === true;
+  const plan: ManifestPlan = {
+    appId,
+    changes: [],
+    ignored: [],
+    unmanaged: [],
+  };
+  const includes = (kind: ResourceKind) =>
+    !options.kinds || options.kinds.includes(kind);
+
+  if (includes("namespace")) planNamespaces(manifest, state, prune, plan);
+  if (includes("queue")) planQueues(manifest, state, prune, plan);
+  if (includes("rule")) planRules(manifest, state, prune, plan);
+  if (includes("key")) planKeys(manifest, state, prune, plan);
+
+  return plan;
+}
+
+export function summarizePlan(plan: ManifestPlan): {
+  create: number;
+  delete: number;
+  replace: number;
+  update: number;
+} {
+  const summary = { create: 0, delete: 0, replace: 0, update: 0 };
+  for (const change of plan.changes) {
+    summary[change.action]++;
+  }
+
+  return summary;
+}
+
+async function applyChange(
+  controlApi: ControlApi,
+  appId: string,
+  change: PlannedChange,
+): Promise<void> {
+  switch (change.kind) {
+    case "namespace": {
+      if (change.action === "delete") {
+        await controlApi.deleteNamespace(appId, change.id!);
+        return;
+      }
+
+      const { id, ...settings } = change.desired as ManifestNamespace;
+      await (change.action === "create"
+        ? controlApi.createNamespace(appId, {
+            channelNamespace: id,
+            ...settings,
+          })
+        : controlApi.updateNamespace(appId, id, settings));
+      return;
+    }
+
+    case "queue": {
+      if (change.action === "delete" || change.action === "replace") {
+        await controlApi.deleteQueue(appId, change.name);
+      }
+
+      if (change.action !== "delete") {
+        await controlApi.createQueue(appId, change.desired as ManifestQueue);
+      }
+
+      return;
+    }
+
+    case "rule": {
+      if (change.action === "delete") {
+        await controlApi.deleteRule(appId, change.id!);
+        return;
+      }
+
+      const { id: _id, ...ruleData } = change.desired as ManifestRule;
+      await (change.action === "create"
+        ? controlApi.createRule(appId, ruleData)
+        : controlApi.updateRule(appId, change.id!, ruleData));
+      return;
+    }
+
+    case "key": {
+      if (change.action === "delete") {
+        await controlApi.revokeKey(appId, change.id!);
+        return;
+      }
+
+      const { capability, name } = change.desired as ManifestKey;
+      await (change.action === "create"
+        ? controlApi.createKey(appId, { capability, name })
+        : controlApi.updateKey(appId, change.id!, { capability }));
+    }
+  }
+}
+
+/**
+ * Execute a plan one change at a time. Execution stops at the first failure
+ * so that a partially applied manifest can simply be re-planned and re-applied.
+ */
+export async function applyPlan(
+  controlApi: ControlApi,
+  plan: ManifestPlan,
+  onChange?: (result: AppliedChange) => void,
+): Promise<AppliedChange[]> {
+  const results: AppliedChange[] = [];
+
+  for (const change of plan.changes) {
+    let result: AppliedChange;
+    try {
+      await applyChange(controlApi, plan.appId, change);
+      result = { change, success: true };
+    } catch (error) {
+      result = {
+        change,
+        error: error instanceof Error ? error.message : String(error),
+        success: false,
+      };
+    }
+
+    results.push(result);
+    onChange?.(result);
+    if (!result.success) break;
+  }
+
+  return results;
+}
+
+/** Drop null and undefined values, which the Control API uses for unset settings */
+function compact<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([, fieldValue]) => fieldValue !== null && fieldValue !== undefined,
+    ),
+  ) as T;
+}
+
+/** The settings of a live channel rule, as they appear in a manifest */
+export function manifestNamespace(namespace: Namespace): ManifestNamespace {
+  return compact({
+    authenticated: namespace.authenticated,
+    batchingEnabled: namespace.batchingEnabled,
+    batchingInterval: namespace.batchingInterval,
+    conflationEnabled: namespace.conflationEnabled,
+    conflationInterval: namespace.conflationInterval,
+    conflationKey: namespace.conflationKey,
+    exposeTimeSerial: namespace.exposeTimeSerial,
+    id: namespace.id,
+    persistLast: namespace.persistLast,
+    persisted: namespace.persisted,
+    populateChannelRegistry: namespace.populateChannelRegistry,
+    pushEnabled: namespace.pushEnabled,
+    tlsOnly: namespace.tlsOnly,
+  });
+}
+
+/** Written in place of credentials left out of an exported rule target */
+export const REDACTED = "<redacted>";
+
+// Target fields holding credentials, e.g. AWS keys, Kafka SASL passwords,
+// Pulsar tokens and IFTTT webhook keys
+const SECRET_FIELD_PATTERN =
+  /^(accessKeyId|apiKey|password|privateKey|webhookKey)$|secret|token/i;
+const SECRET_HEADER_PATTERN =
+  /auth|cookie|key|password|secret|signature|token/i;
+
+function hasUrlCredentials(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.username !== "" || url.password !== "";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replace the credentials in an integration rule's target with REDACTED:
+ * secret fields, authentication headers and URLs with a username or
+ * password in them
+ */
+export function redactRuleTarget(target: unknown): Record<string, unknown> {
+  return redactValue(target, "") as Record<string, unknown>;
+}
+
+function redactValue(value: unknown, field: string): unknown {
+  if (typeof value === "string") {
+    return value !== "" &&
+      (SECRET_FIELD_PATTERN.test(field) || hasUrlCredentials(value))
+      ? REDACTED
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      field === "headers" &&
+      isPlainObject(item) &&
+      typeof item.name === "string" &&
+      SECRET_HEADER_PATTERN.test(item.name)
+        ? { ...item, value: REDACTED }
+        : redactValue(item, field),
+    );
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, fieldValue]) => [
+        key,
+        redactValue(fieldValue, key),
+      ]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Build a manifest from the live configuration of an app. Server-managed
+ * fields (IDs, timestamps, queue endpoints and stats) are stripped so the
+ * result can be applied to the same or a different app. Key values and
+ * integration credentials are left out unless includeSecrets is set.
+ */
+export function buildManifest(
+  app: App,
+  state: AppState,
+  options: { includeSecrets?: boolean } = {},
+): AppManifest {
+  return {
+    keys: state.keys.map((key) =>
+      compact({
+        capability: key.capability as ManifestKey["capability"],
+        key: options.includeSecrets ? key.key : undefined,
+        name: key.name,
+      }),
+    ),
+    namespaces: state.namespaces.map((namespace) =>
+      manifestNamespace(namespace),
+    ),
+    queues: state.queues.map((queue) =>
+      compact({
+        maxLength: queue.maxLength,
+        name: queue.name,
+        region: queue.region,
+        ttl: queue.ttl,
+      }),
+    ),
+    rules: state.rules.map((rule) =>
+      compact({
+        requestMode: rule.requestMode,
+        ruleType: rule.ruleType,
+        source: {
+          channelFilter: rule.source.channelFilter ?? "",
+          type: rule.source.type,
+        },
+        status: (rule as Rule & { status?: ManifestRule["status"] }).status,
+        target: options.includeSecrets
+          ? ((rule.target ?? {}) as Record<string, unknown>)
+          : redactRuleTarget(rule.target ?? {}),
+      }),
+    ),
+    source: {
+      appId: app.id,
+      appName: app.name,
+      exportedAt: new Date().toISOString(),
+    },
+    version: 1,
+  };
+}
+
+export function serializeManifest(
+  manifest: AppManifest,
+  format: "json" | "yaml",
+): string {
+  // Emit metadata first and resources in dependency order so the file reads top-down
+  const ordered = {
+    version: manifest.version,
+    source: manifest.source,
+    app: manifest.app,
+    namespaces: manifest.namespaces,
+    queues: manifest.queues,
+    rules: manifest.rules,
+    keys: manifest.keys,
+  };
+
+  return format === "json"
+    ? `${JSON.stringify(ordered, null, 2)}\n`
+    : stringifyYaml(ordered);
+}
+
+const ACTION_SYMBOLS: Record<ChangeAction, string> = {
+  create: chalk.green("+"),
+  delete: chalk.red("-"),
+  replace: chalk.magenta("-/+"),
+  update: chalk.yellow("~"),
+};
+
+function formatValue(value: unknown): string {
+  return value === undefined ? chalk.dim("(unset)") : JSON.stringify(value);
+}
+
+/**
+ * Render the resources a plan leaves alone, preceded by a blank line
+ */
+export function formatIgnored(plan: ManifestPlan): string[] {
+  if (plan.ignored.length === 0) return [];
+
+  return [
+    "",
+    chalk.dim(`  ${plan.ignored.length} resource(s) were left alone:`),
+    ...plan.ignored.map((resource) =>
+      chalk.dim(`    ${resource.kind} ${resource.name}: ${resource.reason}`),
+    ),
+  ];
+}
+
+/**
+ * Render a plan as human-readable lines in the style of a Terraform plan
+ */
+export function formatPlan(plan: ManifestPlan): string[] {
+  const lines: string[] = [];
+
+  for (const change of plan.changes) {
+    lines.push(
+      `  ${ACTION_SYMBOLS[change.action]} ${change.kind} ${chalk.bold(change.name)}${change.action === "replace" ? chalk.dim(" (queues cannot be updated in place)") : ""}`,
+    );
+    for (const field of change.fields) {
+      lines.push(
+        `      ${field.field}: ${formatValue(field.from)} ${chalk.dim("→")} ${formatValue(field.to)}`,
+      );
+    }
+  }
+
+  if (plan.unmanaged.length > 0) {
+    lines.push(
+      "",
+      chalk.dim(
+        `  ${plan.unmanaged.length} resource(s) exist in the app but not in the manifest (use --prune to delete):`,
+      ),
+    );
+    for (const resource of plan.unmanaged) {
+      lines.push(chalk.dim(`    ${resource.kind} ${resource.name}`));
+    }
+  }
+
+  lines.push(...formatIgnored(plan));
+
+  const summary = summarizePlan(plan);
+  lines.push(
+    "",
+    `Plan: ${summary.create} to create, ${summary.update} to update, ${summary.replace} to replace, ${summary.delete} to delete.`,
+  );
+
+  return lines;
+}
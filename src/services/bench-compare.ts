@@ -0,0 +1,398 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import {
+  BENCH_REPORT_VERSION,
+  BenchConfig,
+  BenchReport,
+} from "./bench-stats.js";
+
+/**
+ * Percentiles are only compared when both runs have at least this many
+ * samples beyond the percentile, otherwise the estimate is too noisy
+ */
+const MIN_TAIL_SAMPLES = 10;
+
+export interface CompareOptions {
+  /** Significance level for the statistical tests, e.g. 0.05 */
+  alpha: number;
+  /** Minimum relative change that counts as a regression, e.g. 0.1 for 10% */
+  threshold: number;
+}
+
+export interface MetricComparison {
+  /** Relative change from old to new, or null when old is zero */
+  change: null | number;
+  /** Whether a higher value is better */
+  higherIsBetter: boolean;
+  improvement: boolean;
+  metric: string;
+  new: number;
+  /** Why a metric could not be judged */
+  note?: string;
+  old: number;
+  /** One-sided p-value that new is worse than old, for tested metrics */
+  pValue?: number;
+  regression: boolean;
+  significant: boolean;
+}
+
+export interface ComparisonResult {
+  comparisons: MetricComparison[];
+  /** Configuration fields that differ between the two runs */
+  configChanges: string[];
+  regressions: number;
+}
+
+/**
+ * Read a report written by `ably bench run --report`
+ */
+export function loadReport(filePath: string): BenchReport {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Report file not found: ${resolvedPath}`);
+  }
+
+  let report: BenchReport;
+  try {
+    report = JSON.parse(fs.readFileSync(resolvedPath, "utf8")) as BenchReport;
+  } catch (error) {
+    throw new Error(
+      `Unable to parse report ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (report?.version !== BENCH_REPORT_VERSION) {
+    throw new Error(
+      `Unsupported report version in ${resolvedPath}: expected ${BENCH_REPORT_VERSION}, got ${report?.version ?? "none"}`,
+    );
+  }
+
+  if (!report.latency || !report.delivery || !report.throughput) {
+    throw new Error(`${resolvedPath} is not a benchmark report`);
+  }
+
+  return report;
+}
+
+/**
+ * Compare two benchmark reports and flag statistically significant
+ * regressions. Mean latency is compared with Welch's t-test and loss and
+ * duplicate rates with a two-proportion z-test. Percentiles and throughput
+ * only have a single observation per run, so they are judged against the
+ * threshold alone.
+ */
+export function compareReports(
+  oldReport: BenchReport,
+  newReport: BenchReport,
+  options: CompareOptions,
+): ComparisonResult {
+  const comparisons: MetricComparison[] = [];
+  const { latency: oldLatency } = oldReport;
+  const { latency: newLatency } = newReport;
+
+  const pValue = welchTTest(
+    {
+      mean: oldLatency.mean,
+      samples: oldLatency.samples,
+      stddev: oldLatency.stddev,
+    },
+    {
+      mean: newLatency.mean,
+      samples: newLatency.samples,
+      stddev: newLatency.stddev,
+    },
+  );
+  comparisons.push(
+    judge("latency.mean", oldLatency.mean, newLatency.mean, false, options, {
+      note: pValue === undefined ? "Not enough samples to test" : undefined,
+      pValue,
+    }),
+  );
+
+  // Paired with the fraction of samples that lie beyond each percentile
+  for (const [key, tail] of [
+    ["p50", 0.5],
+    ["p90", 0.1],
+    ["p99", 0.01],
+    ["p999", 0.001],
+  ] as const) {
+    const needed = Math.round(MIN_TAIL_SAMPLES / tail);
+    const enough = oldLatency.samples >= needed && newLatency.samples >= needed;
+    comparisons.push(
+      judge(
+        `latency.${key}`,
+        oldLatency[key],
+        newLatency[key],
+        false,
+        options,
+        {
+          note: enough ? undefined : `Needs ${needed} samples per run`,
+          significant: enough,
+        },
+      ),
+    );
+  }
+
+  for (const key of ["publishedPerSecond", "deliveredPerSecond"] as const) {
+    comparisons.push(
+      judge(
+        `throughput.${key}`,
+        oldReport.throughput[key],
+        newReport.throughput[key],
+        true,
+        options,
+        { significant: true },
+      ),
+    );
+  }
+
+  const lossP = twoProportionZTest(
+    { count: oldReport.delivery.lost, total: oldReport.delivery.expected },
+    { count: newReport.delivery.lost, total: newReport.delivery.expected },
+  );
+  comparisons.push(
+    judge(
+      "delivery.lossRate",
+      oldReport.delivery.lossRate,
+      newReport.delivery.lossRate,
+      false,
+      { ...options, threshold: 0 },
+      { pValue: lossP },
+    ),
+  );
+
+  const duplicateRate = (report: BenchReport) =>
+    report.delivery.received === 0
+      ? 0
+      : report.delivery.duplicates / report.delivery.received;
+  const duplicatesP = twoProportionZTest(
+    {
+      count: oldReport.delivery.duplicates,
+      total: oldReport.delivery.received,
+    },
+    {
+      count: newReport.delivery.duplicates,
+      total: newReport.delivery.received,
+    },
+  );
+  comparisons.push(
+    judge(
+      "delivery.duplicateRate",
+      round(duplicateRate(oldReport)),
+      round(duplicateRate(newReport)),
+      false,
+      { ...options, threshold: 0 },
+      { pValue: duplicatesP },
+    ),
+  );
+
+  return {
+    comparisons,
+    configChanges: diffConfig(oldReport.config, newReport.config),
+    regressions: comparisons.filter((comparison) => comparison.regression)
+      .length,
+  };
+}
+
+/**
+ * One-sided p-value for the hypothesis that sample b has a higher mean than
+ * sample a, using Welch's t-test. Returns undefined without enough samples.
+ */
+export function welchTTest(
+  a: { mean: number; samples: number; stddev: number },
+  b: { mean: number; samples: number; stddev: number },
+): number | undefined {
+  if (a.samples < 2 || b.samples < 2) return undefined;
+
+  // Squared standard errors of the means. Reports hold the population
+  // standard deviation, so apply Bessel's correction first
+  const varianceA = (a.stddev ** 2 * a.samples) / (a.samples - 1) / a.samples;
+  const varianceB = (b.stddev ** 2 * b.samples) / (b.samples - 1) / b.samples;
+  const standardError = Math.sqrt(varianceA + varianceB);
+  if (standardError === 0) {
+    return b.mean > a.mean ? 0 : 1;
+  }
+
+  const t = (b.mean - a.mean) / standardError;
+  const degreesOfFreedom =
+    (varianceA + varianceB) ** 2 /
+    (varianceA ** 2 / (a.samples - 1) + varianceB ** 2 / (b.samples - 1));
+
+  return 1 - studentTCdf(t, degreesOfFreedom);
+}
+
+/**
+ * One-sided p-value for the hypothesis that proportion b is higher than
+ * proportion a
+ */
+export function twoProportionZTest(
+  a: { count: number; total: number },
+  b: { count: number; total: number },
+): number | undefined {
+  if (a.total === 0 || b.total === 0) return undefined;
+
+  const pooled = (a.count + b.count) / (a.total + b.total);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / a.total + 1 / b.total),
+  );
+  const difference = b.count / b.total - a.count / a.total;
+  if (standardError === 0) {
+    return difference > 0 ? 0 : 1;
+  }
+
+  return 1 - normalCdf(difference / standardError);
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+export function studentTCdf(t: number, degreesOfFreedom: number): number {
+  const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, degreesOfFreedom / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+function judge(
+  metric: string,
+  oldValue: number,
+  newValue: number,
+  higherIsBetter: boolean,
+  options: CompareOptions,
+  test: { note?: string; pValue?: number; significant?: boolean },
+): MetricComparison {
+  const change = oldValue === 0 ? null : (newValue - oldValue) / oldValue;
+  const worse = higherIsBetter ? newValue < oldValue : newValue > oldValue;
+  const better = higherIsBetter ? newValue > oldValue : newValue < oldValue;
+  const significant =
+    test.significant ??
+    (test.pValue !== undefined && test.pValue < options.alpha);
+  // A change from zero has no relative size, so any significant increase counts
+  const exceedsThreshold =
+    change === null
+      ? newValue !== oldValue
+      : Math.abs(change) > options.threshold;
+
+  return {
+    change: change === null ? null : round(change),
+    higherIsBetter,
+    // Improvements are judged like regressions, only in the other direction
+    improvement:
+      better &&
+      exceedsThreshold &&
+      (test.significant ??
+        (test.pValue !== undefined && 1 - test.pValue < options.alpha)),
+    metric,
+    new: newValue,
+    note: test.note,
+    old: oldValue,
+    pValue: test.pValue === undefined ? undefined : round(test.pValue, 6),
+    regression: worse && significant && exceedsThreshold,
+    significant,
+  };
+}
+
+function diffConfig(oldConfig: BenchConfig, newConfig: BenchConfig): string[] {
+  const keys = new Set([...Object.keys(oldConfig), ...Object.keys(newConfig)]);
+  return [...keys]
+    .filter(
+      (key) =>
+        key !== "workers" &&
+        JSON.stringify(oldConfig[key as keyof BenchConfig]) !==
+          JSON.stringify(newConfig[key as keyof BenchConfig]),
+    )
+    .sort();
+}
+
+// Abramowitz and Stegun formula 7.1.26, accurate to 1.5e-7
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const absX = Math.abs(x);
+  const t = 1 / (1 + 0.327_591_1 * absX);
+  const y =
+    1 -
+    ((((1.061_405_429 * t - 1.453_152_027) * t + 1.421_413_741) * t -
+      0.284_496_736) *
+      t +
+      0.254_829_592) *
+      t *
+      Math.exp(-absX * absX);
+  return sign * y;
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation
+  const coefficients = [
+    76.180_091_729_471_46, -86.505_320_329_417, 24.014_098_240_830_91,
+    -1.231_739_572_450_155, 0.001_208_650_973_866_179,
+    -0.000_005_395_239_384_953,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000_000_000_190_015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+
+  return -tmp + Math.log((2.506_628_274_631 * series) / x);
+}
+
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) -
+      logGamma(a) -
+      logGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x),
+  );
+
+  // The continued fraction converges quickly for x < (a+1)/(a+b+2)
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+// Lentz's method, as described in Numerical Recipes
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const epsilon = 1e-12;
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    numerator = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return result;
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,576 @@
+import * as Ably from "ably";
+import { performance } from "node:perf_hooks";
+import { Worker } from "node:worker_threads";
+
+import {
+  BenchConfig,
+  BenchReport,
+  PublisherResult,
+  SubscriberResult,
+  buildReport,
+} from "./bench-stats.js";
+
+const CONNECT_TIMEOUT_MS = 15_000;
+const BENCH_EVENT_NAME = "bench";
+
+/**
+ * The connections one node (the main thread or a worker) is responsible for.
+ * Publisher and subscriber indices are global across the whole run.
+ */
+export interface BenchNodePlan {
+  config: BenchConfig;
+  publishers: number[];
+  runId: string;
+  subscribers: number[];
+}
+
+export interface BenchNodeResult {
+  publishers: PublisherResult[];
+  subscribers: SubscriberResult[];
+}
+
+export interface BenchProgress {
+  published: number;
+  received: number;
+}
+
+export interface RunBenchmarkOptions {
+  clientOptions: Ably.ClientOptions;
+  config: BenchConfig;
+  /** How long to wait for outstanding messages once publishing ends */
+  drainTimeoutMs: number;
+  onPhase?: (phase: "connecting" | "draining" | "publishing") => void;
+  onProgress?: (progress: BenchProgress) => void;
+  runId: string;
+}
+
+interface BenchPayload {
+  p: number;
+  pad?: string;
+  r: string;
+  s: number;
+  t: number;
+}
+
+type WorkerRequest =
+  | { expected: Record<string, number>; timeoutMs: number; type: "drain" }
+  | { startAt: number; type: "publish" };
+
+type WorkerResponse =
+  | { error: string; type: "error" }
+  | { progress: BenchProgress; type: "progress" }
+  | { result: BenchNodeResult; type: "drained" }
+  | { result: BenchNodeResult; type: "published" }
+  | { type: "ready" };
+
+/**
+ * A high resolution wall clock that is comparable across worker threads
+ */
+export function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Map a publisher or subscriber index onto one of the run's channels
+ */
+export function channelFor(index: number, channels: string[]): string {
+  return channels[index % channels.length];
+}
+
+/**
+ * Offset in ms from the start of the run at which a publisher sends message
+ * seq. With a ramp the rate changes linearly from rate to rampTo over the
+ * time it takes to send every message.
+ */
+export function getSendOffset(
+  seq: number,
+  config: Pick<BenchConfig, "messages" | "rampTo" | "rate">,
+): number {
+  const from = config.rate;
+  const to = config.rampTo ?? from;
+  if (to === from) return (seq * 1000) / from;
+
+  // Messages sent by time t is from*t + (to-from)*t^2/(2T), solved for t
+  const totalSeconds = (2 * config.messages) / (from + to);
+  const a = (to - from) / (2 * totalSeconds);
+  const seconds = (-from + Math.sqrt(from * from + 4 * a * seq)) / (2 * a);
+  return seconds * 1000;
+}
+
+/**
+ * Spread publishers and subscribers across nodes round-robin
+ */
+export function splitPlan(
+  config: BenchConfig,
+  runId: string,
+  nodes: number,
+): BenchNodePlan[] {
+  const plans: BenchNodePlan[] = Array.from({ length: nodes }, () => ({
+    config,
+    publishers: [],
+    runId,
+    subscribers: [],
+  }));
+  for (let i = 0; i < config.publishers; i++) {
+    plans[i % nodes].publishers.push(i);
+  }
+
+  for (let i = 0; i < config.subscribers; i++) {
+    plans[i % nodes].subscribers.push(i);
+  }
+
+  return plans.filter(
+    (plan) => plan.publishers.length > 0 || plan.subscribers.length > 0,
+  );
+}
+
+/**
+ * Runs a set of publisher and subscriber connections. Used directly for
+ * in-process runs and from bench-worker for worker thread runs.
+ */
+export class BenchNode {
+  private clients: Ably.Realtime[] = [];
+  private publisherResults: PublisherResult[] = [];
+  private publisherChannels: Array<{
+    channel: { publish(name: string, data: unknown): Promise<void> };
+    index: number;
+  }> = [];
+
+  private subscriberState: Array<{
+    result: SubscriberResult;
+    seen: Set<string>;
+  }> = [];
+
+  constructor(
+    private readonly clientOptions: Ably.ClientOptions,
+    private readonly plan: BenchNodePlan,
+  ) {}
+
+  async close(): Promise<void> {
+    for (const client of this.clients) {
+      client.close();
+    }
+
+    this.clients = [];
+  }
+
+  /**
+   * Open every connection and attach subscribers so no messages are missed
+   */
+  async connect(): Promise<void> {
+    const { config } = this.plan;
+
+    await Promise.all(
+      this.plan.subscribers.map(async (index) => {
+        const client = await this.connectClient();
+        const channelName = channelFor(index, config.channels);
+        const channel = client.channels.get(channelName);
+        const state = {
+          result: {
+            channel: channelName,
+            duplicates: 0,
+            index,
+            latencies: [] as number[],
+            received: 0,
+          } as SubscriberResult,
+          seen: new Set<string>(),
+        };
+        this.subscriberState.push(state);
+
+        await channel.subscribe(BENCH_EVENT_NAME, (message: Ably.Message) => {
+          const receivedAt = now();
+          const payload = message.data as BenchPayload;
+          if (!payload || payload.r !== this.plan.runId) return;
+
+          const key = `${payload.p}:${payload.s}`;
+          if (state.seen.has(key)) {
+            state.result.duplicates++;
+            return;
+          }
+
+          state.seen.add(key);
+          state.result.received++;
+          state.result.lastReceivedAt = receivedAt;
+          state.result.latencies.push(receivedAt - payload.t);
+        });
+      }),
+    );
+
+    await Promise.all(
+      this.plan.publishers.map(async (index) => {
+        const channelName = channelFor(index, config.channels);
+        this.publisherResults.push({
+          channel: channelName,
+          errors: 0,
+          index,
+          published: 0,
+        });
+
+        if (config.transport === "rest") {
+          const rest = new Ably.Rest(this.clientOptions);
+          this.publisherChannels.push({
+            channel: rest.channels.get(channelName),
+            index,
+          });
+        } else {
+          const client = await this.connectClient();
+          this.publisherChannels.push({
+            channel: client.channels.get(channelName),
+            index,
+          });
+        }
+      }),
+    );
+  }
+
+  /**
+   * Wait until every subscriber has the expected number of messages for its
+   * channel, or the timeout elapses
+   */
+  async drain(
+    expected: Record<string, number>,
+    timeoutMs: number,
+  ): Promise<BenchNodeResult> {
+    const deadline = Date.now() + timeoutMs;
+    const complete = () =>
+      this.subscriberState.every(
+        ({ result }) => result.received >= (expected[result.channel] ?? 0),
+      );
+
+    while (!complete() && Date.now() < deadline) {
+      await sleep(100);
+    }
+
+    return this.result();
+  }
+
+  progress(): BenchProgress {
+    return {
+      published: this.publisherResults.reduce((sum, p) => sum + p.published, 0),
+      received: this.subscriberState.reduce(
+        (sum, { result }) => sum + result.received,
+        0,
+      ),
+    };
+  }
+
+  /**
+   * Publish from every publisher at the configured rate, starting at startAt
+   * so publishers on different workers begin together
+   */
+  async publish(startAt: number): Promise<void> {
+    const { config } = this.plan;
+    const padding =
+      config.messageSize > 0 ? "x".repeat(config.messageSize) : undefined;
+
+    await sleep(Math.max(0, startAt - now()));
+
+    await Promise.all(
+      this.publisherChannels.map(async ({ channel, index }) => {
+        const result = this.publisherResults.find((p) => p.index === index)!;
+        const pending: Array<Promise<void>> = [];
+
+        for (let seq = 0; seq < config.messages; seq++) {
+          // Schedule against the start time so slow publishes don't cause drift
+          await sleep(startAt + getSendOffset(seq, config) - now());
+
+          const payload: BenchPayload = {
+            p: index,
+            pad: padding,
+            r: this.plan.runId,
+            s: seq,
+            t: now(),
+          };
+          pending.push(
+            channel.publish(BENCH_EVENT_NAME, payload).then(
+              () => {
+                result.published++;
+              },
+              () => {
+                result.errors++;
+              },
+            ),
+          );
+        }
+
+        await Promise.all(pending);
+      }),
+    );
+  }
+
+  result(): BenchNodeResult {
+    return {
+      publishers: this.publisherResults,
+      subscribers: this.subscriberState.map(({ result }) => result),
+    };
+  }
+
+  private async connectClient(): Promise<Ably.Realtime> {
+    const client = new Ably.Realtime(this.clientOptions);
+    this.clients.push(client);
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(
+        () => reject(new Error("Timed out connecting benchmark client")),
+        CONNECT_TIMEOUT_MS,
+      );
+      client.connection.once("connected", () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      client.connection.once("failed", (stateChange) => {
+        clearTimeout(timeout);
+        reject(
+          new Error(
+            `Benchmark client failed to connect: ${stateChange.reason?.message ?? "unknown error"}`,
+          ),
+        );
+      });
+    });
+
+    return client;
+  }
+}
+
+/**
+ * Run a benchmark in-process, or across worker threads when
+ * config.workers > 0, and build the report
+ */
+export async function runBenchmark(
+  options: RunBenchmarkOptions,
+): Promise<BenchReport> {
+  const { config, runId } = options;
+  const nodes =
+    config.workers > 0
+      ? splitPlan(config, runId, config.workers).map(
+          (plan) => new WorkerNode(options.clientOptions, plan),
+        )
+      : [new BenchNode(options.clientOptions, splitPlan(config, runId, 1)[0])];
+
+  const progressTimer = options.onProgress
+    ? setInterval(() => {
+        const totals = { published: 0, received: 0 };
+        for (const node of nodes) {
+          const progress = node.progress();
+          totals.published += progress.published;
+          totals.received += progress.received;
+        }
+
+        options.onProgress!(totals);
+      }, 1000)
+    : undefined;
+
+  try {
+    options.onPhase?.("connecting");
+    await Promise.all(nodes.map((node) => node.connect()));
+
+    options.onPhase?.("publishing");
+    // Give workers a moment to receive the start time before it passes
+    const startedAt = now() + (config.workers > 0 ? 250 : 0);
+    await Promise.all(nodes.map((node) => node.publish(startedAt)));
+    const publishDurationMs = now() - startedAt;
+
+    options.onPhase?.("draining");
+    const expected: Record<string, number> = {};
+    for (const node of nodes) {
+      for (const publisher of node.result().publishers) {
+        expected[publisher.channel] =
+          (expected[publisher.channel] ?? 0) + publisher.published;
+      }
+    }
+
+    const results = await Promise.all(
+      nodes.map((node) => node.drain(expected, options.drainTimeoutMs)),
+    );
+
+    return buildReport({
+      config,
+      finishedAt: now(),
+      publishDurationMs,
+      publishers: results.flatMap((result) => result.publishers),
+      runId,
+      startedAt,
+      subscribers: results.flatMap((result) => result.subscribers),
+    });
+  } finally {
+    if (progressTimer) clearInterval(progressTimer);
+    await Promise.all(nodes.map((node) => node.close()));
+  }
+}
+
+/**
+ * Proxy for a BenchNode running in a worker thread
+ */
+class WorkerNode {
+  private lastProgress: BenchProgress = { published: 0, received: 0 };
+  private lastResult: BenchNodeResult = { publishers: [], subscribers: [] };
+  private waiting: {
+    reject: (error: Error) => void;
+    resolve: (response: WorkerResponse) => void;
+    type: WorkerResponse["type"];
+  } | null = null;
+
+  private worker: Worker;
+
+  constructor(clientOptions: Ably.ClientOptions, plan: BenchNodePlan) {
+    this.worker = new Worker(workerScriptUrl(), {
+      workerData: { clientOptions: cloneableOptions(clientOptions), plan },
+    });
+    this.worker.on("message", (response: WorkerResponse) =>
+      this.handleMessage(response),
+    );
+    this.worker.on("error", (error) => this.fail(error));
+    this.worker.on("exit", (code) => {
+      if (code !== 0) this.fail(new Error(`Worker exited with code ${code}`));
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+
+  async connect(): Promise<void> {
+    await this.waitFor("ready");
+  }
+
+  async drain(
+    expected: Record<string, number>,
+    timeoutMs: number,
+  ): Promise<BenchNodeResult> {
+    const response = await this.send(
+      { expected, timeoutMs, type: "drain" },
+      "drained",
+    );
+    return (response as Extract<WorkerResponse, { type: "drained" }>).result;
+  }
+
+  progress(): BenchProgress {
+    return this.lastProgress;
+  }
+
+  async publish(startAt: number): Promise<void> {
+    await this.send({ startAt, type: "publish" }, "published");
+  }
+
+  result(): BenchNodeResult {
+    return this.lastResult;
+  }
+
+  private fail(error: Error): void {
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+
+  private handleMessage(response: WorkerResponse): void {
+    switch (response.type) {
+      case "progress": {
+        this.lastProgress = response.progress;
+        return;
+      }
+
+      case "error": {
+        this.fail(new Error(response.error));
+        return;
+      }
+
+      case "drained": {
+        this.lastResult = response.result;
+        break;
+      }
+
+      case "published": {
+        // The publisher totals are needed to work out expected deliveries
+        this.lastResult = response.result;
+        break;
+      }
+    }
+
+    if (this.waiting?.type === response.type) {
+      this.waiting.resolve(response);
+      this.waiting = null;
+    }
+  }
+
+  private send(
+    request: WorkerRequest,
+    type: WorkerResponse["type"],
+  ): Promise<WorkerResponse> {
+    const response = this.waitFor(type);
+    this.worker.postMessage(request);
+    return response;
+  }
+
+  private waitFor(type: WorkerResponse["type"]): Promise<WorkerResponse> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { reject, resolve, type };
+    });
+  }
+}
+
+/**
+ * Entry point for bench-worker: run the node described by workerData and
+ * answer requests from the main thread
+ */
+export async function runWorkerNode(
+  port: {
+    on(event: "message", listener: (request: WorkerRequest) => void): void;
+    postMessage(response: WorkerResponse): void;
+  },
+  data: { clientOptions: Ably.ClientOptions; plan: BenchNodePlan },
+): Promise<void> {
+  const node = new BenchNode(data.clientOptions, data.plan);
+  const progressTimer = setInterval(
+    () => port.postMessage({ progress: node.progress(), type: "progress" }),
+    500,
+  );
+
+  const fail = (error: unknown) =>
+    port.postMessage({
+      error: error instanceof Error ? error.message : String(error),
+      type: "error",
+    });
+
+  port.on("message", (request) => {
+    if (request.type === "publish") {
+      node
+        .publish(request.startAt)
+        .then(
+          () => port.postMessage({ result: node.result(), type: "published" }),
+          fail,
+        );
+    } else if (request.type === "drain") {
+      node.drain(request.expected, request.timeoutMs).then(async (result) => {
+        clearInterval(progressTimer);
+        await node.close();
+        port.postMessage({ result, type: "drained" });
+      }, fail);
+    }
+  });
+
+  try {
+    await node.connect();
+    port.postMessage({ type: "ready" });
+  } catch (error) {
+    fail(error);
+  }
+}
+
+function workerScriptUrl(): URL {
+  // When running from source under ts-node the worker is a .ts file too
+  const extension = import.meta.url.endsWith(".ts") ? "ts" : "js";
+  return new URL(`bench-worker.${extension}`, import.meta.url);
+}
+
+/**
+ * Client options can include functions such as logHandler, which cannot be
+ * passed to a worker thread
+ */
+function cloneableOptions(options: Ably.ClientOptions): Ably.ClientOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => typeof value !== "function"),
+  ) as Ably.ClientOptions;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
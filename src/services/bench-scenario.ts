@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+import { parseDuration } from "../utils/duration.js";
+import type { BenchConfig } from "./bench-stats.js";
+
+/**
+ * Durations are written as a number of seconds or a string such as
+ * "500ms", "90s", "2m" or "1h"
+ */
+const durationSchema = z
+  .union([z.number().positive(), z.string()])
+  .transform((value, context) => {
+    const ms = parseDuration(value);
+    if (ms === undefined) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid duration "${value}". Use a number of seconds or a value such as 500ms, 90s, 2m or 1h`,
+      });
+      return z.NEVER;
+    }
+
+    return ms;
+  });
+
+const rateSchema = z.union([
+  z.number().positive(),
+  z
+    .object({
+      from: z.number().positive(),
+      to: z.number().positive(),
+    })
+    .strict(),
+]);
+
+const scenarioSchema = z
+  .object({
+    channel: z.string().min(1).optional(),
+    channels: z.number().int().positive().default(1),
+    description: z.string().optional(),
+    drainTimeout: durationSchema.optional(),
+    /** How long to publish for. Mutually exclusive with messages */
+    duration: durationSchema.optional(),
+    limits: z
+      .object({
+        maxMessages: z.number().int().positive().optional(),
+        maxRate: z.number().positive().optional(),
+      })
+      .strict()
+      .default({}),
+    messageSize: z.number().int().nonnegative().default(100),
+    /** Messages sent by each publisher. Mutually exclusive with duration */
+    messages: z.number().int().positive().optional(),
+    name: z.string().optional(),
+    publishers: z.number().int().positive().default(1),
+    /** Messages per second for each publisher, or a linear ramp */
+    rate: rateSchema,
+    subscribers: z.number().int().positive().default(1),
+    transport: z.enum(["realtime", "rest"]).default("realtime"),
+    version: z.literal(1).default(1),
+  })
+  .strict()
+  .refine(
+    (scenario) =>
+      (scenario.messages === undefined) !== (scenario.duration === undefined),
+    { message: "Specify exactly one of messages or duration" },
+  );
+
+export type BenchScenario = z.infer<typeof scenarioSchema>;
+
+/**
+ * Parse and validate a scenario document, written in YAML or JSON
+ */
+export function parseScenario(content: string): BenchScenario {
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Unable to parse scenario: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = scenarioSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid scenario:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+export function loadScenarioFile(filePath: string): BenchScenario {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Scenario file not found: ${resolvedPath}`);
+  }
+
+  return parseScenario(fs.readFileSync(resolvedPath, "utf8"));
+}
+
+/**
+ * Turn a scenario into the configuration for a benchmark run. A duration is
+ * converted into the number of messages each publisher sends at the
+ * scenario's rate, including any ramp.
+ */
+export function scenarioToConfig(
+  scenario: BenchScenario,
+  options: { channel?: string; workers: number },
+): BenchConfig {
+  const channel = scenario.channel ?? options.channel;
+  if (!channel) {
+    throw new Error(
+      "The scenario does not name a channel, so one must be given as an argument",
+    );
+  }
+
+  const from =
+    typeof scenario.rate === "number" ? scenario.rate : scenario.rate.from;
+  const to = typeof scenario.rate === "number" ? from : scenario.rate.to;
+  const messages =
+    scenario.messages ??
+    Math.max(1, Math.round((((from + to) / 2) * scenario.duration!) / 1000));
+
+  return {
+    channels:
+      scenario.channels === 1
+        ? [channel]
+        : Array.from(
+            { length: scenario.channels },
+            (_, i) => `${channel}-${i}`,
+          ),
+    messageSize: scenario.messageSize,
+    messages,
+    publishers: scenario.publishers,
+    rampTo: to === from ? undefined : to,
+    rate: from,
+    scenario: scenario.name,
+    subscribers: scenario.subscribers,
+    transport: scenario.transport,
+    workers: options.workers,
+  };
+}
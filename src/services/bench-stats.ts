@@ -0,0 +1,196 @@
+/**
+ * Latency statistics and the JSON report produced by `ably bench run`.
+ * The report is versioned so reports from different CLI releases can be
+ * compared safely.
+ */
+
+export const BENCH_REPORT_VERSION = 1;
+
+export interface LatencySummary {
+  max: number;
+  mean: number;
+  min: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  p999: number;
+  samples: number;
+  stddev: number;
+}
+
+export interface BenchConfig {
+  channels: string[];
+  messageSize: number;
+  /** Messages sent by each publisher */
+  messages: number;
+  publishers: number;
+  /** When set, each publisher's rate ramps linearly from rate to rampTo */
+  rampTo?: number;
+  /** Messages per second sent by each publisher */
+  rate: number;
+  /** Name of the scenario file the run was configured from */
+  scenario?: string;
+  subscribers: number;
+  transport: "realtime" | "rest";
+  workers: number;
+}
+
+export interface SubscriberResult {
+  channel: string;
+  duplicates: number;
+  index: number;
+  /** Time the last message arrived (ms since epoch), if any did */
+  lastReceivedAt?: number;
+  latencies: number[];
+  /** Unique messages received */
+  received: number;
+}
+
+export interface PublisherResult {
+  channel: string;
+  errors: number;
+  index: number;
+  published: number;
+}
+
+export interface BenchReport {
+  config: BenchConfig;
+  delivery: {
+    duplicates: number;
+    expected: number;
+    lossRate: number;
+    lost: number;
+    received: number;
+  };
+  durationMs: number;
+  finishedAt: string;
+  latency: LatencySummary;
+  publish: {
+    attempted: number;
+    errors: number;
+    published: number;
+  };
+  runId: string;
+  startedAt: string;
+  throughput: {
+    /** Unique messages delivered per second across all subscribers, up to the last delivery */
+    deliveredPerSecond: number;
+    /** Messages accepted by Ably per second across all publishers */
+    publishedPerSecond: number;
+  };
+  version: number;
+}
+
+/**
+ * Nearest-rank percentile of an ascending sorted array
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+export function summarizeLatencies(latencies: number[]): LatencySummary {
+  const sorted = Float64Array.from(latencies).sort();
+  const values = [...sorted];
+  const samples = values.length;
+  const mean =
+    samples === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / samples;
+  const variance =
+    samples === 0
+      ? 0
+      : values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples;
+
+  return {
+    max: round(values.at(-1) ?? 0),
+    mean: round(mean),
+    min: round(values[0] ?? 0),
+    p50: round(percentile(values, 50)),
+    p90: round(percentile(values, 90)),
+    p99: round(percentile(values, 99)),
+    p999: round(percentile(values, 99.9)),
+    samples,
+    stddev: round(Math.sqrt(variance)),
+  };
+}
+
+/**
+ * Combine per-connection results into a report. Each subscriber is expected
+ * to receive every message successfully published on its channel.
+ */
+export function buildReport(options: {
+  config: BenchConfig;
+  finishedAt: number;
+  publishDurationMs: number;
+  publishers: PublisherResult[];
+  runId: string;
+  startedAt: number;
+  subscribers: SubscriberResult[];
+}): BenchReport {
+  const { config, publishers, subscribers } = options;
+
+  const publishedPerChannel = new Map<string, number>();
+  for (const publisher of publishers) {
+    publishedPerChannel.set(
+      publisher.channel,
+      (publishedPerChannel.get(publisher.channel) ?? 0) + publisher.published,
+    );
+  }
+
+  let expected = 0;
+  let received = 0;
+  let duplicates = 0;
+  let lost = 0;
+  let lastReceivedAt = options.startedAt;
+  const latencies: number[] = [];
+  for (const subscriber of subscribers) {
+    const subscriberExpected = publishedPerChannel.get(subscriber.channel) ?? 0;
+    expected += subscriberExpected;
+    received += subscriber.received;
+    duplicates += subscriber.duplicates;
+    lost += Math.max(0, subscriberExpected - subscriber.received);
+    lastReceivedAt = Math.max(
+      lastReceivedAt,
+      subscriber.lastReceivedAt ?? options.startedAt,
+    );
+    for (const latency of subscriber.latencies) latencies.push(latency);
+  }
+
+  const published = publishers.reduce((sum, p) => sum + p.published, 0);
+  const errors = publishers.reduce((sum, p) => sum + p.errors, 0);
+  const durationMs = options.finishedAt - options.startedAt;
+  const publishSeconds = Math.max(options.publishDurationMs, 1) / 1000;
+  const deliverySeconds =
+    Math.max(lastReceivedAt - options.startedAt, 1) / 1000;
+
+  return {
+    config,
+    delivery: {
+      duplicates,
+      expected,
+      lossRate: expected === 0 ? 0 : round(lost / expected, 6),
+      lost,
+      received,
+    },
+    durationMs: Math.round(durationMs),
+    finishedAt: new Date(options.finishedAt).toISOString(),
+    latency: summarizeLatencies(latencies),
+    publish: {
+      attempted: config.publishers * config.messages,
+      errors,
+      published,
+    },
+    runId: options.runId,
+    startedAt: new Date(options.startedAt).toISOString(),
+    throughput: {
+      deliveredPerSecond: round(received / deliverySeconds),
+      publishedPerSecond: round(published / publishSeconds),
+    },
+    version: BENCH_REPORT_VERSION,
+  };
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,10 @@
+import { parentPort, workerData } from "node:worker_threads";
+
+import { runWorkerNode } from "./bench-runner.js";
+
+/**
+ * Worker thread entry point for `ably bench run --workers`
+ */
+if (parentPort) {
+  await runWorkerNode(parentPort, workerData);
+}
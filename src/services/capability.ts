@@ -0,0 +1,312 @@
+import jwt from "jsonwebtoken";
+
+/** A capability maps resource name patterns to the operations allowed on them */
+export type Capability = Record<string, string[]>;
+
+/**
+ * Operations that can be granted in a capability, with what each one allows
+ * in human terms
+ */
+export const CAPABILITY_OPERATIONS: Record<string, string> = {
+  "*": "all operations",
+  "annotation-publish": "publish annotations to messages",
+  "annotation-subscribe": "subscribe to individual annotations",
+  "channel-metadata": "query channel metadata and status",
+  history: "retrieve message and presence history",
+  "message-delete-any": "delete any message",
+  "message-delete-own": "delete their own messages",
+  "message-update-any": "update any message",
+  "message-update-own": "update their own messages",
+  "object-publish": "create and update LiveObjects",
+  "object-subscribe": "subscribe to LiveObjects",
+  presence: "register presence and enter, update and leave presence sets",
+  "privileged-headers": "set privileged headers such as push extras",
+  publish: "publish messages",
+  "push-admin":
+    "manage push device registrations and subscriptions for all devices",
+  "push-subscribe": "subscribe their own device to push notifications",
+  stats: "retrieve app statistics",
+  subscribe: "subscribe to messages and presence",
+};
+
+export interface CapabilityCheck {
+  allowed: boolean;
+  /** Resource patterns in the capability that match the channel and grant the operation */
+  grantedBy: string[];
+  /** Resource patterns in the capability that match the channel */
+  matchedBy: string[];
+}
+
+export type CapabilitySource = "capability" | "jwt" | "key";
+
+/**
+ * A problem found in a capability. Errors are capabilities Ably can't
+ * accept; warnings are operations this CLI doesn't know, which Ably may have
+ * added since.
+ */
+export interface CapabilityProblem {
+  level: "error" | "warning";
+  message: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Problems with a resource name pattern, e.g. an unterminated qualifier.
+ * Returns undefined when the pattern is valid.
+ */
+export function resourceProblem(resource: string): string | undefined {
+  if (resource.trim() === "") return "resource names cannot be empty";
+
+  if (resource.startsWith("[")) {
+    const end = resource.indexOf("]");
+    if (end === -1) {
+      return `"${resource}" has an unterminated qualifier; expected e.g. "[meta]*"`;
+    }
+
+    if (end === 1) return `"${resource}" has an empty qualifier`;
+  } else if (resource.includes("[") || resource.includes("]")) {
+    return `"${resource}" can only have a qualifier like "[meta]" at the start`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Validate a parsed capability, returning one entry per problem found
+ */
+export function validateCapability(value: unknown): CapabilityProblem[] {
+  const error = (message: string): CapabilityProblem => ({
+    level: "error",
+    message,
+  });
+  if (!isPlainObject(value)) {
+    return [
+      error('A capability must be a JSON object, e.g. {"channel":["publish"]}'),
+    ];
+  }
+
+  const problems: CapabilityProblem[] = [];
+  if (Object.keys(value).length === 0) {
+    problems.push(error("A capability must grant at least one resource"));
+  }
+
+  for (const [resource, operations] of Object.entries(value)) {
+    const problem = resourceProblem(resource);
+    if (problem) problems.push(error(problem));
+
+    if (
+      !Array.isArray(operations) ||
+      operations.some((operation) => typeof operation !== "string")
+    ) {
+      problems.push(
+        error(
+          `Operations for "${resource}" must be an array of strings, e.g. ["publish","subscribe"]`,
+        ),
+      );
+      continue;
+    }
+
+    if (operations.length === 0) {
+      problems.push(error(`"${resource}" must grant at least one operation`));
+    }
+
+    for (const operation of operations as string[]) {
+      if (!(operation in CAPABILITY_OPERATIONS)) {
+        problems.push({
+          level: "warning",
+          message: `Unknown operation "${operation}" for "${resource}", which Ably may reject. Known operations: ${Object.keys(CAPABILITY_OPERATIONS).join(", ")}`,
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Parse and validate a capability given as a JSON string or an object. The
+ * label names the capability in error messages, e.g. after the flag it came
+ * from. Warnings are passed to onWarning rather than failing the parse.
+ */
+export function parseCapability(
+  input: unknown,
+  label = "capability",
+  onWarning?: (message: string) => void,
+): Capability {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new Error(
+        `Invalid ${label} JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  const problems = validateCapability(value);
+  const errors = problems.filter((problem) => problem.level === "error");
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${label}:\n${errors.map(({ message }) => `  ${message}`).join("\n")}`,
+    );
+  }
+
+  for (const { message } of problems.filter((p) => p.level === "warning")) {
+    onWarning?.(message);
+  }
+
+  return value as Capability;
+}
+
+function splitQualifier(name: string): { base: string; qualifier?: string } {
+  if (!name.startsWith("[")) return { base: name };
+
+  const end = name.indexOf("]");
+  return end === -1
+    ? { base: name }
+    : { base: name.slice(end + 1), qualifier: name.slice(1, end) };
+}
+
+/**
+ * Whether a pattern, in which "*" matches any sequence of characters,
+ * matches the whole of a value
+ */
+export function globMatches(pattern: string, value: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replaceAll(/[$()+.?[\\\]^{|}]/g, String.raw`\$&`))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Whether a resource name pattern matches a channel. "*" matches any
+ * sequence of characters. Qualified channels such as "[meta]log" are only
+ * matched by patterns with the same qualifier, or with the "[*]" wildcard
+ * qualifier.
+ */
+export function resourceMatches(pattern: string, channel: string): boolean {
+  const resource = splitQualifier(pattern);
+  const target = splitQualifier(channel);
+
+  if (resource.qualifier === undefined) {
+    return target.qualifier === undefined && globMatches(pattern, channel);
+  }
+
+  if (resource.qualifier !== "*" && resource.qualifier !== target.qualifier) {
+    return false;
+  }
+
+  return globMatches(resource.base, target.base);
+}
+
+/**
+ * Work out whether a capability allows an operation on a channel
+ */
+export function checkCapability(
+  capability: Capability,
+  channel: string,
+  operation: string,
+): CapabilityCheck {
+  const matchedBy = Object.keys(capability).filter((resource) =>
+    resourceMatches(resource, channel),
+  );
+  const grantedBy = matchedBy.filter((resource) => {
+    const operations = capability[resource];
+    return operations.includes("*") || operations.includes(operation);
+  });
+
+  return { allowed: grantedBy.length > 0, grantedBy, matchedBy };
+}
+
+/**
+ * Describe the channels a resource name pattern covers
+ */
+export function describeResource(resource: string): string {
+  const { base, qualifier } = splitQualifier(resource);
+  const scope =
+    qualifier === undefined
+      ? ""
+      : qualifier === "*"
+        ? ", including qualified channels such as [meta] channels"
+        : ` with the [${qualifier}] qualifier`;
+
+  if (base === "*") return `all channels${scope}`;
+
+  const namespace = /^([^*:]+):\*$/.exec(base);
+  if (namespace) {
+    return `all channels in the "${namespace[1]}" namespace${scope}`;
+  }
+
+  if (base.includes("*")) return `channels matching "${base}"${scope}`;
+
+  return `the "${base}" channel${scope}`;
+}
+
+/**
+ * Explain a capability in human terms, one line per resource
+ */
+export function explainCapability(capability: Capability): string[] {
+  return Object.entries(capability).map(([resource, operations]) => {
+    const allowed = operations.includes("*")
+      ? CAPABILITY_OPERATIONS["*"]
+      : operations
+          .map((operation) => CAPABILITY_OPERATIONS[operation] ?? operation)
+          .join("; ");
+    return `On ${describeResource(resource)}: ${allowed}`;
+  });
+}
+
+/**
+ * Read the capability from a capability JSON string, a JWT or an API key.
+ * JWTs are decoded locally without verifying their signature; keys are
+ * looked up with the callback, given the app ID and key ID or full value.
+ * Ably Tokens are opaque, so their capability cannot be read.
+ */
+export async function resolveCapability(
+  credential: string,
+  lookupKey: (
+    appId: string,
+    keyIdOrValue: string,
+  ) => Promise<{ capability?: unknown }>,
+  onWarning?: (message: string) => void,
+): Promise<{ capability: Capability; source: CapabilitySource }> {
+  const trimmed = credential.trim();
+  if (trimmed.startsWith("{")) {
+    return {
+      capability: parseCapability(trimmed, "capability", onWarning),
+      source: "capability",
+    };
+  }
+
+  const decoded = jwt.decode(trimmed);
+  if (isPlainObject(decoded)) {
+    const claim = decoded["x-ably-capability"];
+    if (claim === undefined) {
+      throw new Error("The JWT has no x-ably-capability claim");
+    }
+
+    return {
+      capability: parseCapability(claim, "capability", onWarning),
+      source: "jwt",
+    };
+  }
+
+  // Key IDs are short, which tells them apart from Ably Tokens
+  const key = /^([\w-]+)\.([\w-]{1,16})(:.+)?$/.exec(trimmed);
+  if (key) {
+    const { capability } = await lookupKey(key[1], key[3] ? trimmed : key[2]);
+    return {
+      capability: parseCapability(capability, "capability", onWarning),
+      source: "key",
+    };
+  }
+
+  throw new Error(
+    "Unrecognised credential. Pass a capability JSON object, a JWT, or an API key (APP_ID.KEY_ID or the full key). Ably Tokens are opaque, so their capability cannot be read locally",
+  );
+}
@@ -0,0 +1,217 @@
+import type * as Ably from "ably";
+
+import fs from "node:fs";
+
+/**
+ * A single message captured by `ably channels record`, stored as one line of
+ * NDJSON. Binary payloads are stored base64-encoded with `encoding: "base64"`.
+ */
+export interface RecordedMessage {
+  channel: string;
+  clientId?: string;
+  connectionId?: string;
+  data: unknown;
+  encoding?: string;
+  extras?: unknown;
+  id?: string;
+  name?: string;
+  /** When the CLI received the message (ms since epoch) */
+  receivedAt: number;
+  /** When Ably accepted the message (ms since epoch) */
+  timestamp?: number;
+}
+
+export interface ChannelMapping {
+  from: string;
+  to: string;
+}
+
+/**
+ * Convert a received message into its recorded form
+ */
+export function toRecordedMessage(
+  channel: string,
+  message: Ably.Message,
+  receivedAt = Date.now(),
+): RecordedMessage {
+  let { data } = message;
+  let encoding = message.encoding ?? undefined;
+
+  // JSON has no binary type, so keep binary payloads as base64
+  if (Buffer.isBuffer(data) || data instanceof ArrayBuffer) {
+    data = Buffer.from(data as ArrayBuffer).toString("base64");
+    encoding = encoding ? `${encoding}/base64` : "base64";
+  } else if (ArrayBuffer.isView(data)) {
+    data = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString(
+      "base64",
+    );
+    encoding = encoding ? `${encoding}/base64` : "base64";
+  }
+
+  return dropUndefined({
+    channel,
+    clientId: message.clientId ?? undefined,
+    connectionId: message.connectionId ?? undefined,
+    data,
+    encoding,
+    extras: message.extras ?? undefined,
+    id: message.id ?? undefined,
+    name: message.name ?? undefined,
+    receivedAt,
+    timestamp: message.timestamp ?? undefined,
+  });
+}
+
+export function serializeRecordedMessage(message: RecordedMessage): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Parse an NDJSON recording, reporting the line number of any invalid entry
+ */
+export function parseRecording(content: string): RecordedMessage[] {
+  const messages: RecordedMessage[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (const [index, line] of lines.entries()) {
+    if (line.trim() === "") continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      typeof (parsed as RecordedMessage).channel !== "string"
+    ) {
+      throw new Error(
+        `Invalid recording entry on line ${index + 1}: expected an object with a "channel" field`,
+      );
+    }
+
+    messages.push(parsed as RecordedMessage);
+  }
+
+  return messages;
+}
+
+export function loadRecording(filePath: string): RecordedMessage[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Recording file not found: ${filePath}`);
+  }
+
+  return parseRecording(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Rebuild the payload to publish for a recorded message, decoding any base64
+ * data back to binary. clientId is only kept when explicitly requested since
+ * publishing as another client requires a wildcard clientId.
+ */
+export function toPublishMessage(
+  recorded: RecordedMessage,
+  options: { preserveClientId?: boolean } = {},
+): Ably.Message {
+  let { data } = recorded;
+  let encoding = recorded.encoding;
+
+  if (encoding?.endsWith("base64") && typeof data === "string") {
+    data = Buffer.from(data, "base64");
+    encoding = encoding.slice(0, -"base64".length).replace(/\/$/, "");
+  }
+
+  return dropUndefined({
+    clientId: options.preserveClientId ? recorded.clientId : undefined,
+    data,
+    encoding: encoding || undefined,
+    extras: recorded.extras,
+    name: recorded.name,
+  }) as Ably.Message;
+}
+
+/**
+ * Parse `from=to` channel mappings. A trailing `*` on both sides maps a
+ * prefix, e.g. `orders:*=scratch:*` turns `orders:eu` into `scratch:eu`.
+ */
+export function parseChannelMappings(values: string[]): ChannelMapping[] {
+  return values.map((value) => {
+    const separator = value.indexOf("=");
+    if (separator <= 0 || separator === value.length - 1) {
+      throw new Error(
+        `Invalid channel mapping "${value}". Use the form original=replacement`,
+      );
+    }
+
+    const from = value.slice(0, separator);
+    const to = value.slice(separator + 1);
+    if (from.endsWith("*") !== to.endsWith("*")) {
+      throw new Error(
+        `Invalid channel mapping "${value}". Both sides must end with * to map a prefix`,
+      );
+    }
+
+    return { from, to };
+  });
+}
+
+export function mapChannelName(
+  channel: string,
+  mappings: ChannelMapping[],
+): string {
+  for (const { from, to } of mappings) {
+    if (from.endsWith("*")) {
+      const prefix = from.slice(0, -1);
+      if (channel.startsWith(prefix)) {
+        return to.slice(0, -1) + channel.slice(prefix.length);
+      }
+    } else if (channel === from) {
+      return to;
+    }
+  }
+
+  return channel;
+}
+
+/**
+ * Offset in ms from the start of a replay at which a message should be
+ * published. Uses Ably's timestamp so rewound messages keep their original
+ * spacing, falling back to when the message was received.
+ */
+export function getReplayOffset(
+  message: RecordedMessage,
+  first: RecordedMessage,
+  speed: number,
+): number {
+  const time = message.timestamp ?? message.receivedAt;
+  const start = first.timestamp ?? first.receivedAt;
+  return Math.max(0, (time - start) / speed);
+}
+
+/**
+ * Return true if a channel name matches a subscription pattern, where `*`
+ * matches any sequence of characters
+ */
+export function matchesChannelPattern(
+  channel: string,
+  pattern: string,
+): boolean {
+  const regex = new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replaceAll(/[$()+.?[\\\]^{|}]/g, String.raw`\$&`))
+      .join(".*")}$`,
+  );
+  return regex.test(channel);
+}
+
+function dropUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as T;
+}
@@ -0,0 +1,144 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+import { ManifestNamespace, namespaceSchema } from "./app-manifest.js";
+
+export type ChannelRuleSettings = Omit<ManifestNamespace, "id">;
+
+const settingsSchema = namespaceSchema.omit({ id: true });
+
+/**
+ * Built-in templates for common channel rule policies. Templates only set
+ * the settings that matter for the use case, leaving the rest at the
+ * server defaults.
+ */
+export const CHANNEL_RULE_TEMPLATES: Record<
+  string,
+  { description: string; settings: ChannelRuleSettings }
+> = {
+  "chat-room": {
+    description: "Persisted history for authenticated chat clients",
+    settings: { authenticated: true, persisted: true },
+  },
+  "latest-value": {
+    description: "Keep the last message so new subscribers can rewind to it",
+    settings: { persistLast: true },
+  },
+  notifications: {
+    description: "Persisted messages that can also be delivered as push",
+    settings: { persisted: true, pushEnabled: true },
+  },
+  secure: {
+    description: "Authenticated clients over TLS only",
+    settings: { authenticated: true, tlsOnly: true },
+  },
+  telemetry: {
+    description: "High-rate data, batched to reduce message counts",
+    settings: { batchingEnabled: true, batchingInterval: 100 },
+  },
+};
+
+const ruleEntrySchema = settingsSchema
+  .extend({
+    id: z.string().min(1).optional(),
+    ids: z.array(z.string().min(1)).min(1).optional(),
+    template: z.string().min(1).optional(),
+  })
+  .strict()
+  .refine((entry) => (entry.id === undefined) !== (entry.ids === undefined), {
+    message: 'Each rule needs either "id" or "ids"',
+  });
+
+const rulesFileSchema = z
+  .object({
+    app: z.string().optional(),
+    rules: z.array(ruleEntrySchema).default([]),
+    templates: z.record(settingsSchema.strict()).default({}),
+    version: z.literal(1).default(1),
+  })
+  .strict();
+
+export interface ChannelRulesFile {
+  /** App ID or name the rules belong to, if the file names one */
+  app?: string;
+  namespaces: ManifestNamespace[];
+}
+
+/**
+ * Look up a template by name. Templates defined in a rules file take
+ * precedence over the built-in ones.
+ */
+export function resolveTemplate(
+  name: string,
+  custom: Record<string, ChannelRuleSettings> = {},
+): ChannelRuleSettings {
+  const settings = custom[name] ?? CHANNEL_RULE_TEMPLATES[name]?.settings;
+  if (!settings) {
+    const available = [
+      ...new Set([
+        ...Object.keys(custom),
+        ...Object.keys(CHANNEL_RULE_TEMPLATES),
+      ]),
+    ].sort();
+    throw new Error(
+      `Unknown channel rule template "${name}". Available templates: ${available.join(", ")}`,
+    );
+  }
+
+  return settings;
+}
+
+/**
+ * Parse a channel rules file and expand it into one namespace per channel
+ * rule. Each entry names a single rule with "id" or several with "ids", and
+ * settings given on the entry override those of its template.
+ */
+export function parseChannelRules(content: string): ChannelRulesFile {
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Unable to parse channel rules file: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = rulesFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid channel rules file:\n${issues}`);
+  }
+
+  const { app, rules, templates } = result.data;
+  const namespaces: ManifestNamespace[] = [];
+  const seen = new Set<string>();
+
+  for (const { id, ids, template, ...settings } of rules) {
+    const base = template ? resolveTemplate(template, templates) : {};
+    for (const namespaceId of ids ?? [id!]) {
+      if (seen.has(namespaceId)) {
+        throw new Error(
+          `Channel rule "${namespaceId}" is defined more than once`,
+        );
+      }
+
+      seen.add(namespaceId);
+      namespaces.push({ ...base, ...settings, id: namespaceId });
+    }
+  }
+
+  return { app, namespaces };
+}
+
+export function loadChannelRulesFile(filePath: string): ChannelRulesFile {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Channel rules file not found: ${resolvedPath}`);
+  }
+
+  return parseChannelRules(fs.readFileSync(resolvedPath, "utf8"));
+}
@@ -0,0 +1,274 @@
+import { Errors } from "@oclif/core";
+import { FetchError } from "node-fetch";
+
+import { ControlApiError } from "./control-api.js";
+
+export const ERROR_CATEGORIES = [
+  "general",
+  "usage",
+  "auth",
+  "not-found",
+  "rate-limited",
+  "network",
+  "server",
+  "ably",
+  "timeout",
+] as const;
+
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+/**
+ * Process exit code for each error category. These are part of the CLI's
+ * public interface for scripts, so existing values must never change.
+ */
+export const EXIT_CODES: Record<ErrorCategory, number> = {
+  ably: 8,
+  auth: 3,
+  general: 1,
+  network: 6,
+  "not-found": 4,
+  "rate-limited": 5,
+  server: 7,
+  timeout: 9,
+  usage: 2,
+};
+
+/**
+ * Exit code for `apps plan --detailed-exitcode` when the app has drifted from
+ * its manifest. Drift isn't a failure, so it is kept clear of EXIT_CODES.
+ */
+export const DRIFT_EXIT_CODE = 10;
+
+// Connection failures reported by Node for requests that never got a response
+const NETWORK_ERROR_CODES = new Set([
+  "EAI_AGAIN",
+  "ECONNABORTED",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ENOTFOUND",
+  "EPIPE",
+  "ETIMEDOUT",
+]);
+
+const ABLY_HELP_URL = "https://help.ably.io/error";
+
+export interface CliErrorOptions {
+  category: ErrorCategory;
+  /** The original error, kept for --verbose and debugging */
+  cause?: unknown;
+  /** Ably error code, e.g. 40101 */
+  code?: number;
+  /** Suggested next step shown after the message */
+  hint?: string;
+  /** Ably help link for the error code */
+  href?: string;
+  /** HTTP status of the failed request */
+  statusCode?: number;
+}
+
+/**
+ * A command failure mapped into the CLI's error taxonomy. oclif prints the
+ * message, code, hint and help link, and exits with the category's exit code.
+ */
+export class CliError extends Error {
+  category: ErrorCategory;
+  code?: number;
+  hint?: string;
+  href?: string;
+  oclif: { exit: number };
+  skipOclifErrorHandling?: boolean;
+  statusCode?: number;
+
+  constructor(message: string, options: CliErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = "Error";
+    this.category = options.category;
+    this.code = options.code;
+    this.hint = options.hint;
+    this.href = options.href;
+    this.statusCode = options.statusCode;
+    this.oclif = { exit: EXIT_CODES[options.category] };
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.category];
+  }
+
+  /** Shown by oclif as "Reference: <href>" */
+  get ref(): string | undefined {
+    return this.href;
+  }
+
+  /** Shown by oclif under "Try this:" */
+  get suggestions(): string[] | undefined {
+    return this.hint ? [this.hint] : undefined;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      category: this.category,
+      code: this.code,
+      exitCode: this.exitCode,
+      hint: this.hint,
+      href: this.href,
+      message: this.message,
+      statusCode: this.statusCode,
+    };
+  }
+}
+
+/**
+ * The single JSON document written for a failed command in --json mode
+ */
+export function errorEnvelope(error: CliError): Record<string, unknown> {
+  return {
+    error: error.toJSON(),
+    success: false,
+  };
+}
+
+/**
+ * Category for an Ably error code, using the ranges from
+ * https://github.com/ably/ably-common/blob/main/protocol/errors.json
+ */
+export function categoryForAblyCode(code: number): ErrorCategory | undefined {
+  if (code >= 40_100 && code < 40_200) return "auth";
+  if (code >= 40_300 && code < 40_400) return "auth";
+  if (code >= 40_400 && code < 40_500) return "not-found";
+  if (code >= 42_900 && code < 43_000) return "rate-limited";
+  if (code >= 50_000 && code < 60_000) return "server";
+  if (code >= 80_000 && code < 81_000) return "network";
+  return undefined;
+}
+
+/**
+ * Category for the HTTP status of a failed Ably or Control API request
+ */
+export function categoryForStatusCode(
+  statusCode: number,
+): ErrorCategory | undefined {
+  if (statusCode === 401 || statusCode === 403) return "auth";
+  if (statusCode === 404) return "not-found";
+  if (statusCode === 429) return "rate-limited";
+  if (statusCode === 400 || statusCode === 422) return "usage";
+  if (statusCode >= 500) return "server";
+  return undefined;
+}
+
+/**
+ * Map any error thrown while running a command into the taxonomy: Ably
+ * ErrorInfo by its code and status, Control API errors by their status,
+ * connection failures as network errors and oclif's flag and argument
+ * parsing errors as usage errors. Anything else, including this.error()
+ * messages, is a general error; throw a CliError to choose the category.
+ *
+ * @param context Prefix for the message, e.g. "Failed to publish message"
+ */
+export function toCliError(error: unknown, context?: string): CliError {
+  const withContext = (message: string) =>
+    context ? `${context}: ${message}` : message;
+
+  if (error instanceof CliError) {
+    if (!context) return error;
+    return new CliError(withContext(error.message), {
+      category: error.category,
+      cause: error.cause,
+      code: error.code,
+      hint: error.hint,
+      href: error.href,
+      statusCode: error.statusCode,
+    });
+  }
+
+  if (error instanceof ControlApiError) {
+    return new CliError(withContext(error.message), {
+      category:
+        (error.code === undefined
+          ? undefined
+          : categoryForAblyCode(error.code)) ??
+        categoryForStatusCode(error.statusCode) ??
+        "general",
+      cause: error,
+      code: error.code,
+      hint: error.hint,
+      href: error.href ?? helpUrl(error.code),
+      statusCode: error.statusCode,
+    });
+  }
+
+  if (isAblyErrorInfo(error)) {
+    return new CliError(withContext(error.message), {
+      category:
+        categoryForAblyCode(error.code) ??
+        (error.statusCode === undefined
+          ? undefined
+          : categoryForStatusCode(error.statusCode)) ??
+        "ably",
+      cause: error,
+      code: error.code,
+      href: error.href ?? helpUrl(error.code),
+      statusCode: error.statusCode,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isNetworkError(error)) {
+    return new CliError(withContext(message), {
+      category: "network",
+      cause: error,
+      hint: "Check your network connection and try again.",
+    });
+  }
+
+  return new CliError(withContext(message), {
+    category: isParseError(error) ? "usage" : "general",
+    cause: error,
+  });
+}
+
+function helpUrl(code?: number): string | undefined {
+  return code !== undefined && code >= 10_000 && code < 100_000
+    ? `${ABLY_HELP_URL}/${code}`
+    : undefined;
+}
+
+/**
+ * ErrorInfo from ably-js or from the copies bundled by the Chat and Spaces SDKs
+ */
+function isAblyErrorInfo(error: unknown): error is Error & {
+  code: number;
+  href?: string;
+  statusCode?: number;
+} {
+  return (
+    error instanceof Error &&
+    typeof (error as { code?: unknown }).code === "number" &&
+    ["number", "undefined"].includes(
+      typeof (error as { statusCode?: unknown }).statusCode,
+    )
+  );
+}
+
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof FetchError) {
+    return error.type === "system" || error.type === "request-timeout";
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Errors raised by oclif's parser for bad flags or arguments. These are
+ * CLIParseErrors, which unlike the errors from this.error() carry the parse
+ * input and output.
+ */
+function isParseError(error: unknown): boolean {
+  return (
+    error instanceof Errors.CLIError &&
+    typeof (error as { parse?: unknown }).parse === "object"
+  );
+}
@@ -0,0 +1,256 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseToml } from "smol-toml";
+
+import {
+  AblyConfig,
+  preserveConfig,
+  serializeConfig,
+  writeConfigFile,
+} from "./config-manager.js";
+import {
+  CONFIG_VERSION,
+  migrateConfig,
+  repairConfig,
+  validateConfig,
+} from "./config-schema.js";
+import {
+  ENCRYPTED_SECRETS_FILE,
+  EncryptedFileSecretStore,
+} from "./secret-store.js";
+
+export interface DoctorFinding {
+  check:
+    | "backup"
+    | "permissions"
+    | "schema"
+    | "secrets"
+    | "syntax"
+    | "temp-files"
+    | "version";
+  /** Whether the problem was fixed, always false unless fixing was requested */
+  fixed: boolean;
+  message: string;
+}
+
+export interface DoctorReport {
+  configPath: string;
+  findings: DoctorFinding[];
+  /** Files the broken config was moved to before being repaired */
+  preserved: string[];
+}
+
+type AddFinding = (
+  check: DoctorFinding["check"],
+  message: string,
+  fixed?: boolean,
+) => void;
+
+type ParseResult =
+  | { config: Record<string, unknown>; error?: undefined }
+  | { config?: undefined; error: string };
+
+/**
+ * Check the config file for problems: TOML syntax errors, an outdated format
+ * version, values that don't match the schema, loose file permissions, an
+ * unreadable secrets file and temporary files left by interrupted writes.
+ * With fix set, whatever can be repaired is, and a copy of a config that
+ * loses data in the repair is kept alongside it.
+ */
+export function diagnoseConfig(
+  configPath: string,
+  options: { fix?: boolean } = {},
+): DoctorReport {
+  const fix = options.fix ?? false;
+  const report: DoctorReport = { configPath, findings: [], preserved: [] };
+  const add: AddFinding = (check, message, fixed = false) => {
+    report.findings.push({ check, fixed, message });
+  };
+
+  removeStaleTempFiles(configPath, fix, add);
+
+  if (!fs.existsSync(configPath)) {
+    return report;
+  }
+
+  let parsed = parseConfigFile(configPath);
+  if (parsed.error !== undefined) {
+    add("syntax", `Not valid TOML: ${parsed.error}`, fix);
+
+    const backupPath = `${configPath}.bak`;
+    const backup = fs.existsSync(backupPath)
+      ? parseConfigFile(backupPath)
+      : undefined;
+    const backupUsable =
+      backup?.config !== undefined &&
+      validateConfig(withMigrations(backup.config)).length === 0;
+
+    if (fix) {
+      report.preserved.push(preserveConfig(configPath));
+      if (backupUsable) {
+        fs.copyFileSync(backupPath, configPath);
+        parsed = backup;
+      }
+
+      add(
+        "backup",
+        backupUsable
+          ? `Restored the config from ${backupPath}. The backup has no access tokens or API keys, so log in again if they were kept in the config file`
+          : "No usable backup was found, so the CLI will start with an empty config",
+        true,
+      );
+    } else if (backupUsable) {
+      add("backup", `${backupPath} is valid and can be restored`);
+    }
+
+    if (parsed.config === undefined) {
+      return report;
+    }
+  }
+
+  checkPermissions(configPath, fix, add);
+
+  const { config } = parsed;
+  let changed = false;
+  let dataLost = false;
+
+  const version = typeof config.version === "number" ? config.version : 1;
+  if (version < CONFIG_VERSION) {
+    const applied = migrateConfig(config);
+    const detail = applied.length > 0 ? `: ${applied.join("; ")}` : "";
+    add(
+      "version",
+      `Config is format version ${version}, the current version is ${CONFIG_VERSION}${detail}`,
+      fix,
+    );
+    changed = true;
+  } else if (version > CONFIG_VERSION) {
+    add(
+      "version",
+      `Config is format version ${version}, written by a newer CLI which this one may not fully understand. Upgrade the CLI to fix this`,
+    );
+  }
+
+  config.accounts ??= {};
+  const repairs = repairConfig(config);
+  for (const issue of repairs) {
+    add("schema", `${issue.path}: ${issue.message}`, fix);
+  }
+
+  if (repairs.length > 0) {
+    changed = true;
+    dataLost = true;
+  }
+
+  // Anything repairConfig couldn't remove needs editing by hand
+  for (const issue of validateConfig(config)) {
+    add("schema", `${issue.path}: ${issue.message}`);
+  }
+
+  if (fix && changed) {
+    if (dataLost) {
+      report.preserved.push(preserveConfig(configPath, true));
+    }
+
+    writeConfigFile(
+      configPath,
+      serializeConfig(config as unknown as AblyConfig),
+      { backup: !dataLost },
+    );
+  }
+
+  checkSecretsFile(config, path.dirname(configPath), add);
+
+  return report;
+}
+
+function withMigrations(
+  config: Record<string, unknown>,
+): Record<string, unknown> {
+  const copy = structuredClone(config);
+  migrateConfig(copy);
+  copy.accounts ??= {};
+  return copy;
+}
+
+function parseConfigFile(filePath: string): ParseResult {
+  try {
+    return { config: parseToml(fs.readFileSync(filePath, "utf8")) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function checkPermissions(
+  configPath: string,
+  fix: boolean,
+  add: AddFinding,
+): void {
+  // Windows doesn't have POSIX permission bits
+  if (process.platform === "win32") return;
+
+  for (const filePath of [configPath, `${configPath}.bak`]) {
+    if (!fs.existsSync(filePath)) continue;
+
+    const mode = fs.statSync(filePath).mode & 0o777;
+    if ((mode & 0o077) === 0) continue;
+
+    if (fix) {
+      fs.chmodSync(filePath, 0o600);
+    }
+
+    add(
+      "permissions",
+      `${filePath} is readable by other users (mode ${mode.toString(8).padStart(4, "0")}), it should be 0600`,
+      fix,
+    );
+  }
+}
+
+function checkSecretsFile(
+  config: Record<string, unknown>,
+  configDir: string,
+  add: AddFinding,
+): void {
+  const secrets = config.secrets as AblyConfig["secrets"];
+  if (secrets?.backend !== "encrypted-file") return;
+
+  // Reading the list of stored keys checks the file's format without needing
+  // the passphrase
+  const secretsPath = path.join(configDir, ENCRYPTED_SECRETS_FILE);
+  try {
+    new EncryptedFileSecretStore(secretsPath, "").has("");
+  } catch (error) {
+    add("secrets", error instanceof Error ? error.message : String(error));
+  }
+}
+
+function removeStaleTempFiles(
+  configPath: string,
+  fix: boolean,
+  add: AddFinding,
+): void {
+  const configDir = path.dirname(configPath);
+  if (!fs.existsSync(configDir)) return;
+
+  const prefix = `${path.basename(configPath)}.`;
+  for (const name of fs.readdirSync(configDir)) {
+    if (
+      !name.startsWith(prefix) ||
+      !/^\d+\.tmp$/.test(name.slice(prefix.length))
+    ) {
+      continue;
+    }
+
+    const filePath = path.join(configDir, name);
+    if (fix) {
+      fs.rmSync(filePath, { force: true });
+    }
+
+    add(
+      "temp-files",
+      `${filePath} was left behind by an interrupted write`,
+      fix,
+    );
+  }
+}
@@ -1,10 +1,35 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import toml from "toml";
+import { parse as parseToml, stringify as stringifyToml } from "smol-toml";
+
+import {
+  CONFIG_VERSION,
+  ConfigIssue,
+  ProfileSettings,
+  migrateConfig,
+  repairConfig,
+} from "./config-schema.js";
+import {
+  PROJECT_CONFIG_FILE,
+  ProjectConfig,
+  findProjectConfig,
+  loadProjectConfig,
+} from "./project-config.js";
+import {
+  EncryptedFileSecretStore,
+  SecretStore,
+  SecretStoreBackend,
+  SecretStoreError,
+  SecretStoreSettings,
+  accessTokenSecretKey,
+  apiKeySecretKey,
+  createSecretStore,
+} from "./secret-store.js";
 
 // Updated to include key and app metadata
 export interface AppConfig {
+  /** Only present when secrets are kept in the config file */
   apiKey?: string;
   appName?: string;
   keyId?: string;
@@ -12,7 +37,8 @@ export interface AppConfig {
 }
 
 export interface AccountConfig {
-  accessToken: string;
+  /** Only present when secrets are kept in the config file, use getAccessToken() */
+  accessToken?: string;
   accountId?: string;
   accountName?: string;
   apps?: {
@@ -36,6 +62,44 @@ export interface AblyConfig {
       }[];
     };
   };
+  /** Named sets of pinned settings, selected with --profile */
+  profiles?: Record<string, ProfileSettings>;
+  /** Where access tokens and API keys are stored, the config file by default */
+  secrets?: SecretStoreSettings;
+  /** Directories whose .ably.toml may set the host and environment */
+  trustedProjects?: string[];
+  /** The config file format version, see CONFIG_VERSION */
+  version?: number;
+}
+
+/**
+ * Where a setting came from, from highest to lowest precedence: a command
+ * line flag, an environment variable, the project's .ably.toml or the global
+ * config
+ */
+export type ConfigValueSource = "env" | "flag" | "global" | "project";
+
+export interface ResolvedSetting {
+  /** The profile that supplied the value, if any */
+  profile?: string;
+  source: ConfigValueSource;
+  value: string;
+}
+
+/**
+ * Settings that decide where credentials are sent. A project's .ably.toml is
+ * often committed by someone else, so these are only taken from it once the
+ * user has trusted the project.
+ */
+const ENDPOINT_SETTINGS = new Set<keyof ProfileSettings>([
+  "environment",
+  "host",
+]);
+
+export interface SecretsMigrationResult {
+  from: SecretStoreBackend;
+  migrated: number;
+  to: SecretStoreBackend;
 }
 
 export class ConfigManager {
@@ -45,8 +109,24 @@ export class ConfigManager {
 
   private configDir: string;
   private configPath: string;
+  private loadError?: string;
+  private loadWarnings: ConfigIssue[] = [];
+  private profile?: {
+    name: string;
+    settings: ProfileSettings;
+    source: "global" | "project";
+  };
 
-  constructor() {
+  private project?: { config: ProjectConfig; path: string };
+  private projectError?: string;
+  private secretStore?: SecretStore;
+
+  /**
+   * @param options.tolerateLoadErrors Start with an empty config instead of
+   * throwing when the config file is broken. See getLoadError().
+   * @param options.cwd Where to start looking for a project .ably.toml
+   */
+  constructor(options: { cwd?: string; tolerateLoadErrors?: boolean } = {}) {
     // Determine config directory: Use ABLY_CLI_CONFIG_DIR env var if set, otherwise default
     const customConfigDir = process.env.ABLY_CLI_CONFIG_DIR;
     this.configDir = customConfigDir || path.join(os.homedir(), ".ably");
@@ -57,6 +137,11 @@ export class ConfigManager {
     // Ensure the directory exists and load the configuration
     this.ensureConfigDirExists();
     this.loadConfig();
+    this.loadProjectConfig(options.cwd);
+
+    if (this.loadError && !options.tolerateLoadErrors) {
+      throw new Error(`Failed to load Ably config: ${this.loadError}`);
+    }
   }
 
   // Clear conversation context
@@ -67,23 +152,34 @@ export class ConfigManager {
 
   // Get access token for the current account or specific alias
   public getAccessToken(alias?: string): string | undefined {
-    if (alias) {
-      return this.config.accounts[alias]?.accessToken;
-    }
+    const targetAlias = alias || this.getCurrentAccountAlias();
+    if (!targetAlias) return undefined;
 
-    const currentAccount = this.getCurrentAccount();
-    return currentAccount?.accessToken;
+    const account = this.config.accounts[targetAlias];
+    if (!account) return undefined;
+
+    // Values still in the config file take precedence until they are migrated
+    return (
+      account.accessToken ??
+      this.getSecretStore()?.get(accessTokenSecretKey(targetAlias))
+    );
   }
 
   // Get API key for current app or specific app ID
   public getApiKey(appId?: string): string | undefined {
+    const currentAlias = this.getCurrentAccountAlias();
     const currentAccount = this.getCurrentAccount();
-    if (!currentAccount || !currentAccount.apps) return undefined;
+    if (!currentAlias || !currentAccount || !currentAccount.apps) {
+      return undefined;
+    }
 
     const targetAppId = appId || this.getCurrentAppId();
-    if (!targetAppId) return undefined;
+    if (!targetAppId || !this.getStoredApp(targetAppId)) return undefined;
 
-    return currentAccount.apps[targetAppId]?.apiKey;
+    return (
+      currentAccount.apps[targetAppId].apiKey ??
+      this.getSecretStore()?.get(apiKeySecretKey(currentAlias, targetAppId))
+    );
   }
 
   // Get app name for specific app ID
@@ -94,11 +190,51 @@ export class ConfigManager {
     return currentAccount.apps[appId]?.appName;
   }
 
+  // Get path to the copy of the config taken before the last save
+  public getBackupPath(): string {
+    return `${this.configPath}.bak`;
+  }
+
   // Get path to config file
   public getConfigPath(): string {
     return this.configPath;
   }
 
+  // Get why the config file could not be loaded, if it couldn't
+  public getLoadError(): string | undefined {
+    return this.loadError;
+  }
+
+  // Get the problems in a config that loaded, whose invalid settings are ignored
+  public getLoadWarnings(): ConfigIssue[] {
+    return this.loadWarnings;
+  }
+
+  // Get the backend that stores access tokens and API keys
+  public getSecretStoreBackend(): SecretStoreBackend {
+    return this.config.secrets?.backend ?? "config";
+  }
+
+  // Check for an access token without reading it, so a locked store isn't an error
+  public hasAccessToken(alias?: string): boolean {
+    const targetAlias = alias || this.getCurrentAccountAlias();
+    if (!targetAlias) return false;
+
+    const account = this.config.accounts[targetAlias];
+    if (!account) return false;
+
+    return (
+      Boolean(account.accessToken) ||
+      (this.getSecretStore()?.has(accessTokenSecretKey(targetAlias)) ?? false)
+    );
+  }
+
+  // Whether secrets are in an encrypted file that needs a passphrase to read
+  public isSecretStoreLocked(): boolean {
+    const store = this.getSecretStore();
+    return store instanceof EncryptedFileSecretStore && store.isLocked();
+  }
+
   // Get the current account configuration
   public getCurrentAccount(): AccountConfig | undefined {
     const currentAlias = this.getCurrentAccountAlias();
@@ -107,13 +243,18 @@ export class ConfigManager {
     return this.config.accounts[currentAlias];
   }
 
-  // Get the current account alias
+  // Get the current account alias, unless a profile or project pins another
   public getCurrentAccountAlias(): string | undefined {
-    return this.config.current?.account;
+    return (
+      this.getPinnedSetting("account")?.value ?? this.config.current?.account
+    );
   }
 
-  // Get current app ID for the current account
+  // Get current app ID for the current account, unless a profile or project pins another
   public getCurrentAppId(): string | undefined {
+    const pinned = this.getPinnedSetting("app");
+    if (pinned) return pinned.value;
+
     const currentAccount = this.getCurrentAccount();
     if (!currentAccount) return undefined;
 
@@ -143,7 +284,7 @@ export class ConfigManager {
     if (!targetAppId) return undefined;
 
     // Get from specific metadata field or extract from API key
-    const appConfig = currentAccount.apps[targetAppId];
+    const appConfig = this.getStoredApp(targetAppId);
     if (!appConfig) return undefined;
 
     if (appConfig.keyId) {
@@ -165,7 +306,98 @@ export class ConfigManager {
     const targetAppId = appId || this.getCurrentAppId();
     if (!targetAppId) return undefined;
 
-    return currentAccount.apps[targetAppId]?.keyName;
+    return this.getStoredApp(targetAppId)?.keyName;
+  }
+
+  /**
+   * Get a setting pinned by the selected profile or the project's .ably.toml,
+   * in that order. Flags and environment variables take precedence over
+   * these and are handled by the caller. The project's host and environment
+   * are ignored until it is trusted, see setProjectTrusted().
+   */
+  public getPinnedSetting(
+    name: keyof ProfileSettings,
+  ): ResolvedSetting | undefined {
+    const setting = this.resolvePinnedSetting(name);
+    if (
+      setting?.source === "project" &&
+      ENDPOINT_SETTINGS.has(name) &&
+      !this.isProjectTrusted()
+    ) {
+      return undefined;
+    }
+
+    return setting;
+  }
+
+  // Get the host and environment the project would set if it were trusted
+  public getUntrustedProjectEndpoints(): {
+    name: keyof ProfileSettings;
+    setting: ResolvedSetting;
+  }[] {
+    if (this.isProjectTrusted()) return [];
+
+    return [...ENDPOINT_SETTINGS].flatMap((name) => {
+      const setting = this.resolvePinnedSetting(name);
+      return setting?.source === "project" ? [{ name, setting }] : [];
+    });
+  }
+
+  // Get the name of the selected profile
+  public getProfileName(): string | undefined {
+    return this.profile?.name;
+  }
+
+  // Get the project config file in use, if one was found
+  public getProjectConfigPath(): string | undefined {
+    return this.project?.path;
+  }
+
+  // Get why the project config file could not be loaded, if it couldn't
+  public getProjectConfigError(): string | undefined {
+    return this.projectError;
+  }
+
+  /**
+   * Select a named profile from the project's .ably.toml or, failing that,
+   * the [profiles] section of the global config. Without a name, the
+   * project's default profile is used if it names one.
+   */
+  public useProfile(name?: string): void {
+    const profileName = name ?? this.project?.config.profile;
+    if (!profileName) {
+      this.profile = undefined;
+      return;
+    }
+
+    const fromProject = this.project?.config.profiles?.[profileName];
+    const fromGlobal = this.config.profiles?.[profileName];
+    if (fromProject) {
+      this.profile = {
+        name: profileName,
+        settings: fromProject,
+        source: "project",
+      };
+    } else if (fromGlobal) {
+      this.profile = {
+        name: profileName,
+        settings: fromGlobal,
+        source: "global",
+      };
+    } else {
+      const where = this.project
+        ? `${this.project.path} or ${this.configPath}`
+        : this.configPath;
+      throw new Error(`Profile "${profileName}" is not defined in ${where}`);
+    }
+  }
+
+  // Check whether the project's .ably.toml may set the host and environment
+  public isProjectTrusted(): boolean {
+    if (!this.project) return false;
+
+    const projectDir = path.dirname(this.project.path);
+    return this.config.trustedProjects?.includes(projectDir) ?? false;
   }
 
   // List all accounts
@@ -182,6 +414,14 @@ export class ConfigManager {
       return false;
     }
 
+    const store = this.getSecretStore();
+    if (store) {
+      store.delete(accessTokenSecretKey(alias));
+      for (const appId of Object.keys(this.config.accounts[alias].apps ?? {})) {
+        store.delete(apiKeySecretKey(alias, appId));
+      }
+    }
+
     delete this.config.accounts[alias];
 
     // If the removed account was the current one, clear the current account selection
@@ -200,6 +440,9 @@ export class ConfigManager {
 
     if (currentAccount.apps[appId]) {
       delete currentAccount.apps[appId].apiKey;
+      this.getSecretStore()?.delete(
+        apiKeySecretKey(this.getCurrentAccountAlias()!, appId),
+      );
       this.saveConfig();
       return true;
     }
@@ -207,13 +450,76 @@ export class ConfigManager {
     return false;
   }
 
+  /**
+   * Replace a key everywhere the global config refers to it: the stored key
+   * of any app in any account, and profiles that pin it by key ID. Returns
+   * the config paths that were changed.
+   */
+  public replaceApiKey(oldKeyId: string, newApiKey: string): string[] {
+    const newKeyId = newApiKey.split(":")[0];
+    const store = this.getSecretStore();
+    const updated: string[] = [];
+
+    for (const [alias, account] of Object.entries(this.config.accounts)) {
+      for (const [appId, app] of Object.entries(account.apps ?? {})) {
+        const keyId = app.keyId ?? app.apiKey?.split(":")[0];
+        if (
+          !keyId ||
+          shortKeyId(appId, keyId) !== shortKeyId(appId, oldKeyId)
+        ) {
+          continue;
+        }
+
+        if (store) {
+          store.set(apiKeySecretKey(alias, appId), newApiKey);
+          // A key left in the config from before the store was set up would
+          // still be read ahead of the store
+          delete app.apiKey;
+        } else {
+          app.apiKey = newApiKey;
+        }
+
+        app.keyId = shortKeyId(appId, newKeyId);
+        updated.push(`accounts.${alias}.apps.${appId}`);
+      }
+    }
+
+    const [appId, oldShortKeyId] = oldKeyId.split(".");
+    for (const [name, profile] of Object.entries(this.config.profiles ?? {})) {
+      if (profile.key === oldKeyId) {
+        profile.key = newKeyId;
+      } else if (profile.key === oldShortKeyId && profile.app === appId) {
+        profile.key = newKeyId.split(".")[1];
+      } else {
+        continue;
+      }
+
+      updated.push(`profiles.${name}.key`);
+    }
+
+    if (updated.length > 0) {
+      this.saveConfig();
+    }
+
+    return updated;
+  }
+
   public saveConfig(): void {
+    if (this.loadError) {
+      // Saving would replace the broken file and lose whatever it held
+      throw new Error(
+        `Failed to save Ably config: ${this.configPath} could not be loaded. Run "ably config doctor --fix" to repair it`,
+      );
+    }
+
     try {
-      // Format the config as TOML
-      const tomlContent = this.formatToToml(this.config);
+      if (this.loadWarnings.length > 0) {
+        // The ignored settings are dropped from the file, so keep the original
+        preserveConfig(this.configPath, true);
+        this.loadWarnings = [];
+      }
 
-      // Write the config to disk
-      fs.writeFileSync(this.configPath, tomlContent, { mode: 0o600 }); // Secure file permissions
+      writeConfigFile(this.configPath, serializeConfig(this.config));
     } catch (error) {
       throw new Error(`Failed to save Ably config: ${error}`);
     }
@@ -233,6 +539,28 @@ export class ConfigManager {
     this.saveConfig();
   }
 
+  /**
+   * Trust or stop trusting the project's .ably.toml to set the host and
+   * environment. Returns the project directory.
+   */
+  public setProjectTrusted(trusted: boolean): string {
+    if (!this.project) {
+      throw new Error(
+        `No ${PROJECT_CONFIG_FILE} was found in this directory or its parents`,
+      );
+    }
+
+    const projectDir = path.dirname(this.project.path);
+    const others = (this.config.trustedProjects ?? []).filter(
+      (dir) => dir !== projectDir,
+    );
+    const trustedProjects = trusted ? [...others, projectDir] : others;
+    this.config.trustedProjects =
+      trustedProjects.length > 0 ? trustedProjects : undefined;
+    this.saveConfig();
+    return projectDir;
+  }
+
   // Store account information with an optional alias
   public storeAccount(
     accessToken: string,
@@ -244,9 +572,12 @@ export class ConfigManager {
       userEmail?: string;
     },
   ): void {
+    const store = this.getSecretStore();
+    store?.set(accessTokenSecretKey(alias), accessToken);
+
     // Create or update the account entry
     this.config.accounts[alias] = {
-      accessToken,
+      accessToken: store ? undefined : accessToken,
       ...accountInfo,
       apps: this.config.accounts[alias]?.apps || {},
       currentAppId: this.config.accounts[alias]?.currentAppId,
@@ -308,10 +639,13 @@ export class ConfigManager {
       this.config.accounts[alias].apps = {};
     }
 
+    const store = this.getSecretStore();
+    store?.set(apiKeySecretKey(alias, appId), apiKey);
+
     // Store the API key and metadata
     this.config.accounts[alias].apps[appId] = {
       ...this.config.accounts[alias].apps[appId],
-      apiKey,
+      apiKey: store ? undefined : apiKey,
       appName: metadata?.appName,
       keyId: metadata?.keyId || apiKey.split(":")[0], // Extract key ID if not provided
       keyName: metadata?.keyName,
@@ -320,6 +654,86 @@ export class ConfigManager {
     this.saveConfig();
   }
 
+  /**
+   * Move every access token and API key to a different backend, removing them
+   * from the old one once they are all stored
+   */
+  public migrateSecrets(
+    settings: SecretStoreSettings,
+    options: { passphrase?: string } = {},
+  ): SecretsMigrationResult {
+    const from = this.getSecretStoreBackend();
+    const sameHelper =
+      settings.backend !== "helper" ||
+      settings.helper === this.config.secrets?.helper;
+    if (settings.backend === from && sameHelper) {
+      throw new SecretStoreError(
+        `Secrets are already stored using the ${from} backend`,
+      );
+    }
+
+    // Read everything up front so a locked or failing store aborts the migration
+    const secrets: {
+      key: string;
+      set: (value?: string) => void;
+      value: string;
+    }[] = [];
+    for (const [alias, account] of Object.entries(this.config.accounts)) {
+      const accessToken = this.getAccessToken(alias);
+      if (accessToken) {
+        secrets.push({
+          key: accessTokenSecretKey(alias),
+          set: (value) => {
+            account.accessToken = value;
+          },
+          value: accessToken,
+        });
+      }
+
+      for (const [appId, app] of Object.entries(account.apps ?? {})) {
+        const apiKey =
+          app.apiKey ??
+          this.getSecretStore()?.get(apiKeySecretKey(alias, appId));
+        if (apiKey) {
+          secrets.push({
+            key: apiKeySecretKey(alias, appId),
+            set: (value) => {
+              app.apiKey = value;
+            },
+            value: apiKey,
+          });
+        }
+      }
+    }
+
+    const oldStore = this.getSecretStore();
+    const newStore = createSecretStore(settings, this.configDir);
+    if (newStore instanceof EncryptedFileSecretStore && options.passphrase) {
+      newStore.unlock(options.passphrase);
+    }
+
+    for (const secret of secrets) {
+      if (newStore) {
+        newStore.set(secret.key, secret.value);
+        secret.set(undefined);
+      } else {
+        secret.set(secret.value);
+      }
+    }
+
+    this.config.secrets = settings.backend === "config" ? undefined : settings;
+    this.secretStore = newStore;
+    this.saveConfig();
+
+    if (oldStore) {
+      for (const secret of secrets) {
+        oldStore.delete(secret.key);
+      }
+    }
+
+    return { from, migrated: secrets.length, to: settings.backend };
+  }
+
   // Store conversation context for AI help
   public storeHelpContext(question: string, answer: string): void {
     if (!this.config.helpContext) {
@@ -360,130 +774,196 @@ export class ConfigManager {
     return true;
   }
 
+  // Supply the passphrase for an encrypted secret store
+  public unlockSecrets(passphrase: string): void {
+    const store = this.getSecretStore();
+    if (store instanceof EncryptedFileSecretStore) {
+      store.unlock(passphrase);
+    }
+  }
+
   private ensureConfigDirExists(): void {
     if (!fs.existsSync(this.configDir)) {
       fs.mkdirSync(this.configDir, { mode: 0o700 }); // Secure permissions
     }
   }
 
-  // Updated formatToToml method to include app and key metadata
-  private formatToToml(config: AblyConfig): string {
-    let result = "";
+  /**
+   * Get the stored settings for an app in the current account. When a key is
+   * pinned for the current app, they only count if they are for that key.
+   */
+  private getStoredApp(appId: string): AppConfig | undefined {
+    const appConfig = this.getCurrentAccount()?.apps?.[appId];
+    const pinnedKey = this.getPinnedSetting("key")?.value;
+    if (!appConfig || !pinnedKey || appId !== this.getCurrentAppId()) {
+      return appConfig;
+    }
 
-    // Write current section
-    if (config.current) {
-      result += "[current]\n";
-      if (config.current.account) {
-        result += `account = "${config.current.account}"\n`;
-      }
+    const keyId = appConfig.keyId ?? appConfig.apiKey?.split(":")[0];
+    const matches =
+      pinnedKey === appConfig.keyName ||
+      pinnedKey === keyId ||
+      `${appId}.${pinnedKey}` === keyId;
+    return matches ? appConfig : undefined;
+  }
 
-      result += "\n";
+  private getSecretStore(): SecretStore | undefined {
+    if (!this.config.secrets || this.config.secrets.backend === "config") {
+      return undefined;
     }
 
-    // Write help context if it exists
-    if (config.helpContext) {
-      result += "[helpContext]\n";
-
-      // Format the conversation as TOML array of tables
-      if (config.helpContext.conversation.messages.length > 0) {
-        result += "\n[[helpContext.conversation.messages]]\n";
-        const { messages } = config.helpContext.conversation;
+    this.secretStore ??= createSecretStore(this.config.secrets, this.configDir);
+    return this.secretStore;
+  }
 
-        for (const [i, message] of messages.entries()) {
-          if (i > 0) result += "\n[[helpContext.conversation.messages]]\n";
-          result += `role = "${message.role}"\n`;
-          result += `content = """${message.content}"""\n`;
-        }
+  private loadConfig(): void {
+    if (!fs.existsSync(this.configPath)) return;
 
-        result += "\n";
-      }
+    let config: Record<string, unknown>;
+    try {
+      config = parseToml(fs.readFileSync(this.configPath, "utf8"));
+    } catch (error) {
+      this.loadError = error instanceof Error ? error.message : String(error);
+      return;
     }
 
-    // Write accounts section
-    for (const [alias, account] of Object.entries(config.accounts)) {
-      result += `[accounts.${alias}]\n`;
-      result += `accessToken = "${account.accessToken}"\n`;
-
-      if (account.tokenId) {
-        result += `tokenId = "${account.tokenId}"\n`;
-      }
-
-      if (account.userEmail) {
-        result += `userEmail = "${account.userEmail}"\n`;
-      }
+    // Files written before the accounts table existed are otherwise valid
+    config.accounts ??= {};
+    const migrated = migrateConfig(config);
 
-      if (account.accountId) {
-        result += `accountId = "${account.accountId}"\n`;
-      }
+    // A config that parses is always loaded, so a dangling reference or a
+    // typo doesn't stop every command. What doesn't validate is ignored.
+    this.loadWarnings = repairConfig(config);
 
-      if (account.accountName) {
-        result += `accountName = "${account.accountName}"\n`;
-      }
+    this.config = config as unknown as AblyConfig;
+    if (migrated.length > 0 && this.loadWarnings.length === 0) {
+      this.saveConfig();
+    }
+  }
 
-      if (account.currentAppId) {
-        result += `currentAppId = "${account.currentAppId}"\n`;
-      }
+  private loadProjectConfig(cwd?: string): void {
+    const projectPath = findProjectConfig(cwd);
+    if (!projectPath) return;
 
-      // Write apps section for this account
-      if (account.apps && Object.keys(account.apps).length > 0) {
-        for (const [appId, appConfig] of Object.entries(account.apps)) {
-          result += `[accounts.${alias}.apps.${appId}]\n`;
+    try {
+      this.project = {
+        config: loadProjectConfig(projectPath),
+        path: projectPath,
+      };
+    } catch (error) {
+      this.projectError =
+        error instanceof Error ? error.message : String(error);
+    }
+  }
 
-          if (appConfig.apiKey) {
-            result += `apiKey = "${appConfig.apiKey}"\n`;
-          }
+  private resolvePinnedSetting(
+    name: keyof ProfileSettings,
+  ): ResolvedSetting | undefined {
+    const fromProfile = this.profile?.settings[name];
+    if (fromProfile) {
+      return {
+        profile: this.profile!.name,
+        source: this.profile!.source,
+        value: fromProfile,
+      };
+    }
 
-          if (appConfig.keyId) {
-            result += `keyId = "${appConfig.keyId}"\n`;
-          }
+    const fromProject = this.project?.config[name];
+    if (fromProject) {
+      return { source: "project", value: fromProject };
+    }
 
-          if (appConfig.keyName) {
-            result += `keyName = "${appConfig.keyName}"\n`;
-          }
+    return undefined;
+  }
+}
 
-          if (appConfig.appName) {
-            result += `appName = "${appConfig.appName}"\n`;
-          }
+/**
+ * Render a config as TOML, with the top-level sections in a stable order
+ */
+export function serializeConfig(config: AblyConfig): string {
+  const { accounts, current, helpContext, secrets, ...rest } = config;
+  return `${stringifyToml({
+    ...rest,
+    // Never downgrade a config written by a newer CLI
+    version: Math.max(rest.version ?? 0, CONFIG_VERSION),
+    current,
+    secrets,
+    helpContext,
+    accounts,
+  })}\n`;
+}
 
-          result += "\n";
-        }
-      } else {
-        result += "\n";
-      }
+/**
+ * Write a config file atomically. The content goes to a temporary file which
+ * replaces the config once complete, so an interrupted write never leaves a
+ * truncated config. The previous config, without its access tokens and API
+ * keys, is kept at `<path>.bak` unless options.backup is false.
+ */
+export function writeConfigFile(
+  configPath: string,
+  content: string,
+  options: { backup?: boolean } = {},
+): void {
+  const tempPath = `${configPath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content, { mode: 0o600 }); // Secure file permissions
+
+    if (options.backup !== false && fs.existsSync(configPath)) {
+      writeConfigBackup(configPath);
     }
 
-    return result;
+    fs.renameSync(tempPath, configPath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
   }
+}
 
-  private loadConfig(): void {
-    if (fs.existsSync(this.configPath)) {
-      try {
-        const configContent = fs.readFileSync(this.configPath, "utf8");
-        this.config = toml.parse(configContent) as AblyConfig;
-
-        // Ensure config has the expected structure
-        if (!this.config.accounts) {
-          this.config.accounts = {};
-        }
+/**
+ * Move (or copy) a config aside before it is replaced, returning the new path
+ */
+export function preserveConfig(configPath: string, copy = false): string {
+  const timestamp = new Date().toISOString().replaceAll(/[:.]/g, "-");
+  const brokenPath = `${configPath}.broken-${timestamp}`;
+  if (copy) {
+    fs.copyFileSync(configPath, brokenPath);
+  } else {
+    fs.renameSync(configPath, brokenPath);
+  }
 
-        // Migrate old config format if needed - move app from current to account.currentAppId
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const oldConfig = this.config as any; // Use 'any' to safely access potential pre-migration properties
-        if (oldConfig.current?.app) {
-          const currentAccountAlias = this.config.current?.account;
-          if (
-            currentAccountAlias &&
-            this.config.accounts[currentAccountAlias]
-          ) {
-            this.config.accounts[currentAccountAlias].currentAppId =
-              oldConfig.current.app;
-            delete oldConfig.current.app; // Remove from current section
-            this.saveConfig(); // Save the migrated config
-          }
-        }
-      } catch (error) {
-        throw new Error(`Failed to load Ably config: ${error}`);
-      }
+  return brokenPath;
+}
+
+/**
+ * Copy a config to `<path>.bak` with secrets removed, so the backup never
+ * outlives a logout or a move of the secrets to a store. A config that can't
+ * be parsed is left out of the backup rather than copied with its secrets.
+ */
+function writeConfigBackup(configPath: string): void {
+  let config: Partial<AblyConfig>;
+  try {
+    config = parseToml(fs.readFileSync(configPath, "utf8"));
+  } catch {
+    return;
+  }
+
+  for (const account of Object.values(config.accounts ?? {})) {
+    delete account.accessToken;
+    for (const app of Object.values(account.apps ?? {})) {
+      delete app.apiKey;
     }
   }
+
+  const backupPath = `${configPath}.bak`;
+  fs.writeFileSync(backupPath, `${stringifyToml(config)}\n`, { mode: 0o600 });
+  // The mode only applies to new files, and older backups were plain copies
+  fs.chmodSync(backupPath, 0o600);
+}
+
+/**
+ * The Control API ID of a key, e.g. `KEY` for `APP.KEY`. Apps record the key
+ * they use in either form.
+ */
+function shortKeyId(appId: string, keyId: string): string {
+  return keyId.startsWith(`${appId}.`) ? keyId.slice(appId.length + 1) : keyId;
 }
@@ -0,0 +1,283 @@
+import { z } from "zod";
+
+import { SECRET_STORE_BACKENDS } from "./secret-store.js";
+
+/**
+ * The config file format version written by this CLI. Files without a
+ * version predate versioning and are treated as version 1.
+ */
+export const CONFIG_VERSION = 2;
+
+const appSchema = z
+  .object({
+    apiKey: z.string().optional(),
+    appName: z.string().optional(),
+    keyId: z.string().optional(),
+    keyName: z.string().optional(),
+  })
+  .passthrough();
+
+const accountSchema = z
+  .object({
+    accessToken: z.string().optional(),
+    accountId: z.string().optional(),
+    accountName: z.string().optional(),
+    apps: z.record(appSchema).optional(),
+    currentAppId: z.string().optional(),
+    tokenId: z.string().optional(),
+    userEmail: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Settings a profile or project config can pin, overriding the global
+ * current account, app and key. Unknown keys are rejected to catch typos.
+ */
+export const profileSchema = z
+  .object({
+    /** Account alias, as given to `ably accounts login --alias` */
+    account: z.string().min(1).optional(),
+    app: z.string().min(1).optional(),
+    clientId: z.string().min(1).optional(),
+    environment: z.string().min(1).optional(),
+    host: z.string().min(1).optional(),
+    /** Key name, or key ID with or without the app ID prefix */
+    key: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type ProfileSettings = z.infer<typeof profileSchema>;
+
+// Unknown keys are kept so that settings written by newer versions survive
+export const configSchema = z
+  .object({
+    accounts: z.record(accountSchema),
+    current: z
+      .object({
+        account: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    helpContext: z
+      .object({
+        conversation: z.object({
+          messages: z.array(
+            z.object({
+              content: z.string(),
+              role: z.enum(["assistant", "user"]),
+            }),
+          ),
+        }),
+      })
+      .optional(),
+    profiles: z.record(profileSchema).optional(),
+    secrets: z
+      .object({
+        backend: z.enum(SECRET_STORE_BACKENDS as [string, ...string[]]),
+        helper: z.string().optional(),
+      })
+      .optional(),
+    trustedProjects: z.array(z.string()).optional(),
+    version: z.number().int().positive(),
+  })
+  .passthrough();
+
+export interface ConfigIssue {
+  /** Path segments to the problem, which may themselves contain dots */
+  keys: string[];
+  message: string;
+  path: string;
+}
+
+export interface ConfigMigration {
+  description: string;
+  /** Update the config in place, returning whether anything changed */
+  migrate: (config: Record<string, unknown>) => boolean;
+  /** The version the config is at once this migration has run */
+  version: number;
+}
+
+/**
+ * Migrations run in order on configs older than CONFIG_VERSION. Each one
+ * must cope with partially valid configs since they run before validation.
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    description: "Move current.app to the current account's currentAppId",
+    migrate(config) {
+      const current = asRecord(config.current);
+      if (!current || current.app === undefined) return false;
+
+      const account = asRecord(
+        asRecord(config.accounts)?.[current.account as string],
+      );
+      if (account) {
+        account.currentAppId = current.app;
+      }
+
+      delete current.app;
+      return true;
+    },
+    version: 2,
+  },
+];
+
+/**
+ * Bring a parsed config up to CONFIG_VERSION, returning the descriptions of
+ * the migrations that changed something. Configs from a newer CLI are left
+ * untouched.
+ */
+export function migrateConfig(config: Record<string, unknown>): string[] {
+  const version = typeof config.version === "number" ? config.version : 1;
+  if (version >= CONFIG_VERSION) return [];
+
+  const applied: string[] = [];
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.version > version && migration.migrate(config)) {
+      applied.push(migration.description);
+    }
+  }
+
+  config.version = CONFIG_VERSION;
+  return applied;
+}
+
+/**
+ * Check a migrated config against the schema and for references that don't
+ * resolve
+ */
+export function validateConfig(config: unknown): ConfigIssue[] {
+  const result = configSchema.safeParse(config);
+  if (!result.success) {
+    // Unknown keys are reported one by one, so a repair only removes the typo
+    return result.error.issues.flatMap((issue) => {
+      const keys = issue.path.map(String);
+      if (issue.code === "unrecognized_keys") {
+        return issue.keys.map((key) => ({
+          keys: [...keys, key],
+          message: "Unknown setting",
+          path: [...keys, key].join("."),
+        }));
+      }
+
+      return [
+        { keys, message: issue.message, path: keys.join(".") || "(root)" },
+      ];
+    });
+  }
+
+  const issues: ConfigIssue[] = [];
+  const currentAccount = result.data.current?.account;
+  if (currentAccount && !result.data.accounts[currentAccount]) {
+    issues.push({
+      keys: ["current", "account"],
+      message: `Refers to account "${currentAccount}", which does not exist`,
+      path: "current.account",
+    });
+  }
+
+  if (
+    result.data.secrets?.backend === "helper" &&
+    !result.data.secrets.helper
+  ) {
+    issues.push({
+      keys: ["secrets", "helper"],
+      message: "The helper backend needs a helper command",
+      path: "secrets.helper",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Remove whatever makes a config invalid, returning the issues fixed. Invalid
+ * values are deleted; if a required value is missing, the entry containing it
+ * is deleted instead.
+ */
+export function repairConfig(config: Record<string, unknown>): ConfigIssue[] {
+  const repairs: ConfigIssue[] = [];
+  if (!asRecord(config.accounts)) {
+    config.accounts = {};
+    repairs.push({
+      keys: ["accounts"],
+      message: "Expected a table of accounts, so it was reset",
+      path: "accounts",
+    });
+  }
+
+  if (typeof config.version !== "number") {
+    config.version = CONFIG_VERSION;
+  }
+
+  // Fix one issue at a time, since removing an array element shifts the
+  // paths of later issues. Bounded in case an issue can't be removed.
+  for (let pass = 0; pass < 1000; pass++) {
+    const [issue] = validateConfig(config);
+    if (!issue) break;
+
+    const removed =
+      hasPath(config, issue.keys) && !isRequired(config, issue.keys)
+        ? deletePath(config, issue.keys)
+        : deletePath(config, issue.keys.slice(0, -1));
+    if (!removed) break;
+
+    repairs.push(issue);
+  }
+
+  return repairs;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function hasPath(root: unknown, path: string[]): boolean {
+  let value = root;
+  for (const segment of path) {
+    if (typeof value !== "object" || value === null || !(segment in value)) {
+      return false;
+    }
+
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  return true;
+}
+
+/**
+ * Whether the schema still complains about a path once its value is removed
+ */
+function isRequired(config: Record<string, unknown>, path: string[]): boolean {
+  const copy = structuredClone(config);
+  deletePath(copy, path);
+  const joined = path.join(".");
+  return validateConfig(copy).some((issue) => issue.path === joined);
+}
+
+/**
+ * Delete the value at a path, splicing array elements, and return whether
+ * there was anything to delete
+ */
+function deletePath(root: unknown, path: string[]): boolean {
+  if (path.length === 0) return false;
+
+  let parent = root;
+  for (const segment of path.slice(0, -1)) {
+    if (typeof parent !== "object" || parent === null) return false;
+    parent = (parent as Record<string, unknown>)[segment];
+  }
+
+  const last = path.at(-1)!;
+  if (Array.isArray(parent)) {
+    parent.splice(Number(last), 1);
+  } else if (typeof parent === "object" && parent !== null && last in parent) {
+    delete (parent as Record<string, unknown>)[last];
+  } else {
+    return false;
+  }
+
+  return true;
+}
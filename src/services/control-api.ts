@@ -1,9 +1,96 @@
-import fetch, { type RequestInit } from "node-fetch";
+import fetch, { FetchError, type RequestInit, type Response } from "node-fetch";
 
 export interface ControlApiOptions {
   accessToken: string;
   controlHost?: string;
   logErrors?: boolean;
+  /** Maximum number of retries for rate-limited or transient failures (default 3) */
+  maxRetries?: number;
+  /** Upper bound in milliseconds for any single backoff delay (default 30s) */
+  maxRetryDelay?: number;
+  /** Initial backoff delay in milliseconds, doubled on each retry (default 500ms) */
+  retryBaseDelay?: number;
+}
+
+// Gateway and availability errors are transient; a plain 500 usually is not
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+
+// Methods that are safe to repeat when we cannot tell whether the server acted on them
+const IDEMPOTENT_METHODS = new Set(["DELETE", "GET", "HEAD", "PUT"]);
+
+// Connection failures that are likely to succeed on a later attempt
+const RETRYABLE_NETWORK_ERRORS = new Set([
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+]);
+
+/**
+ * Error thrown for any non-2xx Control API response. Carries the HTTP status
+ * and, when the response body is an Ably error, its code and help link.
+ */
+export class ControlApiError extends Error {
+  code?: number;
+  href?: string;
+  response: unknown;
+  statusCode: number;
+
+  constructor(
+    message: string,
+    details: {
+      code?: number;
+      href?: string;
+      response: unknown;
+      statusCode: number;
+    },
+  ) {
+    super(message);
+    this.name = "ControlApiError";
+    this.code = details.code;
+    this.href = details.href;
+    this.response = details.response;
+    this.statusCode = details.statusCode;
+  }
+
+  /** Suggest a next step for the most common failure modes */
+  get hint(): string | undefined {
+    switch (this.statusCode) {
+      case 401: {
+        return 'Check that your access token is valid, or log in again with "ably accounts login".';
+      }
+
+      case 403: {
+        return "Your access token does not have permission for this operation. Check its capabilities in the Ably dashboard.";
+      }
+
+      case 404: {
+        return "The requested resource was not found. Check the app, key or resource ID.";
+      }
+
+      case 429: {
+        return "The Control API rate limit was exceeded. Wait a moment and try again.";
+      }
+
+      default: {
+        return this.statusCode >= 500
+          ? "The Control API is experiencing problems. Try again later or check https://status.ably.com."
+          : undefined;
+      }
+    }
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      hint: this.hint,
+      href: this.href,
+      message: this.message,
+      response: this.response,
+      statusCode: this.statusCode,
+    };
+  }
 }
 
 export interface App {
@@ -165,11 +252,17 @@ export class ControlApi {
   private accessToken: string;
   private controlHost: string;
   private logErrors: boolean;
+  private maxRetries: number;
+  private maxRetryDelay: number;
+  private retryBaseDelay: number;
 
   constructor(options: ControlApiOptions) {
     this.accessToken = options.accessToken;
     this.controlHost = options.controlHost || "control.ably.net";
     this.logErrors = options.logErrors !== false;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30_000;
+    this.retryBaseDelay = options.retryBaseDelay ?? 500;
   }
 
   // Ask a question to the Ably AI agent
@@ -380,27 +473,27 @@ export class ControlApi {
     const accountId = meResponse.account.id;
 
     // Use correct path with account ID prefix
-    return this.request<App[]>(`/accounts/${accountId}/apps`);
+    return this.requestAll<App>(`/accounts/${accountId}/apps`);
   }
 
   // List all keys for an app
   async listKeys(appId: string): Promise<Key[]> {
-    return this.request<Key[]>(`/apps/${appId}/keys`);
+    return this.requestAll<Key>(`/apps/${appId}/keys`);
   }
 
   // Namespace (Channel Rules) methods
   async listNamespaces(appId: string): Promise<Namespace[]> {
-    return this.request<Namespace[]>(`/apps/${appId}/namespaces`);
+    return this.requestAll<Namespace>(`/apps/${appId}/namespaces`);
   }
 
   // Queues methods
   async listQueues(appId: string): Promise<Queue[]> {
-    return this.request<Queue[]>(`/apps/${appId}/queues`);
+    return this.requestAll<Queue>(`/apps/${appId}/queues`);
   }
 
   // Rules (Integrations) methods
   async listRules(appId: string): Promise<Rule[]> {
-    return this.request<Rule[]>(`/apps/${appId}/rules`);
+    return this.requestAll<Rule>(`/apps/${appId}/rules`);
   }
 
   // Revoke a key
@@ -490,15 +583,151 @@ export class ControlApi {
     );
   }
 
-  private async request<T>(
-    path: string,
-    method = "GET",
-    body?: unknown,
-  ): Promise<T> {
-    const url = this.controlHost.includes("local")
+  private buildUrl(path: string): string {
+    return this.controlHost.includes("local")
       ? `http://${this.controlHost}/api/v1${path}`
       : `https://${this.controlHost}/v1${path}`;
+  }
+
+  /**
+   * Work out how long to wait before the next attempt, preferring the
+   * server's Retry-After header (seconds or HTTP date) over exponential backoff
+   */
+  private getRetryDelay(attempt: number, response?: Response): number {
+    const retryAfter = response?.headers.get("retry-after");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds)
+        ? Date.parse(retryAfter) - Date.now()
+        : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), this.maxRetryDelay);
+      }
+    }
+
+    const backoff = this.retryBaseDelay * 2 ** attempt;
+    // Add up to 20% jitter so parallel callers don't retry in lockstep
+    return Math.min(
+      backoff + Math.random() * backoff * 0.2,
+      this.maxRetryDelay,
+    );
+  }
+
+  /**
+   * Make a request, retrying rate-limited (429) responses for any method and
+   * gateway errors or network failures for idempotent methods
+   */
+  private async fetchWithRetry(
+    url: string,
+    options: RequestInit,
+  ): Promise<Response> {
+    const method = options.method || "GET";
+    const canRetryTransient = IDEMPOTENT_METHODS.has(method);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, options);
+      } catch (error) {
+        // Only transient connection failures are worth retrying
+        const isNetworkError =
+          error instanceof FetchError &&
+          error.type === "system" &&
+          RETRYABLE_NETWORK_ERRORS.has(error.code ?? "");
+        if (
+          !isNetworkError ||
+          !canRetryTransient ||
+          attempt >= this.maxRetries
+        ) {
+          throw error;
+        }
+
+        await sleep(this.getRetryDelay(attempt));
+        continue;
+      }
+
+      const shouldRetry =
+        RETRYABLE_STATUS_CODES.has(response.status) &&
+        (response.status === 429 || canRetryTransient) &&
+        attempt < this.maxRetries;
+      if (!shouldRetry) {
+        return response;
+      }
+
+      // Drain the body so the connection can be reused
+      await response.text();
+      await sleep(this.getRetryDelay(attempt, response));
+    }
+  }
 
+  private async parseResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      throw await this.createError(response);
+    }
+
+    if (response.status === 204) {
+      return {} as T;
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private async createError(response: Response): Promise<ControlApiError> {
+    const responseBody = await response.text();
+    // Attempt to parse JSON, otherwise use raw text
+    let responseData: unknown = responseBody;
+    try {
+      responseData = JSON.parse(responseBody);
+    } catch {
+      /* Ignore parsing errors, keep as string */
+    }
+
+    const errorDetails = {
+      message: `API request failed with status ${response.status}: ${response.statusText}`,
+      response: responseData, // Assign unknown type
+      statusCode: response.status,
+    };
+
+    // Log the error for debugging purposes, but not during tests
+    if (this.logErrors) {
+      console.error("Control API Request Error:", {
+        message: errorDetails.message,
+        response: errorDetails.response || "No response body",
+        statusCode: errorDetails.statusCode,
+      });
+    }
+
+    // Build a user-friendly error, including the message from the response if available
+    let errorMessage = `API request failed (${response.status} ${response.statusText})`;
+    let code: number | undefined;
+    let href: string | undefined;
+    if (typeof responseData === "object" && responseData !== null) {
+      const body = responseData as Record<string, unknown>;
+      if (typeof body.message === "string") {
+        errorMessage += `: ${body.message}`;
+      }
+
+      if (typeof body.code === "number") {
+        code = body.code;
+      }
+
+      if (typeof body.href === "string") {
+        href = body.href;
+      }
+    } else if (typeof responseData === "string" && responseData.length < 100) {
+      // Include short string responses directly
+      errorMessage += `: ${responseData}`;
+    }
+
+    return new ControlApiError(errorMessage, {
+      code,
+      href,
+      response: responseData,
+      statusCode: response.status,
+    });
+  }
+
+  private requestOptions(method: string, body?: unknown): RequestInit {
     const options: RequestInit = {
       headers: {
         Accept: "application/json",
@@ -512,56 +741,75 @@ export class ControlApi {
       options.body = JSON.stringify(body);
     }
 
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      const responseBody = await response.text();
-      // Attempt to parse JSON, otherwise use raw text
-      let responseData: unknown = responseBody;
-      try {
-        responseData = JSON.parse(responseBody);
-      } catch {
-        /* Ignore parsing errors, keep as string */
-      }
+    return options;
+  }
 
-      const errorDetails = {
-        message: `API request failed with status ${response.status}: ${response.statusText}`,
-        response: responseData, // Assign unknown type
-        statusCode: response.status,
-      };
-
-      // Log the error for debugging purposes, but not during tests
-      if (this.logErrors) {
-        console.error("Control API Request Error:", {
-          message: errorDetails.message,
-          response: errorDetails.response || "No response body",
-          statusCode: errorDetails.statusCode,
-        });
-      }
+  private async request<T>(
+    path: string,
+    method = "GET",
+    body?: unknown,
+  ): Promise<T> {
+    const response = await this.fetchWithRetry(
+      this.buildUrl(path),
+      this.requestOptions(method, body),
+    );
+    return this.parseResponse<T>(response);
+  }
 
-      // Throw a more user-friendly error, including the message from the response if available
-      let errorMessage = `API request failed (${response.status} ${response.statusText})`;
-      if (
-        typeof responseData === "object" &&
-        responseData !== null &&
-        "message" in responseData &&
-        typeof responseData.message === "string"
-      ) {
-        errorMessage += `: ${responseData.message}`;
-      } else if (
-        typeof responseData === "string" &&
-        responseData.length < 100
-      ) {
-        // Include short string responses directly
-        errorMessage += `: ${responseData}`;
+  /**
+   * GET a list endpoint, following rel="next" Link headers until every page
+   * has been fetched. Links are only followed on the Control API host, as
+   * each request carries the access token, and a link back to a page already
+   * fetched ends the list rather than looping.
+   */
+  private async requestAll<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    const fetched = new Set<string>();
+    let url: null | string = this.buildUrl(path);
+    const { origin } = new URL(url);
+
+    while (url) {
+      const { href } = new URL(url);
+      if (fetched.has(href)) break;
+
+      fetched.add(href);
+      const response = await this.fetchWithRetry(
+        url,
+        this.requestOptions("GET"),
+      );
+      const page = await this.parseResponse<T[]>(response);
+      items.push(...page);
+      url = getNextPageUrl(response);
+
+      if (url && new URL(url).origin !== origin) {
+        throw new Error(
+          `Refusing to follow a Control API next page link to another host: ${new URL(url).origin}`,
+        );
       }
-      throw new Error(errorMessage);
     }
 
-    if (response.status === 204) {
-      return {} as T;
-    }
+    return items;
+  }
+}
 
-    return (await response.json()) as T;
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Extract the rel="next" URL from a Link header, resolved against the URL of
+ * the response it came from
+ */
+function getNextPageUrl(response: Response): null | string {
+  const link = response.headers.get("link");
+  if (!link) return null;
+
+  for (const part of link.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;(.*)/);
+    if (match && /\brel="?next"?/.test(match[2])) {
+      return new URL(match[1], response.url).toString();
+    }
   }
+
+  return null;
 }
@@ -0,0 +1,164 @@
+import type { Namespace, Queue, Rule, RuleData } from "./control-api.js";
+
+/** Integration rule types that `integrations create` can build a target for */
+export const INTEGRATION_RULE_TYPES = [
+  "http",
+  "amqp",
+  "kinesis",
+  "firehose",
+  "pulsar",
+  "kafka",
+  "azure",
+  "azure-functions",
+  "mqtt",
+  "cloudmqtt",
+] as const;
+
+export const INTEGRATION_SOURCE_TYPES = [
+  "channel.message",
+  "channel.presence",
+  "channel.lifecycle",
+  "presence.message",
+] as const;
+
+export interface ChannelRuleRecord {
+  authenticated: boolean;
+  batchingEnabled: boolean;
+  batchingInterval: null | number;
+  conflationEnabled: boolean;
+  conflationInterval: null | number;
+  conflationKey: null | string;
+  created: string;
+  exposeTimeSerial: boolean;
+  id: string;
+  modified: string;
+  persistLast: boolean;
+  persisted: boolean;
+  populateChannelRegistry: boolean;
+  pushEnabled: boolean;
+  tlsOnly: boolean;
+}
+
+/**
+ * A channel rule as listed in JSON output, with unset settings filled in
+ */
+export function channelRuleRecord(rule: Namespace): ChannelRuleRecord {
+  return {
+    authenticated: rule.authenticated || false,
+    batchingEnabled: rule.batchingEnabled || false,
+    batchingInterval: rule.batchingInterval || null,
+    conflationEnabled: rule.conflationEnabled || false,
+    conflationInterval: rule.conflationInterval || null,
+    conflationKey: rule.conflationKey || null,
+    created: new Date(rule.created).toISOString(),
+    exposeTimeSerial: rule.exposeTimeSerial || false,
+    id: rule.id,
+    modified: new Date(rule.modified).toISOString(),
+    persistLast: rule.persistLast || false,
+    persisted: rule.persisted || false,
+    populateChannelRegistry: rule.populateChannelRegistry || false,
+    pushEnabled: rule.pushEnabled || false,
+    tlsOnly: rule.tlsOnly || false,
+  };
+}
+
+/**
+ * An integration rule as listed in JSON output
+ */
+export function integrationRecord(rule: Rule): Record<string, unknown> {
+  return {
+    appId: rule.appId,
+    created: new Date(rule.created).toISOString(),
+    id: rule.id,
+    modified: new Date(rule.modified).toISOString(),
+    requestMode: rule.requestMode,
+    source: {
+      channelFilter: rule.source.channelFilter || null,
+      type: rule.source.type,
+    },
+    target: rule.target,
+    type: rule.ruleType,
+    version: rule.version,
+  };
+}
+
+/**
+ * A queue as listed in JSON output
+ */
+export function queueRecord(queue: Queue): Record<string, unknown> {
+  return {
+    amqp: queue.amqp,
+    deadletter: queue.deadletter || false,
+    deadletterId: queue.deadletterId,
+    id: queue.id,
+    maxLength: queue.maxLength,
+    messages: queue.messages,
+    name: queue.name,
+    region: queue.region,
+    state: queue.state,
+    stats: queue.stats,
+    stomp: queue.stomp,
+    ttl: queue.ttl,
+  };
+}
+
+/**
+ * Build the request to create an integration rule. Only HTTP and AMQP rules
+ * get a complete target; other types get a default one to edit later.
+ */
+export function integrationRuleData(options: {
+  channelFilter?: string;
+  requestMode: string;
+  ruleType: string;
+  sourceType: string;
+  status: "disabled" | "enabled";
+  targetUrl?: string;
+}): RuleData {
+  const ruleData: RuleData = {
+    requestMode: options.requestMode,
+    ruleType: options.ruleType,
+    source: {
+      channelFilter: options.channelFilter || "",
+      type: options.sourceType,
+    },
+    status: options.status,
+    target: {},
+  };
+
+  switch (options.ruleType) {
+    case "http": {
+      if (!options.targetUrl) {
+        throw new Error("A target URL is required for HTTP integration rules");
+      }
+
+      ruleData.target = {
+        enveloped: true,
+        format: "json",
+        url: options.targetUrl,
+      };
+      break;
+    }
+
+    case "amqp": {
+      // Simplified AMQP config for demo purposes
+      ruleData.target = {
+        enveloped: true,
+        exchangeName: "ably",
+        format: "json",
+        headers: {},
+        immediate: false,
+        mandatory: true,
+        persistent: true,
+        queueType: "classic",
+        routingKey: "events",
+      };
+      break;
+    }
+
+    default: {
+      ruleData.target = { enveloped: true, format: "json" };
+    }
+  }
+
+  return ruleData;
+}
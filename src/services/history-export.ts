@@ -0,0 +1,261 @@
+import { Flags } from "@oclif/core";
+import type * as Ably from "ably";
+import fs from "node:fs";
+import path from "node:path";
+import { Writable } from "node:stream";
+
+/**
+ * The subset of a paginated result shared by ably-js and Ably Chat
+ */
+export interface Paginated<T> {
+  hasNext(): boolean;
+  items: T[];
+  next(): Promise<Paginated<T> | null>;
+}
+
+export type ExportFormat = "csv" | "ndjson";
+
+export interface PaginationOptions {
+  /** Follow next() until the results are exhausted */
+  all?: boolean;
+  /** Stop after this many items in total */
+  max?: number;
+  /** Called after each page with the running total */
+  onPage?: (fetched: number, page: number) => void;
+}
+
+export interface ExportOptions<T> extends PaginationOptions {
+  columns: string[];
+  format?: ExportFormat;
+  output?: string;
+  toRecord: (item: T) => Record<string, unknown>;
+}
+
+export interface ExportResult {
+  count: number;
+  file?: string;
+  format: ExportFormat;
+  truncated: boolean;
+}
+
+/**
+ * Flags shared by every command that can page through and export history
+ */
+export const historyExportFlags = {
+  all: Flags.boolean({
+    description:
+      "Fetch every page of results instead of only the first (--limit sets the page size)",
+  }),
+  format: Flags.string({
+    description:
+      "Write results as NDJSON or CSV. Defaults to the --output file extension, or ndjson",
+    options: ["ndjson", "csv"],
+  }),
+  max: Flags.integer({
+    dependsOn: ["all"],
+    description: "Maximum number of results to fetch in total when using --all",
+    min: 1,
+  }),
+  output: Flags.string({
+    char: "o",
+    description:
+      "File to write results to as NDJSON or CSV. Progress is reported on stderr",
+  }),
+};
+
+/**
+ * CSV columns for exported channel messages, matching messageToRecord()
+ */
+export const MESSAGE_COLUMNS = [
+  "id",
+  "timestamp",
+  "name",
+  "clientId",
+  "connectionId",
+  "encoding",
+  "data",
+  "extras",
+];
+
+export function messageToRecord(
+  message: Ably.Message,
+): Record<string, unknown> {
+  return {
+    clientId: message.clientId,
+    connectionId: message.connectionId,
+    data: message.data,
+    encoding: message.encoding,
+    extras: message.extras,
+    id: message.id,
+    name: message.name,
+    timestamp: message.timestamp
+      ? new Date(message.timestamp).toISOString()
+      : undefined,
+  };
+}
+
+/**
+ * Yield the items of a paginated result page by page, following next()
+ * when `all` is set and stopping once `max` items have been yielded
+ */
+export async function* iteratePages<T>(
+  firstPage: Paginated<T>,
+  options: PaginationOptions = {},
+): AsyncGenerator<T[]> {
+  let page: null | Paginated<T> = firstPage;
+  let fetched = 0;
+  let pageNumber = 0;
+
+  while (page) {
+    pageNumber++;
+    let { items } = page;
+    if (options.max !== undefined && fetched + items.length > options.max) {
+      items = items.slice(0, options.max - fetched);
+    }
+
+    fetched += items.length;
+    options.onPage?.(fetched, pageNumber);
+    yield items;
+
+    const reachedMax = options.max !== undefined && fetched >= options.max;
+    if (!options.all || reachedMax || !page.hasNext()) return;
+
+    page = await page.next();
+  }
+}
+
+/**
+ * Collect the items of a paginated result into memory. `truncated` is true
+ * when more results were available than were fetched.
+ */
+export async function collectPages<T>(
+  firstPage: Paginated<T>,
+  options: PaginationOptions = {},
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  const tracker = trackPages(firstPage);
+  for await (const batch of iteratePages(tracker.page, options)) {
+    items.push(...batch);
+  }
+
+  return { items, truncated: tracker.isTruncated(items.length) };
+}
+
+/**
+ * Whether the command should write records instead of its normal display
+ */
+export function isExportRequested(flags: {
+  format?: string;
+  output?: string;
+}): boolean {
+  return Boolean(flags.output || flags.format);
+}
+
+/**
+ * Stream paginated results to a file (or stdout when no file is given) as
+ * NDJSON or CSV
+ */
+export async function exportPages<T>(
+  firstPage: Paginated<T>,
+  options: ExportOptions<T>,
+): Promise<ExportResult> {
+  const format = options.format ?? inferFormat(options.output);
+  const file = options.output ? path.resolve(options.output) : undefined;
+  const stream: Writable = file
+    ? fs.createWriteStream(file)
+    : new Writable({
+        write(chunk, _encoding, callback) {
+          process.stdout.write(chunk, callback);
+        },
+      });
+
+  let count = 0;
+  const tracker = trackPages(firstPage);
+
+  try {
+    if (format === "csv") {
+      await write(stream, toCsvRow(options.columns));
+    }
+
+    for await (const batch of iteratePages(tracker.page, options)) {
+      const lines = batch.map((item) => {
+        const record = options.toRecord(item);
+        return format === "csv"
+          ? toCsvRow(options.columns.map((column) => record[column]))
+          : `${JSON.stringify(record)}\n`;
+      });
+      if (lines.length > 0) {
+        await write(stream, lines.join(""));
+      }
+
+      count += batch.length;
+    }
+  } finally {
+    await new Promise<void>((resolve) => {
+      stream.end(resolve);
+    });
+  }
+
+  return {
+    count,
+    file,
+    format,
+    truncated: tracker.isTruncated(count),
+  };
+}
+
+export function inferFormat(output?: string): ExportFormat {
+  return output && path.extname(output).toLowerCase() === ".csv"
+    ? "csv"
+    : "ndjson";
+}
+
+/**
+ * Format one CSV row (RFC 4180). Objects are written as JSON.
+ */
+export function toCsvRow(values: unknown[]): string {
+  return `${values.map((value) => escapeCsvValue(value)).join(",")}\n`;
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[\n\r",]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * Wrap a paginated result to keep track of every page fetched through next(),
+ * so callers can tell whether results were left behind
+ */
+function trackPages<T>(firstPage: Paginated<T>): {
+  isTruncated: (consumed: number) => boolean;
+  page: Paginated<T>;
+} {
+  let lastPage = firstPage;
+  let seen = firstPage.items.length;
+
+  const wrap = (page: Paginated<T>): Paginated<T> => ({
+    hasNext: () => page.hasNext(),
+    items: page.items,
+    async next() {
+      const nextPage = await page.next();
+      if (!nextPage) return null;
+      lastPage = nextPage;
+      seen += nextPage.items.length;
+      return wrap(nextPage);
+    },
+  });
+
+  return {
+    isTruncated: (consumed) => consumed < seen || lastPage.hasNext(),
+    page: wrap(firstPage),
+  };
+}
+
+function write(stream: Writable, data: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(data, (error) => (error ? reject(error) : resolve()));
+  });
+}
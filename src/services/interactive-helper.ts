@@ -1,6 +1,11 @@
 import inquirer from "inquirer";
 import type { ConfigManager, AccountConfig } from "./config-manager.js";
 import type { App, ControlApi, Key } from "./control-api.js";
+import {
+  CAPABILITY_OPERATIONS,
+  Capability,
+  resourceProblem,
+} from "./capability.js";
 
 export interface InteractiveHelperOptions {
   logErrors?: boolean;
@@ -34,6 +39,66 @@ export class InteractiveHelper {
     return confirmed;
   }
 
+  /**
+   * Build a capability by prompting for resource name patterns and the
+   * operations to allow on each
+   */
+  async buildCapability(): Promise<Capability> {
+    const capability: Capability = {};
+
+    for (;;) {
+      const { operations, resource } = await inquirer.prompt([
+        {
+          default: Object.keys(capability).length === 0 ? "*" : undefined,
+          message:
+            'Channel name or pattern (e.g. "chat:*", "[meta]*", "*" for all channels):',
+          name: "resource",
+          type: "input",
+          validate: (input: string) =>
+            resourceProblem(input) ??
+            (input in capability ? `"${input}" has already been added` : true),
+        },
+        {
+          choices: Object.entries(CAPABILITY_OPERATIONS).map(
+            ([operation, description]) => ({
+              name: `${operation} - ${description}`,
+              value: operation,
+            }),
+          ),
+          message: "Operations to allow:",
+          name: "operations",
+          type: "checkbox",
+          validate: (input: string[]) =>
+            input.length > 0 || "Select at least one operation",
+        },
+      ]);
+
+      capability[resource] = operations.includes("*") ? ["*"] : operations;
+
+      if (!(await this.confirm("Add another channel or pattern?"))) {
+        return capability;
+      }
+    }
+  }
+
+  /**
+   * Prompt for a passphrase without echoing it
+   */
+  async promptForPassphrase(message: string): Promise<string> {
+    const { passphrase } = await inquirer.prompt([
+      {
+        mask: "*",
+        message,
+        name: "passphrase",
+        type: "password",
+        validate: (input: string) =>
+          input.length > 0 || "A passphrase is required",
+      },
+    ]);
+
+    return passphrase;
+  }
+
   /**
    * Interactively select an account from the list of configured accounts
    */
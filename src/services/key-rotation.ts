@@ -0,0 +1,84 @@
+import fs from "node:fs";
+
+/** Environment variable the CLI and SDKs read an API key from */
+export const DEFAULT_KEY_ENV_VARIABLE = "ABLY_API_KEY";
+
+const ENV_VARIABLE_PATTERN = /^[A-Z_a-z]\w*$/;
+
+/**
+ * What a key rotation changed, without any key secrets so the record can be
+ * kept in logs. It is written as soon as the new key is in place, before
+ * the old key is revoked.
+ */
+export interface KeyRotationAudit {
+  action: "key.rotate";
+  appId: string;
+  capability: unknown;
+  /** Global config paths that now hold the new key */
+  configEntries: string[];
+  envFile?: { path: string; variable: string };
+  newKey: { keyName: string; label: string };
+  oldKey: { keyName: string; label: string };
+  timestamp: string;
+}
+
+/** The revocation of a rotated key, recorded once it happens */
+export interface KeyRevocationAudit {
+  action: "key.revoke";
+  appId: string;
+  keyName: string;
+  /** The key that replaced the revoked one */
+  replacedBy: string;
+  timestamp: string;
+}
+
+/**
+ * Set a variable in dotenv file content, replacing every existing
+ * assignment of it (keeping any `export` prefix) or appending one
+ */
+export function setEnvVariable(
+  content: string,
+  name: string,
+  value: string,
+): string {
+  if (!ENV_VARIABLE_PATTERN.test(name)) {
+    throw new Error(`Invalid environment variable name "${name}"`);
+  }
+
+  const assignment = new RegExp(`^(\\s*(?:export\\s+)?)${name}\\s*=.*$`, "gm");
+  if (assignment.test(content)) {
+    return content.replace(assignment, (_line, prefix: string) => {
+      return `${prefix}${name}=${value}`;
+    });
+  }
+
+  const separator = content === "" || content.endsWith("\n") ? "" : "\n";
+  return `${content}${separator}${name}=${value}\n`;
+}
+
+/**
+ * Write a variable to a dotenv file, creating the file readable only by the
+ * current user if it does not exist
+ */
+export function writeEnvVariable(
+  filePath: string,
+  name: string,
+  value: string,
+): void {
+  const content = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, "utf8")
+    : "";
+  fs.writeFileSync(filePath, setEnvVariable(content, name, value), {
+    mode: 0o600,
+  });
+}
+
+/**
+ * Append an audit record to a JSON Lines file
+ */
+export function appendAuditRecord(
+  filePath: string,
+  record: KeyRevocationAudit | KeyRotationAudit,
+): void {
+  fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+}
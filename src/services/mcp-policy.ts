@@ -0,0 +1,288 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+import { globMatches, resourceMatches } from "./capability.js";
+
+const PUBLISH_WINDOW_MS = 60_000;
+
+const policySchema = z
+  .object({
+    /** JSON Lines file every tool invocation is recorded in */
+    auditLog: z.string().optional(),
+    channels: z
+      .object({
+        /** When given, only channels matching one of these can be used */
+        allow: z.array(z.string().min(1)).optional(),
+        deny: z.array(z.string().min(1)).default([]),
+      })
+      .strict()
+      .default({}),
+    publish: z
+      .object({
+        maxPayloadBytes: z.number().int().positive().optional(),
+        maxPerMinute: z.number().int().positive().optional(),
+      })
+      .strict()
+      .default({}),
+    /** Refuse every tool that publishes or changes Ably resources */
+    readOnly: z.boolean().default(false),
+    /** Tool name patterns that are refused until a person approves them */
+    requireApproval: z.array(z.string().min(1)).default([]),
+    version: z.literal(1).default(1),
+  })
+  .strict();
+
+export type McpPolicy = z.infer<typeof policySchema>;
+
+/** Policy settings given as start-server flags, applied on top of a policy file */
+export interface McpPolicyOverrides {
+  allowChannels?: string[];
+  auditLog?: string;
+  denyChannels?: string[];
+  maxPayloadBytes?: number;
+  maxPublishesPerMinute?: number;
+  readOnly?: boolean;
+  requireApproval?: string[];
+}
+
+export type McpPolicyName =
+  | "channelAllowlist"
+  | "channelDenylist"
+  | "payloadSize"
+  | "publishRate"
+  | "readOnly"
+  | "requireApproval";
+
+export interface McpToolInvocation {
+  arguments: Record<string, unknown>;
+  /** Channel, room or space names the call uses */
+  channels: string[];
+  mutating: boolean;
+  /** What the call publishes, if it publishes anything */
+  payload?: unknown;
+  tool: string;
+}
+
+export type McpPolicyDecision =
+  | { allowed: false; message: string; policy: McpPolicyName }
+  | { allowed: true };
+
+export interface McpAuditRecord {
+  arguments: Record<string, unknown>;
+  clientId?: string;
+  decision: "allowed" | "denied";
+  durationMs?: number;
+  error?: string;
+  policy?: McpPolicyName;
+  reason?: string;
+  timestamp: string;
+  tool: string;
+}
+
+/**
+ * Parse and validate a policy document, written in YAML or JSON
+ */
+export function parsePolicy(content: string): McpPolicy {
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Unable to parse policy: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = policySchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid policy:\n${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load a policy file, resolving its audit log path relative to the file
+ */
+export function loadPolicyFile(filePath: string): McpPolicy {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Policy file not found: ${resolvedPath}`);
+  }
+
+  const policy = parsePolicy(fs.readFileSync(resolvedPath, "utf8"));
+  if (policy.auditLog) {
+    policy.auditLog = path.resolve(path.dirname(resolvedPath), policy.auditLog);
+  }
+
+  return policy;
+}
+
+/**
+ * Apply flag overrides to a policy. Lists are added to, read-only mode can
+ * only be turned on, and limits replace those in the file.
+ */
+export function applyPolicyOverrides(
+  policy: McpPolicy,
+  overrides: McpPolicyOverrides,
+): McpPolicy {
+  const allow = [
+    ...(policy.channels.allow ?? []),
+    ...(overrides.allowChannels ?? []),
+  ];
+  return {
+    ...policy,
+    auditLog: overrides.auditLog ?? policy.auditLog,
+    channels: {
+      allow:
+        policy.channels.allow || overrides.allowChannels?.length
+          ? allow
+          : undefined,
+      deny: [...policy.channels.deny, ...(overrides.denyChannels ?? [])],
+    },
+    publish: {
+      maxPayloadBytes:
+        overrides.maxPayloadBytes ?? policy.publish.maxPayloadBytes,
+      maxPerMinute:
+        overrides.maxPublishesPerMinute ?? policy.publish.maxPerMinute,
+    },
+    readOnly: policy.readOnly || overrides.readOnly === true,
+    requireApproval: [
+      ...policy.requireApproval,
+      ...(overrides.requireApproval ?? []),
+    ],
+  };
+}
+
+/** The policy used when none is configured, which allows everything */
+export function defaultPolicy(): McpPolicy {
+  return parsePolicy("{}");
+}
+
+/** Size in bytes of a payload as it would be sent */
+export function payloadSize(payload: unknown): number {
+  return Buffer.byteLength(
+    typeof payload === "string" ? payload : (JSON.stringify(payload) ?? ""),
+  );
+}
+
+/**
+ * Decides whether tool calls are allowed under a policy, counting the
+ * publishes it allows to enforce the rate limit
+ */
+export class McpPolicyEnforcer {
+  readonly policy: McpPolicy;
+  private now: () => number;
+  private publishTimes: number[] = [];
+
+  constructor(policy: McpPolicy, now: () => number = Date.now) {
+    this.policy = policy;
+    this.now = now;
+  }
+
+  /** Check a channel against the allowlist and denylist */
+  public checkChannel(channel: string): McpPolicyDecision {
+    const denied = this.policy.channels.deny.find((pattern) =>
+      resourceMatches(pattern, channel),
+    );
+    if (denied) {
+      return {
+        allowed: false,
+        message: `Channel "${channel}" matches "${denied}" in the channel denylist`,
+        policy: "channelDenylist",
+      };
+    }
+
+    const { allow } = this.policy.channels;
+    if (allow && !allow.some((pattern) => resourceMatches(pattern, channel))) {
+      return {
+        allowed: false,
+        message: `Channel "${channel}" does not match the channel allowlist (${allow.join(", ")})`,
+        policy: "channelAllowlist",
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  public check(invocation: McpToolInvocation): McpPolicyDecision {
+    const publishes = invocation.payload !== undefined;
+    if (this.policy.readOnly && (invocation.mutating || publishes)) {
+      return {
+        allowed: false,
+        message: `${invocation.tool} is not available in read-only mode`,
+        policy: "readOnly",
+      };
+    }
+
+    const approval = this.policy.requireApproval.find((pattern) =>
+      globMatches(pattern, invocation.tool),
+    );
+    if (approval) {
+      return {
+        allowed: false,
+        message: `${invocation.tool} requires approval (matches "${approval}"). Ask a person to run the equivalent ably command instead`,
+        policy: "requireApproval",
+      };
+    }
+
+    for (const channel of invocation.channels) {
+      const decision = this.checkChannel(channel);
+      if (!decision.allowed) return decision;
+    }
+
+    if (publishes) {
+      return this.checkPublish(invocation.payload);
+    }
+
+    return { allowed: true };
+  }
+
+  private checkPublish(payload: unknown): McpPolicyDecision {
+    const { maxPayloadBytes, maxPerMinute } = this.policy.publish;
+    const size = payloadSize(payload);
+    if (maxPayloadBytes !== undefined && size > maxPayloadBytes) {
+      return {
+        allowed: false,
+        message: `Payload of ${size} bytes exceeds the limit of ${maxPayloadBytes} bytes`,
+        policy: "payloadSize",
+      };
+    }
+
+    const now = this.now();
+    this.publishTimes = this.publishTimes.filter(
+      (time) => now - time < PUBLISH_WINDOW_MS,
+    );
+    if (
+      maxPerMinute !== undefined &&
+      this.publishTimes.length >= maxPerMinute
+    ) {
+      const retryAfter = Math.ceil(
+        (this.publishTimes[0] + PUBLISH_WINDOW_MS - now) / 1000,
+      );
+      return {
+        allowed: false,
+        message: `Publish limit of ${maxPerMinute} per minute reached; retry in ${retryAfter}s`,
+        policy: "publishRate",
+      };
+    }
+
+    this.publishTimes.push(now);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Append an audit record to a JSON Lines file
+ */
+export function appendMcpAuditRecord(
+  filePath: string,
+  record: McpAuditRecord,
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+}
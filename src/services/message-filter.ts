@@ -0,0 +1,529 @@
+import { Flags } from "@oclif/core";
+import * as Ably from "ably";
+
+/**
+ * Flag for subscribe commands that can drop events client-side before they
+ * are output
+ */
+export const filterFlags = {
+  filter: Flags.string({
+    description:
+      "Only output events matching this expression over the event's fields, e.g. 'name == \"order\" && data.total > 100'. Supports ==, !=, <, <=, >, >=, =~ (regex), &&, || and !",
+  }),
+};
+
+type Literal = boolean | null | number | string;
+
+type Operand =
+  | { kind: "literal"; value: Literal }
+  | { kind: "path"; path: (number | string)[] };
+
+type Comparison = "!=" | "<" | "<=" | "==" | "=~" | ">" | ">=";
+
+/**
+ * A parsed filter expression
+ */
+export type FilterNode =
+  | { kind: "and" | "or"; left: FilterNode; right: FilterNode }
+  | {
+      kind: "compare";
+      left: Operand;
+      op: Comparison;
+      pattern?: RegExp;
+      right: Operand;
+    }
+  | { kind: "not"; operand: FilterNode }
+  | { kind: "truthy"; operand: Operand };
+
+interface Token {
+  position: number;
+  type: "identifier" | "number" | "operator" | "string";
+  value: string;
+}
+
+const OPERATORS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "=~",
+  "<",
+  ">",
+  "!",
+  "(",
+  ")",
+  "[",
+  "]",
+  ".",
+];
+
+const COMPARISONS = new Set(["!=", "<", "<=", "==", "=~", ">", ">="]);
+
+/**
+ * Parse a filter expression. Operands are dot paths into the event (e.g.
+ * `data.items[0].sku` or `headers["x-tenant"]`) and string, number, boolean
+ * or null literals. Operators are `==`, `!=`, `<`, `<=`, `>`, `>=`, `=~`
+ * (regular expression match), `&&`, `||`, `!` and parentheses. A path on
+ * its own matches when its value is truthy.
+ */
+export function parseFilter(expression: string): FilterNode {
+  const parser = new FilterParser(tokenize(expression), expression);
+  return parser.parse();
+}
+
+/**
+ * Whether a value (usually from messageFields()) matches a filter
+ */
+export function evaluateFilter(node: FilterNode, value: unknown): boolean {
+  switch (node.kind) {
+    case "and": {
+      return (
+        evaluateFilter(node.left, value) && evaluateFilter(node.right, value)
+      );
+    }
+
+    case "or": {
+      return (
+        evaluateFilter(node.left, value) || evaluateFilter(node.right, value)
+      );
+    }
+
+    case "not": {
+      return !evaluateFilter(node.operand, value);
+    }
+
+    case "truthy": {
+      return Boolean(resolveOperand(node.operand, value));
+    }
+
+    case "compare": {
+      return compare(
+        resolveOperand(node.left, value),
+        node.op,
+        resolveOperand(node.right, value),
+        node.pattern,
+      );
+    }
+  }
+}
+
+/**
+ * Translate a filter into an Ably subscription filter (a JMESPath
+ * expression), which can only refer to the message name and
+ * `extras.headers`. Returns undefined for filters that can't be applied on
+ * the server.
+ */
+export function toServerFilter(node: FilterNode): string | undefined {
+  switch (node.kind) {
+    case "and":
+    case "or": {
+      const left = toServerFilter(node.left);
+      const right = toServerFilter(node.right);
+      if (left === undefined || right === undefined) return undefined;
+      return `(${left} ${node.kind === "and" ? "&&" : "||"} ${right})`;
+    }
+
+    case "not": {
+      const operand = toServerFilter(node.operand);
+      return operand === undefined ? undefined : `!(${operand})`;
+    }
+
+    case "truthy": {
+      return serverOperand(node.operand);
+    }
+
+    case "compare": {
+      if (node.op === "=~") return undefined;
+      const left = serverOperand(node.left);
+      const right = serverOperand(node.right);
+      if (left === undefined || right === undefined) return undefined;
+      return `${left} ${node.op} ${right}`;
+    }
+  }
+}
+
+/**
+ * The fields of a channel or presence message that filters evaluate
+ * against. `headers` is a shortcut for `extras.headers`, and string data
+ * holding a JSON object or array is parsed so paths into it work.
+ */
+export function messageFields(
+  message: Ably.InboundMessage | Ably.Message | Ably.PresenceMessage,
+): Record<string, unknown> {
+  const extras = message.extras as { headers?: unknown } | undefined;
+  return {
+    ...message,
+    data: parseJsonString(message.data),
+    headers: extras?.headers,
+  };
+}
+
+function compare(
+  left: unknown,
+  op: Comparison,
+  right: unknown,
+  pattern?: RegExp,
+): boolean {
+  switch (op) {
+    case "==": {
+      return isEqual(left, right);
+    }
+
+    case "!=": {
+      return !isEqual(left, right);
+    }
+
+    case "=~": {
+      return (
+        (typeof left === "string" || typeof left === "number") &&
+        pattern!.test(String(left))
+      );
+    }
+
+    default: {
+      const leftNumber = toNumber(left);
+      const rightNumber = toNumber(right);
+      if (leftNumber !== undefined && rightNumber !== undefined) {
+        return compareOrdered(leftNumber, op, rightNumber);
+      }
+
+      if (typeof left === "string" && typeof right === "string") {
+        return compareOrdered(left, op, right);
+      }
+
+      return false;
+    }
+  }
+}
+
+function compareOrdered<T extends number | string>(
+  left: T,
+  op: Comparison,
+  right: T,
+): boolean {
+  switch (op) {
+    case "<": {
+      return left < right;
+    }
+
+    case "<=": {
+      return left <= right;
+    }
+
+    case ">": {
+      return left > right;
+    }
+
+    default: {
+      return left >= right;
+    }
+  }
+}
+
+// Numbers equal numeric strings, since header values are always strings
+function isEqual(left: unknown, right: unknown): boolean {
+  if (typeof left === "number" || typeof right === "number") {
+    const leftNumber = toNumber(left);
+    return leftNumber !== undefined && leftNumber === toNumber(right);
+  }
+
+  if (typeof left === "object" && left !== null) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+
+  return left === right;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  return undefined;
+}
+
+function resolveOperand(operand: Operand, value: unknown): unknown {
+  if (operand.kind === "literal") return operand.value;
+
+  let current = value;
+  for (const key of operand.path) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<number | string, unknown>)[key];
+  }
+
+  return current;
+}
+
+function serverOperand(operand: Operand): string | undefined {
+  if (operand.kind === "literal") {
+    return `\`${JSON.stringify(operand.value)}\``;
+  }
+
+  let { path } = operand;
+  if (path[0] === "extras" && path[1] === "headers") path = path.slice(1);
+
+  if (path.length === 1 && path[0] === "name") return "name";
+  if (
+    path.length === 2 &&
+    path[0] === "headers" &&
+    typeof path[1] === "string"
+  ) {
+    const header = path[1];
+    return /^[A-Za-z_]\w*$/.test(header)
+      ? `headers.${header}`
+      : `headers.${JSON.stringify(header)}`;
+  }
+
+  return undefined;
+}
+
+function parseJsonString(data: unknown): unknown {
+  if (typeof data !== "string") return data;
+
+  const trimmed = data.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return data;
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return data;
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const char = expression[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let end = position + 1;
+      while (end < expression.length && expression[end] !== char) {
+        if (expression[end] === "\\" && end + 1 < expression.length) end++;
+        value += expression[end];
+        end++;
+      }
+
+      if (end >= expression.length) {
+        throw new Error(`Unterminated string at position ${position + 1}`);
+      }
+
+      tokens.push({ position, type: "string", value });
+      position = end + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(expression.slice(position));
+    if (number) {
+      tokens.push({ position, type: "number", value: number[0] });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$-]*/.exec(expression.slice(position));
+    if (identifier) {
+      tokens.push({ position, type: "identifier", value: identifier[0] });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) =>
+      expression.startsWith(op, position),
+    );
+    if (!operator) {
+      throw new Error(`Unexpected "${char}" at position ${position + 1}`);
+    }
+
+    tokens.push({ position, type: "operator", value: operator });
+    position += operator.length;
+  }
+
+  return tokens;
+}
+
+class FilterParser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly expression: string,
+  ) {}
+
+  parse(): FilterNode {
+    if (this.tokens.length === 0) throw new Error("Filter expression is empty");
+
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(
+        `Unexpected "${extra.value}" at position ${extra.position + 1}`,
+      );
+    }
+
+    return node;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token?.type !== "operator" || token.value !== value) {
+      throw this.unexpected(token, `"${value}"`);
+    }
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private parseAnd(): FilterNode {
+    let node = this.parseUnary();
+    while (this.peekOperator("&&")) {
+      this.index++;
+      node = { kind: "and", left: node, right: this.parseUnary() };
+    }
+
+    return node;
+  }
+
+  private parseOperand(): Operand {
+    const token = this.next();
+    if (!token) throw this.unexpected(token, "a path or value");
+
+    switch (token.type) {
+      case "string": {
+        return { kind: "literal", value: token.value };
+      }
+
+      case "number": {
+        return { kind: "literal", value: Number(token.value) };
+      }
+
+      case "identifier": {
+        if (token.value === "true" || token.value === "false") {
+          return { kind: "literal", value: token.value === "true" };
+        }
+
+        if (token.value === "null") return { kind: "literal", value: null };
+        return { kind: "path", path: this.parsePath(token.value) };
+      }
+
+      default: {
+        throw this.unexpected(token, "a path or value");
+      }
+    }
+  }
+
+  private parseOr(): FilterNode {
+    let node = this.parseAnd();
+    while (this.peekOperator("||")) {
+      this.index++;
+      node = { kind: "or", left: node, right: this.parseAnd() };
+    }
+
+    return node;
+  }
+
+  private parsePath(first: string): (number | string)[] {
+    const path: (number | string)[] = [first];
+    for (;;) {
+      if (this.peekOperator(".")) {
+        this.index++;
+        const token = this.next();
+        if (token?.type !== "identifier") {
+          throw this.unexpected(token, "a field name");
+        }
+
+        path.push(token.value);
+      } else if (this.peekOperator("[")) {
+        this.index++;
+        const token = this.next();
+        if (token?.type === "number" && Number.isInteger(Number(token.value))) {
+          path.push(Number(token.value));
+        } else if (token?.type === "string") {
+          path.push(token.value);
+        } else {
+          throw this.unexpected(token, "an index or quoted field name");
+        }
+
+        this.expect("]");
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private parsePrimary(): FilterNode {
+    if (this.peekOperator("(")) {
+      this.index++;
+      const node = this.parseOr();
+      this.expect(")");
+      return node;
+    }
+
+    const left = this.parseOperand();
+    const op = this.peek();
+    if (op?.type !== "operator" || !COMPARISONS.has(op.value)) {
+      return { kind: "truthy", operand: left };
+    }
+
+    this.index++;
+    const right = this.parseOperand();
+    const comparison = op.value as Comparison;
+    if (comparison !== "=~") {
+      return { kind: "compare", left, op: comparison, right };
+    }
+
+    if (right.kind !== "literal" || typeof right.value !== "string") {
+      throw new Error(
+        `=~ at position ${op.position + 1} must be followed by a quoted regular expression`,
+      );
+    }
+
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(right.value);
+    } catch (error) {
+      throw new Error(
+        `Invalid regular expression "${right.value}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return { kind: "compare", left, op: comparison, pattern, right };
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.peekOperator("!")) {
+      this.index++;
+      return { kind: "not", operand: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private peekOperator(value: string): boolean {
+    const token = this.peek();
+    return token?.type === "operator" && token.value === value;
+  }
+
+  private unexpected(token: Token | undefined, expected: string): Error {
+    return token
+      ? new Error(
+          `Expected ${expected} at position ${token.position + 1}, found "${token.value}"`,
+        )
+      : new Error(`Expected ${expected} at the end of "${this.expression}"`);
+  }
+}
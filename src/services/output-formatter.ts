@@ -0,0 +1,363 @@
+import { Flags } from "@oclif/core";
+import Table from "cli-table3";
+import colorJson from "color-json";
+import { stringify as stringifyYaml } from "yaml";
+
+import { toCsvRow } from "./history-export.js";
+
+export const OUTPUT_FORMATS = [
+  "table",
+  "json",
+  "ndjson",
+  "yaml",
+  "csv",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Flags for list and get commands, whose results go through outputRecords()
+ */
+export const outputFormatFlags = {
+  fields: Flags.string({
+    description:
+      "Comma-separated fields to show for each result, using dot paths for nested fields (e.g. id,name,messages.total). Outputs a table unless --format is given",
+  }),
+  format: Flags.string({
+    description: "Output format for the results",
+    options: [...OUTPUT_FORMATS],
+  }),
+  query: Flags.string({
+    description:
+      "Select part of the output with a JSONPath/jq-style path (e.g. '.apps[].id'). Outputs JSON unless --format is given",
+  }),
+};
+
+export type OutputRecord = Record<string, unknown>;
+
+/**
+ * What a list or get command outputs: the records themselves, plus how to
+ * lay them out as a table and what to wrap them in for JSON and YAML
+ */
+export interface RecordOutput {
+  /** Columns shown by table and CSV output when --fields isn't given */
+  columns: string[];
+  /** Property holding the records in JSON and YAML output, e.g. "apps" */
+  key: string;
+  /** Other properties of the JSON and YAML output, e.g. the app ID */
+  meta?: Record<string, unknown>;
+  /** A list of records, or a single record for get commands */
+  records: object | object[];
+}
+
+export interface FormatOptions {
+  /** Paths of the fields to keep in each record */
+  fields?: string[];
+  format: OutputFormat;
+  /** Colorize JSON output */
+  pretty?: boolean;
+  /** JSONPath/jq-style path selecting part of the JSON document */
+  query?: string;
+}
+
+type QuerySegment =
+  | { index: number; kind: "index" }
+  | { kind: "key"; name: string }
+  | { kind: "wildcard" };
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return (
+    typeof value === "string" &&
+    (OUTPUT_FORMATS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Parse a --fields value such as "id,name,messages.total"
+ */
+export function parseFields(value?: string): string[] | undefined {
+  if (!value) return undefined;
+
+  const fields = value
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+  return fields.length > 0 ? fields : undefined;
+}
+
+/**
+ * Get a nested value by a dot path. Array elements are selected by index,
+ * e.g. "rules.0.id"
+ */
+export function getPath(value: unknown, fieldPath: string): unknown {
+  let current = value;
+  for (const part of fieldPath.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+
+  return current;
+}
+
+/**
+ * Keep only the given fields of a record. Nested fields are keyed by their
+ * path, so "messages.total" stays a single column in tables and CSV.
+ */
+export function selectFields(
+  record: OutputRecord,
+  fields: string[],
+): OutputRecord {
+  return Object.fromEntries(
+    fields.map((field) => [field, getPath(record, field)]),
+  );
+}
+
+/**
+ * Evaluate a JSONPath/jq-style path against a value. Supported are keys
+ * (`.name` or `["name"]`), array indexes (`[0]`, `[-1]`) and wildcards
+ * (`[]`, `[*]` or `.*`) over array elements or object values, with an
+ * optional leading `$`. A path with a wildcard returns an array of matches.
+ */
+export function evaluateQuery(value: unknown, query: string): unknown {
+  const segments = parseQuery(query);
+  let matches = [value];
+  let multiple = false;
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const match of matches) {
+      if (segment.kind === "wildcard") {
+        if (Array.isArray(match)) {
+          next.push(...match);
+        } else if (match !== null && typeof match === "object") {
+          next.push(...Object.values(match));
+        }
+      } else if (segment.kind === "index") {
+        if (Array.isArray(match)) {
+          next.push(match.at(segment.index));
+        }
+      } else if (match !== null && typeof match === "object") {
+        next.push((match as Record<string, unknown>)[segment.name]);
+      } else {
+        next.push(undefined);
+      }
+    }
+
+    if (segment.kind === "wildcard") multiple = true;
+    matches = multiple
+      ? next.filter((match) => match !== undefined)
+      : next.slice(0, 1);
+  }
+
+  return multiple ? matches : matches[0];
+}
+
+/**
+ * Format a command's records for output. The records are narrowed by
+ * `fields` first, then `query` selects from the JSON document (the records
+ * under `key` along with `meta`), and the result is written in `format`.
+ */
+export function formatRecords(
+  output: RecordOutput,
+  options: FormatOptions,
+): string {
+  const project = (record: object) =>
+    options.fields
+      ? selectFields(record as OutputRecord, options.fields)
+      : (record as OutputRecord);
+  const records = Array.isArray(output.records)
+    ? output.records.map((record) => project(record))
+    : project(output.records);
+  const document = { ...output.meta, [output.key]: records };
+  const selected =
+    options.query === undefined
+      ? undefined
+      : evaluateQuery(document, options.query);
+  const columns =
+    options.fields ?? (options.query === undefined ? output.columns : []);
+
+  switch (options.format) {
+    case "csv": {
+      const rows = toRows(options.query === undefined ? records : selected);
+      const csvColumns = columnsFor(rows, columns);
+      return [
+        toCsvRow(csvColumns),
+        ...rows.map((row) =>
+          toCsvRow(csvColumns.map((column) => cellValue(row, column))),
+        ),
+      ]
+        .join("")
+        .trimEnd();
+    }
+
+    case "json": {
+      const data = options.query === undefined ? document : (selected ?? null);
+      return options.pretty && typeof data === "object" && data !== null
+        ? colorJson(data)
+        : JSON.stringify(data, null, 2);
+    }
+
+    case "ndjson": {
+      const items = options.query === undefined ? records : selected;
+      return (Array.isArray(items) ? items : [items])
+        .map((item) => JSON.stringify(item) ?? "null")
+        .join("\n");
+    }
+
+    case "table": {
+      const data = options.query === undefined ? records : selected;
+      if (!Array.isArray(data) && isRecord(data)) {
+        return formatRecordTable(data, columnsFor([data], columns));
+      }
+
+      const rows = toRows(data);
+      return formatTable(rows, columnsFor(rows, columns));
+    }
+
+    case "yaml": {
+      return stringifyYaml(
+        options.query === undefined ? document : (selected ?? null),
+      ).trimEnd();
+    }
+  }
+}
+
+function parseQuery(query: string): QuerySegment[] {
+  const segments: QuerySegment[] = [];
+  const invalid = (reason: string) =>
+    new Error(`Invalid query "${query}": ${reason}`);
+
+  let index = query.startsWith("$") ? 1 : 0;
+  let expectKey = index === 0 && !query.startsWith(".") && query !== "";
+
+  while (index < query.length) {
+    const char = query[index];
+    if (char === "." || expectKey) {
+      if (char === ".") index++;
+      expectKey = false;
+      if (query[index] === "*") {
+        segments.push({ kind: "wildcard" });
+        index++;
+        continue;
+      }
+
+      const match = /^[\w$-]+/.exec(query.slice(index));
+      if (!match) {
+        // A lone "." is the whole document, as in jq
+        if (index >= query.length || query[index] === "[") continue;
+        throw invalid(`expected a field name at position ${index + 1}`);
+      }
+
+      segments.push({ kind: "key", name: match[0] });
+      index += match[0].length;
+    } else if (char === "[") {
+      const end = findClosingBracket(query, index);
+      if (end === -1) throw invalid("missing ]");
+
+      const inner = query.slice(index + 1, end).trim();
+      if (inner === "" || inner === "*") {
+        segments.push({ kind: "wildcard" });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ index: Number(inner), kind: "index" });
+      } else if (/^(["']).*\1$/.test(inner)) {
+        segments.push({ kind: "key", name: inner.slice(1, -1) });
+      } else {
+        throw invalid(`unsupported selector [${inner}]`);
+      }
+
+      index = end + 1;
+    } else {
+      throw invalid(`unexpected "${char}" at position ${index + 1}`);
+    }
+  }
+
+  return segments;
+}
+
+function findClosingBracket(query: string, start: number): number {
+  let quote: string | undefined;
+  for (let index = start + 1; index < query.length; index++) {
+    const char = query[index];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "]") {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+function isRecord(value: unknown): value is OutputRecord {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Turn a query result into table rows, putting values that aren't records in
+ * a "value" column
+ */
+function toRows(data: unknown): OutputRecord[] {
+  if (data === undefined) return [];
+
+  return (Array.isArray(data) ? data : [data]).map((item) =>
+    isRecord(item) ? item : { value: item },
+  );
+}
+
+/**
+ * Use the given columns, or every key found in the rows when there are none
+ */
+function columnsFor(rows: OutputRecord[], columns: string[]): string[] {
+  if (columns.length > 0) return columns;
+
+  const keys = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) keys.add(key);
+  }
+
+  return [...keys];
+}
+
+/**
+ * Look a column up as a key first, so fields selected by path are found, and
+ * otherwise as a path
+ */
+function cellValue(row: OutputRecord, column: string): unknown {
+  return column in row ? row[column] : getPath(row, column);
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function formatTable(rows: OutputRecord[], columns: string[]): string {
+  const table = new Table({
+    // No lines between rows, so long lists stay compact
+    chars: { "left-mid": "", mid: "", "mid-mid": "", "right-mid": "" },
+    head: columns,
+    style: { border: [], head: [] },
+  });
+
+  for (const row of rows) {
+    table.push(columns.map((column) => formatCell(cellValue(row, column))));
+  }
+
+  return table.toString();
+}
+
+/**
+ * Show a single record as rows of field and value, which reads better than
+ * one very wide row
+ */
+function formatRecordTable(record: OutputRecord, columns: string[]): string {
+  const table = new Table({ style: { border: [], head: [] } });
+  for (const column of columns) {
+    table.push({ [column]: formatCell(cellValue(record, column)) });
+  }
+
+  return table.toString();
+}
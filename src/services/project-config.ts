@@ -0,0 +1,65 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parse as parseToml } from "smol-toml";
+import { z } from "zod";
+
+import { profileSchema } from "./config-schema.js";
+
+/**
+ * Name of the project config file, found by walking up from the working
+ * directory so it can be committed at the root of a repository
+ */
+export const PROJECT_CONFIG_FILE = ".ably.toml";
+
+const projectConfigSchema = profileSchema
+  .extend({
+    /** Profile to use when --profile is not given */
+    profile: z.string().min(1).optional(),
+    profiles: z.record(profileSchema).optional(),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+/**
+ * Find the nearest project config in startDir or one of its parents
+ */
+export function findProjectConfig(
+  startDir: string = process.cwd(),
+): string | undefined {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.statSync(candidate, { throwIfNoEntry: false })?.isFile()) {
+      return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Parse and validate a project config file
+ */
+export function loadProjectConfig(filePath: string): ProjectConfig {
+  let raw: unknown;
+  try {
+    raw = parseToml(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Unable to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = projectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid project config ${filePath}:\n${issues}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,216 @@
+import * as Ably from "ably";
+
+export const DEVICE_PLATFORMS = ["android", "ios", "browser"] as const;
+
+export const DEVICE_FORM_FACTORS = [
+  "phone",
+  "tablet",
+  "desktop",
+  "tv",
+  "watch",
+  "car",
+  "embedded",
+  "other",
+] as const;
+
+export const PUSH_TRANSPORT_TYPES = ["apns", "fcm", "web"] as const;
+
+export const DEVICE_STATES = ["ACTIVE", "FAILING", "FAILED"] as const;
+
+// Table and CSV columns for devices, matching deviceToRecord()
+export const DEVICE_COLUMNS = [
+  "id",
+  "platform",
+  "formFactor",
+  "clientId",
+  "push.state",
+];
+
+export const CHANNEL_SUBSCRIPTION_COLUMNS = ["channel", "deviceId", "clientId"];
+
+export interface PushRecipientOptions {
+  /** Client ID, to notify all of the client's devices */
+  client?: string;
+  /** Device ID */
+  device?: string;
+  /** Raw recipient as JSON, e.g. {"transportType":"apns","deviceToken":"..."} */
+  recipient?: string;
+}
+
+export interface PushPayloadOptions {
+  body?: string;
+  /** Data payload as a JSON object */
+  data?: string;
+  /** Complete payload as JSON, which the other options are merged into */
+  payload?: string;
+  title?: string;
+}
+
+export interface DeviceOptions {
+  client?: string;
+  formFactor: string;
+  id: string;
+  /** Metadata as a JSON object */
+  metadata?: string;
+  platform: string;
+  /** Raw push recipient as JSON, used instead of transportType and token */
+  recipient?: string;
+  /** APNs device token or FCM registration token */
+  token?: string;
+  transportType?: string;
+}
+
+/**
+ * A device for output. The device secret is left out, since it
+ * authenticates the device itself.
+ */
+export function deviceToRecord(
+  device: Ably.DeviceDetails,
+): Record<string, unknown> {
+  return {
+    clientId: device.clientId,
+    formFactor: device.formFactor,
+    id: device.id,
+    metadata: device.metadata,
+    platform: device.platform,
+    push: {
+      error: device.push?.error?.message,
+      recipient: device.push?.recipient,
+      state: device.push?.state,
+    },
+  };
+}
+
+/**
+ * The recipient for a direct push publish: exactly one of a device ID,
+ * a client ID or a raw recipient
+ */
+export function pushRecipient(
+  options: PushRecipientOptions,
+): Record<string, unknown> {
+  const given = [options.device, options.client, options.recipient].filter(
+    (value) => value !== undefined,
+  );
+  if (given.length !== 1) {
+    throw new Error(
+      "Specify exactly one recipient with --device, --client or --recipient",
+    );
+  }
+
+  if (options.device !== undefined) return { deviceId: options.device };
+  if (options.client !== undefined) return { clientId: options.client };
+  return parseJsonObject(options.recipient!, "--recipient");
+}
+
+/**
+ * The payload for a push publish: --payload with the notification title and
+ * body and the data payload merged in
+ */
+export function pushPayload(
+  options: PushPayloadOptions,
+): Record<string, unknown> {
+  const payload =
+    options.payload === undefined
+      ? {}
+      : parseJsonObject(options.payload, "--payload");
+
+  if (options.title !== undefined || options.body !== undefined) {
+    payload.notification = {
+      ...(payload.notification as Record<string, unknown> | undefined),
+      ...(options.title === undefined ? {} : { title: options.title }),
+      ...(options.body === undefined ? {} : { body: options.body }),
+    };
+  }
+
+  if (options.data !== undefined) {
+    payload.data = parseJsonObject(options.data, "--data");
+  }
+
+  if (Object.keys(payload).length === 0) {
+    throw new Error(
+      "Nothing to send. Specify --title and --body, --data or --payload",
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Device details to register. The push recipient is built from the
+ * transport type and token, or given as raw JSON for web push and other
+ * transports needing more details.
+ */
+export function deviceDetails(options: DeviceOptions): Ably.DeviceDetails {
+  let recipient: Record<string, unknown>;
+  if (options.recipient === undefined) {
+    switch (options.transportType) {
+      case "apns": {
+        recipient = {
+          deviceToken: requireToken(options),
+          transportType: "apns",
+        };
+        break;
+      }
+
+      case "fcm": {
+        recipient = {
+          registrationToken: requireToken(options),
+          transportType: "fcm",
+        };
+        break;
+      }
+
+      case undefined: {
+        throw new Error(
+          "Specify the push recipient with --transport-type and --token, or --recipient",
+        );
+      }
+
+      default: {
+        throw new Error(
+          `Use --recipient for the "${options.transportType}" transport, e.g. '{"transportType":"web","targetUrl":"...","encryptionKey":{...}}'`,
+        );
+      }
+    }
+  } else {
+    recipient = parseJsonObject(options.recipient, "--recipient");
+  }
+
+  return {
+    ...(options.client === undefined ? {} : { clientId: options.client }),
+    formFactor: options.formFactor as Ably.DeviceFormFactor,
+    id: options.id,
+    ...(options.metadata === undefined
+      ? {}
+      : { metadata: parseJsonObject(options.metadata, "--metadata") }),
+    platform: options.platform as Ably.DevicePlatform,
+    push: { recipient },
+  };
+}
+
+function requireToken(options: DeviceOptions): string {
+  if (!options.token) {
+    throw new Error(
+      `--token is required for the ${options.transportType} transport`,
+    );
+  }
+
+  return options.token;
+}
+
+function parseJsonObject(value: string, flag: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${flag} JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${flag} must be a JSON object`);
+  }
+
+  return parsed as Record<string, unknown>;
+}
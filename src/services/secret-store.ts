@@ -0,0 +1,391 @@
+import { spawnSync } from "node:child_process";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Where the CLI keeps access tokens and API keys:
+ * - config: in plaintext in the config file (the default)
+ * - encrypted-file: in an AES-256-GCM encrypted file next to the config,
+ *   unlocked with a passphrase
+ * - helper: in an external program, in the style of git credential helpers
+ */
+export type SecretStoreBackend = "config" | "encrypted-file" | "helper";
+
+export const SECRET_STORE_BACKENDS: SecretStoreBackend[] = [
+  "config",
+  "encrypted-file",
+  "helper",
+];
+
+/** Environment variable holding the passphrase for the encrypted-file backend */
+export const SECRETS_PASSPHRASE_ENV = "ABLY_SECRETS_PASSPHRASE";
+
+export const ENCRYPTED_SECRETS_FILE = "secrets.enc";
+
+export interface SecretStoreSettings {
+  backend: SecretStoreBackend;
+  /** Command to run for the helper backend */
+  helper?: string;
+}
+
+/**
+ * A store for secrets outside the config file. Keys are paths such as
+ * `accounts/default/accessToken`.
+ */
+export interface SecretStore {
+  readonly backend: Exclude<SecretStoreBackend, "config">;
+  delete(key: string): void;
+  get(key: string): string | undefined;
+  /** Whether a secret exists, without needing the store to be unlocked */
+  has(key: string): boolean;
+  set(key: string, value: string): void;
+}
+
+export class SecretStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretStoreError";
+  }
+}
+
+export function accessTokenSecretKey(alias: string): string {
+  return `accounts/${alias}/accessToken`;
+}
+
+export function apiKeySecretKey(alias: string, appId: string): string {
+  return `accounts/${alias}/apps/${appId}/apiKey`;
+}
+
+interface EncryptedSecretsFile {
+  ciphertext: string;
+  iv: string;
+  kdf: { N: number; name: "scrypt"; p: number; r: number; salt: string };
+  /** Names of the stored secrets, kept in the clear so presence can be checked while locked */
+  keys: string[];
+  tag: string;
+  version: 1;
+}
+
+const SCRYPT_PARAMS = { N: 2 ** 15, p: 1, r: 8 };
+
+type ScryptSettings = typeof SCRYPT_PARAMS & { salt: Buffer };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+/**
+ * Secrets encrypted with a key derived from a passphrase using scrypt. The
+ * passphrase comes from ABLY_SECRETS_PASSPHRASE or is supplied with unlock().
+ */
+export class EncryptedFileSecretStore implements SecretStore {
+  readonly backend = "encrypted-file";
+
+  private derivedKey?: Buffer;
+  /** The scrypt settings derivedKey comes from, written with each save */
+  private kdf?: ScryptSettings;
+  private passphrase?: string;
+  private secrets?: Record<string, string>;
+
+  constructor(
+    private readonly filePath: string,
+    passphrase = process.env[SECRETS_PASSPHRASE_ENV],
+  ) {
+    this.passphrase = passphrase || undefined;
+  }
+
+  delete(key: string): void {
+    const secrets = this.load();
+    if (!(key in secrets)) return;
+
+    delete secrets[key];
+    this.save(secrets);
+  }
+
+  get(key: string): string | undefined {
+    if (!this.has(key)) return undefined;
+    return this.load()[key];
+  }
+
+  has(key: string): boolean {
+    if (this.secrets) return key in this.secrets;
+    return this.readFile()?.keys.includes(key) ?? false;
+  }
+
+  /**
+   * Whether secrets cannot be read until a passphrase is supplied
+   */
+  isLocked(): boolean {
+    return !this.secrets && !this.passphrase && fs.existsSync(this.filePath);
+  }
+
+  /**
+   * Whether a passphrase is needed before secrets can be read or written
+   */
+  needsPassphrase(): boolean {
+    return !this.secrets && !this.passphrase;
+  }
+
+  set(key: string, value: string): void {
+    const secrets = this.load();
+    secrets[key] = value;
+    this.save(secrets);
+  }
+
+  /**
+   * Supply the passphrase, checking it against the existing file if there is one
+   */
+  unlock(passphrase: string): void {
+    this.passphrase = passphrase;
+    this.derivedKey = undefined;
+    this.kdf = undefined;
+    this.secrets = undefined;
+    try {
+      this.load();
+    } catch (error) {
+      this.passphrase = undefined;
+      throw error;
+    }
+  }
+
+  private deriveKey({ salt, ...params }: ScryptSettings): Buffer {
+    this.derivedKey ??= crypto.scryptSync(this.requirePassphrase(), salt, 32, {
+      ...params,
+      maxmem: SCRYPT_MAXMEM,
+    });
+    return this.derivedKey;
+  }
+
+  private load(): Record<string, string> {
+    if (this.secrets) return this.secrets;
+
+    const file = this.readFile();
+    if (!file) {
+      // Check the passphrase is available before accepting any writes
+      this.requirePassphrase();
+      this.secrets = {};
+      return this.secrets;
+    }
+
+    const kdf: ScryptSettings = {
+      N: file.kdf.N,
+      p: file.kdf.p,
+      r: file.kdf.r,
+      salt: Buffer.from(file.kdf.salt, "base64"),
+    };
+    const key = this.deriveKey(kdf);
+    try {
+      const decipher = crypto.createDecipheriv(
+        "aes-256-gcm",
+        key,
+        Buffer.from(file.iv, "base64"),
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.ciphertext, "base64")),
+        decipher.final(),
+      ]);
+      this.secrets = JSON.parse(plaintext.toString("utf8")) as Record<
+        string,
+        string
+      >;
+    } catch {
+      this.derivedKey = undefined;
+      throw new SecretStoreError(
+        `Unable to decrypt ${this.filePath}. The passphrase is incorrect or the file is damaged`,
+      );
+    }
+
+    this.kdf = kdf;
+    return this.secrets;
+  }
+
+  private readFile(): EncryptedSecretsFile | undefined {
+    if (!fs.existsSync(this.filePath)) return undefined;
+
+    try {
+      const file = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8"),
+      ) as EncryptedSecretsFile;
+      if (file.version !== 1 || file.kdf?.name !== "scrypt") {
+        throw new Error("unsupported format");
+      }
+
+      return file;
+    } catch (error) {
+      throw new SecretStoreError(
+        `Unable to read ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private requirePassphrase(): string {
+    if (!this.passphrase) {
+      throw new SecretStoreError(
+        `Secrets are stored in an encrypted file. Set ${SECRETS_PASSPHRASE_ENV} to its passphrase, or run the command interactively to be prompted for it`,
+      );
+    }
+
+    return this.passphrase;
+  }
+
+  private save(secrets: Record<string, string>): void {
+    if (Object.keys(secrets).length === 0) {
+      fs.rmSync(this.filePath, { force: true });
+      this.secrets = secrets;
+      return;
+    }
+
+    // Files keep the settings they were written with, so the cached key
+    // still matches the header written below
+    if (!this.kdf) {
+      this.kdf = { ...SCRYPT_PARAMS, salt: crypto.randomBytes(16) };
+      this.derivedKey = undefined;
+    }
+
+    const key = this.deriveKey(this.kdf);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(secrets), "utf8"),
+      cipher.final(),
+    ]);
+
+    const file: EncryptedSecretsFile = {
+      ciphertext: ciphertext.toString("base64"),
+      iv: iv.toString("base64"),
+      kdf: {
+        N: this.kdf.N,
+        name: "scrypt",
+        p: this.kdf.p,
+        r: this.kdf.r,
+        salt: this.kdf.salt.toString("base64"),
+      },
+      keys: Object.keys(secrets).sort(),
+      tag: cipher.getAuthTag().toString("base64"),
+      version: 1,
+    };
+
+    // Write to a temporary file first so a failed write never loses secrets
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, `${JSON.stringify(file, null, 2)}\n`, {
+      mode: 0o600,
+    });
+    fs.renameSync(tempPath, this.filePath);
+    this.secrets = secrets;
+  }
+}
+
+/**
+ * Delegates storage to an external program, in the style of git credential
+ * helpers. The helper is run through the shell as `<helper> get|store|erase`
+ * and receives `key=<name>` (and `value=<secret>` for store) on stdin. For
+ * get it prints `value=<secret>`, or nothing if the secret is unknown.
+ */
+export class HelperSecretStore implements SecretStore {
+  readonly backend = "helper";
+
+  private cache = new Map<string, string | undefined>();
+
+  constructor(private readonly command: string) {}
+
+  delete(key: string): void {
+    this.run("erase", { key });
+    this.cache.set(key, undefined);
+  }
+
+  get(key: string): string | undefined {
+    if (this.cache.has(key)) return this.cache.get(key);
+
+    const output = this.run("get", { key });
+    const value = parseHelperOutput(output).value || undefined;
+    this.cache.set(key, value);
+    return value;
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  set(key: string, value: string): void {
+    this.run("store", { key, value });
+    this.cache.set(key, value);
+  }
+
+  private run(operation: string, fields: Record<string, string>): string {
+    const input = Object.entries(fields)
+      .map(([name, value]) => `${name}=${value}\n`)
+      .join("");
+    const result = spawnSync(`${this.command} ${operation}`, {
+      encoding: "utf8",
+      input: `${input}\n`,
+      shell: true,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    if (result.error) {
+      throw new SecretStoreError(
+        `Unable to run secret helper "${this.command}": ${result.error.message}`,
+      );
+    }
+
+    if (result.status !== 0) {
+      const detail = result.stderr?.trim();
+      throw new SecretStoreError(
+        `Secret helper "${this.command} ${operation}" exited with status ${result.status}${detail ? `: ${detail}` : ""}`,
+      );
+    }
+
+    return result.stdout ?? "";
+  }
+}
+
+/**
+ * Parse the `name=value` lines printed by a secret helper
+ */
+export function parseHelperOutput(output: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of output.split(/\r?\n/)) {
+    const separator = line.indexOf("=");
+    if (separator > 0) {
+      fields[line.slice(0, separator)] = line.slice(separator + 1);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Create the store for the given settings, or undefined when secrets are
+ * kept in the config file
+ */
+export function createSecretStore(
+  settings: SecretStoreSettings,
+  configDir: string,
+): SecretStore | undefined {
+  switch (settings.backend) {
+    case "config": {
+      return undefined;
+    }
+
+    case "encrypted-file": {
+      return new EncryptedFileSecretStore(
+        path.join(configDir, ENCRYPTED_SECRETS_FILE),
+      );
+    }
+
+    case "helper": {
+      if (!settings.helper) {
+        throw new SecretStoreError(
+          'The helper secret store needs a helper command. Set "helper" in the [secrets] section of the config',
+        );
+      }
+
+      return new HelperSecretStore(settings.helper);
+    }
+
+    default: {
+      throw new SecretStoreError(
+        `Unknown secret store backend "${settings.backend as string}". Use one of ${SECRET_STORE_BACKENDS.join(", ")}`,
+      );
+    }
+  }
+}
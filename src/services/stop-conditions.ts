@@ -0,0 +1,81 @@
+import { Flags } from "@oclif/core";
+
+import { getPath } from "./output-formatter.js";
+
+/**
+ * Flags for long-running subscribe commands, which otherwise run until
+ * Ctrl+C. Whichever condition is met first stops the command.
+ */
+export const stopConditionFlags = {
+  duration: Flags.integer({
+    description:
+      "Stop after this many seconds. Exits with code 9 if --max-messages or --until was given and not met in time",
+    min: 1,
+  }),
+  "max-messages": Flags.integer({
+    description: "Stop after receiving this many events",
+    min: 1,
+  }),
+  until: Flags.string({
+    description:
+      'Stop when an event matches <path>=<value>, where the path is into the event as output with --json (e.g. "data.status=done")',
+  }),
+};
+
+export type StopReason =
+  | "duration"
+  | "interrupted"
+  | "max-messages"
+  | "timeout"
+  | "until";
+
+/**
+ * An --until condition: stop once an event has `value` at `path`
+ */
+export interface UntilCondition {
+  path: string;
+  value: string;
+}
+
+/**
+ * Parse an --until condition of the form `<path>=<value>`, where the path is
+ * a dot path into the event as it is output with --json, e.g. `event=done`
+ * or `data.status=complete`. Returns undefined when the condition is invalid.
+ */
+export function parseUntilCondition(
+  expression: string,
+): UntilCondition | undefined {
+  const separator = expression.indexOf("=");
+  if (separator <= 0) return undefined;
+
+  const path = expression.slice(0, separator).trim();
+  if (!path) return undefined;
+
+  return { path, value: stripQuotes(expression.slice(separator + 1).trim()) };
+}
+
+/**
+ * Whether an event matches an --until condition. Values are compared as
+ * text, so `data.count=3` matches both the number 3 and the string "3".
+ */
+export function matchesUntilCondition(
+  event: unknown,
+  condition: UntilCondition,
+): boolean {
+  const actual = getPath(event, condition.path);
+  if (actual === undefined) return false;
+
+  const text =
+    typeof actual === "object" && actual !== null
+      ? JSON.stringify(actual)
+      : String(actual);
+  return text === condition.value;
+}
+
+function stripQuotes(value: string): string {
+  const quoted =
+    value.length >= 2 &&
+    (value[0] === '"' || value[0] === "'") &&
+    value.at(-1) === value[0];
+  return quoted ? value.slice(1, -1) : value;
+}
@@ -0,0 +1,224 @@
+import jwt from "jsonwebtoken";
+
+import { Capability, parseCapability } from "./capability.js";
+
+/** Clocks may disagree by this much before issue times in the future are flagged */
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface TokenIssue {
+  level: "error" | "warning";
+  message: string;
+}
+
+export type SignatureStatus = "invalid" | "unverified" | "valid";
+
+export interface JwtInspection {
+  capability?: Capability;
+  claims: Record<string, unknown>;
+  clientId?: string;
+  /** Whether the JWT wraps an Ably Token in its x-ably-token claim */
+  embeddedToken: boolean;
+  expiresAt?: string;
+  header: Record<string, unknown>;
+  issuedAt?: string;
+  issues: TokenIssue[];
+  keyName?: string;
+  signature: SignatureStatus;
+  type: "jwt";
+}
+
+export interface JwtInspectionOptions {
+  /** API key (APP_ID.KEY_ID:SECRET) to verify the signature with */
+  apiKey?: string;
+  /** Client ID the token is meant to be used with */
+  clientId?: string;
+  /** Current time in milliseconds, for tests */
+  now?: number;
+}
+
+/** Descriptions of the Ably error codes returned when a token is rejected */
+const TOKEN_ERRORS: Record<number, string> = {
+  40_101: "The token's credentials are invalid",
+  40_102: "The client ID does not match the token's client ID",
+  40_140: "The token was rejected",
+  40_141: "The token has been revoked",
+  40_142: "The token has expired",
+  40_143: "The token is not recognised",
+  40_144: "The token is not a valid JWT",
+  40_160: "The token does not allow this operation",
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function secondsToIso(seconds: unknown): string | undefined {
+  return typeof seconds === "number"
+    ? new Date(seconds * 1000).toISOString()
+    : undefined;
+}
+
+/**
+ * Whether a token string is a JWT rather than an opaque Ably Token
+ */
+export function isJwt(token: string): boolean {
+  const decoded = jwt.decode(token.trim(), { complete: true });
+  return decoded !== null && isPlainObject(decoded.payload);
+}
+
+/**
+ * Whether an Ably error code means the token itself was rejected, rather
+ * than Ably being unreachable
+ */
+export function isTokenError(code: number | undefined): boolean {
+  return code !== undefined && code >= 40_100 && code < 40_200;
+}
+
+/**
+ * Describe why Ably rejected a token, given the error code it returned
+ */
+export function describeTokenError(code: number | undefined): string {
+  return (code !== undefined && TOKEN_ERRORS[code]) || "The token was rejected";
+}
+
+/**
+ * Decode a JWT and check it for the mistakes that most often stop Ably
+ * accepting it. The signature is only checked when an API key with a
+ * matching key name is given.
+ */
+export function inspectJwt(
+  token: string,
+  options: JwtInspectionOptions = {},
+): JwtInspection {
+  const decoded = jwt.decode(token.trim(), { complete: true });
+  if (!decoded || !isPlainObject(decoded.payload)) {
+    throw new Error("The token is not a JWT");
+  }
+
+  const header = decoded.header as unknown as Record<string, unknown>;
+  const claims = decoded.payload as Record<string, unknown>;
+  const now = (options.now ?? Date.now()) / 1000;
+  const issues: TokenIssue[] = [];
+  const embeddedToken = typeof claims["x-ably-token"] === "string";
+  const keyName = typeof header.kid === "string" ? header.kid : undefined;
+
+  if (header.alg !== "HS256") {
+    issues.push({
+      level: "warning",
+      message: `The token is signed with ${String(header.alg)}; Ably expects JWTs signed with HS256 using the key secret`,
+    });
+  }
+
+  if (!keyName && !embeddedToken) {
+    issues.push({
+      level: "error",
+      message:
+        'The header has no "kid"; it must be the key name (APP_ID.KEY_ID) of the key that signed the token',
+    });
+  }
+
+  let signature: SignatureStatus = "unverified";
+  if (options.apiKey) {
+    const [apiKeyName, secret] = options.apiKey.split(":");
+    if (keyName && keyName !== apiKeyName) {
+      issues.push({
+        level: "error",
+        message: `The token names key ${keyName} in "kid", but the key given is ${apiKeyName}`,
+      });
+    } else if (secret) {
+      try {
+        jwt.verify(token.trim(), secret, { ignoreExpiration: true });
+        signature = "valid";
+      } catch {
+        signature = "invalid";
+        issues.push({
+          level: "error",
+          message: `The signature does not match key ${apiKeyName}`,
+        });
+      }
+    }
+  }
+
+  if (typeof claims.exp === "number") {
+    if (claims.exp <= now) {
+      issues.push({
+        level: "error",
+        message: `The token expired at ${secondsToIso(claims.exp)}`,
+      });
+    }
+  } else {
+    issues.push({
+      level: "warning",
+      message: 'The token has no "exp" claim, so it never expires',
+    });
+  }
+
+  if (typeof claims.nbf === "number" && claims.nbf > now) {
+    issues.push({
+      level: "error",
+      message: `The token is not valid before ${secondsToIso(claims.nbf)}`,
+    });
+  }
+
+  if (typeof claims.iat === "number" && claims.iat > now + CLOCK_SKEW_SECONDS) {
+    issues.push({
+      level: "warning",
+      message: `The token was issued in the future (${secondsToIso(claims.iat)}); check the clock of the server that issued it`,
+    });
+  }
+
+  let capability: Capability | undefined;
+  if (claims["x-ably-capability"] === undefined) {
+    if (!embeddedToken) {
+      issues.push({
+        level: "warning",
+        message:
+          "The token has no x-ably-capability claim, so it gets the full capability of its key",
+      });
+    }
+  } else {
+    try {
+      capability = parseCapability(
+        claims["x-ably-capability"],
+        "capability",
+        (message) => issues.push({ level: "warning", message }),
+      );
+    } catch (error) {
+      issues.push({
+        level: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const clientIdClaim = claims["x-ably-clientId"];
+  const clientId =
+    typeof clientIdClaim === "string" ? clientIdClaim : undefined;
+  if (options.clientId !== undefined && clientId !== "*") {
+    if (clientId === undefined) {
+      issues.push({
+        level: "error",
+        message: `The token has no client ID, so it cannot be used with client ID "${options.clientId}"`,
+      });
+    } else if (clientId !== options.clientId) {
+      issues.push({
+        level: "error",
+        message: `The token's client ID "${clientId}" conflicts with --client-id "${options.clientId}"`,
+      });
+    }
+  }
+
+  return {
+    capability,
+    claims,
+    clientId,
+    embeddedToken,
+    expiresAt: secondsToIso(claims.exp),
+    header,
+    issuedAt: secondsToIso(claims.iat),
+    issues,
+    keyName,
+    signature,
+    type: "jwt",
+  };
+}
@@ -1,5 +1,4 @@
 import { Config } from "@oclif/core";
-import * as Ably from "ably";
 
 /**
  * Base interface for CLI flags.
@@ -20,25 +19,14 @@ export interface BaseFlags {
   verbose?: boolean;
   "web-cli-help"?: boolean;
   format?: string;
+  fields?: string;
+  query?: string;
   "token-only"?: boolean;
   quiet?: boolean;
   app?: string;
   [key: string]: unknown;
 }
 
-/**
- * Error details structure for formatted output
- * Compatible with Ably's ErrorInfo
- */
-export type ErrorDetails =
-  | Ably.ErrorInfo
-  | {
-      code?: number;
-      message?: string;
-      statusCode?: number;
-      [key: string]: unknown;
-    };
-
 /**
  * Command configuration type - using any for now to avoid type conflicts
  */
@@ -0,0 +1,23 @@
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/;
+const DURATION_UNITS: Record<string, number> = {
+  h: 3_600_000,
+  m: 60_000,
+  ms: 1,
+  s: 1000,
+};
+
+/**
+ * Parse a duration given as seconds or with an ms, s, m or h suffix,
+ * returning milliseconds
+ */
+export function parseDuration(value: number | string): number | undefined {
+  if (typeof value === "number") {
+    return value > 0 ? value * 1000 : undefined;
+  }
+
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const ms = Number(match[1]) * DURATION_UNITS[match[2] ?? "s"];
+  return ms > 0 ? ms : undefined;
+}
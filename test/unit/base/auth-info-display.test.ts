@@ -208,6 +208,22 @@ describe("Auth Info Display", function() {
       expect(outputWithUsingPrefix).to.include('App=');
       expect(outputWithUsingPrefix).to.include('Key=');
     });
+
+    it("should show where each value came from", function() {
+      shouldHideAccountInfoStub.returns(false);
+      configManagerStub.getPinnedSetting.withArgs("account").returns({ source: "project", value: "work" });
+      configManagerStub.getPinnedSetting.withArgs("environment").returns({ profile: "staging", source: "global", value: "sandbox" });
+
+      command.testDisplayAuthInfo({ app: "test-app-id", "client-id": "ci" });
+
+      const outputCalls = logStub.getCalls().map(call => call.args[0]);
+      const outputWithUsingPrefix = outputCalls.find(output => typeof output === 'string' && output.includes('Using:'));
+      expect(outputWithUsingPrefix).to.match(/Account=.*\[project\]/);
+      expect(outputWithUsingPrefix).to.match(/App=.*\[flag\]/);
+      expect(outputWithUsingPrefix).to.match(/Key=.*\[global\]/);
+      expect(outputWithUsingPrefix).to.match(/Env=.*sandbox.*\[global profile staging\]/);
+      expect(outputWithUsingPrefix).to.match(/Client=.*ci.*\[flag\]/);
+    });
   });
 
   describe("showAuthInfoIfNeeded", function() {
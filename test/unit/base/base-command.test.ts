@@ -22,6 +22,14 @@ class TestCommand extends AblyBaseCommand {
     return this.shouldOutputJson(flags);
   }
 
+  public testGetOutputFormat(flags: BaseFlags) {
+    return this.getOutputFormat(flags);
+  }
+
+  public testShouldSuppressOutput(flags: BaseFlags): boolean {
+    return this.shouldSuppressOutput(flags);
+  }
+
   public testParseApiKey(apiKey: string) {
     return this.parseApiKey(apiKey);
   }
@@ -30,6 +38,14 @@ class TestCommand extends AblyBaseCommand {
     return this.ensureAppAndKey(flags);
   }
 
+  public testSetupStopConditions(flags: BaseFlags, stop: () => void): void {
+    this.setupStopConditions(flags, stop);
+  }
+
+  public testCheckStopConditions(flags: BaseFlags, event: unknown): void {
+    this.checkStopConditions(flags, event);
+  }
+
   // Make protected properties accessible for testing
   public get testConfigManager(): ConfigManager {
     return this.configManager;
@@ -179,6 +195,100 @@ describe("AblyBaseCommand", function() {
     });
   });
 
+  describe("getOutputFormat", function() {
+    it("should use the command's own output by default", function() {
+      expect(command.testGetOutputFormat({})).to.be.undefined;
+      expect(command.testShouldSuppressOutput({})).to.be.false;
+    });
+
+    it("should prefer the JSON flags over --format", function() {
+      expect(command.testGetOutputFormat({ format: "csv", json: true })).to.equal("json");
+      expect(command.testShouldSuppressOutput({ json: true })).to.be.false;
+    });
+
+    it("should default to a table for --fields and JSON for --query", function() {
+      expect(command.testGetOutputFormat({ fields: "id" })).to.equal("table");
+      expect(command.testGetOutputFormat({ query: ".apps" })).to.equal("json");
+      expect(command.testGetOutputFormat({ format: "yaml", query: ".apps" })).to.equal("yaml");
+    });
+
+    it("should suppress status messages for formats other than JSON", function() {
+      expect(command.testShouldSuppressOutput({ format: "csv" })).to.be.true;
+      expect(command.testShouldSuppressOutput({ query: ".apps" })).to.be.true;
+    });
+  });
+
+  describe("stop conditions", function() {
+    let clock: sinon.SinonFakeTimers;
+    let originalExitCode: typeof process.exitCode;
+
+    beforeEach(function() {
+      clock = sandbox.useFakeTimers();
+      originalExitCode = process.exitCode;
+    });
+
+    afterEach(function() {
+      process.exitCode = originalExitCode;
+    });
+
+    it("should stop after --max-messages events", function() {
+      const stop = sandbox.stub();
+      const flags: BaseFlags = { "max-messages": 2 };
+      command.testSetupStopConditions(flags, stop);
+
+      command.testCheckStopConditions(flags, { event: "a" });
+      expect(stop.called).to.be.false;
+      command.testCheckStopConditions(flags, { event: "b" });
+      command.testCheckStopConditions(flags, { event: "c" });
+      expect(stop.calledOnce).to.be.true;
+    });
+
+    it("should stop when an event matches --until", function() {
+      const stop = sandbox.stub();
+      const flags: BaseFlags = { until: "data.status=done" };
+      command.testSetupStopConditions(flags, stop);
+
+      command.testCheckStopConditions(flags, { data: { status: "pending" } });
+      expect(stop.called).to.be.false;
+      command.testCheckStopConditions(flags, { data: { status: "done" } });
+      expect(stop.calledOnce).to.be.true;
+    });
+
+    it("should stop after --duration without an error when nothing else was asked for", function() {
+      const stop = sandbox.stub();
+      command.testSetupStopConditions({ duration: 5 }, stop);
+
+      clock.tick(4999);
+      expect(stop.called).to.be.false;
+      clock.tick(1);
+      expect(stop.calledOnce).to.be.true;
+      expect(process.exitCode).to.equal(originalExitCode);
+    });
+
+    it("should report a timeout when --until is not matched within --duration", function() {
+      const stop = sandbox.stub();
+      const logStub = sandbox.stub(command, "log");
+      const flags: BaseFlags = { duration: 2, json: true, until: "event=done" };
+      command.testSetupStopConditions(flags, stop);
+
+      command.testCheckStopConditions(flags, { event: "other" });
+      clock.tick(2000);
+
+      expect(stop.calledOnce).to.be.true;
+      expect(process.exitCode).to.equal(9);
+      const output = JSON.parse(logStub.firstCall.args[0] as string);
+      expect(output.success).to.be.false;
+      expect(output.error.category).to.equal("timeout");
+      expect(output.error.message).to.include('--until "event=done"');
+    });
+
+    it("should reject an invalid --until condition", function() {
+      expect(() =>
+        command.testSetupStopConditions({ until: "done" }, sandbox.stub()),
+      ).to.throw(/Invalid --until condition/);
+    });
+  });
+
   describe("parseApiKey", function() {
     it("should correctly parse a valid API key", function() {
       const validKey = "appId.keyId:keySecret";
@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { Config } from "@oclif/core";
+import nock from "nock";
+import sinon from "sinon";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import AppsImportCommand from "../../../../src/commands/apps/import.js";
+
+class TestableAppsImport extends AppsImportCommand {
+  public logOutput: string[] = [];
+
+  public override log(message?: string): void {
+    if (message !== undefined) {
+      this.logOutput.push(message);
+    }
+  }
+
+  public stubConfirm(confirmed: boolean): sinon.SinonStub {
+    return sinon.stub(this.interactiveHelper, "confirm").resolves(confirmed);
+  }
+}
+
+describe("apps:import command", function () {
+  let config: Config;
+  let tempDir: string;
+  let manifestPath: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-apps-import-"));
+    manifestPath = path.join(tempDir, "production.yaml");
+    fs.writeFileSync(
+      manifestPath,
+      'version: 1\nkeys:\n  - name: web\n  - name: ""\n',
+    );
+    originalConfigDir = process.env.ABLY_CLI_CONFIG_DIR;
+    process.env.ABLY_CLI_CONFIG_DIR = tempDir;
+    process.env.ABLY_ACCESS_TOKEN = "fake_access_token";
+  });
+
+  afterEach(function () {
+    sinon.restore();
+    nock.cleanAll();
+    delete process.env.ABLY_ACCESS_TOKEN;
+    if (originalConfigDir === undefined) {
+      delete process.env.ABLY_CLI_CONFIG_DIR;
+    } else {
+      process.env.ABLY_CLI_CONFIG_DIR = originalConfigDir;
+    }
+
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  it("should not create the app when the plan is declined", async function () {
+    const command = new TestableAppsImport(
+      ["-f", manifestPath, "--create-app", "Staging"],
+      config,
+    );
+    const confirm = command.stubConfirm(false);
+
+    await command.run();
+
+    expect(confirm.calledOnce).to.be.true;
+    const output = command.logOutput.join("\n");
+    expect(output).to.include("app Staging");
+    expect(output).to.include("Apply cancelled");
+  });
+
+  it("should create the app once confirmed and leave unnamed keys alone", async function () {
+    const scope = nock("https://control.ably.net")
+      .get("/v1/me")
+      .reply(200, { account: { id: "account-id" }, user: {} })
+      .post("/v1/accounts/account-id/apps", { name: "Staging" })
+      .reply(201, { id: "new-app-id", name: "Staging" })
+      .post("/v1/apps/new-app-id/keys", { name: "web" })
+      .reply(201, { appId: "new-app-id", id: "keyid", name: "web" });
+    const command = new TestableAppsImport(
+      ["-f", manifestPath, "--create-app", "Staging", "--force"],
+      config,
+    );
+
+    await command.run();
+
+    expect(scope.isDone()).to.be.true;
+    const output = command.logOutput.join("\n");
+    expect(output).to.include("create app Staging (new-app-id)");
+    expect(output).to.include("the key in the manifest has no name");
+    expect(output).to.include("Applied 1 change(s) to app new-app-id");
+  });
+});
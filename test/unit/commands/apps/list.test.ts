@@ -201,18 +201,24 @@ describe('apps:list command', () => {
       })
       .it('should handle 500 server error');
 
+    let networkAttempts = 0;
     test
       .do(() => {
-        // Mock network error
+        // A network error without a transient error code is not retried
+        networkAttempts = 0;
         nock('https://control.ably.net')
           .get('/v1/me')
-          .replyWithError('Network error');
+          .replyWithError('Network error')
+          .on('request', () => {
+            networkAttempts++;
+          });
       })
       .command(['apps:list'])
       .catch(error => {
         expect(error.message).to.include('Network error');
+        expect(networkAttempts).to.equal(1);
       })
-      .it('should handle network errors');
+      .it('should handle network errors without retrying');
 
     test
       .do(() => {
@@ -224,10 +230,11 @@ describe('apps:list command', () => {
             user: { email: 'test@example.com' }
           });
 
-        // Mock rate limit error
+        // Mock a rate limit error that persists through every retry
         nock('https://control.ably.net')
           .get(`/v1/accounts/${mockAccountId}/apps`)
-          .reply(429, { error: 'Rate limit exceeded' });
+          .times(4)
+          .reply(429, { error: 'Rate limit exceeded' }, { 'Retry-After': '0' });
       })
       .command(['apps:list'])
       .catch(error => {
@@ -264,11 +271,25 @@ describe('apps:list command', () => {
           .reply(200, largeAppsList, {
             'Link': '<https://control.ably.net/v1/accounts/test-account-id/apps?limit=100&offset=100>; rel="next"'
           });
+
+        nock('https://control.ably.net')
+          .get(`/v1/accounts/${mockAccountId}/apps`)
+          .query({ limit: '100', offset: '100' })
+          .reply(200, [{
+            id: '550e8400-e29b-41d4-a716-446655449999',
+            accountId: mockAccountId,
+            name: 'Test App From Second Page',
+            status: 'active',
+            created: 1640995200000,
+            modified: 1640995200000,
+            tlsOnly: false
+          }]);
       })
       .command(['apps:list'])
-      .it('should handle large lists', ctx => {
+      .it('should follow Link headers to fetch every page', ctx => {
         expect(ctx.stdout).to.include('Test App 1');
         expect(ctx.stdout).to.include('Test App 100');
+        expect(ctx.stdout).to.include('Test App From Second Page');
       });
   });
 });
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { expect } from "chai";
+import sinon from "sinon";
+import { Config } from "@oclif/core";
+import AppsLogsSubscribe from "../../../../../src/commands/apps/logs/subscribe.js";
+
+describe("AppsLogsSubscribe", function () {
+  let config: Config;
+  let runCommandStub: sinon.SinonStub;
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+    runCommandStub = sinon.stub(config, "runCommand").resolves();
+  });
+
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  it("should forward stop conditions to logs app subscribe", async function () {
+    const command = new AppsLogsSubscribe(
+      ["--duration", "30", "--max-messages", "5", "--until", "data.status=done"],
+      config,
+    );
+
+    await command.run();
+
+    expect(runCommandStub.calledOnce).to.be.true;
+    const [id, argv] = runCommandStub.firstCall.args;
+    expect(id).to.equal("logs:app:subscribe");
+    expect(argv).to.include.members(["--duration", "30", "--max-messages", "5"]);
+    expect(argv[argv.indexOf("--until") + 1]).to.equal("data.status=done");
+  });
+
+  it("should leave out stop conditions that were not given", async function () {
+    await new AppsLogsSubscribe([], config).run();
+
+    const argv: string[] = runCommandStub.firstCall.args[1];
+    expect(argv).to.not.include("--duration");
+    expect(argv).to.not.include("--max-messages");
+    expect(argv).to.not.include("--until");
+  });
+});
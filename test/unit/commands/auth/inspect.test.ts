@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { Config } from "@oclif/core";
+import jwt from "jsonwebtoken";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import AuthInspectCommand from "../../../../src/commands/auth/inspect.js";
+
+class TestableAuthInspect extends AuthInspectCommand {
+  public logOutput: string[] = [];
+
+  public override log(message?: string): void {
+    if (message !== undefined) {
+      this.logOutput.push(message);
+    }
+  }
+}
+
+describe("auth:inspect command", function () {
+  let config: Config;
+  let tempDir: string;
+  let token: string;
+  let envBackup: Record<string, string | undefined>;
+
+  async function inspect(): Promise<Record<string, unknown>> {
+    const command = new TestableAuthInspect([token, "--json"], config);
+    await command.run();
+    return JSON.parse(command.logOutput.join("\n"));
+  }
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+    token = jwt.sign(
+      { "x-ably-capability": '{"*":["subscribe"]}' },
+      "signing-secret",
+      { expiresIn: "1h", keyid: "appId.signing" },
+    );
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-auth-inspect-"));
+    envBackup = {
+      ABLY_API_KEY: process.env.ABLY_API_KEY,
+      ABLY_CLI_CONFIG_DIR: process.env.ABLY_CLI_CONFIG_DIR,
+    };
+    process.env.ABLY_CLI_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(function () {
+    for (const [name, value] of Object.entries(envBackup)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  it("should verify the signature with ABLY_API_KEY when it is the key in kid", async function () {
+    process.env.ABLY_API_KEY = "appId.signing:signing-secret";
+
+    const result = await inspect();
+
+    expect(result).to.include({ signature: "valid", valid: true });
+  });
+
+  it("should not verify the signature with an unrelated ABLY_API_KEY", async function () {
+    process.env.ABLY_API_KEY = "appId.other:other-secret";
+
+    const result = await inspect();
+
+    expect(result).to.include({ signature: "unverified", valid: true });
+  });
+});
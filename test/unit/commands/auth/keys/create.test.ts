@@ -268,10 +268,11 @@ describe('auth:keys:create command', () => {
 
     test
       .do(() => {
-        // Mock rate limit error
+        // Mock a rate limit error that persists through every retry
         nock('https://control.ably.net')
           .post(`/v1/apps/${mockAppId}/keys`)
-          .reply(429, { error: 'Rate limit exceeded' });
+          .times(4)
+          .reply(429, { error: 'Rate limit exceeded' }, { 'Retry-After': '0' });
       })
       .command(['auth:keys:create', '--name', mockKeyName, '--app', mockAppId])
       .catch(error => {
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { Config } from "@oclif/core";
+import nock from "nock";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import KeysRotateCommand from "../../../../../src/commands/auth/keys/rotate.js";
+
+class TestableKeysRotate extends KeysRotateCommand {
+  public logOutput: string[] = [];
+
+  public override log(message?: string): void {
+    if (message) {
+      this.logOutput.push(message);
+    }
+  }
+}
+
+describe("auth:keys:rotate command", function () {
+  const appId = "550e8400-e29b-41d4-a716-446655440000";
+  const oldKey = {
+    appId,
+    capability: { "*": ["subscribe"] },
+    created: 1,
+    id: "oldkey",
+    key: `${appId}.oldkey:old-secret`,
+    modified: 1,
+    name: "web",
+    revocable: true,
+    status: 0,
+  };
+  const newKey = { ...oldKey, id: "newkey", key: `${appId}.newkey:new-secret` };
+
+  let config: Config;
+  let tempDir: string;
+  let auditLog: string;
+  let originalConfigDir: string | undefined;
+
+  function readAudit(): Record<string, unknown>[] {
+    return fs
+      .readFileSync(auditLog, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+  }
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-keys-rotate-"));
+    auditLog = path.join(tempDir, "rotations.jsonl");
+    originalConfigDir = process.env.ABLY_CLI_CONFIG_DIR;
+    process.env.ABLY_CLI_CONFIG_DIR = tempDir;
+    process.env.ABLY_ACCESS_TOKEN = "fake_access_token";
+
+    nock("https://control.ably.net")
+      .get(`/v1/apps/${appId}/keys/oldkey`)
+      .reply(200, oldKey)
+      .post(`/v1/apps/${appId}/keys`, {
+        capability: oldKey.capability,
+        name: "web",
+      })
+      .reply(201, newKey);
+  });
+
+  afterEach(function () {
+    nock.cleanAll();
+    delete process.env.ABLY_ACCESS_TOKEN;
+    if (originalConfigDir === undefined) {
+      delete process.env.ABLY_CLI_CONFIG_DIR;
+    } else {
+      process.env.ABLY_CLI_CONFIG_DIR = originalConfigDir;
+    }
+
+    fs.rmSync(tempDir, { force: true, recursive: true });
+    process.exitCode = undefined;
+  });
+
+  it("should record the rotation and show the new key before a failed revoke", async function () {
+    nock("https://control.ably.net")
+      .delete(`/v1/apps/${appId}/keys/oldkey`)
+      .reply(403, { code: 40_300, message: "Forbidden" });
+    const command = new TestableKeysRotate(
+      [`${appId}.oldkey`, "--revoke", "--audit-log", auditLog],
+      config,
+    );
+
+    const error = await command.run().catch((error_: Error) => error_);
+
+    expect((error as Error).message).to.include(
+      `Key ${appId}.newkey is in place, but revoking the old key ${appId}.oldkey failed`,
+    );
+    expect(command.logOutput.join("\n")).to.include(`New key: ${newKey.key}`);
+    const records = readAudit();
+    expect(records).to.have.length(1);
+    expect(records[0]).to.deep.include({
+      action: "key.rotate",
+      newKey: { keyName: `${appId}.newkey`, label: "web" },
+      oldKey: { keyName: `${appId}.oldkey`, label: "web" },
+    });
+    expect(fs.readFileSync(auditLog, "utf8")).not.to.include("secret");
+  });
+
+  it("should append a revoke record once the old key is revoked", async function () {
+    nock("https://control.ably.net")
+      .delete(`/v1/apps/${appId}/keys/oldkey`)
+      .reply(204);
+    const command = new TestableKeysRotate(
+      [`${appId}.oldkey`, "--revoke", "--audit-log", auditLog, "--json"],
+      config,
+    );
+
+    await command.run();
+
+    expect(readAudit().map((record) => record.action)).to.deep.equal([
+      "key.rotate",
+      "key.revoke",
+    ]);
+    const [rotation, revocation] = command.logOutput.map((line) =>
+      JSON.parse(line),
+    );
+    expect(rotation.key.key).to.equal(newKey.key);
+    expect(revocation.audit).to.include({
+      action: "key.revoke",
+      keyName: `${appId}.oldkey`,
+      replacedBy: `${appId}.newkey`,
+    });
+  });
+});
@@ -77,6 +77,8 @@ describe("bench publisher control envelopes", function () {
         transport: "realtime",
         messages: 2,
         rate: 2,
+        "max-messages": 10_000,
+        "max-rate": 20,
         "message-size": 50,
         "wait-for-subscribers": false,
       },
@@ -106,4 +108,32 @@ describe("bench publisher control envelopes", function () {
     const lastPayload = publishedPayloads.at(-1);
     expect(lastPayload).to.have.property("type", "end");
   });
-}); 
\ No newline at end of file
+
+  it("should cap messages at --max-messages and warn", async function () {
+    const warnStub = sandbox.stub(command, "warn");
+    command.setParseResult({
+      flags: {
+        transport: "realtime",
+        messages: 5,
+        rate: 2,
+        "max-messages": 2,
+        "max-rate": 20,
+        "message-size": 50,
+        "wait-for-subscribers": false,
+      },
+      args: { channel: "test-channel" },
+      argv: [],
+      raw: [],
+    });
+
+    await command.run();
+
+    const messagePayloads = publishStub
+      .getCalls()
+      .map((c) => c.args[1])
+      .filter((p) => p.type === "message");
+    expect(messagePayloads).to.have.length(2);
+    expect(warnStub.calledOnce).to.be.true;
+    expect(warnStub.firstCall.args[0]).to.include("--max-messages");
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import { Config } from "@oclif/core";
+import sinon from "sinon";
+import type * as Ably from "ably";
+
+import ChannelsRecord from "../../../../src/commands/channels/record.js";
+
+class TestableChannelsRecord extends ChannelsRecord {
+  public request = sinon.stub();
+
+  public expand(patterns: string[]): Promise<string[]> {
+    return this["expandChannelNames"](patterns, {});
+  }
+
+  protected override createAblyRestClient(): Ably.Rest {
+    return { request: this.request } as unknown as Ably.Rest;
+  }
+}
+
+/** A page of GET /channels results, optionally followed by another */
+function channelsPage(channelIds: string[], next?: object) {
+  return {
+    hasNext: () => next !== undefined,
+    items: channelIds.map((channelId) => ({ channelId })),
+    next: async () => next ?? null,
+    statusCode: 200,
+  };
+}
+
+describe("channels:record command", function () {
+  let config: Config;
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+  });
+
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  it("should expand wildcard patterns across every page of active channels", async function () {
+    const command = new TestableChannelsRecord([], config);
+    command.request.resolves(
+      channelsPage(
+        ["orders:1", "other"],
+        channelsPage(["orders:2"], channelsPage(["orders:3"])),
+      ),
+    );
+
+    const names = await command.expand(["orders:*", "audit"]);
+
+    expect(names).to.deep.equal(["orders:1", "orders:2", "orders:3", "audit"]);
+    expect(command.request.firstCall.args.slice(0, 4)).to.deep.equal([
+      "get",
+      "/channels",
+      2,
+      { prefix: "orders:" },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import { Config } from "@oclif/core";
+import sinon from "sinon";
+import type * as Ably from "ably";
+
+import PushDevicesRemove from "../../../../../src/commands/push/devices/remove.js";
+
+class TestablePushDevicesRemove extends PushDevicesRemove {
+  public logOutput: string[] = [];
+  public removeWhere = sinon.stub().resolves();
+
+  public override log(message?: string): void {
+    if (message !== undefined) {
+      this.logOutput.push(message);
+    }
+  }
+
+  public stubConfirm(confirmed: boolean): sinon.SinonStub {
+    return sinon.stub(this.interactiveHelper, "confirm").resolves(confirmed);
+  }
+
+  protected override async createPushAdmin(): Promise<Ably.PushAdmin> {
+    return {
+      deviceRegistrations: { removeWhere: this.removeWhere },
+    } as unknown as Ably.PushAdmin;
+  }
+}
+
+describe("push:devices:remove command", function () {
+  let config: Config;
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+  });
+
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  it("should not remove a client's devices when the prompt is declined", async function () {
+    const command = new TestablePushDevicesRemove(
+      ["--client", "user-1"],
+      config,
+    );
+    const confirm = command.stubConfirm(false);
+
+    await command.run();
+
+    expect(confirm.calledOnce).to.be.true;
+    expect(confirm.firstCall.args[0]).to.include('"user-1"');
+    expect(command.removeWhere.called).to.be.false;
+    expect(command.logOutput).to.include("Removal cancelled");
+  });
+
+  it("should remove a client's devices without asking when --force is given", async function () {
+    const command = new TestablePushDevicesRemove(
+      ["--client", "user-1", "--force"],
+      config,
+    );
+    const confirm = command.stubConfirm(false);
+
+    await command.run();
+
+    expect(confirm.called).to.be.false;
+    expect(command.removeWhere.calledOnceWith({ clientId: "user-1" })).to.be
+      .true;
+  });
+});
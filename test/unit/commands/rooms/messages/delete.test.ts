@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import sinon from "sinon";
+import { Config } from "@oclif/core";
+import MessagesDelete from "../../../../../src/commands/rooms/messages/delete.js";
+
+// Runs the real command against a mock Chat client
+class TestableMessagesDelete extends MessagesDelete {
+  public logOutput: string[] = [];
+  public mockChatClient: any = null;
+
+  public override log(message?: string): void {
+    if (message) {
+      this.logOutput.push(message);
+    }
+  }
+
+  protected override async createChatClient(_flags: any): Promise<any> {
+    return this.mockChatClient;
+  }
+}
+
+describe("MessagesDelete", function () {
+  const serial = "01826232498871-001@abcdefghij:001";
+  let config: Config;
+  let deleteStub: sinon.SinonStub;
+  let releaseStub: sinon.SinonStub;
+  let mockChatClient: any;
+
+  function createCommand(argv: string[]): TestableMessagesDelete {
+    const command = new TestableMessagesDelete(argv, config);
+    command.mockChatClient = mockChatClient;
+    return command;
+  }
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+    deleteStub = sinon.stub().resolves({
+      action: "message.delete",
+      serial,
+      timestamp: new Date(0),
+      version: "01826232498871-002@abcdefghij:002",
+    });
+    releaseStub = sinon.stub().resolves();
+    mockChatClient = {
+      realtime: { close: sinon.stub(), connection: { state: "connected" } },
+      rooms: {
+        get: sinon.stub().resolves({
+          messages: {
+            delete: deleteStub,
+            get: sinon
+              .stub()
+              .resolves({
+                hasNext: () => false,
+                items: [{ serial, text: "Hi" }],
+              }),
+          },
+          roomId: "my-room",
+        }),
+        release: releaseStub,
+      },
+    };
+  });
+
+  afterEach(function () {
+    sinon.restore();
+    process.exitCode = undefined;
+  });
+
+  it("should delete the message found by serial with the description", async function () {
+    const command = createCommand(["my-room", serial, "--description", "Spam"]);
+
+    await command.run();
+
+    expect(mockChatClient.rooms.get.calledOnceWith("my-room")).to.be.true;
+    const [message, details] = deleteStub.firstCall.args;
+    expect(message).to.deep.equal({ serial, text: "Hi" });
+    expect(details).to.deep.equal({ description: "Spam" });
+    expect(releaseStub.calledOnceWith("my-room")).to.be.true;
+    expect(command.logOutput.join("\n")).to.include("Deleted message");
+  });
+
+  it("should output the deleted message as JSON", async function () {
+    const command = createCommand(["my-room", serial, "--json"]);
+
+    await command.run();
+
+    const output = JSON.parse(command.logOutput.at(-1)!);
+    expect(output.success).to.be.true;
+    expect(output.roomId).to.equal("my-room");
+    expect(output.message).to.include({
+      action: "message.delete",
+      serial,
+      version: "01826232498871-002@abcdefghij:002",
+    });
+  });
+
+  it("should fail when the Chat client cannot be created", async function () {
+    mockChatClient = null;
+    const command = createCommand(["my-room", serial]);
+
+    try {
+      await command.run();
+      expect.fail("Command should have failed");
+    } catch (error) {
+      expect((error as Error).message).to.include(
+        "Failed to create Chat client",
+      );
+    }
+  });
+
+  it("should fail with the Ably error when the delete is rejected", async function () {
+    deleteStub.rejects(
+      Object.assign(new Error("Unable to delete message"), {
+        code: 40_300,
+        statusCode: 403,
+      }),
+    );
+    const command = createCommand(["my-room", serial]);
+
+    try {
+      await command.run();
+      expect.fail("Command should have failed");
+    } catch (error) {
+      expect((error as Error).message).to.equal(
+        "Failed to delete message: Unable to delete message",
+      );
+    }
+
+    expect(releaseStub.called).to.be.false;
+  });
+
+  it("should output an error envelope in JSON mode", async function () {
+    deleteStub.rejects(
+      Object.assign(new Error("Unable to delete message"), {
+        code: 40_300,
+        statusCode: 403,
+      }),
+    );
+    const command = createCommand(["my-room", serial, "--json"]);
+
+    const error = await command.run().catch((error_: Error) => error_);
+    await command.catch(error as Error).catch(() => {});
+
+    const output = JSON.parse(command.logOutput.at(-1)!);
+    expect(output.success).to.be.false;
+    expect(output.error).to.include({
+      category: "auth",
+      code: 40_300,
+      message: "Failed to delete message: Unable to delete message",
+    });
+  });
+});
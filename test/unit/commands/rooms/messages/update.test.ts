@@ -0,0 +1,285 @@
+import { expect } from "chai";
+import sinon from "sinon";
+import { Config } from "@oclif/core";
+import MessagesUpdate from "../../../../../src/commands/rooms/messages/update.js";
+
+// Runs the real command against a mock Chat client
+class TestableMessagesUpdate extends MessagesUpdate {
+  public logOutput: string[] = [];
+  public mockChatClient: any = null;
+
+  public override log(message?: string): void {
+    if (message) {
+      this.logOutput.push(message);
+    }
+  }
+
+  protected override async createChatClient(_flags: any): Promise<any> {
+    return this.mockChatClient;
+  }
+}
+
+// A message from history, whose copy() works like the Chat SDK's
+function historyMessage(fields: Record<string, unknown>): any {
+  return {
+    ...fields,
+    copy: (params: Record<string, unknown> = {}) => ({ ...fields, ...params }),
+  };
+}
+
+describe("MessagesUpdate", function () {
+  const serial = "01826232498871-001@abcdefghij:001";
+  let config: Config;
+  let getStub: sinon.SinonStub;
+  let updateStub: sinon.SinonStub;
+  let releaseStub: sinon.SinonStub;
+  let mockChatClient: any;
+
+  function createCommand(argv: string[]): TestableMessagesUpdate {
+    const command = new TestableMessagesUpdate(argv, config);
+    command.mockChatClient = mockChatClient;
+    return command;
+  }
+
+  beforeEach(async function () {
+    config = await Config.load(process.cwd());
+    updateStub = sinon.stub().resolves({
+      action: "message.update",
+      headers: { lang: "en" },
+      metadata: { isImportant: true },
+      serial,
+      text: "Hello, edited",
+      timestamp: new Date(0),
+      version: "01826232498871-002@abcdefghij:002",
+    });
+    getStub = sinon.stub().resolves({
+      hasNext: () => false,
+      items: [
+        historyMessage({ serial: "other", text: "Other" }),
+        historyMessage({
+          headers: { lang: "fr" },
+          metadata: { pinned: true },
+          serial,
+          text: "Hello",
+        }),
+      ],
+    });
+    releaseStub = sinon.stub().resolves();
+    mockChatClient = {
+      realtime: { close: sinon.stub(), connection: { state: "connected" } },
+      rooms: {
+        get: sinon.stub().resolves({
+          messages: { get: getStub, update: updateStub },
+          roomId: "my-room",
+        }),
+        release: releaseStub,
+      },
+    };
+  });
+
+  afterEach(function () {
+    sinon.restore();
+    process.exitCode = undefined;
+  });
+
+  it("should send the new text, metadata and headers with the description", async function () {
+    const command = createCommand([
+      "my-room",
+      serial,
+      "Hello, edited",
+      "--metadata",
+      '{"isImportant":true}',
+      "--headers",
+      '{"lang":"en"}',
+      "--description",
+      "Fixed a typo",
+    ]);
+
+    await command.run();
+
+    expect(mockChatClient.rooms.get.calledOnceWith("my-room")).to.be.true;
+    const [message, details] = updateStub.firstCall.args;
+    expect(message).to.deep.equal({
+      headers: { lang: "en" },
+      metadata: { isImportant: true },
+      serial,
+      text: "Hello, edited",
+    });
+    expect(details).to.deep.equal({ description: "Fixed a typo" });
+    expect(releaseStub.calledOnceWith("my-room")).to.be.true;
+    expect(command.logOutput.join("\n")).to.include("Updated message");
+  });
+
+  it("should keep the existing metadata and headers when they are not passed", async function () {
+    const command = createCommand(["my-room", serial, "Hello, edited"]);
+
+    await command.run();
+
+    expect(getStub.firstCall.args[0]).to.deep.equal({
+      orderBy: "oldestFirst",
+      start: 1_826_232_498_871,
+    });
+    expect(updateStub.firstCall.args[0]).to.deep.equal({
+      headers: { lang: "fr" },
+      metadata: { pinned: true },
+      serial,
+      text: "Hello, edited",
+    });
+  });
+
+  it("should look for the message on later pages of history", async function () {
+    getStub.resolves({
+      hasNext: () => true,
+      items: [historyMessage({ serial: "other", text: "Other" })],
+      next: sinon.stub().resolves({
+        hasNext: () => false,
+        items: [historyMessage({ serial, text: "Hello" })],
+      }),
+    });
+    const command = createCommand(["my-room", serial, "Hello, edited"]);
+
+    await command.run();
+
+    expect(updateStub.firstCall.args[0]).to.deep.equal({
+      serial,
+      text: "Hello, edited",
+    });
+  });
+
+  it("should fail when the message is not in the room's history", async function () {
+    getStub.resolves({ hasNext: () => false, items: [] });
+    const command = createCommand(["my-room", serial, "Hello", "--json"]);
+
+    const error = await command.run().catch((error_: Error) => error_);
+    await command.catch(error as Error).catch(() => {});
+
+    expect(updateStub.called).to.be.false;
+    const output = JSON.parse(command.logOutput.at(-1)!);
+    expect(output.error).to.include({
+      category: "not-found",
+      message: `Failed to update message: Message ${serial} was not found in room my-room`,
+    });
+  });
+
+  it("should reject headers that are not flat", async function () {
+    const command = createCommand([
+      "my-room",
+      serial,
+      "Hello",
+      "--headers",
+      '{"lang":{"code":"en"}}',
+    ]);
+
+    try {
+      await command.run();
+      expect.fail("Command should have failed");
+    } catch (error) {
+      expect((error as Error).message).to.include(
+        "--headers values must be strings, numbers, booleans or null",
+      );
+    }
+
+    expect(updateStub.called).to.be.false;
+  });
+
+  it("should output the updated message as JSON", async function () {
+    const command = createCommand([
+      "my-room",
+      serial,
+      "Hello, edited",
+      "--json",
+    ]);
+
+    await command.run();
+
+    const output = JSON.parse(command.logOutput.at(-1)!);
+    expect(output.success).to.be.true;
+    expect(output.roomId).to.equal("my-room");
+    expect(output.message).to.include({
+      action: "message.update",
+      serial,
+      text: "Hello, edited",
+      version: "01826232498871-002@abcdefghij:002",
+    });
+  });
+
+  it("should reject metadata that is not a JSON object", async function () {
+    const command = createCommand([
+      "my-room",
+      serial,
+      "Hello",
+      "--metadata",
+      "[1, 2]",
+    ]);
+
+    try {
+      await command.run();
+      expect.fail("Command should have failed");
+    } catch (error) {
+      expect((error as Error).message).to.include(
+        "--metadata must be a JSON object",
+      );
+    }
+
+    expect(updateStub.called).to.be.false;
+  });
+
+  it("should reject headers that are not valid JSON", async function () {
+    const command = createCommand([
+      "my-room",
+      serial,
+      "Hello",
+      "--headers",
+      "{lang",
+    ]);
+
+    try {
+      await command.run();
+      expect.fail("Command should have failed");
+    } catch (error) {
+      expect((error as Error).message).to.include("Invalid --headers JSON");
+    }
+
+    expect(updateStub.called).to.be.false;
+  });
+
+  it("should fail with the Ably error when the update is rejected", async function () {
+    updateStub.rejects(
+      Object.assign(new Error("Message not found"), {
+        code: 40_400,
+        statusCode: 404,
+      }),
+    );
+    const command = createCommand(["my-room", serial, "Hello"]);
+
+    try {
+      await command.run();
+      expect.fail("Command should have failed");
+    } catch (error) {
+      expect((error as Error).message).to.equal(
+        "Failed to update message: Message not found",
+      );
+    }
+  });
+
+  it("should output an error envelope in JSON mode", async function () {
+    updateStub.rejects(
+      Object.assign(new Error("Message not found"), {
+        code: 40_400,
+        statusCode: 404,
+      }),
+    );
+    const command = createCommand(["my-room", serial, "Hello", "--json"]);
+
+    const error = await command.run().catch((error_: Error) => error_);
+    await command.catch(error as Error).catch(() => {});
+
+    const output = JSON.parse(command.logOutput.at(-1)!);
+    expect(output.success).to.be.false;
+    expect(output.error).to.include({
+      category: "not-found",
+      code: 40_400,
+      message: "Failed to update message: Message not found",
+    });
+  });
+});
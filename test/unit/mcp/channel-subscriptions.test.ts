@@ -0,0 +1,236 @@
+import * as Ably from "ably";
+import { expect } from "chai";
+import sinon from "sinon";
+
+import {
+  ChannelSubscriptions,
+  MessageBuffer,
+  liveChannelUri,
+  parseLiveChannelUri,
+} from "../../../src/mcp/channel-subscriptions.js";
+
+/** A Realtime client whose channels deliver messages published in the test */
+function createMockClient() {
+  const listeners = new Map<string, Set<(message: unknown) => void>>();
+  const channels = new Map<string, Record<string, sinon.SinonStub>>();
+  const client = {
+    channels: {
+      get(name: string) {
+        if (!channels.has(name)) {
+          const channelListeners = new Set<(message: unknown) => void>();
+          listeners.set(name, channelListeners);
+          channels.set(name, {
+            detach: sinon.stub().resolves(),
+            subscribe: sinon.stub().callsFake(async (listener) => {
+              channelListeners.add(listener);
+            }),
+            unsubscribe: sinon.stub().callsFake((listener) => {
+              channelListeners.delete(listener);
+            }),
+          });
+        }
+
+        return channels.get(name);
+      },
+    },
+    close: sinon.stub(),
+  };
+
+  return {
+    channel: (name: string) => channels.get(name)!,
+    client: client as unknown as Ably.Realtime,
+    close: client.close,
+    publish(name: string, data: unknown) {
+      for (const listener of listeners.get(name) ?? []) {
+        listener({ data, id: String(data), name: "event" });
+      }
+    },
+  };
+}
+
+function filledBuffer(capacity: number, count: number): MessageBuffer {
+  const buffer = new MessageBuffer(capacity);
+  for (let i = 0; i < count; i++) {
+    buffer.push({ data: i });
+  }
+
+  return buffer;
+}
+
+// Detaching runs after the abort that triggers it
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("channel-subscriptions", function () {
+  describe("live channel URIs", function () {
+    it("should round trip channel names", function () {
+      const uri = liveChannelUri("orders:eu/1");
+      expect(uri).to.equal("ably://channels/orders%3Aeu%2F1/live");
+      expect(parseLiveChannelUri(uri)).to.equal("orders:eu/1");
+      expect(parseLiveChannelUri(`${uri}?cursor=3`)).to.equal("orders:eu/1");
+      expect(parseLiveChannelUri("ably://rooms/lobby/messages")).to.be
+        .undefined;
+    });
+  });
+
+  describe("MessageBuffer", function () {
+    it("should read from a cursor and return the cursor to resume from", function () {
+      const buffer = filledBuffer(10, 5);
+
+      const first = buffer.read(0, 2);
+      expect(first.messages.map((m) => m.data)).to.deep.equal([0, 1]);
+      expect(first.cursor).to.equal(2);
+
+      const rest = buffer.read(first.cursor);
+      expect(rest.messages.map((m) => m.data)).to.deep.equal([2, 3, 4]);
+      expect(rest.cursor).to.equal(5);
+
+      const empty = buffer.read(rest.cursor);
+      expect(empty).to.deep.equal({ cursor: 5, dropped: 0, messages: [] });
+    });
+
+    it("should drop the oldest messages and count them for readers behind", function () {
+      const buffer = filledBuffer(3, 5);
+
+      const read = buffer.read(0);
+      expect(read.messages.map((m) => m.data)).to.deep.equal([2, 3, 4]);
+      expect(read.dropped).to.equal(2);
+      expect(read.cursor).to.equal(5);
+
+      expect(buffer.read(3).dropped).to.equal(0);
+    });
+  });
+
+  describe("ChannelSubscriptions", function () {
+    let mock: ReturnType<typeof createMockClient>;
+    let activeOperations: Set<AbortController>;
+    let notify: sinon.SinonStub;
+    let subscriptions: ChannelSubscriptions;
+    let uri: string;
+
+    beforeEach(function () {
+      uri = liveChannelUri("orders");
+      mock = createMockClient();
+      activeOperations = new Set();
+      notify = sinon.stub().resolves();
+      subscriptions = new ChannelSubscriptions({
+        activeOperations,
+        bufferSize: 3,
+        createClient: () => mock.client,
+        notify,
+      });
+    });
+
+    afterEach(function () {
+      sinon.restore();
+    });
+
+    it("should not attach for a read without a subscription", async function () {
+      const read = await subscriptions.read("orders", 5);
+
+      expect(read).to.deep.equal({
+        channel: "orders",
+        cursor: 5,
+        dropped: 0,
+        messages: [],
+        subscribed: false,
+      });
+      expect(mock.channel("orders")).to.be.undefined;
+      expect(activeOperations.size).to.equal(0);
+    });
+
+    it("should buffer messages while subscribed and read them from a cursor", async function () {
+      await subscriptions.subscribe(uri);
+      mock.publish("orders", 1);
+      mock.publish("orders", 2);
+
+      const first = await subscriptions.read("orders");
+      expect(first.messages.map((m) => m.data)).to.deep.equal([1, 2]);
+      expect(first.subscribed).to.be.true;
+
+      mock.publish("orders", 3);
+      const next = await subscriptions.read("orders", first.cursor);
+      await settle();
+      expect(next.messages.map((m) => m.data)).to.deep.equal([3]);
+      expect(mock.channel("orders").detach.called).to.be.false;
+    });
+
+    it("should report messages dropped when the buffer overflows", async function () {
+      await subscriptions.subscribe(uri);
+      for (let i = 0; i < 5; i++) {
+        mock.publish("orders", i);
+      }
+
+      const read = await subscriptions.read("orders", 0);
+
+      expect(read.messages.map((m) => m.data)).to.deep.equal([2, 3, 4]);
+      expect(read.dropped).to.equal(2);
+    });
+
+    it("should keep the buffer until the last subscription ends", async function () {
+      const cursorUri = `${uri}?cursor=0`;
+      await subscriptions.subscribe(uri);
+      await subscriptions.subscribe(cursorUri);
+      mock.publish("orders", 1);
+
+      await subscriptions.unsubscribe(uri);
+      await settle();
+      expect(mock.channel("orders").detach.called).to.be.false;
+      const read = await subscriptions.read("orders");
+      expect(read.messages.map((m) => m.data)).to.deep.equal([1]);
+
+      await subscriptions.unsubscribe(cursorUri);
+      await settle();
+      expect(mock.channel("orders").detach.calledOnce).to.be.true;
+      expect(mock.close.calledOnce).to.be.true;
+    });
+
+    it("should not detach while a read is waiting for the channel", async function () {
+      let attached!: () => void;
+      mock.client.channels.get("orders");
+      mock.channel("orders").subscribe.callsFake(
+        () =>
+          new Promise<void>((resolve) => {
+            attached = resolve;
+          }),
+      );
+
+      const subscribed = subscriptions.subscribe(uri);
+      const read = subscriptions.read("orders");
+      await subscriptions.unsubscribe(uri);
+      await settle();
+      expect(mock.channel("orders").detach.called).to.be.false;
+
+      attached();
+      await subscribed;
+
+      const result = await read;
+      expect(result.channel).to.equal("orders");
+      await settle();
+      expect(mock.channel("orders").detach.calledOnce).to.be.true;
+    });
+
+    it("should notify subscribers of new messages", async function () {
+      const clock = sinon.useFakeTimers();
+      await subscriptions.subscribe(uri);
+      mock.publish("orders", 1);
+      mock.publish("orders", 2);
+
+      await clock.tickAsync(250);
+
+      expect(notify.calledOnceWith(uri)).to.be.true;
+    });
+
+    it("should refuse to subscribe to other resources", async function () {
+      let error: Error | undefined;
+      try {
+        await subscriptions.subscribe("ably://rooms/lobby/messages");
+      } catch (error_) {
+        error = error_ as Error;
+      }
+
+      expect(error?.message).to.include("Only live channel resources");
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import * as Ably from "ably";
+import { expect } from "chai";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sinon from "sinon";
+
+import { AblyMcpServer } from "../../../src/mcp/mcp-server.js";
+import type { ConfigManager } from "../../../src/services/config-manager.js";
+import {
+  McpPolicyEnforcer,
+  applyPolicyOverrides,
+  defaultPolicy,
+} from "../../../src/services/mcp-policy.js";
+
+describe("AblyMcpServer", function () {
+  let tempDir: string;
+  let configManager: ConfigManager;
+
+  beforeEach(function () {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-mcp-server-"));
+    configManager = {
+      getConfigPath: () => path.join(tempDir, "config"),
+    } as unknown as ConfigManager;
+    sinon.stub(console, "error");
+  });
+
+  afterEach(function () {
+    sinon.restore();
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  async function withClient<T>(
+    options: ConstructorParameters<typeof AblyMcpServer>[1],
+    operation: (client: Client) => Promise<T>,
+  ): Promise<T> {
+    const server = new AblyMcpServer(configManager, options);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    try {
+      return await operation(client);
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  }
+
+  function listToolNames(allowMutations: boolean): Promise<string[]> {
+    return withClient({ allowMutations }, async (client) => {
+      const { tools } = await client.listTools();
+      return tools.map((tool) => tool.name);
+    });
+  }
+
+  it("should only offer publish_to_channel with --allow-mutations", async function () {
+    const readOnly = await listToolNames(false);
+    expect(readOnly).to.include("get_channel_history");
+    expect(readOnly).to.not.include("publish_to_channel");
+    expect(readOnly).to.not.include("send_room_message");
+
+    const withMutations = await listToolNames(true);
+    expect(withMutations).to.include("publish_to_channel");
+    expect(withMutations).to.include("send_room_message");
+  });
+
+  it("should check publish_to_channel against the policy as a mutating tool", async function () {
+    const policy = new McpPolicyEnforcer(defaultPolicy());
+    const check = sinon.stub(policy, "check").returns({
+      allowed: false,
+      message: "Refused in test",
+      policy: "readOnly",
+    });
+
+    const result = await withClient(
+      { allowMutations: true, policy },
+      (client) =>
+        client.callTool({
+          arguments: { channel: "orders", message: "hello" },
+          name: "publish_to_channel",
+        }),
+    );
+
+    expect(result.isError).to.equal(true);
+    expect(check.firstCall.args[0]).to.include({
+      mutating: true,
+      tool: "publish_to_channel",
+    });
+  });
+
+  it("should check read tools as not mutating", async function () {
+    const policy = new McpPolicyEnforcer(defaultPolicy());
+    const check = sinon.stub(policy, "check").returns({
+      allowed: false,
+      message: "Refused in test",
+      policy: "requireApproval",
+    });
+
+    await withClient({ policy }, (client) =>
+      client.callTool({
+        arguments: { channel: "orders" },
+        name: "get_channel_history",
+      }),
+    );
+
+    expect(check.firstCall.args[0]).to.include({
+      mutating: false,
+      tool: "get_channel_history",
+    });
+  });
+
+  it("should leave channels the policy refuses out of list_channels", async function () {
+    sinon.stub(Ably.Rest.prototype, "request").resolves({
+      items: [{ channelId: "orders" }, { channelId: "private:payroll" }],
+      statusCode: 200,
+    } as unknown as Ably.HttpPaginatedResponse);
+    const policy = new McpPolicyEnforcer(
+      applyPolicyOverrides(defaultPolicy(), { denyChannels: ["private:*"] }),
+    );
+
+    const result = await withClient(
+      {
+        credentials: { apiKey: "app.key:secret", clientId: "test-client" },
+        policy,
+      },
+      (client) => client.callTool({ arguments: {}, name: "list_channels" }),
+    );
+
+    const [content] = result.content as { text: string }[];
+    expect(
+      JSON.parse(content.text).map((channel: { name: string }) => channel.name),
+    ).to.deep.equal(["orders"]);
+  });
+});
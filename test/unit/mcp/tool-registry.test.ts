@@ -0,0 +1,235 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { expect } from "chai";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sinon from "sinon";
+import { z } from "zod";
+
+import { McpPolicyGuard } from "../../../src/mcp/policy-guard.js";
+import {
+  McpResource,
+  McpToolContext,
+  defineTool,
+  registerResources,
+  registerTools,
+} from "../../../src/mcp/tool-registry.js";
+import {
+  McpPolicyEnforcer,
+  defaultPolicy,
+  parsePolicy,
+} from "../../../src/services/mcp-policy.js";
+
+const readTool = defineTool({
+  channels: (args) => [args.room],
+  description: "Read a room",
+  name: "read_room",
+  params: { room: z.string() },
+  run: async (args) => ({ room: args.room }),
+});
+
+const writeTool = defineTool({
+  description: "Write to a room",
+  mutating: true,
+  name: "write_room",
+  params: { room: z.string(), text: z.string() },
+  payload: (args) => args.text,
+  run: async (args) => ({ room: args.room, sent: args.text }),
+});
+
+describe("tool-registry", function () {
+  let tempDir: string;
+  let server: McpServer;
+  let client: Client;
+  const context = {} as McpToolContext;
+
+  function createGuard(policy = defaultPolicy()): McpPolicyGuard {
+    return new McpPolicyGuard(new McpPolicyEnforcer(policy), {
+      auditLog: path.join(tempDir, "audit.jsonl"),
+      getClientId: () => "test-client",
+    });
+  }
+
+  async function connect(): Promise<void> {
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  }
+
+  beforeEach(function () {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-mcp-registry-"));
+    server = new McpServer({ name: "test", version: "1.0.0" });
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    sinon.stub(console, "error");
+  });
+
+  afterEach(async function () {
+    await client.close();
+    await server.close();
+    sinon.restore();
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  describe("registerTools", function () {
+    it("should leave out mutating tools unless mutations are allowed", async function () {
+      const registered = registerTools(server, [readTool, writeTool], context, {
+        allowMutations: false,
+        guard: createGuard(),
+      });
+      await connect();
+
+      expect(registered).to.deep.equal(["read_room"]);
+      const { tools } = await client.listTools();
+      expect(tools.map((tool) => tool.name)).to.deep.equal(["read_room"]);
+    });
+
+    it("should register mutating tools when mutations are allowed", async function () {
+      const registered = registerTools(server, [readTool, writeTool], context, {
+        allowMutations: true,
+        guard: createGuard(),
+      });
+
+      expect(registered).to.deep.equal(["read_room", "write_room"]);
+    });
+
+    it("should return the result of a call as JSON text", async function () {
+      registerTools(server, [readTool], context, {
+        allowMutations: false,
+        guard: createGuard(),
+      });
+      await connect();
+
+      const result = await client.callTool({
+        arguments: { room: "lobby" },
+        name: "read_room",
+      });
+
+      expect(result.isError).to.not.equal(true);
+      const [content] = result.content as { text: string }[];
+      expect(JSON.parse(content.text)).to.deep.equal({ room: "lobby" });
+    });
+
+    it("should refuse mutating tools in read-only mode", async function () {
+      registerTools(server, [writeTool], context, {
+        allowMutations: true,
+        guard: createGuard(parsePolicy("readOnly: true")),
+      });
+      await connect();
+
+      const result = await client.callTool({
+        arguments: { room: "lobby", text: "hello" },
+        name: "write_room",
+      });
+
+      expect(result.isError).to.equal(true);
+      const [content] = result.content as { text: string }[];
+      expect(JSON.parse(content.text).error).to.include({
+        code: "policy_denied",
+        policy: "readOnly",
+        tool: "write_room",
+      });
+    });
+  });
+
+  describe("registerResources", function () {
+    let read: sinon.SinonStub;
+
+    beforeEach(function () {
+      read = sinon.stub().resolves({ ok: true });
+    });
+
+    function resource(uriTemplate: string): McpResource {
+      return {
+        channels: (params) => (params.room ? [params.room] : []),
+        description: "Test resource",
+        name: uriTemplate,
+        read,
+        uriTemplate,
+      };
+    }
+
+    it("should read the resource whose URI template matches", async function () {
+      registerResources(
+        server,
+        [
+          resource("ably://rooms/{room}/messages"),
+          resource("ably://apps/{appId}/queues"),
+        ],
+        context,
+        createGuard(),
+      );
+      await connect();
+
+      const result = await client.readResource({
+        uri: "ably://apps/app1/queues",
+      });
+
+      expect(read.calledOnce).to.be.true;
+      expect(read.firstCall.args[0]).to.deep.equal({ appId: "app1" });
+      expect(result.contents[0]).to.include({
+        mimeType: "application/json",
+        uri: "ably://apps/app1/queues",
+      });
+      expect(JSON.parse(result.contents[0].text as string)).to.deep.equal({
+        ok: true,
+      });
+    });
+
+    it("should decode names in the URI", async function () {
+      registerResources(
+        server,
+        [resource("ably://rooms/{room}/messages")],
+        context,
+        createGuard(),
+      );
+      await connect();
+
+      await client.readResource({ uri: "ably://rooms/my%20room/messages" });
+
+      expect(read.firstCall.args[0]).to.deep.equal({ room: "my room" });
+    });
+
+    it("should not match URIs outside the templates", async function () {
+      registerResources(
+        server,
+        [resource("ably://rooms/{room}/messages")],
+        context,
+        createGuard(),
+      );
+      await connect();
+
+      let error: Error | undefined;
+      try {
+        await client.readResource({ uri: "ably://rooms/lobby/occupancy" });
+      } catch (error_) {
+        error = error_ as Error;
+      }
+
+      expect(error?.message).to.include("not found");
+      expect(read.called).to.be.false;
+    });
+
+    it("should refuse rooms the channel policy does not allow", async function () {
+      registerResources(
+        server,
+        [resource("ably://rooms/{room}/messages")],
+        context,
+        createGuard(parsePolicy('channels:\n  deny: ["private:*"]')),
+      );
+      await connect();
+
+      let error: Error | undefined;
+      try {
+        await client.readResource({ uri: "ably://rooms/private:1/messages" });
+      } catch (error_) {
+        error = error_ as Error;
+      }
+
+      expect(error?.message).to.include("channel denylist");
+      expect(read.called).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import sinon from "sinon";
+
+import { McpToolContext } from "../../../../src/mcp/tool-registry.js";
+import { channelRulesTools } from "../../../../src/mcp/tools/channel-rules.js";
+import { CHANNEL_RULE_TEMPLATES } from "../../../../src/services/channel-rules.js";
+
+function tool(name: string) {
+  return channelRulesTools.find((t) => t.name === name)!;
+}
+
+describe("MCP channel rules tools", function () {
+  let controlApi: Record<string, sinon.SinonStub>;
+  let context: McpToolContext;
+
+  beforeEach(function () {
+    controlApi = {
+      createNamespace: sinon.stub().callsFake(async (_appId, data) => ({
+        ...data,
+        created: 0,
+        id: data.channelNamespace,
+        modified: 0,
+      })),
+      listNamespaces: sinon.stub().resolves([{ id: "chat", persisted: false }]),
+      updateNamespace: sinon.stub().callsFake(async (_appId, id, data) => ({
+        ...data,
+        created: 0,
+        id,
+        modified: 0,
+      })),
+    };
+    context = {
+      getControlApi: async () => controlApi,
+      resolveAppId: (app?: string) => app ?? "current-app",
+    } as unknown as McpToolContext;
+  });
+
+  it("should create a rule from a template with the given settings on top", async function () {
+    const [template, { settings }] = Object.entries(CHANNEL_RULE_TEMPLATES)[0];
+
+    await tool("create_channel_rule").run(
+      { name: "rooms", persisted: true, template },
+      context,
+    );
+
+    const [appId, data] = controlApi.createNamespace.firstCall.args;
+    expect(appId).to.equal("current-app");
+    expect(data).to.deep.include({
+      ...settings,
+      channelNamespace: "rooms",
+      persisted: true,
+    });
+  });
+
+  it("should only send the settings given to update", async function () {
+    await tool("update_channel_rule").run(
+      { app: "app1", id: "chat", persisted: true },
+      context,
+    );
+
+    expect(controlApi.updateNamespace.firstCall.args).to.deep.equal([
+      "app1",
+      "chat",
+      { persisted: true },
+    ]);
+  });
+
+  it("should refuse an update without settings or for an unknown rule", async function () {
+    let error: Error | undefined;
+    try {
+      await tool("update_channel_rule").run({ id: "chat" }, context);
+    } catch (error_) {
+      error = error_ as Error;
+    }
+
+    expect(error?.message).to.equal("No settings to update were provided");
+
+    error = undefined;
+    try {
+      await tool("update_channel_rule").run(
+        { id: "missing", persisted: true },
+        context,
+      );
+    } catch (error_) {
+      error = error_ as Error;
+    }
+
+    expect(error?.message).to.equal('Channel rule "missing" not found');
+    expect(controlApi.updateNamespace.called).to.be.false;
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import sinon from "sinon";
+
+import { McpToolContext } from "../../../../src/mcp/tool-registry.js";
+import { chatTools } from "../../../../src/mcp/tools/chat.js";
+
+const listRooms = chatTools.find((tool) => tool.name === "list_rooms")!;
+
+describe("MCP chat tools", function () {
+  let request: sinon.SinonStub;
+  let context: McpToolContext;
+
+  beforeEach(function () {
+    request = sinon.stub();
+    context = {
+      getRestClient: async () => ({ request }),
+      isChannelAllowed: () => true,
+    } as unknown as McpToolContext;
+  });
+
+  function respond(channelIds: string[]): void {
+    request.resolves({
+      items: channelIds.map((channelId) => ({
+        channelId,
+        status: { isActive: true },
+      })),
+      statusCode: 200,
+    });
+  }
+
+  describe("list_rooms", function () {
+    it("should list each room once from its chat channels", async function () {
+      respond([
+        "lobby::$chat::$chatMessages",
+        "lobby::$chat::$reactions",
+        "support::$chat::$chatMessages",
+        "plain-channel",
+        "spaces-demo::$space",
+      ]);
+
+      const result = (await listRooms.run({ limit: 100 }, context)) as {
+        items: Record<string, unknown>[];
+      };
+
+      expect(result.items.map((room) => room.roomName)).to.deep.equal([
+        "lobby",
+        "support",
+      ]);
+      expect(result.items[0]).to.deep.include({
+        channelId: "lobby",
+        status: { isActive: true },
+      });
+    });
+
+    it("should leave out rooms the channel policy refuses", async function () {
+      respond(["lobby::$chat::$chatMessages", "staff::$chat::$chatMessages"]);
+      context.isChannelAllowed = (name) => name !== "staff";
+
+      const result = (await listRooms.run({ limit: 100 }, context)) as {
+        items: Record<string, unknown>[];
+      };
+
+      expect(result.items.map((room) => room.roomName)).to.deep.equal([
+        "lobby",
+      ]);
+    });
+
+    it("should keep names that contain colons", async function () {
+      respond(["team:general::$chat::$chatMessages"]);
+
+      const result = (await listRooms.run({ limit: 100 }, context)) as {
+        items: Record<string, unknown>[];
+      };
+
+      expect(result.items[0].roomName).to.equal("team:general");
+    });
+
+    it("should request more channels than rooms and apply the limit to rooms", async function () {
+      respond([
+        "a::$chat::$chatMessages",
+        "b::$chat::$chatMessages",
+        "c::$chat::$chatMessages",
+      ]);
+
+      const result = (await listRooms.run(
+        { limit: 2, prefix: "a" },
+        context,
+      )) as { items: Record<string, unknown>[] };
+
+      expect(request.firstCall.args.slice(0, 4)).to.deep.equal([
+        "get",
+        "/channels",
+        2,
+        { limit: 10, prefix: "a" },
+      ]);
+      expect(result.items).to.have.length(2);
+    });
+
+    it("should fail when the channels can't be listed", async function () {
+      request.resolves({ items: [], statusCode: 401 });
+
+      let error: Error | undefined;
+      try {
+        await listRooms.run({ limit: 100 }, context);
+      } catch (error_) {
+        error = error_ as Error;
+      }
+
+      expect(error?.message).to.equal("Failed to list rooms: 401");
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { expect } from "chai";
+
+import { MCP_RESOURCES, MCP_TOOLS } from "../../../../src/mcp/tools/index.js";
+
+describe("MCP tools", function () {
+  it("should mark every tool that writes as mutating", function () {
+    const writes = /^(create|delete|send|update)_/;
+    for (const tool of MCP_TOOLS) {
+      expect(tool.mutating ?? false, tool.name).to.equal(
+        writes.test(tool.name),
+      );
+    }
+  });
+
+  it("should use unique tool and resource names and URI templates", function () {
+    const names = [...MCP_TOOLS, ...MCP_RESOURCES].map((t) => t.name);
+    expect(new Set(names).size).to.equal(names.length);
+
+    const templates = MCP_RESOURCES.map((resource) => resource.uriTemplate);
+    expect(new Set(templates).size).to.equal(templates.length);
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import sinon from "sinon";
+
+import { McpToolContext } from "../../../../src/mcp/tool-registry.js";
+import { spacesTools } from "../../../../src/mcp/tools/spaces.js";
+
+const listSpaces = spacesTools.find((tool) => tool.name === "list_spaces")!;
+
+describe("MCP spaces tools", function () {
+  describe("list_spaces", function () {
+    it("should list each space once with its occupancy", async function () {
+      const request = sinon.stub().resolves({
+        items: [
+          {
+            channelId: "board::$space",
+            status: { occupancy: { metrics: { connections: 2 } } },
+          },
+          { channelId: "board::$space::$locks" },
+          { channelId: "lobby::$chat::$chatMessages" },
+          { channelId: "notes::$space" },
+        ],
+        statusCode: 200,
+      });
+      const context = {
+        getRestClient: async () => ({ request }),
+        isChannelAllowed: () => true,
+      } as unknown as McpToolContext;
+
+      const result = (await listSpaces.run({ limit: 1 }, context)) as Record<
+        string,
+        unknown
+      >;
+
+      expect(result).to.deep.include({
+        hasMore: true,
+        shown: 1,
+        spaces: [{ metrics: { connections: 2 }, spaceName: "board" }],
+        success: true,
+        total: 2,
+      });
+      expect(request.firstCall.args[3]).to.deep.equal({ limit: 5 });
+    });
+  });
+});
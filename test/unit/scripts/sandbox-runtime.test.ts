@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import { Duplex } from 'node:stream';
+import { createSandboxRuntime, sandboxEnvironment, SandboxLogger } from '../../../scripts/sandbox/index.js';
+
+const logger: SandboxLogger = { log: () => {}, logError: () => {} };
+
+function readUntil(stream: Duplex, expected: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${JSON.stringify(expected)}, got ${JSON.stringify(output)}`)), 5000);
+    stream.on('data', (chunk: Buffer | string) => {
+      output += chunk.toString();
+      if (output.includes(expected)) {
+        clearTimeout(timer);
+        resolve(output);
+      }
+    });
+  });
+}
+
+function waitForEnd(stream: Duplex): Promise<void> {
+  return new Promise((resolve) => stream.once('end', resolve));
+}
+
+const sessionOptions = {
+  accessToken: '',
+  apiKey: 'app.key:secret',
+  environmentVariables: {},
+  sessionId: 'test-session',
+};
+
+describe('sandbox runtimes', function () {
+  describe('createSandboxRuntime', function () {
+    it('rejects unknown runtimes', function () {
+      expect(() => createSandboxRuntime('vm', logger, {})).to.throw(/Unknown sandbox runtime "vm"/);
+    });
+
+    it('requires a command for the exec runtime', function () {
+      expect(() => createSandboxRuntime('exec', logger, {})).to.throw(/TERMINAL_SANDBOX_EXEC_COMMAND/);
+      expect(createSandboxRuntime('exec', logger, { TERMINAL_SANDBOX_EXEC_COMMAND: 'cat' }).name).to.equal('exec');
+    });
+  });
+
+  describe('sandboxEnvironment', function () {
+    it('does not let client variables override credentials', function () {
+      const env = sandboxEnvironment({
+        ...sessionOptions,
+        environmentVariables: { ABLY_API_KEY: 'other', EXTRA: '1' },
+      });
+
+      expect(env.ABLY_API_KEY).to.equal('app.key:secret');
+      expect(env.EXTRA).to.equal('1');
+      expect(env).to.not.have.property('ABLY_ACCESS_TOKEN');
+    });
+  });
+
+  describe('exec runtime', function () {
+    it('passes input and output over the session command stdio', async function () {
+      const runtime = createSandboxRuntime('exec', logger, { TERMINAL_SANDBOX_EXEC_COMMAND: 'cat' });
+      const sandbox = await runtime.create(sessionOptions);
+      try {
+        const stream = await sandbox.attach();
+        const output = readUntil(stream, 'hello');
+        stream.write('hello\n');
+        expect(await output).to.equal('hello\n');
+      } finally {
+        await sandbox.stop();
+      }
+    });
+
+    it('gives the command the session credentials and ID', async function () {
+      const runtime = createSandboxRuntime('exec', logger, {
+        TERMINAL_SANDBOX_EXEC_COMMAND: 'echo "$ABLY_CLI_SESSION_ID $ABLY_API_KEY"; cat',
+      });
+      const sandbox = await runtime.create(sessionOptions);
+      try {
+        const stream = await sandbox.attach();
+        expect(await readUntil(stream, '\n')).to.equal('test-session app.key:secret\n');
+      } finally {
+        await sandbox.stop();
+      }
+    });
+
+    it('passes client variables on as JSON without changing the command environment', async function () {
+      const runtime = createSandboxRuntime('exec', logger, {
+        TERMINAL_SANDBOX_EXEC_COMMAND: 'echo "$PATH|$EXTRA|$ABLY_CLI_CLIENT_ENV"; cat',
+      });
+      const sandbox = await runtime.create({
+        ...sessionOptions,
+        environmentVariables: { EXTRA: '1', PATH: '/attacker/bin' },
+      });
+      try {
+        const stream = await sandbox.attach();
+        const [hostPath, extra, clientEnv] = (await readUntil(stream, '\n')).trim().split('|');
+        expect(hostPath).to.equal(process.env.PATH);
+        expect(extra).to.equal('');
+        expect(JSON.parse(clientEnv)).to.deep.equal({ EXTRA: '1', PATH: '/attacker/bin' });
+      } finally {
+        await sandbox.stop();
+      }
+    });
+
+    it('keeps the command running when a new stream is attached', async function () {
+      const runtime = createSandboxRuntime('exec', logger, { TERMINAL_SANDBOX_EXEC_COMMAND: 'cat' });
+      const sandbox = await runtime.create(sessionOptions);
+      try {
+        const first = await sandbox.attach();
+        const second = await sandbox.attach();
+        expect(first.destroyed).to.be.true;
+
+        const output = readUntil(second, 'again');
+        second.write('again\n');
+        expect(await output).to.equal('again\n');
+      } finally {
+        await sandbox.stop();
+      }
+    });
+
+    it('ends the stream when the command exits', async function () {
+      const runtime = createSandboxRuntime('exec', logger, { TERMINAL_SANDBOX_EXEC_COMMAND: 'sleep 0.2' });
+      const sandbox = await runtime.create(sessionOptions);
+      const stream = await sandbox.attach();
+      stream.resume();
+      await waitForEnd(stream);
+
+      const reattached = await sandbox.attach();
+      reattached.resume();
+      await waitForEnd(reattached);
+    });
+
+    it('stops the command', async function () {
+      const runtime = createSandboxRuntime('exec', logger, { TERMINAL_SANDBOX_EXEC_COMMAND: 'sleep 60' });
+      const sandbox = await runtime.create(sessionOptions);
+      const stream = await sandbox.attach();
+
+      await sandbox.stop();
+      expect(stream.destroyed).to.be.true;
+      await sandbox.stop();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+
+import {
+  compareReports,
+  normalCdf,
+  studentTCdf,
+  twoProportionZTest,
+  welchTTest,
+} from "../../../src/services/bench-compare.js";
+import {
+  BENCH_REPORT_VERSION,
+  BenchReport,
+} from "../../../src/services/bench-stats.js";
+
+function report(overrides: {
+  deliveredPerSecond?: number;
+  lost?: number;
+  mean?: number;
+  p99?: number;
+  samples?: number;
+}): BenchReport {
+  const samples = overrides.samples ?? 10_000;
+  const lost = overrides.lost ?? 0;
+  return {
+    config: {
+      channels: ["bench"],
+      messageSize: 100,
+      messages: 10_000,
+      publishers: 1,
+      rate: 100,
+      subscribers: 1,
+      transport: "realtime",
+      workers: 0,
+    },
+    delivery: {
+      duplicates: 0,
+      expected: 10_000,
+      lossRate: lost / 10_000,
+      lost,
+      received: 10_000 - lost,
+    },
+    durationMs: 100_000,
+    finishedAt: "2024-01-01T00:01:40.000Z",
+    latency: {
+      max: 200,
+      mean: overrides.mean ?? 50,
+      min: 10,
+      p50: 45,
+      p90: 80,
+      p99: overrides.p99 ?? 120,
+      p999: 180,
+      samples,
+      stddev: 20,
+    },
+    publish: { attempted: 10_000, errors: 0, published: 10_000 },
+    runId: "run",
+    startedAt: "2024-01-01T00:00:00.000Z",
+    throughput: {
+      deliveredPerSecond: overrides.deliveredPerSecond ?? 100,
+      publishedPerSecond: 100,
+    },
+    version: BENCH_REPORT_VERSION,
+  };
+}
+
+const options = { alpha: 0.05, threshold: 0.1 };
+
+describe("bench-compare", function () {
+  describe("distributions", function () {
+    it("should match reference values", function () {
+      expect(normalCdf(0)).to.be.closeTo(0.5, 1e-7);
+      expect(normalCdf(1.96)).to.be.closeTo(0.975, 1e-4);
+      expect(studentTCdf(2, 10)).to.be.closeTo(0.963_306, 1e-5);
+      expect(studentTCdf(-2, 10)).to.be.closeTo(0.036_694, 1e-5);
+    });
+  });
+
+  describe("welchTTest", function () {
+    it("should find a shifted mean significant with enough samples", function () {
+      const base = { mean: 50, samples: 1000, stddev: 20 };
+
+      expect(welchTTest(base, { ...base, mean: 55 })).to.be.lessThan(0.001);
+      expect(welchTTest(base, { ...base, mean: 50.5 })).to.be.greaterThan(0.05);
+      expect(welchTTest(base, { ...base, samples: 1 })).to.be.undefined;
+    });
+  });
+
+  describe("twoProportionZTest", function () {
+    it("should detect an increase in a rate", function () {
+      expect(
+        twoProportionZTest({ count: 0, total: 10_000 }, { count: 50, total: 10_000 }),
+      ).to.be.lessThan(0.001);
+      expect(
+        twoProportionZTest({ count: 5, total: 10_000 }, { count: 6, total: 10_000 }),
+      ).to.be.greaterThan(0.05);
+    });
+  });
+
+  describe("compareReports", function () {
+    it("should report no regressions for identical runs", function () {
+      const result = compareReports(report({}), report({}), options);
+
+      expect(result.regressions).to.equal(0);
+      expect(result.configChanges).to.deep.equal([]);
+    });
+
+    it("should flag significant latency, throughput and loss regressions", function () {
+      const result = compareReports(
+        report({}),
+        report({ deliveredPerSecond: 80, lost: 50, mean: 60, p99: 150 }),
+        options,
+      );
+      const regressions = result.comparisons
+        .filter((comparison) => comparison.regression)
+        .map((comparison) => comparison.metric);
+
+      expect(regressions).to.deep.equal([
+        "latency.mean",
+        "latency.p99",
+        "throughput.deliveredPerSecond",
+        "delivery.lossRate",
+      ]);
+      expect(result.regressions).to.equal(4);
+    });
+
+    it("should ignore changes below the threshold", function () {
+      const result = compareReports(
+        report({}),
+        report({ mean: 52, p99: 125 }),
+        options,
+      );
+
+      expect(result.regressions).to.equal(0);
+    });
+
+    it("should not judge percentiles without enough tail samples", function () {
+      const result = compareReports(
+        report({ samples: 500 }),
+        report({ p99: 500, samples: 500 }),
+        options,
+      );
+      const p99 = result.comparisons.find((c) => c.metric === "latency.p99")!;
+
+      expect(p99.regression).to.be.false;
+      expect(p99.note).to.equal("Needs 1000 samples per run");
+    });
+
+    it("should mark improvements and list config changes", function () {
+      const faster = report({ mean: 40 });
+      faster.config.rate = 50;
+      const result = compareReports(report({}), faster, options);
+      const mean = result.comparisons.find((c) => c.metric === "latency.mean")!;
+
+      expect(mean.improvement).to.be.true;
+      expect(result.configChanges).to.deep.equal(["rate"]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { expect } from "chai";
+
+import { getSendOffset } from "../../../src/services/bench-runner.js";
+import {
+  parseScenario,
+  scenarioToConfig,
+} from "../../../src/services/bench-scenario.js";
+
+describe("bench-scenario", function () {
+  describe("parseScenario", function () {
+    it("should parse a YAML ramp scenario and apply defaults", function () {
+      const scenario = parseScenario(`
+name: ramp
+channel: bench-ramp
+subscribers: 3
+messageSize: 1024
+rate: { from: 5, to: 50 }
+duration: 2m
+limits:
+  maxRate: 50
+`);
+
+      expect(scenario).to.deep.include({
+        channels: 1,
+        duration: 120_000,
+        publishers: 1,
+        rate: { from: 5, to: 50 },
+        subscribers: 3,
+        transport: "realtime",
+      });
+      expect(scenario.limits).to.deep.equal({ maxRate: 50 });
+    });
+
+    it("should require exactly one of messages or duration", function () {
+      expect(() => parseScenario("rate: 10")).to.throw(
+        "Specify exactly one of messages or duration",
+      );
+      expect(() =>
+        parseScenario("rate: 10\nmessages: 10\nduration: 1m"),
+      ).to.throw("Specify exactly one of messages or duration");
+    });
+
+    it("should report invalid fields with their path", function () {
+      expect(() =>
+        parseScenario("rate: 10\nmessages: 10\ntransport: carrier-pigeon"),
+      ).to.throw(/transport:/);
+      expect(() =>
+        parseScenario("rate: 10\nduration: later"),
+      ).to.throw('Invalid duration "later"');
+    });
+  });
+
+  describe("scenarioToConfig", function () {
+    it("should convert a duration into messages per publisher", function () {
+      const config = scenarioToConfig(
+        parseScenario("rate: { from: 5, to: 50 }\nduration: 2m\nchannels: 2"),
+        { channel: "bench", workers: 0 },
+      );
+
+      expect(config).to.deep.include({
+        channels: ["bench-0", "bench-1"],
+        messages: 3300,
+        rampTo: 50,
+        rate: 5,
+      });
+    });
+
+    it("should prefer the scenario channel and require one", function () {
+      const scenario = parseScenario("channel: nightly\nrate: 10\nmessages: 5");
+      expect(
+        scenarioToConfig(scenario, { channel: "other", workers: 0 }).channels,
+      ).to.deep.equal(["nightly"]);
+
+      expect(() =>
+        scenarioToConfig(parseScenario("rate: 10\nmessages: 5"), {
+          workers: 0,
+        }),
+      ).to.throw("does not name a channel");
+    });
+  });
+
+  describe("getSendOffset", function () {
+    it("should space messages evenly at a constant rate", function () {
+      expect(getSendOffset(5, { messages: 10, rate: 10 })).to.equal(500);
+    });
+
+    it("should finish a ramp in the time implied by the average rate", function () {
+      // 3300 messages ramping from 5 to 50 msg/s take 120 seconds
+      const config = { messages: 3300, rampTo: 50, rate: 5 };
+
+      expect(getSendOffset(0, config)).to.equal(0);
+      expect(getSendOffset(3300, config)).to.be.closeTo(120_000, 1);
+      // Messages are sent slowly at first, so the midpoint comes late
+      expect(getSendOffset(1650, config)).to.be.greaterThan(60_000);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+
+import {
+  BENCH_REPORT_VERSION,
+  BenchConfig,
+  buildReport,
+  percentile,
+  summarizeLatencies,
+} from "../../../src/services/bench-stats.js";
+import { channelFor, splitPlan } from "../../../src/services/bench-runner.js";
+
+const config: BenchConfig = {
+  channels: ["bench-0", "bench-1"],
+  messageSize: 0,
+  messages: 10,
+  publishers: 2,
+  rate: 10,
+  subscribers: 3,
+  transport: "realtime",
+  workers: 0,
+};
+
+describe("bench-stats", function () {
+  describe("percentile", function () {
+    it("should use the nearest rank", function () {
+      const values = Array.from({ length: 100 }, (_, i) => i + 1);
+
+      expect(percentile(values, 50)).to.equal(50);
+      expect(percentile(values, 90)).to.equal(90);
+      expect(percentile(values, 99.9)).to.equal(100);
+      expect(percentile([7], 50)).to.equal(7);
+      expect(percentile([], 50)).to.equal(0);
+    });
+  });
+
+  describe("summarizeLatencies", function () {
+    it("should sort numerically and summarize", function () {
+      const summary = summarizeLatencies([30, 4, 10, 2]);
+
+      expect(summary).to.include({
+        max: 30,
+        mean: 11.5,
+        min: 2,
+        p50: 4,
+        p99: 30,
+        samples: 4,
+      });
+    });
+  });
+
+  describe("buildReport", function () {
+    it("should count loss and duplicates against the messages published on each channel", function () {
+      const report = buildReport({
+        config,
+        finishedAt: 12_000,
+        publishDurationMs: 1000,
+        publishers: [
+          { channel: "bench-0", errors: 0, index: 0, published: 10 },
+          { channel: "bench-1", errors: 2, index: 1, published: 8 },
+        ],
+        runId: "run",
+        startedAt: 10_000,
+        subscribers: [
+          {
+            channel: "bench-0",
+            duplicates: 1,
+            index: 0,
+            lastReceivedAt: 11_000,
+            latencies: [5, 6],
+            received: 10,
+          },
+          {
+            channel: "bench-1",
+            duplicates: 0,
+            index: 1,
+            lastReceivedAt: 11_000,
+            latencies: [7],
+            received: 6,
+          },
+          {
+            channel: "bench-0",
+            duplicates: 0,
+            index: 2,
+            latencies: [],
+            received: 0,
+          },
+        ],
+      });
+
+      expect(report.version).to.equal(BENCH_REPORT_VERSION);
+      expect(report.publish).to.deep.equal({
+        attempted: 20,
+        errors: 2,
+        published: 18,
+      });
+      expect(report.delivery).to.deep.equal({
+        duplicates: 1,
+        expected: 28,
+        lossRate: 0.428_571,
+        lost: 12,
+        received: 16,
+      });
+      expect(report.throughput).to.deep.equal({
+        deliveredPerSecond: 16,
+        publishedPerSecond: 18,
+      });
+      expect(report.latency.samples).to.equal(3);
+      expect(report.durationMs).to.equal(2000);
+    });
+  });
+
+  describe("splitPlan", function () {
+    it("should spread connections across nodes and drop empty nodes", function () {
+      const plans = splitPlan(config, "run", 4);
+
+      expect(plans.map((plan) => plan.publishers)).to.deep.equal([
+        [0],
+        [1],
+        [],
+      ]);
+      expect(plans.map((plan) => plan.subscribers)).to.deep.equal([
+        [0],
+        [1],
+        [2],
+      ]);
+      expect(channelFor(2, config.channels)).to.equal("bench-0");
+    });
+  });
+});
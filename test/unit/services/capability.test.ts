@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import jwt from "jsonwebtoken";
+import sinon from "sinon";
+
+import {
+  checkCapability,
+  explainCapability,
+  parseCapability,
+  resolveCapability,
+  resourceMatches,
+  validateCapability,
+} from "../../../src/services/capability.js";
+
+describe("capability", function () {
+  describe("parseCapability", function () {
+    it("should accept a valid capability", function () {
+      expect(
+        parseCapability('{"chat:*":["publish","subscribe"],"[meta]*":["*"]}'),
+      ).to.deep.equal({
+        "[meta]*": ["*"],
+        "chat:*": ["publish", "subscribe"],
+      });
+    });
+
+    it("should report every problem in an invalid capability", function () {
+      expect(
+        validateCapability({
+          "": ["publish"],
+          "[meta*": [],
+          chat: ["pub"],
+        }).map((problem) => problem.level),
+      ).to.deep.equal(["error", "error", "error", "warning"]);
+      expect(() => parseCapability('{"chat":"publish"}')).to.throw(
+        "must be an array of strings",
+      );
+    });
+
+    it("should accept unknown operations with a warning", function () {
+      const onWarning = sinon.stub();
+
+      expect(
+        parseCapability('{"chat":["publish","pub"]}', "capability", onWarning),
+      ).to.deep.equal({ chat: ["publish", "pub"] });
+      expect(onWarning.calledOnce).to.be.true;
+      expect(onWarning.firstCall.args[0]).to.include(
+        'Unknown operation "pub" for "chat"',
+      );
+    });
+
+    it("should name the capability after the label in errors", function () {
+      expect(() => parseCapability("nope", "capabilities")).to.throw(
+        "Invalid capabilities JSON",
+      );
+      expect(() => parseCapability("[]")).to.throw("must be a JSON object");
+    });
+  });
+
+  describe("resourceMatches", function () {
+    it("should match wildcards and namespaces", function () {
+      expect(resourceMatches("*", "chat:lobby")).to.be.true;
+      expect(resourceMatches("chat:*", "chat:lobby")).to.be.true;
+      expect(resourceMatches("chat:*", "news:today")).to.be.false;
+      expect(resourceMatches("chat-*", "chat-1")).to.be.true;
+      expect(resourceMatches("chat.room", "chatxroom")).to.be.false;
+    });
+
+    it("should only match qualified channels with a qualifier", function () {
+      expect(resourceMatches("*", "[meta]log")).to.be.false;
+      expect(resourceMatches("[meta]*", "[meta]log")).to.be.true;
+      expect(resourceMatches("[meta]*", "log")).to.be.false;
+      expect(resourceMatches("[*]*", "[meta]log")).to.be.true;
+      expect(resourceMatches("[*]*", "log")).to.be.true;
+    });
+  });
+
+  describe("checkCapability", function () {
+    const capability = {
+      "chat:*": ["subscribe"],
+      "chat:lobby": ["publish", "presence"],
+    };
+
+    it("should report which resources grant the operation", function () {
+      expect(
+        checkCapability(capability, "chat:lobby", "publish"),
+      ).to.deep.equal({
+        allowed: true,
+        grantedBy: ["chat:lobby"],
+        matchedBy: ["chat:*", "chat:lobby"],
+      });
+    });
+
+    it("should deny operations that no matching resource grants", function () {
+      const result = checkCapability(capability, "chat:other", "publish");
+      expect(result.allowed).to.be.false;
+      expect(result.matchedBy).to.deep.equal(["chat:*"]);
+    });
+
+    it("should treat * as all operations", function () {
+      expect(checkCapability({ "*": ["*"] }, "any", "history").allowed).to.be
+        .true;
+    });
+  });
+
+  describe("explainCapability", function () {
+    it("should describe resources and operations", function () {
+      expect(
+        explainCapability({ "*": ["*"], "chat:*": ["publish", "history"] }),
+      ).to.deep.equal([
+        "On all channels: all operations",
+        'On all channels in the "chat" namespace: publish messages; retrieve message and presence history',
+      ]);
+    });
+  });
+
+  describe("resolveCapability", function () {
+    it("should read capability JSON and JWT claims locally", async function () {
+      const lookupKey = sinon.stub().rejects(new Error("not called"));
+
+      expect(
+        await resolveCapability('{"chat":["publish"]}', lookupKey),
+      ).to.deep.equal({
+        capability: { chat: ["publish"] },
+        source: "capability",
+      });
+
+      const token = jwt.sign(
+        { "x-ably-capability": '{"chat":["subscribe"]}' },
+        "secret",
+      );
+      expect(await resolveCapability(token, lookupKey)).to.deep.equal({
+        capability: { chat: ["subscribe"] },
+        source: "jwt",
+      });
+      expect(lookupKey.called).to.be.false;
+    });
+
+    it("should look up API keys", async function () {
+      const lookupKey = sinon
+        .stub()
+        .resolves({ capability: { "*": ["publish"] } });
+
+      const result = await resolveCapability("appId.keyId", lookupKey);
+
+      expect(result.source).to.equal("key");
+      expect(lookupKey.calledWith("appId", "keyId")).to.be.true;
+
+      await resolveCapability("appId.keyId:secret", lookupKey);
+      expect(lookupKey.lastCall.args).to.deep.equal([
+        "appId",
+        "appId.keyId:secret",
+      ]);
+    });
+
+    it("should reject Ably Tokens, which cannot be read locally", async function () {
+      const lookupKey = sinon.stub();
+      try {
+        await resolveCapability(
+          "appId.HYQ6RQ3Wl8vKnWvKwv8ytxjPmTg1jVI6Lc4rQRC3bFt5aFePKhkKCn4A",
+          lookupKey,
+        );
+        expect.fail("should have thrown");
+      } catch (error) {
+        expect((error as Error).message).to.include("Ably Tokens are opaque");
+      }
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { expect } from "chai";
+import type * as Ably from "ably";
+
+import {
+  getReplayOffset,
+  mapChannelName,
+  matchesChannelPattern,
+  parseChannelMappings,
+  parseRecording,
+  serializeRecordedMessage,
+  toPublishMessage,
+  toRecordedMessage,
+} from "../../../src/services/channel-recording.js";
+
+describe("channel-recording", function () {
+  describe("toRecordedMessage", function () {
+    it("should capture message fields and drop missing ones", function () {
+      const recorded = toRecordedMessage(
+        "orders",
+        {
+          clientId: "client-1",
+          data: { total: 42 },
+          extras: { headers: { source: "web" } },
+          id: "msg-1",
+          name: "created",
+          timestamp: 1000,
+        } as Ably.Message,
+        2000,
+      );
+
+      expect(recorded).to.deep.equal({
+        channel: "orders",
+        clientId: "client-1",
+        data: { total: 42 },
+        extras: { headers: { source: "web" } },
+        id: "msg-1",
+        name: "created",
+        receivedAt: 2000,
+        timestamp: 1000,
+      });
+    });
+
+    it("should round-trip binary data through base64", function () {
+      const recorded = toRecordedMessage("bin", {
+        data: Buffer.from([0, 1, 2, 255]),
+      } as Ably.Message);
+
+      expect(recorded.encoding).to.equal("base64");
+      expect(recorded.data).to.equal("AAEC/w==");
+
+      const [reparsed] = parseRecording(serializeRecordedMessage(recorded));
+      const message = toPublishMessage(reparsed);
+      expect(Buffer.isBuffer(message.data)).to.be.true;
+      expect([...(message.data as Buffer)]).to.deep.equal([0, 1, 2, 255]);
+      expect(message.encoding).to.be.undefined;
+    });
+  });
+
+  describe("parseRecording", function () {
+    it("should skip blank lines", function () {
+      const messages = parseRecording(
+        '{"channel":"a","data":1,"receivedAt":1}\n\n{"channel":"b","data":2,"receivedAt":2}\n',
+      );
+
+      expect(messages.map((m) => m.channel)).to.deep.equal(["a", "b"]);
+    });
+
+    it("should report the line number of invalid entries", function () {
+      expect(() =>
+        parseRecording('{"channel":"a","receivedAt":1}\nnot json\n'),
+      ).to.throw(/line 2/);
+      expect(() => parseRecording('{"data":1}\n')).to.throw(/line 1/);
+    });
+  });
+
+  describe("toPublishMessage", function () {
+    it("should only keep clientId when asked to", function () {
+      const recorded = {
+        channel: "a",
+        clientId: "client-1",
+        data: "hello",
+        name: "greeting",
+        receivedAt: 1,
+      };
+
+      expect(toPublishMessage(recorded)).to.deep.equal({
+        data: "hello",
+        name: "greeting",
+      });
+      expect(
+        toPublishMessage(recorded, { preserveClientId: true }).clientId,
+      ).to.equal("client-1");
+    });
+  });
+
+  describe("channel mappings", function () {
+    it("should map exact names and prefixes", function () {
+      const mappings = parseChannelMappings([
+        "orders=scratch-orders",
+        "chat:*=scratch:chat:*",
+      ]);
+
+      expect(mapChannelName("orders", mappings)).to.equal("scratch-orders");
+      expect(mapChannelName("chat:room-1", mappings)).to.equal(
+        "scratch:chat:room-1",
+      );
+      expect(mapChannelName("other", mappings)).to.equal("other");
+    });
+
+    it("should reject malformed mappings", function () {
+      expect(() => parseChannelMappings(["orders"])).to.throw(
+        /original=replacement/,
+      );
+      expect(() => parseChannelMappings(["chat:*=scratch"])).to.throw(
+        /Both sides/,
+      );
+    });
+  });
+
+  describe("getReplayOffset", function () {
+    it("should scale gaps by the speed multiplier", function () {
+      const first = { channel: "a", data: 1, receivedAt: 5000, timestamp: 1000 };
+      const later = { channel: "a", data: 2, receivedAt: 9000, timestamp: 3000 };
+
+      expect(getReplayOffset(later, first, 1)).to.equal(2000);
+      expect(getReplayOffset(later, first, 4)).to.equal(500);
+      expect(getReplayOffset(first, later, 1)).to.equal(0);
+    });
+
+    it("should fall back to the received time", function () {
+      const first = { channel: "a", data: 1, receivedAt: 5000 };
+      const later = { channel: "a", data: 2, receivedAt: 6000 };
+
+      expect(getReplayOffset(later, first, 1)).to.equal(1000);
+    });
+  });
+
+  describe("matchesChannelPattern", function () {
+    it("should treat * as a wildcard and other characters literally", function () {
+      expect(matchesChannelPattern("orders:eu", "orders:*")).to.be.true;
+      expect(matchesChannelPattern("orders", "orders:*")).to.be.false;
+      expect(matchesChannelPattern("a.b", "a.b")).to.be.true;
+      expect(matchesChannelPattern("axb", "a.b")).to.be.false;
+    });
+  });
+});
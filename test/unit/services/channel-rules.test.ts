@@ -0,0 +1,97 @@
+import { expect } from "chai";
+
+import {
+  parseChannelRules,
+  resolveTemplate,
+} from "../../../src/services/channel-rules.js";
+
+describe("channel-rules", function () {
+  describe("parseChannelRules", function () {
+    it("should expand templates and let rule settings override them", function () {
+      const rules = parseChannelRules(`
+app: production
+rules:
+  - id: chat
+    template: chat-room
+  - id: support
+    template: chat-room
+    authenticated: false
+    pushEnabled: true
+`);
+
+      expect(rules.app).to.equal("production");
+      expect(rules.namespaces).to.deep.equal([
+        { authenticated: true, id: "chat", persisted: true },
+        {
+          authenticated: false,
+          id: "support",
+          persisted: true,
+          pushEnabled: true,
+        },
+      ]);
+    });
+
+    it("should create one channel rule per entry in ids", function () {
+      const rules = parseChannelRules(
+        JSON.stringify({
+          rules: [{ ids: ["sensors", "vehicles"], template: "telemetry" }],
+        }),
+      );
+
+      expect(rules.namespaces.map((namespace) => namespace.id)).to.deep.equal([
+        "sensors",
+        "vehicles",
+      ]);
+      expect(rules.namespaces[1]).to.include({
+        batchingEnabled: true,
+        batchingInterval: 100,
+      });
+    });
+
+    it("should prefer templates defined in the file over built-in ones", function () {
+      const rules = parseChannelRules(`
+templates:
+  chat-room:
+    persisted: false
+  strict:
+    tlsOnly: true
+rules:
+  - id: chat
+    template: chat-room
+  - id: admin
+    template: strict
+`);
+
+      expect(rules.namespaces).to.deep.equal([
+        { id: "chat", persisted: false },
+        { id: "admin", tlsOnly: true },
+      ]);
+    });
+
+    it("should reject rules without exactly one of id and ids", function () {
+      expect(() => parseChannelRules("rules:\n  - persisted: true\n")).to.throw(
+        'Each rule needs either "id" or "ids"',
+      );
+      expect(() =>
+        parseChannelRules("rules:\n  - id: a\n    ids: [b]\n"),
+      ).to.throw('Each rule needs either "id" or "ids"');
+    });
+
+    it("should reject duplicate channel rules and unknown settings", function () {
+      expect(() =>
+        parseChannelRules("rules:\n  - id: chat\n  - ids: [chat]\n"),
+      ).to.throw('Channel rule "chat" is defined more than once');
+      expect(() =>
+        parseChannelRules("rules:\n  - id: chat\n    persist: true\n"),
+      ).to.throw("Invalid channel rules file");
+    });
+  });
+
+  describe("resolveTemplate", function () {
+    it("should list the available templates for an unknown name", function () {
+      expect(() => resolveTemplate("missing")).to.throw(
+        /Unknown channel rule template "missing".*chat-room.*telemetry/,
+      );
+    });
+  });
+});
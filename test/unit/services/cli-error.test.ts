@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import { Errors, Flags, Parser } from "@oclif/core";
+import * as Ably from "ably";
+
+import {
+  CliError,
+  DRIFT_EXIT_CODE,
+  EXIT_CODES,
+  errorEnvelope,
+  toCliError,
+} from "../../../src/services/cli-error.js";
+import { ControlApiError } from "../../../src/services/control-api.js";
+
+describe("cli-error", function () {
+  describe("EXIT_CODES", function () {
+    it("should keep the documented exit code for each category", function () {
+      expect(EXIT_CODES).to.deep.equal({
+        ably: 8,
+        auth: 3,
+        general: 1,
+        network: 6,
+        "not-found": 4,
+        "rate-limited": 5,
+        server: 7,
+        timeout: 9,
+        usage: 2,
+      });
+    });
+
+    it("should keep the plan drift exit code clear of the error exit codes", function () {
+      expect(Object.values(EXIT_CODES)).to.not.include(DRIFT_EXIT_CODE);
+    });
+  });
+
+  describe("toCliError", function () {
+    it("should categorize Ably errors by code and link to the help page", function () {
+      const error = toCliError(
+        new Ably.ErrorInfo("Token expired", 40_142, 401),
+      );
+
+      expect(error.category).to.equal("auth");
+      expect(error.exitCode).to.equal(3);
+      expect(error.code).to.equal(40_142);
+      expect(error.statusCode).to.equal(401);
+      expect(error.href).to.equal("https://help.ably.io/error/40142");
+      expect(error.cause).to.be.instanceOf(Ably.ErrorInfo);
+    });
+
+    it("should fall back to the HTTP status, then to the ably category", function () {
+      expect(
+        toCliError(new Ably.ErrorInfo("Too many", 10_000, 429)).category,
+      ).to.equal("rate-limited");
+      expect(
+        toCliError(new Ably.ErrorInfo("Odd", 10_000, 418)).category,
+      ).to.equal("ably");
+      expect(
+        toCliError(new Ably.ErrorInfo("Down", 50_003, 500)).category,
+      ).to.equal("server");
+      expect(
+        toCliError(new Ably.ErrorInfo("Disconnected", 80_003, 400)).category,
+      ).to.equal("network");
+    });
+
+    it("should keep the hint and href from Control API errors", function () {
+      const error = toCliError(
+        new ControlApiError("App not found", {
+          code: 40_400,
+          href: "https://help.ably.io/error/40400",
+          response: {},
+          statusCode: 404,
+        }),
+        "Failed to delete app",
+      );
+
+      expect(error.category).to.equal("not-found");
+      expect(error.exitCode).to.equal(4);
+      expect(error.message).to.equal("Failed to delete app: App not found");
+      expect(error.hint).to.include("not found");
+      expect(error.suggestions).to.deep.equal([error.hint]);
+      expect(error.ref).to.equal("https://help.ably.io/error/40400");
+    });
+
+    it("should treat connection failures as network errors", function () {
+      const cause = Object.assign(new Error("connect ECONNREFUSED"), {
+        code: "ECONNREFUSED",
+      });
+      const error = toCliError(cause);
+
+      expect(error.category).to.equal("network");
+      expect(error.exitCode).to.equal(6);
+      expect(error.hint).to.be.a("string");
+    });
+
+    it("should treat flag parsing errors as usage errors and anything else as general", async function () {
+      const parseError = await Parser.parse(["--nope"], {
+        flags: { name: Flags.string() },
+      }).catch((error: unknown) => error);
+      expect(toCliError(parseError).category).to.equal("usage");
+      expect(toCliError(parseError).exitCode).to.equal(2);
+
+      // As thrown by this.error() at runtime, e.g. for a failed request
+      expect(
+        toCliError(new Errors.CLIError("Failed to list channels: 500"))
+          .category,
+      ).to.equal("general");
+      expect(toCliError(new Error("Boom")).category).to.equal("general");
+      expect(toCliError("Boom").message).to.equal("Boom");
+    });
+
+    it("should return a CliError unchanged unless a context is given", function () {
+      const original = new CliError("Not found", { category: "not-found" });
+
+      expect(toCliError(original)).to.equal(original);
+
+      const wrapped = toCliError(original, "Failed");
+      expect(wrapped.message).to.equal("Failed: Not found");
+      expect(wrapped.category).to.equal("not-found");
+    });
+  });
+
+  describe("errorEnvelope", function () {
+    it("should wrap the error details with success false", function () {
+      const error = new CliError("Invalid key", {
+        category: "auth",
+        code: 40_101,
+        href: "https://help.ably.io/error/40101",
+        statusCode: 401,
+      });
+
+      expect(structuredClone(errorEnvelope(error))).to.deep.equal({
+        error: {
+          category: "auth",
+          code: 40_101,
+          exitCode: 3,
+          hint: undefined,
+          href: "https://help.ably.io/error/40101",
+          message: "Invalid key",
+          statusCode: 401,
+        },
+        success: false,
+      });
+    });
+  });
+});
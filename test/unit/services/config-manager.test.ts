@@ -37,6 +37,13 @@ keyId = "testappid.keyid"
 keyName = "Test Key"
 `;
 
+// Each save writes the new config to a temporary file, then the backup
+function configSaves(writeFileStub: sinon.SinonStub): number {
+  return writeFileStub
+    .getCalls()
+    .filter((call) => String(call.args[0]).endsWith(".tmp")).length;
+}
+
 // Completely isolated test suite
 describe("ConfigManager", function() {
   // Variables declared at top level for test scope
@@ -80,6 +87,8 @@ describe("ConfigManager", function() {
     sandbox.stub(fs, "mkdirSync"); // Allow mkdirSync to be called
     sandbox.stub(fs, "readFileSync").returns(DEFAULT_CONFIG);
     sandbox.stub(fs, "writeFileSync");
+    sandbox.stub(fs, "chmodSync");
+    sandbox.stub(fs, "renameSync");
 
     // Create new ConfigManager instance for each test
     // It will now use the uniqueTestConfigDir via the env var
@@ -257,7 +266,7 @@ accessToken = "testaccesstoken"
         accountName: "New Account"
       });
 
-      expect(writeFileStub?.calledOnce).to.be.true;
+      expect(configSaves(writeFileStub)).to.equal(1);
 
       // Test that the internal state is updated
       const accounts = configManager.listAccounts();
@@ -276,11 +285,13 @@ accessToken = "testaccesstoken"
       sandbox.stub(fs, "existsSync").returns(true);
       sandbox.stub(fs, "readFileSync").returns(""); // Empty config
       const writeFileStub = sandbox.stub(fs, "writeFileSync");
+      sandbox.stub(fs, "chmodSync");
+      sandbox.stub(fs, "renameSync");
 
       const manager = new ConfigManager();
       manager.storeAccount("firstaccesstoken", "firstaccount");
 
-      expect(writeFileStub.calledOnce).to.be.true;
+      expect(configSaves(writeFileStub)).to.equal(1);
       expect(manager.getCurrentAccountAlias()).to.equal("firstaccount");
     });
   });
@@ -294,7 +305,7 @@ accessToken = "testaccesstoken"
         keyName: "New Key"
       });
 
-      expect(writeFileStub?.calledOnce).to.be.true;
+      expect(configSaves(writeFileStub)).to.equal(1);
 
       // Check that the key was stored
       expect(configManager.getApiKey("newappid")).to.equal("newappid.keyid:keysecret");
@@ -321,7 +332,7 @@ accessToken = "testaccesstoken"
       expect(configManager.getKeyName("anotherappid")).to.equal("Another Key");
 
       // Expect writeFileSync to have been called multiple times (storeAccount, storeAppKey, switchAccount)
-      expect(writeFileStub?.callCount).to.be.greaterThan(2);
+      expect(configSaves(writeFileStub)).to.be.greaterThan(2);
     });
 
     it("should throw error if account doesn't exist", function() {
@@ -331,12 +342,61 @@ accessToken = "testaccesstoken"
     });
   });
 
+  // Tests for replaceApiKey
+  describe("#replaceApiKey", function() {
+    it("should replace the key in every app that uses it", function() {
+      configManager.storeAccount("anotheraccesstoken", "anotheraccount");
+      configManager.storeAppKey("testappid", "testappid.keyid:keysecret", {}, "anotheraccount");
+
+      const updated = configManager.replaceApiKey("testappid.keyid", "testappid.newkeyid:newsecret");
+
+      expect(updated).to.deep.equal([
+        "accounts.default.apps.testappid",
+        "accounts.anotheraccount.apps.testappid",
+      ]);
+      expect(configManager.getApiKey("testappid")).to.equal("testappid.newkeyid:newsecret");
+      expect(configManager.getKeyId("testappid")).to.equal("newkeyid");
+      expect(configManager.getKeyName("testappid")).to.equal("Test Key");
+    });
+
+    it("should replace a key selected with auth keys switch", function() {
+      // auth keys switch records the Control API key ID, without the app ID
+      configManager.storeAppKey("testappid", "testappid.keyid:keysecret", {
+        appName: "Test App",
+        keyId: "keyid",
+        keyName: "Test Key",
+      });
+
+      const updated = configManager.replaceApiKey("testappid.keyid", "testappid.newkeyid:newsecret");
+
+      expect(updated).to.deep.equal(["accounts.default.apps.testappid"]);
+      expect(configManager.getApiKey("testappid")).to.equal("testappid.newkeyid:newsecret");
+      expect(configManager.getKeyId("testappid")).to.equal("newkeyid");
+    });
+
+    it("should not replace a key with the same ID in another app", function() {
+      configManager.storeAppKey("otherappid", "otherappid.keyid:othersecret", { keyId: "keyid" });
+
+      configManager.replaceApiKey("testappid.keyid", "testappid.newkeyid:newsecret");
+
+      expect(configManager.getApiKey("otherappid")).to.equal("otherappid.keyid:othersecret");
+      expect(configManager.getKeyId("otherappid")).to.equal("keyid");
+    });
+
+    it("should not save when no entry refers to the key", function() {
+      const writeFileStub = fs.writeFileSync as sinon.SinonStub;
+
+      expect(configManager.replaceApiKey("otherapp.keyid", "otherapp.newkeyid:secret")).to.be.empty;
+      expect(writeFileStub.called).to.be.false;
+    });
+  });
+
   // Tests for removeAccount
   describe("#removeAccount", function() {
     it("should remove an account and return true", function() {
       const writeFileStub = fs.writeFileSync as sinon.SinonStub;
       expect(configManager.removeAccount("default")).to.be.true;
-      expect(writeFileStub?.calledOnce).to.be.true;
+      expect(configSaves(writeFileStub)).to.equal(1);
 
       // The account should be gone from the list
       expect(configManager.listAccounts().some(a => a.alias === "default")).to.be.false;
@@ -356,7 +416,7 @@ accessToken = "testaccesstoken"
 
       // Current account should now be undefined
       expect(configManager.getCurrentAccountAlias()).to.be.undefined;
-      expect(writeFileStub?.calledOnce).to.be.true;
+      expect(configSaves(writeFileStub)).to.equal(1);
     });
   });
 
@@ -369,7 +429,7 @@ accessToken = "testaccesstoken"
 
       expect(configManager.switchAccount("anotheraccount")).to.be.true;
       // writeFileSync called for storeAccount and switchAccount
-      expect(writeFileStub?.callCount).to.equal(2);
+      expect(configSaves(writeFileStub)).to.equal(2);
 
       // Current account should be the new one
       expect(configManager.getCurrentAccountAlias()).to.equal("anotheraccount");
@@ -0,0 +1,255 @@
+import { expect } from "chai";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { diagnoseConfig } from "../../../src/services/config-doctor.js";
+import { ConfigManager } from "../../../src/services/config-manager.js";
+import {
+  CONFIG_VERSION,
+  migrateConfig,
+  repairConfig,
+  validateConfig,
+} from "../../../src/services/config-schema.js";
+
+const VALID_CONFIG = `
+version = ${CONFIG_VERSION}
+
+[current]
+account = "default"
+
+[accounts.default]
+accessToken = "token"
+currentAppId = "app1"
+
+[accounts.default.apps.app1]
+apiKey = "app1.key:secret"
+`;
+
+describe("config-schema", function () {
+  let tempDir: string;
+  let configPath: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(function () {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-config-schema-"));
+    configPath = path.join(tempDir, "config");
+    originalConfigDir = process.env.ABLY_CLI_CONFIG_DIR;
+    process.env.ABLY_CLI_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(function () {
+    if (originalConfigDir === undefined) {
+      delete process.env.ABLY_CLI_CONFIG_DIR;
+    } else {
+      process.env.ABLY_CLI_CONFIG_DIR = originalConfigDir;
+    }
+
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  describe("migrateConfig", function () {
+    it("should move current.app to the current account", function () {
+      const config: Record<string, unknown> = {
+        accounts: { default: { accessToken: "token" } },
+        current: { account: "default", app: "app1" },
+      };
+
+      expect(migrateConfig(config)).to.have.length(1);
+      expect(config).to.deep.equal({
+        accounts: { default: { accessToken: "token", currentAppId: "app1" } },
+        current: { account: "default" },
+        version: CONFIG_VERSION,
+      });
+    });
+
+    it("should leave configs from a newer CLI alone", function () {
+      const config = { accounts: {}, current: { app: "x" }, version: 99 };
+      expect(migrateConfig(config)).to.deep.equal([]);
+      expect(config.current.app).to.equal("x");
+    });
+  });
+
+  describe("validateConfig and repairConfig", function () {
+    it("should report and remove invalid values", function () {
+      const config: Record<string, unknown> = {
+        accounts: {
+          "dotted.alias": { accessToken: 42 },
+          good: { accessToken: "token" },
+        },
+        current: { account: "missing" },
+        helpContext: {
+          conversation: {
+            messages: [
+              { content: "a", role: "user" },
+              { content: "b", role: "robot" },
+              { content: "c", role: "user" },
+              { content: 4, role: "assistant" },
+            ],
+          },
+        },
+        version: CONFIG_VERSION,
+      };
+
+      const paths = validateConfig(config).map((issue) => issue.path);
+      expect(paths).to.include("accounts.dotted.alias.accessToken");
+      expect(paths).to.include("helpContext.conversation.messages.1.role");
+
+      expect(repairConfig(config)).to.have.length(4);
+      expect(validateConfig(config)).to.deep.equal([]);
+      expect(config.accounts).to.deep.equal({
+        "dotted.alias": {},
+        good: { accessToken: "token" },
+      });
+      expect(config.current).to.deep.equal({});
+      expect(config.helpContext).to.deep.equal({
+        conversation: {
+          messages: [
+            { content: "a", role: "user" },
+            { content: "c", role: "user" },
+          ],
+        },
+      });
+    });
+
+    it("should require a command for the helper secret store", function () {
+      const issues = validateConfig({
+        accounts: {},
+        secrets: { backend: "helper" },
+        version: CONFIG_VERSION,
+      });
+      expect(issues.map((issue) => issue.path)).to.deep.equal([
+        "secrets.helper",
+      ]);
+    });
+  });
+
+  describe("ConfigManager persistence", function () {
+    it("should round trip values that need escaping", function () {
+      const alias = 'my "quoted" alias.with dots';
+      const configManager = new ConfigManager();
+      configManager.storeAccount('tok"en\\', alias, {
+        accountName: "Name with\nnewline",
+      });
+      configManager.storeHelpContext('How do I use """?', "Like 'this' \\ that");
+
+      const reloaded = new ConfigManager();
+      expect(reloaded.getCurrentAccountAlias()).to.equal(alias);
+      expect(reloaded.getAccessToken()).to.equal('tok"en\\');
+      expect(reloaded.getCurrentAccount()?.accountName).to.equal(
+        "Name with\nnewline",
+      );
+      expect(
+        reloaded.getHelpContext()?.conversation.messages.map((m) => m.content),
+      ).to.deep.equal(['How do I use """?', "Like 'this' \\ that"]);
+    });
+
+    it("should migrate old configs on load and keep a backup when saving", function () {
+      const oldConfig = `[current]\naccount = "default"\napp = "app1"\n\n[accounts.default]\naccessToken = "token"\n`;
+      fs.writeFileSync(configPath, oldConfig);
+
+      const configManager = new ConfigManager();
+      expect(configManager.getCurrentAppId()).to.equal("app1");
+
+      const saved = fs.readFileSync(configPath, "utf8");
+      expect(saved).to.match(new RegExp(`^version = ${CONFIG_VERSION}$`, "m"));
+      expect(saved).not.to.include("app = ");
+      const backup = fs.readFileSync(configManager.getBackupPath(), "utf8");
+      expect(backup).to.include('app = "app1"');
+      expect(backup).not.to.include("token");
+      expect(fs.statSync(configPath).mode & 0o777).to.equal(0o600);
+      expect(fs.readdirSync(tempDir).sort()).to.deep.equal([
+        "config",
+        "config.bak",
+      ]);
+    });
+
+    it("should refuse to overwrite a config it could not load", function () {
+      fs.writeFileSync(configPath, "not [[ valid");
+      expect(() => new ConfigManager()).to.throw(/Failed to load Ably config/);
+
+      const configManager = new ConfigManager({ tolerateLoadErrors: true });
+      expect(configManager.getLoadError()).to.be.a("string");
+      expect(() => configManager.storeAccount("token", "default")).to.throw(
+        /config doctor/,
+      );
+      expect(fs.readFileSync(configPath, "utf8")).to.equal("not [[ valid");
+    });
+
+    it("should load a config with invalid settings, ignoring them", function () {
+      const invalid =
+        `${VALID_CONFIG}\n[profiles.prod]\napp = "app1"\ntypo = "x"\n`.replace(
+          'account = "default"',
+          'account = "ghost"',
+        );
+      fs.writeFileSync(configPath, invalid, { mode: 0o600 });
+
+      const configManager = new ConfigManager();
+      expect(configManager.getLoadError()).to.be.undefined;
+      expect(
+        configManager.getLoadWarnings().map((issue) => issue.path),
+      ).to.have.members(["current.account", "profiles.prod.typo"]);
+      expect(configManager.getCurrentAccountAlias()).to.be.undefined;
+      expect(configManager.getAccessToken("default")).to.equal("token");
+      expect(fs.readFileSync(configPath, "utf8")).to.equal(invalid);
+
+      configManager.switchAccount("default");
+      const preserved = fs
+        .readdirSync(tempDir)
+        .filter((name) => name.startsWith("config.broken-"));
+      expect(preserved).to.have.length(1);
+      expect(
+        fs.readFileSync(path.join(tempDir, preserved[0]), "utf8"),
+      ).to.equal(invalid);
+      expect(new ConfigManager().getLoadWarnings()).to.deep.equal([]);
+    });
+  });
+
+  describe("diagnoseConfig", function () {
+    it("should find nothing wrong with a valid config", function () {
+      fs.writeFileSync(configPath, VALID_CONFIG, { mode: 0o600 });
+      expect(diagnoseConfig(configPath).findings).to.deep.equal([]);
+    });
+
+    it("should restore a broken config from its backup", function () {
+      fs.writeFileSync(configPath, "[accounts.default\n", { mode: 0o600 });
+      fs.writeFileSync(`${configPath}.bak`, VALID_CONFIG, { mode: 0o600 });
+
+      const check = diagnoseConfig(configPath);
+      expect(check.findings.map((finding) => finding.check)).to.deep.equal([
+        "syntax",
+        "backup",
+      ]);
+      expect(check.findings.every((finding) => !finding.fixed)).to.be.true;
+
+      const report = diagnoseConfig(configPath, { fix: true });
+      expect(report.findings.every((finding) => finding.fixed)).to.be.true;
+      expect(report.preserved).to.have.length(1);
+      expect(fs.readFileSync(report.preserved[0], "utf8")).to.equal(
+        "[accounts.default\n",
+      );
+      expect(new ConfigManager().getAccessToken()).to.equal("token");
+    });
+
+    it("should repair schema problems, keeping a copy of the original", function () {
+      const broken = `${VALID_CONFIG}\n[accounts.other]\naccessToken = 5\n`;
+      fs.writeFileSync(configPath, broken, { mode: 0o644 });
+      fs.writeFileSync(`${configPath}.123.tmp`, "partial");
+
+      const report = diagnoseConfig(configPath, { fix: true });
+      expect(report.findings.map((finding) => finding.check)).to.deep.equal([
+        "temp-files",
+        "permissions",
+        "schema",
+      ]);
+      expect(report.findings.every((finding) => finding.fixed)).to.be.true;
+      expect(fs.readFileSync(report.preserved[0], "utf8")).to.equal(broken);
+      expect(fs.existsSync(`${configPath}.123.tmp`)).to.be.false;
+
+      const configManager = new ConfigManager();
+      expect(configManager.getAccessToken("default")).to.equal("token");
+      expect(configManager.hasAccessToken("other")).to.be.false;
+      expect(diagnoseConfig(configPath).findings).to.deep.equal([]);
+    });
+  });
+});
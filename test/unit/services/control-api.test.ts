@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import nock from "nock";
-import { ControlApi } from "../../../src/services/control-api.js";
+import { ControlApi, ControlApiError } from "../../../src/services/control-api.js";
 
 // Skip tests if we're in CI without API keys
 const SHOULD_SKIP_TESTS = process.env.SKIP_E2E_TESTS === 'true';
@@ -433,5 +433,211 @@ describe("ControlApi", function() {
       }
     });
   });
+
+  describe("retries", function() {
+    beforeEach(function() {
+      api = new ControlApi({
+        accessToken,
+        controlHost,
+        logErrors: false,
+        retryBaseDelay: 1,
+      });
+    });
+
+    it("should retry rate-limited requests honoring Retry-After", async function() {
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/namespaces")
+        .reply(429, { message: "Rate limit exceeded" }, { "Retry-After": "0" })
+        .get("/v1/apps/test-app-id/namespaces")
+        .reply(200, [{ id: "chat" }]);
+
+      const namespaces = await api.listNamespaces("test-app-id");
+
+      expect(namespaces).to.deep.equal([{ id: "chat" }]);
+      expect(nock.isDone()).to.be.true;
+    });
+
+    it("should retry rate-limited POST requests", async function() {
+      nock(`https://${controlHost}`)
+        .post("/v1/apps/test-app-id/keys")
+        .reply(429, {}, { "Retry-After": new Date().toUTCString() })
+        .post("/v1/apps/test-app-id/keys")
+        .reply(201, { id: "key-id", name: "New Key" });
+
+      const key = await api.createKey("test-app-id", { name: "New Key" });
+
+      expect(key.id).to.equal("key-id");
+    });
+
+    it("should retry transient server errors for idempotent requests", async function() {
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/namespaces")
+        .reply(503)
+        .get("/v1/apps/test-app-id/namespaces")
+        .reply(502)
+        .get("/v1/apps/test-app-id/namespaces")
+        .reply(200, [{ id: "chat" }]);
+
+      const namespaces = await api.listNamespaces("test-app-id");
+
+      expect(namespaces).to.have.lengthOf(1);
+    });
+
+    it("should not retry transient server errors for POST requests", async function() {
+      nock(`https://${controlHost}`)
+        .post("/v1/apps/test-app-id/keys")
+        .reply(503, { message: "Service unavailable" });
+
+      try {
+        await api.createKey("test-app-id", { name: "New Key" });
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).to.be.an.instanceOf(ControlApiError);
+        expect((error as ControlApiError).statusCode).to.equal(503);
+      }
+    });
+
+    it("should retry transient network errors for idempotent requests", async function() {
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/namespaces")
+        .replyWithError(
+          Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }),
+        )
+        .get("/v1/apps/test-app-id/namespaces")
+        .reply(200, [{ id: "chat" }]);
+
+      const namespaces = await api.listNamespaces("test-app-id");
+
+      expect(namespaces).to.have.lengthOf(1);
+    });
+
+    it("should not retry other request failures", async function() {
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/namespaces")
+        .replyWithError("Network error");
+
+      try {
+        await api.listNamespaces("test-app-id");
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).to.include("Network error");
+      }
+    });
+
+    it("should give up after maxRetries attempts", async function() {
+      api = new ControlApi({
+        accessToken,
+        controlHost,
+        logErrors: false,
+        maxRetries: 2,
+        retryBaseDelay: 1,
+      });
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/namespaces")
+        .times(3)
+        .reply(504);
+
+      try {
+        await api.listNamespaces("test-app-id");
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect((error as ControlApiError).statusCode).to.equal(504);
+        expect(nock.isDone()).to.be.true;
+      }
+    });
+  });
+
+  describe("pagination", function() {
+    it("should follow Link headers until the last page", async function() {
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/keys")
+        .reply(200, [{ id: "key-1" }], {
+          Link: '</v1/apps/test-app-id/keys?page=2>; rel="next", </v1/apps/test-app-id/keys>; rel="first"',
+        })
+        .get("/v1/apps/test-app-id/keys")
+        .query({ page: "2" })
+        .reply(200, [{ id: "key-2" }], {
+          Link: `<https://${controlHost}/v1/apps/test-app-id/keys?page=3>; rel="next"`,
+        })
+        .get("/v1/apps/test-app-id/keys")
+        .query({ page: "3" })
+        .reply(200, [{ id: "key-3" }]);
+
+      const keys = await api.listKeys("test-app-id");
+
+      expect(keys.map((key) => key.id)).to.deep.equal([
+        "key-1",
+        "key-2",
+        "key-3",
+      ]);
+    });
+
+    it("should stop at a Link header to a page already fetched", async function() {
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/keys")
+        .reply(200, [{ id: "key-1" }], {
+          Link: '</v1/apps/test-app-id/keys?page=2>; rel="next"',
+        })
+        .get("/v1/apps/test-app-id/keys")
+        .query({ page: "2" })
+        .reply(200, [{ id: "key-2" }], {
+          Link: '</v1/apps/test-app-id/keys>; rel="next"',
+        });
+
+      const keys = await api.listKeys("test-app-id");
+
+      expect(keys.map((key) => key.id)).to.deep.equal(["key-1", "key-2"]);
+      expect(nock.isDone()).to.be.true;
+    });
+
+    it("should not follow Link headers to another host", async function() {
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/keys")
+        .reply(200, [{ id: "key-1" }], {
+          Link: '<https://attacker.example.com/v1/apps/test-app-id/keys?page=2>; rel="next"',
+        });
+
+      try {
+        await api.listKeys("test-app-id");
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect((error as Error).message).to.include(
+          "https://attacker.example.com",
+        );
+        expect(nock.isDone()).to.be.true;
+      }
+    });
+  });
+
+  describe("ControlApiError", function() {
+    it("should expose the status, Ably code, href and response body", async function() {
+      const body = {
+        code: 40_160,
+        href: "https://help.ably.io/error/40160",
+        message: "Action not permitted",
+        statusCode: 401,
+      };
+      nock(`https://${controlHost}`)
+        .get("/v1/apps/test-app-id/namespaces")
+        .reply(401, body);
+
+      try {
+        await api.listNamespaces("test-app-id");
+        expect.fail("Should have thrown an error");
+      } catch (error) {
+        expect(error).to.be.an.instanceOf(ControlApiError);
+        const apiError = error as ControlApiError;
+        expect(apiError.message).to.equal(
+          "API request failed (401 Unauthorized): Action not permitted",
+        );
+        expect(apiError.statusCode).to.equal(401);
+        expect(apiError.code).to.equal(40_160);
+        expect(apiError.href).to.equal("https://help.ably.io/error/40160");
+        expect(apiError.response).to.deep.equal(body);
+        expect(apiError.hint).to.include("ably accounts login");
+        expect(apiError.toJSON()).to.include({ code: 40_160, statusCode: 401 });
+      }
+    });
+  });
 });
 }
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import {
+  Paginated,
+  collectPages,
+  exportPages,
+  inferFormat,
+  toCsvRow,
+} from "../../../src/services/history-export.js";
+
+// Build a chain of pages from arrays of items
+function pages<T>(...batches: T[][]): Paginated<T> {
+  const build = (index: number): Paginated<T> => ({
+    hasNext: () => index < batches.length - 1,
+    items: batches[index],
+    next: async () => (index < batches.length - 1 ? build(index + 1) : null),
+  });
+  return build(0);
+}
+
+describe("history-export", function () {
+  describe("collectPages", function () {
+    it("should only return the first page by default", async function () {
+      const result = await collectPages(pages([1, 2], [3, 4]));
+
+      expect(result.items).to.deep.equal([1, 2]);
+      expect(result.truncated).to.be.true;
+    });
+
+    it("should follow every page with all", async function () {
+      const progress: number[] = [];
+      const result = await collectPages(pages([1, 2], [3, 4], [5]), {
+        all: true,
+        onPage: (fetched) => progress.push(fetched),
+      });
+
+      expect(result.items).to.deep.equal([1, 2, 3, 4, 5]);
+      expect(result.truncated).to.be.false;
+      expect(progress).to.deep.equal([2, 4, 5]);
+    });
+
+    it("should stop at max, even part way through a page", async function () {
+      const result = await collectPages(pages([1, 2], [3, 4], [5]), {
+        all: true,
+        max: 3,
+      });
+
+      expect(result.items).to.deep.equal([1, 2, 3]);
+      expect(result.truncated).to.be.true;
+    });
+
+    it("should not report truncation when max lands on the last item", async function () {
+      const result = await collectPages(pages([1, 2], [3]), {
+        all: true,
+        max: 3,
+      });
+
+      expect(result.truncated).to.be.false;
+    });
+  });
+
+  describe("exportPages", function () {
+    let tempDir: string;
+
+    beforeEach(function () {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-history-export-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(tempDir, { force: true, recursive: true });
+    });
+
+    it("should write NDJSON records", async function () {
+      const file = path.join(tempDir, "history.ndjson");
+      const result = await exportPages(pages([{ id: "a" }], [{ id: "b" }]), {
+        all: true,
+        columns: ["id"],
+        output: file,
+        toRecord: (item) => ({ ...item, exported: true }),
+      });
+
+      expect(result).to.include({ count: 2, format: "ndjson", truncated: false });
+      expect(fs.readFileSync(file, "utf8")).to.equal(
+        '{"id":"a","exported":true}\n{"id":"b","exported":true}\n',
+      );
+    });
+
+    it("should write CSV with a header when the file ends in .csv", async function () {
+      const file = path.join(tempDir, "history.csv");
+      await exportPages(pages([{ data: { n: 1 }, name: "a,b" }]), {
+        columns: ["name", "data", "missing"],
+        output: file,
+        toRecord: (item) => item,
+      });
+
+      expect(fs.readFileSync(file, "utf8")).to.equal(
+        'name,data,missing\n"a,b","{""n"":1}",\n',
+      );
+    });
+  });
+
+  describe("toCsvRow", function () {
+    it("should quote values containing separators, quotes or newlines", function () {
+      expect(toCsvRow(["plain", 'say "hi"', "two\nlines", 3, null])).to.equal(
+        'plain,"say ""hi""","two\nlines",3,\n',
+      );
+    });
+  });
+
+  describe("inferFormat", function () {
+    it("should pick CSV only for .csv files", function () {
+      expect(inferFormat("out.CSV")).to.equal("csv");
+      expect(inferFormat("out.ndjson")).to.equal("ndjson");
+      expect(inferFormat()).to.equal("ndjson");
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { expect } from "chai";
+
+import { setEnvVariable } from "../../../src/services/key-rotation.js";
+
+describe("key-rotation", function () {
+  describe("setEnvVariable", function () {
+    it("should replace existing assignments and keep other lines", function () {
+      const content = [
+        "# Ably",
+        "ABLY_API_KEY=app.old:secret",
+        "OTHER=1",
+        'export ABLY_API_KEY="app.old:secret"',
+        "",
+      ].join("\n");
+
+      expect(
+        setEnvVariable(content, "ABLY_API_KEY", "app.new:secret"),
+      ).to.equal(
+        [
+          "# Ably",
+          "ABLY_API_KEY=app.new:secret",
+          "OTHER=1",
+          "export ABLY_API_KEY=app.new:secret",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should append the variable when it is not set", function () {
+      expect(setEnvVariable("", "ABLY_API_KEY", "k")).to.equal(
+        "ABLY_API_KEY=k\n",
+      );
+      expect(setEnvVariable("OTHER=1", "ABLY_API_KEY", "k")).to.equal(
+        "OTHER=1\nABLY_API_KEY=k\n",
+      );
+      expect(
+        setEnvVariable("ABLY_API_KEY_OLD=x\n", "ABLY_API_KEY", "k"),
+      ).to.equal("ABLY_API_KEY_OLD=x\nABLY_API_KEY=k\n");
+    });
+
+    it("should reject invalid variable names", function () {
+      expect(() => setEnvVariable("", "NOT-VALID", "k")).to.throw(
+        'Invalid environment variable name "NOT-VALID"',
+      );
+    });
+  });
+});
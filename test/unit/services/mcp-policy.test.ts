@@ -0,0 +1,217 @@
+import { expect } from "chai";
+
+import {
+  McpPolicyEnforcer,
+  McpToolInvocation,
+  applyPolicyOverrides,
+  defaultPolicy,
+  parsePolicy,
+} from "../../../src/services/mcp-policy.js";
+
+function publish(
+  channel: string,
+  payload: unknown = "hello",
+): McpToolInvocation {
+  return {
+    arguments: { channel, message: payload },
+    channels: [channel],
+    mutating: false,
+    payload,
+    tool: "publish_to_channel",
+  };
+}
+
+function read(tool: string, channels: string[] = []): McpToolInvocation {
+  return { arguments: {}, channels, mutating: false, tool };
+}
+
+describe("mcp-policy", function () {
+  describe("parsePolicy", function () {
+    it("should default to a policy that allows everything", function () {
+      expect(defaultPolicy()).to.deep.equal({
+        channels: { deny: [] },
+        publish: {},
+        readOnly: false,
+        requireApproval: [],
+        version: 1,
+      });
+    });
+
+    it("should parse YAML policies", function () {
+      const policy = parsePolicy(
+        [
+          "readOnly: true",
+          "channels:",
+          '  allow: ["agents:*"]',
+          "publish:",
+          "  maxPerMinute: 10",
+        ].join("\n"),
+      );
+
+      expect(policy.readOnly).to.equal(true);
+      expect(policy.channels.allow).to.deep.equal(["agents:*"]);
+      expect(policy.publish.maxPerMinute).to.equal(10);
+    });
+
+    it("should reject unknown keys and invalid limits", function () {
+      expect(() => parsePolicy("readonly: true")).to.throw(/Invalid policy/);
+      expect(() => parsePolicy("publish:\n  maxPerMinute: 0")).to.throw(
+        /publish\.maxPerMinute/,
+      );
+    });
+  });
+
+  describe("applyPolicyOverrides", function () {
+    it("should add to lists, replace limits and only turn read-only on", function () {
+      const policy = applyPolicyOverrides(
+        parsePolicy(
+          [
+            "readOnly: true",
+            "channels:",
+            '  deny: ["secret:*"]',
+            "publish:",
+            "  maxPerMinute: 10",
+          ].join("\n"),
+        ),
+        {
+          allowChannels: ["agents:*"],
+          denyChannels: ["admin:*"],
+          maxPublishesPerMinute: 5,
+          readOnly: false,
+          requireApproval: ["delete_*"],
+        },
+      );
+
+      expect(policy.channels).to.deep.equal({
+        allow: ["agents:*"],
+        deny: ["secret:*", "admin:*"],
+      });
+      expect(policy.publish.maxPerMinute).to.equal(5);
+      expect(policy.readOnly).to.equal(true);
+      expect(policy.requireApproval).to.deep.equal(["delete_*"]);
+    });
+
+    it("should leave the allowlist unset when none is given", function () {
+      const policy = applyPolicyOverrides(defaultPolicy(), {
+        allowChannels: [],
+      });
+      expect(policy.channels.allow).to.equal(undefined);
+    });
+  });
+
+  describe("McpPolicyEnforcer", function () {
+    it("should allow everything under the default policy", function () {
+      const enforcer = new McpPolicyEnforcer(defaultPolicy());
+      expect(enforcer.check(publish("any"))).to.deep.equal({ allowed: true });
+      expect(enforcer.check(read("list_apps"))).to.deep.equal({
+        allowed: true,
+      });
+    });
+
+    it("should refuse publishing and mutating tools in read-only mode", function () {
+      const enforcer = new McpPolicyEnforcer(parsePolicy("readOnly: true"));
+
+      expect(enforcer.check(publish("any"))).to.include({
+        allowed: false,
+        policy: "readOnly",
+      });
+      expect(
+        enforcer.check({ ...read("create_queue"), mutating: true }),
+      ).to.include({ allowed: false, policy: "readOnly" });
+      expect(
+        enforcer.check(read("get_channel_history", ["any"])),
+      ).to.deep.equal({ allowed: true });
+    });
+
+    it("should check channels against the denylist before the allowlist", function () {
+      const enforcer = new McpPolicyEnforcer(
+        applyPolicyOverrides(defaultPolicy(), {
+          allowChannels: ["agents:*"],
+          denyChannels: ["agents:admin"],
+        }),
+      );
+
+      expect(enforcer.checkChannel("agents:1")).to.deep.equal({
+        allowed: true,
+      });
+      expect(enforcer.checkChannel("agents:admin")).to.include({
+        allowed: false,
+        policy: "channelDenylist",
+      });
+      expect(enforcer.check(publish("other"))).to.include({
+        allowed: false,
+        policy: "channelAllowlist",
+      });
+    });
+
+    it("should refuse tools that require approval", function () {
+      const enforcer = new McpPolicyEnforcer(
+        applyPolicyOverrides(defaultPolicy(), {
+          requireApproval: ["delete_*"],
+        }),
+      );
+
+      expect(enforcer.check(read("delete_queue"))).to.include({
+        allowed: false,
+        policy: "requireApproval",
+      });
+      expect(enforcer.check(read("list_queues"))).to.deep.equal({
+        allowed: true,
+      });
+    });
+
+    it("should refuse payloads over the size limit", function () {
+      const enforcer = new McpPolicyEnforcer(
+        applyPolicyOverrides(defaultPolicy(), { maxPayloadBytes: 10 }),
+      );
+
+      expect(enforcer.check(publish("c", "0123456789"))).to.deep.equal({
+        allowed: true,
+      });
+      expect(enforcer.check(publish("c", "01234567890"))).to.include({
+        allowed: false,
+        policy: "payloadSize",
+      });
+      expect(enforcer.check(publish("c", { text: "0123456789" }))).to.include({
+        allowed: false,
+        policy: "payloadSize",
+      });
+    });
+
+    it("should limit publishes over a sliding minute", function () {
+      let now = 0;
+      const enforcer = new McpPolicyEnforcer(
+        applyPolicyOverrides(defaultPolicy(), { maxPublishesPerMinute: 2 }),
+        () => now,
+      );
+
+      expect(enforcer.check(publish("c")).allowed).to.equal(true);
+      now = 30_000;
+      expect(enforcer.check(publish("c")).allowed).to.equal(true);
+      const decision = enforcer.check(publish("c"));
+      expect(decision).to.include({ allowed: false, policy: "publishRate" });
+      expect(decision.allowed === false && decision.message).to.match(
+        /retry in 30s/,
+      );
+
+      now = 60_000;
+      expect(enforcer.check(publish("c")).allowed).to.equal(true);
+      expect(enforcer.check(publish("c")).allowed).to.equal(false);
+    });
+
+    it("should not count refused publishes towards the rate limit", function () {
+      let now = 0;
+      const enforcer = new McpPolicyEnforcer(
+        applyPolicyOverrides(defaultPolicy(), {
+          denyChannels: ["secret"],
+          maxPublishesPerMinute: 1,
+        }),
+        () => now,
+      );
+
+      expect(enforcer.check(publish("secret")).allowed).to.equal(false);
+      now = 1000;
+      expect(enforcer.check(publish("public")).allowed).to.equal(true);
+    });
+  });
+});
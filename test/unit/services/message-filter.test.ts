@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import * as Ably from "ably";
+
+import {
+  evaluateFilter,
+  messageFields,
+  parseFilter,
+  toServerFilter,
+} from "../../../src/services/message-filter.js";
+
+describe("message-filter", function () {
+  const message = {
+    clientId: "alice",
+    data: { items: [{ sku: "A-1" }], status: "paid", total: 150 },
+    headers: { region: "eu", "x-priority": "5" },
+    name: "order",
+  };
+
+  const matches = (expression: string, value: unknown = message) =>
+    evaluateFilter(parseFilter(expression), value);
+
+  describe("evaluateFilter", function () {
+    it("should compare names, client IDs, headers and paths into data", function () {
+      expect(matches('name == "order" && data.total > 100')).to.be.true;
+      expect(matches("clientId == 'bob'")).to.be.false;
+      expect(matches('headers.region != "us"')).to.be.true;
+      expect(matches('headers["x-priority"] >= 5')).to.be.true;
+      expect(matches('data.items[0].sku == "A-1"')).to.be.true;
+    });
+
+    it("should support ||, !, parentheses and regular expressions", function () {
+      expect(matches('name == "refund" || data.status == "paid"')).to.be.true;
+      expect(matches('!(name == "order")')).to.be.false;
+      expect(matches('clientId =~ "^ali"')).to.be.true;
+      expect(matches('(name == "a" || name == "order") && !data.refunded')).to
+        .be.true;
+    });
+
+    it("should not match missing paths or mismatched types", function () {
+      expect(matches("data.missing > 1")).to.be.false;
+      expect(matches('data.missing == "x"')).to.be.false;
+      expect(matches("data.missing != 1")).to.be.true;
+      expect(matches('data.total > "abc"')).to.be.false;
+      expect(matches("name == 1", "text")).to.be.false;
+    });
+  });
+
+  describe("parseFilter", function () {
+    it("should report where the expression is invalid", function () {
+      expect(() => parseFilter("")).to.throw("empty");
+      expect(() => parseFilter('name == "order')).to.throw("Unterminated");
+      expect(() => parseFilter("name == ")).to.throw("Expected a path or value");
+      expect(() => parseFilter("name = 1")).to.throw("position 6");
+      expect(() => parseFilter("name =~ 1")).to.throw(
+        "quoted regular expression",
+      );
+    });
+  });
+
+  describe("toServerFilter", function () {
+    it("should translate filters on name and headers to JMESPath", function () {
+      expect(
+        toServerFilter(
+          parseFilter('name == "order" && extras.headers["x-priority"] > 3'),
+        ),
+      ).to.equal('(name == `"order"` && headers."x-priority" > `3`)');
+      expect(toServerFilter(parseFilter("!headers.urgent"))).to.equal(
+        "!(headers.urgent)",
+      );
+    });
+
+    it("should not translate filters on other fields or with =~", function () {
+      expect(toServerFilter(parseFilter("data.total > 100"))).to.be.undefined;
+      expect(toServerFilter(parseFilter('name =~ "^order"'))).to.be.undefined;
+    });
+  });
+
+  describe("messageFields", function () {
+    it("should expose extras.headers as headers and parse JSON string data", function () {
+      const fields = messageFields({
+        data: '{"total": 150}',
+        extras: { headers: { region: "eu" } },
+        name: "order",
+      } as Ably.Message);
+
+      expect(fields.headers).to.deep.equal({ region: "eu" });
+      expect(fields.data).to.deep.equal({ total: 150 });
+      expect(fields.name).to.equal("order");
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { parse as parseYaml } from "yaml";
+
+import AppsList from "../../../src/commands/apps/list.js";
+import ChannelsPublish from "../../../src/commands/channels/publish.js";
+import {
+  RecordOutput,
+  evaluateQuery,
+  formatRecords,
+  parseFields,
+} from "../../../src/services/output-formatter.js";
+
+const QUEUES: RecordOutput = {
+  columns: ["id", "name", "messages.total"],
+  key: "queues",
+  meta: { appId: "app1", success: true },
+  records: [
+    { id: "q1", messages: { ready: 1, total: 3 }, name: "orders" },
+    { id: "q2", messages: { ready: 0, total: 0 }, name: 'say "hi", bye' },
+  ],
+};
+
+describe("output-formatter", function () {
+  describe("evaluateQuery", function () {
+    const document = {
+      apps: [
+        { id: "a", keys: [{ name: "root" }, { name: "sub" }] },
+        { id: "b", keys: [] },
+      ],
+      total: 2,
+    };
+
+    it("should select keys and indexes", function () {
+      expect(evaluateQuery(document, ".total")).to.equal(2);
+      expect(evaluateQuery(document, "$.apps[0].id")).to.equal("a");
+      expect(evaluateQuery(document, 'apps[-1]["id"]')).to.equal("b");
+      expect(evaluateQuery(document, ".")).to.equal(document);
+      expect(evaluateQuery(document, ".missing.deeper")).to.be.undefined;
+    });
+
+    it("should return every match of a wildcard", function () {
+      expect(evaluateQuery(document, ".apps[].id")).to.deep.equal(["a", "b"]);
+      expect(evaluateQuery(document, "$.apps[*].keys[*].name")).to.deep.equal([
+        "root",
+        "sub",
+      ]);
+      expect(evaluateQuery({ x: { a: 1, b: 2 } }, ".x.*")).to.deep.equal([
+        1, 2,
+      ]);
+    });
+
+    it("should reject unsupported syntax", function () {
+      expect(() => evaluateQuery(document, ".apps[?(@.id)]")).to.throw(
+        /Invalid query/,
+      );
+      expect(() => evaluateQuery(document, ".apps[0")).to.throw(/missing \]/);
+    });
+  });
+
+  describe("formatRecords", function () {
+    it("should wrap records with the command's other output in JSON and YAML", function () {
+      const json = JSON.parse(formatRecords(QUEUES, { format: "json" }));
+      expect(json).to.deep.equal({ ...QUEUES.meta, queues: QUEUES.records });
+      expect(
+        parseYaml(formatRecords(QUEUES, { format: "yaml" })),
+      ).to.deep.equal(json);
+    });
+
+    it("should write one record per line as NDJSON", function () {
+      const lines = formatRecords(QUEUES, { format: "ndjson" }).split("\n");
+      expect(lines.map((line) => JSON.parse(line))).to.deep.equal(
+        QUEUES.records,
+      );
+    });
+
+    it("should write the default columns as CSV", function () {
+      expect(formatRecords(QUEUES, { format: "csv" })).to.equal(
+        'id,name,messages.total\nq1,orders,3\nq2,"say ""hi"", bye",0',
+      );
+    });
+
+    it("should keep only the selected fields", function () {
+      const fields = parseFields("id, messages.ready");
+      expect(formatRecords(QUEUES, { fields, format: "csv" })).to.equal(
+        "id,messages.ready\nq1,1\nq2,0",
+      );
+      expect(
+        JSON.parse(formatRecords(QUEUES, { fields, format: "json" })).queues,
+      ).to.deep.equal([
+        { id: "q1", "messages.ready": 1 },
+        { id: "q2", "messages.ready": 0 },
+      ]);
+    });
+
+    it("should format the result of a query", function () {
+      expect(
+        formatRecords(QUEUES, { format: "ndjson", query: ".queues[].name" }),
+      ).to.equal('"orders"\n"say \\"hi\\", bye"');
+      expect(
+        formatRecords(QUEUES, { format: "csv", query: ".queues[].id" }),
+      ).to.equal("value\nq1\nq2");
+      expect(
+        formatRecords(QUEUES, { format: "json", query: ".appId" }),
+      ).to.equal('"app1"');
+    });
+
+    it("should lay out tables with a row per record", function () {
+      const table = formatRecords(QUEUES, { format: "table" });
+      const lines = table.split("\n");
+      expect(lines[1]).to.match(/id\s*│\s*name\s*│\s*messages\.total/);
+      expect(table).to.include("orders");
+      expect(table).to.match(/q2\s*│\s*say "hi", bye\s*│\s*0/);
+    });
+
+    it("should show a single record as field and value rows", function () {
+      const table = formatRecords(
+        {
+          columns: ["id", "capability"],
+          key: "key",
+          records: { capability: { "*": ["publish"] }, id: "k1" },
+        },
+        { format: "table" },
+      );
+      expect(table).to.match(/id\s*│\s*k1/);
+      expect(table).to.include('{"*":["publish"]}');
+    });
+  });
+
+  describe("outputFormatFlags", function () {
+    it("should only be accepted by commands that format their results", function () {
+      expect(AppsList.flags).to.include.keys("fields", "format", "query");
+      expect(ChannelsPublish.flags).to.not.have.any.keys(
+        "fields",
+        "format",
+        "query",
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { ConfigManager } from "../../../src/services/config-manager.js";
+import {
+  PROJECT_CONFIG_FILE,
+  findProjectConfig,
+  loadProjectConfig,
+} from "../../../src/services/project-config.js";
+
+const GLOBAL_CONFIG = `
+version = 2
+
+[current]
+account = "personal"
+
+[accounts.personal]
+accessToken = "personal-token"
+currentAppId = "personalApp"
+
+[accounts.work]
+accessToken = "work-token"
+currentAppId = "devApp"
+
+[accounts.work.apps.devApp]
+apiKey = "devApp.devKey:secret"
+keyName = "Dev"
+
+[accounts.work.apps.prodApp]
+apiKey = "prodApp.rootKey:secret"
+keyName = "Root"
+
+[profiles.staging]
+account = "work"
+app = "stagingApp"
+`;
+
+describe("project-config", function () {
+  let tempDir: string;
+  let projectDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(function () {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-project-config-"));
+    projectDir = path.join(tempDir, "repo");
+    fs.mkdirSync(path.join(projectDir, "src", "nested"), { recursive: true });
+
+    const configDir = path.join(tempDir, "home");
+    fs.mkdirSync(configDir);
+    fs.writeFileSync(path.join(configDir, "config"), GLOBAL_CONFIG);
+    originalConfigDir = process.env.ABLY_CLI_CONFIG_DIR;
+    process.env.ABLY_CLI_CONFIG_DIR = configDir;
+  });
+
+  afterEach(function () {
+    if (originalConfigDir === undefined) {
+      delete process.env.ABLY_CLI_CONFIG_DIR;
+    } else {
+      process.env.ABLY_CLI_CONFIG_DIR = originalConfigDir;
+    }
+
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  const writeProject = (content: string) =>
+    fs.writeFileSync(path.join(projectDir, PROJECT_CONFIG_FILE), content);
+
+  describe("findProjectConfig", function () {
+    it("should find the nearest .ably.toml in a parent directory", function () {
+      writeProject('app = "devApp"\n');
+      expect(
+        findProjectConfig(path.join(projectDir, "src", "nested")),
+      ).to.equal(path.join(projectDir, PROJECT_CONFIG_FILE));
+    });
+
+    it("should return undefined when there is none", function () {
+      expect(findProjectConfig(path.join(projectDir, "src"))).to.satisfy(
+        (found: string | undefined) =>
+          found === undefined || !found.startsWith(tempDir),
+      );
+    });
+  });
+
+  describe("loadProjectConfig", function () {
+    it("should reject unknown settings", function () {
+      writeProject('app = "devApp"\napId = "typo"\n');
+      expect(() =>
+        loadProjectConfig(path.join(projectDir, PROJECT_CONFIG_FILE)),
+      ).to.throw(/Invalid project config[\s\S]*apId/);
+    });
+  });
+
+  describe("ConfigManager with a project config", function () {
+    it("should pin the account, app and settings without changing the global config", function () {
+      writeProject(
+        'account = "work"\napp = "devApp"\nenvironment = "sandbox"\nclientId = "ci"\n',
+      );
+      const configManager = new ConfigManager({ cwd: projectDir });
+
+      expect(configManager.getCurrentAccountAlias()).to.equal("work");
+      expect(configManager.getCurrentAppId()).to.equal("devApp");
+      expect(configManager.getApiKey()).to.equal("devApp.devKey:secret");
+      expect(configManager.getPinnedSetting("clientId")).to.deep.equal({
+        source: "project",
+        value: "ci",
+      });
+
+      const global = new ConfigManager({ cwd: tempDir });
+      expect(global.getCurrentAccountAlias()).to.equal("personal");
+      expect(global.getCurrentAppId()).to.equal("personalApp");
+    });
+
+    it("should only use a stored key that matches the pinned key", function () {
+      writeProject('account = "work"\napp = "prodApp"\nkey = "Publish"\n');
+      expect(new ConfigManager({ cwd: projectDir }).getApiKey()).to.be
+        .undefined;
+
+      writeProject('account = "work"\napp = "prodApp"\nkey = "rootKey"\n');
+      const configManager = new ConfigManager({ cwd: projectDir });
+      expect(configManager.getApiKey()).to.equal("prodApp.rootKey:secret");
+      expect(configManager.getKeyName()).to.equal("Root");
+    });
+
+    it("should apply profiles from the project before the global config", function () {
+      writeProject(
+        'account = "work"\napp = "devApp"\nprofile = "dev"\n\n[profiles.dev]\nclientId = "dev-client"\n\n[profiles.prod]\napp = "prodApp"\n',
+      );
+      const configManager = new ConfigManager({ cwd: projectDir });
+
+      configManager.useProfile();
+      expect(configManager.getProfileName()).to.equal("dev");
+      expect(configManager.getCurrentAppId()).to.equal("devApp");
+      expect(configManager.getPinnedSetting("clientId")).to.deep.equal({
+        profile: "dev",
+        source: "project",
+        value: "dev-client",
+      });
+
+      configManager.useProfile("prod");
+      expect(configManager.getPinnedSetting("app")).to.deep.equal({
+        profile: "prod",
+        source: "project",
+        value: "prodApp",
+      });
+      expect(configManager.getPinnedSetting("account")).to.deep.equal({
+        source: "project",
+        value: "work",
+      });
+
+      configManager.useProfile("staging");
+      expect(configManager.getPinnedSetting("app")).to.deep.equal({
+        profile: "staging",
+        source: "global",
+        value: "stagingApp",
+      });
+
+      expect(() => configManager.useProfile("missing")).to.throw(
+        /Profile "missing" is not defined/,
+      );
+    });
+
+    it("should ignore the host and environment until the project is trusted", function () {
+      writeProject(
+        'app = "devApp"\nhost = "ably.attacker.example"\n\n[profiles.dev]\nenvironment = "sandbox"\n',
+      );
+      const configManager = new ConfigManager({ cwd: projectDir });
+      configManager.useProfile("dev");
+
+      expect(configManager.isProjectTrusted()).to.be.false;
+      expect(configManager.getPinnedSetting("host")).to.be.undefined;
+      expect(configManager.getPinnedSetting("environment")).to.be.undefined;
+      expect(configManager.getPinnedSetting("app")?.value).to.equal("devApp");
+      expect(configManager.getUntrustedProjectEndpoints()).to.deep.equal([
+        {
+          name: "environment",
+          setting: { profile: "dev", source: "project", value: "sandbox" },
+        },
+        {
+          name: "host",
+          setting: { source: "project", value: "ably.attacker.example" },
+        },
+      ]);
+
+      expect(configManager.setProjectTrusted(true)).to.equal(projectDir);
+      const trusted = new ConfigManager({ cwd: path.join(projectDir, "src") });
+      trusted.useProfile("dev");
+      expect(trusted.getUntrustedProjectEndpoints()).to.be.empty;
+      expect(trusted.getPinnedSetting("host")).to.deep.equal({
+        source: "project",
+        value: "ably.attacker.example",
+      });
+      expect(trusted.getPinnedSetting("environment")?.value).to.equal(
+        "sandbox",
+      );
+
+      trusted.setProjectTrusted(false);
+      expect(
+        new ConfigManager({ cwd: projectDir }).getPinnedSetting("host"),
+      ).to.be.undefined;
+    });
+
+    it("should record an invalid project config instead of throwing", function () {
+      writeProject("app = 5\n");
+      const configManager = new ConfigManager({ cwd: projectDir });
+      expect(configManager.getProjectConfigError()).to.match(/app/);
+      expect(configManager.getCurrentAppId()).to.equal("personalApp");
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import * as Ably from "ably";
+
+import {
+  deviceDetails,
+  deviceToRecord,
+  pushPayload,
+  pushRecipient,
+} from "../../../src/services/push-admin.js";
+
+describe("push-admin", function () {
+  describe("pushRecipient", function () {
+    it("should build a recipient from a device ID, client ID or raw JSON", function () {
+      expect(pushRecipient({ device: "d1" })).to.deep.equal({ deviceId: "d1" });
+      expect(pushRecipient({ client: "c1" })).to.deep.equal({ clientId: "c1" });
+      expect(
+        pushRecipient({
+          recipient: '{"transportType":"fcm","registrationToken":"t"}',
+        }),
+      ).to.deep.equal({ registrationToken: "t", transportType: "fcm" });
+    });
+
+    it("should require exactly one recipient", function () {
+      expect(() => pushRecipient({})).to.throw("exactly one recipient");
+      expect(() => pushRecipient({ client: "c1", device: "d1" })).to.throw(
+        "exactly one recipient",
+      );
+    });
+
+    it("should reject invalid recipient JSON", function () {
+      expect(() => pushRecipient({ recipient: "{" })).to.throw(
+        "Invalid --recipient JSON",
+      );
+      expect(() => pushRecipient({ recipient: "[1]" })).to.throw(
+        "--recipient must be a JSON object",
+      );
+    });
+  });
+
+  describe("pushPayload", function () {
+    it("should merge the notification and data into the payload", function () {
+      expect(
+        pushPayload({
+          body: "World",
+          data: '{"roomId":"r1"}',
+          payload: '{"notification":{"sound":"default"},"apns":{}}',
+          title: "Hello",
+        }),
+      ).to.deep.equal({
+        apns: {},
+        data: { roomId: "r1" },
+        notification: { body: "World", sound: "default", title: "Hello" },
+      });
+    });
+
+    it("should refuse an empty payload", function () {
+      expect(() => pushPayload({})).to.throw("Nothing to send");
+    });
+  });
+
+  describe("deviceDetails", function () {
+    const base = { formFactor: "phone", id: "d1", platform: "ios" };
+
+    it("should build the recipient from the transport type and token", function () {
+      expect(
+        deviceDetails({ ...base, token: "t", transportType: "apns" }).push,
+      ).to.deep.equal({
+        recipient: { deviceToken: "t", transportType: "apns" },
+      });
+      expect(
+        deviceDetails({ ...base, token: "t", transportType: "fcm" }).push,
+      ).to.deep.equal({
+        recipient: { registrationToken: "t", transportType: "fcm" },
+      });
+    });
+
+    it("should require a recipient for web push", function () {
+      expect(() => deviceDetails({ ...base, transportType: "web" })).to.throw(
+        "--recipient",
+      );
+    });
+  });
+
+  describe("deviceToRecord", function () {
+    it("should leave out the device secret", function () {
+      const record = deviceToRecord({
+        deviceSecret: "secret",
+        formFactor: "phone",
+        id: "d1",
+        platform: "ios",
+        push: { state: "ACTIVE" },
+      } as Ably.DeviceDetails);
+
+      expect(record).to.not.have.property("deviceSecret");
+      expect(record).to.include({ id: "d1", platform: "ios" });
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { expect } from "chai";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { ConfigManager } from "../../../src/services/config-manager.js";
+import {
+  EncryptedFileSecretStore,
+  HelperSecretStore,
+  SECRETS_PASSPHRASE_ENV,
+  parseHelperOutput,
+} from "../../../src/services/secret-store.js";
+
+// A credential helper that keeps secrets in a JSON file next to itself
+const HELPER_SCRIPT = `
+import fs from "node:fs";
+const file = new URL("./store.json", import.meta.url);
+const store = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+const input = Object.fromEntries(
+  fs.readFileSync(0, "utf8").split("\\n").filter(Boolean).map((line) => {
+    const i = line.indexOf("=");
+    return [line.slice(0, i), line.slice(i + 1)];
+  }),
+);
+const operation = process.argv[2];
+if (operation === "get" && store[input.key]) console.log("value=" + store[input.key]);
+if (operation === "store") store[input.key] = input.value;
+if (operation === "erase") delete store[input.key];
+fs.writeFileSync(file, JSON.stringify(store));
+`;
+
+describe("secret-store", function () {
+  let tempDir: string;
+  let envBackup: Record<string, string | undefined>;
+
+  beforeEach(function () {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ably-secret-store-"));
+    envBackup = {
+      ABLY_CLI_CONFIG_DIR: process.env.ABLY_CLI_CONFIG_DIR,
+      [SECRETS_PASSPHRASE_ENV]: process.env[SECRETS_PASSPHRASE_ENV],
+    };
+    delete process.env[SECRETS_PASSPHRASE_ENV];
+  });
+
+  afterEach(function () {
+    for (const [name, value] of Object.entries(envBackup)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+
+    fs.rmSync(tempDir, { force: true, recursive: true });
+  });
+
+  describe("EncryptedFileSecretStore", function () {
+    it("should round trip secrets without writing them in plaintext", function () {
+      const file = path.join(tempDir, "secrets.enc");
+      const store = new EncryptedFileSecretStore(file, "correct horse");
+      store.set("accounts/default/accessToken", "token-value");
+
+      const content = fs.readFileSync(file, "utf8");
+      expect(content).to.not.include("token-value");
+      expect(JSON.parse(content).keys).to.deep.equal([
+        "accounts/default/accessToken",
+      ]);
+
+      const reopened = new EncryptedFileSecretStore(file, "correct horse");
+      expect(reopened.get("accounts/default/accessToken")).to.equal(
+        "token-value",
+      );
+    });
+
+    it("should report presence while locked and reject a wrong passphrase", function () {
+      const file = path.join(tempDir, "secrets.enc");
+      new EncryptedFileSecretStore(file, "correct horse").set("a", "1");
+
+      const locked = new EncryptedFileSecretStore(file);
+      expect(locked.isLocked()).to.be.true;
+      expect(locked.has("a")).to.be.true;
+      expect(() => locked.get("a")).to.throw(SECRETS_PASSPHRASE_ENV);
+      expect(() => locked.unlock("wrong")).to.throw("passphrase is incorrect");
+
+      locked.unlock("correct horse");
+      expect(locked.get("a")).to.equal("1");
+    });
+
+    it("should keep the scrypt settings of an existing file when saving", function () {
+      const file = path.join(tempDir, "secrets.enc");
+      const kdf = { N: 2 ** 14, p: 1, r: 8 };
+      const salt = crypto.randomBytes(16);
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv(
+        "aes-256-gcm",
+        crypto.scryptSync("pass", salt, 32, kdf),
+        iv,
+      );
+      const ciphertext = Buffer.concat([
+        cipher.update(JSON.stringify({ a: "1" })),
+        cipher.final(),
+      ]);
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          ciphertext: ciphertext.toString("base64"),
+          iv: iv.toString("base64"),
+          kdf: { ...kdf, name: "scrypt", salt: salt.toString("base64") },
+          keys: ["a"],
+          tag: cipher.getAuthTag().toString("base64"),
+          version: 1,
+        }),
+      );
+
+      new EncryptedFileSecretStore(file, "pass").set("b", "2");
+
+      expect(JSON.parse(fs.readFileSync(file, "utf8")).kdf).to.include(kdf);
+      const reopened = new EncryptedFileSecretStore(file, "pass");
+      expect(reopened.get("a")).to.equal("1");
+      expect(reopened.get("b")).to.equal("2");
+    });
+
+    it("should remove the file once the last secret is deleted", function () {
+      const file = path.join(tempDir, "secrets.enc");
+      const store = new EncryptedFileSecretStore(file, "pass");
+      store.set("a", "1");
+      store.delete("a");
+
+      expect(fs.existsSync(file)).to.be.false;
+    });
+  });
+
+  describe("HelperSecretStore", function () {
+    it("should store, get and erase secrets through the helper", function () {
+      const script = path.join(tempDir, "helper.mjs");
+      fs.writeFileSync(script, HELPER_SCRIPT);
+      const store = new HelperSecretStore(`node "${script}"`);
+
+      store.set("k", "secret=with=equals");
+      expect(new HelperSecretStore(`node "${script}"`).get("k")).to.equal(
+        "secret=with=equals",
+      );
+
+      store.delete("k");
+      expect(new HelperSecretStore(`node "${script}"`).get("k")).to.be
+        .undefined;
+    });
+
+    it("should surface helper failures", function () {
+      const store = new HelperSecretStore(`node -e "process.exit(3)"`);
+      expect(() => store.get("k")).to.throw("exited with status 3");
+    });
+
+    it("should parse name=value output", function () {
+      expect(parseHelperOutput("value=a=b\nother=c\n\n")).to.deep.equal({
+        other: "c",
+        value: "a=b",
+      });
+    });
+  });
+
+  describe("ConfigManager.migrateSecrets", function () {
+    beforeEach(function () {
+      process.env.ABLY_CLI_CONFIG_DIR = tempDir;
+      const configManager = new ConfigManager();
+      configManager.storeAccount("token-value", "default", {
+        accountName: "Test",
+      });
+      configManager.storeAppKey("app1", "app1.key:secret", {
+        appName: "App",
+      });
+    });
+
+    it("should move secrets into an encrypted file and back", function () {
+      const configPath = path.join(tempDir, "config");
+      expect(fs.readFileSync(configPath, "utf8")).to.include("token-value");
+
+      const result = new ConfigManager().migrateSecrets(
+        { backend: "encrypted-file" },
+        { passphrase: "pass" },
+      );
+      expect(result).to.deep.equal({
+        from: "config",
+        migrated: 2,
+        to: "encrypted-file",
+      });
+
+      const config = fs.readFileSync(configPath, "utf8");
+      expect(config).to.not.include("token-value");
+      expect(config).to.not.include("app1.key:secret");
+      expect(config).to.include('backend = "encrypted-file"');
+
+      process.env[SECRETS_PASSPHRASE_ENV] = "pass";
+      const encrypted = new ConfigManager();
+      expect(encrypted.getAccessToken()).to.equal("token-value");
+      expect(encrypted.getApiKey("app1")).to.equal("app1.key:secret");
+      expect(encrypted.getKeyId("app1")).to.equal("app1.key");
+
+      encrypted.migrateSecrets({ backend: "config" });
+      expect(fs.readFileSync(configPath, "utf8")).to.include("token-value");
+      expect(fs.existsSync(path.join(tempDir, "secrets.enc"))).to.be.false;
+    });
+
+    it("should keep secrets out of the config backup", function () {
+      new ConfigManager().migrateSecrets(
+        { backend: "encrypted-file" },
+        { passphrase: "pass" },
+      );
+
+      const backupPath = path.join(tempDir, "config.bak");
+      const backup = fs.readFileSync(backupPath, "utf8");
+      expect(backup).to.include('appName = "App"');
+      expect(backup).to.not.include("token-value");
+      expect(backup).to.not.include("app1.key:secret");
+      expect(fs.statSync(backupPath).mode & 0o777).to.equal(0o600);
+    });
+
+    it("should store new secrets in the configured backend", function () {
+      const script = path.join(tempDir, "helper.mjs");
+      fs.writeFileSync(script, HELPER_SCRIPT);
+      new ConfigManager().migrateSecrets({
+        backend: "helper",
+        helper: `node "${script}"`,
+      });
+
+      const configManager = new ConfigManager();
+      configManager.storeAccount("second-token", "other");
+      expect(configManager.getAccessToken("other")).to.equal("second-token");
+      expect(configManager.hasAccessToken("other")).to.be.true;
+      expect(
+        JSON.parse(fs.readFileSync(path.join(tempDir, "store.json"), "utf8")),
+      ).to.include({ "accounts/other/accessToken": "second-token" });
+
+      configManager.removeAccount("other");
+      expect(new ConfigManager().hasAccessToken("other")).to.be.false;
+    });
+
+    it("should not keep removed secrets in the config backup", function () {
+      const configManager = new ConfigManager();
+      configManager.removeApiKey("app1");
+      configManager.removeAccount("default");
+
+      const backupPath = path.join(tempDir, "config.bak");
+      expect(fs.readFileSync(backupPath, "utf8")).to.include(
+        'accountName = "Test"',
+      );
+      for (const file of fs.readdirSync(tempDir)) {
+        const content = fs.readFileSync(path.join(tempDir, file), "utf8");
+        expect(content, file).to.not.include("token-value");
+        expect(content, file).to.not.include("app1.key:secret");
+      }
+    });
+
+    it("should not leave a replaced key in the config when a store is active", function () {
+      // Keys stored before the store was set up stay in the config until migrated
+      const configPath = path.join(tempDir, "config");
+      const script = path.join(tempDir, "helper.mjs");
+      fs.writeFileSync(script, HELPER_SCRIPT);
+      fs.appendFileSync(
+        configPath,
+        `\n[secrets]\nbackend = "helper"\nhelper = 'node "${script}"'\n`,
+      );
+
+      const configManager = new ConfigManager();
+      expect(configManager.getApiKey("app1")).to.equal("app1.key:secret");
+      configManager.replaceApiKey("app1.key", "app1.newkey:newsecret");
+
+      expect(new ConfigManager().getApiKey("app1")).to.equal(
+        "app1.newkey:newsecret",
+      );
+      expect(fs.readFileSync(configPath, "utf8")).to.not.include(
+        "app1.key:secret",
+      );
+    });
+
+    it("should refuse to migrate to the current backend", function () {
+      expect(() =>
+        new ConfigManager().migrateSecrets({ backend: "config" }),
+      ).to.throw("already stored using the config backend");
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+
+import {
+  matchesUntilCondition,
+  parseUntilCondition,
+} from "../../../src/services/stop-conditions.js";
+
+describe("stop-conditions", function () {
+  describe("parseUntilCondition", function () {
+    it("should split the path from the value", function () {
+      expect(parseUntilCondition("data.status=done")).to.deep.equal({
+        path: "data.status",
+        value: "done",
+      });
+      expect(parseUntilCondition("event = order.created")).to.deep.equal({
+        path: "event",
+        value: "order.created",
+      });
+    });
+
+    it("should keep = in the value and strip surrounding quotes", function () {
+      expect(parseUntilCondition("data.query=a=b")?.value).to.equal("a=b");
+      expect(parseUntilCondition('event="two words"')?.value).to.equal(
+        "two words",
+      );
+    });
+
+    it("should reject conditions without a path", function () {
+      expect(parseUntilCondition("done")).to.be.undefined;
+      expect(parseUntilCondition("=done")).to.be.undefined;
+    });
+  });
+
+  describe("matchesUntilCondition", function () {
+    const event = {
+      clientId: "alice",
+      data: { count: 3, flags: ["a"], ok: true },
+      event: "done",
+    };
+
+    it("should compare values at the path as text", function () {
+      expect(matchesUntilCondition(event, { path: "event", value: "done" })).to
+        .be.true;
+      expect(matchesUntilCondition(event, { path: "data.count", value: "3" }))
+        .to.be.true;
+      expect(matchesUntilCondition(event, { path: "data.ok", value: "true" }))
+        .to.be.true;
+      expect(
+        matchesUntilCondition(event, { path: "data.flags", value: '["a"]' }),
+      ).to.be.true;
+    });
+
+    it("should not match other values or missing paths", function () {
+      expect(matchesUntilCondition(event, { path: "event", value: "start" })).to
+        .be.false;
+      expect(matchesUntilCondition(event, { path: "data.missing", value: "" }))
+        .to.be.false;
+      expect(matchesUntilCondition("text", { path: "event", value: "done" })).to
+        .be.false;
+    });
+  });
+});
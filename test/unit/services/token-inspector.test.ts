@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import jwt from "jsonwebtoken";
+
+import {
+  describeTokenError,
+  inspectJwt,
+  isJwt,
+  isTokenError,
+} from "../../../src/services/token-inspector.js";
+
+const KEY_NAME = "appId.keyId";
+const SECRET = "key-secret";
+const NOW = Date.parse("2025-01-01T00:00:00Z");
+const nowSeconds = NOW / 1000;
+
+function sign(
+  claims: Record<string, unknown>,
+  options: { keyid?: string; secret?: string } = {},
+): string {
+  return jwt.sign(
+    {
+      exp: nowSeconds + 3600,
+      iat: nowSeconds,
+      "x-ably-capability": '{"*":["*"]}',
+      ...claims,
+    },
+    options.secret ?? SECRET,
+    { keyid: options.keyid ?? KEY_NAME },
+  );
+}
+
+const messages = (token: string, options = {}) =>
+  inspectJwt(token, { now: NOW, ...options }).issues.map(
+    (issue) => `${issue.level}: ${issue.message}`,
+  );
+
+describe("token-inspector", function () {
+  describe("inspectJwt", function () {
+    it("should decode the header and Ably claims", function () {
+      const inspection = inspectJwt(sign({ "x-ably-clientId": "alice" }), {
+        now: NOW,
+      });
+
+      expect(inspection.keyName).to.equal(KEY_NAME);
+      expect(inspection.clientId).to.equal("alice");
+      expect(inspection.capability).to.deep.equal({ "*": ["*"] });
+      expect(inspection.expiresAt).to.equal("2025-01-01T01:00:00.000Z");
+      expect(inspection.signature).to.equal("unverified");
+      expect(inspection.issues).to.be.empty;
+    });
+
+    it("should verify the signature with a matching key", function () {
+      const token = sign({});
+
+      expect(
+        inspectJwt(token, { apiKey: `${KEY_NAME}:${SECRET}`, now: NOW })
+          .signature,
+      ).to.equal("valid");
+      expect(
+        inspectJwt(token, { apiKey: `${KEY_NAME}:wrong`, now: NOW }).signature,
+      ).to.equal("invalid");
+    });
+
+    it("should flag a key name that does not match the key given", function () {
+      expect(
+        messages(sign({}), { apiKey: "appId.other:secret" }),
+      ).to.deep.equal([
+        'error: The token names key appId.keyId in "kid", but the key given is appId.other',
+      ]);
+    });
+
+    it("should flag expired tokens and missing claims", function () {
+      expect(
+        messages(
+          jwt.sign({ exp: nowSeconds - 60, iat: nowSeconds - 3600 }, SECRET),
+        ),
+      ).to.deep.equal([
+        'error: The header has no "kid"; it must be the key name (APP_ID.KEY_ID) of the key that signed the token',
+        "error: The token expired at 2024-12-31T23:59:00.000Z",
+        "warning: The token has no x-ably-capability claim, so it gets the full capability of its key",
+      ]);
+    });
+
+    it("should flag a client ID that conflicts with --client-id", function () {
+      expect(
+        messages(sign({ "x-ably-clientId": "alice" }), { clientId: "bob" }),
+      ).to.deep.equal([
+        'error: The token\'s client ID "alice" conflicts with --client-id "bob"',
+      ]);
+      expect(messages(sign({ "x-ably-clientId": "*" }), { clientId: "bob" })).to
+        .be.empty;
+    });
+
+    it("should flag an invalid capability claim", function () {
+      expect(
+        messages(sign({ "x-ably-capability": '{"chat":["pub"]}' }))[0],
+      ).to.include('Unknown operation "pub"');
+    });
+  });
+
+  describe("isJwt", function () {
+    it("should tell JWTs apart from Ably Tokens", function () {
+      expect(isJwt(sign({}))).to.be.true;
+      expect(isJwt("appId.HYQ6RQ3Wl8vKnWvKwv8ytxjPmTg1jVI6Lc4rQRC3bFt5")).to.be
+        .false;
+    });
+  });
+
+  describe("describeTokenError", function () {
+    it("should describe known token error codes", function () {
+      expect(describeTokenError(40_142)).to.equal("The token has expired");
+      expect(describeTokenError(12_345)).to.equal("The token was rejected");
+      expect(isTokenError(40_142)).to.be.true;
+      expect(isTokenError(80_003)).to.be.false;
+    });
+  });
+});
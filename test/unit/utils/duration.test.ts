@@ -0,0 +1,17 @@
+import { expect } from "chai";
+
+import { parseDuration } from "../../../src/utils/duration.js";
+
+describe("duration", function () {
+  describe("parseDuration", function () {
+    it("should accept seconds and unit suffixes", function () {
+      expect(parseDuration(30)).to.equal(30_000);
+      expect(parseDuration("500ms")).to.equal(500);
+      expect(parseDuration("90s")).to.equal(90_000);
+      expect(parseDuration("2m")).to.equal(120_000);
+      expect(parseDuration("1.5h")).to.equal(5_400_000);
+      expect(parseDuration("soon")).to.be.undefined;
+      expect(parseDuration("0s")).to.be.undefined;
+    });
+  });
+});